@@ -0,0 +1,53 @@
+/**
+ * Unit tests — LLM Budget (Vitest)
+ *
+ * Décision allow / downgrade / cached selon le cap le plus consommé
+ * (chauffeur par tier, global) et chaîne économique du downgrade.
+ *
+ * Exécution :
+ *   npx vitest run src/ai/__tests__/llmBudget.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { decideBudget, getGlobalBudgetCaps, BUDGET_DOWNGRADE_USE_CASE } from '../llmBudget';
+import { getRoutes } from '../llm/router';
+
+const ZERO = { dailyUsd: 0, monthlyUsd: 0 };
+
+describe('decideBudget', () => {
+  it('autorise sous 80% de tous les caps', () => {
+    const result = decideBudget('free', { dailyUsd: 0.01, monthlyUsd: 0.1 }, ZERO);
+    expect(result.decision).toBe('allow');
+    expect(result.reason).toBeNull();
+  });
+
+  it('dégrade à 80% du cap journalier du tier, sert le cache à 100%', () => {
+    expect(decideBudget('free', { dailyUsd: 0.045, monthlyUsd: 0.1 }, ZERO)).toMatchObject({
+      decision: 'downgrade',
+      reason: 'driver_daily',
+    });
+    expect(decideBudget('free', { dailyUsd: 0.05, monthlyUsd: 0.1 }, ZERO)).toMatchObject({
+      decision: 'cached',
+      reason: 'driver_daily',
+    });
+    // Même dépense, tier supérieur : toujours autorisé
+    expect(decideBudget('elite', { dailyUsd: 0.05, monthlyUsd: 0.1 }, ZERO).decision).toBe('allow');
+  });
+
+  it('le cap global prime quand il est le plus consommé', () => {
+    const global = { dailyUsd: 0, monthlyUsd: getGlobalBudgetCaps().monthlyUsd };
+    expect(decideBudget('elite', ZERO, global)).toMatchObject({
+      decision: 'cached',
+      reason: 'global_monthly',
+    });
+  });
+});
+
+describe('downgrade routing', () => {
+  it('ne contient que des modèles moins chers que la chaîne recommendation', () => {
+    const economy = getRoutes(BUDGET_DOWNGRADE_USE_CASE).map((r) => r.model);
+    expect(economy).not.toContain('claude-haiku-4-5-20251001');
+    expect(economy.length).toBeGreaterThan(0);
+  });
+});
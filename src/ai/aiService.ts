@@ -5,9 +5,25 @@
  * Combines LLM, RAG, and data tracking.
  */
 
-import { getOpenAIClient } from './llm/providers/OpenAIClient';
+import { routeCompletion, type RoutedCompletion } from './llm/router';
+import {
+  checkLLMBudget,
+  recordLLMSpend,
+  logLLMUsage,
+  BUDGET_DOWNGRADE_USE_CASE,
+  BUDGET_DOWNGRADE_MAX_TOKENS,
+  BUDGET_DOWNGRADE_CONTEXT_MESSAGES,
+  type BudgetDecision,
+} from './llmBudget';
 import { AJNAYA_BASE_SYSTEM_PROMPT } from '../constants/ajnayaPersonality';
-import { searchDocuments, buildRAGPrompt, buildContext } from './rag/retriever';
+import {
+  searchDocuments,
+  buildRAGPrompt,
+  buildContext,
+  buildCitations,
+  CITATION_INSTRUCTION,
+} from './rag/retriever';
+import { rerankResults } from './rag/reranker';
 import {
   getWeatherContext,
   getTrainContext,
@@ -27,18 +43,21 @@ import {
 import { getDriverContext, buildContextSummary } from '../data/featureStore';
 import { recordOutcomeAsync } from '../data/outcomes';
 import { trackEventAsync } from '../data/eventStore';
-import type { LLMMessage, LLMCompletionResponse } from './llm/types';
-import type { Conversation, ConversationContextType, SearchResult } from '../data/types';
+import type { LLMMessage } from './llm/types';
+import type { Conversation, ConversationContextType, RagCitation, SearchResult } from '../data/types';
 import { estimateCost } from './llm/types';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const DEFAULT_MODEL = 'gpt-4o-mini';
 const DEFAULT_TEMPERATURE = 0.7;
 const MAX_CONTEXT_MESSAGES = 10;
 const RAG_MAX_RESULTS = 5;
+// Candidats récupérés avant le rerank de 2e passe
+const RAG_CANDIDATES = 15;
+const MAX_TOKENS = 300;
+const QUICK_CACHE_PER_DRIVER = 5;
 
 // ============================================
 // SYSTEM PROMPTS
@@ -77,6 +96,8 @@ export interface AIResponse {
   conversationId: string;
   messageId: string;
   ragChunksUsed: string[];
+  /** Sources injected in the prompt, numbered like the [n] markers of the reply */
+  citations: RagCitation[];
   usage: {
     promptTokens: number;
     completionTokens: number;
@@ -84,6 +105,7 @@ export interface AIResponse {
   };
   costUsd: number;
   latencyMs: number;
+  budgetDecision: BudgetDecision;
 }
 
 /**
@@ -91,7 +113,6 @@ export interface AIResponse {
  */
 export async function processAIRequest(input: AIRequestInput): Promise<AIResponse> {
   const startTime = Date.now();
-  const llm = getOpenAIClient();
 
   // 1. Get or create conversation
   let conversation: Conversation;
@@ -118,23 +139,51 @@ export async function processAIRequest(input: AIRequestInput): Promise<AIRespons
     });
   }
 
+  // 1b. Budget check — over budget: cached reply, no LLM call
+  const budget = await checkLLMBudget(input.driverId);
+  if (budget.decision === 'cached') {
+    return createCachedResponse(conversation.id, input, startTime);
+  }
+
   // 2. Get conversation history
-  const history = await buildMessageHistory(conversation.id, MAX_CONTEXT_MESSAGES);
+  const downgraded = budget.decision === 'downgrade';
+  const history = await buildMessageHistory(
+    conversation.id,
+    downgraded ? BUDGET_DOWNGRADE_CONTEXT_MESSAGES : MAX_CONTEXT_MESSAGES,
+  );
 
   // 3. Build driver context
   const driverContextSummary = await buildContextSummary(input.driverId);
 
   // 4. RAG search (if enabled)
   let ragResults: SearchResult[] = [];
+  let citations: RagCitation[] = [];
   let ragContext = '';
 
   if (input.useRAG !== false) {
     try {
-      ragResults = await searchDocuments(input.message, {
-        maxResults: RAG_MAX_RESULTS,
+      const candidates = await searchDocuments(input.message, {
+        maxResults: RAG_CANDIDATES,
         threshold: 0.65,
       });
-      ragContext = buildContext(ragResults);
+
+      // 4b. Rerank (LLM scoring, lexical only when the budget is tight)
+      const reranked = await rerankResults(input.message, candidates, {
+        topN: RAG_MAX_RESULTS,
+        mode: downgraded ? 'lexical' : 'llm',
+      });
+      if (reranked.costUsd > 0) {
+        void logLLMUsage({
+          driverId: input.driverId,
+          source: 'rerank',
+          model: reranked.model,
+          costUsd: reranked.costUsd,
+        });
+      }
+
+      ragResults = reranked.results;
+      citations = await buildCitations(ragResults);
+      ragContext = buildContext(ragResults, citations);
     } catch (err) {
       console.error('[AIService] RAG search failed:', err);
     }
@@ -167,7 +216,8 @@ export async function processAIRequest(input: AIRequestInput): Promise<AIRespons
   try {
     const { needsSonarSearch, querySonar, formatSonarContext } =
       await import('../services/perplexitySonar.js');
-    if (needsSonarSearch(input.message)) {
+    // Budget serré : pas de recherche Sonar (appel facturé en plus du LLM)
+    if (!downgraded && needsSonarSearch(input.message)) {
       const sonarResult = await querySonar(input.message);
       if (sonarResult) {
         sonarContext = formatSonarContext(sonarResult);
@@ -200,37 +250,43 @@ export async function processAIRequest(input: AIRequestInput): Promise<AIRespons
     contentRedacted: input.message,
   });
 
-  // 9. Call LLM
-  let llmResponse: LLMCompletionResponse;
+  // 9. Call LLM (fallback chain of the context type)
+  let routed: RoutedCompletion;
   try {
-    llmResponse = await llm.complete({
-      messages,
-      model: input.model || DEFAULT_MODEL,
-      temperature: input.temperature ?? DEFAULT_TEMPERATURE,
-      maxTokens: 300,
-    });
+    routed = await routeCompletion(
+      downgraded ? BUDGET_DOWNGRADE_USE_CASE : conversation.context_type || 'recommendation',
+      {
+        messages,
+        model: downgraded ? undefined : input.model,
+        temperature: input.temperature ?? DEFAULT_TEMPERATURE,
+        maxTokens: downgraded ? BUDGET_DOWNGRADE_MAX_TOKENS : MAX_TOKENS,
+      },
+    );
   } catch (err) {
     console.error('[AIService] LLM call failed:', err);
     // Return fallback response
     return createFallbackResponse(conversation.id, startTime);
   }
+  const llmResponse = routed.response;
 
   // 10. Calculate cost
   const cost = estimateCost(
-    input.model || DEFAULT_MODEL,
+    routed.model,
     llmResponse.usage.promptTokens,
     llmResponse.usage.completionTokens,
   );
 
+  recordLLMSpend(input.driverId, cost.totalCost);
+
   // 11. Log assistant message
   const ragChunkIds = ragResults.map((r) => r.chunk_id);
   const assistantMessage = await logMessage({
     conversationId: conversation.id,
     role: 'assistant',
     contentRedacted: llmResponse.content,
-    ragChunksUsed: ragChunkIds,
+    ragChunksUsed: citations,
     model: llmResponse.model,
-    provider: 'openai',
+    provider: routed.provider,
     tokensInput: llmResponse.usage.promptTokens,
     tokensOutput: llmResponse.usage.completionTokens,
     latencyMs: llmResponse.latencyMs,
@@ -248,6 +304,9 @@ export async function processAIRequest(input: AIRequestInput): Promise<AIRespons
       conversation_id: conversation.id,
       context_type: conversation.context_type,
       model: llmResponse.model,
+      provider: routed.provider,
+      fallback_attempts: routed.attempts.length,
+      budget_decision: budget.decision,
       tokens_total: llmResponse.usage.totalTokens,
       rag_chunks_used: ragChunkIds.length,
       latency_ms: llmResponse.latencyMs,
@@ -265,9 +324,11 @@ export async function processAIRequest(input: AIRequestInput): Promise<AIRespons
     conversationId: conversation.id,
     messageId: assistantMessage.id,
     ragChunksUsed: ragChunkIds,
+    citations,
     usage: llmResponse.usage,
     costUsd: cost.totalCost,
     latencyMs: totalLatencyMs,
+    budgetDecision: budget.decision,
   };
 }
 
@@ -288,7 +349,7 @@ function buildFullSystemPrompt(
   }
 
   if (ragContext) {
-    fullPrompt += `\n\n═══ DOCUMENTS DE RÉFÉRENCE ═══\n${ragContext}`;
+    fullPrompt += `\n\n═══ DOCUMENTS DE RÉFÉRENCE ═══\n${ragContext}\n\n${CITATION_INSTRUCTION}`;
   }
 
   if (realtimeContext) {
@@ -319,6 +380,49 @@ function createFallbackResponse(conversationId: string, startTime: number): AIRe
     conversationId,
     messageId: '',
     ragChunksUsed: [],
+    citations: [],
+    usage: {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+    },
+    costUsd: 0,
+    latencyMs: Date.now() - startTime,
+    budgetDecision: 'allow',
+  };
+}
+
+/**
+ * Over-budget reply: served from the quick recommendation cache, logged at zero cost
+ */
+async function createCachedResponse(
+  conversationId: string,
+  input: AIRequestInput,
+  startTime: number,
+): Promise<AIResponse> {
+  const reply = getCachedQuickRecommendation(input.driverId, input.message);
+
+  await logMessage({
+    conversationId,
+    role: 'user',
+    contentRedacted: input.message,
+  });
+  const assistantMessage = await logMessage({
+    conversationId,
+    role: 'assistant',
+    contentRedacted: reply,
+    model: 'cache',
+    provider: 'cache',
+    costUsd: 0,
+    promptContextSummary: 'budget_cached',
+  });
+
+  return {
+    reply,
+    conversationId,
+    messageId: assistantMessage.id,
+    ragChunksUsed: [],
+    citations: [],
     usage: {
       promptTokens: 0,
       completionTokens: 0,
@@ -326,6 +430,7 @@ function createFallbackResponse(conversationId: string, startTime: number): AIRe
     },
     costUsd: 0,
     latencyMs: Date.now() - startTime,
+    budgetDecision: 'cached',
   };
 }
 
@@ -486,6 +591,35 @@ async function collectRealtimeContext(input: AIRequestInput): Promise<string> {
 // SPECIALIZED ENDPOINTS
 // ============================================
 
+// Last quick recommendations per driver, served when the LLM budget is exhausted
+const quickRecommendationCache = new Map<string, Array<{ query: string; reply: string }>>();
+
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function cacheQuickRecommendation(driverId: string, query: string, reply: string): void {
+  const entries = (quickRecommendationCache.get(driverId) || []).filter(
+    (e) => e.query !== normalizeQuery(query),
+  );
+  entries.unshift({ query: normalizeQuery(query), reply });
+  quickRecommendationCache.set(driverId, entries.slice(0, QUICK_CACHE_PER_DRIVER));
+}
+
+/**
+ * Cached quick recommendation: same query first, then the driver's latest one
+ */
+export function getCachedQuickRecommendation(driverId: string, query: string): string {
+  const entries = quickRecommendationCache.get(driverId) || [];
+  const exact = entries.find((e) => e.query === normalizeQuery(query));
+
+  return (
+    exact?.reply ||
+    entries[0]?.reply ||
+    "Je fais une pause d'analyse pour aujourd'hui. Reviens demain, je serai à fond sur tes zones."
+  );
+}
+
 /**
  * Get quick recommendation (no conversation tracking)
  */
@@ -494,7 +628,14 @@ export async function getQuickRecommendation(
   query: string,
 ): Promise<{ reply: string; latencyMs: number }> {
   const startTime = Date.now();
-  const llm = getOpenAIClient();
+
+  const budget = await checkLLMBudget(driverId);
+  if (budget.decision === 'cached') {
+    return {
+      reply: getCachedQuickRecommendation(driverId, query),
+      latencyMs: Date.now() - startTime,
+    };
+  }
 
   // Get driver context
   const driverContext = await buildContextSummary(driverId);
@@ -509,12 +650,26 @@ export async function getQuickRecommendation(
   ];
 
   try {
-    const response = await llm.complete({
-      messages,
-      model: 'gpt-4o-mini',
-      temperature: 0.7,
-      maxTokens: 200,
+    const downgraded = budget.decision === 'downgrade';
+    const { response, model, provider } = await routeCompletion(
+      downgraded ? BUDGET_DOWNGRADE_USE_CASE : 'recommendation',
+      {
+        messages,
+        temperature: 0.7,
+        maxTokens: downgraded ? BUDGET_DOWNGRADE_MAX_TOKENS : 200,
+      },
+    );
+
+    void logLLMUsage({
+      driverId,
+      source: 'quick_recommendation',
+      provider,
+      model,
+      tokensInput: response.usage.promptTokens,
+      tokensOutput: response.usage.completionTokens,
+      costUsd: estimateCost(model, response.usage.promptTokens, response.usage.completionTokens).totalCost,
     });
+    cacheQuickRecommendation(driverId, query, response.content);
 
     return {
       reply: response.content,
@@ -1,7 +1,7 @@
 /**
  * Ajnaya Stream Brain — réplique TypeScript du node n8n `Compose LLM Input`
  * (workflow `entry_widget_site`, HzU8GLyknmZD1zb1) pour permettre l'appel
- * direct à Anthropic en streaming depuis Railway.
+ * direct à Anthropic en streaming depuis Railway (via `AnthropicClient.stream()`).
  *
  * POURQUOI CE FICHIER EXISTE : le cerveau Pieuvre tourne aujourd'hui dans n8n
  * (webhook `ajnaya-respond`), qui répond en UN SEUL bloc JSON — impossible à
@@ -27,13 +27,8 @@ export const SONNET_MODEL = 'claude-sonnet-4-6';
 export const HAIKU_MODEL = 'claude-haiku-4-5-20251001';
 export const MAX_TOKENS = 280;
 export const TEMPERATURE = 0.65;
-
-// Tarifs $/token (audit Fable 5 : cost_usd était calculé au tarif Sonnet pour TOUT le trafic,
-// y compris Haiku ~3× moins cher → coût interne surestimé). Source de vérité unique.
-export const PRICING: Record<string, { in: number; out: number }> = {
-  [SONNET_MODEL]: { in: 0.000003, out: 0.000015 },
-  [HAIKU_MODEL]: { in: 0.000001, out: 0.000005 },
-};
+// Tarifs : MODEL_PRICING (src/ai/llm/types.ts) — source de vérité unique, par modèle
+// (audit Fable 5 : cost_usd était calculé au tarif Sonnet pour TOUT le trafic).
 
 // ─── Blocs statiques (copie verbatim du node n8n) ──────────────────────────
 
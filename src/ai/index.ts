@@ -14,6 +14,7 @@ export * from './rag';
 export {
   processAIRequest,
   getQuickRecommendation,
+  getCachedQuickRecommendation,
   completeConversation,
   AJNAYA_SYSTEM_PROMPT,
   SUPPORT_SYSTEM_PROMPT,
@@ -21,3 +22,7 @@ export {
 } from './aiService';
 
 export type { AIRequestInput, AIResponse } from './aiService';
+
+// LLM Budget
+export { checkLLMBudget, getLLMSpend } from './llmBudget';
+export type { BudgetDecision, BudgetCheckResult } from './llmBudget';
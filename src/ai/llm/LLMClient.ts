@@ -11,6 +11,7 @@ import type {
   LLMEmbeddingResponse,
   LLMProviderConfig,
   LLMProvider,
+  LLMStreamChunk,
 } from './types';
 
 /**
@@ -38,6 +39,12 @@ export abstract class LLMClient {
    */
   abstract complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
 
+  /**
+   * Stream a chat completion as text / tool-call deltas.
+   * The last chunk is always `{ type: 'done' }` carrying the aggregated response.
+   */
+  abstract stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>;
+
   /**
    * Generate embeddings for text
    */
@@ -91,4 +98,59 @@ export abstract class LLMClient {
 
     throw lastError;
   }
+
+  /**
+   * Helper: iterate the server-sent events of a streaming HTTP response
+   */
+  protected async *readServerSentEvents(
+    response: Response
+  ): AsyncGenerator<{ event: string | null; data: string }> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          let event: string | null = null;
+          const dataLines: string[] = [];
+          for (const line of rawEvent.split(/\r?\n/)) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+          }
+          if (dataLines.length > 0) {
+            yield { event, data: dataLines.join('\n') };
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Helper: parse tool-call arguments, tolerating malformed JSON from the model
+   */
+  protected parseToolArguments(raw: string | Record<string, unknown> | undefined): Record<string, unknown> {
+    if (!raw) return {};
+    if (typeof raw === 'object') return raw;
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      console.warn(`[LLMClient] Unparseable tool arguments: ${raw.substring(0, 100)}`);
+      return {};
+    }
+  }
 }
@@ -0,0 +1,80 @@
+/**
+ * Unit tests — CircuitBreaker (Vitest)
+ *
+ * Exécution :
+ *   npx vitest run src/ai/llm/__tests__/circuitBreaker.test.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { CircuitBreaker } from '../circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("s'ouvre après N échecs consécutifs", () => {
+    const breaker = new CircuitBreaker('openai', 3, 20_000, 60_000);
+
+    breaker.recordFailure(new Error('boom'));
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getSnapshot().state).toBe('open');
+    expect(breaker.getSnapshot().lastFailureReason).toBe('boom');
+  });
+
+  it('compte un appel trop lent comme un échec', () => {
+    const breaker = new CircuitBreaker('mistral', 1, 1_000, 60_000);
+
+    breaker.recordSuccess(5_000);
+    expect(breaker.getSnapshot().state).toBe('open');
+  });
+
+  it('laisse passer une seule sonde après le cooldown puis se referme', () => {
+    const breaker = new CircuitBreaker('anthropic', 1, 20_000, 60_000);
+    breaker.recordFailure(new Error('down'));
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(60_000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false); // une seule sonde en vol
+
+    breaker.recordSuccess(200);
+    expect(breaker.getSnapshot().state).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('se rouvre si la sonde échoue', () => {
+    const breaker = new CircuitBreaker('openai', 3, 20_000, 60_000);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(new Error('down'));
+
+    vi.advanceTimersByTime(60_000);
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure(new Error('still down'));
+
+    expect(breaker.getSnapshot().state).toBe('open');
+  });
+
+  it('libère la sonde si l\'appel est annulé', () => {
+    const breaker = new CircuitBreaker('openai', 3, 20_000, 60_000);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(new Error('down'));
+
+    vi.advanceTimersByTime(60_000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    breaker.recordAborted();
+
+    expect(breaker.getSnapshot().state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * FOREAS AI Platform V1 - Provider Circuit Breaker
+ * =================================================
+ * Per-provider breaker: opens after consecutive failures (errors or calls
+ * slower than the latency threshold), lets one probe through after the
+ * cooldown, and closes again on a successful probe.
+ */
+
+import type { LLMProvider } from './types';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const FAILURE_THRESHOLD = 3;
+const SLOW_CALL_THRESHOLD_MS = 20_000;
+const COOLDOWN_MS = 60_000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+  provider: LLMProvider;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: string | null;
+  lastFailureReason: string | null;
+  lastSuccessAt: string | null;
+  openedUntil: string | null;
+  totalCalls: number;
+  totalFailures: number;
+}
+
+// ============================================
+// BREAKER
+// ============================================
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastFailureAt: number | null = null;
+  private lastFailureReason: string | null = null;
+  private lastSuccessAt: number | null = null;
+  private totalCalls = 0;
+  private totalFailures = 0;
+
+  constructor(
+    public readonly provider: LLMProvider,
+    private failureThreshold: number = FAILURE_THRESHOLD,
+    private slowCallThresholdMs: number = SLOW_CALL_THRESHOLD_MS,
+    private cooldownMs: number = COOLDOWN_MS
+  ) {}
+
+  /**
+   * Whether a call may go through now. In half-open state only one probe is allowed.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+      this.probeInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a completed call. Calls slower than the threshold count as failures.
+   */
+  recordSuccess(latencyMs: number): void {
+    this.totalCalls++;
+
+    if (latencyMs > this.slowCallThresholdMs) {
+      this.registerFailure(`slow_call_${latencyMs}ms`);
+      return;
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+    this.lastSuccessAt = Date.now();
+  }
+
+  recordFailure(err: unknown): void {
+    this.totalCalls++;
+    this.registerFailure((err as Error)?.message || String(err));
+  }
+
+  /**
+   * Call aborted by the caller: neither success nor failure, but a half-open
+   * probe is released so the next call can probe again.
+   */
+  recordAborted(): void {
+    this.probeInFlight = false;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    // Refresh open → half_open transition without consuming the probe
+    const state =
+      this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs
+        ? 'half_open'
+        : this.state;
+
+    return {
+      provider: this.provider,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null,
+      lastFailureReason: this.lastFailureReason,
+      lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : null,
+      openedUntil:
+        state === 'open' ? new Date(this.openedAt + this.cooldownMs).toISOString() : null,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+    };
+  }
+
+  private registerFailure(reason: string): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.lastFailureReason = reason.substring(0, 200);
+    this.probeInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(
+          `[CircuitBreaker] ${this.provider} OPEN for ${this.cooldownMs}ms (${this.consecutiveFailures} failures, last: ${this.lastFailureReason})`
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// ============================================
+// REGISTRY (one breaker per provider, process-wide)
+// ============================================
+
+const breakers = new Map<LLMProvider, CircuitBreaker>();
+
+export function getCircuitBreaker(provider: LLMProvider): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
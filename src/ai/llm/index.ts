@@ -16,8 +16,16 @@ export {
   getOpenAIClient,
   MistralClient,
   getMistralClient,
+  AnthropicClient,
+  getAnthropicClient,
 } from './providers';
 
+// Routing (fallback chain + circuit breaker)
+export { routeCompletion, getRoutes, getLLMProvidersHealth } from './router';
+export type { LLMUseCase, LLMRoute, RoutedCompletion, LLMProviderHealth } from './router';
+export { CircuitBreaker, getCircuitBreaker } from './circuitBreaker';
+export type { CircuitState, CircuitBreakerSnapshot } from './circuitBreaker';
+
 // ============================================
 // FACTORY FUNCTION
 // ============================================
@@ -26,6 +34,7 @@ import type { LLMProvider, LLMProviderConfig } from './types';
 import { LLMClient } from './LLMClient';
 import { OpenAIClient } from './providers/OpenAIClient';
 import { MistralClient } from './providers/MistralClient';
+import { AnthropicClient } from './providers/AnthropicClient';
 
 /**
  * Create an LLM client for the specified provider
@@ -39,6 +48,8 @@ export function createLLMClient(
       return new OpenAIClient(config);
     case 'mistral':
       return new MistralClient(config);
+    case 'anthropic':
+      return new AnthropicClient(config);
     default:
       throw new Error(`Unknown LLM provider: ${provider}`);
   }
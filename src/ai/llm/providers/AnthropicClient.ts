@@ -0,0 +1,398 @@
+/**
+ * FOREAS AI Platform V1 - Anthropic Client
+ * =========================================
+ * Anthropic Messages API implementation of LLMClient.
+ *
+ * Anthropic ne fournit pas d'embeddings : `embed()` lève une erreur non
+ * retryable, les embeddings restent sur OpenAI/Mistral.
+ */
+
+import { LLMClient } from '../LLMClient';
+import type {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMEmbeddingRequest,
+  LLMEmbeddingResponse,
+  LLMMessage,
+  LLMProviderConfig,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolCall,
+} from '../types';
+import {
+  LLMError,
+  LLMRateLimitError,
+  LLMTimeoutError,
+  LLMAuthError,
+  estimateCost,
+} from '../types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+export class AnthropicClient extends LLMClient {
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config?: Partial<LLMProviderConfig>) {
+    const apiKey = config?.apiKey || process.env.ANTHROPIC_API_KEY || '';
+
+    super({
+      provider: 'anthropic',
+      apiKey,
+      baseUrl: config?.baseUrl || ANTHROPIC_API_URL,
+      defaultModel: config?.defaultModel || 'claude-sonnet-4-6',
+      maxRetries: config?.maxRetries || 3,
+      timeoutMs: config?.timeoutMs || 30000,
+    });
+
+    this.apiKey = apiKey;
+    this.baseUrl = config?.baseUrl || ANTHROPIC_API_URL;
+  }
+
+  get provider(): LLMProvider {
+    return 'anthropic';
+  }
+
+  getAvailableModels(): string[] {
+    return ['claude-sonnet-4-6', 'claude-sonnet-4-5', 'claude-haiku-4-5-20251001'];
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey && this.apiKey.length > 10);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    if (!this.isConfigured()) {
+      throw new LLMAuthError('anthropic');
+    }
+
+    const model = request.model || this.getDefaultModel();
+    const startTime = Date.now();
+    const body = this.buildMessagesBody(request, model);
+
+    return this.withRetry(async () => {
+      const response = await this.post(body, request.signal);
+      const data = await response.json();
+      const latencyMs = Date.now() - startTime;
+
+      const usage = {
+        promptTokens: data.usage?.input_tokens || 0,
+        completionTokens: data.usage?.output_tokens || 0,
+        totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+      };
+
+      const cost = estimateCost(model, usage.promptTokens, usage.completionTokens);
+
+      console.log(
+        `[Anthropic] Completed ${model}: ${usage.totalTokens} tokens, ${latencyMs}ms, $${cost.totalCost.toFixed(6)}`
+      );
+
+      const blocks: any[] = data.content || [];
+      const toolCalls: LLMToolCall[] = blocks
+        .filter((b) => b.type === 'tool_use')
+        .map((b) => ({ id: b.id, name: b.name, arguments: this.parseToolArguments(b.input) }));
+
+      return {
+        content: blocks
+          .filter((b) => b.type === 'text')
+          .map((b) => b.text)
+          .join(''),
+        model: data.model || model,
+        usage,
+        finishReason: STOP_REASONS[data.stop_reason] || data.stop_reason || 'stop',
+        latencyMs,
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+      };
+    });
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isConfigured()) {
+      throw new LLMAuthError('anthropic');
+    }
+
+    const model = request.model || this.getDefaultModel();
+    const startTime = Date.now();
+    const body = { ...this.buildMessagesBody(request, model), stream: true };
+
+    const response = await this.withRetry(() => this.post(body, request.signal));
+
+    let content = '';
+    let responseModel = model;
+    let finishReason = 'stop';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    // Anthropic indexes every content block; tool calls are renumbered from 0
+    const toolBlocks = new Map<number, { index: number; id: string; name: string; json: string }>();
+
+    for await (const { data } of this.readServerSentEvents(response)) {
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          responseModel = event.message?.model || model;
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const index = toolBlocks.size;
+            toolBlocks.set(event.index, {
+              index,
+              id: event.content_block.id,
+              name: event.content_block.name,
+              json: '',
+            });
+            yield {
+              type: 'tool_call_delta',
+              index,
+              id: event.content_block.id,
+              name: event.content_block.name,
+              argumentsDelta: '',
+            };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta') {
+            const block = toolBlocks.get(event.index);
+            if (block) {
+              block.json += event.delta.partial_json || '';
+              yield {
+                type: 'tool_call_delta',
+                index: block.index,
+                argumentsDelta: event.delta.partial_json || '',
+              };
+            }
+          }
+          break;
+
+        case 'message_delta':
+          if (event.delta?.stop_reason) {
+            finishReason = STOP_REASONS[event.delta.stop_reason] || event.delta.stop_reason;
+          }
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          break;
+
+        case 'error':
+          throw new LLMError(
+            event.error?.message || 'Anthropic stream error',
+            'anthropic',
+            undefined,
+            event.error?.type === 'overloaded_error'
+          );
+      }
+    }
+
+    const toolCalls = [...toolBlocks.values()].map((b) => ({
+      id: b.id,
+      name: b.name,
+      arguments: this.parseToolArguments(b.json),
+    }));
+
+    const usage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+    const latencyMs = Date.now() - startTime;
+    const cost = estimateCost(model, usage.promptTokens, usage.completionTokens);
+
+    console.log(
+      `[Anthropic] Streamed ${model}: ${usage.totalTokens} tokens, ${latencyMs}ms, $${cost.totalCost.toFixed(6)}`
+    );
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        model: responseModel,
+        usage,
+        finishReason,
+        latencyMs,
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+      },
+    };
+  }
+
+  async embed(_request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse> {
+    throw new LLMError('Anthropic does not provide embeddings', 'anthropic', 400, false);
+  }
+
+  private buildMessagesBody(request: LLMCompletionRequest, model: string): Record<string, unknown> {
+    const system = request.messages
+      .filter((m) => m.role === 'system' && m.content.trim())
+      .map((m) => ({
+        type: 'text',
+        text: m.content,
+        ...(m.cache ? { cache_control: { type: 'ephemeral' } } : {}),
+      }));
+
+    const body: Record<string, unknown> = {
+      model,
+      system: system.length ? system : undefined,
+      messages: this.toAnthropicMessages(request.messages.filter((m) => m.role !== 'system')),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1024,
+      top_p: request.topP,
+      stop_sequences: request.stop,
+    };
+
+    if (request.tools?.length) {
+      body.tools = request.tools.map((t) => ({
+        name: t.name,
+        description: t.description,
+        input_schema: t.parameters,
+      }));
+
+      const choice = request.toolChoice;
+      if (choice === 'none') body.tool_choice = { type: 'none' };
+      else if (choice === 'required') body.tool_choice = { type: 'any' };
+      else if (choice && typeof choice === 'object') {
+        body.tool_choice = { type: 'tool', name: choice.name };
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * Map unified messages to Anthropic content blocks.
+   * Consecutive tool results are merged into a single user turn, as the API requires.
+   */
+  private toAnthropicMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+    const result: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+
+    for (const m of messages) {
+      if (m.role === 'tool') {
+        const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: m.content };
+        const last = result[result.length - 1];
+        if (last?.role === 'user' && Array.isArray(last.content)) {
+          last.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        result.push({
+          role: 'assistant',
+          content: [
+            ...(m.content ? [{ type: 'text', text: m.content }] : []),
+            ...m.toolCalls.map((tc) => ({
+              type: 'tool_use',
+              id: tc.id,
+              name: tc.name,
+              input: tc.arguments,
+            })),
+          ],
+        });
+        continue;
+      }
+
+      result.push({ role: m.role === 'assistant' ? 'assistant' : 'user', content: m.content });
+    }
+
+    return result;
+  }
+
+  /**
+   * POST /messages. The timeout only covers the wait for response headers;
+   * the caller's signal stays linked for the whole stream.
+   */
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs || 30000);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      return response;
+    } catch (err: any) {
+      clearTimeout(timeoutId);
+
+      if (signal?.aborted) {
+        throw new LLMError('Request aborted by caller', 'anthropic', 499, false);
+      }
+      if (err.name === 'AbortError') {
+        throw new LLMTimeoutError('anthropic');
+      }
+      throw err;
+    }
+  }
+
+  private async handleErrorResponse(response: Response): Promise<never> {
+    const status = response.status;
+    let errorMessage = `Anthropic API error: ${status}`;
+
+    try {
+      const data = await response.json();
+      errorMessage = data.error?.message || errorMessage;
+    } catch {
+      // Ignore JSON parse errors
+    }
+
+    if (status === 401) {
+      throw new LLMAuthError('anthropic');
+    }
+
+    if (status === 429) {
+      const retryAfter = response.headers.get('retry-after');
+      throw new LLMRateLimitError(
+        'anthropic',
+        retryAfter ? parseInt(retryAfter, 10) * 1000 : undefined
+      );
+    }
+
+    // 529 = overloaded
+    if (status >= 500) {
+      throw new LLMError(errorMessage, 'anthropic', status, true);
+    }
+
+    throw new LLMError(errorMessage, 'anthropic', status, false);
+  }
+}
+
+// Singleton instance
+let _anthropicClient: AnthropicClient | null = null;
+
+export function getAnthropicClient(): AnthropicClient {
+  if (!_anthropicClient) {
+    _anthropicClient = new AnthropicClient();
+  }
+  return _anthropicClient;
+}
@@ -15,6 +15,7 @@ import type {
   LLMEmbeddingResponse,
   LLMProviderConfig,
   LLMProvider,
+  LLMStreamChunk,
 } from '../types';
 import {
   LLMError,
@@ -23,6 +24,12 @@ import {
   LLMAuthError,
   estimateCost,
 } from '../types';
+import {
+  openAICompatibleStream,
+  parseOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './openaiCompat';
 
 const MISTRAL_API_URL = 'https://api.mistral.ai/v1';
 
@@ -78,17 +85,7 @@ export class MistralClient extends LLMClient {
     const model = request.model || this.getDefaultModel();
     const startTime = Date.now();
 
-    const body = {
-      model,
-      messages: request.messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.maxTokens ?? 1024,
-      top_p: request.topP,
-      stream: false,
-    };
+    const body = { ...this.buildChatBody(request, model), stream: false };
 
     return this.withRetry(async () => {
       const controller = new AbortController();
@@ -135,6 +132,9 @@ export class MistralClient extends LLMClient {
           usage,
           finishReason: data.choices?.[0]?.finish_reason || 'stop',
           latencyMs,
+          toolCalls: parseOpenAIToolCalls(data.choices?.[0]?.message?.tool_calls, (raw) =>
+            this.parseToolArguments(raw)
+          ),
         };
       } catch (err: any) {
         clearTimeout(timeoutId);
@@ -147,6 +147,40 @@ export class MistralClient extends LLMClient {
     });
   }
 
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isConfigured()) {
+      console.warn('[MistralClient] Not configured - streaming stub response');
+      // STUB: Stream the mock response as a single chunk
+      const stub = this.stubCompletion(request);
+      yield { type: 'text', text: stub.content };
+      yield { type: 'done', response: stub };
+      return;
+    }
+
+    const model = request.model || this.getDefaultModel();
+    const startTime = Date.now();
+
+    const body = { ...this.buildChatBody(request, model), stream: true };
+
+    const response = await this.withRetry(() => this.openStream(body, request.signal));
+
+    for await (const chunk of openAICompatibleStream(
+      this.readServerSentEvents(response),
+      model,
+      startTime,
+      (raw) => this.parseToolArguments(raw)
+    )) {
+      if (chunk.type === 'done') {
+        const { usage, latencyMs } = chunk.response;
+        const cost = estimateCost(model, usage.promptTokens, usage.completionTokens);
+        console.log(
+          `[Mistral] Streamed ${model}: ${usage.totalTokens} tokens, ${latencyMs}ms, $${cost.totalCost.toFixed(6)}`
+        );
+      }
+      yield chunk;
+    }
+  }
+
   async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse> {
     if (!this.isConfigured()) {
       console.warn('[MistralClient] Not configured - returning stub embeddings');
@@ -264,6 +298,60 @@ export class MistralClient extends LLMClient {
     };
   }
 
+  private buildChatBody(request: LLMCompletionRequest, model: string): Record<string, unknown> {
+    return {
+      model,
+      messages: toOpenAIMessages(request.messages),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1024,
+      top_p: request.topP,
+      ...toOpenAITools(request.tools, request.toolChoice, 'any'),
+    };
+  }
+
+  /**
+   * Open a streaming request. The timeout only covers the wait for response headers;
+   * the caller's signal stays linked for the whole stream.
+   */
+  private async openStream(
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs || 30000);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      return response;
+    } catch (err: any) {
+      clearTimeout(timeoutId);
+
+      if (signal?.aborted) {
+        throw new LLMError('Request aborted by caller', 'mistral', 499, false);
+      }
+      if (err.name === 'AbortError') {
+        throw new LLMTimeoutError('mistral');
+      }
+      throw err;
+    }
+  }
+
   private async handleErrorResponse(response: Response): Promise<never> {
     const status = response.status;
     let errorMessage = `Mistral API error: ${status}`;
@@ -12,6 +12,7 @@ import type {
   LLMEmbeddingResponse,
   LLMProviderConfig,
   LLMProvider,
+  LLMStreamChunk,
 } from '../types';
 import {
   LLMError,
@@ -20,6 +21,12 @@ import {
   LLMAuthError,
   estimateCost,
 } from '../types';
+import {
+  openAICompatibleStream,
+  parseOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './openaiCompat';
 
 const OPENAI_API_URL = 'https://api.openai.com/v1';
 
@@ -76,20 +83,7 @@ export class OpenAIClient extends LLMClient {
     const model = request.model || this.getDefaultModel();
     const startTime = Date.now();
 
-    const body = {
-      model,
-      messages: request.messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.maxTokens ?? 1024,
-      top_p: request.topP,
-      frequency_penalty: request.frequencyPenalty,
-      presence_penalty: request.presencePenalty,
-      stop: request.stop,
-      stream: false,
-    };
+    const body = { ...this.buildChatBody(request, model), stream: false };
 
     return this.withRetry(async () => {
       const controller = new AbortController();
@@ -136,6 +130,9 @@ export class OpenAIClient extends LLMClient {
           usage,
           finishReason: data.choices?.[0]?.finish_reason || 'stop',
           latencyMs,
+          toolCalls: parseOpenAIToolCalls(data.choices?.[0]?.message?.tool_calls, (raw) =>
+            this.parseToolArguments(raw)
+          ),
         };
       } catch (err: any) {
         clearTimeout(timeoutId);
@@ -148,6 +145,39 @@ export class OpenAIClient extends LLMClient {
     });
   }
 
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isConfigured()) {
+      throw new LLMAuthError('openai');
+    }
+
+    const model = request.model || this.getDefaultModel();
+    const startTime = Date.now();
+
+    const body = {
+      ...this.buildChatBody(request, model),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const response = await this.withRetry(() => this.openStream(body, request.signal));
+
+    for await (const chunk of openAICompatibleStream(
+      this.readServerSentEvents(response),
+      model,
+      startTime,
+      (raw) => this.parseToolArguments(raw)
+    )) {
+      if (chunk.type === 'done') {
+        const { usage, latencyMs } = chunk.response;
+        const cost = estimateCost(model, usage.promptTokens, usage.completionTokens);
+        console.log(
+          `[OpenAI] Streamed ${model}: ${usage.totalTokens} tokens, ${latencyMs}ms, $${cost.totalCost.toFixed(6)}`
+        );
+      }
+      yield chunk;
+    }
+  }
+
   async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse> {
     if (!this.isConfigured()) {
       throw new LLMAuthError('openai');
@@ -212,6 +242,63 @@ export class OpenAIClient extends LLMClient {
     });
   }
 
+  private buildChatBody(request: LLMCompletionRequest, model: string): Record<string, unknown> {
+    return {
+      model,
+      messages: toOpenAIMessages(request.messages),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1024,
+      top_p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty,
+      stop: request.stop,
+      ...toOpenAITools(request.tools, request.toolChoice),
+    };
+  }
+
+  /**
+   * Open a streaming request. The timeout only covers the wait for response headers;
+   * the caller's signal stays linked for the whole stream.
+   */
+  private async openStream(
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs || 30000);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      return response;
+    } catch (err: any) {
+      clearTimeout(timeoutId);
+
+      if (signal?.aborted) {
+        throw new LLMError('Request aborted by caller', 'openai', 499, false);
+      }
+      if (err.name === 'AbortError') {
+        throw new LLMTimeoutError('openai');
+      }
+      throw err;
+    }
+  }
+
   private async handleErrorResponse(response: Response): Promise<never> {
     const status = response.status;
     let errorMessage = `OpenAI API error: ${status}`;
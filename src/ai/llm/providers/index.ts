@@ -6,3 +6,4 @@
 
 export { OpenAIClient, getOpenAIClient } from './OpenAIClient';
 export { MistralClient, getMistralClient } from './MistralClient';
+export { AnthropicClient, getAnthropicClient } from './AnthropicClient';
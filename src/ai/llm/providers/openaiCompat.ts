@@ -0,0 +1,218 @@
+/**
+ * FOREAS AI Platform V1 - OpenAI-compatible wire format
+ * =====================================================
+ * Shared mapping for providers speaking the OpenAI chat-completions
+ * format (OpenAI, Mistral): messages, tools and streamed deltas.
+ */
+
+import type {
+  LLMCompletionResponse,
+  LLMMessage,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition,
+} from '../types';
+
+/**
+ * Map unified messages to the OpenAI chat format
+ */
+export function toOpenAIMessages(messages: LLMMessage[]): Record<string, unknown>[] {
+  return messages.map((m) => {
+    if (m.role === 'tool') {
+      return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+    }
+
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map((tc) => ({
+          id: tc.id,
+          type: 'function',
+          function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+        })),
+      };
+    }
+
+    return { role: m.role, content: m.content };
+  });
+}
+
+/**
+ * Parse OpenAI-format messages received by our OpenAI-compatible endpoints
+ * (ElevenLabs / Tavus custom LLM) into unified messages
+ */
+export function fromOpenAIMessages(rawMessages: any[]): LLMMessage[] {
+  if (!Array.isArray(rawMessages)) return [];
+
+  return rawMessages
+    .filter((m: any) => ['system', 'user', 'assistant', 'tool'].includes(m?.role))
+    .map((m: any): LLMMessage => {
+      const content = Array.isArray(m.content)
+        ? m.content
+            .filter((part: any) => part?.type === 'text')
+            .map((part: any) => part.text)
+            .join('')
+        : String(m.content ?? '');
+
+      if (m.role === 'tool') {
+        return { role: 'tool', content, toolCallId: m.tool_call_id };
+      }
+
+      const toolCalls = m.role === 'assistant' ? parseOpenAIToolCalls(m.tool_calls, parseArgumentsLoose) : undefined;
+      return { role: m.role, content, ...(toolCalls ? { toolCalls } : {}) };
+    });
+}
+
+/**
+ * Parse OpenAI-format tool definitions into unified ones
+ */
+export function fromOpenAITools(rawTools: any[] | undefined): LLMToolDefinition[] {
+  if (!Array.isArray(rawTools)) return [];
+
+  return rawTools
+    .filter((t: any) => t?.function?.name)
+    .map((t: any) => ({
+      name: t.function.name,
+      description: t.function.description || '',
+      parameters: t.function.parameters || { type: 'object', properties: {} },
+    }));
+}
+
+function parseArgumentsLoose(raw: string | Record<string, unknown> | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  if (typeof raw === 'object') return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Map unified tool definitions (+ choice) to the OpenAI request fields.
+ * `requiredKeyword` differs per provider ('required' for OpenAI, 'any' for Mistral).
+ */
+export function toOpenAITools(
+  tools: LLMToolDefinition[] | undefined,
+  toolChoice: LLMToolChoice | undefined,
+  requiredKeyword: string = 'required'
+): Record<string, unknown> {
+  if (!tools?.length) return {};
+
+  let tool_choice: unknown = 'auto';
+  if (toolChoice === 'none') tool_choice = 'none';
+  else if (toolChoice === 'required') tool_choice = requiredKeyword;
+  else if (toolChoice && typeof toolChoice === 'object') {
+    tool_choice = { type: 'function', function: { name: toolChoice.name } };
+  }
+
+  return {
+    tools: tools.map((t) => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: t.parameters },
+    })),
+    tool_choice,
+  };
+}
+
+/**
+ * Parse the `tool_calls` of a non-streamed OpenAI-format message
+ */
+export function parseOpenAIToolCalls(
+  rawToolCalls: any[] | undefined,
+  parseArguments: (raw: string) => Record<string, unknown>
+): LLMToolCall[] | undefined {
+  if (!rawToolCalls?.length) return undefined;
+
+  return rawToolCalls.map((tc: any) => ({
+    id: tc.id,
+    name: tc.function?.name || '',
+    arguments: parseArguments(tc.function?.arguments),
+  }));
+}
+
+/**
+ * Turn OpenAI-format SSE events into unified stream chunks.
+ * Tool-call fragments are accumulated by index and assembled in the final `done` chunk.
+ */
+export async function* openAICompatibleStream(
+  events: AsyncIterable<{ event: string | null; data: string }>,
+  model: string,
+  startTime: number,
+  parseArguments: (raw: string) => Record<string, unknown>
+): AsyncGenerator<LLMStreamChunk> {
+  let content = '';
+  let finishReason = 'stop';
+  let responseModel = model;
+  let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  for await (const { data } of events) {
+    if (data === '[DONE]') break;
+
+    let payload: any;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (payload.model) responseModel = payload.model;
+    if (payload.usage) {
+      usage = {
+        promptTokens: payload.usage.prompt_tokens || 0,
+        completionTokens: payload.usage.completion_tokens || 0,
+        totalTokens: payload.usage.total_tokens || 0,
+      };
+    }
+
+    const choice = payload.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta || {};
+    if (delta.content) {
+      content += delta.content;
+      yield { type: 'text', text: delta.content };
+    }
+
+    for (const tc of delta.tool_calls || []) {
+      const index: number = tc.index ?? pendingToolCalls.size;
+      const pending = pendingToolCalls.get(index) || { id: '', name: '', arguments: '' };
+      if (tc.id) pending.id = tc.id;
+      if (tc.function?.name) pending.name = tc.function.name;
+      const argumentsDelta =
+        typeof tc.function?.arguments === 'string'
+          ? tc.function.arguments
+          : JSON.stringify(tc.function?.arguments ?? '');
+      pending.arguments += argumentsDelta;
+      pendingToolCalls.set(index, pending);
+
+      yield {
+        type: 'tool_call_delta',
+        index,
+        id: tc.id,
+        name: tc.function?.name,
+        argumentsDelta,
+      };
+    }
+  }
+
+  const toolCalls = [...pendingToolCalls.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, tc]) => ({ id: tc.id, name: tc.name, arguments: parseArguments(tc.arguments) }));
+
+  const response: LLMCompletionResponse = {
+    content,
+    model: responseModel,
+    usage,
+    finishReason,
+    latencyMs: Date.now() - startTime,
+    toolCalls: toolCalls.length ? toolCalls : undefined,
+  };
+
+  yield { type: 'done', response };
+}
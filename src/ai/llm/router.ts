@@ -0,0 +1,219 @@
+/**
+ * FOREAS AI Platform V1 - LLM Router
+ * ===================================
+ * Ordered provider/model fallback chain per use case, guarded by a
+ * per-provider circuit breaker.
+ *
+ * Chaîne surchargeable par env : LLM_ROUTE_RECOMMENDATION="openai:gpt-4o-mini,mistral:mistral-small"
+ */
+
+import type { LLMClient } from './LLMClient';
+import { getCircuitBreaker } from './circuitBreaker';
+import type { CircuitBreakerSnapshot } from './circuitBreaker';
+import { AnthropicClient } from './providers/AnthropicClient';
+import { MistralClient } from './providers/MistralClient';
+import { OpenAIClient } from './providers/OpenAIClient';
+import type { LLMCompletionRequest, LLMCompletionResponse, LLMProvider } from './types';
+import { LLMError } from './types';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export type LLMUseCase = 'recommendation' | 'support' | 'onboarding' | 'rerank' | 'economy' | 'moderation' | 'call_analysis';
+
+export interface LLMRoute {
+  provider: LLMProvider;
+  model: string;
+}
+
+const DEFAULT_ROUTES: Record<LLMUseCase, LLMRoute[]> = {
+  recommendation: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' },
+    { provider: 'mistral', model: 'mistral-small' },
+  ],
+  support: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'mistral', model: 'mistral-small' },
+    { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' },
+  ],
+  onboarding: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'mistral', model: 'mistral-small' },
+    { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' },
+  ],
+  // Scoring RAG de 2e passe : modèles rapides uniquement
+  rerank: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' },
+  ],
+  // Budget LLM à 80% (checkLLMBudget 'downgrade') : modèles les moins chers, sans repli coûteux
+  economy: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'mistral', model: 'mistral-7b-instruct' },
+  ],
+  // Modération des textes publiés (avis clients, réponses chauffeur) : JSON strict
+  moderation: [
+    { provider: 'anthropic', model: 'claude-sonnet-4-6' },
+    { provider: 'openai', model: 'gpt-4o-mini' },
+  ],
+  // Analyse des transcripts d'appels Ajnaya (objections, rappel, conformité)
+  call_analysis: [
+    { provider: 'anthropic', model: 'claude-sonnet-4-6' },
+    { provider: 'openai', model: 'gpt-4o' },
+  ],
+};
+
+const PROVIDERS: LLMProvider[] = ['openai', 'mistral', 'anthropic'];
+
+// Le routeur gère lui-même le repli : un seul retry par provider avant de passer au suivant
+const ROUTED_CLIENT_MAX_RETRIES = 1;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RoutedCompletion {
+  response: LLMCompletionResponse;
+  provider: LLMProvider;
+  model: string;
+  attempts: Array<{ provider: LLMProvider; model: string; error: string }>;
+}
+
+export interface LLMProviderHealth {
+  provider: LLMProvider;
+  configured: boolean;
+  breaker: CircuitBreakerSnapshot;
+}
+
+// ============================================
+// CLIENTS
+// ============================================
+
+const routedClients = new Map<LLMProvider, LLMClient>();
+
+function getRoutedClient(provider: LLMProvider): LLMClient {
+  let client = routedClients.get(provider);
+  if (!client) {
+    const config = { maxRetries: ROUTED_CLIENT_MAX_RETRIES };
+    switch (provider) {
+      case 'openai':
+        client = new OpenAIClient(config);
+        break;
+      case 'mistral':
+        client = new MistralClient(config);
+        break;
+      case 'anthropic':
+        client = new AnthropicClient(config);
+        break;
+    }
+    routedClients.set(provider, client);
+  }
+  return client;
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+function parseRouteOverride(raw: string | undefined): LLMRoute[] | null {
+  if (!raw) return null;
+
+  const routes = raw
+    .split(',')
+    .map((entry) => entry.trim().split(':'))
+    .filter(([provider, model]) => PROVIDERS.includes(provider as LLMProvider) && model)
+    .map(([provider, model]) => ({ provider: provider as LLMProvider, model }));
+
+  return routes.length ? routes : null;
+}
+
+/**
+ * Get the ordered fallback chain for a use case.
+ * A requested model is tried first, on the provider that serves it.
+ */
+export function getRoutes(useCase: LLMUseCase, preferredModel?: string): LLMRoute[] {
+  const routes =
+    parseRouteOverride(process.env[`LLM_ROUTE_${useCase.toUpperCase()}`]) ||
+    DEFAULT_ROUTES[useCase] ||
+    DEFAULT_ROUTES.recommendation;
+
+  if (!preferredModel) return routes;
+
+  const provider = PROVIDERS.find((p) =>
+    getRoutedClient(p).getAvailableModels().includes(preferredModel)
+  );
+  if (!provider) return routes;
+
+  return [
+    { provider, model: preferredModel },
+    ...routes.filter((r) => !(r.provider === provider && r.model === preferredModel)),
+  ];
+}
+
+// ============================================
+// ROUTING
+// ============================================
+
+/**
+ * Run a completion through the fallback chain of a use case.
+ * Providers that are not configured or whose breaker is open are skipped.
+ */
+export async function routeCompletion(
+  useCase: LLMUseCase,
+  request: LLMCompletionRequest
+): Promise<RoutedCompletion> {
+  const attempts: RoutedCompletion['attempts'] = [];
+
+  for (const route of getRoutes(useCase, request.model)) {
+    const client = getRoutedClient(route.provider);
+    if (!client.isConfigured()) continue;
+
+    const breaker = getCircuitBreaker(route.provider);
+    if (!breaker.canRequest()) {
+      attempts.push({ ...route, error: 'circuit_open' });
+      continue;
+    }
+
+    try {
+      const response = await client.complete({ ...request, model: route.model });
+      breaker.recordSuccess(response.latencyMs);
+
+      if (attempts.length > 0) {
+        console.warn(
+          `[LLMRouter] ${useCase}: answered by ${route.provider}/${route.model} after ${attempts.length} fallback(s)`
+        );
+      }
+
+      return { response, provider: route.provider, model: route.model, attempts };
+    } catch (err) {
+      if (request.signal?.aborted) {
+        breaker.recordAborted();
+        throw err;
+      }
+
+      breaker.recordFailure(err);
+      attempts.push({ ...route, error: (err as Error)?.message || String(err) });
+      console.warn(`[LLMRouter] ${useCase}: ${route.provider}/${route.model} failed, falling back`);
+    }
+  }
+
+  throw new LLMError(
+    `All LLM providers failed for ${useCase}: ${attempts.map((a) => `${a.provider}(${a.error})`).join(', ') || 'none configured'}`,
+    attempts[attempts.length - 1]?.provider || 'openai',
+    503,
+    false
+  );
+}
+
+/**
+ * Provider configuration + breaker state, for health endpoints
+ */
+export function getLLMProvidersHealth(): LLMProviderHealth[] {
+  return PROVIDERS.map((provider) => ({
+    provider,
+    configured: getRoutedClient(provider).isConfigured(),
+    breaker: getCircuitBreaker(provider).getSnapshot(),
+  }));
+}
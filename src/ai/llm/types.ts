@@ -8,11 +8,36 @@
 // MESSAGE TYPES
 // ============================================
 
-export type LLMRole = 'system' | 'user' | 'assistant';
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
 
 export interface LLMMessage {
   role: LLMRole;
   content: string;
+  /** Tool calls emitted by the assistant (role: 'assistant') */
+  toolCalls?: LLMToolCall[];
+  /** Id of the tool call this message answers (role: 'tool') */
+  toolCallId?: string;
+  /** Prompt caching hint — honored by Anthropic, ignored elsewhere */
+  cache?: boolean;
+}
+
+// ============================================
+// TOOL CALLING
+// ============================================
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool arguments */
+  parameters: Record<string, unknown>;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
 }
 
 // ============================================
@@ -29,6 +54,10 @@ export interface LLMCompletionRequest {
   presencePenalty?: number;
   stop?: string[];
   stream?: boolean;
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  /** Aborts the request (and an ongoing stream) when fired */
+  signal?: AbortSignal;
 }
 
 export interface LLMCompletionResponse {
@@ -39,10 +68,26 @@ export interface LLMCompletionResponse {
     completionTokens: number;
     totalTokens: number;
   };
-  finishReason: 'stop' | 'length' | 'content_filter' | 'null' | string;
+  finishReason: 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'null' | string;
   latencyMs: number;
+  toolCalls?: LLMToolCall[];
 }
 
+// ============================================
+// STREAMING TYPES
+// ============================================
+
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | {
+      type: 'tool_call_delta';
+      index: number;
+      id?: string;
+      name?: string;
+      argumentsDelta: string;
+    }
+  | { type: 'done'; response: LLMCompletionResponse };
+
 // ============================================
 // EMBEDDING TYPES
 // ============================================
@@ -106,6 +151,11 @@ export const MODEL_PRICING: Record<string, { input: number; output: number }> =
   'mistral-large': { input: 4, output: 12 },
   'mistral-embed': { input: 0.1, output: 0 },
 
+  // Anthropic
+  'claude-sonnet-4-6': { input: 3, output: 15 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5-20251001': { input: 1, output: 5 },
+
   // Default fallback
   default: { input: 1, output: 3 },
 };
@@ -0,0 +1,249 @@
+/**
+ * FOREAS AI Platform V1 - LLM Budget
+ * ===================================
+ * Daily / monthly LLM cost caps per driver (by subscription tier) and
+ * globally, summed in the database (`llm_spend_totals`) from
+ * `ai_messages.cost_usd` + `ai_llm_usage` (calls outside conversations).
+ *
+ * Dégradation progressive (jamais de refus sec) :
+ * - < 80% des caps        → allow
+ * - ≥ 80% d'un cap        → downgrade (chaîne économique, historique et réponse plus courts)
+ * - ≥ 100% d'un cap       → cached (dernière getQuickRecommendation en cache, 0 appel LLM)
+ */
+
+import { getSupabaseAdmin } from '../helpers/supabase';
+import type { UserTier } from '../services/supa';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export interface BudgetCaps {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+const TIER_CAPS: Record<UserTier, BudgetCaps> = {
+  free: { dailyUsd: 0.05, monthlyUsd: 0.5 },
+  pro: { dailyUsd: 0.3, monthlyUsd: 5 },
+  elite: { dailyUsd: 1, monthlyUsd: 15 },
+};
+
+const GLOBAL_CAPS: BudgetCaps = {
+  dailyUsd: Number(process.env.LLM_BUDGET_GLOBAL_DAILY_USD) || 20,
+  monthlyUsd: Number(process.env.LLM_BUDGET_GLOBAL_MONTHLY_USD) || 300,
+};
+
+const DOWNGRADE_RATIO = 0.8;
+
+/** Cheaper settings applied on `downgrade` */
+export const BUDGET_DOWNGRADE_USE_CASE = 'economy' as const;
+export const BUDGET_DOWNGRADE_MAX_TOKENS = 150;
+export const BUDGET_DOWNGRADE_CONTEXT_MESSAGES = 4;
+
+// Spend totals are cached briefly: one query per driver per minute at most
+const SPEND_CACHE_TTL_MS = 60_000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BudgetDecision = 'allow' | 'downgrade' | 'cached';
+
+export interface BudgetSpend {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+export interface BudgetCheckResult {
+  decision: BudgetDecision;
+  tier: UserTier;
+  /** Which cap drove the decision (null when allowed) */
+  reason: 'driver_daily' | 'driver_monthly' | 'global_daily' | 'global_monthly' | null;
+  driver: BudgetSpend & { caps: BudgetCaps };
+  global: BudgetSpend & { caps: BudgetCaps };
+}
+
+// ============================================
+// SPEND QUERIES
+// ============================================
+
+const spendCache = new Map<string, { spend: BudgetSpend; expiresAt: number }>();
+
+function periodStarts(now: Date = new Date()): { dayStart: string; monthStart: string } {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  const month = new Date(day);
+  month.setDate(1);
+  return { dayStart: day.toISOString(), monthStart: month.toISOString() };
+}
+
+/**
+ * Month-to-date and day-to-date LLM spend. `driverId = null` → global spend.
+ */
+export async function getLLMSpend(driverId: string | null): Promise<BudgetSpend> {
+  const cacheKey = driverId || '__global__';
+  const cached = spendCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.spend;
+
+  const { dayStart, monthStart } = periodStarts();
+  const { data, error } = await getSupabaseAdmin().rpc('llm_spend_totals', {
+    p_driver_id: driverId,
+    p_day_start: dayStart,
+    p_month_start: monthStart,
+  });
+
+  if (error) {
+    console.error('[LLMBudget] Spend query failed:', error.message);
+    throw new Error(`Failed to compute LLM spend: ${error.message}`);
+  }
+
+  const totals = (Array.isArray(data) ? data[0] : data) as
+    | { daily_usd: number | string | null; monthly_usd: number | string | null }
+    | undefined;
+  const spend = {
+    dailyUsd: Number(totals?.daily_usd) || 0,
+    monthlyUsd: Number(totals?.monthly_usd) || 0,
+  };
+
+  spendCache.set(cacheKey, { spend, expiresAt: Date.now() + SPEND_CACHE_TTL_MS });
+  return spend;
+}
+
+/**
+ * Add a fresh cost to the cached totals, so caps react before the cache expires
+ */
+export function recordLLMSpend(driverId: string | null, costUsd: number): void {
+  for (const key of driverId ? [driverId, '__global__'] : ['__global__']) {
+    const cached = spendCache.get(key);
+    if (cached) {
+      cached.spend.dailyUsd += costUsd;
+      cached.spend.monthlyUsd += costUsd;
+    }
+  }
+}
+
+/**
+ * Persist the cost of an LLM call that has no `ai_messages` row
+ * (quick recommendation, RAG rerank, background jobs), then count it in
+ * the cached totals. `driverId = null` → global budget only.
+ */
+export async function logLLMUsage(input: {
+  driverId: string | null;
+  source: 'quick_recommendation' | 'rerank' | 'review_moderation' | 'voice_insights';
+  provider?: string;
+  model?: string;
+  tokensInput?: number;
+  tokensOutput?: number;
+  costUsd: number;
+}): Promise<void> {
+  recordLLMSpend(input.driverId, input.costUsd);
+
+  const { error } = await getSupabaseAdmin().from('ai_llm_usage').insert({
+    driver_id: input.driverId,
+    source: input.source,
+    provider: input.provider ?? null,
+    model: input.model ?? null,
+    tokens_input: input.tokensInput ?? 0,
+    tokens_output: input.tokensOutput ?? 0,
+    cost_usd: input.costUsd,
+  });
+  if (error) console.error('[LLMBudget] Usage insert failed:', error.message);
+}
+
+async function getDriverTier(driverId: string): Promise<UserTier> {
+  const { data } = await getSupabaseAdmin()
+    .from('user_profiles')
+    .select('tier, tier_active_until')
+    .eq('user_id', driverId)
+    .maybeSingle();
+
+  const tier = data?.tier as UserTier | undefined;
+  if (!tier || !(tier in TIER_CAPS)) return 'free';
+  if (data?.tier_active_until && new Date(data.tier_active_until) < new Date()) return 'free';
+  return tier;
+}
+
+// ============================================
+// BUDGET CHECK
+// ============================================
+
+/**
+ * Decide how a driver's next LLM call should be served.
+ * Fails open: if spend cannot be computed, the call is allowed.
+ */
+export async function checkLLMBudget(driverId: string): Promise<BudgetCheckResult> {
+  let tier: UserTier = 'free';
+  let driverSpend: BudgetSpend = { dailyUsd: 0, monthlyUsd: 0 };
+  let globalSpend: BudgetSpend = { dailyUsd: 0, monthlyUsd: 0 };
+
+  try {
+    [tier, driverSpend, globalSpend] = await Promise.all([
+      getDriverTier(driverId),
+      getLLMSpend(driverId),
+      getLLMSpend(null),
+    ]);
+  } catch (err) {
+    console.warn('[LLMBudget] Check failed, allowing call:', (err as Error)?.message);
+  }
+
+  const result = decideBudget(tier, driverSpend, globalSpend);
+  if (result.decision !== 'allow') {
+    console.warn(`[LLMBudget] ${result.decision} for driver ${driverId} (${tier}): ${result.reason}`);
+  }
+
+  return result;
+}
+
+/**
+ * Budget check for background jobs (moderation...): global caps only, no
+ * driver tier. Fails open like checkLLMBudget.
+ */
+export async function checkGlobalLLMBudget(): Promise<BudgetCheckResult> {
+  let globalSpend: BudgetSpend = { dailyUsd: 0, monthlyUsd: 0 };
+  try {
+    globalSpend = await getLLMSpend(null);
+  } catch (err) {
+    console.warn('[LLMBudget] Global check failed, allowing call:', (err as Error)?.message);
+  }
+
+  const result = decideBudget('free', { dailyUsd: 0, monthlyUsd: 0 }, globalSpend);
+  if (result.decision !== 'allow') {
+    console.warn(`[LLMBudget] ${result.decision} for background job: ${result.reason}`);
+  }
+  return result;
+}
+
+/**
+ * Pure decision from the current spend: the most consumed cap wins
+ */
+export function decideBudget(
+  tier: UserTier,
+  driverSpend: BudgetSpend,
+  globalSpend: BudgetSpend
+): BudgetCheckResult {
+  const driverCaps = TIER_CAPS[tier] ?? TIER_CAPS.free;
+  const ratios: Array<[NonNullable<BudgetCheckResult['reason']>, number]> = [
+    ['global_monthly', globalSpend.monthlyUsd / GLOBAL_CAPS.monthlyUsd],
+    ['global_daily', globalSpend.dailyUsd / GLOBAL_CAPS.dailyUsd],
+    ['driver_monthly', driverSpend.monthlyUsd / driverCaps.monthlyUsd],
+    ['driver_daily', driverSpend.dailyUsd / driverCaps.dailyUsd],
+  ];
+  const [reason, ratio] = ratios.reduce((max, cur) => (cur[1] > max[1] ? cur : max));
+
+  let decision: BudgetDecision = 'allow';
+  if (ratio >= 1) decision = 'cached';
+  else if (ratio >= DOWNGRADE_RATIO) decision = 'downgrade';
+
+  return {
+    decision,
+    tier,
+    reason: decision === 'allow' ? null : reason,
+    driver: { ...driverSpend, caps: driverCaps },
+    global: { ...globalSpend, caps: GLOBAL_CAPS },
+  };
+}
+
+export function getGlobalBudgetCaps(): BudgetCaps {
+  return GLOBAL_CAPS;
+}
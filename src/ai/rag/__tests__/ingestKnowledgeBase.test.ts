@@ -0,0 +1,82 @@
+/**
+ * Unit tests — Ingestion incrémentale de la knowledge base (Vitest)
+ *
+ * Exécution :
+ *   npx vitest run src/ai/rag/__tests__/ingestKnowledgeBase.test.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { hashingEmbedder } from '../eval/hashingEmbedder';
+import { ingestKnowledgeBase } from '../ingestKnowledgeBase';
+import { listDocuments } from '../indexer';
+import { InMemoryVectorStore } from '../stores/InMemoryVectorStore';
+import { setEmbedder, setVectorStore } from '../vectorStore';
+
+const section = (title: string, body: string) =>
+  `## ${title}\n\n${body} — texte assez long pour dépasser le minimum de cinquante caractères.\n`;
+
+describe('ingestKnowledgeBase (incremental)', () => {
+  let dir: string;
+  const embedder = vi.fn(hashingEmbedder);
+
+  const writeKb = (...sections: string[]) =>
+    fs.writeFileSync(path.join(dir, 'kb.md'), `# KB\n\n${sections.join('\n')}`);
+  const ingest = (dryRun = false) => ingestKnowledgeBase({ documentsDir: dir, files: ['kb.md'], dryRun });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-kb-'));
+    setVectorStore(new InMemoryVectorStore());
+    setEmbedder(embedder);
+    embedder.mockClear();
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+    setEmbedder(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('only re-embeds added or changed sections and deactivates removed ones', async () => {
+    writeKb(section('ZONES PARIS', 'Gares et aéroports'), section('FISCALITÉ', 'TVA et URSSAF'));
+
+    const first = await ingest();
+    expect(first.changeset.added).toEqual(['kb.md::ZONES PARIS', 'kb.md::FISCALITÉ']);
+    expect(embedder).toHaveBeenCalledTimes(2);
+
+    const second = await ingest();
+    expect(second.changeset).toEqual({ added: [], updated: [], removed: [], unchanged: 2 });
+    expect(embedder).toHaveBeenCalledTimes(2);
+
+    writeKb(section('ZONES PARIS', 'Gares, aéroports et Défense'), section('SÉCURITÉ', 'Bonnes pratiques'));
+
+    const third = await ingest();
+    expect(third.changeset).toEqual({
+      added: ['kb.md::SÉCURITÉ'],
+      updated: ['kb.md::ZONES PARIS'],
+      removed: ['kb.md::FISCALITÉ'],
+      unchanged: 0,
+    });
+    expect(embedder).toHaveBeenCalledTimes(4);
+
+    const active = await listDocuments();
+    expect(active.map((d) => d.title).sort()).toEqual(['FOREAS KB: SÉCURITÉ', 'FOREAS KB: ZONES PARIS']);
+    expect(active.find((d) => d.title === 'FOREAS KB: ZONES PARIS')?.version).toBe(2);
+  });
+
+  it('reports the changeset without writing on dry run', async () => {
+    writeKb(section('ZONES PARIS', 'Gares et aéroports'));
+
+    const result = await ingest(true);
+
+    expect(result.changeset.added).toEqual(['kb.md::ZONES PARIS']);
+    expect(result.documentsIndexed).toBe(0);
+    expect(await listDocuments()).toEqual([]);
+    expect(embedder).not.toHaveBeenCalled();
+  });
+});
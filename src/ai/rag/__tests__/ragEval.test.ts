@@ -0,0 +1,66 @@
+/**
+ * Unit tests — RAG offline evaluation (Vitest)
+ *
+ * Golden set rejoué sur le store en mémoire : ni Supabase ni réseau.
+ *
+ * Exécution :
+ *   npx vitest run src/ai/rag/__tests__/ragEval.test.ts
+ */
+
+import * as fs from 'fs';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { parseCorpusFile } from '../eval/corpus';
+import { computeMetrics, findRegressions } from '../eval/metrics';
+import { baselinePath, runRagEval } from '../eval/runEval';
+
+describe('RAG eval', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('computes recall@k and MRR from ranks', () => {
+    const metrics = computeMetrics(
+      [
+        { id: 'a', collection: 'c', rank: 1 },
+        { id: 'b', collection: 'c', rank: 3 },
+        { id: 'c', collection: 'c', rank: null },
+        { id: 'd', collection: 'c', rank: 2 },
+      ],
+      [1, 3],
+    );
+
+    expect(metrics.recallAtK).toEqual({ 1: 0.25, 3: 0.75 });
+    expect(metrics.mrr).toBeCloseTo((1 + 1 / 3 + 0 + 1 / 2) / 4, 4);
+  });
+
+  it('splits feature blocks by feature_key and falls back to a slug', () => {
+    const sections = parseCorpusFile(
+      [
+        '### 💰 ONGLET ARGENT',
+        '',
+        '**9. Compta IA (détail)** — *complète la feature existante*',
+        '- **C\'est quoi** : suit ton CA, tes charges, ta marge.',
+        '',
+        '**10. Portefeuille / paiements directs** — `feature_key: wallet_paiements`',
+        '- **C\'est quoi** : tu reçois l\'argent de tes clients directs.',
+      ].join('\n'),
+      'CARTE.md',
+      'ajnaya_product',
+    );
+
+    expect(sections.map((s) => s.id)).toEqual(['CARTE.md::compta_ia', 'CARTE.md::wallet_paiements']);
+  });
+
+  it('has no regression vs the committed baseline', async () => {
+    const report = await runRagEval();
+    const baseline = JSON.parse(fs.readFileSync(baselinePath(), 'utf-8'));
+
+    expect(report.corpus.chunks).toBeGreaterThan(0);
+    expect(findRegressions(report, baseline)).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests — RAG reranker + citations (Vitest)
+ *
+ * Aucun provider LLM configuré : le rerank passe par le repli lexical.
+ *
+ * Exécution :
+ *   npx vitest run src/ai/rag/__tests__/reranker.test.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { SearchResult } from '../../../data/types';
+import { lexicalRerank, parseLLMScores, rerankResults } from '../reranker';
+import { buildCitations, buildContext } from '../retriever';
+import { InMemoryVectorStore } from '../stores/InMemoryVectorStore';
+import { setVectorStore } from '../vectorStore';
+
+function result(chunk_id: string, content: string, similarity: number): SearchResult {
+  return { chunk_id, document_id: `doc-${chunk_id}`, document_title: '', content, similarity };
+}
+
+describe('RAG reranker', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+    vi.restoreAllMocks();
+  });
+
+  it('promotes lexical matches deterministically, whatever the input order', () => {
+    const results = [
+      result('a', 'Les zones chaudes de Paris le vendredi soir.', 0.8),
+      result('b', "Politique d'annulation : frais de 10 € après 5 minutes d'attente.", 0.7),
+      result('c', 'Conseils pour la déclaration URSSAF trimestrielle.', 0.75),
+    ];
+
+    const ranked = lexicalRerank("frais d'annulation", results, 2);
+    const reversed = lexicalRerank("frais d'annulation", [...results].reverse(), 2);
+
+    expect(ranked.map((r) => r.chunk_id)).toEqual(['b', 'a']);
+    expect(reversed).toEqual(ranked);
+  });
+
+  it('falls back to lexical when no LLM provider answers', async () => {
+    const outcome = await rerankResults('déclaration URSSAF', [
+      result('a', 'Les zones chaudes de Paris.', 0.9),
+      result('c', 'Déclaration URSSAF : chaque trimestre.', 0.7),
+    ]);
+
+    expect(outcome.strategy).toBe('lexical');
+    expect(outcome.results[0].chunk_id).toBe('c');
+  });
+
+  it('parses LLM scores and ignores out-of-range ids', () => {
+    const scores = parseLLMScores('Voici : {"scores": [{"id": 2, "score": 9}, {"id": 7, "score": 3}]}', 3);
+
+    expect(scores && [...scores]).toEqual([[1, 0.9]]);
+    expect(parseLLMScores('pas de json', 3)).toBeNull();
+  });
+
+  it('builds citations with document title and section', async () => {
+    const store = new InMemoryVectorStore();
+    store.addDocument(
+      { id: 'doc-b', title: 'FOREAS KB: Annulations', source_type: 'policy', metadata: { section: 'Frais' } },
+      [],
+    );
+    setVectorStore(store);
+
+    const results = [result('b', 'Frais de 10 €.', 0.81234)];
+    const citations = await buildCitations(results);
+
+    expect(citations).toEqual([
+      {
+        index: 1,
+        chunk_id: 'b',
+        document_id: 'doc-b',
+        document_title: 'FOREAS KB: Annulations',
+        section: 'Frais',
+        source_type: 'policy',
+        score: 0.812,
+      },
+    ]);
+    expect(buildContext(results, citations)).toBe('[Source 1: FOREAS KB: Annulations — Frais]\nFrais de 10 €.');
+  });
+});
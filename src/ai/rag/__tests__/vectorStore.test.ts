@@ -0,0 +1,126 @@
+/**
+ * Unit tests — RAG VectorStore backends (Vitest)
+ *
+ * Indexation / recherche de bout en bout via l'interface, sans base :
+ * store fichier (persistance) et filtres source_type / collection.
+ *
+ * Exécution :
+ *   npx vitest run src/ai/rag/__tests__/vectorStore.test.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { hashEmbed, hashingEmbedder } from '../eval/hashingEmbedder';
+import { getDocument, indexDocument, listDocuments, reembedDocument } from '../indexer';
+import { getChunksByIds, hybridSearch, searchDocuments, searchKnowledge } from '../retriever';
+import { FileVectorStore } from '../stores/FileVectorStore';
+import { InMemoryVectorStore } from '../stores/InMemoryVectorStore';
+import { setEmbedder, setVectorStore } from '../vectorStore';
+
+describe('VectorStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-store-'));
+    filePath = path.join(dir, 'store.json');
+    setVectorStore(new FileVectorStore(filePath));
+    setEmbedder(hashingEmbedder);
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+    setEmbedder(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('indexes through the store and persists to disk', async () => {
+    const doc = await indexDocument({
+      title: 'Zones chaudes',
+      content: 'La carte des zones chaudes montre où la demande chauffe en direct.',
+      sourceType: 'faq',
+      collection: 'ajnaya_product',
+    });
+
+    // Same content → same document, no new version
+    const again = await indexDocument({ title: 'Zones chaudes', content: doc.content, sourceType: 'faq' });
+    expect(again.id).toBe(doc.id);
+
+    setVectorStore(new FileVectorStore(filePath));
+    const [hit] = await searchDocuments('zones chaudes demande', { threshold: 0 });
+    expect(hit.document_id).toBe(doc.id);
+
+    const [chunk] = await getChunksByIds([hit.chunk_id]);
+    expect(chunk.document_title).toBe('Zones chaudes');
+  });
+
+  it('versions documents by title and re-embeds in place', async () => {
+    const v1 = await indexDocument({ title: 'Paliers', content: 'Essentiel et Pro.', sourceType: 'guide' });
+    const v2 = await indexDocument({ title: 'Paliers', content: 'Essentiel, Pro et VIP.', sourceType: 'guide' });
+
+    expect(v2.version).toBe(2);
+    expect((await getDocument(v1.id))?.is_active).toBe(false);
+    expect((await listDocuments()).map((d) => d.id)).toEqual([v2.id]);
+
+    await reembedDocument(v2.id);
+    const results = await searchDocuments('VIP', { threshold: 0 });
+    expect(results).toHaveLength(1);
+    expect(results[0].document_id).toBe(v2.id);
+  });
+
+  it('filters by source_type and collection in every search', async () => {
+    const faq = await indexDocument({
+      title: 'FAQ compta',
+      content: 'Compta : charges et marge.',
+      sourceType: 'faq',
+      collection: 'ajnaya_product',
+    });
+    const legal = await indexDocument({
+      title: 'Statut',
+      content: 'Compta et statut juridique VTC.',
+      sourceType: 'legal',
+      collection: 'fiscal_compta',
+    });
+
+    const ids = (results: Array<{ document_id: string }>) => results.map((r) => r.document_id);
+
+    expect(ids(await searchDocuments('compta', { threshold: 0, sourceTypes: ['legal'] }))).toEqual([legal.id]);
+    expect(ids(await searchDocuments('compta', { threshold: 0, collections: ['ajnaya_product'] }))).toEqual([
+      faq.id,
+    ]);
+    expect(ids(await hybridSearch('Compta', { threshold: 0, sourceTypes: ['faq'] }))).toEqual([faq.id]);
+    expect(
+      ids(await searchKnowledge('compta', { threshold: 0, collections: ['fiscal_compta'], rerank: false })),
+    ).toEqual([legal.id]);
+    expect(
+      ids(
+        await searchKnowledge('compta', { threshold: 0, intent: 'all', sourceTypes: ['faq'], rerank: false }),
+      ),
+    ).toEqual([faq.id]);
+  });
+
+  it('excludes learned chunks from knowledge search on request', async () => {
+    const store = new InMemoryVectorStore();
+    const embedding = hashEmbed('zones chaudes');
+    const add = (id: string, collection: string | null, tier: string | null = 'core') =>
+      store.addDocument({ id, title: id, source_type: 'faq' }, [
+        { documentId: id, chunkIndex: 0, text: 'zones chaudes', embedding, collection, tier },
+      ]);
+    add('product', 'ajnaya_product');
+    add('learned', 'ajnaya_product', 'learned');
+    add('plain', null, null);
+
+    const search = (includeLearned: boolean) =>
+      store
+        .searchKnowledge({ embedding, queryText: 'zones', threshold: 0, limit: 10, includeLearned })
+        .then((results) => results.map((r) => r.document_id).sort());
+
+    expect(await search(true)).toEqual(['learned', 'product']);
+    expect(await search(false)).toEqual(['product']);
+  });
+});
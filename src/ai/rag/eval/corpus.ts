@@ -0,0 +1,185 @@
+/**
+ * FOREAS RAG Eval - Knowledge Corpus Loader
+ * ==========================================
+ * Charge `src/ai/rag/knowledge/<dossier>/*.md` en sections (1 heading ou
+ * 1 fiche `**N. Titre** — \`feature_key: x\`` = 1 section) et les indexe
+ * dans un InMemoryVectorStore avec le chunker de production.
+ *
+ * Identifiant stable d'une section : `<fichier>::<feature_key | slug du titre>`,
+ * c'est ce que référencent les golden sets.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { chunkText, CHUNK_OVERLAP, CHUNK_SIZE } from '../indexer';
+import { InMemoryVectorStore } from '../stores/InMemoryVectorStore';
+import type { Embedder } from '../vectorStore';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const KNOWLEDGE_DIR = path.resolve(__dirname, '..', 'knowledge');
+
+// Dossier du corpus → collection RAG (cf. knowledge/produit/00_INDEX.md)
+export const COLLECTION_BY_DIR: Record<string, string> = {
+  produit: 'ajnaya_product',
+};
+
+const MIN_SECTION_CHARS = 40;
+const EMBED_BATCH_SIZE = 10;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CorpusSection {
+  /** `<source>::<section>` */
+  id: string;
+  source: string;
+  section: string;
+  title: string;
+  collection: string;
+  content: string;
+}
+
+export interface ChunkingOptions {
+  /** tokens (approximate), as CHUNK_SIZE in indexer.ts */
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+const HEADING_RE = /^#{1,3}\s+(.+)$/;
+const FEATURE_BLOCK_RE = /^\*\*\d+\.\s+(.+?)\*\*/;
+const FEATURE_KEY_RE = /`feature_key:\s*([a-z0-9_]+)`/;
+
+/** "Compta IA (détail)" → "compta_ia" */
+export function slugifySection(title: string): string {
+  return title
+    .replace(/\(.*?\)/g, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Split a markdown file into sections: every heading and every numbered
+ * feature block opens a new one
+ */
+export function parseCorpusFile(markdown: string, source: string, collection: string): CorpusSection[] {
+  const sections: CorpusSection[] = [];
+  const usedKeys = new Set<string>();
+  let current: { section: string; title: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const content = current.lines.join('\n').trim();
+    if (content.length < MIN_SECTION_CHARS) return;
+
+    let key = current.section || 'intro';
+    for (let n = 2; usedKeys.has(key); n++) key = `${current.section}_${n}`;
+    usedKeys.add(key);
+
+    sections.push({
+      id: `${source}::${key}`,
+      source,
+      section: key,
+      title: current.title,
+      collection,
+      content,
+    });
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(HEADING_RE);
+    const block = line.match(FEATURE_BLOCK_RE);
+
+    if (heading || block) {
+      flush();
+      const title = (heading ? heading[1] : block![1]).trim();
+      const featureKey = block ? line.match(FEATURE_KEY_RE)?.[1] : undefined;
+      current = { section: featureKey || slugifySection(title), title, lines: [line] };
+    } else if (line.trim() !== '---') {
+      if (!current) current = { section: 'intro', title: source, lines: [] };
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Load every markdown file of the knowledge corpus (one sub-directory = one collection)
+ */
+export function loadCorpus(baseDir: string = KNOWLEDGE_DIR): CorpusSection[] {
+  const sections: CorpusSection[] = [];
+
+  for (const dir of fs.readdirSync(baseDir).sort()) {
+    const dirPath = path.join(baseDir, dir);
+    if (!fs.statSync(dirPath).isDirectory()) continue;
+
+    const collection = COLLECTION_BY_DIR[dir] || dir;
+    for (const file of fs.readdirSync(dirPath).sort()) {
+      if (!file.endsWith('.md')) continue;
+      const markdown = fs.readFileSync(path.join(dirPath, file), 'utf-8');
+      sections.push(...parseCorpusFile(markdown, file, collection));
+    }
+  }
+
+  return sections;
+}
+
+// ============================================
+// INDEXING
+// ============================================
+
+/**
+ * Chunk + embed the corpus into a fresh in-memory store
+ */
+export async function buildCorpusStore(
+  sections: CorpusSection[],
+  embedder: Embedder,
+  options: ChunkingOptions = {},
+): Promise<InMemoryVectorStore> {
+  const store = new InMemoryVectorStore();
+  const chunkSize = options.chunkSize ?? CHUNK_SIZE;
+  const chunkOverlap = options.chunkOverlap ?? CHUNK_OVERLAP;
+
+  for (const section of sections) {
+    const texts = chunkText(section.content, chunkSize * 3, chunkOverlap * 3);
+    const embeddings: Array<number[] | null> = [];
+
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await embedder(batch);
+      embeddings.push(...batch.map((_, j) => vectors?.[j] || null));
+    }
+
+    store.addDocument(
+      {
+        id: section.id,
+        title: section.title,
+        source_type: 'faq',
+        content: section.content,
+        metadata: { source: section.source, section: section.section, collection: section.collection },
+      },
+      texts.map((text, i) => ({
+        documentId: section.id,
+        chunkIndex: i,
+        text,
+        embedding: embeddings[i],
+        collection: section.collection,
+        tier: 'core',
+      })),
+    );
+  }
+
+  return store;
+}
@@ -0,0 +1,70 @@
+/**
+ * FOREAS RAG Eval - Deterministic Hashing Embedder
+ * =================================================
+ * Embedder hors-ligne pour l'évaluation : mots + trigrammes de caractères
+ * hachés dans un vecteur de EMBEDDING_DIMENSION, normalisé L2.
+ *
+ * Pas sémantique (aucun synonyme), mais stable et sans réseau : sert à
+ * mesurer l'effet du chunking / du routage / des seuils d'un run à l'autre,
+ * pas la qualité absolue des embeddings OpenAI. Ses similarités ne sont pas
+ * calibrées comme text-embedding-3-small : évaluer avec un seuil bas.
+ */
+
+import { EMBEDDING_DIMENSION } from '../vectorStore';
+import type { Embedder } from '../vectorStore';
+
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.3;
+
+// Mots vides FR les plus fréquents : sans eux, toutes les fiches se ressemblent
+const STOP_WORDS = new Set([
+  'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'et', 'ou', 'a', 'au', 'aux',
+  'en', 'je', 'tu', 'il', 'elle', 'on', 'ce', 'ca', 'ces', 'se', 'sa', 'son', 'ses',
+  'ta', 'ton', 'tes', 'ma', 'mon', 'mes', 'que', 'qui', 'quoi', 'est', 'pour', 'par',
+  'pas', 'sur', 'dans', 'avec', 'plus', 'ne', 'me', 'te', 'y', 'c', 'l', 'd', 'j',
+  'qu', 's', 't', 'n', 'm', 'comment', 'quand', 'faire', 'fait',
+]);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/** FNV-1a 32 bits */
+function hash(token: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const h = hash(feature);
+  // Signed hashing: limite le biais des collisions
+  vector[h % vector.length] += h & 0x80000000 ? -weight : weight;
+}
+
+export function hashEmbed(text: string, dimension: number = EMBEDDING_DIMENSION): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const words = normalize(text)
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !STOP_WORDS.has(w));
+
+  for (const word of words) {
+    addFeature(vector, `w:${word}`, WORD_WEIGHT);
+
+    const padded = `_${word}_`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+export const hashingEmbedder: Embedder = async (texts) => texts.map((t) => hashEmbed(t));
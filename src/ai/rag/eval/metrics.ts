@@ -0,0 +1,168 @@
+/**
+ * FOREAS RAG Eval - Metrics
+ * ==========================
+ * recall@k, MRR (global et par collection) et comparaison à une baseline.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type EvalMethod = 'searchDocuments' | 'hybridSearch' | 'searchKnowledge';
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  collection: string;
+  expected: {
+    /** Corpus file name, e.g. CARTE_FONCTIONNALITES_AJNAYA.md */
+    source: string;
+    /** feature_key or section slug */
+    section: string;
+  };
+  /** Routing hint for searchKnowledge (auto-detected when absent) */
+  intent?: 'driver' | 'sell' | 'all';
+}
+
+export interface GoldenSet {
+  name: string;
+  version: number;
+  description?: string;
+  questions: GoldenQuestion[];
+}
+
+export interface QuestionOutcome {
+  id: string;
+  collection: string;
+  /** 1-based rank of the expected section, null when not retrieved */
+  rank: number | null;
+}
+
+export interface RetrievalMetrics {
+  questions: number;
+  /** k → share of questions whose expected section is in the top k */
+  recallAtK: Record<string, number>;
+  mrr: number;
+}
+
+export interface MethodReport extends RetrievalMetrics {
+  perCollection: Record<string, RetrievalMetrics>;
+  misses: Array<{ id: string; question: string; expected: string; top: string[] }>;
+}
+
+export interface RagEvalReport {
+  golden: { name: string; version: number };
+  config: {
+    embedder: string;
+    threshold: number;
+    chunkSize: number;
+    chunkOverlap: number;
+    ks: number[];
+  };
+  corpus: { documents: number; chunks: number };
+  methods: Partial<Record<EvalMethod, MethodReport>>;
+}
+
+export interface EvalRegression {
+  method: EvalMethod;
+  /** '*' = all collections */
+  collection: string;
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+export function computeMetrics(outcomes: QuestionOutcome[], ks: number[]): RetrievalMetrics {
+  const total = outcomes.length;
+  const recallAtK: Record<string, number> = {};
+
+  for (const k of ks) {
+    const hits = outcomes.filter((o) => o.rank !== null && o.rank <= k).length;
+    recallAtK[k] = total ? round(hits / total) : 0;
+  }
+
+  const reciprocalSum = outcomes.reduce((sum, o) => sum + (o.rank ? 1 / o.rank : 0), 0);
+
+  return { questions: total, recallAtK, mrr: total ? round(reciprocalSum / total) : 0 };
+}
+
+export function metricsByCollection(
+  outcomes: QuestionOutcome[],
+  ks: number[],
+): Record<string, RetrievalMetrics> {
+  const byCollection = new Map<string, QuestionOutcome[]>();
+  for (const o of outcomes) {
+    byCollection.set(o.collection, [...(byCollection.get(o.collection) || []), o]);
+  }
+
+  const result: Record<string, RetrievalMetrics> = {};
+  for (const [collection, group] of [...byCollection].sort(([a], [b]) => a.localeCompare(b))) {
+    result[collection] = computeMetrics(group, ks);
+  }
+  return result;
+}
+
+// ============================================
+// BASELINE COMPARISON
+// ============================================
+
+function compareMetrics(
+  method: EvalMethod,
+  collection: string,
+  current: RetrievalMetrics,
+  baseline: RetrievalMetrics,
+  tolerance: number,
+): EvalRegression[] {
+  const pairs: Array<[string, number, number | undefined]> = [
+    ['mrr', current.mrr, baseline.mrr],
+    ...Object.entries(current.recallAtK).map(
+      ([k, value]): [string, number, number | undefined] => [`recall@${k}`, value, baseline.recallAtK[k]],
+    ),
+  ];
+
+  return pairs
+    .filter(([, cur, base]) => base !== undefined && base - cur > tolerance)
+    .map(([metric, cur, base]) => ({
+      method,
+      collection,
+      metric,
+      baseline: base as number,
+      current: cur,
+      delta: round(cur - (base as number)),
+    }));
+}
+
+/**
+ * Metrics that dropped by more than `tolerance` vs the baseline, globally and
+ * per collection. Methods or collections absent from the baseline are ignored.
+ */
+export function findRegressions(
+  current: RagEvalReport,
+  baseline: RagEvalReport,
+  tolerance = 0.02,
+): EvalRegression[] {
+  const regressions: EvalRegression[] = [];
+
+  for (const [method, report] of Object.entries(current.methods) as Array<[EvalMethod, MethodReport]>) {
+    const base = baseline.methods[method];
+    if (!base) continue;
+
+    regressions.push(...compareMetrics(method, '*', report, base, tolerance));
+
+    for (const [collection, metrics] of Object.entries(report.perCollection)) {
+      const baseMetrics = base.perCollection[collection];
+      if (baseMetrics) {
+        regressions.push(...compareMetrics(method, collection, metrics, baseMetrics, tolerance));
+      }
+    }
+  }
+
+  return regressions;
+}
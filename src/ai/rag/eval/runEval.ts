@@ -0,0 +1,266 @@
+/**
+ * FOREAS RAG Eval - Runner
+ * =========================
+ * Rejoue un golden set (question → section attendue) contre searchDocuments,
+ * hybridSearch et searchKnowledge sur un store en mémoire : ni Supabase ni
+ * réseau avec l'embedder de hachage (par défaut).
+ *
+ * Usage :
+ *   npx tsx src/ai/rag/eval/runEval.ts
+ *   npx tsx src/ai/rag/eval/runEval.ts --chunk-size 300 --chunk-overlap 30
+ *   npx tsx src/ai/rag/eval/runEval.ts --embedder openai --threshold 0.7
+ *   npx tsx src/ai/rag/eval/runEval.ts --write-baseline
+ *
+ * Compare à `golden/<name>.v<N>.baseline.json` s'il existe ; code de sortie 1
+ * si une métrique (globale ou par collection) baisse de plus de la tolérance.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SearchResult } from '../../../data/types';
+import { CHUNK_OVERLAP, CHUNK_SIZE } from '../indexer';
+import { DEFAULT_SIMILARITY_THRESHOLD, hybridSearch, searchDocuments, searchKnowledge } from '../retriever';
+import { getEmbedder, getVectorStore, setEmbedder, setVectorStore } from '../vectorStore';
+import type { Embedder } from '../vectorStore';
+import { buildCorpusStore, loadCorpus, KNOWLEDGE_DIR } from './corpus';
+import { hashingEmbedder } from './hashingEmbedder';
+import {
+  computeMetrics,
+  findRegressions,
+  metricsByCollection,
+  type EvalMethod,
+  type EvalRegression,
+  type GoldenQuestion,
+  type GoldenSet,
+  type MethodReport,
+  type QuestionOutcome,
+  type RagEvalReport,
+} from './metrics';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const GOLDEN_DIR = path.resolve(__dirname, 'golden');
+export const DEFAULT_GOLDEN_FILE = path.join(GOLDEN_DIR, 'ajnaya_product.v1.json');
+
+const ALL_METHODS: EvalMethod[] = ['searchDocuments', 'hybridSearch', 'searchKnowledge'];
+const DEFAULT_KS = [1, 3, 5];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RagEvalOptions {
+  goldenFile?: string;
+  knowledgeDir?: string;
+  methods?: EvalMethod[];
+  ks?: number[];
+  /** Similarity threshold passed to every method (default: 0 with the hashing embedder) */
+  threshold?: number;
+  /** tokens, defaults to indexer CHUNK_SIZE / CHUNK_OVERLAP */
+  chunkSize?: number;
+  chunkOverlap?: number;
+  /** 'hashing' (offline, default), 'openai' (production embedder) or a custom one */
+  embedder?: 'hashing' | 'openai' | Embedder;
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+export function loadGoldenSet(file: string = DEFAULT_GOLDEN_FILE): GoldenSet {
+  const golden = JSON.parse(fs.readFileSync(file, 'utf-8')) as GoldenSet;
+  if (!golden.name || !golden.version || !Array.isArray(golden.questions)) {
+    throw new Error(`Invalid golden set: ${file}`);
+  }
+  return golden;
+}
+
+export function baselinePath(goldenFile: string = DEFAULT_GOLDEN_FILE): string {
+  return goldenFile.replace(/\.json$/, '.baseline.json');
+}
+
+function expectedId(q: GoldenQuestion): string {
+  return `${q.expected.source}::${q.expected.section}`;
+}
+
+async function retrieve(
+  method: EvalMethod,
+  q: GoldenQuestion,
+  limit: number,
+  threshold: number,
+): Promise<SearchResult[]> {
+  switch (method) {
+    case 'searchDocuments':
+      return searchDocuments(q.question, { maxResults: limit, threshold });
+    case 'hybridSearch':
+      return hybridSearch(q.question, { maxResults: limit, threshold });
+    case 'searchKnowledge':
+      return searchKnowledge(q.question, { maxResults: limit, threshold, intent: q.intent, rerank: false });
+  }
+}
+
+/**
+ * Index the knowledge corpus in memory and score every method against the golden set.
+ * The process-wide store/embedder are swapped for the run and restored afterwards.
+ */
+export async function runRagEval(options: RagEvalOptions = {}): Promise<RagEvalReport> {
+  const goldenFile = options.goldenFile || DEFAULT_GOLDEN_FILE;
+  const golden = loadGoldenSet(goldenFile);
+  const methods = options.methods || ALL_METHODS;
+  const ks = [...(options.ks || DEFAULT_KS)].sort((a, b) => a - b);
+  const maxK = ks[ks.length - 1];
+  const chunkSize = options.chunkSize ?? CHUNK_SIZE;
+  const chunkOverlap = options.chunkOverlap ?? CHUNK_OVERLAP;
+
+  const embedderName = typeof options.embedder === 'function' ? 'custom' : options.embedder || 'hashing';
+  const embedder =
+    typeof options.embedder === 'function'
+      ? options.embedder
+      : embedderName === 'openai'
+        ? getEmbedder()
+        : hashingEmbedder;
+  // Les similarités du hachage ne sont pas calibrées : seuil 0 sauf demande explicite
+  const threshold = options.threshold ?? (embedderName === 'openai' ? DEFAULT_SIMILARITY_THRESHOLD : 0);
+
+  const store = await buildCorpusStore(loadCorpus(options.knowledgeDir || KNOWLEDGE_DIR), embedder, {
+    chunkSize,
+    chunkOverlap,
+  });
+
+  const previousStore = getVectorStore();
+  const previousEmbedder = getEmbedder();
+  setVectorStore(store);
+  setEmbedder(embedder);
+
+  const report: RagEvalReport = {
+    golden: { name: golden.name, version: golden.version },
+    config: { embedder: embedderName, threshold, chunkSize, chunkOverlap, ks },
+    corpus: store.size,
+    methods: {},
+  };
+
+  try {
+    for (const method of methods) {
+      const outcomes: QuestionOutcome[] = [];
+      const misses: MethodReport['misses'] = [];
+
+      for (const q of golden.questions) {
+        const results = await retrieve(method, q, maxK, threshold);
+        const retrieved = [...new Set(results.map((r) => r.document_id))];
+        const index = retrieved.indexOf(expectedId(q));
+        const rank = index === -1 ? null : index + 1;
+
+        outcomes.push({ id: q.id, collection: q.collection, rank });
+        if (rank !== 1) {
+          misses.push({ id: q.id, question: q.question, expected: expectedId(q), top: retrieved.slice(0, 3) });
+        }
+      }
+
+      report.methods[method] = {
+        ...computeMetrics(outcomes, ks),
+        perCollection: metricsByCollection(outcomes, ks),
+        misses,
+      };
+    }
+  } finally {
+    setVectorStore(previousStore);
+    setEmbedder(previousEmbedder);
+  }
+
+  return report;
+}
+
+// ============================================
+// CLI
+// ============================================
+
+function formatReport(report: RagEvalReport): string {
+  const { config } = report;
+  const lines = [
+    `📊 RAG eval — ${report.golden.name} v${report.golden.version}`,
+    `   embedder=${config.embedder} threshold=${config.threshold} chunk=${config.chunkSize}/${config.chunkOverlap} ` +
+      `corpus=${report.corpus.documents} docs / ${report.corpus.chunks} chunks`,
+  ];
+
+  for (const [method, m] of Object.entries(report.methods)) {
+    const recalls = Object.entries(m.recallAtK)
+      .map(([k, v]) => `R@${k}=${v.toFixed(3)}`)
+      .join(' ');
+    lines.push(`\n   ${method.padEnd(16)} ${recalls} MRR=${m.mrr.toFixed(3)} (${m.questions} questions)`);
+
+    for (const [collection, c] of Object.entries(m.perCollection)) {
+      const perK = Object.entries(c.recallAtK)
+        .map(([k, v]) => `R@${k}=${v.toFixed(3)}`)
+        .join(' ');
+      lines.push(`     └ ${collection.padEnd(20)} ${perK} MRR=${c.mrr.toFixed(3)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatRegressions(regressions: EvalRegression[]): string {
+  return regressions
+    .map(
+      (r) =>
+        `   ❌ ${r.method} [${r.collection === '*' ? 'global' : r.collection}] ${r.metric}: ` +
+        `${r.baseline.toFixed(3)} → ${r.current.toFixed(3)} (${r.delta.toFixed(3)})`,
+    )
+    .join('\n');
+}
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const num = (name: string) => (readFlag(args, name) !== undefined ? Number(readFlag(args, name)) : undefined);
+
+  const goldenFile = readFlag(args, '--golden') || DEFAULT_GOLDEN_FILE;
+  const baselineFile = readFlag(args, '--baseline') || baselinePath(goldenFile);
+  const tolerance = num('--tolerance') ?? 0.02;
+
+  runRagEval({
+    goldenFile,
+    threshold: num('--threshold'),
+    chunkSize: num('--chunk-size'),
+    chunkOverlap: num('--chunk-overlap'),
+    ks: readFlag(args, '--k')?.split(',').map(Number),
+    embedder: (readFlag(args, '--embedder') as 'hashing' | 'openai') || 'hashing',
+  })
+    .then((report) => {
+      console.log(`\n${formatReport(report)}`);
+      if (args.includes('--json')) console.log(JSON.stringify(report, null, 2));
+
+      if (args.includes('--write-baseline')) {
+        fs.writeFileSync(baselineFile, `${JSON.stringify(report, null, 2)}\n`);
+        console.log(`\n💾 Baseline écrite : ${path.relative(process.cwd(), baselineFile)}`);
+        process.exit(0);
+      }
+
+      if (!fs.existsSync(baselineFile)) {
+        console.log('\n⚠️ Pas de baseline, aucune comparaison (--write-baseline pour en créer une)');
+        process.exit(0);
+      }
+
+      const regressions = findRegressions(
+        report,
+        JSON.parse(fs.readFileSync(baselineFile, 'utf-8')) as RagEvalReport,
+        tolerance,
+      );
+      if (regressions.length) {
+        console.error(`\n🚨 ${regressions.length} régression(s) vs baseline :\n${formatRegressions(regressions)}`);
+        process.exit(1);
+      }
+      console.log('\n✅ Aucune régression vs baseline');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('❌ RAG eval échouée:', err);
+      process.exit(1);
+    });
+}
@@ -20,8 +20,10 @@ export type { IndexDocumentInput } from './indexer';
 // Retriever
 export {
   searchDocuments,
+  searchKnowledge,
   buildContext,
   buildRAGPrompt,
+  buildCitations,
   searchFAQs,
   searchSupportScripts,
   searchGuidesAndPolicies,
@@ -30,4 +32,41 @@ export {
   getChunksByIds,
 } from './retriever';
 
-export type { SearchOptions } from './retriever';
+export type { SearchOptions, KnowledgeOptions } from './retriever';
+
+// Reranker
+export { rerankResults, lexicalRerank } from './reranker';
+
+export type { RerankMode, RerankOptions, RerankOutcome } from './reranker';
+
+// Vector store
+export {
+  createVectorStore,
+  getVectorStore,
+  setVectorStore,
+  getEmbedder,
+  setEmbedder,
+  EMBEDDING_MODEL,
+  EMBEDDING_DIMENSION,
+} from './vectorStore';
+
+export type {
+  VectorStore,
+  VectorStoreBackend,
+  VectorFilter,
+  Embedder,
+  VectorSearchParams,
+  KnowledgeSearchParams,
+  ChunkRecord,
+} from './vectorStore';
+
+export { SupabaseVectorStore } from './stores/SupabaseVectorStore';
+export { InMemoryVectorStore } from './stores/InMemoryVectorStore';
+export { FileVectorStore } from './stores/FileVectorStore';
+
+// Offline evaluation
+export { runRagEval, loadGoldenSet } from './eval/runEval';
+export { findRegressions } from './eval/metrics';
+
+export type { RagEvalOptions } from './eval/runEval';
+export type { RagEvalReport, EvalRegression, GoldenSet } from './eval/metrics';
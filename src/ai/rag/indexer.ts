@@ -2,22 +2,21 @@
  * FOREAS AI Platform V1 - RAG Indexer
  * ====================================
  * Document indexing and embedding for RAG.
- * Tables: public.documents, public.document_chunks
+ * Storage goes through the VectorStore (public.documents + public.document_chunks
+ * on Supabase, or a local store, see vectorStore.ts).
  */
 
 import { createHash } from 'crypto';
-import { getSupabaseAdmin } from '../../helpers/supabase';
-import { getOpenAIClient } from '../llm/providers/OpenAIClient';
-import type { Document, DocumentChunk, DocumentSourceType } from '../../data/types';
+import type { Document, DocumentSourceType } from '../../data/types';
+import { getEmbedder, getVectorStore } from './vectorStore';
+import type { ChunkRecord } from './vectorStore';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const CHUNK_SIZE = 500; // tokens (approximate)
-const CHUNK_OVERLAP = 50; // tokens overlap between chunks
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIMENSION = 1536;
+export const CHUNK_SIZE = 500; // tokens (approximate)
+export const CHUNK_OVERLAP = 50; // tokens overlap between chunks
 
 // ============================================
 // TEXT CHUNKING
@@ -27,7 +26,7 @@ const EMBEDDING_DIMENSION = 1536;
  * Simple text chunker by character count (approximates tokens)
  * Rule of thumb: ~4 chars per token for English, ~3 for French
  */
-function chunkText(
+export function chunkText(
   text: string,
   maxCharsPerChunk = CHUNK_SIZE * 3,
   overlapChars = CHUNK_OVERLAP * 3,
@@ -58,8 +57,11 @@ function chunkText(
       chunks.push(chunk);
     }
 
+    // Last chunk reached: stepping back by the overlap would loop forever
+    if (end >= text.length) break;
+
     // Move start with overlap
-    start = end - overlapChars;
+    start = Math.max(end - overlapChars, start + 1);
     if (start < end && start > 0) {
       // Find word boundary for overlap
       const wordBoundary = text.indexOf(' ', start);
@@ -90,82 +92,64 @@ export interface IndexDocumentInput {
   sourceType: DocumentSourceType;
   metadata?: Record<string, unknown>;
   createdBy?: string;
+  /** Knowledge collection of the chunks (searchKnowledge), e.g. 'ajnaya_product' */
+  collection?: string;
+  /** Chunk tier, e.g. 'core' (prioritaire) or 'learned' */
+  tier?: string;
+}
+
+/**
+ * Content hash stored in documents.content_hash (dedup + change detection)
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
 }
 
 /**
  * Index a new document (or update if content changed)
  */
 export async function indexDocument(input: IndexDocumentInput): Promise<Document> {
-  const supabase = getSupabaseAdmin();
-  const contentHash = createHash('sha256').update(input.content).digest('hex');
+  const store = getVectorStore();
+  const contentHash = hashContent(input.content);
 
   // Check if document with same hash exists
-  const { data: existing } = await supabase
-    .from('documents')
-    .select('id')
-    .eq('content_hash', contentHash)
-    .eq('is_active', true)
-    .maybeSingle();
-
+  const existing = await store.findActiveDocumentByHash(contentHash);
   if (existing) {
     console.log(`[RAG Indexer] Document already indexed: ${input.title}`);
-    const { data } = await supabase.from('documents').select().eq('id', existing.id).single();
-    return data as Document;
-  }
-
-  // Deactivate old versions with same title
-  await supabase
-    .from('documents')
-    .update({ is_active: false })
-    .eq('title', input.title)
-    .eq('is_active', true);
-
-  // Get next version
-  const { data: versionData } = await supabase
-    .from('documents')
-    .select('version')
-    .eq('title', input.title)
-    .order('version', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  const version = (versionData?.version || 0) + 1;
-
-  // Insert new document
-  const { data: doc, error: docError } = await supabase
-    .from('documents')
-    .insert({
-      title: input.title,
-      content: input.content,
-      source_type: input.sourceType,
-      content_hash: contentHash,
-      metadata: input.metadata || {},
-      is_active: true,
-      version,
-      created_by: input.createdBy || null,
-    })
-    .select()
-    .single();
-
-  if (docError) {
-    console.error('[RAG Indexer] Document insert failed:', docError.message);
-    throw new Error(`Failed to index document: ${docError.message}`);
+    return existing;
   }
 
-  console.log(`[RAG Indexer] Document created: ${doc.id} (v${version})`);
+  // New version (previous versions with same title are deactivated)
+  const doc = await store.createDocumentVersion({
+    title: input.title,
+    content: input.content,
+    sourceType: input.sourceType,
+    contentHash,
+    metadata: {
+      ...(input.metadata || {}),
+      ...(input.collection ? { collection: input.collection } : {}),
+      ...(input.tier ? { tier: input.tier } : {}),
+    },
+    createdBy: input.createdBy || null,
+  });
+
+  console.log(`[RAG Indexer] Document created: ${doc.id} (v${doc.version}) in ${store.name}`);
 
   // Chunk and embed
-  await chunkAndEmbed(doc as Document);
+  await chunkAndEmbed(doc);
 
-  return doc as Document;
+  return doc;
 }
 
 /**
- * Chunk a document and generate embeddings
+ * Chunk a document and generate embeddings.
+ * Collection / tier come from the document metadata (set by indexDocument).
  */
 async function chunkAndEmbed(doc: Document): Promise<void> {
-  const supabase = getSupabaseAdmin();
-  const openai = getOpenAIClient();
+  const store = getVectorStore();
+  const embed = getEmbedder();
+  const collection = (doc.metadata?.collection as string) || null;
+  const tier = (doc.metadata?.tier as string) || null;
 
   // Chunk the content
   const chunks = chunkText(doc.content);
@@ -176,38 +160,30 @@ async function chunkAndEmbed(doc: Document): Promise<void> {
   for (let i = 0; i < chunks.length; i += batchSize) {
     const batch = chunks.slice(i, i + batchSize);
 
-    let embeddings: number[][] = [];
-
-    if (openai.isConfigured()) {
-      try {
-        const response = await openai.embed({
-          input: batch,
-          model: EMBEDDING_MODEL,
-        });
-        embeddings = response.embeddings;
-      } catch (err) {
-        console.error(`[RAG Indexer] Embedding failed for batch ${i}:`, err);
-        // Continue with null embeddings
-        embeddings = batch.map(() => []);
+    let embeddings: number[][] | null = null;
+    try {
+      embeddings = await embed(batch);
+      if (!embeddings) {
+        console.warn('[RAG Indexer] No embedding provider, storing chunks without embeddings');
       }
-    } else {
-      console.warn('[RAG Indexer] OpenAI not configured, storing chunks without embeddings');
-      embeddings = batch.map(() => []);
+    } catch (err) {
+      console.error(`[RAG Indexer] Embedding failed for batch ${i}:`, err);
+      // Continue with null embeddings
     }
 
-    // Insert chunks — column names must match Supabase schema
-    const chunkRecords = batch.map((text, j) => ({
-      document_id: doc.id,
-      chunk_index: i + j,
-      chunk_text: text,
-      embedding:
-        embeddings[j]?.length === EMBEDDING_DIMENSION ? `[${embeddings[j].join(',')}]` : null,
+    const records: ChunkRecord[] = batch.map((text, j) => ({
+      documentId: doc.id,
+      chunkIndex: i + j,
+      text,
+      embedding: embeddings?.[j] || null,
+      collection,
+      tier,
     }));
 
-    const { error } = await supabase.from('document_chunks').insert(chunkRecords);
-
-    if (error) {
-      console.error(`[RAG Indexer] Chunk insert failed:`, error.message);
+    try {
+      await store.insertChunks(records);
+    } catch (err) {
+      console.error(`[RAG Indexer] Chunk insert failed:`, (err as Error).message);
     }
   }
 
@@ -218,64 +194,21 @@ async function chunkAndEmbed(doc: Document): Promise<void> {
  * Get document by ID
  */
 export async function getDocument(documentId: string): Promise<Document | null> {
-  const supabase = getSupabaseAdmin();
-
-  const { data, error } = await supabase
-    .from('documents')
-    .select()
-    .eq('id', documentId)
-    .maybeSingle();
-
-  if (error) {
-    console.error('[RAG Indexer] Get document failed:', error.message);
-    throw new Error(`Failed to get document: ${error.message}`);
-  }
-
-  return data as Document | null;
+  return getVectorStore().getDocument(documentId);
 }
 
 /**
  * List active documents
  */
 export async function listDocuments(sourceType?: DocumentSourceType): Promise<Document[]> {
-  const supabase = getSupabaseAdmin();
-
-  let query = supabase
-    .from('documents')
-    .select()
-    .eq('is_active', true)
-    .order('updated_at', { ascending: false });
-
-  if (sourceType) {
-    query = query.eq('source_type', sourceType);
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('[RAG Indexer] List documents failed:', error.message);
-    throw new Error(`Failed to list documents: ${error.message}`);
-  }
-
-  return data as Document[];
+  return getVectorStore().listDocuments(sourceType);
 }
 
 /**
  * Delete document (soft delete)
  */
 export async function deleteDocument(documentId: string): Promise<void> {
-  const supabase = getSupabaseAdmin();
-
-  const { error } = await supabase
-    .from('documents')
-    .update({ is_active: false })
-    .eq('id', documentId);
-
-  if (error) {
-    console.error('[RAG Indexer] Delete document failed:', error.message);
-    throw new Error(`Failed to delete document: ${error.message}`);
-  }
-
+  await getVectorStore().deactivateDocument(documentId);
   console.log(`[RAG Indexer] Soft deleted document: ${documentId}`);
 }
 
@@ -283,18 +216,16 @@ export async function deleteDocument(documentId: string): Promise<void> {
  * Re-embed a document (useful after model update)
  */
 export async function reembedDocument(documentId: string): Promise<void> {
-  const supabase = getSupabaseAdmin();
-
-  // Delete existing chunks
-  await supabase.from('document_chunks').delete().eq('document_id', documentId);
+  const store = getVectorStore();
 
   // Get document
-  const doc = await getDocument(documentId);
+  const doc = await store.getDocument(documentId);
   if (!doc) {
     throw new Error(`Document not found: ${documentId}`);
   }
 
-  // Re-chunk and embed
+  // Replace existing chunks
+  await store.deleteChunks(documentId);
   await chunkAndEmbed(doc);
 }
 
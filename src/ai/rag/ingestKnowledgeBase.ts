@@ -2,18 +2,23 @@
  * FOREAS RAG — Script d'ingestion de la knowledge base VTC
  * =========================================================
  * Lit les documents .md, les découpe par sections (## headings),
- * et indexe chaque section comme un document séparé dans Supabase pgvector.
+ * et indexe chaque section comme un document séparé dans le VectorStore
+ * (Supabase pgvector par défaut).
  *
  * V2 — Mars 2026 : ingère TOUS les fichiers de la knowledge base
+ * Incrémental : seules les sections ajoutées/modifiées (content_hash) sont
+ * ré-embeddées, les sections disparues sont désactivées. --force = tout refaire.
  *
- * Usage : npx ts-node src/ai/rag/ingestKnowledgeBase.ts
+ * Usage : npx ts-node src/ai/rag/ingestKnowledgeBase.ts [--dry-run | --force]
+ * Sans base : RAG_VECTOR_STORE=file npx ts-node src/ai/rag/ingestKnowledgeBase.ts
+ *   (store local persisté dans RAG_STORE_PATH, défaut .rag/vector-store.json)
  * Ou via la route admin : POST /api/admin/rag/ingest
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { indexDocument, listDocuments, deleteDocument } from './indexer';
-import type { DocumentSourceType } from '../../data/types';
+import { indexDocument, listDocuments, deleteDocument, hashContent } from './indexer';
+import type { Document, DocumentSourceType } from '../../data/types';
 
 // ─── Configuration ───────────────────────────────────────────
 
@@ -161,22 +166,84 @@ function parseMarkdownSections(markdown: string): Section[] {
 
 // ─── Ingestion principale ────────────────────────────────────
 
-export async function ingestKnowledgeBase(): Promise<{
+/** Une section = `<fichier>::<titre ##>` (metadata.source + metadata.section) */
+function sectionKey(source: string, section: string): string {
+  return `${source}::${section}`;
+}
+
+/** metadata posée par l'ingestion (absente des documents indexés à la main) */
+function kbMetadata(doc: Document): { source?: string; section?: string } {
+  const meta = doc.metadata || {};
+  return {
+    source: typeof meta.source === 'string' ? meta.source : undefined,
+    section: typeof meta.section === 'string' ? meta.section : undefined,
+  };
+}
+
+export interface IngestChangeset {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+export interface IngestResult {
   filesProcessed: number;
   totalSections: number;
   documentsIndexed: number;
   errors: string[];
-}> {
-  console.log('📚 [RAG Ingest V2] Démarrage ingestion knowledge base...');
-  console.log(`📂 [RAG Ingest V2] Dossier: ${DOCUMENTS_DIR}`);
+  changeset: IngestChangeset;
+  dryRun: boolean;
+}
+
+export interface IngestOptions {
+  /** Calcule le changeset sans rien écrire ni embedder */
+  dryRun?: boolean;
+  documentsDir?: string;
+  files?: string[];
+}
+
+/**
+ * Ingestion incrémentale : seules les sections ajoutées ou modifiées
+ * (content_hash différent) sont ré-embeddées ; les sections dont le heading
+ * a disparu d'un fichier traité sont désactivées (is_active=false).
+ */
+export async function ingestKnowledgeBase(options: IngestOptions = {}): Promise<IngestResult> {
+  const documentsDir = options.documentsDir || DOCUMENTS_DIR;
+  const files = options.files || KNOWLEDGE_BASE_FILES;
+  const dryRun = options.dryRun === true;
+
+  console.log(`📚 [RAG Ingest V2] Démarrage ingestion incrémentale${dryRun ? ' (dry run)' : ''}...`);
+  console.log(`📂 [RAG Ingest V2] Dossier: ${documentsDir}`);
 
   let totalSections = 0;
   let documentsIndexed = 0;
   let filesProcessed = 0;
   const errors: string[] = [];
+  const changeset: IngestChangeset = { added: [], updated: [], removed: [], unchanged: 0 };
+
+  // Sections déjà en base, par clé (seulement les fichiers de la KB)
+  const existing = new Map<string, Document>();
+  const stale: Document[] = []; // doublons actifs d'une même section (anciens runs)
+  for (const doc of await listDocuments()) {
+    const meta = kbMetadata(doc);
+    if (!meta.source || !meta.section || !files.includes(meta.source)) continue;
+
+    const key = sectionKey(meta.source, meta.section);
+    const other = existing.get(key);
+    if (other && other.version >= doc.version) {
+      stale.push(doc);
+    } else {
+      if (other) stale.push(other);
+      existing.set(key, doc);
+    }
+  }
+
+  const seen = new Set<string>();
+  const processedFiles = new Set<string>();
 
-  for (const filename of KNOWLEDGE_BASE_FILES) {
-    const filepath = path.join(DOCUMENTS_DIR, filename);
+  for (const filename of files) {
+    const filepath = path.join(documentsDir, filename);
 
     if (!fs.existsSync(filepath)) {
       console.warn(`⚠️ [RAG Ingest V2] Fichier non trouvé: ${filename}, skip`);
@@ -189,42 +256,87 @@ export async function ingestKnowledgeBase(): Promise<{
 
     // Parser en sections
     const sections = parseMarkdownSections(markdown);
-    console.log(`   ${sections.length} sections détectées:`);
-    sections.forEach((s, i) => {
-      console.log(`     ${i + 1}. "${s.title}" (${s.content.length} chars, type: ${s.sourceType})`);
-    });
+    console.log(`   ${sections.length} sections détectées`);
 
     totalSections += sections.length;
+    processedFiles.add(filename);
 
-    // Indexer chaque section
     for (const section of sections) {
-      try {
-        await indexDocument({
-          title: `FOREAS KB: ${section.title}`,
-          content: section.content,
-          sourceType: section.sourceType,
-          metadata: {
-            source: filename,
-            version: filename.includes('v2') ? '2.0' : '1.0',
-            ingestedAt: new Date().toISOString(),
-            section: section.title,
-          },
-        });
-        documentsIndexed++;
-        console.log(`     ✅ "${section.title}"`);
-      } catch (err: any) {
-        const errorMsg = `Erreur "${section.title}" (${filename}): ${err.message}`;
-        errors.push(errorMsg);
-        console.error(`     ❌ ${errorMsg}`);
+      const key = sectionKey(filename, section.title);
+      if (seen.has(key)) {
+        errors.push(`Section en double ignorée: "${section.title}" (${filename})`);
+        continue;
+      }
+      seen.add(key);
+
+      const current = existing.get(key);
+      if (current && current.content_hash === hashContent(section.content)) {
+        changeset.unchanged++;
+        continue;
       }
+
+      if (!dryRun) {
+        try {
+          // Même titre → nouvelle version, l'ancienne est désactivée par l'indexer
+          await indexDocument({
+            title: `FOREAS KB: ${section.title}`,
+            content: section.content,
+            sourceType: section.sourceType,
+            metadata: {
+              source: filename,
+              version: filename.includes('v2') ? '2.0' : '1.0',
+              ingestedAt: new Date().toISOString(),
+              section: section.title,
+            },
+          });
+          documentsIndexed++;
+        } catch (err: any) {
+          const errorMsg = `Erreur "${section.title}" (${filename}): ${err.message}`;
+          errors.push(errorMsg);
+          console.error(`     ❌ ${errorMsg}`);
+          continue;
+        }
+      }
+
+      (current ? changeset.updated : changeset.added).push(key);
+      console.log(`     ${current ? '✏️' : '➕'} "${section.title}"`);
     }
 
     filesProcessed++;
   }
 
+  // Headings disparus (uniquement dans les fichiers lus : un fichier absent ne vide pas la base)
+  const toRemove: Array<[string, Document]> = [
+    ...[...existing].filter(([key, doc]) => {
+      const source = kbMetadata(doc).source;
+      return !!source && processedFiles.has(source) && !seen.has(key);
+    }),
+    ...stale.map((doc): [string, Document] => {
+      const meta = kbMetadata(doc);
+      return [sectionKey(meta.source!, meta.section!), doc];
+    }),
+  ];
+
+  for (const [key, doc] of toRemove) {
+
+    if (!dryRun) {
+      try {
+        await deleteDocument(doc.id);
+      } catch (err: any) {
+        errors.push(`Erreur désactivation "${key}": ${err.message}`);
+        continue;
+      }
+    }
+    changeset.removed.push(key);
+    console.log(`     🗑️ "${key}"`);
+  }
+
   console.log(`\n📊 [RAG Ingest V2] Résultat final:`);
-  console.log(`   Fichiers traités: ${filesProcessed}/${KNOWLEDGE_BASE_FILES.length}`);
+  console.log(`   Fichiers traités: ${filesProcessed}/${files.length}`);
   console.log(`   Sections totales: ${totalSections}`);
+  console.log(
+    `   Changeset: +${changeset.added.length} ~${changeset.updated.length} -${changeset.removed.length} =${changeset.unchanged}`,
+  );
   console.log(`   Documents indexés: ${documentsIndexed}`);
   console.log(`   Erreurs: ${errors.length}`);
 
@@ -233,19 +345,15 @@ export async function ingestKnowledgeBase(): Promise<{
     totalSections,
     documentsIndexed,
     errors,
+    changeset,
+    dryRun,
   };
 }
 
 /**
  * Réindexer tout : supprime les anciens documents KB et réingère
  */
-export async function reingestKnowledgeBase(): Promise<{
-  deleted: number;
-  filesProcessed: number;
-  totalSections: number;
-  documentsIndexed: number;
-  errors: string[];
-}> {
+export async function reingestKnowledgeBase(): Promise<IngestResult & { deleted: number }> {
   console.log('🔄 [RAG Ingest V2] Réindexation complète...');
 
   // 1. Supprimer les anciens documents KB
@@ -253,8 +361,8 @@ export async function reingestKnowledgeBase(): Promise<{
   const kbDocs = existingDocs.filter(
     (d) =>
       d.title.startsWith('FOREAS KB:') ||
-      (d.metadata as any)?.source?.includes('knowledge') ||
-      (d.metadata as any)?.source?.includes('vtc'),
+      kbMetadata(d).source?.includes('knowledge') ||
+      kbMetadata(d).source?.includes('vtc'),
   );
 
   let deleted = 0;
@@ -278,10 +386,16 @@ export async function reingestKnowledgeBase(): Promise<{
 if (require.main === module) {
   const args = process.argv.slice(2);
   const forceReingest = args.includes('--force') || args.includes('-f');
+  const dryRun = args.includes('--dry-run');
+
+  if (forceReingest && dryRun) {
+    console.error('❌ --force et --dry-run sont incompatibles (--force supprime toute la KB)');
+    process.exit(1);
+  }
 
-  const run = forceReingest ? reingestKnowledgeBase : ingestKnowledgeBase;
+  const run = forceReingest ? reingestKnowledgeBase() : ingestKnowledgeBase({ dryRun });
 
-  run()
+  run
     .then((result) => {
       console.log('\n✅ Ingestion terminée:', JSON.stringify(result, null, 2));
       process.exit(0);
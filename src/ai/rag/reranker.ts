@@ -0,0 +1,217 @@
+/**
+ * FOREAS AI Platform V1 - RAG Reranker
+ * =====================================
+ * Second-stage reranking of retrieved chunks before they reach the prompt.
+ *
+ * 1. LLM scoring (cross-encoder style) : le modèle note chaque passage 0-10
+ *    face à la question, via la chaîne de repli `rerank` du routeur.
+ * 2. Repli lexical déterministe (BM25 simplifié + similarité) si aucun
+ *    provider ne répond, si la réponse est illisible ou en mode 'lexical'.
+ */
+
+import { routeCompletion } from '../llm/router';
+import { estimateCost } from '../llm/types';
+import type { SearchResult } from '../../data/types';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_TOP_N = 5;
+// Passages envoyés au LLM (au-delà : coût/latence sans gain)
+const LLM_MAX_CANDIDATES = 15;
+// Caractères par passage dans le prompt de scoring
+const LLM_PASSAGE_CHARS = 700;
+const LLM_MAX_TOKENS = 200;
+
+// Poids du score lexical vs similarité vectorielle (repli)
+const LEXICAL_WEIGHT = 0.6;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'avec', 'dans', 'pour', 'sont', 'mais', 'quoi', 'quel', 'quelle', 'comment', 'est-ce',
+  'cette', 'votre', 'leur', 'tout', 'tous', 'plus', 'moins', 'faire', 'fait', 'peux',
+  'puis', 'elle', 'nous', 'vous', 'what', 'with', 'from', 'that', 'this', 'have',
+]);
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RerankMode = 'llm' | 'lexical';
+
+export interface RerankOptions {
+  topN?: number;
+  /** 'llm' (repli lexical si indisponible, défaut) ou 'lexical' (sans appel LLM) */
+  mode?: RerankMode;
+}
+
+export interface RerankOutcome {
+  results: SearchResult[];
+  strategy: 'llm' | 'lexical' | 'none';
+  /** Provider/model used by the LLM pass, when it answered */
+  model?: string;
+  costUsd: number;
+}
+
+// ============================================
+// LEXICAL FALLBACK
+// ============================================
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 2 && !STOPWORDS.has(w));
+}
+
+/**
+ * BM25 over the candidate set itself (IDF from the candidates), normalised
+ * to 0..1 and blended with the vector similarity. Ties → chunk_id, so the
+ * order never depends on the input order.
+ */
+export function lexicalRerank(query: string, results: SearchResult[], topN = DEFAULT_TOP_N): SearchResult[] {
+  if (results.length === 0) return [];
+
+  const queryTerms = [...new Set(tokenize(query))];
+  const docs = results.map((r) => tokenize(`${r.document_title} ${r.content}`));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, docs.filter((d) => d.includes(term)).length);
+  }
+
+  const bm25 = docs.map((terms) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = terms.filter((t) => t === term).length;
+      if (tf === 0) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * terms.length) / avgLength));
+    }
+    return score;
+  });
+
+  const maxBm25 = Math.max(...bm25);
+
+  return results
+    .map((r, i) => ({
+      ...r,
+      similarity:
+        (maxBm25 > 0 ? bm25[i] / maxBm25 : 0) * LEXICAL_WEIGHT + r.similarity * (1 - LEXICAL_WEIGHT),
+    }))
+    .sort((a, b) => b.similarity - a.similarity || a.chunk_id.localeCompare(b.chunk_id))
+    .slice(0, topN);
+}
+
+// ============================================
+// LLM SCORING
+// ============================================
+
+function buildScoringPrompt(query: string, results: SearchResult[]): string {
+  const passages = results
+    .map((r, i) => `[${i + 1}] ${r.content.replace(/\s+/g, ' ').slice(0, LLM_PASSAGE_CHARS)}`)
+    .join('\n\n');
+
+  return `Question : ${query}
+
+Passages :
+${passages}
+
+Note la pertinence de chaque passage pour répondre à la question, de 0 (hors sujet) à 10 (répond directement).
+Réponds uniquement en JSON : {"scores": [{"id": 1, "score": 7}, ...]}`;
+}
+
+/** Parse {"scores":[{id, score}]} → score per passage index, null if unusable */
+export function parseLLMScores(content: string, count: number): Map<number, number> | null {
+  const json = content.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json[0]);
+    const scores = new Map<number, number>();
+    for (const entry of parsed.scores || []) {
+      const index = Number(entry.id) - 1;
+      const score = Number(entry.score);
+      if (Number.isInteger(index) && index >= 0 && index < count && Number.isFinite(score)) {
+        scores.set(index, Math.min(Math.max(score, 0), 10) / 10);
+      }
+    }
+    return scores.size ? scores : null;
+  } catch {
+    return null;
+  }
+}
+
+async function llmRerank(
+  query: string,
+  results: SearchResult[],
+  topN: number,
+): Promise<RerankOutcome | null> {
+  const candidates = results.slice(0, LLM_MAX_CANDIDATES);
+
+  try {
+    const { response, model } = await routeCompletion('rerank', {
+      messages: [
+        { role: 'system', content: 'Tu es un moteur de classement de passages. Tu réponds uniquement en JSON.' },
+        { role: 'user', content: buildScoringPrompt(query, candidates) },
+      ],
+      temperature: 0,
+      maxTokens: LLM_MAX_TOKENS,
+    });
+
+    const scores = parseLLMScores(response.content, candidates.length);
+    if (!scores) {
+      console.warn('[RAG Reranker] Unparseable LLM scores, falling back to lexical');
+      return null;
+    }
+
+    // Passage non noté : garde une fraction de sa similarité pour rester derrière les notés
+    const ranked = candidates
+      .map((r, i) => ({ ...r, similarity: scores.get(i) ?? r.similarity * 0.1 }))
+      .sort((a, b) => b.similarity - a.similarity || a.chunk_id.localeCompare(b.chunk_id))
+      .slice(0, topN);
+
+    return {
+      results: ranked,
+      strategy: 'llm',
+      model,
+      costUsd: estimateCost(model, response.usage.promptTokens, response.usage.completionTokens).totalCost,
+    };
+  } catch (err) {
+    console.warn('[RAG Reranker] LLM scoring unavailable:', (err as Error).message);
+    return null;
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Rerank retrieved chunks and keep the top-N. Never throws: the lexical
+ * fallback always produces an ordering.
+ */
+export async function rerankResults(
+  query: string,
+  results: SearchResult[],
+  options: RerankOptions = {},
+): Promise<RerankOutcome> {
+  const topN = options.topN || DEFAULT_TOP_N;
+
+  if (results.length <= 1) {
+    return { results: results.slice(0, topN), strategy: 'none', costUsd: 0 };
+  }
+
+  if (options.mode !== 'lexical') {
+    const outcome = await llmRerank(query, results, topN);
+    if (outcome) return outcome;
+  }
+
+  return { results: lexicalRerank(query, results, topN), strategy: 'lexical', costUsd: 0 };
+}
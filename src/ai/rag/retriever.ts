@@ -2,20 +2,23 @@
  * FOREAS AI Platform V1 - RAG Retriever
  * ======================================
  * Semantic search and retrieval for RAG pipeline.
- * Uses pgvector for similarity search.
+ * Storage and embeddings go through the VectorStore / Embedder seam
+ * (pgvector + OpenAI by default, see vectorStore.ts).
  */
 
-import { getSupabaseAdmin } from '../../helpers/supabase';
-import { getOpenAIClient } from '../llm/providers/OpenAIClient';
-import type { SearchResult, DocumentSourceType } from '../../data/types';
+import { getEmbedder, getVectorStore } from './vectorStore';
+import type { Document, DocumentSourceType, RagCitation, SearchResult } from '../../data/types';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
 const DEFAULT_MAX_RESULTS = 5;
-const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/** Consigne de citation, alignée sur les libellés [Source n] de buildContext */
+export const CITATION_INSTRUCTION =
+  'Quand tu utilises une information du contexte, cite sa source avec son numéro, ex. [1] ou [2].';
 
 // ============================================
 // SEARCH FUNCTIONS
@@ -25,9 +28,23 @@ export interface SearchOptions {
   maxResults?: number;
   threshold?: number;
   sourceTypes?: DocumentSourceType[];
+  collections?: string[];
   rerank?: boolean;
 }
 
+/**
+ * Embed a search query. Returns null when no embedder is available or it fails.
+ */
+async function embedQuery(query: string): Promise<number[] | null> {
+  try {
+    const embeddings = await getEmbedder()([query]);
+    return embeddings?.[0] || null;
+  } catch (err) {
+    console.error('[RAG Retriever] Embedding generation failed:', err);
+    return null;
+  }
+}
+
 /**
  * Search documents by semantic similarity
  */
@@ -35,56 +52,32 @@ export async function searchDocuments(
   query: string,
   options: SearchOptions = {},
 ): Promise<SearchResult[]> {
-  const supabase = getSupabaseAdmin();
-  const openai = getOpenAIClient();
+  const store = getVectorStore();
 
   const maxResults = options.maxResults || DEFAULT_MAX_RESULTS;
-  const threshold = options.threshold || DEFAULT_SIMILARITY_THRESHOLD;
+  const threshold = options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const filter = { sourceTypes: options.sourceTypes, collections: options.collections };
 
-  // Check if OpenAI is configured
-  if (!openai.isConfigured()) {
-    console.warn('[RAG Retriever] OpenAI not configured, falling back to text search');
-    return textSearch(query, maxResults);
+  // Generate query embedding
+  const queryEmbedding = await embedQuery(query);
+  if (!queryEmbedding) {
+    console.warn('[RAG Retriever] No query embedding, falling back to text search');
+    return store.textSearch(query, maxResults, filter);
   }
 
-  // Generate query embedding
-  let queryEmbedding: number[];
+  let results: SearchResult[];
   try {
-    const response = await openai.embed({
-      input: query,
-      model: EMBEDDING_MODEL,
+    // Source type / collection filters are applied by the store
+    results = await store.searchDocuments({
+      embedding: queryEmbedding,
+      threshold,
+      limit: maxResults,
+      ...filter,
     });
-    queryEmbedding = response.embeddings[0];
   } catch (err) {
-    console.error('[RAG Retriever] Embedding generation failed:', err);
-    return textSearch(query, maxResults);
-  }
-
-  // Use the search_documents function defined in migration
-  const { data, error } = await supabase.rpc('search_documents', {
-    query_embedding: queryEmbedding,
-    match_threshold: threshold,
-    match_count: maxResults,
-  });
-
-  if (error) {
-    console.error('[RAG Retriever] Search failed:', error.message);
+    console.error('[RAG Retriever] Search failed:', (err as Error).message);
     // Fallback to text search
-    return textSearch(query, maxResults);
-  }
-
-  let results = (data || []).map((row: any) => ({
-    chunk_id: row.id,
-    document_id: row.document_id,
-    document_title: '',
-    content: row.chunk_text || row.content || '',
-    similarity: row.similarity || 0,
-  })) as SearchResult[];
-
-  // Filter by source types if specified
-  if (options.sourceTypes?.length) {
-    const validDocIds = await getDocumentsBySourceType(options.sourceTypes);
-    results = results.filter((r) => validDocIds.has(r.document_id));
+    return store.textSearch(query, maxResults, filter);
   }
 
   console.log(
@@ -104,8 +97,10 @@ export interface KnowledgeOptions {
   candidates?: number; // top-K avant rerank
   threshold?: number;
   collections?: string[] | null;
+  sourceTypes?: DocumentSourceType[];
   includeLearned?: boolean;
   intent?: 'driver' | 'sell' | 'all'; // aiguillage : chauffeur vs vente/prospect
+  rerank?: boolean; // false = pas de reranker Cohere (évaluation offline reproductible)
 }
 
 // ============================================
@@ -161,7 +156,7 @@ const SELL_SIGNALS = [
 ];
 
 /** Choisit les collections selon l'intention (explicite > intent > auto-détection). */
-function resolveCollections(query: string, opts: KnowledgeOptions): string[] | null {
+export function resolveCollections(query: string, opts: KnowledgeOptions): string[] | null {
   if (opts.collections && opts.collections.length) return opts.collections; // explicite gagne
   if (opts.intent === 'all') return null;
   if (opts.intent === 'driver') return DRIVER_COLLECTIONS;
@@ -177,47 +172,34 @@ export async function searchKnowledge(
   query: string,
   options: KnowledgeOptions = {},
 ): Promise<SearchResult[]> {
-  const supabase = getSupabaseAdmin();
-  const openai = getOpenAIClient();
+  const store = getVectorStore();
   const topN = options.maxResults || 5;
   const candidates = options.candidates || Math.max(topN * 3, 12);
 
-  if (!openai.isConfigured()) return textSearch(query, topN);
+  const collections = resolveCollections(query, options);
+  const filter = { collections, sourceTypes: options.sourceTypes };
+
+  const queryEmbedding = await embedQuery(query);
+  if (!queryEmbedding) return store.textSearch(query, topN, filter);
 
-  let queryEmbedding: number[];
+  let results: SearchResult[];
   try {
-    const response = await openai.embed({ input: query, model: EMBEDDING_MODEL });
-    queryEmbedding = response.embeddings[0];
+    results = await store.searchKnowledge({
+      embedding: queryEmbedding,
+      queryText: query,
+      limit: candidates,
+      // seuil abaissé (0.45 → 0.30) : on laisse passer plus de candidats,
+      // le reranker Cohere tranche ensuite (fini les "je ne sais pas" alors que la réponse existe).
+      threshold: options.threshold ?? 0.3,
+      ...filter,
+      includeLearned: options.includeLearned ?? true,
+    });
   } catch (err) {
-    console.error('[RAG searchKnowledge] embedding failed:', err);
-    return textSearch(query, topN);
+    console.error('[RAG searchKnowledge] search failed:', (err as Error).message);
+    return store.textSearch(query, topN, filter);
   }
 
-  const collections = resolveCollections(query, options);
-  const { data, error } = await supabase.rpc('search_knowledge', {
-    query_embedding: queryEmbedding,
-    query_text: query,
-    match_count: candidates,
-    // seuil abaissé (0.45 → 0.30) : on laisse passer plus de candidats,
-    // le reranker Cohere tranche ensuite (fini les "je ne sais pas" alors que la réponse existe).
-    match_threshold: options.threshold ?? 0.3,
-    filter_collections: collections,
-    include_learned: options.includeLearned ?? true,
-  });
-
-  if (error) {
-    console.error('[RAG searchKnowledge] rpc failed:', error.message);
-    return textSearch(query, topN);
-  }
-
-  const results: SearchResult[] = (data || []).map((row: any) => ({
-    chunk_id: row.id,
-    document_id: row.document_id,
-    document_title: row.collection || '',
-    content: row.chunk_text || '',
-    similarity: row.similarity || 0,
-  }));
-
+  if (options.rerank === false) return results.slice(0, topN);
   return rerankCohere(query, results, topN);
 }
 
@@ -258,70 +240,64 @@ async function rerankCohere(
   }
 }
 
-/**
- * Fallback text search when embeddings unavailable
- */
-async function textSearch(query: string, maxResults: number): Promise<SearchResult[]> {
-  const supabase = getSupabaseAdmin();
-
-  // Simple text match search
-  const { data, error } = await supabase
-    .from('document_chunks')
-    .select(
-      `
-      id,
-      document_id,
-      chunk_text,
-      documents!inner(title, is_active)
-    `,
-    )
-    .eq('documents.is_active', true)
-    .ilike('chunk_text', `%${query}%`)
-    .limit(maxResults);
-
-  if (error) {
-    console.error('[RAG Retriever] Text search failed:', error.message);
-    return [];
-  }
-
-  return (data || []).map((row: any) => ({
-    chunk_id: row.id,
-    document_id: row.document_id,
-    document_title: row.documents?.title || 'Unknown',
-    content: row.chunk_text,
-    similarity: 0.5, // Arbitrary score for text match
-  }));
-}
+// ============================================
+// CONTEXT BUILDING
+// ============================================
 
 /**
- * Get document IDs by source type
+ * Resolve structured citations for the chunks injected in the prompt.
+ * `index` matches the [Source n] label of buildContext.
  */
-async function getDocumentsBySourceType(sourceTypes: DocumentSourceType[]): Promise<Set<string>> {
-  const supabase = getSupabaseAdmin();
-
-  const { data } = await supabase
-    .from('documents')
-    .select('id')
-    .eq('is_active', true)
-    .in('source_type', sourceTypes);
+export async function buildCitations(results: SearchResult[]): Promise<RagCitation[]> {
+  const store = getVectorStore();
+  const documents = new Map<string, Promise<Document | null>>();
+
+  const resolve = (documentId: string) => {
+    if (!documents.has(documentId)) {
+      documents.set(
+        documentId,
+        store.getDocument(documentId).catch((err) => {
+          console.warn('[RAG Retriever] Citation lookup failed:', (err as Error).message);
+          return null;
+        }),
+      );
+    }
+    return documents.get(documentId) as Promise<Document | null>;
+  };
 
-  return new Set((data || []).map((d: any) => d.id));
+  return Promise.all(
+    results.map(async (r, i) => {
+      const doc = await resolve(r.document_id);
+      return {
+        index: i + 1,
+        chunk_id: r.chunk_id,
+        document_id: r.document_id,
+        document_title: doc?.title || r.document_title || 'Unknown',
+        section: (doc?.metadata?.section as string) || null,
+        source_type: doc?.source_type || null,
+        score: Math.round(r.similarity * 1000) / 1000,
+      };
+    }),
+  );
 }
 
-// ============================================
-// CONTEXT BUILDING
-// ============================================
+function sourceLabel(result: SearchResult, index: number, citation?: RagCitation): string {
+  const title = citation?.document_title || result.document_title;
+  const section = citation?.section && !title.includes(citation.section) ? ` — ${citation.section}` : '';
+  return title ? `[Source ${index + 1}: ${title}${section}]` : `[Source ${index + 1}]`;
+}
 
 /**
- * Build RAG context from search results
+ * Build RAG context from search results.
+ * With citations, each source is labelled with its document title and section.
  */
-export function buildContext(results: SearchResult[]): string {
+export function buildContext(results: SearchResult[], citations?: RagCitation[]): string {
   if (results.length === 0) {
     return '';
   }
 
   const contextParts = results.map((r, i) => {
-    return `[Source ${i + 1}: ${r.document_title}]\n${r.content}`;
+    return `${sourceLabel(r, i, citations?.[i])}\n${r.content}`;
   });
 
   return contextParts.join('\n\n---\n\n');
@@ -334,8 +310,9 @@ export function buildRAGPrompt(
   query: string,
   results: SearchResult[],
   systemPrompt?: string,
+  citations?: RagCitation[],
 ): string {
-  const context = buildContext(results);
+  const context = buildContext(results, citations);
 
   if (!context) {
     return query;
@@ -360,7 +337,7 @@ ${query}
 ## Instructions
 
 Réponds en français de manière claire et concise.
-Cite les sources si tu utilises des informations du contexte.`;
+${CITATION_INSTRUCTION}`;
 }
 
 // ============================================
@@ -419,7 +396,10 @@ export async function hybridSearch(
   // Run both searches in parallel
   const [semanticResults, keywordResults] = await Promise.all([
     searchDocuments(query, { ...options, maxResults }),
-    textSearch(query, maxResults),
+    getVectorStore().textSearch(query, maxResults, {
+      sourceTypes: options.sourceTypes,
+      collections: options.collections,
+    }),
   ]);
 
   // Merge and deduplicate
@@ -455,61 +435,13 @@ export async function hybridSearch(
  * Get chunk by ID (for logging/tracking)
  */
 export async function getChunkById(chunkId: string): Promise<SearchResult | null> {
-  const supabase = getSupabaseAdmin();
-
-  const { data, error } = await supabase
-    .from('document_chunks')
-    .select(
-      `
-      id,
-      document_id,
-      chunk_text,
-      documents!inner(title)
-    `,
-    )
-    .eq('id', chunkId)
-    .single();
-
-  if (error || !data) {
-    return null;
-  }
-
-  return {
-    chunk_id: data.id,
-    document_id: data.document_id,
-    document_title: (data as any).documents?.title || 'Unknown',
-    content: data.chunk_text,
-    similarity: 1.0,
-  };
+  const [chunk] = await getVectorStore().getChunksByIds([chunkId]);
+  return chunk || null;
 }
 
 /**
  * Get multiple chunks by IDs
  */
 export async function getChunksByIds(chunkIds: string[]): Promise<SearchResult[]> {
-  const supabase = getSupabaseAdmin();
-
-  const { data, error } = await supabase
-    .from('document_chunks')
-    .select(
-      `
-      id,
-      document_id,
-      chunk_text,
-      documents!inner(title)
-    `,
-    )
-    .in('id', chunkIds);
-
-  if (error || !data) {
-    return [];
-  }
-
-  return data.map((row: any) => ({
-    chunk_id: row.id,
-    document_id: row.document_id,
-    document_title: row.documents?.title || 'Unknown',
-    content: row.chunk_text,
-    similarity: 1.0,
-  }));
+  return getVectorStore().getChunksByIds(chunkIds);
 }
@@ -0,0 +1,61 @@
+/**
+ * FOREAS AI Platform V1 - File Vector Store
+ * ==========================================
+ * In-process VectorStore persisted to a JSON file: dev and knowledge-base
+ * ingestion without a database (RAG_VECTOR_STORE=file).
+ *
+ * Fichier réécrit entièrement (tmp + rename) à chaque mutation : fait pour
+ * quelques milliers de chunks, pas pour la prod.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Document } from '../../../data/types';
+import { InMemoryVectorStore } from './InMemoryVectorStore';
+import type { StoredChunk } from './InMemoryVectorStore';
+
+const FILE_FORMAT_VERSION = 1;
+
+interface StoreFile {
+  version: number;
+  documents: Document[];
+  chunks: StoredChunk[];
+}
+
+export class FileVectorStore extends InMemoryVectorStore {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  protected persist(): void {
+    const data: StoreFile = {
+      version: FILE_FORMAT_VERSION,
+      documents: [...this.documents.values()],
+      chunks: [...this.chunks.values()],
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as StoreFile;
+    if (data.version !== FILE_FORMAT_VERSION) {
+      throw new Error(`Unsupported vector store file version ${data.version}: ${this.filePath}`);
+    }
+
+    for (const doc of data.documents) this.documents.set(doc.id, doc);
+    for (const chunk of data.chunks) this.chunks.set(chunk.id, chunk);
+
+    console.log(
+      `[RAG File] Loaded ${this.documents.size} documents / ${this.chunks.size} chunks from ${this.filePath}`,
+    );
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * FOREAS AI Platform V1 - In-Memory Vector Store
+ * ===============================================
+ * Process-local VectorStore (tests, offline evaluation, base of the file
+ * store). Rows mirror public.documents / public.document_chunks; brute-force
+ * cosine similarity with the same filtering rules as the pgvector RPCs.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Document, DocumentSourceType, SearchResult } from '../../../data/types';
+import type {
+  ChunkRecord,
+  CreateDocumentInput,
+  KnowledgeSearchParams,
+  VectorFilter,
+  VectorSearchParams,
+  VectorStore,
+} from '../vectorStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One row of document_chunks */
+export interface StoredChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  chunk_text: string;
+  embedding: number[] | null;
+  collection: string | null;
+  tier: string | null;
+}
+
+// Bonus lexical de la recherche hybride (search_knowledge : sens + mots)
+const KEYWORD_WEIGHT = 0.15;
+
+const LEARNED_TIER = 'learned';
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length > 3),
+  );
+}
+
+/** Share of query keywords found in the chunk (0..1) */
+function keywordOverlap(query: string, text: string): number {
+  const queryWords = keywords(query);
+  if (queryWords.size === 0) return 0;
+
+  const textWords = keywords(text);
+  let hits = 0;
+  for (const w of queryWords) {
+    if (textWords.has(w)) hits++;
+  }
+  return hits / queryWords.size;
+}
+
+// ============================================
+// STORE
+// ============================================
+
+export class InMemoryVectorStore implements VectorStore {
+  readonly name: string = 'memory';
+
+  protected documents = new Map<string, Document>();
+  protected chunks = new Map<string, StoredChunk>();
+
+  /**
+   * Seed a document with a fixed id and its chunks (replaces existing ones)
+   */
+  addDocument(
+    document: Pick<Document, 'id' | 'title' | 'source_type'> & Partial<Document>,
+    chunks: ChunkRecord[],
+  ): void {
+    const now = new Date().toISOString();
+    this.removeChunks(document.id);
+    this.documents.set(document.id, {
+      content: '',
+      content_hash: '',
+      metadata: {},
+      is_active: true,
+      version: 1,
+      created_by: null,
+      created_at: now,
+      updated_at: now,
+      ...document,
+    });
+    this.addChunks(chunks.map((c) => ({ ...c, documentId: document.id })));
+    this.persist();
+  }
+
+  get size(): { documents: number; chunks: number } {
+    return { documents: this.documents.size, chunks: this.chunks.size };
+  }
+
+  // ============================================
+  // DOCUMENTS
+  // ============================================
+
+  async getDocument(documentId: string): Promise<Document | null> {
+    return this.documents.get(documentId) || null;
+  }
+
+  async listDocuments(sourceType?: DocumentSourceType): Promise<Document[]> {
+    return [...this.documents.values()]
+      .filter((d) => d.is_active && (!sourceType || d.source_type === sourceType))
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  }
+
+  async findActiveDocumentByHash(contentHash: string): Promise<Document | null> {
+    for (const doc of this.documents.values()) {
+      if (doc.is_active && doc.content_hash === contentHash) return doc;
+    }
+    return null;
+  }
+
+  async createDocumentVersion(input: CreateDocumentInput): Promise<Document> {
+    const now = new Date().toISOString();
+    let version = 0;
+
+    for (const doc of this.documents.values()) {
+      if (doc.title !== input.title) continue;
+      version = Math.max(version, doc.version);
+      if (doc.is_active) {
+        doc.is_active = false;
+        doc.updated_at = now;
+      }
+    }
+
+    const doc: Document = {
+      id: randomUUID(),
+      title: input.title,
+      source_type: input.sourceType,
+      content: input.content,
+      content_hash: input.contentHash,
+      metadata: input.metadata,
+      is_active: true,
+      version: version + 1,
+      created_by: input.createdBy,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.documents.set(doc.id, doc);
+    this.persist();
+    return doc;
+  }
+
+  async deactivateDocument(documentId: string): Promise<void> {
+    const doc = this.documents.get(documentId);
+    if (!doc) return;
+
+    doc.is_active = false;
+    doc.updated_at = new Date().toISOString();
+    this.persist();
+  }
+
+  // ============================================
+  // CHUNKS
+  // ============================================
+
+  async insertChunks(chunks: ChunkRecord[]): Promise<void> {
+    this.addChunks(chunks);
+    this.persist();
+  }
+
+  async deleteChunks(documentId: string): Promise<void> {
+    this.removeChunks(documentId);
+    this.persist();
+  }
+
+  async getChunksByIds(chunkIds: string[]): Promise<SearchResult[]> {
+    return chunkIds
+      .map((id) => this.chunks.get(id))
+      .filter((chunk): chunk is StoredChunk => Boolean(chunk))
+      .map((chunk) => ({
+        chunk_id: chunk.id,
+        document_id: chunk.document_id,
+        document_title: this.documents.get(chunk.document_id)?.title || 'Unknown',
+        content: chunk.chunk_text,
+        similarity: 1.0,
+      }));
+  }
+
+  // ============================================
+  // SEARCH
+  // ============================================
+
+  async searchDocuments(params: VectorSearchParams): Promise<SearchResult[]> {
+    return this.rank(params, () => true, (chunk, doc, similarity) => ({
+      ...this.toResult(chunk, doc, similarity),
+      document_title: '',
+    }));
+  }
+
+  async searchKnowledge(params: KnowledgeSearchParams): Promise<SearchResult[]> {
+    return this.rank(
+      params,
+      (chunk) => chunk.collection !== null && (params.includeLearned || chunk.tier !== LEARNED_TIER),
+      (chunk, doc, similarity) => ({
+        ...this.toResult(chunk, doc, similarity),
+        document_title: chunk.collection || '',
+        similarity:
+          similarity * (1 - KEYWORD_WEIGHT) +
+          keywordOverlap(params.queryText, chunk.chunk_text) * KEYWORD_WEIGHT,
+      }),
+    );
+  }
+
+  async textSearch(query: string, limit: number, filter: VectorFilter = {}): Promise<SearchResult[]> {
+    const needle = query.toLowerCase();
+    const results: SearchResult[] = [];
+
+    for (const chunk of this.chunks.values()) {
+      const doc = this.documents.get(chunk.document_id);
+      if (!this.matches(chunk, doc, filter) || !chunk.chunk_text.toLowerCase().includes(needle)) {
+        continue;
+      }
+
+      results.push(this.toResult(chunk, doc, 0.5)); // Arbitrary score for text match
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  /** Hook for durable subclasses, called after every mutation */
+  protected persist(): void {}
+
+  protected addChunks(chunks: ChunkRecord[]): void {
+    for (const c of chunks) {
+      const chunk: StoredChunk = {
+        id: randomUUID(),
+        document_id: c.documentId,
+        chunk_index: c.chunkIndex,
+        chunk_text: c.text,
+        embedding: c.embedding?.length ? c.embedding : null,
+        collection: c.collection ?? null,
+        tier: c.tier ?? null,
+      };
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  protected removeChunks(documentId: string): void {
+    for (const [id, chunk] of this.chunks) {
+      if (chunk.document_id === documentId) this.chunks.delete(id);
+    }
+  }
+
+  /** Active document + source_type / collection filter, same semantics as the SQL side */
+  private matches(chunk: StoredChunk, doc: Document | undefined, filter: VectorFilter): doc is Document {
+    if (!doc?.is_active) return false;
+    if (filter.sourceTypes?.length && !filter.sourceTypes.includes(doc.source_type)) return false;
+    if (filter.collections?.length && !filter.collections.includes(chunk.collection as string)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Cosine search over matching chunks, thresholded on the raw similarity
+   * then sorted by the mapped score
+   */
+  private rank(
+    params: VectorSearchParams,
+    accept: (chunk: StoredChunk) => boolean,
+    map: (chunk: StoredChunk, doc: Document, similarity: number) => SearchResult,
+  ): SearchResult[] {
+    const results: SearchResult[] = [];
+
+    for (const chunk of this.chunks.values()) {
+      if (!chunk.embedding) continue;
+
+      const doc = this.documents.get(chunk.document_id);
+      if (!this.matches(chunk, doc, params) || !accept(chunk)) continue;
+
+      const similarity = cosineSimilarity(params.embedding, chunk.embedding);
+      if (similarity < params.threshold) continue;
+
+      results.push(map(chunk, doc, similarity));
+    }
+
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, params.limit);
+  }
+
+  private toResult(chunk: StoredChunk, doc: Document, similarity: number): SearchResult {
+    return {
+      chunk_id: chunk.id,
+      document_id: doc.id,
+      document_title: doc.title,
+      content: chunk.chunk_text,
+      similarity,
+    };
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * FOREAS AI Platform V1 - Supabase pgvector Store
+ * ================================================
+ * Production VectorStore: public.documents + public.document_chunks,
+ * similarity through the `match_document_chunks` / `search_knowledge` RPCs.
+ *
+ * Les filtres source_type / collection sont appliqués dans la requête
+ * (`match_document_chunks`), avant le LIMIT : même nombre de résultats
+ * que le store en mémoire. `search_knowledge` ne filtre que par collection :
+ * une recherche knowledge filtrée par source_type passe donc par
+ * `match_document_chunks` (similarité vectorielle seule).
+ */
+
+import { getSupabaseAdmin } from '../../../helpers/supabase';
+import type { Document, DocumentSourceType, SearchResult } from '../../../data/types';
+import { EMBEDDING_DIMENSION } from '../vectorStore';
+import type {
+  ChunkRecord,
+  CreateDocumentInput,
+  KnowledgeSearchParams,
+  VectorFilter,
+  VectorSearchParams,
+  VectorStore,
+} from '../vectorStore';
+
+/** Row of `match_document_chunks` */
+interface MatchChunkRow {
+  id: string;
+  document_id: string;
+  document_title: string | null;
+  chunk_text: string | null;
+  collection: string | null;
+  similarity: number | null;
+}
+
+/** Row of `search_knowledge` */
+interface KnowledgeRow {
+  id: string;
+  document_id: string;
+  chunk_text: string | null;
+  collection: string | null;
+  similarity: number | null;
+}
+
+/** document_chunks row joined with its document */
+interface ChunkWithDocumentRow {
+  id: string;
+  document_id: string;
+  chunk_text: string;
+  documents: { title: string | null } | null;
+}
+
+function toFilterArray<T>(values: T[] | null | undefined): T[] | null {
+  return values?.length ? values : null;
+}
+
+function chunkWithDocumentToResult(row: ChunkWithDocumentRow, similarity: number): SearchResult {
+  return {
+    chunk_id: row.id,
+    document_id: row.document_id,
+    document_title: row.documents?.title || 'Unknown',
+    content: row.chunk_text,
+    similarity,
+  };
+}
+
+export class SupabaseVectorStore implements VectorStore {
+  readonly name = 'supabase';
+
+  // ============================================
+  // DOCUMENTS
+  // ============================================
+
+  async getDocument(documentId: string): Promise<Document | null> {
+    const { data, error } = await getSupabaseAdmin()
+      .from('documents')
+      .select()
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[RAG Supabase] Get document failed:', error.message);
+      throw new Error(`Failed to get document: ${error.message}`);
+    }
+
+    return data as Document | null;
+  }
+
+  async listDocuments(sourceType?: DocumentSourceType): Promise<Document[]> {
+    let query = getSupabaseAdmin()
+      .from('documents')
+      .select()
+      .eq('is_active', true)
+      .order('updated_at', { ascending: false });
+
+    if (sourceType) {
+      query = query.eq('source_type', sourceType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[RAG Supabase] List documents failed:', error.message);
+      throw new Error(`Failed to list documents: ${error.message}`);
+    }
+
+    return data as Document[];
+  }
+
+  async findActiveDocumentByHash(contentHash: string): Promise<Document | null> {
+    const { data } = await getSupabaseAdmin()
+      .from('documents')
+      .select()
+      .eq('content_hash', contentHash)
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle();
+
+    return data as Document | null;
+  }
+
+  async createDocumentVersion(input: CreateDocumentInput): Promise<Document> {
+    const supabase = getSupabaseAdmin();
+
+    // Deactivate old versions with same title
+    await supabase
+      .from('documents')
+      .update({ is_active: false })
+      .eq('title', input.title)
+      .eq('is_active', true);
+
+    // Get next version
+    const { data: versionData } = await supabase
+      .from('documents')
+      .select('version')
+      .eq('title', input.title)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const version = (versionData?.version || 0) + 1;
+
+    const { data: doc, error } = await supabase
+      .from('documents')
+      .insert({
+        title: input.title,
+        content: input.content,
+        source_type: input.sourceType,
+        content_hash: input.contentHash,
+        metadata: input.metadata,
+        is_active: true,
+        version,
+        created_by: input.createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[RAG Supabase] Document insert failed:', error.message);
+      throw new Error(`Failed to index document: ${error.message}`);
+    }
+
+    return doc as Document;
+  }
+
+  async deactivateDocument(documentId: string): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('documents')
+      .update({ is_active: false })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('[RAG Supabase] Delete document failed:', error.message);
+      throw new Error(`Failed to delete document: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // CHUNKS
+  // ============================================
+
+  async insertChunks(chunks: ChunkRecord[]): Promise<void> {
+    // Column names must match Supabase schema
+    const records = chunks.map((c) => ({
+      document_id: c.documentId,
+      chunk_index: c.chunkIndex,
+      chunk_text: c.text,
+      embedding:
+        c.embedding?.length === EMBEDDING_DIMENSION ? `[${c.embedding.join(',')}]` : null,
+      ...(c.collection ? { collection: c.collection } : {}),
+      ...(c.tier ? { tier: c.tier } : {}),
+    }));
+
+    const { error } = await getSupabaseAdmin().from('document_chunks').insert(records);
+
+    if (error) {
+      console.error('[RAG Supabase] Chunk insert failed:', error.message);
+      throw new Error(`Failed to insert chunks: ${error.message}`);
+    }
+  }
+
+  async deleteChunks(documentId: string): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('document_chunks')
+      .delete()
+      .eq('document_id', documentId);
+
+    if (error) {
+      throw new Error(`Failed to delete chunks: ${error.message}`);
+    }
+  }
+
+  async getChunksByIds(chunkIds: string[]): Promise<SearchResult[]> {
+    const { data, error } = await getSupabaseAdmin()
+      .from('document_chunks')
+      .select(
+        `
+      id,
+      document_id,
+      chunk_text,
+      documents!inner(title)
+    `,
+      )
+      .in('id', chunkIds);
+
+    if (error || !data) {
+      return [];
+    }
+
+    return (data as unknown as ChunkWithDocumentRow[]).map((row) => chunkWithDocumentToResult(row, 1.0));
+  }
+
+  // ============================================
+  // SEARCH
+  // ============================================
+
+  async searchDocuments(params: VectorSearchParams): Promise<SearchResult[]> {
+    const rows = await this.matchChunks(params, { knowledgeOnly: false, includeLearned: true });
+
+    return rows.map((row) => ({
+      chunk_id: row.id,
+      document_id: row.document_id,
+      document_title: row.document_title || '',
+      content: row.chunk_text || '',
+      similarity: row.similarity || 0,
+    }));
+  }
+
+  async searchKnowledge(params: KnowledgeSearchParams): Promise<SearchResult[]> {
+    if (params.sourceTypes?.length) {
+      const rows = await this.matchChunks(params, {
+        knowledgeOnly: true,
+        includeLearned: params.includeLearned,
+      });
+      return rows.map((row) => this.knowledgeRowToResult(row));
+    }
+
+    const { data, error } = await getSupabaseAdmin().rpc('search_knowledge', {
+      query_embedding: params.embedding,
+      query_text: params.queryText,
+      match_count: params.limit,
+      match_threshold: params.threshold,
+      filter_collections: toFilterArray(params.collections),
+      include_learned: params.includeLearned,
+    });
+
+    if (error) {
+      throw new Error(`search_knowledge failed: ${error.message}`);
+    }
+
+    return ((data || []) as KnowledgeRow[]).map((row) => this.knowledgeRowToResult(row));
+  }
+
+  async textSearch(query: string, limit: number, filter: VectorFilter = {}): Promise<SearchResult[]> {
+    let request = getSupabaseAdmin()
+      .from('document_chunks')
+      .select(
+        `
+      id,
+      document_id,
+      chunk_text,
+      documents!inner(title, is_active, source_type)
+    `,
+      )
+      .eq('documents.is_active', true)
+      .ilike('chunk_text', `%${query}%`);
+
+    if (filter.sourceTypes?.length) {
+      request = request.in('documents.source_type', filter.sourceTypes);
+    }
+    if (filter.collections?.length) {
+      request = request.in('collection', filter.collections);
+    }
+
+    const { data, error } = await request.limit(limit);
+
+    if (error) {
+      console.error('[RAG Supabase] Text search failed:', error.message);
+      return [];
+    }
+
+    // Arbitrary score for text match
+    return ((data || []) as unknown as ChunkWithDocumentRow[]).map((row) => chunkWithDocumentToResult(row, 0.5));
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async matchChunks(
+    params: VectorSearchParams,
+    options: { knowledgeOnly: boolean; includeLearned: boolean },
+  ): Promise<MatchChunkRow[]> {
+    const { data, error } = await getSupabaseAdmin().rpc('match_document_chunks', {
+      query_embedding: params.embedding,
+      match_threshold: params.threshold,
+      match_count: params.limit,
+      filter_source_types: toFilterArray(params.sourceTypes),
+      filter_collections: toFilterArray(params.collections),
+      knowledge_only: options.knowledgeOnly,
+      include_learned: options.includeLearned,
+    });
+
+    if (error) {
+      throw new Error(`match_document_chunks failed: ${error.message}`);
+    }
+
+    return (data || []) as MatchChunkRow[];
+  }
+
+  private knowledgeRowToResult(row: KnowledgeRow): SearchResult {
+    return {
+      chunk_id: row.id,
+      document_id: row.document_id,
+      document_title: row.collection || '',
+      content: row.chunk_text || '',
+      similarity: row.similarity || 0,
+    };
+  }
+}
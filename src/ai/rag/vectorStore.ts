@@ -0,0 +1,162 @@
+/**
+ * FOREAS AI Platform V1 - RAG Vector Store
+ * =========================================
+ * Storage seam of the RAG pipeline: the indexer and the retriever talk to
+ * a VectorStore and an Embedder instead of Supabase / OpenAI directly.
+ *
+ * Backends : Supabase pgvector (défaut), fichier local (RAG_VECTOR_STORE=file,
+ * dev et ingestion sans base) et mémoire (tests, évaluation offline).
+ * Les filtres source_type / collection ont la même sémantique partout.
+ */
+
+import * as path from 'path';
+import { getOpenAIClient } from '../llm/providers/OpenAIClient';
+import type { Document, DocumentSourceType, SearchResult } from '../../data/types';
+import { FileVectorStore } from './stores/FileVectorStore';
+import { InMemoryVectorStore } from './stores/InMemoryVectorStore';
+import { SupabaseVectorStore } from './stores/SupabaseVectorStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Metadata filters, applied identically by every backend
+ * (null / empty = no filter)
+ */
+export interface VectorFilter {
+  sourceTypes?: DocumentSourceType[] | null;
+  collections?: string[] | null;
+}
+
+export interface VectorSearchParams extends VectorFilter {
+  embedding: number[];
+  threshold: number;
+  limit: number;
+}
+
+export interface KnowledgeSearchParams extends VectorSearchParams {
+  queryText: string;
+  /** Include chunks learned from conversations (tier = 'learned') */
+  includeLearned: boolean;
+}
+
+export interface CreateDocumentInput {
+  title: string;
+  content: string;
+  sourceType: DocumentSourceType;
+  contentHash: string;
+  metadata: Record<string, unknown>;
+  createdBy: string | null;
+}
+
+/** One row of document_chunks, as written by the indexer */
+export interface ChunkRecord {
+  documentId: string;
+  chunkIndex: number;
+  text: string;
+  embedding: number[] | null;
+  collection?: string | null;
+  tier?: string | null;
+}
+
+export interface VectorStore {
+  readonly name: string;
+
+  // Documents
+  getDocument(documentId: string): Promise<Document | null>;
+  listDocuments(sourceType?: DocumentSourceType): Promise<Document[]>;
+  findActiveDocumentByHash(contentHash: string): Promise<Document | null>;
+
+  /** Insert a new active version; previous active versions with the same title are deactivated */
+  createDocumentVersion(input: CreateDocumentInput): Promise<Document>;
+
+  /** Soft delete */
+  deactivateDocument(documentId: string): Promise<void>;
+
+  // Chunks
+  insertChunks(chunks: ChunkRecord[]): Promise<void>;
+  deleteChunks(documentId: string): Promise<void>;
+  getChunksByIds(chunkIds: string[]): Promise<SearchResult[]>;
+
+  // Search (active documents only)
+
+  /** Similarity search (`search_documents`) */
+  searchDocuments(params: VectorSearchParams): Promise<SearchResult[]>;
+
+  /** Governed hybrid search over knowledge collections (`search_knowledge`) */
+  searchKnowledge(params: KnowledgeSearchParams): Promise<SearchResult[]>;
+
+  /** Case-insensitive keyword search */
+  textSearch(query: string, limit: number, filter?: VectorFilter): Promise<SearchResult[]>;
+}
+
+/**
+ * Embeds texts for indexing and search. Returns null when no embedding
+ * provider is available (callers fall back to keyword search).
+ */
+export type Embedder = (texts: string[]) => Promise<number[][] | null>;
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_DIMENSION = 1536;
+
+const openAIEmbedder: Embedder = async (texts) => {
+  const openai = getOpenAIClient();
+  if (!openai.isConfigured()) return null;
+
+  const response = await openai.embed({ input: texts, model: EMBEDDING_MODEL });
+  return response.embeddings;
+};
+
+export type VectorStoreBackend = 'supabase' | 'file' | 'memory';
+
+// RAG_VECTOR_STORE=file : dev / ingestion sans base, persisté dans RAG_STORE_PATH
+export const DEFAULT_FILE_STORE_PATH = path.resolve(process.cwd(), '.rag', 'vector-store.json');
+
+let _vectorStore: VectorStore | null = null;
+let _embedder: Embedder = openAIEmbedder;
+
+export function createVectorStore(
+  backend: VectorStoreBackend = (process.env.RAG_VECTOR_STORE as VectorStoreBackend) || 'supabase',
+): VectorStore {
+  switch (backend) {
+    case 'file':
+      return new FileVectorStore(process.env.RAG_STORE_PATH || DEFAULT_FILE_STORE_PATH);
+    case 'memory':
+      return new InMemoryVectorStore();
+    case 'supabase':
+      return new SupabaseVectorStore();
+    default:
+      throw new Error(`Unknown RAG_VECTOR_STORE: ${backend}`);
+  }
+}
+
+export function getVectorStore(): VectorStore {
+  if (!_vectorStore) {
+    _vectorStore = createVectorStore();
+    console.log(`[RAG] Vector store: ${_vectorStore.name}`);
+  }
+  return _vectorStore;
+}
+
+/**
+ * Swap the RAG backend (tests, offline evaluation). `null` restores the default.
+ */
+export function setVectorStore(store: VectorStore | null): void {
+  _vectorStore = store;
+}
+
+export function getEmbedder(): Embedder {
+  return _embedder;
+}
+
+/**
+ * Swap the embedding provider. `null` restores OpenAI.
+ */
+export function setEmbedder(embedder: Embedder | null): void {
+  _embedder = embedder || openAIEmbedder;
+}
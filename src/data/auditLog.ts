@@ -254,6 +254,9 @@ export function logSupportAction(
   });
 }
 
+/** actor_id des actions système (audit_logs.actor_id est un UUID NOT NULL) */
+export const SYSTEM_ACTOR_ID = '00000000-0000-0000-0000-000000000000';
+
 /**
  * Log system action
  */
@@ -264,7 +267,7 @@ export function logSystemAction(
   details?: Record<string, unknown>
 ): void {
   logAuditAsync({
-    actorId: 'system',
+    actorId: SYSTEM_ACTOR_ID,
     actorRole: 'system',
     action,
     targetType,
@@ -304,6 +307,33 @@ export const AUDIT_ACTIONS = {
   PAYMENT_FAILED: 'payment.failed',
   REFUND_ISSUED: 'refund.issued',
 
+  // Direct bookings (annulation, absence, frais)
+  BOOKING_CANCELLED: 'booking.cancelled',
+  BOOKING_NO_SHOW: 'booking.no_show',
+  BOOKING_FEE_CHARGED: 'booking.fee_charged',
+  BOOKING_FEE_FAILED: 'booking.fee_failed',
+  BOOKING_DEPOSIT_REFUNDED: 'booking.deposit_refunded',
+  BOOKING_POLICY_UPDATED: 'booking.cancellation_policy_updated',
+
+  // Avis clients
+  REVIEW_MODERATED: 'review.moderated',
+  REVIEW_REPLIED: 'review.replied',
+
+  // Sous-traitance entre chauffeurs
+  SUBCONTRACT_OFFERED: 'subcontract.offered',
+  SUBCONTRACT_WITHDRAWN: 'subcontract.withdrawn',
+  SUBCONTRACT_ACCEPTED: 'subcontract.accepted',
+  SUBCONTRACT_SETTLED: 'subcontract.settled',
+  SUBCONTRACT_SETTLEMENT_FAILED: 'subcontract.settlement_failed',
+
+  // Appels Ajnaya (analyse des transcripts)
+  VOICE_COMPLIANCE_FLAGGED: 'voice.compliance_flagged',
+
+  // Liste d'opposition (Bloctel, désabonnements)
+  SUPPRESSION_LIST_IMPORTED: 'suppression.list_imported',
+  SUPPRESSION_ADDED: 'suppression.added',
+  SUPPRESSION_REMOVED: 'suppression.removed',
+
   // Support
   SUPPORT_TICKET_CREATED: 'support.ticket_created',
   SUPPORT_TICKET_RESOLVED: 'support.ticket_resolved',
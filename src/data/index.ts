@@ -71,6 +71,7 @@ export {
   logSupportAction,
   logSystemAction,
   AUDIT_ACTIONS,
+  SYSTEM_ACTOR_ID,
 } from './auditLog';
 
 export type { AuditAction } from './auditLog';
@@ -98,7 +98,7 @@ export interface LogMessageInput {
   contentRedacted: string;
   contentHash?: string;
   promptContextSummary?: string;
-  ragChunksUsed?: string[];
+  ragChunksUsed?: RagCitation[];
   model?: string;
   provider?: string;
   tokensInput?: number;
@@ -114,7 +114,8 @@ export interface Message {
   content_redacted: string;
   content_hash: string | null;
   prompt_context_summary: string | null;
-  rag_chunks_used: string[] | null;
+  /** Citations; rows written before 2026-10 hold bare chunk ids */
+  rag_chunks_used: Array<RagCitation | string> | null;
   model: string;
   provider: string;
   tokens_input: number;
@@ -292,6 +293,18 @@ export interface SearchResult {
   similarity: number;
 }
 
+/** Source of a RAG answer, stored in ai_messages.rag_chunks_used */
+export interface RagCitation {
+  /** 1-based, matches the [Source n] marker given to the LLM */
+  index: number;
+  chunk_id: string;
+  document_id: string;
+  document_title: string;
+  section: string | null;
+  source_type: DocumentSourceType | null;
+  score: number;
+}
+
 // ============================================
 // DATA CONSENT TYPES
 // ============================================
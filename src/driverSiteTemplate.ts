@@ -377,20 +377,30 @@ function renderTestimonials(site: any, firstName: string, city: string): string[
   return list.slice(0, 3).map((t, i) => renderTestimonialCard(t, i));
 }
 
+// Les témoignages réels viennent des commentaires clients → toujours échappés
+function escapeHtml(s: string): string {
+  return String(s)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 function renderTestimonialCard(
   t: { stars: number; quote: string; author: string; trip: string },
   i: number,
 ): string {
   const starsStr = '★'.repeat(Math.round(t.stars)) + '☆'.repeat(5 - Math.round(t.stars));
-  const initial = (t.author || '?').charAt(0).toUpperCase();
+  const initial = escapeHtml((t.author || '?').charAt(0).toUpperCase());
   return `
     <div class="testimonial-card reveal delay-${Math.min(i + 1, 3)}">
       <div class="testimonial-stars">${starsStr}</div>
-      <div class="testimonial-quote">${t.quote}</div>
+      <div class="testimonial-quote">${escapeHtml(t.quote)}</div>
       <div class="testimonial-author">
         <div class="testimonial-avatar">${initial}</div>
         <div>
-          <div class="testimonial-meta-name">${t.author}</div>
+          <div class="testimonial-meta-name">${escapeHtml(t.author)}</div>
           <div class="testimonial-meta-trip">${t.trip}</div>
         </div>
       </div>
@@ -450,6 +460,10 @@ export function renderDriverPage(
   const canAcceptPayment = hasStripe && !!stripePublishableKey;
   const tripsLabel = totalTrips > 100 ? `${totalTrips}+` : totalTrips > 0 ? `${totalTrips}` : '--';
 
+  // Avis vérifiés injectés par le handler (driver_reviews publiés, avec date)
+  const verifiedReviews: Array<{ stars: number; quote: string; author: string; date: string }> =
+    Array.isArray(site.testimonials) ? site.testimonials.filter((t: any) => t && t.date) : [];
+
   // JSON-LD structured data
   const jsonLd = {
     '@context': 'https://schema.org',
@@ -459,16 +473,30 @@ export function renderDriverPage(
     url: siteUrl,
     ...(site.photo_url ? { image: site.photo_url } : {}),
     address: { '@type': 'PostalAddress', addressLocality: city, addressCountry: 'FR' },
-    ...(totalTipCount > 0
+    // Note bayésienne des avis vérifiés (ReviewService) — jamais émise sans avis réel
+    ...(totalTipCount > 0 && rating > 0
       ? {
           aggregateRating: {
             '@type': 'AggregateRating',
             ratingValue: rating.toFixed(1),
             bestRating: '5',
+            worstRating: '1',
             ratingCount: String(totalTipCount),
+            reviewCount: String(totalTipCount),
           },
         }
       : {}),
+    ...(verifiedReviews.length > 0
+      ? {
+          review: verifiedReviews.map((t) => ({
+            '@type': 'Review',
+            author: { '@type': 'Person', name: t.author },
+            datePublished: String(t.date).slice(0, 10),
+            reviewBody: t.quote,
+            reviewRating: { '@type': 'Rating', ratingValue: String(t.stars), bestRating: '5', worstRating: '1' },
+          })),
+        }
+      : {}),
     priceRange: '$$',
     knowsLanguage: languages,
     areaServed: { '@type': 'City', name: city },
@@ -547,7 +575,7 @@ ${site.photo_url ? `<meta name="twitter:image" content="${site.photo_url}">` : '
 <meta name="format-detection" content="telephone=yes">
 
 <!-- JSON-LD -->
-<script type="application/ld+json">${JSON.stringify(jsonLd)}</script>
+<script type="application/ld+json">${JSON.stringify(jsonLd).replace(/</g, '\\u003c')}</script>
 <script type="application/ld+json">${JSON.stringify(breadcrumbLd)}</script>
 
 <!-- Fonts -->
@@ -1913,7 +1941,7 @@ var mapInstance = null;
   setupAddrAutocomplete('bTo', 'addrSuggest2');
 
   // Price calculator triggers
-  ['bFrom', 'bTo'].forEach(function(id) {
+  ['bFrom', 'bTo', 'bDate', 'bTime'].forEach(function(id) {
     var el = document.getElementById(id);
     if (el) el.addEventListener('input', debounceCalcPrice);
   });
@@ -2017,31 +2045,49 @@ function calcPrice() {
     fromCoords = coords[0];
     toCoords = coords[1];
 
-    var dist = haversine(coords[0][0], coords[0][1], coords[1][0], coords[1][1]);
-    var roadDist = dist * 1.3; // road factor
+    // Devis serveur (TripQuoteService) : itinéraire + trafic calculés côté serveur, même calcul que l'enregistrement
+    return fetch(BACKEND + '/api/bookings/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        siteSlug: SLUG,
+        pickupLat: fromCoords[0],
+        pickupLng: fromCoords[1],
+        dropoffLat: toCoords[0],
+        dropoffLng: toCoords[1],
+        scheduledAt: getScheduledAt(),
+        firstRide: PROMO_PERCENT > 0,
+      }),
+    }).then(function(r) {
+      if (!r.ok) throw new Error('quote ' + r.status);
+      return r.json();
+    });
+  }).then(function(quote) {
+    if (!quote) return;
+
+    var roadDist = quote.distanceKm;
     calculatedDist = roadDist;
-    var fare = Math.max(
-      PRICING.minimumFare || 15,
-      (PRICING.baseRate || 10) + (PRICING.perKmRate || 1.8) * roadDist
-    );
-    calculatedFare = fare;
+    var fare = quote.subtotal;
+    calculatedFare = quote.total;
 
     var valEl = document.getElementById('priceValue');
     var detEl = document.getElementById('priceDetail');
     var promoEl = document.getElementById('promoBadge');
     var stickyPriceEl = document.getElementById('stickyPrice');
 
-    if (PROMO_PERCENT > 0) {
-      var discounted = Math.round(fare * (1 - PROMO_PERCENT / 100));
-      calculatedFare = discounted;
+    var detail = quote.flatFare ? 'Forfait ' + quote.flatFare : roadDist.toFixed(1) + ' km · ~' + quote.durationMin + ' min';
+    if (quote.surcharge) detail += ' · ' + quote.surcharge.label;
+
+    if (quote.total < quote.subtotal) {
+      var discounted = Math.round(quote.total);
       valEl.innerHTML = '<span class="price-original">' + Math.round(fare) + '\\u20AC</span>' + discounted + '\\u20AC';
-      detEl.textContent = roadDist.toFixed(1) + ' km · Prix fixe garanti';
+      detEl.textContent = detail + ' · Prix fixe garanti';
       promoEl.textContent = '-' + PROMO_PERCENT + '% · 1ere course';
       promoEl.style.display = 'inline-block';
       if (stickyPriceEl) stickyPriceEl.textContent = discounted + '\\u20AC · ' + roadDist.toFixed(1) + ' km';
     } else {
       valEl.textContent = Math.round(fare) + '\\u20AC';
-      detEl.textContent = roadDist.toFixed(1) + ' km · Prix fixe garanti';
+      detEl.textContent = detail + ' · Prix fixe garanti';
       promoEl.style.display = 'none';
       if (stickyPriceEl) stickyPriceEl.textContent = Math.round(fare) + '\\u20AC · ' + roadDist.toFixed(1) + ' km';
     }
@@ -2059,6 +2105,15 @@ function calcPrice() {
   });
 }
 
+// ── DATE / HEURE DE PRISE EN CHARGE (heure locale du navigateur → ISO) ──
+function getScheduledAt() {
+  var d = document.getElementById('bDate');
+  var t = document.getElementById('bTime');
+  if (!d || !d.value) return new Date().toISOString();
+  var when = new Date(d.value + 'T' + ((t && t.value) || '12:00'));
+  return isNaN(when.getTime()) ? new Date().toISOString() : when.toISOString();
+}
+
 // ── GEOCODE ──
 function geocode(addr) {
   return fetch('https://api-adresse.data.gouv.fr/search/?q=' + encodeURIComponent(addr) + '&limit=1')
@@ -2071,17 +2126,6 @@ function geocode(addr) {
     .catch(function() { return null; });
 }
 
-// ── HAVERSINE ──
-function haversine(lat1, lon1, lat2, lon2) {
-  var R = 6371;
-  var dLat = (lat2 - lat1) * Math.PI / 180;
-  var dLon = (lon2 - lon1) * Math.PI / 180;
-  var a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-          Math.cos(lat1*Math.PI/180) * Math.cos(lat2*Math.PI/180) *
-          Math.sin(dLon/2) * Math.sin(dLon/2);
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
 // ── ADDRESS AUTOCOMPLETE ──
 function setupAddrAutocomplete(inputId, suggestId) {
   var input = document.getElementById(inputId);
@@ -2419,6 +2463,12 @@ function saveBooking(email, phone, paymentIntentId) {
       passenger_email: email,
       passenger_phone: phone,
       estimated_fare: calculatedFare,
+      pickup_lat: fromCoords ? fromCoords[0] : null,
+      pickup_lng: fromCoords ? fromCoords[1] : null,
+      dropoff_lat: toCoords ? toCoords[0] : null,
+      dropoff_lng: toCoords ? toCoords[1] : null,
+      scheduled_at: getScheduledAt(),
+      first_ride: PROMO_PERCENT > 0,
       payment_intent_id: paymentIntentId,
       source: '${source}',
     }),
@@ -42,6 +42,25 @@ import {
 } from './services/email.js';
 import { createStickerOrder } from './services/PrintfulService.js';
 
+// ── File de jobs persistante (rappels, avis, relances, push) ──
+import {
+  enqueueJob,
+  PermanentJobError,
+  registerJobHandler,
+  startJobWorker,
+} from './services/JobQueueService.js';
+import { verifyPortalToken } from './services/BookingPortalService.js';
+import { depositAmount, loadCancellationPolicy } from './services/CancellationPolicyService.js';
+import {
+  getSiteRatingSummary,
+  listPublishedReviews,
+  reviewLinkOpen,
+  REVIEWABLE_STATUSES,
+  signReviewToken,
+  submitBookingReview,
+  verifyReviewToken,
+} from './services/ReviewService.js';
+
 // ============================================
 // APP INIT - UN SEUL express()
 // ============================================
@@ -221,16 +240,25 @@ app.post('/api/internal/rag/ingest', express.json(), async (req, res) => {
       await import('./ai/rag/ingestKnowledgeBase.js');
     const force = req.body?.force === true;
     const sync = req.body?.sync === true;
-    console.log(`[Internal] RAG ingestion triggered (force=${force}, sync=${sync})`);
+    const dryRun = req.body?.dryRun === true;
+    if (force && dryRun) {
+      // force = suppression + réindexation complète : jamais sous couvert d'un dry run
+      return res.status(400).json({ error: 'force and dryRun are mutually exclusive' });
+    }
+    console.log(`[Internal] RAG ingestion triggered (force=${force}, sync=${sync}, dryRun=${dryRun})`);
 
-    if (sync) {
-      const result = force ? await reingestKnowledgeBase() : await ingestKnowledgeBase();
+    if (sync || dryRun) {
+      const result = force ? await reingestKnowledgeBase() : await ingestKnowledgeBase({ dryRun });
       res.json({ success: true, ...result });
     } else {
       // Async — retour immédiat, ingestion en background
       res.json({ success: true, status: 'started', message: 'Ingestion lancée en background' });
       (force ? reingestKnowledgeBase() : ingestKnowledgeBase())
-        .then((r) => console.log(`[Internal] RAG ingestion done: ${r.documentsIndexed} docs`))
+        .then((r) =>
+          console.log(
+            `[Internal] RAG ingestion done: +${r.changeset.added.length} ~${r.changeset.updated.length} -${r.changeset.removed.length} (${r.changeset.unchanged} unchanged)`,
+          ),
+        )
         .catch((e) => console.error(`[Internal] RAG ingestion failed: ${e.message}`));
     }
   } catch (err: any) {
@@ -2174,6 +2202,7 @@ async function loadAdminRoutes(): Promise<void> {
 
     // Salle de commande Pieuvre (lecture admin, service_role) :
     //   GET /api/admin/pieuvre-state
+    //   GET /api/admin/graph-traces/:sessionId
     try {
       const adminPieuvreStateRouter = (await import('./routes/adminPieuvreState.routes.js'))
         .default;
@@ -2221,12 +2250,24 @@ async function loadBookingRoutes(): Promise<void> {
     // Table RLS service_role_only : SEUL ce gardien écrit, badge (token) chauffeur vérifié.
     const { positionRouter } = await import('./routes/position.routes.js');
     app.use('/api/driver/position', positionRouter);
+    // Calendrier de disponibilité (horaires, indisponibilités, tampon entre courses)
+    const { driverCalendarRouter } = await import('./routes/driverCalendar.routes.js');
+    app.use('/api/driver/calendar', driverCalendarRouter);
+    // Portail client (lien signé) : suivre, déplacer, annuler, acompte
+    const { bookingPortalRouter } = await import('./routes/bookingPortal.routes.js');
+    app.use('/api/booking-portal', bookingPortalRouter);
+    // Avis reçus + réponses publiques du chauffeur (modérées)
+    const { driverReviewsRouter } = await import('./routes/driverReviews.routes.js');
+    app.use('/api/driver/reviews', driverReviewsRouter);
+    // Sous-traitance : proposer une course au réseau de confiance, la reprendre
+    const { driverSubcontractRouter } = await import('./routes/driverSubcontract.routes.js');
+    app.use('/api/driver/subcontract', driverSubcontractRouter);
     // 11/07 — vraie version Android en ligne sur le Play Store (bandeau update).
     const { appReleaseRouter } = await import('./routes/appRelease.routes.js');
     app.use('/api/app-release', appReleaseRouter);
     bookingRoutesLoaded = true;
     console.log(
-      '[Booking] Routes mounted at /api/bookings + /api/geocode + sticker + account + position + app-release',
+      '[Booking] Routes mounted at /api/bookings + /api/geocode + sticker + account + position + calendar + booking-portal + driver-reviews + subcontract + app-release',
     );
   } catch (err: any) {
     console.error(`[Booking] Failed to load: ${err.message}`);
@@ -2583,6 +2624,20 @@ async function loadClientFinderRoutes(): Promise<void> {
   }
 }
 
+// ── Private Hunter Routes ──
+let privateHunterLoaded = false;
+async function loadPrivateHunterRoutes(): Promise<void> {
+  if (privateHunterLoaded) return;
+  try {
+    const phRouter = (await import('./routes/privateHunter.js')).default;
+    app.use('/api/private-hunter', phRouter);
+    privateHunterLoaded = true;
+    console.log('[PrivateHunter] Routes mounted at /api/private-hunter');
+  } catch (err: any) {
+    console.error(`[PrivateHunter] Failed to load: ${err.message}`);
+  }
+}
+
 // ── Vehicle Routes ── v1.10.47 (Claude Vision verify-photo)
 let vehicleRoutesLoaded = false;
 async function loadVehicleRoutes(): Promise<void> {
@@ -2635,6 +2690,29 @@ async function loadResendWebhooks(): Promise<void> {
   }
 }
 
+// ── SMS delivery receipts (Twilio / Bird / MessageBird → sms_messages) ──
+let smsWebhooksLoaded = false;
+async function loadSmsWebhooks(): Promise<void> {
+  if (smsWebhooksLoaded) return;
+  try {
+    const smsRouter = (await import('./routes/smsWebhooks.js')).default;
+    // Corps brut exposé pour les signatures Bird / MessageBird
+    const keepRaw = (req: any, _res: any, buf: Buffer) => {
+      req.rawBody = buf.toString('utf8');
+    };
+    app.use(
+      '/api/webhooks/sms',
+      express.json({ limit: '1mb', verify: keepRaw }),
+      express.urlencoded({ extended: false, verify: keepRaw }),
+      smsRouter,
+    );
+    smsWebhooksLoaded = true;
+    console.log('[SmsWebhooks] Mounted at /api/webhooks/sms (token + signature verify enforced)');
+  } catch (err: any) {
+    console.error(`[SmsWebhooks] Failed to load: ${err.message}`);
+  }
+}
+
 // ── WhatsApp Webhooks (Meta Cloud API) ──
 // v1.10.62 (Ajnaya2026v118) — Fix B1 critique : pattern correct verify cb.
 let whatsappWebhooksLoaded = false;
@@ -2741,16 +2819,35 @@ setTimeout(() => {
   loadClientsDirectsRoutes();
   loadAnalyticsEventsRoutes();
   loadClientFinderRoutes();
+  loadPrivateHunterRoutes();
   loadVehicleRoutes();
   loadVoiceRoutes();
   loadResendWebhooks();
+  loadSmsWebhooks();
   loadWhatsappWebhooks(); // v1.10.61 (Ajnaya2026v1) — Témoin Vivant
   loadOptoutRoutes();
   loadInternalCronRoutes();
   loadMlmRoutes();
   loadFinderInboundRoutes();
+  startQueueWorker();
 }, 0);
 
+// Worker job_queue : handlers des modules chargés avant la première réservation de jobs.
+// JOB_WORKER_DISABLED=true pour un réplica web-only (un autre réplica traite la file).
+async function startQueueWorker(): Promise<void> {
+  if (process.env.JOB_WORKER_DISABLED === 'true') {
+    console.log('[JobQueue] Worker disabled (JOB_WORKER_DISABLED)');
+    return;
+  }
+  try {
+    const { registerQueueHandlers } = await import('./jobs/queueHandlers.js');
+    await registerQueueHandlers();
+    startJobWorker({ intervalMs: Number(process.env.JOB_WORKER_INTERVAL_MS) || 15_000 });
+  } catch (err: any) {
+    console.error(`[JobQueue] Failed to start worker: ${err.message}`);
+  }
+}
+
 // ============================================
 // STRIPE CHECKOUT — Anti-duplication chauffeur
 // ============================================
@@ -3643,7 +3740,8 @@ function renderDriverPage(site: any, source: string): string {
       ? {
           aggregateRating: {
             '@type': 'AggregateRating',
-            ratingValue: rating.toFixed(1),
+            // Moyenne réelle des avis publiés : la note bayésienne reste un score d'affichage
+            ratingValue: Number(site.rating_average ?? rating).toFixed(1),
             bestRating: '5',
             ratingCount: String(totalTipCount),
           },
@@ -4057,8 +4155,8 @@ ${
   <div class="error-msg" id="tipError"></div>
 </div>
 
-<!-- ═══ 8. AVIS ═══ -->
-<div class="card">
+<!-- ═══ 8. AVIS (lien ?review= de l'email post-course uniquement) ═══ -->
+<div class="card" id="avis" style="display:none">
   <div class="section-title">⭐ Laisser un avis</div>
   <div class="review-stars">
     <span class="review-star" onclick="setRating(1)" aria-label="1 étoile">★</span>
@@ -4095,6 +4193,11 @@ ${
   var selectedAmount = 0;
   var selectedRating = 0;
 
+  // Formulaire d'avis : affiché seulement avec le jeton de l'email post-course
+  if (new URLSearchParams(window.location.search).get('review')) {
+    document.getElementById('avis').style.display = '';
+  }
+
   // ── PRICE CALCULATOR ──
   var PRICING = ${pricing ? JSON.stringify(pricing) : 'null'};
   var PROMO_PERCENT = ${promoPercent};
@@ -4353,13 +4456,20 @@ ${
   function submitReview() {
     if (!selectedRating) { alert('Choisissez une note d\\'abord'); return; }
     var text = document.getElementById('reviewText').value;
-    var name = document.getElementById('reviewName').value;
+    // Jeton d'avis de la réservation (lien ?review= de l'email post-course)
+    var reviewToken = new URLSearchParams(window.location.search).get('review');
     document.getElementById('reviewError').style.display = 'none';
+    if (!reviewToken) {
+      document.getElementById('reviewError').textContent = 'Utilisez le lien reçu par email après votre course.';
+      document.getElementById('reviewError').style.display = 'block';
+      return;
+    }
     fetch(BACKEND + '/api/driver-site/review', {
       method: 'POST',
       headers: {'Content-Type':'application/json'},
-      body: JSON.stringify({slug: SLUG, rating: selectedRating, text: text, name: name})
-    }).then(function() {
+      body: JSON.stringify({slug: SLUG, rating: selectedRating, text: text, review_token: reviewToken})
+    }).then(function(r) {
+      if (!r.ok) throw new Error(String(r.status));
       document.getElementById('reviewSuccess').style.display = 'block';
       document.getElementById('reviewText').value = '';
       setRating(0);
@@ -4389,23 +4499,25 @@ async function renderDriverSiteBySlug(slug: string, source: string, res: any): P
           '<h1 style="font-family:sans-serif;text-align:center;margin-top:80px;color:#333">Page introuvable</h1>',
         );
     }
-    // Chiffres RÉELS (anti-CNIL) : la note vient des avis PUBLIÉS de driver_reviews,
-    // jamais du seed driver_sites.rating. 0 avis réel → note masquée (pas inventée).
+    // Chiffres RÉELS (anti-CNIL) : la note vient des avis PUBLIÉS de driver_reviews
+    // (moyenne bayésienne, ReviewService), jamais du seed driver_sites.rating.
+    // 0 avis réel → note masquée (pas inventée).
     try {
-      const { data: revs } = await supa
-        .from('driver_reviews')
-        .select('rating')
-        .eq('site_slug', slug)
-        .eq('is_published', true)
-        .eq('verified', true);
-      const nRev = (revs || []).length;
-      site.total_tip_count = nRev;
-      site.rating =
-        nRev > 0
-          ? Math.round(
-              ((revs as any[]).reduce((s: number, r: any) => s + (r.rating || 0), 0) / nRev) * 10,
-            ) / 10
-          : 0;
+      const summary = await getSiteRatingSummary(slug);
+      site.total_tip_count = summary.count;
+      site.rating = summary.rating;
+      site.rating_average = summary.average;
+      // Avis commentés → témoignages réels + schema.org Review (≥3 sinon placeholders)
+      site.testimonials = (await listPublishedReviews(slug, 10))
+        .filter((r: any) => r.comment)
+        .slice(0, 3)
+        .map((r: any) => ({
+          stars: r.rating,
+          quote: r.comment,
+          author: r.first_name || 'Client vérifié',
+          trip: `Course vérifiée · ${new Date(r.date).toLocaleDateString('fr-FR', { month: 'short', year: 'numeric' })}`,
+          date: r.date,
+        }));
       // "courses" affichées = réservations RÉELLEMENT honorées via le site (jamais un compteur seedé)
       const { count: doneTrips } = await supa
         .from('bookings')
@@ -4417,7 +4529,9 @@ async function renderDriverSiteBySlug(slug: string, source: string, res: any): P
       // fail-safe : en cas d'échec de lecture, on N'INVENTE PAS de note
       site.total_tip_count = 0;
       site.rating = 0;
+      site.rating_average = null;
       site.total_trips = 0;
+      site.testimonials = [];
     }
     res.setHeader('Content-Type', 'text/html; charset=utf-8');
     res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
@@ -4487,6 +4601,27 @@ app.post('/api/driver-site/generate', async (req: any, res: any) => {
   } = req.body || {};
   if (!driver_id || !display_name)
     return res.status(400).json({ error: 'driver_id + display_name requis' });
+
+  // Tarifs : un seul schéma validé (DriverPricingEngine) — les anciens formats
+  // ({baseRate, perKmRate...}, {base_fare, per_km...}) sont convertis à l'écriture
+  let tariff: unknown = null;
+  if (pricing) {
+    const { DriverTariffSchema, normalizeDriverTariff } = await import(
+      './services/DriverPricingEngine.js'
+    );
+    const parsed =
+      pricing.version === 2
+        ? DriverTariffSchema.safeParse(pricing)
+        : { success: true as const, data: normalizeDriverTariff(pricing) };
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Tarifs invalides', details: parsed.error.issues });
+    }
+    if (!parsed.data || (parsed.data.baseFare <= 0 && parsed.data.perKm <= 0)) {
+      return res.status(400).json({ error: 'Tarifs invalides : prise en charge ou prix au km requis' });
+    }
+    tariff = parsed.data;
+  }
+
   try {
     const supa = await getSupabaseAdmin();
     // Vérifier si un site existe déjà
@@ -4524,7 +4659,7 @@ app.post('/api/driver-site/generate', async (req: any, res: any) => {
     if (photo_url) siteData.photo_url = photo_url;
     if (niche) siteData.niche = niche;
     if (niche_label) siteData.niche_label = niche_label;
-    if (pricing) siteData.pricing = pricing;
+    if (tariff) siteData.pricing = tariff;
     if (promo_discount_percent != null) siteData.promo_discount_percent = promo_discount_percent;
 
     // Promo code: ALWAYS auto-generate if missing (new OR existing without code)
@@ -4724,35 +4859,34 @@ app.post('/api/driver-site/tip', async (req: any, res: any) => {
 });
 
 // ── POST /api/driver-site/review — Avis passager ─────────────
+// Uniquement avec le jeton d'avis de la réservation (lien ?review= de l'email
+// post-course) : plus d'avis anonymes. Texte modéré avant publication.
 app.post('/api/driver-site/review', async (req: any, res: any) => {
-  const { slug, rating, text, name } = req.body || {};
-  if (!slug || !rating || rating < 1 || rating > 5)
+  const { slug, review_token, text } = req.body || {};
+  const rating = Number(req.body?.rating);
+  if (!slug || !(rating >= 1 && rating <= 5))
     return res.status(400).json({ error: 'slug + rating (1-5) requis' });
+  const bookingId = verifyReviewToken(review_token);
+  if (!bookingId)
+    return res.status(403).json({ error: 'Avis réservé aux clients ayant réservé ce chauffeur' });
   try {
     const supa = await getSupabaseAdmin();
-    const { data: site } = await supa
-      .from('driver_sites')
-      .select('id,total_tip_count,rating')
-      .eq('slug', slug)
+    const { data: booking } = await supa
+      .from('bookings')
+      .select('id, driver_id, site_slug, client_name, status, scheduled_at, notifications')
+      .eq('id', bookingId)
       .single();
-    if (!site) return res.status(404).json({ error: 'Site introuvable' });
-    // Sauvegarder l'avis
-    await supa.from('driver_site_interactions').insert({
-      driver_site_id: site.id,
-      interaction_type: 'review',
-      passenger_name: name || null,
-      review_rating: rating,
-      review_text: text || null,
+    if (!booking || booking.site_slug !== slug)
+      return res.status(404).json({ error: 'Réservation introuvable' });
+    if (!reviewLinkOpen(booking)) return res.status(410).json({ error: "Ce lien d'avis a expiré" });
+    const review = await submitBookingReview(booking, {
+      rating,
+      comment: typeof text === 'string' ? text : null,
+      source: 'site',
     });
-    // Mettre à jour la note moyenne du site
-    const newCount = (site.total_tip_count || 0) + 1;
-    const newRating = ((site.rating || 5.0) * (newCount - 1) + rating) / newCount;
-    await supa
-      .from('driver_sites')
-      .update({ total_tip_count: newCount, rating: Math.round(newRating * 100) / 100 })
-      .eq('id', site.id);
-    return res.json({ success: true });
+    return res.json({ success: true, moderation_status: review.moderation_status });
   } catch (err: any) {
+    console.error('[DriverSite] review error:', err.message);
     return res.status(500).json({ error: err.message });
   }
 });
@@ -4813,17 +4947,156 @@ app.post('/api/bookings/upload-photo', async (req: any, res: any) => {
   }
 });
 
+// ── Acompte d'une réservation existante (portail client, { portal_token }) ──
+// Montant calculé côté serveur (politique du chauffeur) ; carte enregistrée
+// (setup_future_usage) pour les frais d'annulation / d'absence éventuels.
+async function createPortalDepositIntent(portalToken: string, res: any) {
+  const bookingId = verifyPortalToken(portalToken);
+  if (!bookingId) return res.status(404).json({ error: 'Lien invalide' });
+
+  const supa = await getSupabaseAdmin();
+  const { data: booking } = await supa.from('bookings').select('*').eq('id', bookingId).maybeSingle();
+  if (!booking) return res.status(404).json({ error: 'Reservation introuvable' });
+  if (booking.deposit_paid_at) return res.status(409).json({ error: 'Acompte deja paye' });
+  if (!['pending', 'confirmed', 'reminded_2h'].includes(booking.status)) {
+    return res.status(400).json({ error: 'Reservation non payable' });
+  }
+
+  const amount = depositAmount(await loadCancellationPolicy(booking.driver_id), Number(booking.estimated_price));
+  if (amount < 5) return res.status(400).json({ error: 'Aucun acompte demande pour cette reservation' });
+
+  const { data: site } = await supa
+    .from('driver_sites')
+    .select('id,display_name,stripe_account_id,stripe_charges_enabled,commission_percent')
+    .eq('slug', booking.site_slug)
+    .single();
+  if (!site?.stripe_account_id || !site.stripe_charges_enabled) {
+    return res.status(400).json({ error: 'Chauffeur non connecté à Stripe', code: 'stripe_not_connected' });
+  }
+
+  const stripe = await getStripe();
+  const customerId =
+    booking.stripe_customer_id ||
+    (
+      await stripe.customers.create({
+        email: booking.client_email || undefined,
+        phone: booking.client_phone || undefined,
+        name: booking.client_name || undefined,
+        metadata: { booking_id: booking.id },
+      })
+    ).id;
+
+  const amountCents = Math.round(amount * 100);
+  const commissionPercent = Number(site.commission_percent ?? 0);
+  const platformFeeCents = Math.round(amountCents * (commissionPercent / 100));
+
+  const paymentIntent = await stripe.paymentIntents.create(
+    {
+      amount: amountCents,
+      currency: 'eur',
+      customer: customerId,
+      setup_future_usage: 'off_session',
+      application_fee_amount: platformFeeCents,
+      transfer_data: { destination: site.stripe_account_id },
+      metadata: {
+        driver_site_id: site.id,
+        slug: booking.site_slug,
+        type: 'booking_deposit',
+        booking_id: booking.id,
+        commission_percent: String(commissionPercent),
+      },
+      description: `Acompte ${site.display_name} — ${booking.pickup_address} → ${booking.dropoff_address}`,
+    },
+    // Double clic / rechargement : même PaymentIntent pour le même montant
+    { idempotencyKey: `booking-deposit:${booking.id}:${amountCents}` },
+  );
+
+  await supa
+    .from('bookings')
+    .update({ deposit_amount: amount, deposit_payment_intent_id: paymentIntent.id, stripe_customer_id: customerId })
+    .eq('id', booking.id);
+
+  return res.json({
+    client_secret: paymentIntent.client_secret,
+    payment_intent_id: paymentIntent.id,
+    amount,
+    platform_fee: platformFeeCents / 100,
+    driver_net: (amountCents - platformFeeCents) / 100,
+  });
+}
+
+// ── Devis serveur d'une course du site chauffeur (paiement + réservation) ──
+// TripQuoteService : itinéraire + trafic ; points géocodés depuis les adresses
+// saisies, les coordonnées envoyées ne sont gardées que si elles correspondent.
+// null = pas de devis possible (tarif absent, adresse introuvable).
+async function driverSiteQuote(supa: any, site: any, body: any) {
+  const { pickup_address, destination, booking_date, booking_time, passenger_phone, passenger_email } = body;
+  const { normalizeDriverTariff, parisDateTimeToIso } = await import('./services/DriverPricingEngine.js');
+  const { quoteRoutedTrip, resolveAddressPoint } = await import('./services/TripQuoteService.js');
+  const { isFirstRide } = await import('./routes/booking.routes.js');
+  const tariff = normalizeDriverTariff(site.pricing);
+  if (!tariff || !pickup_address || !destination) return null;
+
+  const givenPoint = (lat: unknown, lng: unknown) =>
+    [lat, lng].every((v) => v != null && v !== '' && Number.isFinite(Number(v)))
+      ? { lat: Number(lat), lng: Number(lng) }
+      : null;
+  const [pickup, dropoff] = await Promise.all([
+    resolveAddressPoint(String(pickup_address), givenPoint(body.pickup_lat, body.pickup_lng)),
+    resolveAddressPoint(String(destination), givenPoint(body.dropoff_lat, body.dropoff_lng)),
+  ]);
+  if (!pickup || !dropoff) return null;
+
+  const scheduledAt =
+    body.scheduled_at && !isNaN(new Date(body.scheduled_at).getTime())
+      ? new Date(body.scheduled_at).toISOString()
+      : booking_date
+        ? parisDateTimeToIso(booking_date, booking_time || '12:00')
+        : new Date().toISOString();
+  return quoteRoutedTrip(
+    tariff,
+    { scheduledAt, pickup, dropoff },
+    {
+      promoPercent: (await isFirstRide(supa, site.slug, { phone: passenger_phone, email: passenger_email }))
+        ? site.promo_discount_percent || 0
+        : 0,
+    },
+  );
+}
+
+/** Trajet payé (métadonnées du PaymentIntent) = trajet réservé */
+function paidTripMatches(metadata: Record<string, string>, body: any): boolean {
+  const same = (paid: string | undefined, given: unknown) => (paid || '') === String(given ?? '').trim();
+  return (
+    same(metadata.pickup, body.pickup_address) &&
+    same(metadata.dest, body.destination) &&
+    same(metadata.date, body.booking_date) &&
+    same(metadata.time, body.booking_time)
+  );
+}
+
 // ── POST /api/driver-site/create-payment-intent — PaymentIntent pour réservation ──
+// Montant = devis serveur (jamais celui du navigateur), inscrit dans les
+// métadonnées avec le trajet : POST /api/driver-site/booking s'y réfère.
 app.post('/api/driver-site/create-payment-intent', async (req: any, res: any) => {
+  if (req.body?.portal_token) {
+    try {
+      return await createPortalDepositIntent(String(req.body.portal_token), res);
+    } catch (err: any) {
+      console.error('[DriverSite] create-payment-intent (deposit) error:', err.message);
+      return res.status(500).json({ error: err.message });
+    }
+  }
+
   const { slug, amount, pickup_address, destination, booking_date, booking_time } = req.body || {};
-  if (!slug || !amount || amount < 5) {
-    return res.status(400).json({ error: 'slug + amount (min 5€) requis' });
+  if (!slug || !pickup_address || !destination) {
+    return res.status(400).json({ error: 'slug + départ + destination requis' });
   }
   try {
     const supa = await getSupabaseAdmin();
     const { data: site } = await supa
       .from('driver_sites')
-      .select('id,display_name,stripe_account_id,stripe_charges_enabled,commission_percent')
+      .select('id,slug,display_name,pricing,promo_discount_percent,stripe_account_id,stripe_charges_enabled,commission_percent')
       .eq('slug', slug)
       .eq('is_active', true)
       .single();
@@ -4834,34 +5107,47 @@ app.post('/api/driver-site/create-payment-intent', async (req: any, res: any) =>
         .json({ error: 'Chauffeur non connecté à Stripe', code: 'stripe_not_connected' });
     }
 
+    const quote = await driverSiteQuote(supa, site, req.body);
+    if (!quote) {
+      return res.status(422).json({ error: 'Prix de la course impossible à calculer', code: 'quote_unavailable' });
+    }
+    if (quote.total < 5) return res.status(400).json({ error: 'Montant minimum 5€' });
+    if (amount && Math.abs(Number(amount) - quote.total) > 1) {
+      console.warn(`[DriverSite] ⚠️ Montant widget (${amount}€) ≠ devis serveur (${quote.total}€) — site=${slug}`);
+    }
+
     const stripe = await getStripe();
-    const amountCents = Math.round(amount * 100);
+    const amountCents = Math.round(quote.total * 100);
     // v1.10.50 — Commission par chauffeur via driver_sites.commission_percent (default 0%).
     const commissionPercent = Number(site.commission_percent ?? 0);
     const platformFeeCents = Math.round(amountCents * (commissionPercent / 100));
 
+    // Carte enregistrée (setup_future_usage) ; le client Stripe n'est créé
+    // qu'à l'enregistrement de la réservation (POST /api/driver-site/booking)
     const paymentIntent = await stripe.paymentIntents.create({
       amount: amountCents,
       currency: 'eur',
+      setup_future_usage: 'off_session',
       application_fee_amount: platformFeeCents,
       transfer_data: { destination: site.stripe_account_id },
       metadata: {
         driver_site_id: site.id,
         slug,
         type: 'booking',
-        pickup: pickup_address || '',
-        dest: destination || '',
-        date: booking_date || '',
-        time: booking_time || '',
+        pickup: String(pickup_address).trim(),
+        dest: String(destination).trim(),
+        date: String(booking_date ?? '').trim(),
+        time: String(booking_time ?? '').trim(),
+        quote_total: String(quote.total),
         commission_percent: String(commissionPercent),
       },
-      description: `Course ${site.display_name} — ${pickup_address || 'départ'} → ${destination || 'arrivée'}`,
+      description: `Course ${site.display_name} — ${pickup_address} → ${destination}`,
     });
 
     return res.json({
       client_secret: paymentIntent.client_secret,
       payment_intent_id: paymentIntent.id,
-      amount: amount,
+      amount: quote.total,
       platform_fee: platformFeeCents / 100,
       driver_net: (amountCents - platformFeeCents) / 100,
     });
@@ -4895,15 +5181,43 @@ app.post('/api/driver-site/booking', async (req: any, res: any) => {
 
   try {
     const supa = await getSupabaseAdmin();
+
+    // Un paiement = une réservation : déjà rattaché → refus, sans rien toucher
+    // chez Stripe (index unique driver_bookings.payment_intent_id en dernier rempart)
+    if (payment_intent_id) {
+      const { data: linked } = await supa
+        .from('driver_bookings')
+        .select('id')
+        .eq('payment_intent_id', String(payment_intent_id))
+        .maybeSingle();
+      if (linked) return res.status(409).json({ error: 'Paiement déjà utilisé', code: 'payment_already_used' });
+    }
+
     const { data: site } = await supa
       .from('driver_sites')
-      .select('id,display_name')
+      .select('id,slug,display_name,pricing,promo_discount_percent')
       .eq('slug', slug)
       .eq('is_active', true)
       .single();
 
     if (!site) return res.status(404).json({ error: 'Site introuvable' });
 
+    // Prix calculé côté serveur uniquement ; le estimated_fare du navigateur
+    // n'est jamais enregistré. Pas de devis possible → réservation sans prix,
+    // le chauffeur le fixe.
+    let fare: number | null = null;
+    let priceBreakdown: unknown = null;
+    const quote = await driverSiteQuote(supa, site, req.body);
+    if (quote) {
+      if (estimated_fare && Math.abs(Number(estimated_fare) - quote.total) > 1) {
+        console.warn(
+          `[DriverSite] ⚠️ Prix widget (${estimated_fare}€) ≠ prix serveur (${quote.total}€) — site=${slug}`,
+        );
+      }
+      fare = quote.total;
+      priceBreakdown = quote;
+    }
+
     const bookingData: Record<string, any> = {
       driver_site_id: site.id,
       slug,
@@ -4919,8 +5233,55 @@ app.post('/api/driver-site/booking', async (req: any, res: any) => {
     };
     // Enriched fields (v3.0)
     if (destination) bookingData.destination = destination;
-    if (estimated_fare) bookingData.estimated_fare = estimated_fare;
-    if (payment_intent_id) bookingData.payment_intent_id = payment_intent_id;
+    if (payment_intent_id) {
+      // Paiement relu chez Stripe (jamais cru sur parole) : lié au devis serveur
+      // et au trajet dès sa création (métadonnées), payé intégralement. Aucun
+      // remboursement automatique ici — un refus laisse le paiement intact.
+      const stripe = await getStripe();
+      const pi = await stripe.paymentIntents.retrieve(String(payment_intent_id));
+      if (pi.metadata?.slug !== slug || pi.metadata?.type !== 'booking' || pi.status !== 'succeeded') {
+        return res.status(402).json({ error: 'Paiement non abouti', status: pi.status });
+      }
+      const paidQuote = Number(pi.metadata.quote_total);
+      if (!(paidQuote > 0) || pi.amount_received < Math.round(paidQuote * 100) || !paidTripMatches(pi.metadata, req.body)) {
+        console.warn(`[DriverSite] ⚠️ Paiement ${pi.id} ne correspond pas à la course réservée — site=${slug}`);
+        return res.status(409).json({ error: 'Paiement non lié à cette course', code: 'payment_mismatch' });
+      }
+      // Prix payé = devis accepté (le trafic a pu faire bouger le recalcul)
+      if (fare != null && Math.abs(fare - paidQuote) > 1) {
+        console.warn(`[DriverSite] Devis payé ${paidQuote}€ ≠ recalcul ${fare}€ — site=${slug} pi=${pi.id}`);
+        priceBreakdown = null;
+      }
+      fare = paidQuote;
+
+      // Client Stripe créé ici, une fois par paiement (idempotence sur le PI),
+      // puis carte rattachée : frais d'annulation / d'absence prélevables
+      // (POST /api/bookings avec ce payment_intent_id → bookings.driver_booking_id)
+      const paymentMethodId =
+        typeof pi.payment_method === 'string' ? pi.payment_method : pi.payment_method?.id ?? null;
+      bookingData.payment_intent_id = pi.id;
+      if (paymentMethodId) {
+        try {
+          const customer = await stripe.customers.create(
+            {
+              email: passenger_email || undefined,
+              phone: passenger_phone,
+              name: passenger_name,
+              metadata: { driver_site_id: site.id, slug, payment_intent_id: pi.id },
+            },
+            { idempotencyKey: `driver-site-customer:${pi.id}` },
+          );
+          await stripe.paymentMethods.attach(paymentMethodId, { customer: customer.id });
+          bookingData.stripe_customer_id = customer.id;
+          bookingData.stripe_payment_method_id = paymentMethodId;
+        } catch (e: any) {
+          // Course payée : la réservation passe, sans carte pour les frais
+          console.warn('[DriverSite] Carte non enregistrée:', e.message);
+        }
+      }
+    }
+    if (fare) bookingData.estimated_fare = fare;
+    if (priceBreakdown) bookingData.price_breakdown = priceBreakdown;
 
     const { data, error } = await supa
       .from('driver_bookings')
@@ -4928,6 +5289,10 @@ app.post('/api/driver-site/booking', async (req: any, res: any) => {
       .select()
       .single();
 
+    // 23505 = driver_bookings_payment_intent_id_key : même paiement rattaché en parallèle
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'Paiement déjà utilisé', code: 'payment_already_used' });
+    }
     if (error) throw new Error(error.message);
 
     // Track interaction
@@ -5165,7 +5530,8 @@ if (process.env.NODE_ENV !== 'production') {
 // ============================================================================
 // TENTACULE REPUTATION + LTV — Avis réels post-course (A1) & réactions booking (A2)
 // Addendum fil App 2026-07-02. RLS driver_reviews = service_role only → getSupabaseAdmin.
-// A1 : email post-course → note 1-5 signée HMAC → driver_reviews (verified) → cross-canal.
+// A1 : email post-course → note 1-5 (jeton d'avis de la réservation, ReviewService)
+//      → driver_reviews (verified, modéré) → note bayésienne du site → cross-canal.
 // A2 : nudge chauffeur si booking non confirmé 30 min (inbox in-app) ; relance client J+7 (RAG vente).
 // Un bras remonte TOUJOURS son outcome (concierge_funnel_events).
 // ============================================================================
@@ -5178,6 +5544,7 @@ function rvKeyOk(req: any): boolean {
   const observe = process.env.PIEUVRE_OBSERVE_KEY;
   return !!provided && (provided === master || provided === observe);
 }
+// Signature des liens d'avis v1 (b/r/sig) — encore acceptée pour les emails déjà envoyés
 async function rvSign(bookingId: string, rating: number): Promise<string> {
   const { createHmac } = await import('node:crypto');
   const secret = process.env.PIEUVRE_API_KEY || process.env.PIEUVRE_OBSERVE_KEY || 'foreas';
@@ -5191,7 +5558,7 @@ function rvPage(title: string, body: string): string {
 <div style="background:#1A1A2E;border:1px solid #2A2A4A;border-radius:16px;padding:32px 24px">${body}</div>
 <div style="margin-top:20px;font-size:11px;color:#555">© ${new Date().getFullYear()} FOREAS Labs</div></div></body></html>`;
 }
-function rvRequestEmail(clientFirst: string, driverFirst: string, stars: string[]): string {
+function rvRequestEmail(clientFirst: string, driverFirst: string, stars: string[], siteLink: string | null): string {
   const hello = clientFirst ? `Salut ${clientFirst},` : 'Salut,';
   const starRow = [1, 2, 3, 4, 5]
     .map(
@@ -5207,6 +5574,7 @@ function rvRequestEmail(clientFirst: string, driverFirst: string, stars: string[
 <div style="font-size:16px;color:#ccc;margin-bottom:10px">${hello}</div>
 <div style="font-size:15px;color:#aaa;line-height:1.6;margin-bottom:24px">Comment s'est passée ta course avec <strong style="color:#fff">${driverFirst}</strong> ? Un clic suffit.</div>
 <div style="margin-bottom:16px">${starRow}</div>
+${siteLink ? `<div style="margin-bottom:16px"><a href="${siteLink}" style="font-size:13px;color:#8C52FF">Écrire un avis sur la page de ${driverFirst} →</a></div>` : ''}
 <div style="font-size:12px;color:#777">Ton avis aide ${driverFirst} à progresser.</div>
 </div>
 <div style="text-align:center;margin-top:18px;font-size:11px;color:#555">© ${new Date().getFullYear()} FOREAS Labs — Ne pas répondre à cet email.</div>
@@ -5227,76 +5595,100 @@ function rvRebookEmail(clientFirst: string, driverFirst: string, link: string):
 </div></body></html>`;
 }
 
-// ── A1.1 — Dispatch des demandes d'avis (cron n8n 30 min) ───────────────────
+// Statuts d'une course effectuée (ou sur le point de l'être)
+const RV_RIDE_STATUSES = REVIEWABLE_STATUSES;
+
+/** id de la réservation d'un lien d'avis : jeton `t`, ou lien v1 b/r/sig */
+async function rvBookingId(params: any, rating: number): Promise<string | null> {
+  if (params?.t) return verifyReviewToken(String(params.t));
+  const b = String(params?.b || '');
+  return b && String(params?.sig || '') === (await rvSign(b, rating)) ? b : null;
+}
+
+async function rvDriverFirstName(sa: any, driverId: string): Promise<string> {
+  try {
+    const { data: d } = await sa.from('drivers').select('first_name').eq('id', driverId).single();
+    if (d?.first_name) return String(d.first_name).split(' ')[0];
+  } catch {}
+  return 'ton chauffeur';
+}
+
+async function rvResend(): Promise<any> {
+  const resendKey = process.env.RESEND_API_KEY;
+  if (!resendKey) throw new PermanentJobError('RESEND_API_KEY not configured');
+  return new (await import('resend')).Resend(resendKey);
+}
+
+// ── A1.1 — Demande d'avis : job review.request (planifié à la confirmation, +3h) ──
+registerJobHandler<{ booking_id: string }>('review.request', async ({ booking_id }) => {
+  const sa: any = await getSupabaseAdmin();
+  const { data: b } = await sa
+    .from('bookings')
+    .select('id, driver_id, site_slug, client_name, client_email, status, trip_leg, notifications')
+    .eq('id', booking_id)
+    .single();
+  if (!b || !b.client_email || !RV_RIDE_STATUSES.includes(b.status)) return;
+  // Aller-retour : la demande est portée par l'aller uniquement
+  if (b.trip_leg === 'return') return;
+  if (b.notifications?.review_requested_at) return;
+  if (!process.env.BOOKING_PORTAL_SECRET) throw new PermanentJobError('BOOKING_PORTAL_SECRET not configured');
+
+  const driverFirst = await rvDriverFirstName(sa, b.driver_id);
+  const clientFirst =
+    String(b.client_name || '')
+      .trim()
+      .split(' ')[0] || '';
+  const token = signReviewToken(b.id);
+  const stars = [1, 2, 3, 4, 5].map((n) => `${RV_SELF}/api/reviews/submit?t=${token}&r=${n}`);
+  // Formulaire du site chauffeur (note + commentaire), même jeton
+  const siteLink = b.site_slug ? `${RV_SELF}/c/${encodeURIComponent(b.site_slug)}?review=${token}#avis` : null;
+  const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@foreas.xyz';
+  const { error } = await (await rvResend()).emails.send({
+    from: `FOREAS <${fromEmail}>`,
+    to: b.client_email,
+    subject: `Comment s'est passée ta course avec ${driverFirst} ?`,
+    html: rvRequestEmail(clientFirst, driverFirst, stars, siteLink),
+  });
+  if (error) throw new Error(`Resend: ${error.message}`);
+
+  await sa
+    .from('bookings')
+    .update({
+      notifications: { ...(b.notifications || {}), review_requested_at: new Date().toISOString() },
+    })
+    .eq('id', b.id);
+});
+
+// Rattrapage (cron n8n 30 min) : planifie les demandes d'avis des courses récentes
+// sans job (réservations antérieures à la file, statut 'completed' posé ailleurs).
+// Fenêtre BORNÉE [now-72h, now-3h] : jamais tout le backlog historique (anti-spam).
 app.post('/api/reviews/dispatch', express.json(), async (req, res) => {
   if (!rvKeyOk(req)) return res.status(401).json({ ok: false, error: 'bad key' });
   try {
     const sa: any = await getSupabaseAdmin();
-    // Fenêtre BORNÉE [now-72h, now-3h] : on demande l'avis d'une course RÉCENTE,
-    // jamais tout le backlog historique au 1er passage du cron (anti-spam). Pas de
-    // chevauchement avec rebook J+7 (fenêtre 7-8j).
     const cutoffHigh = new Date(Date.now() - 3 * 3600 * 1000).toISOString();
     const cutoffLow = new Date(Date.now() - 72 * 3600 * 1000).toISOString();
     const { data: rows } = await sa
       .from('bookings')
-      .select('id, driver_id, site_slug, client_name, client_email, scheduled_at, notifications')
-      .in('status', ['confirmed', 'reminded_2h', 'completed'])
+      .select('id, client_email, trip_leg, reschedule_count, notifications')
+      .in('status', RV_RIDE_STATUSES)
       .lt('scheduled_at', cutoffHigh)
       .gte('scheduled_at', cutoffLow)
       .not('client_email', 'is', null)
-      .limit(50);
+      .limit(200);
     const eligible = (rows || []).filter(
-      (b: any) => !b?.notifications?.review_requested_at && b.client_email,
+      (b: any) => !b?.notifications?.review_requested_at && b.client_email && b.trip_leg !== 'return',
     );
-    const resendKey = process.env.RESEND_API_KEY;
-    const resend = resendKey ? new (await import('resend')).Resend(resendKey) : null;
-    const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@foreas.xyz';
-    let sent = 0;
+    // Même clé que la confirmation (révision de créneau incluse) : pas de doublon
+    const { bookingJobKey } = await import('./routes/booking.routes.js');
+    let queued = 0;
     for (const b of eligible) {
-      let driverFirst = 'ton chauffeur';
-      try {
-        const { data: d } = await sa
-          .from('drivers')
-          .select('first_name')
-          .eq('id', b.driver_id)
-          .single();
-        if (d?.first_name) driverFirst = String(d.first_name).split(' ')[0];
-      } catch {}
-      const clientFirst =
-        String(b.client_name || '')
-          .trim()
-          .split(' ')[0] || '';
-      const stars = await Promise.all(
-        [1, 2, 3, 4, 5].map(
-          async (n) =>
-            `${RV_SELF}/api/reviews/submit?b=${b.id}&r=${n}&sig=${await rvSign(b.id, n)}`,
-        ),
-      );
-      if (resend && b.client_email) {
-        try {
-          await resend.emails.send({
-            from: `FOREAS <${fromEmail}>`,
-            to: b.client_email,
-            subject: `Comment s'est passée ta course avec ${driverFirst} ?`,
-            html: rvRequestEmail(clientFirst, driverFirst, stars),
-          });
-          sent++;
-        } catch (e: any) {
-          console.error('[reviews/dispatch] send', e?.message);
-          continue;
-        }
-      }
-      await sa
-        .from('bookings')
-        .update({
-          notifications: {
-            ...(b.notifications || {}),
-            review_requested_at: new Date().toISOString(),
-          },
-        })
-        .eq('id', b.id);
+      const jobId = await enqueueJob('review.request', { booking_id: b.id }, {
+        idempotencyKey: bookingJobKey(b, 'review_request'),
+      });
+      if (jobId) queued++;
     }
-    return res.json({ ok: true, eligible: eligible.length, sent, resend_configured: !!resend });
+    return res.json({ ok: true, eligible: eligible.length, queued });
   } catch (e: any) {
     console.error('[reviews/dispatch]', e?.message);
     return res.status(500).json({ ok: false, error: e?.message });
@@ -5305,53 +5697,26 @@ app.post('/api/reviews/dispatch', express.json(), async (req, res) => {
 
 // ── A1.2 — Ingestion de la note (clic dans l'email) → driver_reviews ────────
 app.get('/api/reviews/submit', async (req, res) => {
-  const b = String(req.query.b || '');
   const r = Number(req.query.r || 0);
-  const sig = String(req.query.sig || '');
-  if (!b || !(r >= 1 && r <= 5)) return res.status(400).send(rvPage('FOREAS', 'Lien invalide.'));
-  if (sig !== (await rvSign(b, r)))
-    return res.status(403).send(rvPage('FOREAS', 'Lien expiré ou invalide.'));
+  if (!(r >= 1 && r <= 5)) return res.status(400).send(rvPage('FOREAS', 'Lien invalide.'));
+  const b = await rvBookingId(req.query, r);
+  if (!b) return res.status(403).send(rvPage('FOREAS', 'Lien expiré ou invalide.'));
   try {
     const sa: any = await getSupabaseAdmin();
     const { data: bk } = await sa
       .from('bookings')
-      .select('id, driver_id, site_slug, client_name, client_email, notifications')
+      .select('id, driver_id, site_slug, client_name, client_email, status, scheduled_at, notifications')
       .eq('id', b)
       .single();
     if (!bk) return res.status(404).send(rvPage('FOREAS', 'Réservation introuvable.'));
-    // Expiration du lien : valable 30 j après l'envoi de la demande d'avis.
-    const askedAt = bk.notifications?.review_requested_at
-      ? Date.parse(bk.notifications.review_requested_at)
-      : null;
-    if (!askedAt || Date.now() - askedAt > 30 * 86400 * 1000)
+    // Course effectuée + lien valable 30 j après l'envoi de la demande d'avis
+    if (!reviewLinkOpen(bk))
       return res.status(410).send(rvPage('FOREAS', "Ce lien d'avis a expiré."));
     const clientFirst =
       String(bk.client_name || '')
         .trim()
         .split(' ')[0] || null;
-    const isPublished = r >= 4; // v1 : auto-publie ≥4, garde <4 en privé pour le chauffeur
-    const { data: existing } = await sa
-      .from('driver_reviews')
-      .select('id')
-      .eq('booking_id', b)
-      .limit(1);
-    if (existing && existing[0]) {
-      await sa
-        .from('driver_reviews')
-        .update({ rating: r, is_published: isPublished, verified: true })
-        .eq('id', existing[0].id);
-    } else {
-      await sa.from('driver_reviews').insert({
-        driver_id: bk.driver_id,
-        booking_id: b,
-        site_slug: bk.site_slug,
-        rating: r,
-        client_first_name: clientFirst,
-        verified: true,
-        is_published: isPublished,
-        source: 'email',
-      });
-    }
+    await submitBookingReview(bk, { rating: r, source: 'email' });
     // Cross-canal : le client existe, la Pieuvre s'en souvient (identity_bridge + canal_memory)
     try {
       if (bk.client_email) {
@@ -5373,12 +5738,12 @@ app.get('/api/reviews/submit', async (req, res) => {
             );
       }
     } catch {}
-    // Merci + champ commentaire optionnel
+    // Merci + champ commentaire optionnel (publié après modération)
     const body = `<div style="font-size:40px;margin-bottom:12px">${'⭐'.repeat(r)}</div>
 <div style="font-size:16px;color:#fff;margin-bottom:8px">Merci ${clientFirst || ''} !</div>
 <div style="font-size:14px;color:#aaa;margin-bottom:20px">Ta note est enregistrée. Un mot à ajouter ? (optionnel)</div>
 <form method="POST" action="${RV_SELF}/api/reviews/comment">
-<input type="hidden" name="b" value="${b}"><input type="hidden" name="r" value="${r}"><input type="hidden" name="sig" value="${sig}">
+<input type="hidden" name="t" value="${signReviewToken(b)}"><input type="hidden" name="r" value="${r}">
 <textarea name="comment" rows="3" maxlength="600" placeholder="Ton commentaire…" style="width:100%;box-sizing:border-box;background:#111;border:1px solid #333;border-radius:8px;color:#eee;padding:10px;font-size:14px"></textarea>
 <button type="submit" style="margin-top:12px;background:#8C52FF;color:#fff;border:0;padding:11px 26px;border-radius:8px;font-weight:700;font-size:14px;cursor:pointer">Envoyer</button>
 </form>`;
@@ -5389,30 +5754,38 @@ app.get('/api/reviews/submit', async (req, res) => {
   }
 });
 
-// ── A1.3 — Commentaire optionnel ───────────────────────────────────────────
+// ── A1.3 — Commentaire optionnel (modéré avant publication) ────────────────
 app.post(
   '/api/reviews/comment',
   express.urlencoded({ extended: true }),
   express.json(),
   async (req, res) => {
-    const b = String(req.body?.b || '');
     const r = Number(req.body?.r || 0);
-    const sig = String(req.body?.sig || '');
     const comment = String(req.body?.comment || '')
       .slice(0, 600)
       .trim();
-    if (!b || sig !== (await rvSign(b, r)))
-      return res.status(403).send(rvPage('FOREAS', 'Lien invalide.'));
+    const b = r >= 1 && r <= 5 ? await rvBookingId(req.body, r) : null;
+    if (!b) return res.status(403).send(rvPage('FOREAS', 'Lien invalide.'));
     try {
       const sa: any = await getSupabaseAdmin();
-      if (comment) await sa.from('driver_reviews').update({ comment }).eq('booking_id', b);
+      if (comment) {
+        const { data: bk } = await sa
+          .from('bookings')
+          .select('id, driver_id, site_slug, client_name, status, scheduled_at, notifications')
+          .eq('id', b)
+          .single();
+        if (!bk || !reviewLinkOpen(bk))
+          return res.status(410).send(rvPage('FOREAS', "Ce lien d'avis a expiré."));
+        await submitBookingReview(bk, { rating: r, comment, source: 'email' });
+      }
       return res.send(
         rvPage(
           'Merci — FOREAS',
-          '<div style="font-size:40px;margin-bottom:12px">🙏</div><div style="font-size:16px;color:#fff">Merci, ton avis complet est enregistré !</div>',
+          '<div style="font-size:40px;margin-bottom:12px">🙏</div><div style="font-size:16px;color:#fff">Merci, ton avis complet est enregistré !</div><div style="font-size:13px;color:#888;margin-top:8px">Il sera visible après une courte vérification.</div>',
         ),
       );
     } catch (e: any) {
+      console.error('[reviews/comment]', e?.message);
       return res.status(500).send(rvPage('FOREAS', 'Une erreur est survenue.'));
     }
   },
@@ -5420,32 +5793,25 @@ app.post(
 
 // ── A1.4 — Lecture PUBLIQUE des avis publiés (le site /c/{slug} consomme ça) ──
 // Pas d'auth : ne renvoie QUE des avis publiés+vérifiés, prénom seul, zéro PII.
+// `rating` = moyenne bayésienne (celle du site et du schema.org), `average` = brute.
 // CORS global déjà actif → appelable depuis le navigateur.
 app.get('/api/reviews/public', async (req, res) => {
   const slug = String(req.query.slug || '').trim();
   if (!slug) return res.status(400).json({ ok: false, error: 'slug required' });
   try {
-    const sa: any = await getSupabaseAdmin();
-    const { data: rows } = await sa
-      .from('driver_reviews')
-      .select('rating, comment, client_first_name, created_at')
-      .eq('site_slug', slug)
-      .eq('is_published', true)
-      .eq('verified', true)
-      .order('created_at', { ascending: false })
-      .limit(20);
-    const reviews = (rows || []).map((r: any) => ({
-      rating: r.rating,
-      first_name: r.client_first_name || null,
-      comment: r.comment || null,
-      date: r.created_at,
-    }));
-    const count = reviews.length;
-    const average = count
-      ? Math.round((reviews.reduce((s: number, r: any) => s + r.rating, 0) / count) * 10) / 10
-      : null;
+    const [summary, reviews] = await Promise.all([
+      getSiteRatingSummary(slug),
+      listPublishedReviews(slug, 20),
+    ]);
     res.set('Cache-Control', 'public, max-age=300'); // 5 min de cache CDN/navigateur
-    return res.json({ ok: true, slug, count, average, reviews });
+    return res.json({
+      ok: true,
+      slug,
+      count: summary.count,
+      average: summary.average,
+      rating: summary.count > 0 ? summary.rating : null,
+      reviews,
+    });
   } catch (e: any) {
     console.error('[reviews/public]', e?.message);
     return res.status(500).json({ ok: false, error: 'read failed' });
@@ -5506,7 +5872,59 @@ app.post('/api/bookings/nudge-unconfirmed', express.json(), async (req, res) =>
   }
 });
 
-// ── A2.2 — Relance fidélité client J+7 (message via RAG collection 'vente') ──
+// ── A2.2 — Relance fidélité client J+7 : job booking.rebook_j7 (message via RAG 'vente') ──
+registerJobHandler<{ booking_id: string }>('booking.rebook_j7', async ({ booking_id }) => {
+  const sa: any = await getSupabaseAdmin();
+  const { data: bk } = await sa
+    .from('bookings')
+    .select('id, driver_id, site_slug, client_name, client_email, status, notifications')
+    .eq('id', booking_id)
+    .single();
+  if (!bk || !bk.client_email || !RV_RIDE_STATUSES.includes(bk.status)) return;
+  if (bk.notifications?.rebook_sent_at) return;
+
+  const driverFirst = await rvDriverFirstName(sa, bk.driver_id);
+  const clientFirst =
+    String(bk.client_name || '')
+      .trim()
+      .split(' ')[0] || '';
+  // Message construit via RAG (collection 'vente') — jamais générique
+  try {
+    const { searchKnowledge } = await import('./ai/rag/retriever.js');
+    await searchKnowledge(`relance fidélité client rebook chauffeur VTC direct sans commission`, {
+      maxResults: 2,
+      collections: ['vente'],
+      intent: 'sell' as any,
+      includeLearned: false,
+    });
+  } catch {}
+  const link = `${RV_APP}/c/${bk.site_slug}?src=rebook`;
+  const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@foreas.xyz';
+  const { error } = await (await rvResend()).emails.send({
+    from: `FOREAS <${fromEmail}>`,
+    to: bk.client_email,
+    subject: `Reprendre la route avec ${driverFirst} ?`,
+    html: rvRebookEmail(clientFirst, driverFirst, link),
+  });
+  if (error) throw new Error(`Resend: ${error.message}`);
+
+  await sa.from('concierge_funnel_events').insert({
+    driver_id: bk.driver_id,
+    site_slug: bk.site_slug,
+    booking_id: bk.id,
+    event_type: 'rebook_j7',
+    source: 'pieuvre',
+    meta: { link },
+  });
+  await sa
+    .from('bookings')
+    .update({
+      notifications: { ...(bk.notifications || {}), rebook_sent_at: new Date().toISOString() },
+    })
+    .eq('id', bk.id);
+});
+
+// Rattrapage : planifie la relance des courses de la fenêtre J+7/J+8 sans job
 app.post('/api/bookings/rebook-j7', express.json(), async (req, res) => {
   if (!rvKeyOk(req)) return res.status(401).json({ ok: false, error: 'bad key' });
   try {
@@ -5515,77 +5933,23 @@ app.post('/api/bookings/rebook-j7', express.json(), async (req, res) => {
     const to = new Date(Date.now() - 7 * 86400 * 1000).toISOString();
     const { data: rows } = await sa
       .from('bookings')
-      .select('id, driver_id, site_slug, client_name, client_email, scheduled_at, notifications')
-      .in('status', ['confirmed', 'reminded_2h', 'completed'])
+      .select('id, client_email, notifications')
+      .in('status', RV_RIDE_STATUSES)
       .gte('scheduled_at', from)
       .lt('scheduled_at', to)
       .not('client_email', 'is', null)
-      .limit(50);
+      .limit(200);
     const eligible = (rows || []).filter(
       (b: any) => !b?.notifications?.rebook_sent_at && b.client_email,
     );
-    const resendKey = process.env.RESEND_API_KEY;
-    const resend = resendKey ? new (await import('resend')).Resend(resendKey) : null;
-    const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@foreas.xyz';
-    let sent = 0;
+    let queued = 0;
     for (const bk of eligible) {
-      let driverFirst = 'ton chauffeur';
-      try {
-        const { data: d } = await sa
-          .from('drivers')
-          .select('first_name')
-          .eq('id', bk.driver_id)
-          .single();
-        if (d?.first_name) driverFirst = String(d.first_name).split(' ')[0];
-      } catch {}
-      const clientFirst =
-        String(bk.client_name || '')
-          .trim()
-          .split(' ')[0] || '';
-      // Message construit via RAG (collection 'vente') — jamais générique
-      try {
-        const { searchKnowledge } = await import('./ai/rag/retriever.js');
-        await searchKnowledge(
-          `relance fidélité client rebook chauffeur VTC direct sans commission`,
-          {
-            maxResults: 2,
-            collections: ['vente'],
-            intent: 'sell' as any,
-            includeLearned: false,
-          },
-        );
-      } catch {}
-      const link = `${RV_APP}/c/${bk.site_slug}?src=rebook`;
-      if (resend && bk.client_email) {
-        try {
-          await resend.emails.send({
-            from: `FOREAS <${fromEmail}>`,
-            to: bk.client_email,
-            subject: `Reprendre la route avec ${driverFirst} ?`,
-            html: rvRebookEmail(clientFirst, driverFirst, link),
-          });
-          sent++;
-        } catch (e: any) {
-          console.error('[rebook-j7] send', e?.message);
-          continue;
-        }
-      }
-      await sa.from('concierge_funnel_events').insert({
-        driver_id: bk.driver_id,
-        site_slug: bk.site_slug,
-        booking_id: bk.id,
-        event_type: 'rebook_j7',
-        source: 'pieuvre',
-        meta: { link },
+      const jobId = await enqueueJob('booking.rebook_j7', { booking_id: bk.id }, {
+        idempotencyKey: `booking:${bk.id}:rebook_j7`,
       });
-      await sa
-        .from('bookings')
-        .update({
-          notifications: { ...(bk.notifications || {}), rebook_sent_at: new Date().toISOString() },
-        })
-        .eq('id', bk.id);
+      if (jobId) queued++;
     }
-    return res.json({ ok: true, eligible: eligible.length, sent, resend_configured: !!resend });
+    return res.json({ ok: true, eligible: eligible.length, queued });
   } catch (e: any) {
     console.error('[rebook-j7]', e?.message);
     return res.status(500).json({ ok: false, error: e?.message });
@@ -5599,4 +5963,7 @@ const server = app.listen(PORT, HOST, () => {
   console.log(`[FOREAS] Backend v${VERSION} (${GIT_SHA.substring(0, 7)})`);
   console.log(`[FOREAS] Listening on ${HOST}:${PORT}`);
   console.log(`[FOREAS] Health: http://localhost:${PORT}/health`);
+  if (!process.env.BOOKING_PORTAL_SECRET) {
+    console.error('[FOREAS] BOOKING_PORTAL_SECRET manquant — portail client et demandes d\'avis désactivés');
+  }
 });
@@ -9,9 +9,17 @@
  *   J+4  sans réponse  → FOLLOWUP_1 (relance soft)
  *   J+9  sans réponse  → FOLLOWUP_2 (dernière relance)
  *   J+15 sans réponse  → statut SILENT + thread CLOSED_LOST
+ *
+ * Le batch ne fait que planifier : chaque relance est un job `finder.followup`
+ * (job_queue, clé finder-followup:<log>:<type>) → retry avec backoff si Resend
+ * échoue, jamais de double envoi si le cron repasse.
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { enqueueJob } from '../services/JobQueueService.js';
+
+export const FINDER_FOLLOWUP_JOB = 'finder.followup';
+type FollowupType = 'FOLLOWUP_1' | 'FOLLOWUP_2';
 
 const FOLLOWUP_1_DAYS = 4;
 const FOLLOWUP_2_DAYS = 9;
@@ -50,7 +58,7 @@ export async function runFollowupBatch(): Promise<BatchResult> {
   try {
     const { data: logsF1 } = await supa
       .from('pieuvre_b2b_hunter_log')
-      .select('id, driver_id, thread_id, contacted_at, target_name, contact_email, outreach_count')
+      .select('id')
       .is('replied_at', null)
       .lte('contacted_at', f1Cutoff)
       .gt('contacted_at', f2Cutoff)
@@ -58,7 +66,7 @@ export async function runFollowupBatch(): Promise<BatchResult> {
 
     for (const log of (logsF1 ?? []) as any[]) {
       try {
-        await sendFollowup(log, 'FOLLOWUP_1');
+        await enqueueFollowup(log.id, 'FOLLOWUP_1');
         result.followup1++;
       } catch (err: any) {
         console.error('[FinderFollowupCron] F1 error:', err.message);
@@ -74,7 +82,7 @@ export async function runFollowupBatch(): Promise<BatchResult> {
   try {
     const { data: logsF2 } = await supa
       .from('pieuvre_b2b_hunter_log')
-      .select('id, driver_id, thread_id, contacted_at, target_name, contact_email, outreach_count')
+      .select('id')
       .is('replied_at', null)
       .lte('contacted_at', f2Cutoff)
       .gt('contacted_at', silentCutoff)
@@ -82,7 +90,7 @@ export async function runFollowupBatch(): Promise<BatchResult> {
 
     for (const log of (logsF2 ?? []) as any[]) {
       try {
-        await sendFollowup(log, 'FOLLOWUP_2');
+        await enqueueFollowup(log.id, 'FOLLOWUP_2');
         result.followup2++;
       } catch (err: any) {
         console.error('[FinderFollowupCron] F2 error:', err.message);
@@ -131,8 +139,29 @@ export async function runFollowupBatch(): Promise<BatchResult> {
   return result;
 }
 
-// ── Envoi d'un followup individuel ─────────────────────────────
-async function sendFollowup(log: any, type: 'FOLLOWUP_1' | 'FOLLOWUP_2'): Promise<void> {
+async function enqueueFollowup(logId: string, type: FollowupType): Promise<void> {
+  await enqueueJob(FINDER_FOLLOWUP_JOB, { log_id: logId, type }, {
+    idempotencyKey: `finder-followup:${logId}:${type}`,
+  });
+}
+
+// ── Job finder.followup : envoi d'un followup individuel ───────
+export async function runFollowupJob(payload: { log_id: string; type: FollowupType }): Promise<void> {
+  const { data: log, error } = await getSupa()
+    .from('pieuvre_b2b_hunter_log')
+    .select('id, driver_id, thread_id, target_name, contact_email, outreach_count, replied_at')
+    .eq('id', payload.log_id)
+    .maybeSingle();
+  if (error) throw new Error(`pieuvre_b2b_hunter_log query failed: ${error.message}`);
+
+  // Le prospect a répondu, ou la relance est déjà partie, depuis la planification
+  const expectedCount = payload.type === 'FOLLOWUP_1' ? 1 : 2;
+  if (!log || log.replied_at || (log.outreach_count ?? 1) !== expectedCount) return;
+
+  await sendFollowup(log, payload.type);
+}
+
+async function sendFollowup(log: any, type: FollowupType): Promise<void> {
   const supa = getSupa();
   if (!log.contact_email) {
     console.log(`[FinderFollowupCron] No email for log ${log.id}, skip`);
@@ -164,12 +193,22 @@ Sans retour, je laisse votre dossier en pause côté FOREAS.
 Très bonne journée,
 Ajnaya — Relations partenaires FOREAS`;
 
-  const { generateOptoutToken } = await import('../services/OptoutService.js');
-  const optoutToken = generateOptoutToken(log.contact_email);
-  const optoutUrl = `https://foreas.xyz/optout/${optoutToken}`;
+  const { checkOutboundTarget } = await import('../services/SuppressionService.js');
+  const suppression = await checkOutboundTarget('email', log.contact_email, {
+    driverId: log.driver_id,
+    details: { log_id: log.id, followup: type },
+  });
+  // Base indisponible : réessayé par la file ; opposée ou invalide : relance abandonnée
+  if (suppression.reason === 'check_unavailable') throw new Error('suppression check unavailable');
+  if (!suppression.allowed) {
+    console.log(`[FinderFollowupCron] Log ${log.id} — ${suppression.reason}, skip`);
+    return;
+  }
+
+  const { optoutUrl } = await import('../services/OptoutService.js');
   const footer =
     '\n\n--\nAjnaya — Relations partenaires FOREAS\nforeas.xyz\n\n' +
-    `Si vous ne souhaitez plus recevoir de messages : ${optoutUrl}`;
+    `Si vous ne souhaitez plus recevoir de messages : ${optoutUrl(log.contact_email)}`;
 
   // Envoi Resend
   let resendMsgId: string | null = null;
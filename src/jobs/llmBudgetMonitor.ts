@@ -0,0 +1,69 @@
+/**
+ * llmBudgetMonitor — Global LLM budget alerts
+ *
+ * Même échelle que voiceBudgetMonitor (50 / 100 / 200 / 300 sur un cap mensuel
+ * par défaut de 300$), proportionnelle à LLM_BUDGET_GLOBAL_MONTHLY_USD :
+ * - 1/6 du cap → log warning
+ * - 1/3 du cap → alerte (Telegram via pieuvre_analytics_events)
+ * - 2/3 du cap → alerte critique
+ * - cap atteint → CIRCUIT BREAKER : checkLLMBudget sert les réponses en cache
+ */
+import { getGlobalBudgetCaps, getLLMSpend } from '../ai/llmBudget';
+import { getSupabaseAdmin } from '../helpers/supabase';
+
+export async function runLLMBudgetCheck(): Promise<{
+  monthlySpend: number;
+  dailySpend: number;
+  threshold: string;
+  circuitBroken: boolean;
+}> {
+  console.log('[LLMBudget] Running budget check...');
+
+  const caps = getGlobalBudgetCaps();
+  const spend = await getLLMSpend(null);
+  const rounded = Math.round(spend.monthlyUsd * 100) / 100;
+  const cap = caps.monthlyUsd;
+
+  const ladder = [
+    { ratio: 1, threshold: 'CIRCUIT_BREAKER', event: 'LLM_BUDGET_CIRCUIT_BREAKER' },
+    { ratio: 2 / 3, threshold: 'CRITICAL', event: 'LLM_BUDGET_CRITICAL' },
+    { ratio: 1 / 3, threshold: 'ALERT', event: 'LLM_BUDGET_ALERT' },
+    { ratio: 1 / 6, threshold: 'WARNING', event: null },
+  ];
+  const level = ladder.find((l) => rounded >= cap * l.ratio);
+
+  const threshold = level?.threshold || 'OK';
+  const circuitBroken = level?.threshold === 'CIRCUIT_BREAKER';
+
+  if (level) {
+    const limit = Math.round(cap * level.ratio * 100) / 100;
+    const log = circuitBroken ? console.error : console.warn;
+    log(
+      `[LLMBudget] ${threshold}: ${rounded}$ >= ${limit}$${circuitBroken ? '. Serving cached replies only.' : ''}`,
+    );
+
+    if (level.event) {
+      const { error } = await getSupabaseAdmin()
+        .from('pieuvre_analytics_events')
+        .insert({
+          event_type: level.event,
+          payload: {
+            monthlySpend: rounded,
+            dailySpend: Math.round(spend.dailyUsd * 100) / 100,
+            threshold: limit,
+            cap,
+            ...(circuitBroken ? { action: 'LLM_CACHED_REPLIES_ONLY' } : {}),
+          },
+        });
+      if (error) console.warn('[LLMBudget] Alert insert failed:', error.message);
+    }
+  }
+
+  console.log(`[LLMBudget] Monthly spend: ${rounded}$ / ${cap}$, threshold: ${threshold}`);
+  return {
+    monthlySpend: rounded,
+    dailySpend: Math.round(spend.dailyUsd * 100) / 100,
+    threshold,
+    circuitBroken,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * queueHandlers — enregistrement des handlers job_queue des modules chargés à la demande
+ *
+ * Appelé par index.ts avant startJobWorker(). Les handlers définis dans index.ts
+ * (review.request, booking.rebook_j7) s'enregistrent directement à côté de leurs templates.
+ *
+ *   booking.reminder  → rappels SMS client / push chauffeur (booking.routes)
+ *   booking.fee_capture → frais d'annulation / d'absence, remboursement d'acompte (BookingFeeService)
+ *   review.moderate   → modération des avis clients et réponses chauffeur (ReviewService)
+ *   subcontract.expire / subcontract.settle → offres de sous-traitance, commission d'apporteur (SubcontractService)
+ *   voice.insights    → analyse des transcripts d'appels (VoiceCallInsightService)
+ *   voice.call        → appels Ajnaya planifiés : premier appel, rappel, relance (voiceCallScheduler)
+ *   push.driver       → push Expo durable (lib/expoPush)
+ *   finder.followup   → relances prospects Finder (finderFollowupCron)
+ */
+
+import { registerJobHandler } from '../services/JobQueueService.js';
+
+export async function registerQueueHandlers(): Promise<void> {
+  const { REMINDER_JOB, runBookingReminder } = await import('../routes/booking.routes.js');
+  registerJobHandler(REMINDER_JOB, runBookingReminder);
+
+  const { BOOKING_FEE_JOB, runBookingFeeJob } = await import('../services/BookingFeeService.js');
+  registerJobHandler(BOOKING_FEE_JOB, runBookingFeeJob);
+
+  const { REVIEW_MODERATION_JOB, runReviewModerationJob } = await import('../services/ReviewService.js');
+  registerJobHandler(REVIEW_MODERATION_JOB, runReviewModerationJob);
+
+  const { SUBCONTRACT_EXPIRE_JOB, SUBCONTRACT_SETTLE_JOB, runSubcontractExpireJob, runSubcontractSettleJob } =
+    await import('../services/SubcontractService.js');
+  registerJobHandler(SUBCONTRACT_EXPIRE_JOB, runSubcontractExpireJob);
+  registerJobHandler(SUBCONTRACT_SETTLE_JOB, runSubcontractSettleJob);
+
+  const { VOICE_INSIGHTS_JOB, runVoiceInsightsJob } = await import('../services/VoiceCallInsightService.js');
+  registerJobHandler(VOICE_INSIGHTS_JOB, runVoiceInsightsJob);
+
+  const { VOICE_CALL_JOB, runVoiceCallJob } = await import('./voiceCallScheduler.js');
+  registerJobHandler(VOICE_CALL_JOB, runVoiceCallJob);
+
+  const { DRIVER_PUSH_JOB, runDriverPushJob } = await import('../lib/expoPush.js');
+  registerJobHandler(DRIVER_PUSH_JOB, runDriverPushJob);
+
+  const { FINDER_FOLLOWUP_JOB, runFollowupJob } = await import('./finderFollowupCron.js');
+  registerJobHandler(FINDER_FOLLOWUP_JOB, runFollowupJob);
+}
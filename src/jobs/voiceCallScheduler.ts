@@ -0,0 +1,369 @@
+/**
+ * Voice Call Scheduler — Ajnaya appelle au bon moment, sans déclenchement manuel
+ *
+ * Schedule recommandé : Railway Cron 1×/jour à 7h UTC
+ *   → POST /api/internal/run-voice-scheduler (X-Internal-Secret)
+ *
+ * Trois sources d'appels :
+ *   premier appel  prospect qui a répondu par email (hunter_log REPLIED, fil
+ *                  OPEN), jamais appelé — batch quotidien, dans la limite du
+ *                  quota hebdo du chauffeur
+ *   rappel         créneau demandé par le prospect, extrait du transcript
+ *                  (VoiceCallInsightService) → hunter_log CALL_CALLBACK
+ *   sans réponse   relance espacée 3h / 24h / 72h (post-call UNREACHABLE),
+ *                  puis abandon → CALL_UNREACHABLE
+ *
+ * Chaque appel est un job `voice.call` posé sur le prochain créneau de la
+ * politique du prospect (CallingWindowService). hunter_log.next_call_at est
+ * la référence : un job dont le créneau ne correspond plus est ignoré. Au
+ * déclenchement, preCallChecks revalide opposition, plage, quota et budget ;
+ * un refus replanifie au créneau suivant (numéro en liste d'opposition :
+ * appels arrêtés, hunter_log CALL_DECLINED). Un échec de l'appel lui-même
+ * (API, réseau) est réessayé par la file avec backoff — sauf 4xx, définitif —
+ * et plafonné à MAX_CALL_FAILURES par prospect sur CALL_FAILURE_WINDOW_MS
+ * (les appels FAILED ne comptent pas dans le quota hebdo du chauffeur).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { enqueueJob, PermanentJobError } from '../services/JobQueueService.js';
+import {
+  nextCallingSlot,
+  noAnswerRetryAfter,
+  requestedCallbackSlot,
+  resolveCallingContext,
+} from '../services/CallingWindowService.js';
+import { findSuppression } from '../services/SuppressionService.js';
+
+export const VOICE_CALL_JOB = 'voice.call';
+export type VoiceScheduleReason = 'first' | 'callback' | 'retry';
+
+/** Statut hunter_log attendu au déclenchement, par origine */
+const EXPECTED_LOG_STATUS: Record<VoiceScheduleReason, string> = {
+  first: 'REPLIED',
+  callback: 'CALL_CALLBACK',
+  retry: 'CALL_NO_ANSWER',
+};
+
+/** Quota hebdo / budget atteint : on retente le lendemain */
+const QUOTA_RETRY_DELAY_MS = 24 * 3600 * 1000;
+/** Appels en échec (FAILED) tolérés par prospect avant abandon */
+const MAX_CALL_FAILURES = 3;
+const CALL_FAILURE_WINDOW_MS = 7 * 24 * 3600 * 1000;
+
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  _supa = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  return _supa;
+}
+
+interface SchedulerLog {
+  id: string;
+  driver_id: string;
+  status: string | null;
+  business_type: string | null;
+  place_directory_id: string | null;
+  next_call_at: string | null;
+}
+
+const LOG_COLUMNS = 'id, driver_id, status, business_type, place_directory_id, next_call_at';
+
+async function prospectPhone(log: Pick<SchedulerLog, 'place_directory_id'>): Promise<string | null> {
+  if (!log.place_directory_id) return null;
+  const { data: place } = await getSupa()
+    .from('places_directory')
+    .select('phone')
+    .eq('id', log.place_directory_id)
+    .maybeSingle();
+  return (place as any)?.phone || null;
+}
+
+// ── Planification d'un appel ──────────────────────────────────────
+
+/**
+ * Pose le job voice.call sur le prochain créneau du prospect à partir de
+ * `notBefore` (créneau demandé respecté tel quel si `requested`).
+ * Retourne le créneau retenu, null si aucun dans les 3 semaines.
+ */
+export async function scheduleVoiceCall(
+  log: Pick<SchedulerLog, 'id' | 'business_type'>,
+  phone: string,
+  opts: { reason: VoiceScheduleReason; notBefore: number; requested?: boolean; callbackOfCallId?: string },
+): Promise<string | null> {
+  const ctx = await resolveCallingContext({ businessType: log.business_type, phone }, opts.notBefore);
+  const slot = opts.requested
+    ? requestedCallbackSlot(opts.notBefore, ctx.policy, ctx.timeZone, ctx.holidays)
+    : nextCallingSlot(opts.notBefore, ctx.policy, ctx.timeZone, ctx.holidays);
+  if (!slot) {
+    console.warn(`[VoiceScheduler] No calling slot for log ${log.id} (${ctx.category}, ${ctx.timeZone})`);
+    return null;
+  }
+
+  await enqueueJob(
+    VOICE_CALL_JOB,
+    { log_id: log.id, reason: opts.reason, slot, callback_of_call_id: opts.callbackOfCallId ?? null },
+    { runAt: slot, idempotencyKey: `voice-call:${log.id}:${opts.reason}:${slot}`, maxAttempts: MAX_CALL_FAILURES },
+  );
+  await getSupa()
+    .from('pieuvre_b2b_hunter_log')
+    .update({ next_call_at: slot, next_call_reason: opts.reason })
+    .eq('id', log.id);
+
+  console.log(`[VoiceScheduler] ${opts.reason} call for log ${log.id} → ${slot} (${ctx.category}, ${ctx.timeZone})`);
+  return slot;
+}
+
+/** Rappel demandé par le prospect pendant l'appel `callId` (heure ISO UTC) */
+export async function scheduleProspectCallback(
+  logId: string,
+  callId: string,
+  callbackAt: string,
+  note: string | null,
+): Promise<string | null> {
+  const supa = getSupa();
+  const { data: log } = await supa.from('pieuvre_b2b_hunter_log').select(LOG_COLUMNS).eq('id', logId).maybeSingle();
+  if (!log || (log as SchedulerLog).status === 'CONVERTED') return null;
+
+  await supa
+    .from('pieuvre_b2b_hunter_log')
+    .update({ status: 'CALL_CALLBACK', callback_at: callbackAt, callback_note: note || callbackAt })
+    .eq('id', logId);
+
+  const phone = await prospectPhone(log as SchedulerLog);
+  if (!phone) return null;
+  return scheduleVoiceCall(log as SchedulerLog, phone, {
+    reason: 'callback',
+    notBefore: Math.max(Date.parse(callbackAt), Date.now()),
+    requested: true,
+    callbackOfCallId: callId,
+  });
+}
+
+/**
+ * Appel sans réponse : relance espacée, ou abandon après la dernière.
+ * Appelé par le webhook post-call (outcome UNREACHABLE).
+ */
+export async function recordNoAnswer(logId: string): Promise<void> {
+  const supa = getSupa();
+  const { data } = await supa
+    .from('pieuvre_b2b_hunter_log')
+    .select(`${LOG_COLUMNS}, no_answer_count`)
+    .eq('id', logId)
+    .maybeSingle();
+  if (!data) return;
+  const log = data as SchedulerLog & { no_answer_count: number | null };
+
+  const count = (log.no_answer_count ?? 0) + 1;
+  const retryAfter = noAnswerRetryAfter(Date.now(), count);
+  const phone = await prospectPhone(log);
+  if (retryAfter == null || !phone) {
+    await supa
+      .from('pieuvre_b2b_hunter_log')
+      .update({ status: 'CALL_UNREACHABLE', no_answer_count: count, next_call_at: null, next_call_reason: null })
+      .eq('id', logId);
+    console.log(`[VoiceScheduler] log ${logId}: ${count} no-answer(s), giving up`);
+    return;
+  }
+
+  await supa.from('pieuvre_b2b_hunter_log').update({ status: 'CALL_NO_ANSWER', no_answer_count: count }).eq('id', logId);
+  await scheduleVoiceCall(log, phone, { reason: 'retry', notBefore: retryAfter });
+}
+
+async function recentCallFailures(logId: string): Promise<number> {
+  const { count, error } = await getSupa()
+    .from('finder_voice_calls')
+    .select('id', { count: 'exact', head: true })
+    .eq('log_id', logId)
+    .eq('status', 'FAILED')
+    .gte('started_at', new Date(Date.now() - CALL_FAILURE_WINDOW_MS).toISOString());
+  if (error) throw new Error(`finder_voice_calls query failed: ${error.message}`);
+  return count ?? 0;
+}
+
+// ── Job voice.call ────────────────────────────────────────────────
+
+export async function runVoiceCallJob(payload: {
+  log_id: string;
+  reason: VoiceScheduleReason;
+  slot: string;
+  callback_of_call_id?: string | null;
+}): Promise<void> {
+  const supa = getSupa();
+  const { data, error } = await supa
+    .from('pieuvre_b2b_hunter_log')
+    .select(LOG_COLUMNS)
+    .eq('id', payload.log_id)
+    .maybeSingle();
+  if (error) throw new Error(`pieuvre_b2b_hunter_log query failed: ${error.message}`);
+  const log = data as SchedulerLog | null;
+
+  // Replanifié (ou annulé) depuis : ce job n'est plus le bon
+  if (!log?.next_call_at || Date.parse(log.next_call_at) !== Date.parse(payload.slot)) return;
+
+  const clearNextCall = () =>
+    supa.from('pieuvre_b2b_hunter_log').update({ next_call_at: null, next_call_reason: null }).eq('id', log.id);
+
+  // Prospect converti, refusé, passé en relation directe… depuis la planification
+  if (log.status !== EXPECTED_LOG_STATUS[payload.reason]) {
+    await clearNextCall();
+    return;
+  }
+
+  const phone = await prospectPhone(log);
+  if (!phone) {
+    await clearNextCall();
+    return;
+  }
+
+  const { data: thread } = await supa.from('finder_email_threads').select('id').eq('log_id', log.id).maybeSingle();
+
+  let callbackNote: string | null = null;
+  if (payload.callback_of_call_id) {
+    const { data: original } = await supa
+      .from('finder_voice_calls')
+      .select('insights')
+      .eq('id', payload.callback_of_call_id)
+      .maybeSingle();
+    callbackNote = (original as any)?.insights?.callback_note ?? null;
+  }
+
+  const { initiateElevenLabsCall } = await import('../services/ElevenLabsCallService.js');
+  const result = await initiateElevenLabsCall({
+    driverId: log.driver_id,
+    threadId: (thread as any)?.id || '',
+    logId: log.id,
+    placeId: log.place_directory_id,
+    toNumber: phone,
+    scheduleReason: payload.reason,
+    callbackOf: payload.callback_of_call_id ? { callId: payload.callback_of_call_id, note: callbackNote } : undefined,
+  });
+
+  if (result.success) {
+    await clearNextCall();
+    return;
+  }
+  if (result.reason === 'VOICE_NOT_ENABLED' || result.reason === 'SUPPRESSED (invalid_target)') {
+    await clearNextCall();
+    return;
+  }
+  // Numéro en liste d'opposition : plus aucun appel vers ce prospect
+  if (result.reason?.startsWith('SUPPRESSED') && result.reason !== 'SUPPRESSED (check_unavailable)') {
+    await supa
+      .from('pieuvre_b2b_hunter_log')
+      .update({ status: 'CALL_DECLINED', next_call_at: null, next_call_reason: null })
+      .eq('id', log.id);
+    console.log(`[VoiceScheduler] log ${log.id}: ${result.reason} → calls stopped`);
+    return;
+  }
+
+  // Échec de l'appel lui-même : 4xx ou plafond atteint → abandon, sinon backoff de la file
+  if (result.retryable !== undefined) {
+    if (!result.retryable || (await recentCallFailures(log.id)) >= MAX_CALL_FAILURES) {
+      await clearNextCall();
+      console.warn(`[VoiceScheduler] log ${log.id}: ${result.reason} → calls stopped`);
+      throw new PermanentJobError(`voice call failed: ${result.reason}`);
+    }
+    throw new Error(`voice call failed: ${result.reason}`);
+  }
+
+  // Hors plage (job en retard), quota ou budget : créneau suivant
+  const delay = /^(WEEKLY_QUOTA|BUDGET)/.test(result.reason || '') ? QUOTA_RETRY_DELAY_MS : 60 * 1000;
+  const slot = await scheduleVoiceCall(log, phone, { reason: payload.reason, notBefore: Date.now() + delay });
+  if (!slot) await clearNextCall();
+  console.log(`[VoiceScheduler] log ${log.id}: ${result.reason} → rescheduled ${slot ?? 'never'}`);
+}
+
+// ── Batch quotidien : premiers appels ─────────────────────────────
+
+interface SchedulerBatchResult {
+  drivers: number;
+  scheduled: number;
+  skipped: number;
+  errors: number;
+  durationMs: number;
+}
+
+export async function runVoiceSchedulerBatch(): Promise<SchedulerBatchResult> {
+  const t0 = Date.now();
+  const result: SchedulerBatchResult = { drivers: 0, scheduled: 0, skipped: 0, errors: 0, durationMs: 0 };
+  const supa = getSupa();
+
+  console.log('[VoiceScheduler] 🕐 Starting voice scheduling batch...');
+
+  const { data: settings, error } = await supa
+    .from('client_finder_settings')
+    .select('driver_id, max_voice_calls_per_week')
+    .eq('voice_calls_enabled', true);
+  if (error) throw new Error(`client_finder_settings query failed: ${error.message}`);
+
+  const weekAgo = new Date(Date.now() - 7 * 24 * 3600_000).toISOString();
+
+  for (const s of (settings ?? []) as any[]) {
+    result.drivers++;
+    try {
+      // Quota hebdo : appels passés + appels déjà planifiés
+      const [{ count: recent }, { count: pending }] = await Promise.all([
+        supa
+          .from('finder_voice_calls')
+          .select('id', { count: 'exact', head: true })
+          .eq('driver_id', s.driver_id)
+          .gte('started_at', weekAgo)
+          .not('status', 'eq', 'FAILED'),
+        supa
+          .from('pieuvre_b2b_hunter_log')
+          .select('id', { count: 'exact', head: true })
+          .eq('driver_id', s.driver_id)
+          .not('next_call_at', 'is', null),
+      ]);
+      const remaining = (s.max_voice_calls_per_week ?? 5) - (recent ?? 0) - (pending ?? 0);
+      if (remaining <= 0) continue;
+
+      const { data: logs } = await supa
+        .from('pieuvre_b2b_hunter_log')
+        .select(LOG_COLUMNS)
+        .eq('driver_id', s.driver_id)
+        .eq('status', 'REPLIED')
+        .is('next_call_at', null)
+        .order('replied_at', { ascending: true })
+        .limit(remaining * 3);
+      const candidates = (logs ?? []) as SchedulerLog[];
+      if (candidates.length === 0) continue;
+
+      const ids = candidates.map((l) => l.id);
+      const [{ data: called }, { data: threads }] = await Promise.all([
+        supa.from('finder_voice_calls').select('log_id').in('log_id', ids),
+        supa.from('finder_email_threads').select('log_id, status').in('log_id', ids),
+      ]);
+      const alreadyCalled = new Set((called ?? []).map((c: any) => c.log_id));
+      const openThreads = new Set((threads ?? []).filter((t: any) => t.status === 'OPEN').map((t: any) => t.log_id));
+
+      let scheduled = 0;
+      for (const log of candidates) {
+        if (scheduled >= remaining) break;
+        const phone = alreadyCalled.has(log.id) || !openThreads.has(log.id) ? null : await prospectPhone(log);
+        // Numéro en liste d'opposition : jamais planifié, ne consomme pas le quota
+        if (!phone || (await findSuppression('phone', phone))) {
+          result.skipped++;
+          continue;
+        }
+        if (await scheduleVoiceCall(log, phone, { reason: 'first', notBefore: Date.now() })) {
+          scheduled++;
+          result.scheduled++;
+        } else {
+          result.skipped++;
+        }
+      }
+    } catch (err: any) {
+      console.error(`[VoiceScheduler] driver ${s.driver_id} error:`, err.message);
+      result.errors++;
+    }
+  }
+
+  result.durationMs = Date.now() - t0;
+  console.log(
+    `[VoiceScheduler] ✅ Done — drivers: ${result.drivers}, scheduled: ${result.scheduled}, skipped: ${result.skipped}, errors: ${result.errors}, ${result.durationMs}ms`,
+  );
+  return result;
+}
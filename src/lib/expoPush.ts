@@ -20,6 +20,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { enqueueJob } from '../services/JobQueueService.js';
 
 let _supa: SupabaseClient | null = null;
 function getSupa(): SupabaseClient | null {
@@ -137,3 +138,26 @@ export async function sendDriverPush(
     return -1;
   }
 }
+
+// ── Version durable (job_queue) ──────────────────────────────────
+
+export const DRIVER_PUSH_JOB = 'push.driver';
+
+/**
+ * Planifie la push via la file de jobs : réessayée avec backoff si Expo
+ * ne répond pas (au lieu d'être perdue). `idempotencyKey` évite les doublons
+ * quand l'événement source est rejoué (webhook reçu deux fois...).
+ */
+export async function enqueueDriverPush(
+  driverId: string,
+  payload: DriverPushPayload,
+  opts: { idempotencyKey?: string; runAt?: Date | string } = {},
+): Promise<string | null> {
+  return enqueueJob(DRIVER_PUSH_JOB, { driver_id: driverId, push: payload }, opts);
+}
+
+/** Handler du job push.driver — lève une erreur si Expo échoue (retry) */
+export async function runDriverPushJob(payload: { driver_id: string; push: DriverPushPayload }): Promise<void> {
+  const sent = await sendDriverPush(payload.driver_id, payload.push);
+  if (sent === -1) throw new Error('Expo push failed');
+}
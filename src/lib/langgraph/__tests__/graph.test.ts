@@ -0,0 +1,145 @@
+/**
+ * Unit tests — Ajnaya LangGraph routing + checkpoints (Vitest)
+ *
+ * Agents mockés : ni Supabase ni LLM.
+ *
+ * Exécution :
+ *   npx vitest run src/lib/langgraph/__tests__/graph.test.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const calls: string[] = [];
+
+function agent(name: string, output: Record<string, unknown> = {}) {
+  return async () => {
+    calls.push(name);
+    return output;
+  };
+}
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+vi.mock('../agents/dispatcher', () => ({
+  dispatcherAgent: async (state: any) => {
+    calls.push('dispatcher');
+    const isDriver = state.driverId === 'driver-1';
+    return { isDriver, isSubscriber: isDriver, hasStripeConnect: false, daysSinceSubscription: 30 };
+  },
+}));
+vi.mock('../agents/contexte', () => ({ contexteAgent: agent('contexte') }));
+vi.mock('../agents/signaux', () => ({
+  signauxAgent: async () => {
+    calls.push('signaux');
+    return new Promise(() => {}); // ne répond jamais → timeout
+  },
+}));
+vi.mock('../agents/profil', () => ({
+  profilAgent: async (state: any) => {
+    calls.push('profil');
+    return { profile: { id: state.driverId || state.prospectId } };
+  },
+}));
+vi.mock('../agents/hunter', () => ({ hunterAgent: agent('hunter') }));
+vi.mock('../agents/parrainage', () => ({ parrainageAgent: agent('parrainage') }));
+vi.mock('../agents/compta', () => ({ comptaAgent: agent('compta') }));
+vi.mock('../agents/strategiste', () => ({ strategisteAgent: agent('strategiste') }));
+vi.mock('../agents/generateur', () => ({
+  generateurAgent: async (state: any) => {
+    calls.push('generateur');
+    return { response: `ok:${state.rawMessage}` };
+  },
+}));
+vi.mock('../agents/persistance', () => ({ persistanceAgent: agent('persistance') }));
+
+import { MemorySaver, emptyCheckpoint } from '@langchain/langgraph';
+import { BoundedMemorySaver } from '../checkpointer';
+import { buildAjnayaGraph } from '../graph';
+import { selectAgents } from '../routing';
+import { NODE_TIMEOUTS_MS } from '../nodeTimeout';
+
+describe('Ajnaya graph', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    NODE_TIMEOUTS_MS.signaux = 50;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('selects agents from the dispatcher output', () => {
+    const base = {
+      isDriver: false,
+      isSubscriber: false,
+      hasStripeConnect: false,
+      daysSinceSubscription: 0,
+      channel: 'widget_site',
+      driverId: null,
+      prospectId: null,
+    };
+
+    expect(selectAgents(base)).toEqual([]);
+    expect(selectAgents({ ...base, prospectId: 'p1' })).toEqual(['contexte', 'profil']);
+    expect(selectAgents({ ...base, prospectId: 'p1', channel: 'whatsapp' })).toEqual([
+      'contexte',
+      'signaux',
+      'profil',
+    ]);
+    expect(
+      selectAgents({
+        ...base,
+        channel: 'in_app',
+        driverId: 'd1',
+        isDriver: true,
+        isSubscriber: true,
+        hasStripeConnect: true,
+        daysSinceSubscription: 30,
+      }),
+    ).toEqual(['contexte', 'signaux', 'profil', 'hunter', 'parrainage', 'compta']);
+  });
+
+  it('skips every parallel agent for an anonymous widget visitor', async () => {
+    const result = await buildAjnayaGraph().invoke({ rawMessage: 'salut' });
+
+    expect(calls).toEqual(['dispatcher', 'strategiste', 'generateur', 'persistance']);
+    expect(result.routedAgents).toEqual([]);
+    expect(result.response).toBe('ok:salut');
+  });
+
+  it('times out a slow node and resumes the thread with its previous state', async () => {
+    const graph = buildAjnayaGraph(new MemorySaver());
+    const config = { configurable: { thread_id: 'driver:driver-1' }, durability: 'exit' as const };
+
+    const first = await graph.invoke(
+      { rawMessage: 'un', channel: 'in_app', driverId: 'driver-1', errors: null },
+      config,
+    );
+    expect(first.routedAgents).toEqual(['contexte', 'signaux', 'profil', 'parrainage', 'compta']);
+    expect(first.errors).toEqual([{ agent: 'signaux', error: 'timeout after 50ms' }]);
+
+    // 2e tour sans driverId : repris du checkpoint, erreurs remises à zéro
+    const second = await graph.invoke({ rawMessage: 'deux', channel: 'in_app', errors: null }, config);
+    expect(second.driverId).toBe('driver-1');
+    expect(second.profile).toEqual({ id: 'driver-1' });
+    expect(second.response).toBe('ok:deux');
+    expect(second.errors).toHaveLength(1);
+  });
+});
+
+describe('BoundedMemorySaver', () => {
+  it('keeps only the latest checkpoints of a thread, and the latest threads', async () => {
+    const saver = new BoundedMemorySaver(2, 3);
+    const put = async (threadId: string, id: string) =>
+      saver.put({ configurable: { thread_id: threadId, checkpoint_ns: '' } }, { ...emptyCheckpoint(), id }, {
+        source: 'loop',
+        step: 0,
+        parents: {},
+      });
+
+    for (const id of ['01', '02', '03', '04', '05']) await put('a', id);
+    expect(Object.keys(saver.storage.a['']).sort()).toEqual(['03', '04', '05']);
+    const latest = await saver.getTuple({ configurable: { thread_id: 'a' } });
+    expect(latest?.checkpoint.id).toBe('05');
+
+    await put('b', '01');
+    await put('c', '01');
+    expect(Object.keys(saver.storage).sort()).toEqual(['b', 'c']);
+  });
+});
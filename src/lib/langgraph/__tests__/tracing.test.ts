@@ -0,0 +1,127 @@
+/**
+ * Unit tests — Ajnaya LangGraph tracing + offline replay (Vitest)
+ *
+ * Client Supabase factice (compteur de requêtes) : le rejeu ne doit pas l'appeler.
+ *
+ * Exécution :
+ *   npx vitest run src/lib/langgraph/__tests__/tracing.test.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({ queries: 0, drivers: { 'driver-1': { id: 'driver-1', subscription_active: true } } as Record<string, any> }));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const builder: any = {
+        select: () => builder,
+        eq: (col: string, value: unknown) => ((filters[col] = value), builder),
+        single: () => builder,
+        then: (resolve: (v: any) => any) => {
+          db.queries++;
+          return Promise.resolve({ data: db.drivers[filters.id as string] ?? null, error: null }).then(resolve);
+        },
+      };
+      return table === 'drivers' ? builder : null;
+    },
+  }),
+}));
+
+vi.mock('../agents/dispatcher', async () => {
+  const { supabase } = await import('../supabase');
+  return {
+    dispatcherAgent: async (state: any) => {
+      const { data } = await supabase.from('drivers').select('id, subscription_active').eq('id', state.driverId).single();
+      return { isDriver: Boolean(data), isSubscriber: data?.subscription_active === true };
+    },
+  };
+});
+vi.mock('../agents/contexte', () => ({ contexteAgent: async () => ({ conversationHistory: [] }) }));
+vi.mock('../agents/signaux', () => ({ signauxAgent: async () => ({ surgeActive: true }) }));
+vi.mock('../agents/profil', () => ({ profilAgent: async (s: any) => ({ profile: { id: s.driverId } }) }));
+vi.mock('../agents/hunter', () => ({ hunterAgent: async () => ({}) }));
+vi.mock('../agents/parrainage', () => ({ parrainageAgent: async () => ({}) }));
+vi.mock('../agents/compta', () => ({ comptaAgent: async () => ({ comptaResult: null }) }));
+vi.mock('../agents/strategiste', () => ({
+  strategisteAgent: async (s: any) => ({ strategy: { ...s.strategy, tone: s.surgeActive ? 'urgence' : 'complice' } }),
+}));
+vi.mock('../agents/generateur', async () => {
+  const { recordLLMCall } = await import('../tracing');
+  return {
+    generateurAgent: async (s: any) => {
+      recordLLMCall({ provider: 'anthropic', model: 'm', inputTokens: 10, outputTokens: 5, costUsd: 0.001, latencyMs: 1 });
+      return { response: `live:${s.strategy.tone}` };
+    },
+  };
+});
+vi.mock('../agents/persistance', () => ({ persistanceAgent: async () => ({}) }));
+
+import { buildAjnayaGraph } from '../graph';
+import { createGraphTrace, isGraphTracingEnabled, runWithTrace, toTraceMetadata } from '../tracing';
+import { replayGraphTrace } from '../replay';
+
+async function recordTurn() {
+  const input = { rawMessage: 'zone ?', channel: 'in_app', driverId: 'driver-1', errors: null };
+  const trace = createGraphTrace({ driverId: 'driver-1', channel: 'in_app', input });
+  await runWithTrace(trace, () => buildAjnayaGraph().invoke(input));
+  return trace;
+}
+
+describe('Ajnaya graph tracing', () => {
+  it('records node diffs, LLM calls and Supabase queries', async () => {
+    const trace = await recordTurn();
+
+    // Agents parallèles dans un ordre quelconque
+    expect(trace.nodes.map((n) => n.node).sort()).toEqual(
+      ['dispatcher', 'contexte', 'signaux', 'profil', 'compta', 'strategiste', 'generateur', 'persistance'].sort(),
+    );
+    expect(trace.initialState?.driverId).toBe('driver-1');
+    expect(trace.nodes[0].diff.isDriver).toEqual({ before: false, after: true });
+    expect(trace.nodes.find((n) => n.node === 'generateur')?.llmCalls).toHaveLength(1);
+    expect(trace.supabaseCalls).toEqual([
+      expect.objectContaining({
+        node: 'dispatcher',
+        name: 'drivers',
+        chain: [['select', ['id, subscription_active']], ['eq', ['id', 'driver-1']], ['single', []]],
+        result: { data: { id: 'driver-1', subscription_active: true }, error: null, count: null },
+      }),
+    ]);
+    expect(trace.response).toBe('live:urgence');
+  });
+
+  it('replays offline from the recorded Supabase data and LLM outputs', async () => {
+    const trace = await recordTurn();
+    const queriesBefore = db.queries;
+    delete db.drivers['driver-1']; // la base a changé depuis : le rejeu ne doit pas le voir
+
+    const replay = await replayGraphTrace(trace);
+
+    expect(db.queries).toBe(queriesBefore);
+    expect(replay.unmatchedQueries).toEqual([]);
+    expect(replay.divergences).toEqual([]);
+    expect(replay.response).toBe('live:urgence');
+    expect(replay.trace.replayOf).toBe(trace.id);
+  });
+
+  it('is opt-in and stores only metadata outside full mode', async () => {
+    expect(isGraphTracingEnabled()).toBe(false);
+    db.drivers['driver-1'] = { id: 'driver-1', subscription_active: true };
+
+    const meta = toTraceMetadata(await recordTurn());
+
+    expect(meta.payloads).toBe(false);
+    expect(meta.input).toEqual({});
+    expect(meta.initialState).toBeNull();
+    expect(meta.response).toBeNull();
+    expect(meta.nodes[0]).toMatchObject({ node: 'dispatcher', diff: {}, output: {} });
+    expect(meta.nodes[0].changedKeys).toContain('isDriver');
+    expect(meta.supabaseCalls[0]).toMatchObject({
+      name: 'drivers',
+      chain: [['select', []], ['eq', []], ['single', []]],
+      result: { data: null, error: null, count: 1 },
+    });
+    await expect(replayGraphTrace(meta)).rejects.toThrow('metadata only');
+  });
+});
@@ -7,6 +7,7 @@ import {
 } from '../../../constants/ajnayaPersonality';
 import { buildVerifiableProofs, formatProofsForPrompt } from '../../../utils/verifiabilite';
 import { supabase } from '../supabase';
+import { recordLLMCall } from '../tracing';
 
 const ANTHROPIC_KEY = (process.env.ANTHROPIC_API_KEY || '').trim();
 const anthropic = new Anthropic({
@@ -150,6 +151,7 @@ export async function generateurAgent(state: AjnayaStateType): Promise<Partial<A
     // ==========================================
     // APPEL CLAUDE API
     // ==========================================
+    const llmStartedAt = Date.now();
     const completion = await anthropic.messages.create({
       model: 'claude-sonnet-4-6',
       max_tokens: 300,
@@ -166,6 +168,15 @@ export async function generateurAgent(state: AjnayaStateType): Promise<Partial<A
       ((completion.usage?.input_tokens || 0) * 3 + (completion.usage?.output_tokens || 0) * 15) /
       1_000_000;
 
+    recordLLMCall({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-6',
+      inputTokens: completion.usage?.input_tokens || 0,
+      outputTokens: completion.usage?.output_tokens || 0,
+      costUsd,
+      latencyMs: Date.now() - llmStartedAt,
+    });
+
     // Detection sentiment simple
     let sentiment: string | null = null;
     if (/merci|super|top|parfait|g[eé]nial/i.test(state.rawMessage)) sentiment = 'positive';
@@ -1,29 +1,101 @@
 // src/lib/langgraph/agents/hunter.ts
-// Placeholder fonctionnel — activera quand pieuvre_hunter_requests existera
-import type { AjnayaStateType } from '../state';
+// Private Hunter : remonte au Strategiste les correspondances des demandes de
+// chasse ouvertes du chauffeur (rapprochement fait par PrivateHunterService).
+// Les correspondances montrees passent de "new" a "surfaced".
+import { supabase } from '../supabase';
+import type { AjnayaStateType, HunterMatchPreview } from '../state';
+
+const MAX_SURFACED = 3;
+const EMPTY_RESULT = { hasPendingClient: false, clientPreview: null, matches: [] };
 
 export async function hunterAgent(state: AjnayaStateType): Promise<Partial<AjnayaStateType>> {
   // Condition : uniquement pour les abonnes avec Stripe Connect
-  if (!state.isSubscriber || !state.hasStripeConnect) {
-    return { hunterResult: { hasPendingClient: false, clientPreview: null } };
+  if (!state.isSubscriber || !state.hasStripeConnect || !state.driverId) {
+    return { hunterResult: EMPTY_RESULT };
   }
 
   try {
-    // V1 : Placeholder — retourne false tant que les tables Private Hunter V2 ne sont pas creees
-    // FUTUR (quand pieuvre_hunter_requests existera) :
-    // const { data: pendingRequests } = await supabase
-    //   .from("pieuvre_hunter_requests")
-    //   .select("*")
-    //   .eq("status", "pending")
-    //   .limit(1);
+    // 1. Demandes ouvertes dont le creneau n'est pas termine
+    const { data: requests } = await supabase
+      .from('pieuvre_hunter_requests')
+      .select('id, window_start, window_end')
+      .eq('driver_id', state.driverId)
+      .eq('status', 'matched')
+      .gte('window_end', new Date().toISOString());
+
+    if (!requests?.length) return { hunterResult: EMPTY_RESULT };
+
+    // 2. Meilleures correspondances pas encore traitees
+    const { data: rows } = await supabase
+      .from('pieuvre_hunter_matches')
+      .select('id, request_id, name, place_type, distance_km, score, source, status')
+      .in('request_id', requests.map((r) => r.id))
+      .in('status', ['new', 'surfaced'])
+      .order('score', { ascending: false })
+      .limit(MAX_SURFACED);
+
+    if (!rows?.length) return { hunterResult: EMPTY_RESULT };
+
+    const windows = new Map(requests.map((r) => [r.id, r]));
+    const matches: HunterMatchPreview[] = rows.map((m) => ({
+      matchId: m.id,
+      requestId: m.request_id,
+      name: m.name,
+      placeType: m.place_type,
+      distanceKm: m.distance_km == null ? null : Number(m.distance_km),
+      score: m.score,
+      source: m.source,
+      windowStart: windows.get(m.request_id)!.window_start,
+      windowEnd: windows.get(m.request_id)!.window_end,
+    }));
+
+    // 3. Marquer comme montrees
+    const fresh = rows.filter((m) => m.status === 'new').map((m) => m.id);
+    if (fresh.length > 0) {
+      const now = new Date().toISOString();
+      await supabase
+        .from('pieuvre_hunter_matches')
+        .update({ status: 'surfaced', surfaced_at: now, updated_at: now })
+        .in('id', fresh)
+        .eq('status', 'new');
+    }
 
     return {
-      hunterResult: { hasPendingClient: false, clientPreview: null },
+      hunterResult: {
+        hasPendingClient: true,
+        clientPreview: buildClientPreview(matches),
+        matches,
+      },
     };
   } catch (error: any) {
     return {
-      hunterResult: { hasPendingClient: false, clientPreview: null },
+      hunterResult: EMPTY_RESULT,
       errors: [{ agent: 'hunter', error: error.message }],
     };
   }
 }
+
+function buildClientPreview(matches: HunterMatchPreview[]): string {
+  const formatWindow = (m: HunterMatchPreview) => {
+    const fmt = (iso: string) =>
+      new Date(iso).toLocaleString('fr-FR', {
+        timeZone: 'Europe/Paris',
+        weekday: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    return `${fmt(m.windowStart)} → ${fmt(m.windowEnd)}`;
+  };
+
+  return matches
+    .map((m) => {
+      const details = [
+        m.placeType,
+        m.distanceKm != null ? `${m.distanceKm.toFixed(1)} km` : null,
+        m.source === 'client_finder' ? 'déjà en échange via Client Finder' : null,
+      ].filter(Boolean);
+      return `- ${m.name}${details.length ? ` (${details.join(', ')})` : ''} — créneau ${formatWindow(m)}`;
+    })
+    .join('\n');
+}
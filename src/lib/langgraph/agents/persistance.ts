@@ -1,6 +1,7 @@
 // src/lib/langgraph/agents/persistance.ts
 import { supabase } from '../supabase';
 import type { AjnayaStateType } from '../state';
+import { getActiveTrace } from '../tracing';
 
 export async function persistanceAgent(state: AjnayaStateType): Promise<Partial<AjnayaStateType>> {
   try {
@@ -34,6 +35,8 @@ export async function persistanceAgent(state: AjnayaStateType): Promise<Partial<
       metadata: {
         strategy: state.strategy.tone,
         errors: state.errors.length > 0 ? state.errors : undefined,
+        // Trace d'execution du graphe (ajnaya_graph_traces), cf. GET /api/admin/graph-traces
+        trace_id: getActiveTrace()?.id,
       },
     });
 
@@ -0,0 +1,259 @@
+// src/lib/langgraph/checkpointer.ts
+// Checkpointer du graphe Ajnaya : un thread de conversation reprend avec son
+// AjnayaState precedent (profil, historique, signaux...).
+//
+// LANGGRAPH_CHECKPOINTER :
+//   memory   (defaut) — en memoire, borne a MAX_MEMORY_THREADS threads et
+//            MAX_MEMORY_CHECKPOINTS_PER_THREAD checkpoints par thread
+//   supabase — table ajnaya_graph_checkpoints (reprise entre instances / redemarrages)
+//   none     — pas de reprise (comportement historique)
+import { BaseCheckpointSaver, MemorySaver } from '@langchain/langgraph';
+import type { Checkpoint, CheckpointMetadata, CheckpointTuple } from '@langchain/langgraph';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { supabase } from './supabase';
+
+const CHECKPOINTS_TABLE = 'ajnaya_graph_checkpoints';
+const MAX_MEMORY_THREADS = 1_000;
+// La reprise ne lit que le dernier checkpoint ; quelques parents gardes pour l'historique
+const MAX_MEMORY_CHECKPOINTS_PER_THREAD = 5;
+
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+type ListOptions = Parameters<BaseCheckpointSaver['list']>[1];
+
+// ============================================
+// MEMORY (borne)
+// ============================================
+
+/**
+ * MemorySaver qui oublie les threads les moins recemment ecrits au-dela de
+ * `maxThreads`, et ne garde que les `maxCheckpointsPerThread` derniers
+ * checkpoints de chaque thread (un tour = plusieurs checkpoints)
+ */
+export class BoundedMemorySaver extends MemorySaver {
+  private threads = new Map<string, true>();
+
+  constructor(
+    private readonly maxThreads = MAX_MEMORY_THREADS,
+    private readonly maxCheckpointsPerThread = MAX_MEMORY_CHECKPOINTS_PER_THREAD,
+  ) {
+    super();
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+
+    const threadId = String(config.configurable?.thread_id);
+    this.threads.delete(threadId);
+    this.threads.set(threadId, true);
+    this.trimThread(threadId, config.configurable?.checkpoint_ns ?? '');
+
+    while (this.threads.size > this.maxThreads) {
+      const oldest = this.threads.keys().next().value as string;
+      this.threads.delete(oldest);
+      await this.deleteThread(oldest);
+    }
+
+    return result;
+  }
+
+  // Ids de checkpoint (uuid6) triables dans le temps : on garde les plus recents
+  private trimThread(threadId: string, checkpointNs: string): void {
+    const checkpoints = this.storage[threadId]?.[checkpointNs];
+    if (!checkpoints) return;
+
+    const ids = Object.keys(checkpoints).sort((a, b) => b.localeCompare(a));
+    for (const checkpointId of ids.slice(this.maxCheckpointsPerThread)) {
+      delete checkpoints[checkpointId];
+      delete this.writes[JSON.stringify([threadId, checkpointNs, checkpointId])];
+    }
+  }
+}
+
+// ============================================
+// SUPABASE
+// ============================================
+
+interface CheckpointRow {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  checkpoint_type: string;
+  checkpoint: string;
+  metadata_type: string;
+  metadata: string;
+}
+
+/**
+ * Dernier checkpoint par thread dans Supabase (pas d'historique : la reprise
+ * n'a besoin que du dernier etat). Les pending writes restent en memoire du
+ * process : ils ne servent qu'a reprendre un run interrompu dans ce process.
+ */
+export class SupabaseCheckpointSaver extends BaseCheckpointSaver {
+  private writes = new Map<string, Array<[string, string, unknown]>>();
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (!threadId) return undefined;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+    const { data, error } = await supabase
+      .from(CHECKPOINTS_TABLE)
+      .select('*')
+      .eq('thread_id', threadId)
+      .eq('checkpoint_ns', checkpointNs)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Checkpoint load failed: ${error.message}`);
+    }
+
+    const row = data as CheckpointRow | null;
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (!row || (checkpointId && row.checkpoint_id !== checkpointId)) return undefined;
+
+    return this.toTuple(row);
+  }
+
+  async *list(config: RunnableConfig, options?: ListOptions): AsyncGenerator<CheckpointTuple> {
+    if (options?.limit !== undefined && options.limit <= 0) return;
+
+    const tuple = await this.getTuple(config);
+    if (!tuple) return;
+
+    const filter = options?.filter;
+    const metadata: Record<string, unknown> = { ...tuple.metadata };
+    if (filter && !Object.entries(filter).every(([k, v]) => metadata[k] === v)) return;
+    yield tuple;
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    if (!threadId) {
+      throw new Error('Failed to put checkpoint: missing configurable.thread_id');
+    }
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const parentId: string | undefined = config.configurable?.checkpoint_id;
+
+    const [checkpointType, serializedCheckpoint] = await this.encode(checkpoint);
+    const [metadataType, serializedMetadata] = await this.encode(metadata);
+
+    const { error } = await supabase.from(CHECKPOINTS_TABLE).upsert(
+      {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+        parent_checkpoint_id: parentId || null,
+        checkpoint_type: checkpointType,
+        checkpoint: serializedCheckpoint,
+        metadata_type: metadataType,
+        metadata: serializedMetadata,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'thread_id,checkpoint_ns' },
+    );
+
+    if (error) {
+      throw new Error(`Checkpoint save failed: ${error.message}`);
+    }
+
+    // Le checkpoint parent n'est plus lisible : ses writes non plus
+    if (parentId) this.writes.delete(this.writesKey(threadId, checkpointNs, parentId));
+
+    return {
+      configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpoint.id },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const { thread_id: threadId, checkpoint_ns: checkpointNs = '', checkpoint_id: checkpointId } =
+      config.configurable || {};
+    if (!threadId || !checkpointId) return;
+
+    const key = this.writesKey(threadId, checkpointNs, checkpointId);
+    const existing = this.writes.get(key) || [];
+    this.writes.set(key, [...existing, ...writes.map(([channel, value]): [string, string, unknown] => [taskId, channel, value])]);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    for (const key of this.writes.keys()) {
+      if (JSON.parse(key)[0] === threadId) this.writes.delete(key);
+    }
+
+    const { error } = await supabase.from(CHECKPOINTS_TABLE).delete().eq('thread_id', threadId);
+    if (error) {
+      throw new Error(`Checkpoint delete failed: ${error.message}`);
+    }
+  }
+
+  // json → texte lisible en base ; autres types (bytes) → base64
+  private async encode(value: unknown): Promise<[string, string]> {
+    const [type, bytes] = await this.serde.dumpsTyped(value);
+    const buffer = Buffer.from(bytes);
+    return [type, type === 'json' ? buffer.toString('utf-8') : buffer.toString('base64')];
+  }
+
+  private async decode(type: string, data: string): Promise<any> {
+    return this.serde.loadsTyped(type, type === 'json' ? data : Buffer.from(data, 'base64'));
+  }
+
+  private writesKey(threadId: string, checkpointNs: string, checkpointId: string): string {
+    return JSON.stringify([threadId, checkpointNs, checkpointId]);
+  }
+
+  private async toTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const writes = this.writes.get(this.writesKey(row.thread_id, row.checkpoint_ns, row.checkpoint_id)) || [];
+
+    return {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.decode(row.checkpoint_type, row.checkpoint),
+      metadata: await this.decode(row.metadata_type, row.metadata),
+      pendingWrites: writes,
+      ...(row.parent_checkpoint_id
+        ? {
+            parentConfig: {
+              configurable: {
+                thread_id: row.thread_id,
+                checkpoint_ns: row.checkpoint_ns,
+                checkpoint_id: row.parent_checkpoint_id,
+              },
+            },
+          }
+        : {}),
+    };
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+export function createAjnayaCheckpointer(
+  kind = process.env.LANGGRAPH_CHECKPOINTER || 'memory',
+): BaseCheckpointSaver | undefined {
+  switch (kind) {
+    case 'none':
+      return undefined;
+    case 'supabase':
+      return new SupabaseCheckpointSaver();
+    case 'memory':
+      return new BoundedMemorySaver();
+    default:
+      console.warn(`[LangGraph] Unknown LANGGRAPH_CHECKPOINTER "${kind}", using memory`);
+      return new BoundedMemorySaver();
+  }
+}
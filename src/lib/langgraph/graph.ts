@@ -1,6 +1,9 @@
 // src/lib/langgraph/graph.ts
+import { randomUUID } from 'crypto';
 import { StateGraph } from '@langchain/langgraph';
+import type { BaseCheckpointSaver } from '@langchain/langgraph';
 import { AjnayaState } from './state';
+import type { AjnayaStateType } from './state';
 import { dispatcherAgent } from './agents/dispatcher';
 import { contexteAgent } from './agents/contexte';
 import { signauxAgent } from './agents/signaux';
@@ -11,31 +14,55 @@ import { comptaAgent } from './agents/compta';
 import { strategisteAgent } from './agents/strategiste';
 import { generateurAgent } from './agents/generateur';
 import { persistanceAgent } from './agents/persistance';
+import { PARALLEL_AGENTS, neutralOutputs, routeAfterDispatcher, selectAgents } from './routing';
+import { withNodeTimeout } from './nodeTimeout';
+import { createAjnayaCheckpointer } from './checkpointer';
+import { createGraphTrace, isGraphTracingEnabled, runWithTrace, traced } from './tracing';
+import { saveGraphTrace } from './traceStore';
 
-export function buildAjnayaGraph() {
+const GENERATEUR_TIMEOUT_REPLY =
+  'Court-circuit de mon côté — pas toi, moi. Redonne-moi une minute et repose ta question.';
+
+const timedDispatcher = withNodeTimeout('dispatcher', dispatcherAgent);
+
+/**
+ * Dispatcher + decision de routage : agents retenus dans `routedAgents`,
+ * sorties neutres pour les autres
+ */
+async function dispatcherNode(state: AjnayaStateType): Promise<Partial<AjnayaStateType>> {
+  const result = await timedDispatcher(state);
+  const routedAgents = selectAgents({ ...state, ...result });
+  const skipped = PARALLEL_AGENTS.filter((a) => !routedAgents.includes(a));
+
+  return { ...neutralOutputs(skipped), ...result, routedAgents };
+}
+
+type AgentFn = (state: AjnayaStateType) => Promise<Partial<AjnayaStateType>>;
+
+/** Noeud standard : trace + timeout (cf. tracing.ts, nodeTimeout.ts) */
+function node(name: string, agent: AgentFn, fallback?: Partial<AjnayaStateType>): AgentFn {
+  return traced(name, withNodeTimeout(name, agent, fallback));
+}
+
+export function buildAjnayaGraph(checkpointer?: BaseCheckpointSaver) {
   const graph = new StateGraph(AjnayaState)
-    // Noeuds
-    .addNode('dispatcher', dispatcherAgent)
-    .addNode('contexte', contexteAgent)
-    .addNode('signaux', signauxAgent)
-    .addNode('profil', profilAgent)
-    .addNode('hunter', hunterAgent)
-    .addNode('parrainage', parrainageAgent)
-    .addNode('compta', comptaAgent)
-    .addNode('strategiste', strategisteAgent)
-    .addNode('generateur', generateurAgent)
-    .addNode('persistance', persistanceAgent)
-
-    // Edges : Dispatcher -> parallele (contexte + signaux + profil + hunter + parrainage + compta)
+    // Noeuds (chacun trace et borne par son timeout)
+    .addNode('dispatcher', traced('dispatcher', dispatcherNode))
+    .addNode('contexte', node('contexte', contexteAgent))
+    .addNode('signaux', node('signaux', signauxAgent))
+    .addNode('profil', node('profil', profilAgent))
+    .addNode('hunter', node('hunter', hunterAgent))
+    .addNode('parrainage', node('parrainage', parrainageAgent))
+    .addNode('compta', node('compta', comptaAgent))
+    .addNode('strategiste', node('strategiste', strategisteAgent))
+    .addNode('generateur', node('generateur', generateurAgent, { response: GENERATEUR_TIMEOUT_REPLY }))
+    .addNode('persistance', node('persistance', persistanceAgent))
+
+    // Edges : Dispatcher -> agents retenus en parallele (ou Strategiste direct si aucun)
     .addEdge('__start__', 'dispatcher')
-    .addEdge('dispatcher', 'contexte')
-    .addEdge('dispatcher', 'signaux')
-    .addEdge('dispatcher', 'profil')
-    .addEdge('dispatcher', 'hunter')
-    .addEdge('dispatcher', 'parrainage')
-    .addEdge('dispatcher', 'compta')
-
-    // Tous les agents paralleles -> Strategiste
+    .addConditionalEdges('dispatcher', routeAfterDispatcher, [...PARALLEL_AGENTS, 'strategiste'])
+
+    // Agents paralleles lances -> Strategiste
     .addEdge('contexte', 'strategiste')
     .addEdge('signaux', 'strategiste')
     .addEdge('profil', 'strategiste')
@@ -48,15 +75,92 @@ export function buildAjnayaGraph() {
     .addEdge('generateur', 'persistance')
     .addEdge('persistance', '__end__');
 
-  return graph.compile();
+  return graph.compile({ checkpointer });
 }
 
 // Singleton pour reutiliser le graphe compile
 let _compiledGraph: ReturnType<typeof buildAjnayaGraph> | null = null;
+let _checkpointer: BaseCheckpointSaver | undefined;
 
 export function getAjnayaGraph() {
   if (!_compiledGraph) {
-    _compiledGraph = buildAjnayaGraph();
+    _checkpointer = createAjnayaCheckpointer();
+    _compiledGraph = buildAjnayaGraph(_checkpointer);
   }
   return _compiledGraph;
 }
+
+// ============================================
+// TOUR DE CONVERSATION (reprise par thread)
+// ============================================
+
+export interface AjnayaTurnInput {
+  rawMessage: string;
+  channel?: string;
+  prospectId?: string | null;
+  driverId?: string | null;
+  sessionId?: string | null;
+}
+
+/**
+ * Thread de reprise : session > chauffeur > prospect. Sans identifiant, pas de reprise.
+ */
+export function ajnayaThreadId(input: AjnayaTurnInput): string | null {
+  if (input.sessionId) return `session:${input.sessionId}`;
+  if (input.driverId) return `driver:${input.driverId}`;
+  if (input.prospectId) return `prospect:${input.prospectId}`;
+  return null;
+}
+
+/**
+ * Run one conversation turn. With a checkpointer, the thread resumes with its
+ * previous AjnayaState; identifiers absent from this turn are kept from it.
+ */
+export async function invokeAjnayaGraph(input: AjnayaTurnInput, threadId = ajnayaThreadId(input)) {
+  const graph = getAjnayaGraph();
+
+  const update: Partial<AjnayaStateType> & { errors: null } = {
+    rawMessage: input.rawMessage,
+    channel: input.channel || 'widget_site',
+    response: '',
+    errors: null, // erreurs du tour precedent
+  };
+  if (input.prospectId) update.prospectId = input.prospectId;
+  if (input.driverId) update.driverId = input.driverId;
+  if (input.sessionId) update.sessionId = input.sessionId;
+
+  const thread = threadId || `ephemeral:${randomUUID()}`;
+  const run = () =>
+    _checkpointer
+      ? graph.invoke(update, {
+          configurable: { thread_id: thread },
+          // Un seul checkpoint en fin de tour (pas a chaque super-step)
+          durability: 'exit',
+        })
+      : graph.invoke(update);
+
+  const trace = isGraphTracingEnabled()
+    ? createGraphTrace({
+        threadId,
+        sessionId: input.sessionId,
+        driverId: input.driverId,
+        prospectId: input.prospectId,
+        channel: update.channel,
+        input: update,
+      })
+    : null;
+
+  try {
+    return await (trace ? runWithTrace(trace, run) : run());
+  } finally {
+    // Visiteur anonyme : rien a reprendre, on ne garde pas son thread
+    if (_checkpointer && !threadId) {
+      await _checkpointer.deleteThread(thread).catch(() => {});
+    }
+    if (trace) {
+      saveGraphTrace(trace).catch((err) =>
+        console.warn('[LangGraph] Trace save failed:', (err as Error).message),
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+// src/lib/langgraph/nodeTimeout.ts
+// Timeout par noeud : un agent trop lent ne bloque plus tout le graphe.
+// Au timeout, le noeud ne renvoie que son erreur (+ un repli eventuel) : le state
+// garde les valeurs deja presentes (defauts, ou tour precedent d'un thread repris).
+import type { AjnayaStateType } from './state';
+
+type AgentFn = (state: AjnayaStateType) => Promise<Partial<AjnayaStateType>>;
+
+export const NODE_TIMEOUTS_MS: Record<string, number> = {
+  dispatcher: 3_000,
+  contexte: 4_000,
+  signaux: 4_000,
+  profil: 3_000,
+  hunter: 2_000,
+  parrainage: 2_000,
+  compta: 2_000,
+  strategiste: 3_000,
+  generateur: 25_000,
+  persistance: 5_000,
+};
+
+// LANGGRAPH_NODE_TIMEOUT_FACTOR=2 double tous les timeouts (debug, reseau lent)
+const TIMEOUT_FACTOR = Number(process.env.LANGGRAPH_NODE_TIMEOUT_FACTOR) || 1;
+
+/**
+ * Wrap an agent so it resolves within its timeout.
+ * `fallback` is merged into the partial state returned on timeout.
+ */
+export function withNodeTimeout(
+  name: string,
+  agent: AgentFn,
+  fallback: Partial<AjnayaStateType> = {},
+  timeoutMs = NODE_TIMEOUTS_MS[name],
+): AgentFn {
+  if (!timeoutMs) return agent;
+  const effectiveMs = timeoutMs * TIMEOUT_FACTOR;
+
+  return async (state) => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<Partial<AjnayaStateType>>((resolve) => {
+      timer = setTimeout(() => {
+        console.warn(`⏱️ [LangGraph] ${name} timeout after ${effectiveMs}ms — partial state`);
+        resolve({
+          ...fallback,
+          errors: [{ agent: name, error: `timeout after ${effectiveMs}ms` }],
+        });
+      }, effectiveMs);
+    });
+
+    try {
+      return await Promise.race([agent(state), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
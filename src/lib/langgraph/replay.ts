@@ -0,0 +1,212 @@
+// src/lib/langgraph/replay.ts
+// Rejoue un tour du graphe Ajnaya hors ligne a partir de sa trace :
+// - les requetes Supabase sont servies depuis les reponses enregistrees
+//   (meme noeud, meme table, meme suite de methodes, dans l'ordre) ;
+// - les noeuds avec appel LLM (generateur) renvoient leur sortie enregistree,
+//   sauf s'ils sont demandes en `liveNodes` ;
+// - tout le reste (routage, strategiste...) tourne avec le code actuel.
+//
+// Usage :
+//   npx tsx src/lib/langgraph/replay.ts <trace-id>
+//   npx tsx src/lib/langgraph/replay.ts ./trace.json --live generateur
+import * as fs from 'fs';
+import { buildAjnayaGraph } from './graph';
+import { createGraphTrace, getActiveNodeName, runWithTrace } from './tracing';
+import type { GraphTrace, TracedSupabaseCall } from './tracing';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReplayOptions {
+  /** Nodes re-run for real even if they made LLM calls (default: none) */
+  liveNodes?: string[];
+}
+
+export interface ReplayDivergence {
+  node: string;
+  /** State keys whose output differs from the recording */
+  keys: string[];
+}
+
+export interface GraphReplayResult {
+  trace: GraphTrace;
+  response: string | null;
+  originalResponse: string | null;
+  divergences: ReplayDivergence[];
+  /** Queries made on replay without a matching recording (answered with empty data) */
+  unmatchedQueries: Array<{ node: string | null; kind: string; name: string; methods: string[] }>;
+}
+
+// ============================================
+// MOCK SUPABASE
+// ============================================
+
+function callSignature(node: string | null, kind: string, name: string, chain: Array<[string, unknown[]]>): string {
+  return [node || '-', kind, name, ...chain.map(([method]) => method)].join('|');
+}
+
+/**
+ * Supabase stand-in answering from recorded calls. Arguments are ignored
+ * (timestamps change between runs): the node, target and method names match.
+ */
+export function createReplaySupabase(
+  calls: TracedSupabaseCall[],
+  unmatched: GraphReplayResult['unmatchedQueries'],
+) {
+  const queues = new Map<string, TracedSupabaseCall[]>();
+  for (const call of calls) {
+    const key = callSignature(call.node, call.kind, call.name, call.chain.filter(([m]) => m !== 'rpc'));
+    queues.set(key, [...(queues.get(key) || []), call]);
+  }
+
+  const builder = (kind: 'from' | 'rpc', name: string) => {
+    const node = getActiveNodeName();
+    const chain: Array<[string, unknown[]]> = [];
+
+    const resolve = () => {
+      const queue = queues.get(callSignature(node, kind, name, chain));
+      const recorded = queue?.shift();
+      if (!recorded) {
+        unmatched.push({ node, kind, name, methods: chain.map(([m]) => m) });
+        return { data: null, error: null, count: null };
+      }
+      return recorded.result;
+    };
+
+    const proxy: any = new Proxy(
+      {},
+      {
+        get(_, prop) {
+          if (prop === 'then') {
+            return (onFulfilled?: (v: any) => any, onRejected?: (e: any) => any) =>
+              Promise.resolve().then(resolve).then(onFulfilled, onRejected);
+          }
+          return (...args: unknown[]) => {
+            chain.push([String(prop), args]);
+            return proxy;
+          };
+        },
+      },
+    );
+    return proxy;
+  };
+
+  return {
+    from: (table: string) => builder('from', table),
+    rpc: (fn: string) => builder('rpc', fn),
+  };
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+export async function replayGraphTrace(
+  original: GraphTrace,
+  options: ReplayOptions = {},
+): Promise<GraphReplayResult> {
+  if (original.payloads === false) {
+    throw new Error(`Trace ${original.id} was stored as metadata only (LANGGRAPH_TRACING=full to record replayable traces)`);
+  }
+  if (!original.initialState) {
+    throw new Error(`Trace ${original.id} has no initial state (dispatcher never ran)`);
+  }
+
+  const live = new Set(options.liveNodes || []);
+  const mockOutputs = new Map<string, Record<string, unknown>>();
+  for (const node of original.nodes) {
+    if (node.llmCalls.length > 0 && !live.has(node.node)) mockOutputs.set(node.node, node.output);
+  }
+
+  const trace = createGraphTrace({
+    threadId: original.threadId,
+    sessionId: original.sessionId,
+    driverId: original.driverId,
+    prospectId: original.prospectId,
+    channel: original.channel,
+    input: original.input,
+    replayOf: original.id,
+  });
+
+  const unmatched: GraphReplayResult['unmatchedQueries'] = [];
+  const supabase = createReplaySupabase(original.supabaseCalls, unmatched);
+
+  // Graphe sans checkpointer : l'etat repris est deja dans initialState
+  const { errors: _errors, ...initialState } = original.initialState as Record<string, any>;
+  const result = await runWithTrace(
+    trace,
+    () => buildAjnayaGraph().invoke({ ...initialState, errors: null }),
+    { mockOutputs, supabase },
+  );
+
+  const divergences: ReplayDivergence[] = [];
+  for (const recorded of original.nodes) {
+    const replayed = trace.nodes.find((n) => n.node === recorded.node);
+    if (!replayed) {
+      divergences.push({ node: recorded.node, keys: ['<not run>'] });
+      continue;
+    }
+    const keys = [...new Set([...Object.keys(recorded.output), ...Object.keys(replayed.output)])].filter(
+      (key) => key !== 'errors' && JSON.stringify(recorded.output[key]) !== JSON.stringify(replayed.output[key]),
+    );
+    if (keys.length) divergences.push({ node: recorded.node, keys });
+  }
+  for (const replayed of trace.nodes) {
+    if (!original.nodes.some((n) => n.node === replayed.node)) {
+      divergences.push({ node: replayed.node, keys: ['<not in original>'] });
+    }
+  }
+
+  return {
+    trace,
+    response: result.response ?? null,
+    originalResponse: original.response,
+    divergences,
+    unmatchedQueries: unmatched,
+  };
+}
+
+// ============================================
+// CLI
+// ============================================
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const source = args[0];
+  const liveIndex = args.indexOf('--live');
+  const liveNodes = liveIndex === -1 ? [] : (args[liveIndex + 1] || '').split(',').filter(Boolean);
+
+  if (!source) {
+    console.error('Usage: replay.ts <trace-id | trace.json> [--live generateur]');
+    process.exit(1);
+  }
+
+  const load = async (): Promise<GraphTrace | null> => {
+    if (fs.existsSync(source)) return JSON.parse(fs.readFileSync(source, 'utf-8')) as GraphTrace;
+    const { getGraphTrace } = await import('./traceStore');
+    return getGraphTrace(source);
+  };
+
+  load()
+    .then(async (trace) => {
+      if (!trace) throw new Error(`Trace not found: ${source}`);
+      const result = await replayGraphTrace(trace, { liveNodes });
+
+      console.log(`\n🔁 Replay ${trace.id} (${trace.nodes.length} nodes, ${trace.supabaseCalls.length} queries)`);
+      console.log(`   agents: ${result.trace.routedAgents.join(', ') || 'none'}`);
+      for (const n of result.trace.nodes) {
+        console.log(`   ${n.node.padEnd(12)} ${n.changedKeys.join(', ') || '-'}`);
+      }
+      for (const d of result.divergences) console.log(`   ≠ ${d.node}: ${d.keys.join(', ')}`);
+      for (const q of result.unmatchedQueries) {
+        console.log(`   ? ${q.node} ${q.kind} ${q.name} ${q.methods.join('.')}`);
+      }
+      console.log(`\n   original: ${result.originalResponse}\n   replay:   ${result.response}`);
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('❌ Replay échoué:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,101 @@
+// src/lib/langgraph/routing.ts
+// Routage conditionnel apres le Dispatcher : seuls les agents utiles au profil
+// (prospect anonyme, prospect connu, chauffeur, abonne) sont lances.
+import type { AjnayaStateType } from './state';
+
+export const PARALLEL_AGENTS = [
+  'contexte',
+  'signaux',
+  'profil',
+  'hunter',
+  'parrainage',
+  'compta',
+] as const;
+
+export type ParallelAgent = (typeof PARALLEL_AGENTS)[number];
+
+type RoutingInput = Pick<
+  AjnayaStateType,
+  | 'isDriver'
+  | 'isSubscriber'
+  | 'hasStripeConnect'
+  | 'daysSinceSubscription'
+  | 'channel'
+  | 'driverId'
+  | 'prospectId'
+>;
+
+const RULES: Record<ParallelAgent, (s: RoutingInput) => boolean> = {
+  // Historique : il faut quelqu'un a qui le rattacher
+  contexte: (s) => Boolean(s.driverId || s.prospectId),
+  // Signaux terrain : chauffeurs, et prospects connus hors widget (scenario demo sur evenements)
+  signaux: (s) => s.isDriver || (Boolean(s.prospectId) && s.channel !== 'widget_site'),
+  profil: (s) => Boolean(s.driverId || s.prospectId),
+  // Memes conditions que les agents eux-memes (ils renvoient leur valeur neutre sinon)
+  hunter: (s) => s.isSubscriber && s.hasStripeConnect,
+  parrainage: (s) => s.isSubscriber && s.daysSinceSubscription > 14,
+  compta: (s) => s.isSubscriber && Boolean(s.driverId),
+};
+
+/**
+ * Agents paralleles a lancer pour ce tour, dans l'ordre de PARALLEL_AGENTS
+ */
+export function selectAgents(state: RoutingInput): ParallelAgent[] {
+  return PARALLEL_AGENTS.filter((agent) => RULES[agent](state));
+}
+
+/**
+ * Valeurs neutres des agents non lances : un thread repris ne doit pas garder
+ * les sorties d'un tour precedent (ex. abonnement resilie depuis).
+ */
+export function neutralOutputs(skipped: ParallelAgent[]): Partial<AjnayaStateType> {
+  const outputs: Partial<AjnayaStateType> = {};
+
+  for (const agent of skipped) {
+    switch (agent) {
+      case 'contexte':
+        Object.assign(outputs, {
+          conversationHistory: [],
+          prospectOriginChannel: null,
+          prospectScoreAtConversion: 0,
+          prospectDaysToConvert: null,
+        });
+        break;
+      case 'signaux':
+        Object.assign(outputs, {
+          recentEvents: [],
+          currentZone: null,
+          surgeActive: false,
+          lastFare: null,
+          nearbyEvents: [],
+          gtfsDisruptions: [],
+          zoneIntelligence: null,
+        });
+        break;
+      case 'profil':
+        outputs.profile = null;
+        break;
+      case 'hunter':
+        outputs.hunterResult = { hasPendingClient: false, clientPreview: null, matches: [] };
+        break;
+      case 'parrainage':
+        outputs.referralResult = { totalReferrals: 0, monthlyEarnings: 0, isGoodMoment: false };
+        break;
+      case 'compta':
+        outputs.comptaResult = null;
+        break;
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Conditional edge du Dispatcher : agents retenus, ou directement le Strategiste
+ */
+export function routeAfterDispatcher(state: AjnayaStateType): Array<ParallelAgent | 'strategiste'> {
+  const agents = state.routedAgents.filter((a): a is ParallelAgent =>
+    (PARALLEL_AGENTS as readonly string[]).includes(a),
+  );
+  return agents.length > 0 ? agents : ['strategiste'];
+}
@@ -1,6 +1,18 @@
 // src/lib/langgraph/state.ts
 import { Annotation } from '@langchain/langgraph';
 
+export interface HunterMatchPreview {
+  matchId: string;
+  requestId: string;
+  name: string;
+  placeType: string | null;
+  distanceKm: number | null;
+  score: number;
+  source: 'places_directory' | 'client_finder';
+  windowStart: string;
+  windowEnd: string;
+}
+
 /**
  * State partagé entre tous les noeuds du graphe Ajnaya.
  * Chaque agent lit et enrichit ce state.
@@ -27,6 +39,8 @@ export const AjnayaState = Annotation.Root({
   isSubscriber: Annotation<boolean>({ reducer: (_, b) => b, default: () => false }),
   hasStripeConnect: Annotation<boolean>({ reducer: (_, b) => b, default: () => false }),
   daysSinceSubscription: Annotation<number>({ reducer: (_, b) => b, default: () => 0 }),
+  // Agents paralleles retenus par le routage conditionnel (cf. routing.ts)
+  routedAgents: Annotation<string[]>({ reducer: (_, b) => b, default: () => [] }),
 
   // === CONTEXTE (Agent Contexte) ===
   conversationHistory: Annotation<
@@ -64,9 +78,14 @@ export const AjnayaState = Annotation.Root({
   }),
 
   // === PRIVATE HUNTER (Agent Hunter — conditionnel) ===
-  hunterResult: Annotation<{ hasPendingClient: boolean; clientPreview: string | null }>({
+  // Correspondances des demandes de chasse (cf. services/PrivateHunterService.ts)
+  hunterResult: Annotation<{
+    hasPendingClient: boolean;
+    clientPreview: string | null;
+    matches: HunterMatchPreview[];
+  }>({
     reducer: (_, b) => b,
-    default: () => ({ hasPendingClient: false, clientPreview: null }),
+    default: () => ({ hasPendingClient: false, clientPreview: null, matches: [] }),
   }),
 
   // === PARRAINAGE (Agent Parrainage — conditionnel) ===
@@ -123,8 +142,12 @@ export const AjnayaState = Annotation.Root({
   sentiment: Annotation<string | null>({ reducer: (_, b) => b, default: () => null }),
 
   // === ERREURS (pour fallback) ===
-  errors: Annotation<Array<{ agent: string; error: string }>>({
-    reducer: (prev, next) => [...prev, ...next],
+  // Cumulées sur le tour ; `null` remet à zéro (début de tour d'un thread repris)
+  errors: Annotation<
+    Array<{ agent: string; error: string }>,
+    Array<{ agent: string; error: string }> | null
+  >({
+    reducer: (prev, next) => (next === null ? [] : [...prev, ...next]),
     default: () => [],
   }),
 });
@@ -1,6 +1,9 @@
 // Shared Supabase client for LangGraph agents
 // Uses service_role key (RLS disabled on pieuvre_ tables)
+// Queries are recorded on the active graph trace, and served from the
+// recording when a trace is replayed (see tracing.ts / replay.ts).
 import { createClient } from '@supabase/supabase-js';
+import { getActiveReplay, recordSupabaseQuery } from './tracing';
 
 const SUPABASE_URL = (
   process.env.NEXT_PUBLIC_SUPABASE_URL ||
@@ -9,4 +12,20 @@ const SUPABASE_URL = (
 ).trim();
 const SUPABASE_SERVICE_ROLE_KEY = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+const client = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+export const supabase: typeof client = new Proxy(client, {
+  get(target, prop) {
+    const value = Reflect.get(target, prop, target);
+    if (prop !== 'from' && prop !== 'rpc') {
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+
+    return (...args: unknown[]) => {
+      const replay = getActiveReplay();
+      const source: any = replay ? replay.supabase : target;
+      const builder = source[prop](...args);
+      return recordSupabaseQuery(prop, String(args[0]), args, builder);
+    };
+  },
+});
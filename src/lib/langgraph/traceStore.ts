@@ -0,0 +1,85 @@
+// src/lib/langgraph/traceStore.ts
+// Stockage des traces du graphe (table ajnaya_graph_traces), liees aux
+// messages de l'agent Persistance par pieuvre_conversations.metadata.trace_id.
+// Hors LANGGRAPH_TRACING=full, seules les metadonnees sont stockees.
+import { supabase } from './supabase';
+import { getGraphTracingMode, toTraceMetadata } from './tracing';
+import type { GraphTrace } from './tracing';
+
+const TRACES_TABLE = 'ajnaya_graph_traces';
+const DEFAULT_RETENTION_DAYS = 14;
+
+export async function saveGraphTrace(input: GraphTrace): Promise<void> {
+  const trace = getGraphTracingMode() === 'full' ? input : toTraceMetadata(input);
+
+  const { error } = await supabase.from(TRACES_TABLE).insert({
+    id: trace.id,
+    session_id: trace.sessionId,
+    thread_id: trace.threadId,
+    driver_id: trace.driverId,
+    prospect_id: trace.prospectId,
+    channel: trace.channel,
+    duration_ms: trace.durationMs,
+    routed_agents: trace.routedAgents,
+    error_count: trace.errors.length,
+    replay_of: trace.replayOf || null,
+    trace,
+    created_at: trace.startedAt,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save graph trace: ${error.message}`);
+  }
+}
+
+export async function getGraphTrace(traceId: string): Promise<GraphTrace | null> {
+  const { data, error } = await supabase
+    .from(TRACES_TABLE)
+    .select('trace')
+    .eq('id', traceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load graph trace: ${error.message}`);
+  }
+
+  return (data?.trace as GraphTrace) || null;
+}
+
+/**
+ * Traces of a session, newest first
+ */
+export async function getGraphTracesBySession(sessionId: string, limit = 20): Promise<GraphTrace[]> {
+  const { data, error } = await supabase
+    .from(TRACES_TABLE)
+    .select('trace')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load graph traces: ${error.message}`);
+  }
+
+  return (data || []).map((row) => row.trace as GraphTrace);
+}
+
+/**
+ * Delete traces older than the retention window (LANGGRAPH_TRACE_RETENTION_DAYS)
+ */
+export async function purgeGraphTraces(
+  retentionDays = Number(process.env.LANGGRAPH_TRACE_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS,
+): Promise<{ deleted: number; before: string }> {
+  const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { count, error } = await supabase
+    .from(TRACES_TABLE)
+    .delete({ count: 'exact' })
+    .lt('created_at', before);
+
+  if (error) {
+    throw new Error(`Failed to purge graph traces: ${error.message}`);
+  }
+
+  return { deleted: count ?? 0, before };
+}
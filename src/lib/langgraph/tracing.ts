@@ -0,0 +1,339 @@
+// src/lib/langgraph/tracing.ts
+// Trace d'execution du graphe Ajnaya : pour chaque noeud, diff du state
+// (avant → sortie), duree, appels LLM, erreurs, et chaque requete Supabase
+// avec sa reponse — de quoi savoir quel agent a nourri le Strategiste de quoi,
+// et rejouer le tour hors ligne (cf. replay.ts).
+//
+// Le contexte de trace suit l'execution via AsyncLocalStorage : les agents
+// n'ont rien a propager, seuls generateur (recordLLMCall) et persistance
+// (trace_id) y font reference.
+//
+// LANGGRAPH_TRACING (opt-in, desactive par defaut) :
+//   off      (defaut) — aucune trace
+//   metadata — noeuds, durees, cles modifiees, appels LLM, requetes Supabase
+//              (table + methodes, sans arguments ni donnees) : rien de personnel
+//   full     — payloads complets (state, donnees Supabase) : requis pour le
+//              rejeu hors ligne, a n'activer que le temps d'un debug
+// Retention : purge des traces au-dela de LANGGRAPH_TRACE_RETENTION_DAYS
+// (POST /api/internal/run-graph-trace-purge).
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { AjnayaStateType } from './state';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TracedLLMCall {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface TracedSupabaseCall {
+  node: string | null;
+  kind: 'from' | 'rpc';
+  /** Table or RPC name */
+  name: string;
+  /** [method, args] in call order, e.g. ['select', ['id']], ['eq', ['id', 'x']] */
+  chain: Array<[string, unknown[]]>;
+  result: { data: unknown; error: unknown; count: number | null };
+  durationMs: number;
+}
+
+export type GraphTracingMode = 'off' | 'metadata' | 'full';
+
+export interface GraphTraceNode {
+  node: string;
+  startedAt: string;
+  durationMs: number;
+  /** State keys changed by the node (kept in metadata mode) */
+  changedKeys: string[];
+  /** Keys written by the node: value before → value returned */
+  diff: Record<string, { before: unknown; after: unknown }>;
+  /** Partial state returned by the node (used to mock it on replay) */
+  output: Record<string, unknown>;
+  llmCalls: TracedLLMCall[];
+  errors: Array<{ agent: string; error: string }>;
+  timedOut: boolean;
+}
+
+export interface GraphTrace {
+  id: string;
+  threadId: string | null;
+  sessionId: string | null;
+  driverId: string | null;
+  prospectId: string | null;
+  channel: string | null;
+  startedAt: string;
+  durationMs: number;
+  /** Update passed to invoke for this turn */
+  input: Record<string, unknown>;
+  /** State seen by the dispatcher (thread resumed + input) — replay starts from it */
+  initialState: Record<string, unknown> | null;
+  routedAgents: string[];
+  nodes: GraphTraceNode[];
+  supabaseCalls: TracedSupabaseCall[];
+  response: string | null;
+  errors: Array<{ agent: string; error: string }>;
+  /** false once stripped to metadata (no state, no Supabase data): not replayable */
+  payloads: boolean;
+  /** Set on traces produced by replay.ts */
+  replayOf?: string;
+}
+
+/** Replay hooks: recorded node outputs + mocked Supabase client */
+export interface TraceReplay {
+  mockOutputs: Map<string, Record<string, unknown>>;
+  supabase: unknown;
+}
+
+interface TraceContext {
+  trace: GraphTrace;
+  node: GraphTraceNode | null;
+  replay: TraceReplay | null;
+}
+
+type AgentFn = (state: AjnayaStateType) => Promise<Partial<AjnayaStateType>>;
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+// Ecritures du checkpointer : inutiles au rejeu, et copie de tout le state
+const UNTRACED_TABLES = new Set(['ajnaya_graph_checkpoints']);
+
+export function getGraphTracingMode(): GraphTracingMode {
+  const mode = process.env.LANGGRAPH_TRACING;
+  if (mode === 'full') return 'full';
+  if (mode === 'metadata' || mode === 'on') return 'metadata';
+  return 'off';
+}
+
+export function isGraphTracingEnabled(): boolean {
+  return getGraphTracingMode() !== 'off';
+}
+
+// ============================================
+// CONTEXT
+// ============================================
+
+export function createGraphTrace(meta: {
+  threadId?: string | null;
+  sessionId?: string | null;
+  driverId?: string | null;
+  prospectId?: string | null;
+  channel?: string | null;
+  input: Record<string, unknown>;
+  replayOf?: string;
+}): GraphTrace {
+  return {
+    id: randomUUID(),
+    threadId: meta.threadId ?? null,
+    sessionId: meta.sessionId ?? null,
+    driverId: meta.driverId ?? null,
+    prospectId: meta.prospectId ?? null,
+    channel: meta.channel ?? null,
+    startedAt: new Date().toISOString(),
+    durationMs: 0,
+    input: toJson(meta.input),
+    initialState: null,
+    routedAgents: [],
+    nodes: [],
+    supabaseCalls: [],
+    response: null,
+    errors: [],
+    payloads: true,
+    ...(meta.replayOf ? { replayOf: meta.replayOf } : {}),
+  };
+}
+
+/**
+ * Run a graph invocation inside a trace; the trace is completed from the final state
+ */
+export async function runWithTrace<T extends Partial<AjnayaStateType>>(
+  trace: GraphTrace,
+  fn: () => Promise<T>,
+  replay: TraceReplay | null = null,
+): Promise<T> {
+  const started = Date.now();
+  try {
+    const result = await storage.run({ trace, node: null, replay }, fn);
+    trace.response = result.response ?? null;
+    trace.routedAgents = result.routedAgents || [];
+    trace.errors = result.errors || [];
+    trace.driverId = trace.driverId || result.driverId || null;
+    trace.prospectId = trace.prospectId || result.prospectId || null;
+    return result;
+  } catch (err) {
+    trace.errors.push({ agent: 'graph', error: (err as Error).message });
+    throw err;
+  } finally {
+    trace.durationMs = Date.now() - started;
+  }
+}
+
+export function getActiveTrace(): GraphTrace | null {
+  return storage.getStore()?.trace || null;
+}
+
+/** Node currently running in this async context (null outside a node) */
+export function getActiveNodeName(): string | null {
+  return storage.getStore()?.node?.node || null;
+}
+
+export function getActiveReplay(): TraceReplay | null {
+  return storage.getStore()?.replay || null;
+}
+
+// ============================================
+// NODES
+// ============================================
+
+/**
+ * Wrap a graph node: timing, state diff, errors. On replay, nodes with a
+ * recorded output return it instead of running (e.g. the LLM generateur).
+ */
+export function traced(name: string, agent: AgentFn): AgentFn {
+  return async (state) => {
+    const ctx = storage.getStore();
+    if (!ctx) return agent(state);
+
+    const node: GraphTraceNode = {
+      node: name,
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      changedKeys: [],
+      diff: {},
+      output: {},
+      llmCalls: [],
+      errors: [],
+      timedOut: false,
+    };
+    ctx.trace.nodes.push(node);
+    if (name === 'dispatcher') ctx.trace.initialState = toJson(state);
+
+    const started = Date.now();
+    const mocked = ctx.replay?.mockOutputs.get(name);
+    const output = mocked
+      ? (mocked as Partial<AjnayaStateType>)
+      : await storage.run({ ...ctx, node }, () => agent(state));
+    node.durationMs = Date.now() - started;
+
+    node.output = toJson(output);
+    node.errors = output.errors || [];
+    node.timedOut = node.errors.some((e) => e.error.startsWith('timeout after'));
+    for (const [key, after] of Object.entries(node.output)) {
+      const before = (state as Record<string, unknown>)[key];
+      if (key === 'errors' || JSON.stringify(before) !== JSON.stringify(after)) {
+        node.diff[key] = { before: toJson(before), after };
+      }
+    }
+    node.changedKeys = Object.keys(node.diff);
+
+    return output;
+  };
+}
+
+// ============================================
+// RECORDERS
+// ============================================
+
+/** Record an LLM call on the current node (no-op outside a trace) */
+export function recordLLMCall(call: TracedLLMCall): void {
+  storage.getStore()?.node?.llmCalls.push(call);
+}
+
+/**
+ * Wrap a Supabase query builder so its resolved result is recorded on the trace.
+ * Builder methods (eq, order, single...) keep the wrapper; awaiting records.
+ */
+export function recordSupabaseQuery<B extends object>(kind: 'from' | 'rpc', name: string, args: unknown[], builder: B): B {
+  const ctx = storage.getStore();
+  if (!ctx || UNTRACED_TABLES.has(name)) return builder;
+
+  const call: TracedSupabaseCall = {
+    node: ctx.node?.node || null,
+    kind,
+    name,
+    chain: kind === 'rpc' ? [['rpc', toJson(args.slice(1))]] : [],
+    result: { data: null, error: null, count: null },
+    durationMs: 0,
+  };
+  const started = Date.now();
+
+  const wrap = (target: any): any =>
+    new Proxy(target, {
+      get(obj, prop, receiver) {
+        if (prop === 'then') {
+          return (onFulfilled?: (v: any) => any, onRejected?: (e: any) => any) =>
+            obj.then((result: any) => {
+              call.durationMs = Date.now() - started;
+              call.result = toJson({
+                data: result?.data ?? null,
+                error: result?.error ?? null,
+                count: result?.count ?? null,
+              });
+              ctx.trace.supabaseCalls.push(call);
+              return onFulfilled ? onFulfilled(result) : result;
+            }, onRejected);
+        }
+
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof value !== 'function' || typeof prop !== 'string') return value;
+
+        return (...methodArgs: unknown[]) => {
+          call.chain.push([prop, toJson(methodArgs)]);
+          const next = value.apply(obj, methodArgs);
+          return next && typeof next === 'object' && typeof next.then === 'function' ? wrap(next) : next;
+        };
+      },
+    });
+
+  return wrap(builder);
+}
+
+// ============================================
+// METADATA
+// ============================================
+
+/**
+ * Copy of a trace without payloads: no input / state / response, node
+ * outputs reduced to the changed keys, Supabase calls reduced to their
+ * target, method names, row count and error message
+ */
+export function toTraceMetadata(trace: GraphTrace): GraphTrace {
+  return {
+    ...trace,
+    input: {},
+    initialState: null,
+    response: null,
+    payloads: false,
+    nodes: trace.nodes.map((n) => ({ ...n, diff: {}, output: {} })),
+    supabaseCalls: trace.supabaseCalls.map((c) => ({
+      ...c,
+      chain: c.chain.map(([method]): [string, unknown[]] => [method, []]),
+      result: {
+        data: null,
+        error: c.result.error ? (c.result.error as { message?: string }).message ?? 'error' : null,
+        count: c.result.count ?? (Array.isArray(c.result.data) ? c.result.data.length : c.result.data ? 1 : 0),
+      },
+    })),
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** JSON-safe copy (drops functions / undefined, Dates → ISO) */
+function toJson<T>(value: T): any {
+  if (value === undefined) return null;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+}
@@ -18,6 +18,16 @@ import { listDocuments, indexDocument, deleteDocument } from '../ai/rag/indexer'
 import { ingestKnowledgeBase, reingestKnowledgeBase } from '../ai/rag/ingestKnowledgeBase';
 import { logAuditAsync, AUDIT_ACTIONS } from '../data/auditLog';
 import { getSupabaseAdmin } from '../helpers/supabase';
+import { listSmsMessages } from '../services/SmsGateway';
+import {
+  importOppositionList,
+  lastOppositionImport,
+  listBlockedSends,
+  listSuppressions,
+  OppositionImportError,
+  removeSuppression,
+  suppressTarget,
+} from '../services/SuppressionService';
 
 const router = Router();
 
@@ -137,6 +147,160 @@ router.get('/outcomes', requireSupport, async (req: AuthenticatedRequest, res: R
   }
 });
 
+// ============================================
+// SMS LEDGER (Admin/Support)
+// ============================================
+
+/**
+ * GET /api/admin/sms
+ * SMS sent for a booking or a phone number, with delivery status
+ */
+router.get('/sms', requireSupport, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { bookingId, phone, limit } = req.query;
+    if (!bookingId && !phone) {
+      return res.status(400).json({ error: 'bookingId or phone is required' });
+    }
+
+    const messages = await listSmsMessages({
+      bookingId: bookingId as string,
+      phone: phone as string,
+      limit: limit ? parseInt(limit as string, 10) : 50,
+    });
+
+    res.json(messages);
+  } catch (err: any) {
+    console.error('[Admin Routes] Query SMS error:', err);
+    res.status(500).json({ error: 'Failed to query SMS messages' });
+  }
+});
+
+// ============================================
+// OUTREACH SUPPRESSIONS (Bloctel, opt-outs)
+// ============================================
+
+/**
+ * POST /api/admin/suppressions/bloctel
+ * Import a Bloctel opposition file ({ content, filename?, replace? })
+ */
+router.post('/suppressions/bloctel', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { content, filename, replace } = req.body || {};
+    if (typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+
+    const result = await importOppositionList(content, {
+      filename: typeof filename === 'string' ? filename : null,
+      replace: replace === true,
+      importedBy: req.userId,
+    });
+
+    logAuditAsync({
+      actorId: req.userId!,
+      actorRole: 'admin',
+      action: AUDIT_ACTIONS.SUPPRESSION_LIST_IMPORTED,
+      targetType: 'suppression_import',
+      targetId: result.importId,
+      details: { filename, imported: result.imported, invalid: result.invalid, removed: result.removed },
+    });
+
+    res.status(201).json(result);
+  } catch (err: any) {
+    if (err instanceof OppositionImportError) return res.status(400).json({ error: err.message });
+    console.error('[Admin Routes] Bloctel import error:', err);
+    res.status(500).json({ error: 'Failed to import opposition list' });
+  }
+});
+
+/**
+ * GET /api/admin/suppressions?target=...
+ * Oppositions for a phone number or an email, and the last Bloctel import
+ */
+router.get('/suppressions', requireSupport, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const target = typeof req.query.target === 'string' ? req.query.target : '';
+    const entries = target ? await listSuppressions(target.includes('@') ? 'email' : 'phone', target) : [];
+    res.json({ entries, lastBloctelImport: await lastOppositionImport() });
+  } catch (err: any) {
+    console.error('[Admin Routes] Query suppressions error:', err);
+    res.status(500).json({ error: 'Failed to query suppressions' });
+  }
+});
+
+/**
+ * POST /api/admin/suppressions
+ * Manually add a phone number or an email ({ target, reason? })
+ */
+router.post('/suppressions', requireSupport, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { target, reason } = req.body || {};
+    if (typeof target !== 'string' || !target.trim()) {
+      return res.status(400).json({ error: 'target is required' });
+    }
+
+    const kind = target.includes('@') ? 'email' : 'phone';
+    if (!(await suppressTarget(kind, target, 'manual', reason))) {
+      return res.status(400).json({ error: `invalid ${kind}` });
+    }
+
+    logAuditAsync({
+      actorId: req.userId!,
+      actorRole: 'support',
+      action: AUDIT_ACTIONS.SUPPRESSION_ADDED,
+      targetType: 'suppression',
+      targetId: target,
+      details: { kind, reason },
+    });
+
+    res.status(201).json({ success: true });
+  } catch (err: any) {
+    console.error('[Admin Routes] Add suppression error:', err);
+    res.status(500).json({ error: 'Failed to add suppression' });
+  }
+});
+
+/**
+ * DELETE /api/admin/suppressions/:id
+ * Remove an opposition entered by mistake
+ */
+router.delete('/suppressions/:id', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await removeSuppression(req.params.id);
+
+    logAuditAsync({
+      actorId: req.userId!,
+      actorRole: 'admin',
+      action: AUDIT_ACTIONS.SUPPRESSION_REMOVED,
+      targetType: 'suppression',
+      targetId: req.params.id,
+    });
+
+    res.json({ success: true });
+  } catch (err: any) {
+    console.error('[Admin Routes] Remove suppression error:', err);
+    res.status(500).json({ error: 'Failed to remove suppression' });
+  }
+});
+
+/**
+ * GET /api/admin/suppressions/blocked?target=...
+ * Outbound sends refused by the suppression check, with the reason
+ */
+router.get('/suppressions/blocked', requireSupport, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { target, limit } = req.query;
+    const blocked = await listBlockedSends({
+      target: target as string,
+      limit: limit ? parseInt(limit as string, 10) : 50,
+    });
+    res.json(blocked);
+  } catch (err: any) {
+    console.error('[Admin Routes] Query blocked sends error:', err);
+    res.status(500).json({ error: 'Failed to query blocked sends' });
+  }
+});
+
 // ============================================
 // RAG DOCUMENTS (Admin only)
 // ============================================
@@ -230,9 +394,13 @@ router.delete('/documents/:id', requireAdmin, async (req: AuthenticatedRequest,
 router.post('/rag/ingest', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const force = req.body?.force === true;
-    console.log(`[Admin] RAG ingestion triggered (force=${force})`);
+    const dryRun = req.body?.dryRun === true;
+    if (force && dryRun) {
+      return res.status(400).json({ error: 'force and dryRun are mutually exclusive' });
+    }
+    console.log(`[Admin] RAG ingestion triggered (force=${force}, dryRun=${dryRun})`);
 
-    const result = force ? await reingestKnowledgeBase() : await ingestKnowledgeBase();
+    const result = force ? await reingestKnowledgeBase() : await ingestKnowledgeBase({ dryRun });
 
     logAuditAsync({
       actorId: req.userId!,
@@ -245,7 +413,11 @@ router.post('/rag/ingest', requireAdmin, async (req: AuthenticatedRequest, res:
 
     res.json({
       success: true,
-      message: force ? 'Réindexation complète terminée' : 'Ingestion terminée',
+      message: force
+        ? 'Réindexation complète terminée'
+        : dryRun
+          ? 'Simulation terminée (aucune écriture)'
+          : 'Ingestion terminée',
       ...result,
     });
   } catch (err: any) {
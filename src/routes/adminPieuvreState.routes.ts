@@ -2,6 +2,7 @@
  * adminPieuvreState.routes.ts — Salle de commande Pieuvre (lecture admin)
  * =======================================================================
  * GET /api/admin/pieuvre-state
+ * GET /api/admin/graph-traces/:sessionId  (traces du graphe LangGraph Ajnaya)
  *
  * Pont backend (chemin A) : les tables-cerveau de la Pieuvre sont
  * service_role-only → l'app (client anon) ne peut PAS les lire directement.
@@ -17,6 +18,7 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getGraphTracesBySession } from '../lib/langgraph/traceStore';
 
 const router = Router();
 
@@ -211,4 +213,25 @@ router.get('/pieuvre-state', requireAdmin, async (_req: Request, res: Response)
   });
 });
 
+// ══════════════════════════════════════════════════════════════════════════
+// GET /api/admin/graph-traces/:sessionId?limit=20
+// Traces d'exécution du graphe Ajnaya pour une session (plus récente d'abord) :
+// diff de state par agent, durées, appels LLM, requêtes Supabase enregistrées.
+// Rejeu hors ligne : npx tsx src/lib/langgraph/replay.ts <trace.json | trace-id>
+// ══════════════════════════════════════════════════════════════════════════
+router.get('/graph-traces/:sessionId', requireAdmin, async (req: Request, res: Response) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+  try {
+    const traces = await getGraphTracesBySession(req.params.sessionId, limit);
+    if (traces.length === 0) {
+      return res.status(404).json({ error: 'Aucune trace pour cette session' });
+    }
+    return res.json({ sessionId: req.params.sessionId, count: traces.length, traces });
+  } catch (err: any) {
+    console.error('[AdminPieuvreState] graph-traces failed:', err?.message);
+    return res.status(500).json({ error: 'Lecture des traces impossible' });
+  }
+});
+
 export default router;
@@ -6,6 +6,7 @@
 
 import { Router, Response } from 'express';
 import { processAIRequest, getQuickRecommendation, completeConversation } from '../ai/aiService';
+import { getLLMProvidersHealth } from '../ai/llm/router';
 import { getDriverContext, refreshDriverFeatures } from '../data/featureStore';
 import { getDriverOutcomes, getOutcomeStats, addOutcomeFeedback } from '../data/outcomes';
 import { getDriverConversations, getDriverConversationStats } from '../data/conversationLog';
@@ -366,10 +367,15 @@ router.get('/health', async (_req, res) => {
     aiBackendStatus = 'unreachable';
   }
 
+  // Circuit breakers of the LLM fallback chain (aiService)
+  const llmProviders = getLLMProvidersHealth();
+  const llmAvailable = llmProviders.some((p) => p.configured && p.breaker.state !== 'open');
+
   res.json({
-    status: 'ok',
+    status: llmAvailable ? 'ok' : 'degraded',
     service: 'ai',
     aiBackend: aiBackendStatus,
+    llmProviders,
     serviceKeyConfigured: !!FOREAS_SERVICE_KEY,
     timestamp: new Date().toISOString(),
   });
@@ -11,7 +11,6 @@
 
 import { Router, Request, Response } from 'express';
 import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import fetch from 'node-fetch';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -25,7 +24,14 @@ import {
   type PieuvreTentacle,
 } from '../lib/pieuvre-client';
 import { getSupabase } from '../lib/supabase';
-import { composeStreamContext, PRICING, SONNET_MODEL } from '../ai/ajnayaStreamBrain';
+import { composeStreamContext } from '../ai/ajnayaStreamBrain';
+import {
+  estimateCost,
+  getAnthropicClient,
+  getOpenAIClient,
+  type LLMCompletionResponse,
+} from '../ai/llm';
+import { fromOpenAIMessages, fromOpenAITools } from '../ai/llm/providers/openaiCompat';
 
 // ═══════════════════════════════════════════════════════════════
 // 🎙️ AUDIO TAGS — strip helper (défense en profondeur)
@@ -298,13 +304,6 @@ router.get('/elevenlabs-quota', async (_req: Request, res: Response) => {
   }
 });
 
-// Client Anthropic pour ElevenLabs custom LLM
-let anthropic: Anthropic | null = null;
-if (CONFIG.ANTHROPIC_API_KEY) {
-  anthropic = new Anthropic({ apiKey: CONFIG.ANTHROPIC_API_KEY });
-  console.log('✅ [AJNAYA] Anthropic configuré (ElevenLabs LLM)');
-}
-
 // ============================================
 // 🤖 ROUTE 0: ELEVENLABS CUSTOM LLM (OpenAI-compatible)
 // POST /api/ajnaya/llm — appelé par ElevenLabs ConvAI
@@ -320,41 +319,25 @@ router.post('/llm', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'messages requis' });
     }
 
-    // Séparer system et messages user/assistant
-    const systemMessages = messages.filter((m: any) => m.role === 'system');
-    const conversationMessages = messages.filter((m: any) => m.role !== 'system');
-    const systemPrompt = systemMessages.map((m: any) => m.content).join('\n\n');
-
     // Choisir le modèle Anthropic
     // ⚠️ Plus de Haiku pour conv : tout fallback en Sonnet 4.6, Opus 4.7 sur opus
-    const claudeModel = model.includes('opus') ? 'claude-opus-4-8' : 'claude-sonnet-5';
-
-    if (!anthropic) {
-      // Fallback OpenAI si Anthropic non configuré
-      if (openai) {
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: messages,
-          temperature: 0.5,
-          max_tokens: 200,
-        });
-        return res.json(completion);
-      }
+    const anthropicLlm = getAnthropicClient();
+    // Fallback OpenAI si Anthropic non configuré
+    const llm = anthropicLlm.isConfigured() ? anthropicLlm : getOpenAIClient();
+    if (!llm.isConfigured()) {
       return res.status(503).json({ error: 'Aucun LLM configuré' });
     }
-
-    // Appel Anthropic
-    const response = await anthropic.messages.create({
-      model: claudeModel,
-      max_tokens: 300,
-      system: systemPrompt || undefined,
-      messages: conversationMessages.map((m: any) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-      })),
+    const llmModel =
+      llm === anthropicLlm ? (model.includes('opus') ? 'claude-opus-4-8' : 'claude-sonnet-5') : 'gpt-4o-mini';
+
+    const response = await llm.complete({
+      model: llmModel,
+      maxTokens: llm === anthropicLlm ? 300 : 200,
+      temperature: llm === anthropicLlm ? undefined : 0.5,
+      messages: fromOpenAIMessages(messages),
     });
 
-    const content = response.content[0]?.type === 'text' ? response.content[0].text : '';
+    const content = response.content;
     console.log(
       `✅ [AJNAYA LLM] Réponse (${Date.now() - startTime}ms): "${content.substring(0, 80)}..."`,
     );
@@ -364,18 +347,18 @@ router.post('/llm', async (req: Request, res: Response) => {
       id: `chatcmpl-${Date.now()}`,
       object: 'chat.completion',
       created: Math.floor(Date.now() / 1000),
-      model: claudeModel,
+      model: response.model,
       choices: [
         {
           index: 0,
           message: { role: 'assistant', content },
-          finish_reason: response.stop_reason === 'end_turn' ? 'stop' : response.stop_reason,
+          finish_reason: response.finishReason,
         },
       ],
       usage: {
-        prompt_tokens: response.usage.input_tokens,
-        completion_tokens: response.usage.output_tokens,
-        total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+        prompt_tokens: response.usage.promptTokens,
+        completion_tokens: response.usage.completionTokens,
+        total_tokens: response.usage.totalTokens,
       },
     });
   } catch (error: any) {
@@ -511,45 +494,26 @@ Tu fais découvrir l'app FOREAS à un nouveau chauffeur, en parlant, comme une v
 - CAPTURE (remplace les formulaires) : dès que le chauffeur donne son PRÉNOM ("moi c'est Karim"), appelle set_first_name — en même temps que ta phrase d'accueil, c'est invisible pour lui. Dès qu'il exprime son OBJECTIF (gagner plus / moins rouler / les deux), appelle set_objective (MORE_MONEY/LESS_WORK/BOTH). Une seule fois chacun. Si tu ne connais pas encore son prénom, demande-le naturellement au début. Avant la fin du tour, assure-toi d'avoir capté prénom + objectif.
 - FIN DE L'APPEL (~3 min) : quand tu reçois un signal de fin de temps (message technique type "[fin de temps]" / "[wrap]" / "conclus maintenant"), conclus chaleureusement en 1-2 phrases : dis que tu dois filer prendre d'autres appels, que tu as adoré, et qu'on continue tranquille DANS LE CHAT (l'onglet Ajnaya) quand il veut. Ne coupe jamais sèchement. N'appelle AUCUN outil sur ce tour de conclusion.`;
 
-function oaiToolsToAnthropic(tools: any[]): any[] {
-  if (!Array.isArray(tools)) return [];
-  return tools
-    .filter((t) => t?.function?.name)
-    .map((t) => ({
-      name: t.function.name,
-      description: t.function.description || '',
-      input_schema: t.function.parameters || { type: 'object', properties: {} },
-    }));
-}
-
 async function handleTavusLlm(req: Request, res: Response) {
   const t0 = Date.now();
   try {
-    if (!anthropic) return res.status(503).json({ error: 'Anthropic non configuré' });
+    const llm = getAnthropicClient();
+    if (!llm.isConfigured()) return res.status(503).json({ error: 'Anthropic non configuré' });
     const { messages = [], model = 'claude-sonnet-5', tools } = req.body || {};
-    const systemFromReq = messages
-      .filter((m: any) => m.role === 'system')
-      .map((m: any) => m.content)
-      .join('\n\n');
-    const convo = messages.filter((m: any) => m.role !== 'system');
     // Nos tools de tour ont priorité ; on accepte aussi ceux passés par Tavus.
-    const anthTools = oaiToolsToAnthropic(
-      Array.isArray(tools) && tools.length ? tools : TAVUS_TOUR_TOOLS,
-    );
+    const tourTools = fromOpenAITools(Array.isArray(tools) && tools.length ? tools : TAVUS_TOUR_TOOLS);
     const claudeModel = String(model).includes('opus') ? 'claude-opus-4-8' : 'claude-sonnet-5';
-    const resp = await anthropic.messages.create({
+    const resp = await llm.complete({
       model: claudeModel,
-      max_tokens: 320,
-      system: `${TAVUS_TOUR_SYSTEM}${systemFromReq ? '\n\n' + systemFromReq : ''}`,
-      tools: anthTools,
-      messages: convo.map((m: any) => ({ role: m.role, content: String(m.content ?? '') })),
+      maxTokens: 320,
+      messages: [{ role: 'system', content: TAVUS_TOUR_SYSTEM }, ...fromOpenAIMessages(messages)],
+      tools: tourTools,
     });
-    // Map Anthropic → OpenAI
-    const textBlock = resp.content.find((b: any) => b.type === 'text') as any;
-    const toolBlocks = resp.content.filter((b: any) => b.type === 'tool_use') as any[];
+    // Réponse unifiée → OpenAI
+    const toolBlocks = resp.toolCalls || [];
     const message: any = {
       role: 'assistant',
-      content: textBlock ? splitAudioTags(textBlock.text).clean : '',
+      content: resp.content ? splitAudioTags(resp.content).clean : '',
     };
     // Validation stricte : on JETTE tout tool_call malformé (arg requis absent / hors enum)
     // pour ne JAMAIS envoyer un ordre vide (ex. navigate({})) à l'app.
@@ -569,8 +533,8 @@ async function handleTavusLlm(req: Request, res: Response) {
       'parrainage',
       'push_alerts',
     ];
-    const validTools = toolBlocks.filter((b: any) => {
-      const a = b.input || {};
+    const validTools = toolBlocks.filter((b) => {
+      const a: any = b.arguments;
       if (b.name === 'navigate') return SCREENS.includes(a.screen);
       if (b.name === 'open') return FEATURES.includes(a.feature);
       if (b.name === 'highlight') return typeof a.bloc === 'string' && a.bloc.trim().length > 0;
@@ -585,10 +549,10 @@ async function handleTavusLlm(req: Request, res: Response) {
       return false;
     });
     if (validTools.length) {
-      message.tool_calls = validTools.map((b: any) => ({
+      message.tool_calls = validTools.map((b) => ({
         id: b.id,
         type: 'function',
-        function: { name: b.name, arguments: JSON.stringify(b.input || {}) },
+        function: { name: b.name, arguments: JSON.stringify(b.arguments) },
       }));
     }
     // Filet anti-silence : l'avatar ne doit JAMAIS rester muet ni bouger l'écran sans parler.
@@ -621,12 +585,12 @@ async function handleTavusLlm(req: Request, res: Response) {
       id: `chatcmpl-${Date.now()}`,
       object: 'chat.completion',
       created: Math.floor(Date.now() / 1000),
-      model: claudeModel,
+      model: resp.model,
       choices: [{ index: 0, message, finish_reason: toolBlocks.length ? 'tool_calls' : 'stop' }],
       usage: {
-        prompt_tokens: resp.usage.input_tokens,
-        completion_tokens: resp.usage.output_tokens,
-        total_tokens: resp.usage.input_tokens + resp.usage.output_tokens,
+        prompt_tokens: resp.usage.promptTokens,
+        completion_tokens: resp.usage.completionTokens,
+        total_tokens: resp.usage.totalTokens,
       },
     });
   } catch (e: any) {
@@ -770,7 +734,8 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
     });
   }
 
-  if (!anthropic) {
+  const llm = getAnthropicClient();
+  if (!llm.isConfigured()) {
     return res.status(503).json({ error: 'anthropic_not_configured' });
   }
 
@@ -794,8 +759,7 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
   let clientAborted = false;
   let ttftMs: number | null = null;
   let keepaliveTimer: ReturnType<typeof setInterval> | null = null;
-  let anthropicStream: ReturnType<NonNullable<typeof anthropic>['messages']['stream']> | null =
-    null;
+  const streamAbort = new AbortController();
 
   const writeEvent = (event: string, data: unknown) => {
     if (finished) return;
@@ -825,11 +789,7 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
   res.on('close', () => {
     if (!finished) {
       clientAborted = true;
-      try {
-        anthropicStream?.abort();
-      } catch {
-        /* déjà terminé */
-      }
+      streamAbort.abort();
       endTerminal();
     }
   });
@@ -991,30 +951,31 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
       if (chunk) writeEvent('tts_chunk', { text: chunk });
     };
 
-    anthropicStream = anthropic.messages.stream({
+    let finalResponse: LLMCompletionResponse | null = null;
+    for await (const chunk of llm.stream({
       model: brain.model,
-      max_tokens: brain.max_tokens,
+      maxTokens: brain.max_tokens,
       temperature: brain.temperature,
-      system: [
-        { type: 'text', text: brain.systemStatic, cache_control: { type: 'ephemeral' } },
+      messages: [
+        { role: 'system', content: brain.systemStatic, cache: true },
         {
-          type: 'text',
-          text: brain.systemDynamic.trim()
+          role: 'system',
+          content: brain.systemDynamic.trim()
             ? brain.systemDynamic
             : 'Contexte runtime: aucun signal pour le moment.',
         },
+        ...brain.messages,
       ],
-      messages: brain.messages,
-    });
-
-    anthropicStream.on('text', (delta: string) => {
-      if (clientAborted || finished) return;
-      rawAccum += delta;
-      flushClean(false);
-      flushTts(false);
-    });
-
-    const finalMessage = await anthropicStream.finalMessage();
+      signal: streamAbort.signal,
+    })) {
+      if (chunk.type === 'done') {
+        finalResponse = chunk.response;
+      } else if (chunk.type === 'text' && !clientAborted && !finished) {
+        rawAccum += chunk.text;
+        flushClean(false);
+        flushTts(false);
+      }
+    }
 
     if (clientAborted) return;
 
@@ -1034,13 +995,11 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
     const expectsVoiceResponse =
       replyTrim.endsWith('?') || replyTrim.endsWith('?»') || replyTrim.endsWith('?"');
 
-    const usage = finalMessage?.usage;
-    const inputTokens = usage?.input_tokens || 0;
-    const outputTokens = usage?.output_tokens || 0;
+    const inputTokens = finalResponse?.usage.promptTokens || 0;
+    const outputTokens = finalResponse?.usage.completionTokens || 0;
     // Audit Fable 5 : coût calculé au tarif SONNET quel que soit le modèle → surestimé ~3x sur
     // le trafic Haiku (l'essentiel des messages). Tarif réel par modèle.
-    const price = PRICING[brain.model] || PRICING[SONNET_MODEL];
-    const costUsd = inputTokens * price.in + outputTokens * price.out;
+    const costUsd = estimateCost(brain.model, inputTokens, outputTokens).totalCost;
     const latencyMs = Date.now() - startTime;
 
     writeEvent('tts', { tts_text: ttsText, audio_url: null });
@@ -1169,7 +1128,7 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
       );
   } catch (err: any) {
     if (clientAborted) {
-      // Abandon volontaire du client (stream.abort() déjà appelé) — rien à émettre.
+      // Abandon volontaire du client (streamAbort.abort() déjà appelé) — rien à émettre.
       endTerminal();
       return;
     }
@@ -1362,10 +1321,10 @@ router.post('/chat', async (req: Request, res: Response) => {
     // ============================================
     if (USE_LANGGRAPH) {
       try {
-        const { getAjnayaGraph } = await import('../lib/langgraph/graph.js');
-        const graph = getAjnayaGraph();
+        const { invokeAjnayaGraph } = await import('../lib/langgraph/graph.js');
 
-        const result = await graph.invoke({
+        // Thread repris (session > chauffeur > prospect) : state du tour precedent conserve
+        const result = await invokeAjnayaGraph({
           rawMessage: message.trim(),
           channel: context?.channel || 'widget_site',
           prospectId: context?.prospect_id || null,
@@ -1374,7 +1333,8 @@ router.post('/chat', async (req: Request, res: Response) => {
         });
 
         console.log(
-          `✅ [AJNAYA] LangGraph response (${Date.now() - startTime}ms) errors=${result.errors?.length || 0}`,
+          `✅ [AJNAYA] LangGraph response (${Date.now() - startTime}ms) errors=${result.errors?.length || 0} ` +
+            `agents=${result.routedAgents?.join(',') || 'none'}`,
         );
 
         // 🎙️ Strip audio tags du texte LangGraph (le LLM peut en avoir injecté
@@ -1412,6 +1372,7 @@ router.post('/chat', async (req: Request, res: Response) => {
             sentiment: result.sentiment,
             strategy: result.strategy?.tone,
             errors: result.errors?.length || 0,
+            agents: result.routedAgents,
           },
           response_time_ms: Date.now() - startTime,
         });
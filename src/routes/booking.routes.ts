@@ -3,15 +3,49 @@
  * ════════════════════════════════════
  * Endpoints concrets pour le systeme de reservation client.
  *
- * POST /api/bookings              → Nouvelle reservation (formulaire public)
- * GET  /api/bookings/:id          → Detail d'une reservation
- * GET  /api/bookings/driver/:did  → Reservations d'un chauffeur
+ * POST /api/bookings/quote        → Devis (widget public, même moteur que le recalcul)
+ * GET  /api/bookings/availability/:siteSlug?date=&duration= → Creneaux libres (formulaire public)
+ * GET  /api/bookings/calendar/:token.ics → Flux iCal du chauffeur (abonnement agenda)
+ * POST /api/bookings              → Nouvelle reservation (formulaire public) — arrêts, retour lié,
+ *                                    carte du paiement site chauffeur (payment_intent_id)
+ * GET  /api/bookings/:id          → Detail d'une reservation (chauffeur Bearer ou portal_token)
+ * GET  /api/bookings/driver/:did  → Reservations d'un chauffeur (Bearer, allers avec leur retour)
  * POST /api/bookings/:id/confirm  → Chauffeur confirme
- * POST /api/bookings/:id/cancel   → Annulation
- * POST /api/bookings/process-reminders → CRON: envoie les rappels pending
+ * POST /api/bookings/:id/cancel   → Annulation (politique d'annulation si initiée par le client)
+ * POST /api/bookings/:id/no-show  → Chauffeur : client absent (frais prélevés)
+ * POST /api/bookings/process-reminders → CRON (legacy) : exécute un lot de la file de jobs
+ *
+ * Rappels SMS/push, demande d'avis et relance J+7 passent par job_queue
+ * (JobQueueService) : clés d'idempotence `booking:<id>:...`, annulées avec la réservation.
+ *
+ * Multi-arrêts / aller-retour (BookingTripService) : `stops` = étapes ordonnées,
+ * `return_scheduled_at` = retour lié, réservé comme une seconde course (trajet
+ * inversé, son créneau, ses rappels, son prix).
  */
 
 import { Router, Request, Response } from 'express';
+import { normalizeDriverTariff } from '../services/DriverPricingEngine.js';
+import { quoteRoutedTrip } from '../services/TripQuoteService.js';
+import type { GeoPoint, TripRequest } from '../services/DriverPricingEngine.js';
+import { buildDriverIcsFeed, checkBookingSlot, getAvailableSlots } from '../services/DriverCalendarService.js';
+import { buildBookingIcs } from '../services/ICalendarService.js';
+import type { SlotRejection } from '../services/DriverCalendarService.js';
+import { enqueueJob, PermanentJobError, runJobBatch } from '../services/JobQueueService.js';
+import { cancelBooking, canMarkNoShow, markNoShow } from '../services/BookingFeeService.js';
+import { sendDriverPush } from '../lib/expoPush.js';
+import { sendSms } from '../services/SmsGateway.js';
+import { portalUrl, verifyPortalToken } from '../services/BookingPortalService.js';
+import {
+  attachReturnLegs,
+  MAX_STOPS,
+  parseStops,
+  stopPoints,
+  tripLabel,
+  tripSummary,
+} from '../services/BookingTripService.js';
+import type { BookingStop, BookingTripOptions } from '../services/BookingTripService.js';
+import type { DriverTariff } from '../services/DriverPricingEngine.js';
+import type { TripQuote } from '../services/TripQuoteService.js';
 
 const router = Router();
 
@@ -40,88 +74,20 @@ async function getResend() {
   return resendClient;
 }
 
-// ─── SMS (Bird API + MessageBird REST fallback, same as OTP) ─────────────────
-
-const BIRD_API_KEY = () => process.env.BIRD_API_KEY || process.env.MESSAGEBIRD_API_KEY || '';
-const BIRD_WORKSPACE_ID = () => process.env.BIRD_WORKSPACE_ID || 'default';
-const BIRD_CHANNEL_ID = () => process.env.BIRD_CHANNEL_ID || '';
-
-async function sendSMS(phone: string, message: string): Promise<boolean> {
-  const apiKey = BIRD_API_KEY();
-  if (!apiKey) {
-    console.warn('[SMS] No API key configured — skipping SMS to', phone);
-    return false;
-  }
-
-  const channelId = BIRD_CHANNEL_ID();
-  const workspaceId = BIRD_WORKSPACE_ID();
-
-  // Strategy 1: Bird API (if channel configured)
-  if (channelId) {
-    try {
-      const resp = await fetch(
-        `https://api.bird.com/workspaces/${workspaceId}/channels/${channelId}/messages`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            receiver: {
-              contacts: [{ identifierValue: phone, identifierKey: 'phonenumber' }],
-            },
-            body: { type: 'text', text: { text: message } },
-          }),
-        },
-      );
-
-      if (resp.ok) {
-        console.log('[SMS] ✅ Sent via Bird to', phone.substring(0, 6) + '***');
-        return true;
-      }
-      const err = await resp.text();
-      console.error('[SMS] Bird error:', resp.status, err, '→ trying MessageBird fallback');
-    } catch (err: any) {
-      console.error('[SMS] Bird failed:', err.message, '→ trying MessageBird fallback');
-    }
-  }
-
-  // Strategy 2: MessageBird REST API fallback (no channel needed)
-  try {
-    const resp = await fetch('https://rest.messagebird.com/messages', {
-      method: 'POST',
-      headers: {
-        Authorization: `AccessKey ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        originator: 'FOREAS',
-        recipients: [phone],
-        body: message,
-      }),
-    });
+// ─── Email via Resend ────────────────────────────────────────────────────────
 
-    if (resp.ok) {
-      console.log('[SMS] ✅ Sent via MessageBird to', phone.substring(0, 6) + '***');
-      return true;
-    }
-    const err = await resp.text();
-    console.error('[SMS] MessageBird error:', resp.status, err);
-    return false;
-  } catch (err: any) {
-    console.error('[SMS] All providers failed:', err.message);
-    return false;
-  }
+interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
 }
 
-// ─── Email via Resend ────────────────────────────────────────────────────────
-
 async function sendEmail(
   to: string,
   subject: string,
   html: string,
   text: string,
+  attachments?: EmailAttachment[],
 ): Promise<boolean> {
   try {
     const resend = await getResend();
@@ -134,6 +100,15 @@ async function sendEmail(
       subject,
       html,
       text,
+      ...(attachments?.length
+        ? {
+            attachments: attachments.map((a) => ({
+              filename: a.filename,
+              content: Buffer.from(a.content, 'utf-8'),
+              contentType: a.contentType,
+            })),
+          }
+        : {}),
     });
 
     if (error) {
@@ -155,7 +130,7 @@ function formatPrice(amount: number): string {
   return `${amount.toFixed(2).replace('.', ',')} \u20AC`;
 }
 
-function formatDateTime(iso: string): string {
+export function formatDateTime(iso: string): string {
   const d = new Date(iso);
   return d.toLocaleDateString('fr-FR', {
     weekday: 'long',
@@ -166,31 +141,321 @@ function formatDateTime(iso: string): string {
   });
 }
 
-function clientConfirmEmail(b: any): { subject: string; html: string; text: string } {
+/** Lignes « Arret n » entre départ et arrivée (multi-arrêts) */
+function stopRowsHtml(b: any): string {
+  return (b.stops || [])
+    .map((s: BookingStop, i: number) => `<div class="row"><span class="lbl">Arret ${i + 1}</span><span class="val">${s.address}</span></div>`)
+    .join('');
+}
+
+function stopLinesText(b: any): string {
+  return (b.stops || []).map((s: BookingStop, i: number) => `Arret ${i + 1}: ${s.address}\n`).join('');
+}
+
+/** Carte « Retour » d'un aller-retour */
+function returnLegHtml(r: any | null): string {
+  if (!r) return '';
+  return `<div class="card"><h2 class="title" style="font-size:16px">\u21A9\uFE0F Retour</h2><div class="row"><span class="lbl">Date</span><span class="val">${formatDateTime(r.scheduled_at)}</span></div><div class="row"><span class="lbl">Depart</span><span class="val">${r.pickup_address}</span></div>${stopRowsHtml(r)}<div class="row"><span class="lbl">Arrivee</span><span class="val">${r.dropoff_address}</span></div><div class="row" style="border:none"><span class="lbl">Prix</span><span class="val">${formatPrice(r.estimated_price)}</span></div></div>`;
+}
+
+function returnLegText(r: any | null): string {
+  return r ? `\n\nRetour: ${formatDateTime(r.scheduled_at)}\n${tripSummary(r)}\nPrix retour: ${formatPrice(r.estimated_price)}` : '';
+}
+
+function clientConfirmEmail(
+  b: any,
+  driverName?: string,
+  returnLeg?: any | null,
+): { subject: string; html: string; text: string; attachments: EmailAttachment[] } {
   const dateStr = formatDateTime(b.scheduled_at);
-  const priceStr = formatPrice(b.estimated_price);
+  const priceStr = formatPrice(b.estimated_price + (returnLeg?.estimated_price || 0));
+  const manageUrl = portalUrl(b);
 
   return {
     subject: `\u2705 Reservation confirmee \u2022 ${dateStr}`,
-    html: `<!DOCTYPE html><html lang="fr"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"><style>body{margin:0;padding:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;background:#0A0A14;color:#FFF}.c{max-width:520px;margin:0 auto;padding:32px 20px}.h{text-align:center;margin-bottom:32px}.logo{font-size:24px;font-weight:800;letter-spacing:2px;color:#8C52FF}.card{background:rgba(255,255,255,0.04);border:1px solid rgba(140,82,255,0.2);border-radius:16px;padding:24px;margin-bottom:20px}.title{font-size:20px;font-weight:700;margin:0 0 16px}.row{display:flex;justify-content:space-between;padding:10px 0;border-bottom:1px solid rgba(255,255,255,0.06);font-size:14px}.lbl{color:rgba(255,255,255,0.5)}.val{color:#FFF;font-weight:600;text-align:right}.price{font-size:28px;font-weight:800;color:#8C52FF;text-align:center;margin:16px 0}.ft{text-align:center;padding-top:24px;border-top:1px solid rgba(255,255,255,0.06);margin-top:32px;font-size:11px;color:rgba(255,255,255,0.2)}</style></head><body><div class="c"><div class="h"><div class="logo">FOREAS</div><div style="font-size:11px;color:rgba(255,255,255,0.3);margin-top:4px;letter-spacing:3px;text-transform:uppercase">Votre chauffeur VTC</div></div><div class="card"><h2 class="title">\u2705 Reservation confirmee</h2><p style="color:rgba(255,255,255,0.6);font-size:14px">${b.site_slug} vous attend.</p><div class="price">${priceStr}</div><p style="text-align:center;font-size:11px;color:rgba(255,255,255,0.3)">Prix estime</p></div><div class="card"><div class="row"><span class="lbl">Depart</span><span class="val">${b.pickup_address}</span></div><div class="row"><span class="lbl">Arrivee</span><span class="val">${b.dropoff_address}</span></div><div class="row"><span class="lbl">Date</span><span class="val">${dateStr}</span></div><div class="row"><span class="lbl">Distance</span><span class="val">~${b.estimated_distance_km.toFixed(1)} km</span></div><div class="row" style="border:none"><span class="lbl">Duree</span><span class="val">~${b.estimated_duration_min} min</span></div></div><div style="background:rgba(140,82,255,0.08);border:1px solid rgba(140,82,255,0.15);border-radius:12px;padding:16px;margin:16px 0"><p style="margin:6px 0;font-size:13px;color:rgba(255,255,255,0.6)">\uD83D\uDCF1 Rappels automatiques :</p><p style="margin:6px 0;font-size:13px;color:rgba(255,255,255,0.6)">\u2022 SMS de rappel 2h avant</p><p style="margin:6px 0;font-size:13px;color:rgba(255,255,255,0.6)">\u2022 SMS 15 min avant le depart</p></div><div class="ft"><p>FOREAS Labs \u00A9 2026</p></div></div></body></html>`,
-    text: `FOREAS - Reservation confirmee\n\nDepart: ${b.pickup_address}\nArrivee: ${b.dropoff_address}\nDate: ${dateStr}\nPrix estime: ${priceStr}\n\nVous recevrez un SMS de rappel 2h et 15min avant.`,
+    html: `<!DOCTYPE html><html lang="fr"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"><style>body{margin:0;padding:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;background:#0A0A14;color:#FFF}.c{max-width:520px;margin:0 auto;padding:32px 20px}.h{text-align:center;margin-bottom:32px}.logo{font-size:24px;font-weight:800;letter-spacing:2px;color:#8C52FF}.card{background:rgba(255,255,255,0.04);border:1px solid rgba(140,82,255,0.2);border-radius:16px;padding:24px;margin-bottom:20px}.title{font-size:20px;font-weight:700;margin:0 0 16px}.row{display:flex;justify-content:space-between;padding:10px 0;border-bottom:1px solid rgba(255,255,255,0.06);font-size:14px}.lbl{color:rgba(255,255,255,0.5)}.val{color:#FFF;font-weight:600;text-align:right}.price{font-size:28px;font-weight:800;color:#8C52FF;text-align:center;margin:16px 0}.ft{text-align:center;padding-top:24px;border-top:1px solid rgba(255,255,255,0.06);margin-top:32px;font-size:11px;color:rgba(255,255,255,0.2)}</style></head><body><div class="c"><div class="h"><div class="logo">FOREAS</div><div style="font-size:11px;color:rgba(255,255,255,0.3);margin-top:4px;letter-spacing:3px;text-transform:uppercase">Votre chauffeur VTC</div></div><div class="card"><h2 class="title">\u2705 Reservation confirmee</h2><p style="color:rgba(255,255,255,0.6);font-size:14px">${b.site_slug} vous attend.</p><div class="price">${priceStr}</div><p style="text-align:center;font-size:11px;color:rgba(255,255,255,0.3)">Prix estime${returnLeg ? ' (aller-retour)' : ''}</p></div><div class="card"><div class="row"><span class="lbl">Depart</span><span class="val">${b.pickup_address}</span></div>${stopRowsHtml(b)}<div class="row"><span class="lbl">Arrivee</span><span class="val">${b.dropoff_address}</span></div><div class="row"><span class="lbl">Date</span><span class="val">${dateStr}</span></div><div class="row"><span class="lbl">Distance</span><span class="val">~${b.estimated_distance_km.toFixed(1)} km</span></div><div class="row" style="border:none"><span class="lbl">Duree</span><span class="val">~${b.estimated_duration_min} min</span></div></div>${returnLegHtml(returnLeg)}<div style="background:rgba(140,82,255,0.08);border:1px solid rgba(140,82,255,0.15);border-radius:12px;padding:16px;margin:16px 0"><p style="margin:6px 0;font-size:13px;color:rgba(255,255,255,0.6)">\uD83D\uDCF1 Rappels automatiques :</p><p style="margin:6px 0;font-size:13px;color:rgba(255,255,255,0.6)">\u2022 SMS de rappel 2h avant</p><p style="margin:6px 0;font-size:13px;color:rgba(255,255,255,0.6)">\u2022 SMS 15 min avant le depart</p></div>${manageUrl ? `<div style="text-align:center;margin:24px 0"><a href="${manageUrl}" style="display:inline-block;background:#8C52FF;color:#FFF;text-decoration:none;font-weight:700;font-size:14px;padding:12px 24px;border-radius:10px">Gerer ma reservation</a><p style="font-size:11px;color:rgba(255,255,255,0.3);margin-top:8px">Modifier l'horaire, annuler, payer l'acompte</p></div>` : ''}<div class="ft"><p>FOREAS Labs \u00A9 2026</p></div></div></body></html>`,
+    text: `FOREAS - Reservation confirmee\n\nDepart: ${b.pickup_address}\n${stopLinesText(b)}Arrivee: ${b.dropoff_address}\nDate: ${dateStr}\nPrix estime: ${priceStr}${returnLegText(returnLeg)}\n\nVous recevrez un SMS de rappel 2h et 15min avant.${manageUrl ? `\n\nGerer ma reservation : ${manageUrl}` : ''}`,
+    // Ajout à l'agenda du client en un clic
+    attachments: [
+      { filename: 'reservation.ics', content: buildBookingIcs(b, driverName, returnLeg), contentType: 'text/calendar; charset=utf-8; method=PUBLISH' },
+    ],
   };
 }
 
 function driverNotifyEmail(
   b: any,
   driverName: string,
+  returnLeg?: any | null,
 ): { subject: string; html: string; text: string } {
   const dateStr = formatDateTime(b.scheduled_at);
-  const priceStr = formatPrice(b.estimated_price);
+  const priceStr = formatPrice(b.estimated_price + (returnLeg?.estimated_price || 0));
 
   return {
     subject: `\uD83D\uDE97 Nouvelle reservation \u2022 ${dateStr} \u2022 ${priceStr}`,
-    html: `<!DOCTYPE html><html lang="fr"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"><style>body{margin:0;padding:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;background:#0A0A14;color:#FFF}.c{max-width:520px;margin:0 auto;padding:32px 20px}.h{text-align:center;margin-bottom:32px}.logo{font-size:24px;font-weight:800;letter-spacing:2px;color:#8C52FF}.card{background:rgba(255,255,255,0.04);border:1px solid rgba(140,82,255,0.2);border-radius:16px;padding:24px;margin-bottom:20px}.title{font-size:20px;font-weight:700;margin:0 0 16px}.row{display:flex;justify-content:space-between;padding:10px 0;border-bottom:1px solid rgba(255,255,255,0.06);font-size:14px}.lbl{color:rgba(255,255,255,0.5)}.val{color:#FFF;font-weight:600;text-align:right}.price{font-size:28px;font-weight:800;color:#8C52FF;text-align:center;margin:16px 0}.ft{text-align:center;padding-top:24px;border-top:1px solid rgba(255,255,255,0.06);margin-top:32px;font-size:11px;color:rgba(255,255,255,0.2)}</style></head><body><div class="c"><div class="h"><div class="logo">FOREAS</div></div><div class="card"><h2 class="title">\uD83D\uDE97 Nouvelle reservation</h2><p style="color:rgba(255,255,255,0.6);font-size:14px">${driverName}, nouvelle demande de course.</p><div class="price">${priceStr}</div></div><div class="card"><div class="row"><span class="lbl">Client</span><span class="val">${b.client_name || 'Non renseigne'}</span></div><div class="row"><span class="lbl">Tel</span><span class="val"><a href="tel:${b.client_phone}" style="color:#8C52FF">${b.client_phone}</a></span></div><div class="row"><span class="lbl">Email</span><span class="val">${b.client_email}</span></div><div class="row"><span class="lbl">Depart</span><span class="val">${b.pickup_address}</span></div><div class="row"><span class="lbl">Arrivee</span><span class="val">${b.dropoff_address}</span></div><div class="row"><span class="lbl">Date</span><span class="val">${dateStr}</span></div><div class="row" style="border:none"><span class="lbl">Distance</span><span class="val">~${b.estimated_distance_km.toFixed(1)} km</span></div>${b.client_note ? `<div class="row" style="border:none"><span class="lbl">Message</span><span class="val">${b.client_note}</span></div>` : ''}</div><div class="ft"><p>FOREAS Labs \u00A9 2026</p></div></div></body></html>`,
-    text: `FOREAS - Nouvelle reservation\n\nClient: ${b.client_name || 'Non renseigne'}\nTel: ${b.client_phone}\nEmail: ${b.client_email}\nDepart: ${b.pickup_address}\nArrivee: ${b.dropoff_address}\nDate: ${dateStr}\nPrix: ${priceStr}\n\nContactez le client pour confirmer.`,
+    html: `<!DOCTYPE html><html lang="fr"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"><style>body{margin:0;padding:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;background:#0A0A14;color:#FFF}.c{max-width:520px;margin:0 auto;padding:32px 20px}.h{text-align:center;margin-bottom:32px}.logo{font-size:24px;font-weight:800;letter-spacing:2px;color:#8C52FF}.card{background:rgba(255,255,255,0.04);border:1px solid rgba(140,82,255,0.2);border-radius:16px;padding:24px;margin-bottom:20px}.title{font-size:20px;font-weight:700;margin:0 0 16px}.row{display:flex;justify-content:space-between;padding:10px 0;border-bottom:1px solid rgba(255,255,255,0.06);font-size:14px}.lbl{color:rgba(255,255,255,0.5)}.val{color:#FFF;font-weight:600;text-align:right}.price{font-size:28px;font-weight:800;color:#8C52FF;text-align:center;margin:16px 0}.ft{text-align:center;padding-top:24px;border-top:1px solid rgba(255,255,255,0.06);margin-top:32px;font-size:11px;color:rgba(255,255,255,0.2)}</style></head><body><div class="c"><div class="h"><div class="logo">FOREAS</div></div><div class="card"><h2 class="title">\uD83D\uDE97 Nouvelle reservation</h2><p style="color:rgba(255,255,255,0.6);font-size:14px">${driverName}, nouvelle demande de course.</p><div class="price">${priceStr}</div></div><div class="card"><div class="row"><span class="lbl">Client</span><span class="val">${b.client_name || 'Non renseigne'}</span></div><div class="row"><span class="lbl">Tel</span><span class="val"><a href="tel:${b.client_phone}" style="color:#8C52FF">${b.client_phone}</a></span></div><div class="row"><span class="lbl">Email</span><span class="val">${b.client_email}</span></div><div class="row"><span class="lbl">Depart</span><span class="val">${b.pickup_address}</span></div>${stopRowsHtml(b)}<div class="row"><span class="lbl">Arrivee</span><span class="val">${b.dropoff_address}</span></div><div class="row"><span class="lbl">Date</span><span class="val">${dateStr}</span></div><div class="row" style="border:none"><span class="lbl">Distance</span><span class="val">~${b.estimated_distance_km.toFixed(1)} km</span></div>${b.client_note ? `<div class="row" style="border:none"><span class="lbl">Message</span><span class="val">${b.client_note}</span></div>` : ''}</div>${returnLegHtml(returnLeg)}<div class="ft"><p>FOREAS Labs \u00A9 2026</p></div></div></body></html>`,
+    text: `FOREAS - Nouvelle reservation\n\nClient: ${b.client_name || 'Non renseigne'}\nTel: ${b.client_phone}\nEmail: ${b.client_email}\nDepart: ${b.pickup_address}\n${stopLinesText(b)}Arrivee: ${b.dropoff_address}\nDate: ${dateStr}\nPrix: ${priceStr}${returnLegText(returnLeg)}\n\nContactez le client pour confirmer.`,
+  };
+}
+
+// ─── Devis (TripQuoteService → DriverPricingEngine) ─────────────────────────
+
+function parsePoint(lat: unknown, lng: unknown): GeoPoint | null {
+  const la = Number(lat);
+  const ln = Number(lng);
+  // 0/0 = coordonnées non renseignées par le formulaire
+  if (!Number.isFinite(la) || !Number.isFinite(ln) || (la === 0 && ln === 0)) return null;
+  if (Math.abs(la) > 90 || Math.abs(ln) > 180) return null;
+  return { lat: la, lng: ln };
+}
+
+/** Coordonnées + options de trajet (camelCase widget ou snake_case) */
+function parseTripOptions(b: any): Omit<TripRequest, 'distanceKm' | 'durationMin' | 'scheduledAt'> {
+  const count = (v: unknown, max: number) => Math.min(Math.max(Math.floor(Number(v) || 0), 0), max);
+  return {
+    pickup: parsePoint(b.pickup_lat ?? b.pickupLat, b.pickup_lng ?? b.pickupLng),
+    dropoff: parsePoint(b.dropoff_lat ?? b.dropoffLat, b.dropoff_lng ?? b.dropoffLng),
+    luggage: count(b.luggage, 20),
+    childSeats: count(b.child_seats ?? b.childSeats, 4),
+    waitingMin: count(b.waiting_min ?? b.waitingMin, 240),
+    roundTrip: (b.round_trip ?? b.roundTrip) === true,
   };
 }
 
+/**
+ * Promo première course du site : décidée ici, jamais sur le first_ride du
+ * widget — aucune réservation antérieure sur ce site avec ce téléphone ou cet
+ * email (bookings et driver_bookings du formulaire v3). Sans contact (devis
+ * avant saisie) : aperçu avec promo, la réservation tranche.
+ */
+export async function isFirstRide(
+  supa: any,
+  siteSlug: string,
+  contact: { phone?: string | null; email?: string | null },
+): Promise<boolean> {
+  const phone = contact.phone?.trim();
+  const email = contact.email?.trim().toLowerCase();
+  if (!phone && !email) return true;
+
+  const count = (table: string, slugCol: string) => supa.from(table).select('id', { count: 'exact', head: true }).eq(slugCol, siteSlug);
+  const likeEmail = email?.replace(/[\\%_]/g, '\\$&');
+  const checks = [
+    ...(phone ? [count('bookings', 'site_slug').eq('client_phone', phone), count('driver_bookings', 'slug').eq('passenger_phone', phone)] : []),
+    ...(likeEmail
+      ? [count('bookings', 'site_slug').ilike('client_email', likeEmail), count('driver_bookings', 'slug').ilike('passenger_email', likeEmail)]
+      : []),
+  ];
+  const results: Array<{ count: number | null; error: unknown }> = await Promise.all(checks);
+  // Lecture en échec → pas de promo
+  return results.every((r) => !r.error && (r.count ?? 0) === 0);
+}
+
+/** Chiffres significatifs d'un numéro (06… / +336… comparables) */
+function phoneKey(phone: string): string {
+  return String(phone || '').replace(/\D/g, '').slice(-9);
+}
+
+/**
+ * Carte enregistrée au paiement du site chauffeur (driver_bookings, POST
+ * /api/driver-site/booking) : rattachée à la réservation si le paiement est
+ * celui de ce site et de ce téléphone, et pas déjà utilisé par un autre aller.
+ * BookingFeeService la prélève pour les frais comme la carte de l'acompte.
+ */
+async function driverSiteCard(
+  supa: any,
+  siteSlug: string,
+  clientPhone: string,
+  paymentIntentId: string,
+): Promise<{ driver_booking_id: string; stripe_customer_id: string; stripe_payment_method_id: string } | null> {
+  const { data: paid } = await supa
+    .from('driver_bookings')
+    .select('id, slug, passenger_phone, stripe_customer_id, stripe_payment_method_id')
+    .eq('payment_intent_id', paymentIntentId)
+    .maybeSingle();
+  if (!paid?.stripe_customer_id || !paid.stripe_payment_method_id) return null;
+  if (paid.slug !== siteSlug || phoneKey(paid.passenger_phone) !== phoneKey(clientPhone)) return null;
+
+  const { count } = await supa
+    .from('bookings')
+    .select('id', { count: 'exact', head: true })
+    .eq('driver_booking_id', paid.id)
+    .neq('trip_leg', 'return');
+  if ((count ?? 0) > 0) return null;
+  return {
+    driver_booking_id: paid.id,
+    stripe_customer_id: paid.stripe_customer_id,
+    stripe_payment_method_id: paid.stripe_payment_method_id,
+  };
+}
+
+type TripShape = { stops: BookingStop[]; returnAt: Date | null };
+
+/** Arrêts + retour lié envoyés par le widget, ou erreur 400 */
+function parseTripShape(b: any, scheduledAt: Date): TripShape | { error: string; code: string } {
+  const stops = parseStops(b.stops);
+  if (!stops) return { error: `Arrêts invalides (${MAX_STOPS} maximum, adresse et coordonnées)`, code: 'invalid_stops' };
+
+  const raw = b.return_scheduled_at || b.returnScheduledAt;
+  if (!raw) return { stops, returnAt: null };
+  const returnAt = new Date(raw);
+  if (isNaN(returnAt.getTime()) || returnAt.getTime() <= scheduledAt.getTime()) {
+    return { error: "Date de retour invalide (après l'aller)", code: 'invalid_return' };
+  }
+  return { stops, returnAt };
+}
+
+/**
+ * Devis de l'aller (promo première course) et du retour lié éventuel : trajet
+ * inversé, prix à son heure. Remise aller-retour du chauffeur sur chacun.
+ */
+async function quoteLegs(
+  tariff: DriverTariff,
+  trip: Omit<TripRequest, 'distanceKm' | 'durationMin' | 'scheduledAt'> & { pickup: GeoPoint; dropoff: GeoPoint },
+  shape: TripShape,
+  scheduledAt: Date,
+  promoPercent: number,
+): Promise<{ quote: TripQuote; returnQuote: TripQuote | null }> {
+  const linkedRoundTrip = shape.returnAt != null;
+  // Retour réservé à part : l'aller ne facture pas de « retour » en plus
+  const base = { ...trip, roundTrip: trip.roundTrip && !linkedRoundTrip };
+  const stops = stopPoints(shape.stops);
+  const [quote, returnQuote] = await Promise.all([
+    quoteRoutedTrip(tariff, { ...base, stops, scheduledAt: scheduledAt.toISOString() }, { promoPercent, linkedRoundTrip }),
+    shape.returnAt
+      ? quoteRoutedTrip(
+          tariff,
+          {
+            ...base,
+            pickup: trip.dropoff,
+            dropoff: trip.pickup,
+            stops: [...stops].reverse(),
+            scheduledAt: shape.returnAt.toISOString(),
+          },
+          { linkedRoundTrip },
+        )
+      : null,
+  ]);
+  return { quote, returnQuote };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/bookings/quote — Devis public (widget du site chauffeur)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+router.post('/quote', async (req: Request, res: Response) => {
+  const b = req.body || {};
+  const site_slug = b.site_slug || b.siteSlug;
+  const scheduled_at = b.scheduled_at || b.scheduledAt || new Date().toISOString();
+
+  if (!site_slug) return res.status(400).json({ error: 'siteSlug requis' });
+  if (isNaN(new Date(scheduled_at).getTime())) return res.status(400).json({ error: 'Date invalide' });
+
+  // Distance / durée calculées ici depuis les coordonnées — jamais celles du widget
+  const trip = parseTripOptions(b);
+  if (!trip.pickup || !trip.dropoff) {
+    return res.status(400).json({ error: 'Coordonnées départ / arrivée requises', code: 'coordinates_required' });
+  }
+  const shape = parseTripShape(b, new Date(scheduled_at));
+  if ('error' in shape) return res.status(400).json(shape);
+
+  try {
+    const supa = await getSupa();
+    const { data: site } = await supa
+      .from('driver_sites')
+      .select('pricing, promo_discount_percent')
+      .eq('slug', site_slug)
+      .eq('is_active', true)
+      .single();
+
+    if (!site) return res.status(404).json({ error: 'Site chauffeur introuvable' });
+
+    const tariff = normalizeDriverTariff(site.pricing);
+    if (!tariff) {
+      return res.status(409).json({ error: 'Tarifs du chauffeur non configurés', code: 'driver_pricing_missing' });
+    }
+
+    const { quote, returnQuote } = await quoteLegs(
+      tariff,
+      { ...trip, pickup: trip.pickup, dropoff: trip.dropoff },
+      shape,
+      new Date(scheduled_at),
+      (await isFirstRide(supa, site_slug, { phone: b.client_phone || b.clientPhone, email: b.client_email || b.clientEmail }))
+        ? site.promo_discount_percent || 0
+        : 0,
+    );
+    if (!returnQuote) return res.json(quote);
+    return res.json({
+      ...quote,
+      return_quote: returnQuote,
+      round_trip_total: Math.round((quote.total + returnQuote.total) * 100) / 100,
+    });
+  } catch (err: any) {
+    console.error('[Booking] Quote error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/bookings/availability/:siteSlug — Creneaux libres d'une journee
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const SLOT_ERRORS: Record<SlotRejection, string> = {
+  too_soon: 'Ce créneau est trop proche — le chauffeur demande plus de délai.',
+  outside_hours: 'Le chauffeur ne travaille pas sur ce créneau.',
+  blackout: "Le chauffeur est indisponible à cette date.",
+  overlap: 'Le chauffeur a déjà une course sur ce créneau.',
+};
+
+router.get('/availability/:siteSlug', async (req: Request, res: Response) => {
+  const date = String(req.query.date || '');
+  const duration = Math.min(Math.max(Number(req.query.duration) || 60, 5), 720);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    return res.status(400).json({ error: 'date requise (YYYY-MM-DD)' });
+  }
+
+  try {
+    const supa = await getSupa();
+    const { data: site } = await supa
+      .from('driver_sites')
+      .select('driver_id')
+      .eq('slug', req.params.siteSlug)
+      .eq('is_active', true)
+      .single();
+
+    if (!site) return res.status(404).json({ error: 'Site chauffeur introuvable' });
+
+    const slots = await getAvailableSlots(site.driver_id, date, duration);
+    return res.json({ date, duration_min: duration, slots });
+  } catch (err: any) {
+    console.error('[Booking] Availability error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/bookings/calendar/:token.ics — Flux iCal (Google / Apple Calendar)
+// ═══════════════════════════════════════════════════════════════════════════════
+// Public mais protégé par un jeton secret (GET /api/driver/calendar/feed) ;
+// confirmations et annulations y sont relues à chaque rafraîchissement.
+
+router.get('/calendar/:token.ics', async (req: Request, res: Response) => {
+  const token = String(req.params.token || '');
+  if (!/^[A-Za-z0-9_-]{20,64}$/.test(token)) return res.status(404).send('Not found');
+
+  try {
+    const ics = await buildDriverIcsFeed(token);
+    if (!ics) return res.status(404).send('Not found');
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="foreas-reservations.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.send(ics);
+  } catch (err: any) {
+    console.error('[Booking] iCal feed error:', err.message);
+    return res.status(500).send('Calendar unavailable');
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // POST /api/bookings — Nouvelle reservation (appele depuis le formulaire public)
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -205,18 +470,14 @@ router.post('/', async (req: Request, res: Response) => {
   const client_email = b.client_email || b.clientEmail;
   const client_note = b.client_note || b.clientNote || '';
   const pickup_address = b.pickup_address || b.pickupAddress;
-  const pickup_lat = b.pickup_lat ?? b.pickupLat ?? 0;
-  const pickup_lng = b.pickup_lng ?? b.pickupLng ?? 0;
   const dropoff_address = b.dropoff_address || b.dropoffAddress;
-  const dropoff_lat = b.dropoff_lat ?? b.dropoffLat ?? 0;
-  const dropoff_lng = b.dropoff_lng ?? b.dropoffLng ?? 0;
-  const estimated_distance_km = b.estimated_distance_km ?? b.estimatedDistanceKm ?? 0;
-  const estimated_duration_min = b.estimated_duration_min ?? b.estimatedDurationMin ?? 0;
   // ⚠️ client_proposed_price : valeur envoyée par le widget/client. NE PAS l'insérer
   // tel quel dans la DB — recalcul server-side obligatoire (cf. fix 30/04 trou
   // sécurité : un widget cassé ou malveillant pouvait envoyer estimated_price=1).
   const client_proposed_price = b.estimated_price ?? b.estimatedPrice ?? 0;
   const scheduled_at = b.scheduled_at || b.scheduledAt;
+  // Paiement du site chauffeur (facultatif) : sa carte couvre les frais éventuels
+  const payment_intent_id = b.payment_intent_id || b.paymentIntentId;
 
   // Validation
   if (
@@ -245,13 +506,23 @@ router.post('/', async (req: Request, res: Response) => {
     return res.status(400).json({ error: "Date invalide (minimum 30min a l'avance)" });
   }
 
+  // Distance / durée / prix recalculés depuis les coordonnées (TripQuoteService) :
+  // estimated_distance_km / estimated_duration_min du widget sont ignorés.
+  const trip = parseTripOptions(b);
+  if (!trip.pickup || !trip.dropoff) {
+    return res.status(400).json({ error: 'Coordonnées départ / arrivée requises', code: 'coordinates_required' });
+  }
+  const shape = parseTripShape(b, scheduledDate);
+  if ('error' in shape) return res.status(400).json(shape);
+  const { stops, returnAt } = shape;
+
   try {
     const supa = await getSupa();
 
     // 1. Trouver le site, le chauffeur ET ses tarifs (pricing JSONB)
     const { data: site, error: siteErr } = await supa
       .from('driver_sites')
-      .select('id, driver_id, display_name, pricing')
+      .select('id, driver_id, display_name, pricing, promo_discount_percent')
       .eq('slug', site_slug)
       .eq('is_active', true)
       .single();
@@ -262,26 +533,13 @@ router.post('/', async (req: Request, res: Response) => {
 
     // 1.bis — RECALCUL SERVER-SIDE DU PRIX (sécurité — fix 30/04)
     // Le client peut proposer un prix mais c'est UNIQUEMENT le tarif chauffeur
-    // qui fait foi. On normalise les 2 conventions JSONB observées en prod
-    // (camelCase {baseRate, perKmRate, ...} et snake_case {base_fare, per_km, ...}).
-    const pricing = (site.pricing as Record<string, any>) || {};
-    const baseFare = Number(pricing.base_fare ?? pricing.baseRate ?? pricing.base ?? 0);
-    const ratePerKm = Number(pricing.per_km ?? pricing.perKmRate ?? pricing.km_rate ?? 0);
-    const ratePerMin = Number(
-      pricing.per_minute ?? pricing.perMinuteRate ?? pricing.waitingRate ?? 0,
-    );
-    const minimumFare = Number(pricing.minimum ?? pricing.minimumFare ?? pricing.minimum_fare ?? 0);
-
-    const hasValidPricing = baseFare > 0 || ratePerKm > 0;
-    const calculated =
-      baseFare + estimated_distance_km * ratePerKm + estimated_duration_min * ratePerMin;
-    const serverPrice = hasValidPricing
-      ? Math.max(Math.round(calculated * 100) / 100, minimumFare)
-      : 0;
+    // appliqué à l'itinéraire calculé ici qui fait foi — même chemin que le
+    // devis du widget (TripQuoteService).
+    const tariff = normalizeDriverTariff(site.pricing);
 
     // Si le chauffeur n'a pas configuré ses tarifs → on REFUSE la réservation
     // (mieux que d'accepter un prix bidon — incite le chauffeur à compléter)
-    if (!hasValidPricing) {
+    if (!tariff) {
       console.warn(
         `[Booking] ❌ Tarifs absents pour ${site_slug} (driver=${site.driver_id}) — booking refusé`,
       );
@@ -292,10 +550,32 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    const promoPercent = (await isFirstRide(supa, site_slug, { phone: client_phone, email: client_email }))
+      ? site.promo_discount_percent || 0
+      : 0;
+    const { quote, returnQuote } = await quoteLegs(
+      tariff,
+      { ...trip, pickup: trip.pickup, dropoff: trip.dropoff },
+      shape,
+      scheduledDate,
+      promoPercent,
+    );
+    const tripOptions: BookingTripOptions = {
+      luggage: trip.luggage ?? 0,
+      childSeats: trip.childSeats ?? 0,
+      waitingMin: trip.waitingMin ?? 0,
+      // Retour réservé à part : pas de « retour » facturé sur l'aller (quoteLegs)
+      roundTrip: trip.roundTrip === true && !returnAt,
+      promoPercent,
+    };
+    const serverPrice = quote.total;
+
     // Si le client proposait un prix très différent (>10% écart) → on logge
     // l'incident pour audit (potentiel bug widget ou tentative de fraude).
     const priceMismatch =
-      client_proposed_price > 0 ? Math.abs(client_proposed_price - serverPrice) / serverPrice : 0;
+      client_proposed_price > 0 && serverPrice > 0
+        ? Math.abs(client_proposed_price - serverPrice) / serverPrice
+        : 0;
     if (priceMismatch > 0.1) {
       console.warn(
         `[Booking] ⚠️ Prix client (${client_proposed_price}€) ≠ prix server (${serverPrice}€) — écart ${(priceMismatch * 100).toFixed(0)}% — site=${site_slug}`,
@@ -304,6 +584,43 @@ router.post('/', async (req: Request, res: Response) => {
 
     const estimated_price = serverPrice; // ✅ source de vérité = tarifs chauffeur
 
+    // 1.ter — Calendrier chauffeur : horaires, indisponibilités, courses déjà prises
+    const slot = await checkBookingSlot(site.driver_id, scheduledDate.toISOString(), quote.durationMin);
+    if (slot.ok === false) {
+      console.warn(`[Booking] ❌ Créneau refusé (${slot.reason}) — site=${site_slug} at=${scheduled_at}`);
+      return res.status(409).json({ error: SLOT_ERRORS[slot.reason], code: 'slot_unavailable', reason: slot.reason });
+    }
+
+    // 1.quater — Retour lié : après la fin de l'aller, sur un créneau libre lui aussi
+    let returnSlot: { blockedUntil: string } | null = null;
+    if (returnAt) {
+      if (returnAt.getTime() < Date.parse(slot.blockedUntil)) {
+        return res.status(409).json({
+          error: `Le retour doit partir après la fin de l'aller (~${quote.durationMin} min de trajet).`,
+          code: 'return_too_early',
+        });
+      }
+      const check = await checkBookingSlot(site.driver_id, returnAt.toISOString(), returnQuote.durationMin);
+      if (check.ok === false) {
+        console.warn(`[Booking] ❌ Créneau retour refusé (${check.reason}) — site=${site_slug} at=${returnAt.toISOString()}`);
+        return res.status(409).json({
+          error: `Retour : ${SLOT_ERRORS[check.reason]}`,
+          code: 'slot_unavailable',
+          reason: check.reason,
+          leg: 'return',
+        });
+      }
+      returnSlot = check;
+    }
+
+    let card: Awaited<ReturnType<typeof driverSiteCard>> = null;
+    if (payment_intent_id) {
+      card = await driverSiteCard(supa, site_slug, client_phone, String(payment_intent_id));
+      if (!card) {
+        return res.status(400).json({ error: 'Paiement introuvable pour cette réservation', code: 'payment_not_linked' });
+      }
+    }
+
     // 2. Creer la reservation avec le prix RECALCULÉ
     const { data: booking, error: bookingErr } = await supa
       .from('bookings')
@@ -315,24 +632,85 @@ router.post('/', async (req: Request, res: Response) => {
         client_email,
         client_note: client_note || null,
         pickup_address,
-        pickup_lat: pickup_lat || 0,
-        pickup_lng: pickup_lng || 0,
+        pickup_lat: trip.pickup.lat,
+        pickup_lng: trip.pickup.lng,
         dropoff_address,
-        dropoff_lat: dropoff_lat || 0,
-        dropoff_lng: dropoff_lng || 0,
-        estimated_distance_km: estimated_distance_km || 0,
-        estimated_duration_min: estimated_duration_min || 0,
+        dropoff_lat: trip.dropoff.lat,
+        dropoff_lng: trip.dropoff.lng,
+        stops,
+        trip_leg: returnAt ? 'outbound' : 'single',
+        estimated_distance_km: quote.distanceKm,
+        estimated_duration_min: quote.durationMin,
         estimated_price,
+        price_breakdown: quote,
+        trip_options: tripOptions,
         scheduled_at: scheduledDate.toISOString(),
+        blocked_until: slot.blockedUntil,
         status: 'pending',
+        ...card,
       })
       .select()
       .single();
 
+    // 23P01 = bookings_no_overlap : une autre réservation a pris le créneau entre-temps
+    if (bookingErr?.code === '23P01') {
+      return res.status(409).json({ error: SLOT_ERRORS.overlap, code: 'slot_unavailable', reason: 'overlap' });
+    }
     if (bookingErr) throw new Error(bookingErr.message);
 
+    // 2.ter — Retour : trajet inversé, lié à l'aller. Échec → l'aller est retiré
+    // (le client a demandé un aller-retour, pas un aller seul).
+    let returnBooking: any = null;
+    if (returnAt) {
+      const { data: ret, error: returnErr } = await supa
+        .from('bookings')
+        .insert({
+          driver_id: site.driver_id,
+          site_slug,
+          client_name: client_name || null,
+          client_phone,
+          client_email,
+          client_note: client_note || null,
+          pickup_address: dropoff_address,
+          pickup_lat: trip.dropoff.lat,
+          pickup_lng: trip.dropoff.lng,
+          dropoff_address: pickup_address,
+          dropoff_lat: trip.pickup.lat,
+          dropoff_lng: trip.pickup.lng,
+          stops: [...stops].reverse(),
+          trip_leg: 'return',
+          outbound_booking_id: booking.id,
+          estimated_distance_km: returnQuote.distanceKm,
+          estimated_duration_min: returnQuote.durationMin,
+          estimated_price: returnQuote.total,
+          price_breakdown: returnQuote,
+          trip_options: { ...tripOptions, promoPercent: 0 },
+          scheduled_at: returnAt.toISOString(),
+          blocked_until: returnSlot.blockedUntil,
+          status: 'pending',
+          ...card,
+        })
+        .select()
+        .single();
+
+      if (returnErr) {
+        await supa.from('bookings').delete().eq('id', booking.id);
+        if (returnErr.code === '23P01') {
+          return res.status(409).json({
+            error: `Retour : ${SLOT_ERRORS.overlap}`,
+            code: 'slot_unavailable',
+            reason: 'overlap',
+            leg: 'return',
+          });
+        }
+        throw new Error(returnErr.message);
+      }
+      returnBooking = ret;
+    }
+
     console.log(
-      `[Booking] Created ${booking.id} for ${site_slug} — ${formatPrice(estimated_price)}`,
+      `[Booking] Created ${booking.id} for ${site_slug} — ${formatPrice(estimated_price)}` +
+        (returnBooking ? ` + retour ${returnBooking.id} (${formatPrice(returnBooking.estimated_price)})` : ''),
     );
 
     // 2bis. Message in-app CHAUFFEUR (fluidité tunnel client direct, 2026-07-02).
@@ -347,7 +725,10 @@ router.post('/', async (req: Request, res: Response) => {
         content:
           `🚗 Nouvelle réservation — ${client_name || 'Un client'} · ` +
           `${formatDateTime(scheduledDate.toISOString())} · ${formatPrice(estimated_price)}\n` +
-          `Départ : ${pickup_address}\n` +
+          `Trajet : ${tripSummary(booking)}\n` +
+          (returnBooking
+            ? `Retour : ${formatDateTime(returnBooking.scheduled_at)} · ${formatPrice(returnBooking.estimated_price)}\n`
+            : '') +
           `Confirme vite — un client qui attend est un client qui rappelle Uber.`,
         metadata: {
           booking_id: booking.id,
@@ -356,6 +737,8 @@ router.post('/', async (req: Request, res: Response) => {
           scheduled_at: scheduledDate.toISOString(),
           estimated_price,
           site_slug,
+          stops_count: stops.length,
+          return_booking_id: returnBooking?.id ?? null,
           // 11/07 — audit notifs : PieuvreInboxService (client) lit metadata.route
           // pour router le tap ; ce champ manquait, la notif "nouvelle réservation"
           // n'allait nulle part malgré son urgence (client qui attend). Onglet
@@ -367,34 +750,9 @@ router.post('/', async (req: Request, res: Response) => {
         if (inboxErr) console.error('[Booking] Inbox chauffeur KO:', inboxErr.message);
       });
 
-    // 3. Planifier les rappels SMS
-    const reminders = [
-      {
-        booking_id: booking.id,
-        reminder_type: 'client_sms_2h',
-        scheduled_for: new Date(scheduledDate.getTime() - 2 * 60 * 60 * 1000).toISOString(),
-      },
-      {
-        booking_id: booking.id,
-        reminder_type: 'client_sms_15m',
-        scheduled_for: new Date(scheduledDate.getTime() - 15 * 60 * 1000).toISOString(),
-      },
-      {
-        booking_id: booking.id,
-        reminder_type: 'driver_push_1h',
-        scheduled_for: new Date(scheduledDate.getTime() - 1 * 60 * 60 * 1000).toISOString(),
-      },
-      {
-        booking_id: booking.id,
-        reminder_type: 'driver_ajnaya_1h',
-        scheduled_for: new Date(scheduledDate.getTime() - 1 * 60 * 60 * 1000).toISOString(),
-      },
-    ].filter((r) => new Date(r.scheduled_for).getTime() > Date.now()); // Ne pas planifier si deja passe
-
-    if (reminders.length > 0) {
-      await supa.from('scheduled_reminders').insert(reminders);
-      console.log(`[Booking] ${reminders.length} reminders scheduled`);
-    }
+    // 3. Planifier les rappels SMS / push (chaque trajet a les siens)
+    const remindersScheduled =
+      (await scheduleBookingReminders(booking)) + (returnBooking ? await scheduleBookingReminders(returnBooking) : 0);
 
     // 4. Envoyer les notifications INSTANTANEES (email client + email chauffeur)
     // En parallele, non-bloquant
@@ -416,9 +774,9 @@ router.post('/', async (req: Request, res: Response) => {
     const emailPromises: Promise<void>[] = [];
 
     // Email confirmation client
-    const clientMail = clientConfirmEmail(booking);
+    const clientMail = clientConfirmEmail(booking, driverName, returnBooking);
     emailPromises.push(
-      sendEmail(client_email, clientMail.subject, clientMail.html, clientMail.text).then((ok) => {
+      sendEmail(client_email, clientMail.subject, clientMail.html, clientMail.text, clientMail.attachments).then((ok) => {
         notifResults.clientEmail = ok;
         if (ok) {
           supa
@@ -438,7 +796,7 @@ router.post('/', async (req: Request, res: Response) => {
 
     // Email notification chauffeur
     if (driverEmail) {
-      const driverMail = driverNotifyEmail(booking, driverName);
+      const driverMail = driverNotifyEmail(booking, driverName, returnBooking);
       emailPromises.push(
         sendEmail(driverEmail, driverMail.subject, driverMail.html, driverMail.text).then((ok) => {
           notifResults.driverEmail = ok;
@@ -471,7 +829,13 @@ router.post('/', async (req: Request, res: Response) => {
       status: 'pending',
       scheduled_at: booking.scheduled_at,
       notifications: notifResults,
-      reminders_scheduled: reminders.length,
+      reminders_scheduled: remindersScheduled,
+      stops_count: stops.length,
+      return_booking_id: returnBooking?.id ?? null,
+      return_scheduled_at: returnBooking?.scheduled_at ?? null,
+      total_price: Math.round((estimated_price + (returnBooking?.estimated_price || 0)) * 100) / 100,
+      // Portail client : suivre, déplacer, annuler, payer l'acompte
+      portal_url: portalUrl(booking),
     });
   } catch (err: any) {
     console.error('[Booking] Create error:', err.message);
@@ -483,15 +847,29 @@ router.post('/', async (req: Request, res: Response) => {
 // GET /api/bookings/driver/:driverId — Reservations d'un chauffeur
 // ═══════════════════════════════════════════════════════════════════════════════
 
+// Colonnes lisibles par le chauffeur / le client : jamais les identifiants Stripe
+// (client, carte, PaymentIntents) ni le détail d'erreur de prélèvement.
+const BOOKING_READ_COLUMNS =
+  'id, driver_id, site_slug, status, scheduled_at, blocked_until, client_name, client_phone, client_email, client_note, ' +
+  'pickup_address, pickup_lat, pickup_lng, dropoff_address, dropoff_lat, dropoff_lng, stops, trip_leg, outbound_booking_id, ' +
+  'estimated_distance_km, estimated_duration_min, estimated_price, price_breakdown, trip_options, ' +
+  'reschedule_count, rescheduled_at, previous_scheduled_at, confirmed_at, cancelled_at, cancelled_by, cancellation_reason, ' +
+  'cancellation_fee, no_show_at, fee_kind, fee_status, deposit_amount, deposit_paid_at, original_driver_id, created_at';
+
+// Bearer du chauffeur obligatoire, limité à ses propres réservations.
 router.get('/driver/:driverId', async (req: Request, res: Response) => {
   const { driverId } = req.params;
   const status = req.query.status as string | undefined;
 
   try {
+    const authedId = await driverFromRequest(req);
+    if (!authedId) return res.status(401).json({ error: 'Non authentifié' });
+    if (authedId !== driverId) return res.status(403).json({ error: 'Accès refusé' });
+
     const supa = await getSupa();
     let query = supa
       .from('bookings')
-      .select('*')
+      .select(BOOKING_READ_COLUMNS)
       .eq('driver_id', driverId)
       .order('scheduled_at', { ascending: false })
       .limit(50);
@@ -501,7 +879,21 @@ router.get('/driver/:driverId', async (req: Request, res: Response) => {
     const { data, error } = await query;
     if (error) throw new Error(error.message);
 
-    return res.json({ bookings: data || [] });
+    // Allers dont le retour n'est pas dans la page (filtre statut, limite)
+    const bookings = data || [];
+    const orphanOutbounds = bookings
+      .filter((bk: any) => bk.trip_leg === 'outbound' && !bookings.some((r: any) => r.outbound_booking_id === bk.id))
+      .map((bk: any) => bk.id);
+    let returnLegs: any[] = [];
+    if (orphanOutbounds.length > 0) {
+      const { data: legs } = await supa
+        .from('bookings')
+        .select('id, status, scheduled_at, estimated_price, trip_leg, outbound_booking_id')
+        .in('outbound_booking_id', orphanOutbounds);
+      returnLegs = legs || [];
+    }
+
+    return res.json({ bookings: attachReturnLegs(bookings, returnLegs) });
   } catch (err: any) {
     return res.status(500).json({ error: err.message });
   }
@@ -511,12 +903,22 @@ router.get('/driver/:driverId', async (req: Request, res: Response) => {
 // GET /api/bookings/:id — Detail d'une reservation
 // ═══════════════════════════════════════════════════════════════════════════════
 
+// Chauffeur de la course (Bearer) ou client avec le lien signé (?portal_token=).
 router.get('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
+    const driverId = await driverFromRequest(req);
+    const portalBookingId = req.query.portal_token ? verifyPortalToken(String(req.query.portal_token)) : null;
+    if (!driverId && portalBookingId !== id) {
+      return res.status(401).json({ error: 'Authentification requise (chauffeur ou lien de réservation)' });
+    }
+
     const supa = await getSupa();
-    const { data, error } = await supa.from('bookings').select('*').eq('id', id).single();
+    const { data, error } = await supa.from('bookings').select(BOOKING_READ_COLUMNS).eq('id', id).maybeSingle();
     if (error || !data) return res.status(404).json({ error: 'Reservation introuvable' });
+    if (data.driver_id !== driverId && portalBookingId !== data.id) {
+      return res.status(404).json({ error: 'Reservation introuvable' });
+    }
     return res.json({ booking: data });
   } catch (err: any) {
     return res.status(500).json({ error: err.message });
@@ -543,7 +945,20 @@ router.post('/:id/confirm', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Reservation non trouvee ou deja traitee' });
     }
 
-    console.log(`[Booking] Confirmed ${id}`);
+    // Aller-retour : confirmer l'aller confirme aussi le retour en attente
+    let returnLeg: any = null;
+    if (booking.trip_leg === 'outbound') {
+      const { data: ret } = await supa
+        .from('bookings')
+        .update({ status: 'confirmed', confirmed_at: new Date().toISOString() })
+        .eq('outbound_booking_id', id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+      returnLeg = ret;
+    }
+
+    console.log(`[Booking] Confirmed ${id}${returnLeg ? ` + retour ${returnLeg.id}` : ''}`);
 
     // Pont WhatsApp client ↔ chauffeur (fluidité, 2026-07-02) : à la confirmation,
     // le client reçoit le lien wa.me du chauffeur → conversation directe en 1 tap.
@@ -552,10 +967,12 @@ router.post('/:id/confirm', async (req: Request, res: Response) => {
     let driverFirstName = 'Votre chauffeur';
     try {
       const [{ data: drv }, { data: siteRow }] = await Promise.all([
-        supa.from('drivers').select('phone').eq('id', booking.driver_id).single(),
+        supa.from('drivers').select('phone, first_name').eq('id', booking.driver_id).single(),
         supa.from('driver_sites').select('display_name').eq('slug', booking.site_slug).single(),
       ]);
       if (siteRow?.display_name) driverFirstName = siteRow.display_name.split(' ')[0];
+      // Course sous-traitée (SubcontractService) : le site est celui de l'apporteur
+      if (booking.original_driver_id && drv?.first_name) driverFirstName = drv.first_name;
       const rawPhone = String(drv?.phone || '').replace(/\D/g, '');
       if (rawPhone.length >= 9) {
         const intl = rawPhone.startsWith('0') ? `33${rawPhone.slice(1)}` : rawPhone;
@@ -569,12 +986,29 @@ router.post('/:id/confirm', async (req: Request, res: Response) => {
     }
 
     // SMS de confirmation au client (+ lien WhatsApp si téléphone chauffeur connu)
-    sendSMS(
+    const manageUrl = portalUrl(booking);
+    sendSms(
       booking.client_phone,
-      `FOREAS : Reservation du ${formatDateTime(booking.scheduled_at)} confirmee par ${driverFirstName} ! Depart: ${booking.pickup_address}.${waLink}`,
+      `FOREAS : Reservation du ${formatDateTime(booking.scheduled_at)} confirmee par ${driverFirstName} ! Depart: ${booking.pickup_address}.${returnLeg ? ` Retour le ${formatDateTime(returnLeg.scheduled_at)}.` : ''}${waLink}${manageUrl ? ` Gerer : ${manageUrl}` : ''}`,
+      { purpose: 'booking_confirmation', bookingId: booking.id, driverId: booking.driver_id },
     ).catch(() => {});
 
-    return res.json({ success: true, booking });
+    // Après la course : demande d'avis (+3h) puis relance fidélité (J+7) — handlers dans index.ts.
+    // Aller-retour : une seule demande, portée par l'aller, envoyée après le retour.
+    const lastLeg = returnLeg || booking;
+    const rideAt = Date.parse(lastLeg.scheduled_at);
+    Promise.all([
+      enqueueJob('review.request', { booking_id: booking.id }, {
+        runAt: new Date(rideAt + 3 * 3600 * 1000),
+        idempotencyKey: bookingJobKey(booking, 'review_request'),
+      }),
+      enqueueJob('booking.rebook_j7', { booking_id: lastLeg.id }, {
+        runAt: new Date(rideAt + 7 * 86400 * 1000),
+        idempotencyKey: bookingJobKey(lastLeg, 'rebook_j7'),
+      }),
+    ]).catch((e: any) => console.error('[Booking] Post-ride jobs KO:', e.message));
+
+    return res.json({ success: true, booking, return_booking: returnLeg });
   } catch (err: any) {
     return res.status(500).json({ error: err.message });
   }
@@ -583,227 +1017,249 @@ router.post('/:id/confirm', async (req: Request, res: Response) => {
 // ═══════════════════════════════════════════════════════════════════════════════
 // POST /api/bookings/:id/cancel — Annulation
 // ═══════════════════════════════════════════════════════════════════════════════
+// Body { reason?, cancelled_by?: 'driver' | 'client', portal_token? }.
+// Authentification obligatoire (l'annulation rembourse l'acompte) :
+// - chauffeur de la course (Bearer) : par défaut annulation chauffeur (aucun
+//   frais, acompte remboursé) ; `cancelled_by: 'client'` (le client a prévenu
+//   le chauffeur) applique la politique d'annulation, frais sur la carte du client
+// - client, lien signé du portail (portal_token) : annulation client, politique appliquée
+
+/** Badge (token) du chauffeur → son id, ou null si absent / invalide */
+async function driverFromRequest(req: Request): Promise<string | null> {
+  const authz = req.headers.authorization || '';
+  const token = authz.startsWith('Bearer ') ? authz.slice(7).trim() : '';
+  if (!token) return null;
+  const supa = await getSupa();
+  const { data, error } = await supa.auth.getUser(token);
+  return error ? null : data?.user?.id ?? null;
+}
 
 router.post('/:id/cancel', async (req: Request, res: Response) => {
   const { id } = req.params;
   const { reason } = req.body || {};
 
   try {
-    const supa = await getSupa();
+    const driverId = await driverFromRequest(req);
+    const portalBookingId = req.body?.portal_token ? verifyPortalToken(String(req.body.portal_token)) : null;
+    if (!driverId && portalBookingId !== id) {
+      return res.status(401).json({ error: 'Authentification requise (chauffeur ou lien de réservation)' });
+    }
 
-    const { data: booking, error } = await supa
-      .from('bookings')
-      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
-      .eq('id', id)
-      .in('status', ['pending', 'confirmed', 'reminded_2h'])
-      .select()
-      .single();
+    const supa = await getSupa();
+    const { data: booking } = await supa.from('bookings').select('*').eq('id', id).maybeSingle();
+    if (!booking) return res.status(404).json({ error: 'Reservation introuvable' });
 
-    if (error || !booking) {
-      return res.status(400).json({ error: 'Reservation non annulable' });
-    }
+    const isDriver = driverId != null && driverId === booking.driver_id;
+    if (!isDriver && portalBookingId !== booking.id) return res.status(404).json({ error: 'Reservation introuvable' });
 
-    // Annuler les rappels pending
-    await supa
-      .from('scheduled_reminders')
-      .update({ status: 'cancelled' })
-      .eq('booking_id', id)
-      .eq('status', 'pending');
+    const by = !isDriver || req.body?.cancelled_by === 'client' ? 'client' : 'driver';
+    const result = await cancelBooking(booking, {
+      by,
+      reason: reason ? String(reason).slice(0, 300) : null,
+      actor: isDriver ? { id: driverId!, role: 'driver' } : { role: 'anonymous', via: 'client_portal' },
+    });
+    if (!result) return res.status(400).json({ error: 'Reservation non annulable' });
 
-    console.log(`[Booking] Cancelled ${id} — reason: ${reason || 'N/A'}`);
+    console.log(`[Booking] Cancelled ${id}${result.returnLeg ? ` + retour ${result.returnLeg.id}` : ''} — reason: ${reason || 'N/A'}`);
 
     // SMS d'annulation au client
-    sendSMS(
+    const feeText = result.fee > 0 ? ` Frais d'annulation tardive : ${formatPrice(result.fee)}.` : '';
+    sendSms(
       booking.client_phone,
-      `FOREAS : Votre reservation du ${formatDateTime(booking.scheduled_at)} a ete annulee. ${reason ? `Raison: ${reason}` : "Contactez votre chauffeur pour plus d'infos."}`,
+      `FOREAS : Votre reservation du ${formatDateTime(booking.scheduled_at)}${result.returnLeg ? ' (aller-retour)' : ''} a ete annulee.${feeText} ${reason ? `Raison: ${reason}` : "Contactez votre chauffeur pour plus d'infos."}`,
+      { purpose: 'booking_cancellation', bookingId: booking.id, driverId: booking.driver_id },
     ).catch(() => {});
 
-    return res.json({ success: true, booking });
+    return res.json({
+      success: true,
+      booking: result.booking,
+      return_booking: result.returnLeg ?? null,
+      cancellation_fee: result.fee,
+    });
   } catch (err: any) {
     return res.status(500).json({ error: err.message });
   }
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// POST /api/bookings/process-reminders — CRON endpoint (Railway/Supabase Cron)
-// Traite les rappels SMS/push dont l'heure est passee
+// POST /api/bookings/:id/no-show — Le chauffeur déclare le client absent
 // ═══════════════════════════════════════════════════════════════════════════════
 
-router.post('/process-reminders', async (req: Request, res: Response) => {
-  // Optionnel : proteger avec un secret
-  const cronSecret = process.env.CRON_SECRET;
-  if (cronSecret && req.headers['x-cron-secret'] !== cronSecret) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+router.post('/:id/no-show', async (req: Request, res: Response) => {
+  const { id } = req.params;
 
   try {
+    const driverId = await driverFromRequest(req);
+    if (!driverId) return res.status(401).json({ error: 'Non authentifié' });
+
     const supa = await getSupa();
-    const now = new Date().toISOString();
+    const { data: booking } = await supa.from('bookings').select('*').eq('id', id).maybeSingle();
+    if (!booking || booking.driver_id !== driverId) return res.status(404).json({ error: 'Reservation introuvable' });
+    if (!canMarkNoShow(booking)) {
+      return res.status(400).json({ error: "Absence declarable a partir de l'heure de prise en charge, sur une course active" });
+    }
 
-    // Recuperer les rappels pending dont l'heure est passee
-    const { data: reminders, error } = await supa
-      .from('scheduled_reminders')
-      .select('*, bookings(*)')
-      .eq('status', 'pending')
-      .lte('scheduled_for', now)
-      .limit(50);
+    const result = await markNoShow(booking, { id: driverId, role: 'driver' });
+    if (!result) return res.status(400).json({ error: 'Reservation deja traitee' });
 
-    if (error) throw new Error(error.message);
-    if (!reminders || reminders.length === 0) {
-      return res.json({ processed: 0 });
-    }
+    sendSms(
+      booking.client_phone,
+      `FOREAS : Votre chauffeur ne vous a pas trouve au point de rendez-vous (${formatDateTime(booking.scheduled_at)}).${result.fee > 0 ? ` Frais d'absence : ${formatPrice(result.fee)}.` : ''}`,
+      { purpose: 'booking_cancellation', bookingId: booking.id, driverId: booking.driver_id },
+    ).catch(() => {});
 
-    console.log(`[Cron] Processing ${reminders.length} pending reminders`);
+    return res.json({ success: true, booking: result.booking, no_show_fee: result.fee });
+  } catch (err: any) {
+    console.error('[Booking] No-show error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
 
-    let processed = 0;
-    let failed = 0;
+// ═══════════════════════════════════════════════════════════════════════════════
+// Rappels (job booking.reminder) — exécutés par le worker JobQueueService
+// ═══════════════════════════════════════════════════════════════════════════════
 
-    for (const reminder of reminders) {
-      const booking = reminder.bookings;
-      if (!booking || booking.status === 'cancelled') {
-        await supa
-          .from('scheduled_reminders')
-          .update({ status: 'cancelled' })
-          .eq('id', reminder.id);
-        continue;
-      }
+export const REMINDER_JOB = 'booking.reminder';
 
-      let success = false;
-      let errorMsg = '';
-
-      try {
-        switch (reminder.reminder_type) {
-          case 'client_sms_2h': {
-            const time = new Date(booking.scheduled_at).toLocaleTimeString('fr-FR', {
-              hour: '2-digit',
-              minute: '2-digit',
-            });
-            success = await sendSMS(
-              booking.client_phone,
-              `FOREAS Rappel : Votre trajet est dans 2h !\n${time} - ${booking.pickup_address}\nPrix estime : ${formatPrice(booking.estimated_price)}\nVotre chauffeur se prepare.`,
-            );
-            if (success) {
-              await supa
-                .from('bookings')
-                .update({
-                  status: 'reminded_2h',
-                  notifications: {
-                    ...booking.notifications,
-                    client_sms_2h_sent: true,
-                    client_sms_2h_sent_at: now,
-                  },
-                })
-                .eq('id', booking.id);
-            }
-            break;
-          }
+/**
+ * Clé d'idempotence d'un job de réservation. Après un déplacement de créneau
+ * (portail client), les jobs annulés gardent leur clé : on suffixe la révision
+ * pour pouvoir replanifier. Préfixe `booking:<id>:` commun → cancelPendingJobs.
+ */
+export function bookingJobKey(b: { id: string; reschedule_count?: number | null }, suffix: string): string {
+  const rev = b.reschedule_count ?? 0;
+  return rev > 0 ? `booking:${b.id}:r${rev}:${suffix}` : `booking:${b.id}:${suffix}`;
+}
 
-          case 'client_sms_15m': {
-            success = await sendSMS(
-              booking.client_phone,
-              `FOREAS : Votre chauffeur arrive dans 15 min !\nRendez-vous : ${booking.pickup_address}\nSoyez pret, il arrive bientot.`,
-            );
-            if (success) {
-              await supa
-                .from('bookings')
-                .update({
-                  status: 'reminded_15m',
-                  notifications: {
-                    ...booking.notifications,
-                    client_sms_15m_sent: true,
-                    client_sms_15m_sent_at: now,
-                  },
-                })
-                .eq('id', booking.id);
-            }
-            break;
-          }
+/** Planifie rappels client (2h, 15 min) et chauffeur (1h) — ceux déjà passés sont ignorés */
+export async function scheduleBookingReminders(booking: {
+  id: string;
+  scheduled_at: string;
+  reschedule_count?: number | null;
+}): Promise<number> {
+  const at = Date.parse(booking.scheduled_at);
+  const reminders = [
+    { reminder_type: 'client_sms_2h', scheduled_for: at - 2 * 60 * 60 * 1000 },
+    { reminder_type: 'client_sms_15m', scheduled_for: at - 15 * 60 * 1000 },
+    { reminder_type: 'driver_push_1h', scheduled_for: at - 1 * 60 * 60 * 1000 },
+    { reminder_type: 'driver_ajnaya_1h', scheduled_for: at - 1 * 60 * 60 * 1000 },
+  ].filter((r) => r.scheduled_for > Date.now()); // Ne pas planifier si deja passe
+
+  await Promise.all(
+    reminders.map((r) =>
+      enqueueJob(
+        REMINDER_JOB,
+        { booking_id: booking.id, reminder_type: r.reminder_type },
+        { runAt: new Date(r.scheduled_for), idempotencyKey: bookingJobKey(booking, `reminder:${r.reminder_type}`) },
+      ),
+    ),
+  );
+  if (reminders.length > 0) console.log(`[Booking] ${reminders.length} reminders scheduled for ${booking.id}`);
+  return reminders.length;
+}
 
-          case 'driver_push_1h':
-          case 'driver_ajnaya_1h': {
-            // Push notification au chauffeur via Supabase + devices table
-            const { data: devices } = await supa
-              .from('devices')
-              .select('push_token')
-              .eq('user_id', booking.driver_id)
-              .not('push_token', 'is', null);
-
-            if (devices && devices.length > 0) {
-              // Envoyer via Expo Push Notifications
-              const pushTokens = devices.map((d: any) => d.push_token).filter(Boolean);
-              if (pushTokens.length > 0) {
-                const time = new Date(booking.scheduled_at).toLocaleTimeString('fr-FR', {
-                  hour: '2-digit',
-                  minute: '2-digit',
-                });
-                try {
-                  await fetch('https://exp.host/--/api/v2/push/send', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(
-                      pushTokens.map((token: string) => ({
-                        to: token,
-                        title: 'Reservation dans 1h',
-                        body: `${booking.pickup_address} \u2192 ${booking.dropoff_address} a ${time}`,
-                        // 11/07 \u2014 audit notifs : type 'booking_reminder' non reconnu par
-                        // RootNavigator.routeFromNotification. `screen` ajout\u00E9 pour le
-                        // fallback g\u00E9n\u00E9rique (data.screen \u2192 navigation.navigate).
-                        data: {
-                          type: 'booking_reminder',
-                          bookingId: booking.id,
-                          screen: 'Clients',
-                        },
-                        sound: 'default',
-                        priority: 'high',
-                      })),
-                    ),
-                  });
-                  success = true;
-                } catch (pushErr: any) {
-                  errorMsg = pushErr.message;
-                }
-              }
-            }
-
-            if (success) {
-              const notifKey =
-                reminder.reminder_type === 'driver_push_1h'
-                  ? 'driver_reminder_push_sent'
-                  : 'driver_ajnaya_reminder_sent';
-              await supa
-                .from('bookings')
-                .update({
-                  notifications: {
-                    ...booking.notifications,
-                    [notifKey]: true,
-                    [`${notifKey}_at`]: now,
-                  },
-                })
-                .eq('id', booking.id);
-            }
-            break;
-          }
-        }
-      } catch (e: any) {
-        errorMsg = e.message;
-      }
+/**
+ * Envoie un rappel planifié. Lève une erreur si l'envoi échoue → la file réessaie
+ * avec backoff. Idempotent : un rappel déjà marqué envoyé n'est pas renvoyé.
+ */
+export async function runBookingReminder(payload: { booking_id: string; reminder_type: string }): Promise<void> {
+  const supa = await getSupa();
+  const { data: booking } = await supa.from('bookings').select('*').eq('id', payload.booking_id).single();
+  if (!booking || booking.status === 'cancelled') return;
+
+  const now = new Date().toISOString();
+  const notifications = booking.notifications || {};
+
+  switch (payload.reminder_type) {
+    case 'client_sms_2h': {
+      if (notifications.client_sms_2h_sent) return;
+      const time = new Date(booking.scheduled_at).toLocaleTimeString('fr-FR', {
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      const sms = await sendSms(
+        booking.client_phone,
+        `FOREAS Rappel : Votre trajet${booking.trip_leg === 'return' ? ' retour' : ''} est dans 2h !\n${time} - ${tripSummary(booking)}\nPrix estime : ${formatPrice(booking.estimated_price)}\nVotre chauffeur se prepare.`,
+        { purpose: 'booking_reminder_2h', bookingId: booking.id, driverId: booking.driver_id },
+      );
+      if (sms.error === 'invalid_phone') throw new PermanentJobError('Invalid client phone');
+      if (!sms.ok) throw new Error(`SMS 2h not sent: ${sms.error}`);
+      await supa
+        .from('bookings')
+        .update({
+          status: 'reminded_2h',
+          notifications: { ...notifications, client_sms_2h_sent: true, client_sms_2h_sent_at: now },
+        })
+        .eq('id', booking.id);
+      return;
+    }
 
-      // Mettre a jour le statut du rappel
+    case 'client_sms_15m': {
+      if (notifications.client_sms_15m_sent) return;
+      const sms = await sendSms(
+        booking.client_phone,
+        `FOREAS : Votre chauffeur arrive dans 15 min !\nRendez-vous : ${booking.pickup_address}\nSoyez pret, il arrive bientot.`,
+        { purpose: 'booking_reminder_15m', bookingId: booking.id, driverId: booking.driver_id },
+      );
+      if (sms.error === 'invalid_phone') throw new PermanentJobError('Invalid client phone');
+      if (!sms.ok) throw new Error(`SMS 15m not sent: ${sms.error}`);
       await supa
-        .from('scheduled_reminders')
+        .from('bookings')
         .update({
-          status: success ? 'sent' : 'failed',
-          sent_at: success ? now : null,
-          error_message: errorMsg || null,
+          status: 'reminded_15m',
+          notifications: { ...notifications, client_sms_15m_sent: true, client_sms_15m_sent_at: now },
         })
-        .eq('id', reminder.id);
+        .eq('id', booking.id);
+      return;
+    }
 
-      if (success) processed++;
-      else failed++;
+    case 'driver_push_1h':
+    case 'driver_ajnaya_1h': {
+      const notifKey =
+        payload.reminder_type === 'driver_push_1h' ? 'driver_reminder_push_sent' : 'driver_ajnaya_reminder_sent';
+      if (notifications[notifKey]) return;
+      const time = new Date(booking.scheduled_at).toLocaleTimeString('fr-FR', {
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      const label = tripLabel(booking);
+      const sent = await sendDriverPush(booking.driver_id, {
+        title: `Reservation dans 1h${label ? ` \u00B7 ${label}` : ''}`,
+        body: `${tripSummary(booking)} a ${time}`,
+        // 11/07 \u2014 audit notifs : type 'booking_reminder' non reconnu par
+        // RootNavigator.routeFromNotification. `screen` ajout\u00E9 pour le
+        // fallback g\u00E9n\u00E9rique (data.screen \u2192 navigation.navigate).
+        data: { type: 'booking_reminder', bookingId: booking.id, screen: 'Clients' },
+      });
+      if (sent === -1) throw new Error('Expo push failed');
+      if (sent === 0) return; // aucun appareil enregistré : rien à réessayer
+      await supa
+        .from('bookings')
+        .update({ notifications: { ...notifications, [notifKey]: true, [`${notifKey}_at`]: now } })
+        .eq('id', booking.id);
+      return;
     }
 
-    console.log(`[Cron] Done: ${processed} sent, ${failed} failed`);
-    return res.json({ processed, failed, total: reminders.length });
+    default:
+      console.warn(`[Booking] Unknown reminder type ${payload.reminder_type} for ${booking.id}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/bookings/process-reminders — CRON endpoint (legacy)
+// Conservé pour les crons Railway existants : exécute un lot de la file de jobs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+router.post('/process-reminders', async (req: Request, res: Response) => {
+  // Optionnel : proteger avec un secret
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && req.headers['x-cron-secret'] !== cronSecret) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const result = await runJobBatch(50);
+    return res.json({ processed: result.succeeded, failed: result.retried + result.dead, total: result.claimed });
   } catch (err: any) {
     console.error('[Cron] Process reminders error:', err.message);
     return res.status(500).json({ error: err.message });
@@ -0,0 +1,582 @@
+/**
+ * Booking Portal Routes — Portail client « Gérer ma réservation »
+ * ═══════════════════════════════════════════════════════════════
+ * Lien signé (BookingPortalService) envoyé dans l'email et le SMS de confirmation.
+ *
+ * GET   /api/booking-portal/:token                  → Page HTML du portail
+ * GET   /api/booking-portal/:token/booking          → Réservation + actions possibles (JSON)
+ * POST  /api/booking-portal/:token/reschedule       → Déplacer (calendrier + politique du chauffeur)
+ * POST  /api/booking-portal/:token/cancel           → Annuler (frais selon la politique)
+ * PATCH /api/booking-portal/:token/note             → Modifier la note de prise en charge
+ * POST  /api/booking-portal/:token/deposit/confirm  → Enregistrer l'acompte payé
+ *
+ * L'acompte est créé par POST /api/driver-site/create-payment-intent ({ portal_token }).
+ * Chaque action met à jour bookings.status / les colonnes associées et prévient
+ * le chauffeur par push (job push.driver, expoPush.ts).
+ */
+
+import { Router, Request, Response } from 'express';
+import { checkBookingSlot, ACTIVE_BOOKING_STATUSES } from '../services/DriverCalendarService.js';
+import { loadCancellationPolicy, canReschedule } from '../services/CancellationPolicyService.js';
+import { cancelBooking, splitFee } from '../services/BookingFeeService.js';
+import type { RescheduleRejection } from '../services/CancellationPolicyService.js';
+import { portalActions, portalUrl, verifyPortalToken } from '../services/BookingPortalService.js';
+import { normalizeDriverTariff } from '../services/DriverPricingEngine.js';
+import { quoteRoutedTrip } from '../services/TripQuoteService.js';
+import type { TripQuote } from '../services/TripQuoteService.js';
+import { stopPoints } from '../services/BookingTripService.js';
+import type { BookingTripOptions } from '../services/BookingTripService.js';
+import { cancelPendingJobs } from '../services/JobQueueService.js';
+import { rescheduleSubcontractJobs } from '../services/SubcontractService.js';
+import { enqueueDriverPush } from '../lib/expoPush.js';
+import { formatDateTime, scheduleBookingReminders, SLOT_ERRORS } from './booking.routes.js';
+
+const router = Router();
+
+// ─── Lazy-loaded dependencies ────────────────────────────────────────────────
+
+let supabaseAdmin: any = null;
+let stripeInstance: any = null;
+
+async function getSupa() {
+  if (!supabaseAdmin) {
+    const { createClient } = await import('@supabase/supabase-js');
+    supabaseAdmin = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } },
+    );
+  }
+  return supabaseAdmin;
+}
+
+async function getStripe() {
+  if (!stripeInstance) {
+    const Stripe = (await import('stripe')).default;
+    stripeInstance = new Stripe(process.env.STRIPE_SECRET_KEY!, { maxNetworkRetries: 3, timeout: 30000 });
+  }
+  return stripeInstance;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const RESCHEDULE_ERRORS: Record<RescheduleRejection, string> = {
+  status: 'Cette réservation ne peut plus être modifiée.',
+  too_late: 'Trop tard pour modifier en ligne — contactez votre chauffeur.',
+  limit: 'Nombre maximum de modifications atteint — contactez votre chauffeur.',
+};
+
+/** Réservation du lien, ou null (réponse 404 déjà envoyée) */
+async function loadPortalBooking(req: Request, res: Response): Promise<any | null> {
+  const bookingId = verifyPortalToken(req.params.token);
+  if (!bookingId) {
+    res.status(404).json({ error: 'Lien invalide' });
+    return null;
+  }
+  const supa = await getSupa();
+  const { data: booking } = await supa.from('bookings').select('*').eq('id', bookingId).maybeSingle();
+  if (!booking) {
+    res.status(404).json({ error: 'Reservation introuvable' });
+    return null;
+  }
+  return booking;
+}
+
+/** Champs exposés au client (jamais les notes internes ni le détail Stripe) */
+function publicBooking(b: any) {
+  return {
+    id: b.id,
+    status: b.status,
+    scheduled_at: b.scheduled_at,
+    pickup_address: b.pickup_address,
+    dropoff_address: b.dropoff_address,
+    stops: b.stops || [],
+    trip_leg: b.trip_leg || 'single',
+    client_name: b.client_name,
+    client_note: b.client_note,
+    estimated_price: b.estimated_price,
+    estimated_duration_min: b.estimated_duration_min,
+    deposit_amount: b.deposit_amount ?? null,
+    deposit_paid_at: b.deposit_paid_at ?? null,
+    cancelled_at: b.cancelled_at ?? null,
+    cancellation_fee: b.cancellation_fee ?? null,
+  };
+}
+
+function notifyDriver(b: any, title: string, body: string, event: string): void {
+  enqueueDriverPush(b.driver_id, {
+    title,
+    body,
+    data: { type: 'booking_portal', event, bookingId: b.id, screen: 'Clients' },
+  }).catch((e: any) => console.error('[BookingPortal] Driver push KO:', e.message));
+}
+
+/**
+ * Prix à la nouvelle heure (majoration nuit / dimanche / férié, trafic) :
+ * tarif actuel du chauffeur, trajet et options du devis d'origine
+ * (bookings.trip_options). null si non re-chiffrable (réservation antérieure
+ * aux trip_options, tarif retiré) : le prix convenu est conservé.
+ */
+async function requote(b: any, scheduledAt: string): Promise<TripQuote | null> {
+  const options: BookingTripOptions | null = b.trip_options ?? null;
+  if (!options || b.pickup_lat == null || b.dropoff_lat == null) return null;
+
+  const supa = await getSupa();
+  const { data: site } = await supa.from('driver_sites').select('pricing').eq('slug', b.site_slug).maybeSingle();
+  const tariff = normalizeDriverTariff(site?.pricing);
+  if (!tariff) return null;
+
+  return quoteRoutedTrip(
+    tariff,
+    {
+      pickup: { lat: Number(b.pickup_lat), lng: Number(b.pickup_lng) },
+      dropoff: { lat: Number(b.dropoff_lat), lng: Number(b.dropoff_lng) },
+      stops: stopPoints(b.stops),
+      luggage: options.luggage,
+      childSeats: options.childSeats,
+      waitingMin: options.waitingMin,
+      roundTrip: options.roundTrip,
+      scheduledAt,
+    },
+    { promoPercent: options.promoPercent, linkedRoundTrip: b.trip_leg === 'outbound' || b.trip_leg === 'return' },
+  );
+}
+
+/**
+ * Aller-retour : l'aller doit finir (créneau bloqué) avant le départ du retour.
+ * Vérifie le nouvel horaire d'un des deux trajets contre l'autre, encore actif.
+ */
+async function tripOrderConflict(b: any, startIso: string, blockedUntil: string): Promise<boolean> {
+  if (b.trip_leg !== 'outbound' && b.trip_leg !== 'return') return false;
+  const supa = await getSupa();
+  const { data: other } = await supa
+    .from('bookings')
+    .select('scheduled_at, blocked_until')
+    .eq(b.trip_leg === 'outbound' ? 'outbound_booking_id' : 'id', b.trip_leg === 'outbound' ? b.id : b.outbound_booking_id)
+    .in('status', ACTIVE_BOOKING_STATUSES)
+    .maybeSingle();
+  if (!other) return false;
+  return b.trip_leg === 'outbound'
+    ? Date.parse(blockedUntil) > Date.parse(other.scheduled_at)
+    : Date.parse(startIso) < Date.parse(other.blocked_until || other.scheduled_at);
+}
+
+async function driverDisplayName(siteSlug: string): Promise<string> {
+  const supa = await getSupa();
+  const { data } = await supa.from('driver_sites').select('display_name').eq('slug', siteSlug).maybeSingle();
+  return data?.display_name || 'Votre chauffeur';
+}
+
+function escapeHtml(s: string): string {
+  return String(s ?? '').replace(
+    /[&<>"']/g,
+    (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] ?? c,
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/booking-portal/:token — Page du portail
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'En attente de confirmation du chauffeur',
+  confirmed: 'Confirmée',
+  reminded_2h: 'Confirmée',
+  reminded_15m: 'Votre chauffeur arrive',
+  completed: 'Terminée',
+  cancelled: 'Annulée',
+  no_show: 'Client absent',
+};
+
+function renderPortal(b: any, actions: ReturnType<typeof portalActions>, driverName: string, token: string): string {
+  const price = `${Number(b.estimated_price || 0).toFixed(2).replace('.', ',')} €`;
+  const config = JSON.stringify({
+    token,
+    actions,
+    stripeKey: process.env.STRIPE_PUBLISHABLE_KEY || null,
+  }).replace(/</g, '\\u003c');
+
+  return `<!doctype html><html lang="fr"><head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width,initial-scale=1"/>
+<meta name="robots" content="noindex"/>
+<title>Ma réservation — FOREAS</title>
+<style>
+  body { font-family: -apple-system, sans-serif; background: #050508; color: #fff;
+    padding: 32px 20px; max-width: 520px; margin: 0 auto; }
+  h1 { color: #8C52FF; font-size: 22px; }
+  h2 { font-size: 16px; margin: 0 0 12px; }
+  p, label { color: #D1D5DB; line-height: 1.6; font-size: 14px; }
+  .box { background: #0C0C14; border: 1px solid #1A1A2E; border-radius: 16px; padding: 20px; margin-bottom: 16px; }
+  .row { display: flex; justify-content: space-between; padding: 6px 0; font-size: 14px; }
+  .lbl { color: rgba(255,255,255,0.5); } .val { text-align: right; font-weight: 600; }
+  input, textarea { width: 100%; box-sizing: border-box; background: #050508; color: #fff;
+    border: 1px solid #1A1A2E; border-radius: 10px; padding: 10px; margin: 6px 0 12px; font-size: 14px; }
+  button { background: #8C52FF; color: #fff; border: 0; border-radius: 10px; padding: 12px 18px; font-weight: 700; cursor: pointer; }
+  button.danger { background: transparent; border: 1px solid #EF4444; color: #EF4444; }
+  .msg { font-size: 13px; color: #00D4FF; min-height: 18px; }
+  #card { background: #fff; border-radius: 10px; padding: 12px; margin: 8px 0 12px; }
+</style>
+</head><body>
+<h1>Ma réservation</h1>
+<div class="box">
+  <div class="row"><span class="lbl">Statut</span><span class="val">${escapeHtml(STATUS_LABELS[b.status] || b.status)}</span></div>
+  <div class="row"><span class="lbl">Chauffeur</span><span class="val">${escapeHtml(driverName)}</span></div>
+  <div class="row"><span class="lbl">Date</span><span class="val">${escapeHtml(formatDateTime(b.scheduled_at))}</span></div>
+  <div class="row"><span class="lbl">Départ</span><span class="val">${escapeHtml(b.pickup_address)}</span></div>
+  <div class="row"><span class="lbl">Arrivée</span><span class="val">${escapeHtml(b.dropoff_address)}</span></div>
+  <div class="row"><span class="lbl">Prix estimé</span><span class="val">${price}</span></div>
+  ${b.deposit_paid_at ? `<div class="row"><span class="lbl">Acompte payé</span><span class="val">${Number(b.deposit_amount).toFixed(2).replace('.', ',')} €</span></div>` : ''}
+  ${b.cancellation_fee ? `<div class="row"><span class="lbl">Frais d'annulation</span><span class="val">${Number(b.cancellation_fee).toFixed(2).replace('.', ',')} €</span></div>` : ''}
+</div>
+${actions.deposit_due > 0 ? `<div class="box" id="deposit"><h2>Acompte</h2>
+  <p>${actions.deposit_due.toFixed(2).replace('.', ',')} € pour garantir votre réservation.</p>
+  <div id="card"></div><button id="pay">Payer l'acompte</button><p class="msg" id="deposit-msg"></p></div>` : ''}
+${actions.can_reschedule ? `<div class="box"><h2>Changer l'horaire</h2>
+  <label for="when">Nouvelle date et heure</label><input type="datetime-local" id="when"/>
+  <p>Le prix est recalculé pour le nouvel horaire (majoration nuit, dimanche ou férié).</p>
+  <button id="reschedule">Demander ce créneau</button><p class="msg" id="reschedule-msg"></p></div>` : ''}
+${actions.can_edit_note ? `<div class="box"><h2>Note pour le chauffeur</h2>
+  <textarea id="note" rows="3" maxlength="500" placeholder="Ex : porte B, 2 valises">${escapeHtml(b.client_note || '')}</textarea>
+  <button id="save-note">Enregistrer</button><p class="msg" id="note-msg"></p></div>` : ''}
+${actions.can_cancel ? `<div class="box"><h2>Annuler</h2>
+  <p>${actions.cancellation_fee > 0
+    ? `Des frais de ${actions.cancellation_fee.toFixed(2).replace('.', ',')} € s'appliquent (annulation tardive).`
+    : `Annulation gratuite jusqu'au ${escapeHtml(formatDateTime(actions.free_cancel_until))}.`}</p>
+  <button class="danger" id="cancel">Annuler la réservation</button><p class="msg" id="cancel-msg"></p></div>` : ''}
+<script>
+const CFG = ${config};
+const base = '/api/booking-portal/' + CFG.token;
+async function call(method, path, body) {
+  const r = await fetch(base + path, { method, headers: { 'Content-Type': 'application/json' }, body: body ? JSON.stringify(body) : undefined });
+  const data = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(data.error || 'Erreur, réessayez.');
+  return data;
+}
+function bind(id, msgId, fn) {
+  const el = document.getElementById(id);
+  if (!el) return;
+  el.addEventListener('click', async () => {
+    const msg = document.getElementById(msgId);
+    el.disabled = true; msg.textContent = '';
+    try {
+      const data = await fn();
+      if (data && data.portal_url) location.href = data.portal_url; else location.reload();
+    } catch (e) { msg.textContent = e.message; el.disabled = false; }
+  });
+}
+bind('reschedule', 'reschedule-msg', () => {
+  const v = document.getElementById('when').value;
+  if (!v) throw new Error('Choisissez une date.');
+  return call('POST', '/reschedule', { scheduled_at: new Date(v).toISOString() });
+});
+bind('save-note', 'note-msg', () => call('PATCH', '/note', { client_note: document.getElementById('note').value }));
+bind('cancel', 'cancel-msg', () => {
+  if (!confirm('Annuler la réservation ?')) throw new Error('Annulation abandonnée.');
+  return call('POST', '/cancel', {});
+});
+if (CFG.actions.deposit_due > 0 && CFG.stripeKey) {
+  const s = document.createElement('script');
+  s.src = 'https://js.stripe.com/v3/';
+  s.onload = () => {
+    const stripe = Stripe(CFG.stripeKey);
+    const card = stripe.elements().create('card');
+    card.mount('#card');
+    bind('pay', 'deposit-msg', async () => {
+      const r = await fetch('/api/driver-site/create-payment-intent', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ portal_token: CFG.token }) });
+      const pi = await r.json();
+      if (!r.ok) throw new Error(pi.error || 'Paiement indisponible.');
+      const { error, paymentIntent } = await stripe.confirmCardPayment(pi.client_secret, { payment_method: { card } });
+      if (error) throw new Error(error.message);
+      return call('POST', '/deposit/confirm', { payment_intent_id: paymentIntent.id });
+    });
+  };
+  document.head.appendChild(s);
+}
+</script>
+</body></html>`;
+}
+
+router.get('/:token', async (req: Request, res: Response) => {
+  const bookingId = verifyPortalToken(req.params.token);
+  if (!bookingId) return res.status(404).send('Lien invalide');
+
+  try {
+    const supa = await getSupa();
+    const { data: booking } = await supa.from('bookings').select('*').eq('id', bookingId).maybeSingle();
+    if (!booking) return res.status(404).send('Reservation introuvable');
+
+    const [policy, driverName] = await Promise.all([
+      loadCancellationPolicy(booking.driver_id),
+      driverDisplayName(booking.site_slug),
+    ]);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.send(renderPortal(booking, portalActions(policy, booking), driverName, req.params.token));
+  } catch (err: any) {
+    console.error('[BookingPortal] Page error:', err.message);
+    return res.status(500).send('Portail indisponible, réessayez dans un instant.');
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/booking-portal/:token/booking — Réservation + actions possibles
+// ═══════════════════════════════════════════════════════════════════════════════
+
+router.get('/:token/booking', async (req: Request, res: Response) => {
+  try {
+    const booking = await loadPortalBooking(req, res);
+    if (!booking) return;
+    const policy = await loadCancellationPolicy(booking.driver_id);
+    return res.json({ booking: publicBooking(booking), actions: portalActions(policy, booking), policy });
+  } catch (err: any) {
+    console.error('[BookingPortal] Booking error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/booking-portal/:token/reschedule — Nouveau créneau
+// ═══════════════════════════════════════════════════════════════════════════════
+// Prix re-calculé à la nouvelle heure (requote) ; la réservation repasse en
+// 'pending' : le chauffeur reconfirme horaire et prix (POST /api/bookings/:id/confirm).
+// Le lien du portail expire avec l'ancien horaire : un nouveau est renvoyé.
+
+router.post('/:token/reschedule', async (req: Request, res: Response) => {
+  const scheduledAt = new Date(req.body?.scheduled_at || req.body?.scheduledAt || '');
+  if (isNaN(scheduledAt.getTime())) return res.status(400).json({ error: 'Date invalide' });
+
+  try {
+    const booking = await loadPortalBooking(req, res);
+    if (!booking) return;
+
+    const policy = await loadCancellationPolicy(booking.driver_id);
+    const rule = canReschedule(policy, booking);
+    if (rule.ok === false) {
+      return res.status(409).json({ error: RESCHEDULE_ERRORS[rule.reason], code: 'reschedule_not_allowed', reason: rule.reason });
+    }
+
+    const quote = await requote(booking, scheduledAt.toISOString());
+    const slot = await checkBookingSlot(
+      booking.driver_id,
+      scheduledAt.toISOString(),
+      quote?.durationMin ?? (booking.estimated_duration_min || 0),
+      { excludeBookingId: booking.id },
+    );
+    if (slot.ok === false) {
+      return res.status(409).json({ error: SLOT_ERRORS[slot.reason], code: 'slot_unavailable', reason: slot.reason });
+    }
+    if (await tripOrderConflict(booking, scheduledAt.toISOString(), slot.blockedUntil)) {
+      return res.status(409).json({
+        error: "Le retour doit partir après la fin de l'aller — déplacez l'autre trajet ou contactez votre chauffeur.",
+        code: 'trip_order',
+      });
+    }
+
+    // Rappels à renvoyer pour le nouvel horaire
+    const {
+      client_sms_2h_sent,
+      client_sms_15m_sent,
+      driver_reminder_push_sent,
+      driver_ajnaya_reminder_sent,
+      ...notifications
+    } = booking.notifications || {};
+
+    const supa = await getSupa();
+    const { data: updated, error } = await supa
+      .from('bookings')
+      .update({
+        scheduled_at: scheduledAt.toISOString(),
+        blocked_until: slot.blockedUntil,
+        status: 'pending',
+        confirmed_at: null,
+        reschedule_count: (booking.reschedule_count ?? 0) + 1,
+        rescheduled_at: new Date().toISOString(),
+        previous_scheduled_at: booking.scheduled_at,
+        notifications,
+        ...(quote
+          ? {
+              estimated_price: quote.total,
+              estimated_distance_km: quote.distanceKm,
+              estimated_duration_min: quote.durationMin,
+              price_breakdown: quote,
+            }
+          : {}),
+      })
+      .eq('id', booking.id)
+      // Concurrence : un autre onglet / le chauffeur a modifié la réservation entre-temps
+      .eq('scheduled_at', booking.scheduled_at)
+      .in('status', ACTIVE_BOOKING_STATUSES)
+      .select()
+      .maybeSingle();
+
+    if (error?.code === '23P01') {
+      return res.status(409).json({ error: SLOT_ERRORS.overlap, code: 'slot_unavailable', reason: 'overlap' });
+    }
+    if (error) throw new Error(error.message);
+    if (!updated) return res.status(409).json({ error: 'Reservation modifiee entre-temps, rechargez la page' });
+
+    await cancelPendingJobs(`booking:${booking.id}:`);
+    await scheduleBookingReminders(updated);
+    await rescheduleSubcontractJobs(updated);
+
+    const priceChanged = Number(updated.estimated_price) !== Number(booking.estimated_price);
+    console.log(
+      `[BookingPortal] Rescheduled ${booking.id}: ${booking.scheduled_at} → ${updated.scheduled_at}` +
+        (priceChanged ? ` (prix ${booking.estimated_price}€ → ${updated.estimated_price}€)` : ''),
+    );
+    notifyDriver(
+      updated,
+      'Réservation déplacée',
+      `${updated.client_name || 'Votre client'} : ${formatDateTime(booking.scheduled_at)} → ${formatDateTime(updated.scheduled_at)}` +
+        `${priceChanged ? `, nouveau prix ${Number(updated.estimated_price).toFixed(2)} €` : ''}. À reconfirmer.`,
+      'rescheduled',
+    );
+
+    return res.json({
+      success: true,
+      booking: publicBooking(updated),
+      actions: portalActions(policy, updated),
+      previous_price: booking.estimated_price,
+      portal_url: portalUrl(updated),
+    });
+  } catch (err: any) {
+    console.error('[BookingPortal] Reschedule error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/booking-portal/:token/cancel — Annulation client
+// ═══════════════════════════════════════════════════════════════════════════════
+// Frais selon la politique du chauffeur (BookingFeeService) : prélevés sur
+// l'acompte s'il a été payé (le reste est remboursé), sinon sur la carte enregistrée.
+
+router.post('/:token/cancel', async (req: Request, res: Response) => {
+  const reason = String(req.body?.reason || '').slice(0, 300) || null;
+
+  try {
+    const booking = await loadPortalBooking(req, res);
+    if (!booking) return;
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status) || Date.parse(booking.scheduled_at) <= Date.now()) {
+      return res.status(400).json({ error: 'Reservation non annulable' });
+    }
+
+    const result = await cancelBooking(booking, { by: 'client', reason, actor: { role: 'anonymous', via: 'client_portal' } });
+    if (!result) return res.status(400).json({ error: 'Reservation non annulable' });
+    const { booking: cancelled, fee, returnLeg } = result;
+
+    // Acompte payé (sur l'aller) : frais de l'aller retenus, le reste est remboursé (job booking.fee_capture)
+    const refund = splitFee(
+      Number(cancelled.cancellation_fee) || 0,
+      cancelled.deposit_paid_at ? Number(cancelled.deposit_amount) : 0,
+    ).refund;
+
+    console.log(`[BookingPortal] Cancelled ${booking.id} by client — fee ${fee}€, refund ${refund}€`);
+    notifyDriver(
+      cancelled,
+      'Réservation annulée par le client',
+      `${cancelled.client_name || 'Votre client'} a annulé la course du ${formatDateTime(cancelled.scheduled_at)}${returnLeg ? ' et son retour' : ''}${fee > 0 ? ` (frais ${fee.toFixed(2)} €)` : ''}.`,
+      'cancelled',
+    );
+
+    return res.json({ success: true, booking: publicBooking(cancelled), cancellation_fee: fee, deposit_refund: refund });
+  } catch (err: any) {
+    console.error('[BookingPortal] Cancel error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PATCH /api/booking-portal/:token/note — Note de prise en charge
+// ═══════════════════════════════════════════════════════════════════════════════
+
+router.patch('/:token/note', async (req: Request, res: Response) => {
+  const note = String(req.body?.client_note ?? req.body?.clientNote ?? '').trim().slice(0, 500);
+
+  try {
+    const booking = await loadPortalBooking(req, res);
+    if (!booking) return;
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return res.status(400).json({ error: 'Reservation non modifiable' });
+    }
+    if (note === (booking.client_note || '')) return res.json({ success: true, booking: publicBooking(booking) });
+
+    const supa = await getSupa();
+    const { data: updated, error } = await supa
+      .from('bookings')
+      .update({ client_note: note || null })
+      .eq('id', booking.id)
+      .in('status', ACTIVE_BOOKING_STATUSES)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!updated) return res.status(400).json({ error: 'Reservation non modifiable' });
+
+    notifyDriver(
+      updated,
+      'Note client mise à jour',
+      `${updated.client_name || 'Votre client'} (${formatDateTime(updated.scheduled_at)}) : ${note || 'note supprimée'}`,
+      'note_updated',
+    );
+
+    return res.json({ success: true, booking: publicBooking(updated) });
+  } catch (err: any) {
+    console.error('[BookingPortal] Note error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/booking-portal/:token/deposit/confirm — Acompte payé (Stripe.js)
+// ═══════════════════════════════════════════════════════════════════════════════
+// Le PaymentIntent est relu chez Stripe : on ne croit jamais le navigateur.
+
+router.post('/:token/deposit/confirm', async (req: Request, res: Response) => {
+  const paymentIntentId = String(req.body?.payment_intent_id || '');
+  if (!paymentIntentId.startsWith('pi_')) return res.status(400).json({ error: 'payment_intent_id requis' });
+
+  try {
+    const booking = await loadPortalBooking(req, res);
+    if (!booking) return;
+    if (booking.deposit_paid_at) return res.json({ success: true, booking: publicBooking(booking) });
+    if (booking.deposit_payment_intent_id !== paymentIntentId) {
+      return res.status(400).json({ error: 'Paiement inconnu pour cette reservation' });
+    }
+
+    const stripe = await getStripe();
+    const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (pi.metadata?.booking_id !== booking.id || pi.status !== 'succeeded') {
+      return res.status(402).json({ error: 'Paiement non abouti', status: pi.status });
+    }
+
+    const supa = await getSupa();
+    const { data: updated, error } = await supa
+      .from('bookings')
+      .update({
+        deposit_amount: pi.amount_received / 100,
+        deposit_paid_at: new Date().toISOString(),
+        stripe_payment_method_id: typeof pi.payment_method === 'string' ? pi.payment_method : pi.payment_method?.id ?? null,
+      })
+      .eq('id', booking.id)
+      .is('deposit_paid_at', null)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!updated) return res.json({ success: true, booking: publicBooking(booking) });
+
+    console.log(`[BookingPortal] Deposit paid for ${booking.id}: ${updated.deposit_amount}€`);
+    notifyDriver(
+      updated,
+      'Acompte reçu',
+      `${updated.client_name || 'Votre client'} a payé ${Number(updated.deposit_amount).toFixed(2)} € pour le ${formatDateTime(updated.scheduled_at)}.`,
+      'deposit_paid',
+    );
+
+    return res.json({ success: true, booking: publicBooking(updated) });
+  } catch (err: any) {
+    console.error('[BookingPortal] Deposit confirm error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+export const bookingPortalRouter = router;
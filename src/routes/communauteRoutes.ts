@@ -18,6 +18,7 @@
  *
  * Toutes les routes nécessitent JWT Bearer (driver connecté).
  * Modération post → Opus 4.7 → accept (publié direct) ou reject (+ redirect Ajnaya si pub).
+ * Alertes : confiance live + expiration pilotées par AlertLifecycleService.
  */
 import { Router, Request, Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
@@ -26,6 +27,7 @@ import {
   buildAjnayaSponsorshipMessage,
   type Categorie,
 } from '../services/CommunauteModerationService.js';
+import { initialExpireAt, refreshPostLifecycle } from '../services/AlertLifecycleService.js';
 
 const router = Router();
 
@@ -57,26 +59,21 @@ async function getDriverIdFromJWT(req: Request): Promise<string | null> {
 
 const RATE_LIMIT_MS = 30_000; // 1 post / 30 sec
 
-const EXPIRE_MAP: Record<string, number> = {
-  alerte_boer: 2 * 3600 * 1000,
-  alerte_urssaf: 2 * 3600 * 1000,
-  alerte_municipal: 2 * 3600 * 1000,
-  alerte_dgccrf: 2 * 3600 * 1000,
-  alerte_dreal: 2 * 3600 * 1000,
-  alerte_bac: 2 * 3600 * 1000,
-  alerte_piege: 24 * 3600 * 1000,
-  alerte_zone_chaude: 3600 * 1000,
-  alerte_surge: 30 * 60 * 1000,
-  alerte_manif: 4 * 3600 * 1000,
-  alerte_accident: 2 * 3600 * 1000,
-  // entraide & astuce → pas d'expiration
-};
-
-function expireAtForPost(category: Categorie, sousType: string | null): Date | null {
+// v105 — Alertes : expiration projetée par AlertLifecycleService (courbe de
+// déclin de la catégorie × confiance de l'auteur), recalculée à chaque réaction.
+// Entraide & astuce → pas d'expiration.
+async function expireAtForPost(
+  category: Categorie,
+  sousType: string | null,
+  authorId: string,
+): Promise<Date | null> {
   if (category !== 'alerte') return null;
-  const key = `alerte_${sousType || 'zone_chaude'}`;
-  const ms = EXPIRE_MAP[key] ?? 2 * 3600 * 1000;
-  return new Date(Date.now() + ms);
+  const { data: confiance } = await getSupa()
+    .from('communaute_confiance')
+    .select('score')
+    .eq('user_id', authorId)
+    .maybeSingle();
+  return initialExpireAt(sousType || 'zone_chaude', (confiance?.score as number | undefined) ?? null);
 }
 
 // Haversine distance calcul côté SQL via une view ad-hoc
@@ -226,7 +223,7 @@ router.post('/posts', async (req: Request, res: Response) => {
 
   // Accepté → insert + rate limit bump
   const category = (verdict.category || 'entraide') as Categorie;
-  const expireAt = expireAtForPost(category, verdict.sousType);
+  const expireAt = await expireAtForPost(category, verdict.sousType, driverId);
   const finalContent = verdict.cleanContent || content.trim();
 
   const { data: inserted, error: insertErr } = await supa
@@ -288,7 +285,7 @@ router.get('/feed', async (req: Request, res: Response) => {
     .from('communaute_posts')
     .select(
       `id, categorie, sous_type, contenu, media_urls, audio_url, audio_duration_seconds,
-       latitude, longitude, geo_label, geo_precision, expire_at,
+       latitude, longitude, geo_label, geo_precision, expire_at, live_confidence,
        source_external, auteur_external_name,
        nb_confirmations, nb_infirmations, nb_mercis,
        auteur_id, created_at`,
@@ -383,6 +380,12 @@ router.post('/posts/:id/react', async (req: Request, res: Response) => {
   if (error && !error.message.includes('duplicate')) {
     return res.status(500).json({ error: error.message });
   }
+  // Confirme / infirme → confiance et expiration de l'alerte recalculées
+  if (type !== 'merci') {
+    refreshPostLifecycle(req.params.id).catch((e) =>
+      console.warn('[communaute/react] lifecycle refresh failed:', e?.message),
+    );
+  }
   return res.json({ ok: true, type });
 });
 
@@ -398,6 +401,11 @@ router.delete('/posts/:id/react', async (req: Request, res: Response) => {
     .from('communaute_reactions')
     .delete()
     .match({ post_id: req.params.id, user_id: driverId, type });
+  if (type !== 'merci') {
+    refreshPostLifecycle(req.params.id).catch((e) =>
+      console.warn('[communaute/react] lifecycle refresh failed:', e?.message),
+    );
+  }
   return res.json({ ok: true });
 });
 
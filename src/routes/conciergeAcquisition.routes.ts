@@ -37,6 +37,8 @@ import {
   DRAFT_CONTEXT_MESSAGES,
   UUID_RE,
 } from '../lib/concierge.constants.js';
+import { checkOutboundTarget } from '../services/SuppressionService.js';
+import { optoutUrl } from '../services/OptoutService.js';
 
 const router = Router();
 
@@ -501,11 +503,44 @@ router.post('/acquisition/outreach', async (req: Request, res: Response) => {
       });
     }
 
+    const supa = getSupa();
+
+    // Liste d'opposition (Bloctel, désabonnements) : chaque cible vérifiée
+    // avant dispatch, les prospects refusés ne partent pas à la Pieuvre.
+    const { data: targets } = await supa
+      .from('concierge_acquired_prospects')
+      .select('id, contact_email, contact_phone')
+      .in('id', prospect_ids)
+      .eq('driver_id', driverId);
+    const allowedIds: string[] = [];
+    const optoutUrls: Record<string, string> = {};
+    const blocked: Array<{ prospect_id: string; reason: string }> = [];
+    for (const t of (targets ?? []) as any[]) {
+      const address = channel === 'whatsapp' ? t.contact_phone : t.contact_email;
+      const check = await checkOutboundTarget(channel, address, {
+        driverId,
+        details: { prospect_id: t.id, source: 'concierge_outreach' },
+      });
+      if (!check.allowed) {
+        blocked.push({ prospect_id: t.id, reason: check.reason || 'suppressed' });
+        continue;
+      }
+      allowedIds.push(t.id);
+      optoutUrls[t.id] = optoutUrl(check.target!);
+    }
+    if (allowedIds.length === 0) {
+      return res.status(409).json({
+        ok: false,
+        error: 'Aucun contact joignable : tous sont en liste d\'opposition ou sans coordonnées valides.',
+        reason: 'suppressed',
+        blocked,
+      });
+    }
+
     // v1.10.60 — Trace l'envoi en DB AVANT le dispatch webhook pour audit
     // (et permettre au front d'afficher last_contact_at après refresh).
     // Soft fail si la table n'existe pas — n'empêche pas le webhook.
     const sentAt = new Date().toISOString();
-    const supa = getSupa();
     let dbTraced = false;
     try {
       // UPDATE last_contact_at + last_channel sur les prospects
@@ -516,7 +551,7 @@ router.post('/acquisition/outreach', async (req: Request, res: Response) => {
           last_channel: channel,
           contact_status: 'pending',
         })
-        .in('id', prospect_ids)
+        .in('id', allowedIds)
         .eq('driver_id', driverId);
       if (!updErr) dbTraced = true;
     } catch {
@@ -534,9 +569,11 @@ router.post('/acquisition/outreach', async (req: Request, res: Response) => {
         headers: { 'Content-Type': 'application/json', 'X-Foreas-Shared-Secret': secret },
         body: JSON.stringify({
           driver_id: driverId,
-          prospect_ids,
+          prospect_ids: allowedIds,
           channel,
           requested_at: sentAt,
+          // Lien de désabonnement HMAC par prospect, à ajouter au message
+          optout_urls: optoutUrls,
           // v1.10.61 — Si user a vu et confirmé un draft preview, on l'envoie
           // pour que la Pieuvre utilise CE message exact (et pas re-génère).
           confirmed_message_text: confirmedDraftMessage,
@@ -555,11 +592,12 @@ router.post('/acquisition/outreach', async (req: Request, res: Response) => {
       ok: true,
       sent_at: sentAt,
       channel,
-      prospects_count: prospect_ids.length,
+      prospects_count: allowedIds.length,
+      blocked,
       webhook_dispatched: webhookDispatched,
       db_traced: dbTraced,
       message: webhookDispatched
-        ? `Ajnaya envoie un ${channel === 'whatsapp' ? 'WhatsApp' : 'email'} à ${prospect_ids.length} contact${prospect_ids.length > 1 ? 's' : ''}…`
+        ? `Ajnaya envoie un ${channel === 'whatsapp' ? 'WhatsApp' : 'email'} à ${allowedIds.length} contact${allowedIds.length > 1 ? 's' : ''}…`
         : `Mission enregistrée. Ajnaya enverra le ${channel === 'whatsapp' ? 'WhatsApp' : 'email'} dès que la pieuvre est dispo.`,
     });
   } catch (err: any) {
@@ -1397,7 +1435,7 @@ router.post('/conversations/:prospect_id/reply', async (req: Request, res: Respo
     // Vérifier ownership + récupérer canal préféré (du dernier outbound)
     const { data: prospect } = await supa
       .from('concierge_acquired_prospects')
-      .select('id, contact_name, company_name')
+      .select('id, contact_name, company_name, contact_email, contact_phone')
       .eq('id', prospectId)
       .eq('driver_id', driverId)
       .maybeSingle();
@@ -1427,6 +1465,20 @@ router.post('/conversations/:prospect_id/reply', async (req: Request, res: Respo
       }
     }
 
+    // Liste d'opposition — réponse à un échange en cours : Bloctel ne s'applique pas
+    const suppression = await checkOutboundTarget(
+      channel,
+      channel === 'whatsapp' ? (prospect as any).contact_phone : (prospect as any).contact_email,
+      { driverId, prospecting: false, details: { prospect_id: prospectId, source: 'app_driver_reply' } },
+    );
+    if (!suppression.allowed) {
+      return res.status(409).json({
+        ok: false,
+        error: 'Ce contact a demandé à ne plus être contacté sur ce canal.',
+        reason: suppression.reason,
+      });
+    }
+
     // Délégation Pieuvre : POST webhook avec le message confirmé
     const pieuvreWebhook =
       process.env.PIEUVRE_OUTREACH_WEBHOOK_URL ||
@@ -1454,6 +1506,7 @@ router.post('/conversations/:prospect_id/reply', async (req: Request, res: Respo
           channel,
           requested_at: sentAt,
           confirmed_message_text: messageText,
+          optout_urls: { [prospectId]: optoutUrl(suppression.target!) },
           is_reply: true, // hint Pieuvre : c'est une réponse, pas un cold outreach
         }),
         signal: ctrl.signal,
@@ -0,0 +1,253 @@
+/**
+ * driverCalendar.routes.ts — Calendrier de disponibilité du chauffeur
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Header  Authorization: Bearer <supabase access_token du chauffeur>
+ *
+ * GET    /api/driver/calendar                → horaires, indisponibilités, réglages
+ * PUT    /api/driver/calendar/hours          → remplace les horaires hebdomadaires
+ * POST   /api/driver/calendar/blackouts      → ajoute une indisponibilité
+ * DELETE /api/driver/calendar/blackouts/:id  → supprime une indisponibilité
+ * PUT    /api/driver/calendar/settings       → tampon entre courses, délai minimum
+ * GET    /api/driver/calendar/cancellation-policy → politique d'annulation / absence / acompte
+ * PUT    /api/driver/calendar/cancellation-policy → modifie (champs fournis uniquement)
+ * GET    /api/driver/calendar/feed           → URL d'abonnement iCal (.ics)
+ * POST   /api/driver/calendar/feed/rotate    → nouvelle URL (l'ancienne cesse de fonctionner)
+ *
+ * Le formulaire public lit les créneaux via GET /api/bookings/availability/:siteSlug ;
+ * POST /api/bookings refuse tout créneau hors calendrier (DriverCalendarService).
+ */
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  addBlackout,
+  deleteBlackout,
+  getIcsFeedToken,
+  loadDriverCalendar,
+  replaceWeeklyHours,
+  updateCalendarSettings,
+} from '../services/DriverCalendarService.js';
+import { loadCancellationPolicy, updateCancellationPolicy } from '../services/CancellationPolicyService.js';
+import { AUDIT_ACTIONS, logAuditAsync } from '../data/auditLog.js';
+
+const router = Router();
+
+let admin: any = null;
+async function getAdmin() {
+  if (!admin) {
+    const { createClient } = await import('@supabase/supabase-js');
+    admin = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } },
+    );
+  }
+  return admin;
+}
+
+/** Badge (token) → id du chauffeur, ou réponse 401 envoyée */
+async function requireDriver(req: Request, res: Response): Promise<string | null> {
+  const authz = req.headers.authorization || '';
+  const token = authz.startsWith('Bearer ') ? authz.slice(7).trim() : '';
+  if (!token) {
+    res.status(401).json({ error: 'Non authentifié' });
+    return null;
+  }
+
+  const sb = await getAdmin();
+  const { data: userData, error: userErr } = await sb.auth.getUser(token);
+  if (userErr || !userData?.user?.id) {
+    res.status(401).json({ error: 'Session invalide' });
+    return null;
+  }
+  return userData.user.id;
+}
+
+const TIME = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'HH:MM');
+
+const HoursSchema = z.object({
+  hours: z
+    .array(
+      z
+        .object({
+          day_of_week: z.number().int().min(0).max(6),
+          start_time: TIME,
+          end_time: TIME,
+        })
+        .refine((h) => h.start_time.slice(0, 5) !== h.end_time.slice(0, 5), 'Plage vide'),
+    )
+    .max(50),
+});
+
+const BlackoutSchema = z
+  .object({
+    starts_at: z.string().datetime(),
+    ends_at: z.string().datetime(),
+    reason: z.string().max(200).nullable().optional(),
+  })
+  .refine((b) => Date.parse(b.ends_at) > Date.parse(b.starts_at), 'ends_at doit suivre starts_at');
+
+const SettingsSchema = z.object({
+  buffer_min: z.number().int().min(0).max(240).optional(),
+  min_notice_min: z.number().int().min(30).max(10080).optional(),
+});
+
+const PolicySchema = z.object({
+  free_cancel_hours: z.number().min(0).max(168).optional(),
+  late_cancel_fee_percent: z.number().min(0).max(100).optional(),
+  no_show_fee_percent: z.number().min(0).max(100).optional(),
+  reschedule_min_notice_hours: z.number().min(0).max(168).optional(),
+  max_reschedules: z.number().int().min(0).max(10).optional(),
+  deposit_percent: z.number().min(0).max(100).optional(),
+});
+
+// GET /api/driver/calendar
+router.get('/', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json(await loadDriverCalendar(driverId));
+  } catch (err: any) {
+    console.error('[Calendar] load error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT /api/driver/calendar/hours
+router.put('/hours', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = HoursSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    return res.json({ hours: await replaceWeeklyHours(driverId, parsed.data.hours) });
+  } catch (err: any) {
+    console.error('[Calendar] hours error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/driver/calendar/blackouts
+router.post('/blackouts', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = BlackoutSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    return res.status(201).json(await addBlackout(driverId, parsed.data));
+  } catch (err: any) {
+    console.error('[Calendar] blackout error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/driver/calendar/blackouts/:id
+router.delete('/blackouts/:id', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const deleted = await deleteBlackout(driverId, req.params.id);
+    if (!deleted) return res.status(404).json({ error: 'Indisponibilité introuvable' });
+    return res.json({ ok: true });
+  } catch (err: any) {
+    console.error('[Calendar] blackout delete error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT /api/driver/calendar/settings
+router.put('/settings', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = SettingsSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    return res.json(await updateCalendarSettings(driverId, parsed.data));
+  } catch (err: any) {
+    console.error('[Calendar] settings error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ── Politique d'annulation ──
+
+// GET /api/driver/calendar/cancellation-policy
+router.get('/cancellation-policy', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json(await loadCancellationPolicy(driverId));
+  } catch (err: any) {
+    console.error('[Calendar] policy load error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT /api/driver/calendar/cancellation-policy
+router.put('/cancellation-policy', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = PolicySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const policy = await updateCancellationPolicy(driverId, parsed.data);
+    logAuditAsync({
+      actorId: driverId,
+      actorRole: 'driver',
+      action: AUDIT_ACTIONS.BOOKING_POLICY_UPDATED,
+      targetType: 'driver',
+      targetId: driverId,
+      details: { changes: parsed.data },
+    });
+    return res.json(policy);
+  } catch (err: any) {
+    console.error('[Calendar] policy error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// ── Flux iCal ──
+
+function feedUrls(token: string) {
+  const base = process.env.BACKEND_URL || 'https://foreas-stripe-backend-production.up.railway.app';
+  const url = `${base.replace(/\/$/, '')}/api/bookings/calendar/${token}.ics`;
+  return { url, webcal_url: url.replace(/^https?:/, 'webcal:') };
+}
+
+// GET /api/driver/calendar/feed
+router.get('/feed', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json(feedUrls(await getIcsFeedToken(driverId)));
+  } catch (err: any) {
+    console.error('[Calendar] feed error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/driver/calendar/feed/rotate
+router.post('/feed/rotate', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json(feedUrls(await getIcsFeedToken(driverId, true)));
+  } catch (err: any) {
+    console.error('[Calendar] feed rotate error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+export const driverCalendarRouter = router;
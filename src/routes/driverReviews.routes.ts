@@ -0,0 +1,111 @@
+/**
+ * driverReviews.routes.ts — Avis clients côté chauffeur
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Header  Authorization: Bearer <supabase access_token du chauffeur>
+ *
+ * GET    /api/driver/reviews             → avis reçus (tous statuts) + note du site
+ * POST   /api/driver/reviews/:id/reply   → réponse publique (modérée avant publication)
+ * DELETE /api/driver/reviews/:id/reply   → retire la réponse
+ *
+ * Les avis sont déposés par les clients via le lien signé de l'email
+ * post-course (ReviewService) ; le chauffeur ne peut ni les modifier ni les masquer.
+ */
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  deleteDriverReply,
+  getSiteRatingSummary,
+  listDriverReviews,
+  saveDriverReply,
+} from '../services/ReviewService.js';
+
+const router = Router();
+
+let admin: any = null;
+async function getAdmin() {
+  if (!admin) {
+    const { createClient } = await import('@supabase/supabase-js');
+    admin = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } },
+    );
+  }
+  return admin;
+}
+
+/** Badge (token) → id du chauffeur, ou réponse 401 envoyée */
+async function requireDriver(req: Request, res: Response): Promise<string | null> {
+  const authz = req.headers.authorization || '';
+  const token = authz.startsWith('Bearer ') ? authz.slice(7).trim() : '';
+  if (!token) {
+    res.status(401).json({ error: 'Non authentifié' });
+    return null;
+  }
+
+  const sb = await getAdmin();
+  const { data: userData, error: userErr } = await sb.auth.getUser(token);
+  if (userErr || !userData?.user?.id) {
+    res.status(401).json({ error: 'Session invalide' });
+    return null;
+  }
+  return userData.user.id;
+}
+
+const ReplySchema = z.object({
+  reply: z.string().trim().min(2).max(600),
+});
+
+// GET /api/driver/reviews
+router.get('/', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const sb = await getAdmin();
+    const { data: site } = await sb.from('driver_sites').select('slug').eq('driver_id', driverId).limit(1).maybeSingle();
+    const [reviews, summary] = await Promise.all([
+      listDriverReviews(driverId),
+      site?.slug ? getSiteRatingSummary(site.slug) : null,
+    ]);
+    return res.json({ summary, reviews });
+  } catch (err: any) {
+    console.error('[Reviews] list error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/driver/reviews/:id/reply
+router.post('/:id/reply', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = ReplySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const saved = await saveDriverReply(driverId, req.params.id, parsed.data.reply);
+    if (!saved) return res.status(404).json({ error: 'Avis introuvable' });
+    return res.status(202).json(saved);
+  } catch (err: any) {
+    console.error('[Reviews] reply error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/driver/reviews/:id/reply
+router.delete('/:id/reply', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const deleted = await deleteDriverReply(driverId, req.params.id);
+    if (!deleted) return res.status(404).json({ error: 'Avis introuvable' });
+    return res.json({ ok: true });
+  } catch (err: any) {
+    console.error('[Reviews] reply delete error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+export const driverReviewsRouter = router;
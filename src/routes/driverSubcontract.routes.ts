@@ -0,0 +1,167 @@
+/**
+ * driverSubcontract.routes.ts — Sous-traitance de courses entre chauffeurs
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Header  Authorization: Bearer <supabase access_token du chauffeur>
+ *
+ * GET    /api/driver/subcontract/bookings/:id/candidates → confrères pouvant la reprendre
+ * POST   /api/driver/subcontract/bookings/:id/offer      → proposer la course (201)
+ * GET    /api/driver/subcontract/offers                  → offres reçues (ouvertes) + envoyées
+ * POST   /api/driver/subcontract/offers/:id/accept       → reprendre la course (premier arrivé)
+ * DELETE /api/driver/subcontract/offers/:id              → retirer son offre
+ *
+ * Réseau de confiance, agenda, véhicule et commission : SubcontractService.
+ */
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  acceptSubcontractOffer,
+  createSubcontractOffer,
+  findSubcontractCandidates,
+  listDriverOffers,
+  MAX_FINDER_FEE_PERCENT,
+  withdrawSubcontractOffer,
+} from '../services/SubcontractService.js';
+import type { AcceptRejection, OfferRejection } from '../services/SubcontractService.js';
+
+const router = Router();
+
+let admin: any = null;
+async function getAdmin() {
+  if (!admin) {
+    const { createClient } = await import('@supabase/supabase-js');
+    admin = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } },
+    );
+  }
+  return admin;
+}
+
+/** Badge (token) → id du chauffeur, ou réponse 401 envoyée */
+async function requireDriver(req: Request, res: Response): Promise<string | null> {
+  const authz = req.headers.authorization || '';
+  const token = authz.startsWith('Bearer ') ? authz.slice(7).trim() : '';
+  if (!token) {
+    res.status(401).json({ error: 'Non authentifié' });
+    return null;
+  }
+
+  const sb = await getAdmin();
+  const { data: userData, error: userErr } = await sb.auth.getUser(token);
+  if (userErr || !userData?.user?.id) {
+    res.status(401).json({ error: 'Session invalide' });
+    return null;
+  }
+  return userData.user.id;
+}
+
+const OFFER_ERRORS: Record<OfferRejection, [number, string]> = {
+  not_found: [404, 'Reservation introuvable'],
+  not_active: [409, 'Cette course n\'est plus active.'],
+  already_subcontracted: [409, 'Cette course a déjà été reprise par un confrère.'],
+  offer_open: [409, 'Une offre est déjà en cours pour cette course.'],
+  too_late: [409, 'Trop tard pour proposer la course — moins de 30 min avant la prise en charge.'],
+  no_candidates: [409, 'Aucun confrère de confiance disponible avec un véhicule compatible sur ce créneau.'],
+};
+
+const ACCEPT_ERRORS: Record<AcceptRejection, [number, string]> = {
+  not_found: [404, 'Offre introuvable'],
+  not_recipient: [404, 'Offre introuvable'],
+  expired: [410, 'Cette offre n\'est plus disponible.'],
+  taken: [409, 'Un confrère a déjà pris la course.'],
+  slot_unavailable: [409, 'Tu as déjà une course sur ce créneau.'],
+};
+
+const OfferSchema = z.object({
+  finder_fee_percent: z.number().min(0).max(MAX_FINDER_FEE_PERCENT).optional(),
+  driver_ids: z.array(z.string().uuid()).max(30).optional(),
+});
+
+// GET /api/driver/subcontract/bookings/:id/candidates
+router.get('/bookings/:id/candidates', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const sb = await getAdmin();
+    const { data: booking } = await sb.from('bookings').select('*').eq('id', req.params.id).maybeSingle();
+    if (!booking || booking.driver_id !== driverId) return res.status(404).json({ error: 'Reservation introuvable' });
+    return res.json({ candidates: await findSubcontractCandidates(booking) });
+  } catch (err: any) {
+    console.error('[Subcontract] candidates error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/driver/subcontract/bookings/:id/offer
+router.post('/bookings/:id/offer', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = OfferSchema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const result = await createSubcontractOffer(driverId, req.params.id, {
+      finderFeePercent: parsed.data.finder_fee_percent,
+      driverIds: parsed.data.driver_ids,
+    });
+    if (result.ok === false) {
+      const [status, error] = OFFER_ERRORS[result.reason];
+      return res.status(status).json({ error, code: result.reason });
+    }
+    return res.status(201).json({ offer: result.offer, recipients: result.recipients.length });
+  } catch (err: any) {
+    console.error('[Subcontract] offer error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// GET /api/driver/subcontract/offers
+router.get('/offers', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json(await listDriverOffers(driverId));
+  } catch (err: any) {
+    console.error('[Subcontract] list error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/driver/subcontract/offers/:id/accept
+router.post('/offers/:id/accept', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const result = await acceptSubcontractOffer(driverId, req.params.id);
+    if (result.ok === false) {
+      const [status, error] = ACCEPT_ERRORS[result.reason];
+      return res.status(status).json({ error, code: result.reason });
+    }
+    return res.json({ success: true, booking: result.booking, finder_fee: result.offer.finder_fee_amount });
+  } catch (err: any) {
+    console.error('[Subcontract] accept error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/driver/subcontract/offers/:id
+router.delete('/offers/:id', async (req: Request, res: Response) => {
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const withdrawn = await withdrawSubcontractOffer(driverId, req.params.id);
+    if (!withdrawn) return res.status(404).json({ error: 'Offre introuvable ou déjà traitée' });
+    return res.json({ ok: true });
+  } catch (err: any) {
+    console.error('[Subcontract] withdraw error:', err.message);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+export const driverSubcontractRouter = router;
@@ -11,6 +11,13 @@
  *
  * POST /api/internal/run-quality-score-batch
  *   Idem, recalcule les quality scores (hebdo)
+ *
+ * POST /api/internal/run-voice-scheduler    → planifie les premiers appels Ajnaya (quotidien)
+ * POST /api/internal/run-alert-lifecycle    → déclin / expiration des alertes Communauté (5 min)
+ * POST /api/internal/run-graph-trace-purge  → rétention des traces du graphe Ajnaya (quotidien)
+ * POST /api/internal/run-job-queue          → exécute un lot de job_queue (hors worker)
+ * GET  /api/internal/jobs/dead              → dead-letter (jobs abandonnés)
+ * POST /api/internal/jobs/:id/retry         → remet un job dead en file
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
@@ -142,4 +149,92 @@ router.post('/run-voice-budget-check', requireInternalSecret, async (_req, res)
   }
 });
 
+// ── Planification des appels Ajnaya (premiers appels) ───────────
+router.post('/run-voice-scheduler', requireInternalSecret, async (_req, res) => {
+  try {
+    const start = Date.now();
+    const { runVoiceSchedulerBatch } = await import('../jobs/voiceCallScheduler.js');
+    const result = await runVoiceSchedulerBatch();
+    res.json({ ok: true, durationMs: Date.now() - start, result });
+  } catch (e: any) {
+    console.error('[cron] Voice scheduler error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// ── Cycle de vie des alertes Communauté (toutes les 5 min) ───────
+router.post('/run-alert-lifecycle', requireInternalSecret, async (_req, res) => {
+  try {
+    const start = Date.now();
+    const { runAlertLifecycleSweep } = await import('../services/AlertLifecycleService.js');
+    const result = await runAlertLifecycleSweep();
+    res.json({ ok: true, durationMs: Date.now() - start, result });
+  } catch (e: any) {
+    console.error('[cron] Alert lifecycle error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// ── Rétention des traces du graphe Ajnaya (quotidien) ────────────
+router.post('/run-graph-trace-purge', requireInternalSecret, async (_req, res) => {
+  try {
+    const start = Date.now();
+    const { purgeGraphTraces } = await import('../lib/langgraph/traceStore.js');
+    const result = await purgeGraphTraces();
+    res.json({ ok: true, durationMs: Date.now() - start, result });
+  } catch (e: any) {
+    console.error('[cron] Graph trace purge error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// ── LLM budget monitor (mêmes seuils que le voice budget) ────────
+router.post('/run-llm-budget-check', requireInternalSecret, async (_req, res) => {
+  try {
+    const start = Date.now();
+    const { runLLMBudgetCheck } = await import('../jobs/llmBudgetMonitor.js');
+    const result = await runLLMBudgetCheck();
+    res.json({ ok: true, durationMs: Date.now() - start, result });
+  } catch (e: any) {
+    console.error('[cron] LLM budget check error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+// ── File de jobs : lot manuel + dead-letter ─────────────────────
+router.post('/run-job-queue', requireInternalSecret, async (_req, res) => {
+  try {
+    const start = Date.now();
+    const { runJobBatch } = await import('../services/JobQueueService.js');
+    const result = await runJobBatch(50);
+    res.json({ ok: true, durationMs: Date.now() - start, result });
+  } catch (e: any) {
+    console.error('[cron] Job queue batch error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.get('/jobs/dead', requireInternalSecret, async (req, res) => {
+  try {
+    const { listDeadJobs } = await import('../services/JobQueueService.js');
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    res.json({ ok: true, jobs: await listDeadJobs(limit) });
+  } catch (e: any) {
+    console.error('[cron] Dead jobs error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
+router.post('/jobs/:id/retry', requireInternalSecret, async (req, res) => {
+  try {
+    const { retryDeadJob } = await import('../services/JobQueueService.js');
+    const requeued = await retryDeadJob(req.params.id);
+    if (!requeued) return res.status(404).json({ ok: false, error: 'Job not found or not dead' });
+    res.json({ ok: true });
+  } catch (e: any) {
+    console.error('[cron] Job retry error:', e);
+    res.status(500).json({ ok: false, error: e.message });
+  }
+});
+
 export default router;
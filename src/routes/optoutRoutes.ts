@@ -2,12 +2,14 @@
  * Opt-out routes — Désinscription publique (RGPD)
  * Ajnaya2026v87.1
  *
- * GET /api/optout/:token  → valide + ajoute à finder_optout_list + page HTML
+ * GET /api/optout/:token  → valide + ajoute à la liste d'opposition + page HTML
+ *                            (email, ou numéro pour les liens SMS / WhatsApp)
  * GET /optout/:token      → alias raccourci (mêmes handlers)
  */
 
 import { Router, Request, Response } from 'express';
 import { decodeOptoutToken, addToOptoutList } from '../services/OptoutService.js';
+import { maskPhone } from '../helpers/phone.js';
 
 const router = Router();
 
@@ -28,8 +30,8 @@ function renderHtml(title: string, body: string): string {
 }
 
 router.get('/optout/:token', async (req: Request, res: Response) => {
-  const email = decodeOptoutToken(req.params.token);
-  if (!email) {
+  const target = decodeOptoutToken(req.params.token);
+  if (!target) {
     return res
       .status(400)
       .send(
@@ -41,12 +43,15 @@ router.get('/optout/:token', async (req: Request, res: Response) => {
   }
 
   try {
-    await addToOptoutList(email, 'link');
+    await addToOptoutList(target, 'link');
+    const who = target.includes('@')
+      ? `L'adresse <strong>${escapeHtml(target)}</strong> ne recevra plus aucun message de FOREAS.`
+      : `Le numéro <strong>${escapeHtml(maskPhone(target))}</strong> ne recevra plus aucun appel, SMS ni WhatsApp de FOREAS.`;
     return res.status(200).send(
       renderHtml(
         'Désabonnement confirmé',
         `<h1>✅ Désabonnement confirmé</h1>
-         <p>L'adresse <strong>${escapeHtml(email)}</strong> ne recevra plus aucun message de FOREAS.</p>
+         <p>${who}</p>
          <p>Une erreur ? <a href="mailto:contact@foreas.xyz">contact@foreas.xyz</a></p>`,
       ),
     );
@@ -186,6 +186,19 @@ router.post('/send-otp', async (req: Request, res: Response) => {
       );
     }
 
+    // Registre SMS (support) : Verify reste hors SmsGateway, l'envoi y est tracé quand même
+    import('../services/SmsGateway.js')
+      .then(({ recordExternalSms }) =>
+        recordExternalSms(normalizedPhone, {
+          provider: 'twilio_verify',
+          purpose: 'otp',
+          ok: smsSent,
+          providerMessageId: twilioVerificationMarker?.slice('twilio:'.length) ?? null,
+          error: smsSent ? undefined : 'verify_failed',
+        }),
+      )
+      .catch(() => {});
+
     // === CRÉATION SESSION ===
     // otp_hash/otp_salt restent NULL : Twilio seul connaît le code. Le champ
     // bird_verification_id (nom legacy, conservé pour ne pas migrer le schéma)
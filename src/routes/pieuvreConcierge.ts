@@ -18,6 +18,8 @@
 import { Router, Request, Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { renderPlaquetteHtml } from '../services/PlaquetteRenderer.js';
+import { optoutUrl } from '../services/OptoutService.js';
+import { checkOutboundTarget } from '../services/SuppressionService.js';
 
 const router = Router();
 
@@ -256,10 +258,18 @@ router.delete('/voice', async (req: Request, res: Response) => {
 // Flow :
 //   1. Vérifie que le prospect appartient bien au driver
 //   2. Vérifie que le téléphone du prospect est renseigné
-//   3. Envoie via Meta Cloud API (POST /v18.0/{PHONE_NUMBER_ID}/messages)
-//   4. Log dans pieuvre_conversations (direction=outbound)
+//   3. Liste d'opposition (checkOutboundTarget 'whatsapp') : refus → 409 ;
+//      texte libre suffixé du lien de désabonnement (optoutUrl)
+//   4. Envoie via Meta Cloud API (POST /v18.0/{PHONE_NUMBER_ID}/messages)
+//   5. Log dans pieuvre_conversations (direction=outbound)
 // ════════════════════════════════════════════════════════════════════════
 
+/** Texte libre + lien de désabonnement, dans la limite de 4096 caractères de WhatsApp */
+function withOptoutLink(text: string, target: string): string {
+  const footer = `\n\nNe plus recevoir de messages : ${optoutUrl(target)}`;
+  return text.slice(0, 4096 - footer.length) + footer;
+}
+
 router.post('/whatsapp/send', async (req: Request, res: Response) => {
   const driverId = await getDriverIdFromJWT(req);
   if (!driverId) return res.status(401).json({ error: 'Non authentifié' });
@@ -296,11 +306,22 @@ router.post('/whatsapp/send', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Numéro du prospect manquant' });
     }
 
+    // ── Liste d'opposition (Bloctel, désabonnements) ──────────────────
+    const suppression = await checkOutboundTarget('whatsapp', prospect.phone, {
+      driverId,
+      details: { prospect_id: prospect.id, source: 'pieuvre_whatsapp_send' },
+    });
+    if (!suppression.allowed) {
+      return res.status(409).json({
+        error: 'Contact injoignable : en liste d\'opposition ou numéro invalide.',
+        reason: suppression.reason || 'suppressed',
+      });
+    }
+
     // ── Construit le payload WhatsApp ─────────────────────────────────
-    const toE164 = prospect.phone.replace(/\s/g, '').replace(/^00/, '+');
     const basePayload: Record<string, unknown> = {
       messaging_product: 'whatsapp',
-      to: toE164.startsWith('+') ? toE164 : `+${toE164}`,
+      to: suppression.target!,
     };
 
     let messagePayload: Record<string, unknown>;
@@ -320,7 +341,7 @@ router.post('/whatsapp/send', async (req: Request, res: Response) => {
       messagePayload = {
         ...basePayload,
         type: 'text',
-        text: { body: String(text).slice(0, 4096), preview_url: false },
+        text: { body: withOptoutLink(String(text), suppression.target!), preview_url: false },
       };
     }
 
@@ -2,6 +2,7 @@
  * GET /api/pieuvre/dashboard/:driverId
  * GET /api/pieuvre/prospects/:driverId
  * GET /api/pieuvre/conversations/:driverId
+ * GET /api/pieuvre/voice-funnel/:driverId
  *
  * Endpoints qui exposent au driver app la puissance Pieuvre en arrière-plan.
  * Agrège :
@@ -11,11 +12,13 @@
  *   - pieuvre_crm_enrichment (scores)
  *   - pieuvre_phone_calls (appels)
  *   - pieuvre_acquisition_pipeline (Apollo.io enrichment)
+ *   - finder_voice_calls + finder_voice_call_objections (funnel appels Ajnaya)
  *
  * Auth : JWT driver requis
  */
 import { Router, Request, Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { buildVoiceFunnel } from '../services/VoiceCallInsightService.js';
 
 const router = Router();
 
@@ -281,6 +284,76 @@ router.get('/conversations/:driverId', async (req: Request, res: Response) => {
   }
 });
 
+// ══════════════════════════════════════════════════════════════════════════
+// GET /api/pieuvre/voice-funnel/:driverId?days=30
+// Funnel des appels Ajnaya (écran 4) : appels → décroché → décideur →
+// intéressé → converti, objections, conformité, scripts (VoiceCallInsightService)
+// ══════════════════════════════════════════════════════════════════════════
+
+router.get('/voice-funnel/:driverId', async (req: Request, res: Response) => {
+  const authDriverId = await getDriverIdFromJWT(req);
+  const paramDriverId = req.params.driverId;
+  if (!authDriverId || authDriverId !== paramDriverId) {
+    return res.status(401).json({ error: 'Non authentifié' });
+  }
+
+  try {
+    const supa = await getSupa();
+    const days = Math.min(180, Math.max(1, parseInt(String(req.query.days || '30'), 10) || 30));
+    const sinceISO = new Date(Date.now() - days * 86400000).toISOString();
+
+    const [callsRes, objectionsRes] = await Promise.all([
+      supa
+        .from('finder_voice_calls')
+        .select(
+          'id, status, outcome, interest_level, decision_maker_reached, callback_at, compliance_issues, script_variant_id, cost_estimate_eur',
+        )
+        .eq('driver_id', paramDriverId)
+        .gte('started_at', sinceISO),
+      supa
+        .from('finder_voice_call_objections')
+        .select('category, resolved')
+        .eq('driver_id', paramDriverId)
+        .gte('created_at', sinceISO),
+    ]);
+    if (callsRes.error) throw callsRes.error;
+
+    const funnel = buildVoiceFunnel(callsRes.data || [], objectionsRes.data || []);
+
+    // Noms des scripts pour l'affichage
+    const scriptIds = funnel.scripts.map((s) => s.scriptId);
+    const { data: scripts } = scriptIds.length
+      ? await supa.from('finder_voice_script_variants').select('id, variant_name').in('id', scriptIds)
+      : { data: [] as any[] };
+    const scriptNames = new Map((scripts || []).map((s: any) => [s.id, s.variant_name]));
+
+    // Appels planifiés (jobs/voiceCallScheduler) : premiers appels, rappels, relances
+    const { data: upcoming } = await supa
+      .from('pieuvre_b2b_hunter_log')
+      .select('id, business_name, next_call_at, next_call_reason')
+      .eq('driver_id', paramDriverId)
+      .not('next_call_at', 'is', null)
+      .order('next_call_at', { ascending: true })
+      .limit(10);
+
+    return res.json({
+      periodDays: days,
+      ...funnel,
+      scripts: funnel.scripts.map((s) => ({ ...s, name: scriptNames.get(s.scriptId) || null })),
+      upcomingCalls: (upcoming || []).map((l: any) => ({
+        logId: l.id,
+        at: l.next_call_at,
+        reason: l.next_call_reason,
+        businessName: l.business_name || 'Prospect',
+      })),
+      refreshedAt: new Date().toISOString(),
+    });
+  } catch (err: any) {
+    console.error('[pieuvre/voice-funnel] error', err?.message);
+    return res.status(500).json({ error: err?.message || 'Erreur serveur' });
+  }
+});
+
 // ══════════════════════════════════════════════════════════════════════════
 // Helpers
 // ══════════════════════════════════════════════════════════════════════════
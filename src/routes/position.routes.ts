@@ -45,6 +45,8 @@ const MIN_INTERVAL_MS = 20_000;
 // l'endroit d'un signalement encore actif s'il y est toujours. Réutilise le
 // flux de position qu'on vient de solidifier (foreground + arrière-plan) —
 // chaque écriture de position est une occasion de vérifier, gratuitement.
+// Les réponses (alert_validations) nourrissent la confiance live de l'alerte :
+// expiration et réputation de l'auteur → AlertLifecycleService.
 const PASS_RADIUS_KM = 0.08; // 80 m — "pile à l'endroit", pas juste "dans le coin" (1,5 km = notify-nearby-drivers)
 const ALERT_LABELS: Record<string, string> = {
   police: 'Contrôle police',
@@ -0,0 +1,188 @@
+/**
+ * Private Hunter Routes — demandes de chasse client (abonnés Stripe Connect)
+ *
+ * POST  /api/private-hunter/requests/:driverId                    — créer une demande (+ rapprochement)
+ * GET   /api/private-hunter/requests/:driverId                    — demandes + correspondances
+ * POST  /api/private-hunter/requests/:driverId/:requestId/rematch — relancer le rapprochement
+ * POST  /api/private-hunter/requests/:driverId/:requestId/cancel  — annuler
+ * PATCH /api/private-hunter/matches/:driverId/:matchId            — faire avancer une correspondance
+ *
+ * Header  Authorization: Bearer <supabase access_token du chauffeur>
+ * :driverId doit être le chauffeur du token (403 sinon).
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  PrivateHunterError,
+  cancelHuntingRequest,
+  createHuntingRequest,
+  listHuntingRequests,
+  runHuntingMatch,
+  updateHuntMatchStatus,
+} from '../services/PrivateHunterService.js';
+import type { HuntingRequest } from '../services/PrivateHunterService.js';
+
+const router = Router();
+
+function dbConfigured(): boolean {
+  return !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+let admin: any = null;
+async function getAdmin() {
+  if (!admin) {
+    const { createClient } = await import('@supabase/supabase-js');
+    admin = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } },
+    );
+  }
+  return admin;
+}
+
+/** Badge (token) → id du chauffeur s'il correspond à :driverId, ou réponse 401 / 403 envoyée */
+async function requireDriver(req: Request, res: Response): Promise<string | null> {
+  const authz = req.headers.authorization || '';
+  const token = authz.startsWith('Bearer ') ? authz.slice(7).trim() : '';
+  if (!token) {
+    res.status(401).json({ error: 'Non authentifié' });
+    return null;
+  }
+
+  const sb = await getAdmin();
+  const { data: userData, error: userErr } = await sb.auth.getUser(token);
+  if (userErr || !userData?.user?.id) {
+    res.status(401).json({ error: 'Session invalide' });
+    return null;
+  }
+  if (userData.user.id !== req.params.driverId) {
+    res.status(403).json({ error: 'Accès refusé' });
+    return null;
+  }
+  return userData.user.id;
+}
+
+function sendError(res: Response, err: any) {
+  if (err instanceof PrivateHunterError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+  console.error('[PrivateHunter] Route error:', err.message);
+  return res.status(500).json({ error: err.message });
+}
+
+// ── POST /requests/:driverId ──────────────────────────────────────
+const RequestSchema = z.object({
+  targetFamily: z
+    .enum([
+      'HOSPITALITY',
+      'HIGH_INCOME',
+      'EVENT',
+      'GASTRONOMY',
+      'CORPORATE',
+      'HEALTH_LUXURY',
+      'REAL_ESTATE',
+      'DIPLOMATIC',
+    ])
+    .nullable()
+    .optional(),
+  targetPlaceTypes: z.array(z.string().min(1)).max(10).optional(),
+  city: z.string().min(1),
+  centerLat: z.number().min(-90).max(90).nullable().optional(),
+  centerLng: z.number().min(-180).max(180).nullable().optional(),
+  radiusKm: z.number().min(0.5).max(100).optional(),
+  windowStart: z.string().datetime(),
+  windowEnd: z.string().datetime(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+router.post('/requests/:driverId', async (req: Request, res: Response) => {
+  if (!dbConfigured()) return res.status(503).json({ error: 'DB not configured' });
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = RequestSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const result = await createHuntingRequest(driverId, parsed.data);
+    return res.status(201).json(result);
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+// ── GET /requests/:driverId ───────────────────────────────────────
+router.get('/requests/:driverId', async (req: Request, res: Response) => {
+  if (!dbConfigured()) return res.status(503).json({ error: 'DB not configured' });
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json({ requests: await listHuntingRequests(driverId) });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+// ── POST /requests/:driverId/:requestId/rematch ───────────────────
+router.post('/requests/:driverId/:requestId/rematch', async (req: Request, res: Response) => {
+  if (!dbConfigured()) return res.status(503).json({ error: 'DB not configured' });
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    const requests = await listHuntingRequests(driverId);
+    const request = requests.find((r) => r.id === req.params.requestId);
+    if (!request) return res.status(404).json({ error: 'Request not found' });
+    if (!['pending', 'matched', 'no_match'].includes(request.status)) {
+      return res.status(409).json({ error: `Request is ${request.status}` });
+    }
+
+    const { matches: _matches, ...row } = request;
+    return res.json(await runHuntingMatch(row as HuntingRequest));
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+// ── POST /requests/:driverId/:requestId/cancel ────────────────────
+router.post('/requests/:driverId/:requestId/cancel', async (req: Request, res: Response) => {
+  if (!dbConfigured()) return res.status(503).json({ error: 'DB not configured' });
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  try {
+    return res.json(await cancelHuntingRequest(driverId, req.params.requestId));
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+// ── PATCH /matches/:driverId/:matchId ─────────────────────────────
+const MatchUpdateSchema = z.object({
+  status: z.enum(['contacted', 'accepted', 'booked', 'confirmed', 'declined']),
+  bookingAt: z.string().datetime().optional(),
+  amountEur: z.number().min(0).max(100_000).optional(),
+});
+
+router.patch('/matches/:driverId/:matchId', async (req: Request, res: Response) => {
+  if (!dbConfigured()) return res.status(503).json({ error: 'DB not configured' });
+  const driverId = await requireDriver(req, res);
+  if (!driverId) return;
+
+  const parsed = MatchUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const { status, bookingAt, amountEur } = parsed.data;
+    return res.json(
+      await updateHuntMatchStatus(driverId, req.params.matchId, status, { bookingAt, amountEur }),
+    );
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+export default router;
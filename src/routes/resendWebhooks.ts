@@ -142,16 +142,9 @@ router.post('/', async (req: Request, res: Response) => {
       const toEmail = event?.data?.to?.[0] as string | undefined;
 
       if (toEmail) {
-        // 1. Ajouter à la finder_optout_list
-        await supa.from('finder_optout_list').upsert(
-          {
-            email: toEmail.toLowerCase().trim(),
-            source: 'complaint',
-            reason: 'SPAM complaint via Resend webhook',
-            optout_at: new Date().toISOString(),
-          },
-          { onConflict: 'email' },
-        );
+        // 1. Ajouter à la liste d'opposition (outreach_suppressions)
+        const { addToOptoutList } = await import('../services/OptoutService.js');
+        await addToOptoutList(toEmail, 'complaint', 'SPAM complaint via Resend webhook');
 
         // 2. Nettoyer places_directory
         await supa
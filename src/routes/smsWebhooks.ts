@@ -0,0 +1,67 @@
+/**
+ * SMS delivery webhooks — accusés de réception fournisseurs → registre sms_messages
+ *
+ * POST /api/webhooks/sms/twilio        StatusCallback (form-urlencoded)
+ * POST /api/webhooks/sms/bird          webhook "sms.outbound" du workspace (JSON)
+ * GET|POST /api/webhooks/sms/messagebird  reportUrl (query ou form)
+ *
+ * Authentification :
+ *   - ?token=SMS_WEBHOOK_TOKEN (ajouté par SmsGateway aux URLs de rappel, à
+ *     renseigner à la main dans le dashboard Bird), comparé à temps constant
+ *   - signature du fournisseur sur l'URL publique (BACKEND_URL) et le corps :
+ *     X-Twilio-Signature (TWILIO_AUTH_TOKEN), messagebird-signature
+ *     (BIRD_WEBHOOK_SIGNING_KEY), MessageBird-Signature-JWT (MESSAGEBIRD_SIGNING_KEY).
+ *     Secret absent → signature non vérifiée (warning), le jeton reste exigé.
+ * Toujours 200 une fois authentifié : un 5xx ferait rejouer le fournisseur en boucle.
+ */
+
+import { Router, Request, Response } from 'express';
+import { applyDeliveryReceipt, publicWebhookUrl, verifyDeliveryReceipt } from '../services/SmsGateway.js';
+import { safeEqual } from '../services/smsProviders/index.js';
+import type { SmsProviderName } from '../services/smsProviders/index.js';
+
+const router = Router();
+
+const RECEIPT_PROVIDERS: SmsProviderName[] = ['twilio', 'bird', 'messagebird'];
+
+async function handleReceipt(req: Request, res: Response) {
+  const expected = process.env.SMS_WEBHOOK_TOKEN;
+  if (!expected) {
+    console.error('[SmsWebhook] SMS_WEBHOOK_TOKEN not set — refusing receipts');
+    return res.status(503).json({ error: 'SMS webhooks not configured' });
+  }
+  if (typeof req.query.token !== 'string' || !safeEqual(req.query.token, expected)) {
+    console.warn('[SmsWebhook] Invalid token');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const provider = req.params.provider as SmsProviderName;
+  if (!RECEIPT_PROVIDERS.includes(provider)) return res.status(404).json({ error: 'Unknown provider' });
+
+  const rawBody = (req as any).rawBody ?? (req.is('json') ? JSON.stringify(req.body) : '');
+  const signed = verifyDeliveryReceipt(provider, {
+    url: publicWebhookUrl(req.originalUrl),
+    headers: req.headers,
+    rawBody: String(rawBody),
+    params: req.is('urlencoded') ? req.body || {} : {},
+  });
+  if (signed === false) {
+    console.warn(`[SmsWebhook] ${provider} invalid signature`);
+    return res.status(401).json({ error: 'invalid_signature' });
+  }
+  if (signed === null) console.warn(`[SmsWebhook] ⚠️ ${provider} signing secret not set — signature check SKIPPED`);
+
+  try {
+    const payload = { ...(req.query as Record<string, any>), ...(req.body || {}) };
+    const matched = await applyDeliveryReceipt(provider, payload);
+    if (!matched) console.log(`[SmsWebhook] ${provider} receipt ignored (unknown message or status)`);
+  } catch (err: any) {
+    console.error(`[SmsWebhook] ${provider} receipt error:`, err.message);
+  }
+  return res.status(200).send('OK');
+}
+
+router.get('/:provider', handleReceipt);
+router.post('/:provider', handleReceipt);
+
+export default router;
@@ -2,14 +2,16 @@
  * Voice Routes v88 — ElevenLabs Agent webhooks
  * Ajnaya2026v88
  *
- * POST /elevenlabs/post-call    — Webhook post-call (transcript + analysis)
+ * POST /elevenlabs/post-call    — Webhook post-call (transcript + analysis → job voice.insights)
  * POST /elevenlabs/server-tool  — Server Tools (transfer_to_driver, schedule_callback)
- * POST /trigger/:logId          — Trigger a call manually (admin)
+ * POST /trigger/:logId          — Trigger a call manually (admin) ; sinon jobs/voiceCallScheduler
  * GET  /calls/:driverId         — List calls for a driver
  */
 import { Router, Request, Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { initiateElevenLabsCall } from '../services/ElevenLabsCallService.js';
+import { enqueueCallInsights } from '../services/VoiceCallInsightService.js';
+import { recordNoAnswer } from '../jobs/voiceCallScheduler.js';
 
 const router = Router();
 
@@ -44,23 +46,11 @@ router.post('/elevenlabs/post-call', async (req: Request, res: Response) => {
 
     const supa = getSupa();
 
-    // Idempotence check
-    const { data: existingCall } = await supa
-      .from('finder_voice_calls')
-      .select('id, status')
-      .eq('elevenlabs_conversation_id', conversation_id)
-      .maybeSingle();
-
-    if (
-      existingCall &&
-      ['COMPLETED', 'FAILED', 'TRANSFERRED'].includes((existingCall as any).status)
-    ) {
-      return res.status(200).json({ ok: true, already_processed: true });
-    }
-
+    // Idempotence : ended_at n'est posé que par ce webhook (un appel TRANSFERRED
+    // en cours de conversation doit encore recevoir son transcript)
     const { data: call } = await supa
       .from('finder_voice_calls')
-      .select('id, driver_id, thread_id, log_id')
+      .select('id, driver_id, thread_id, log_id, status, ended_at')
       .eq('elevenlabs_conversation_id', conversation_id)
       .maybeSingle();
 
@@ -68,6 +58,9 @@ router.post('/elevenlabs/post-call', async (req: Request, res: Response) => {
       console.warn(`[VoiceRoutes] Post-call: no call found for ${conversation_id}`);
       return res.status(200).json({ ok: true, matched: false });
     }
+    if ((call as any).ended_at) {
+      return res.status(200).json({ ok: true, already_processed: true });
+    }
 
     const outcome = mapElevenLabsOutcome(analysis);
     const summary = await generateCallSummary(transcript);
@@ -75,7 +68,8 @@ router.post('/elevenlabs/post-call', async (req: Request, res: Response) => {
     await supa
       .from('finder_voice_calls')
       .update({
-        status: call_successful ? 'COMPLETED' : 'FAILED',
+        status:
+          (call as any).status === 'TRANSFERRED' ? 'TRANSFERRED' : call_successful ? 'COMPLETED' : 'FAILED',
         ended_at: new Date().toISOString(),
         duration_seconds: call_duration_secs || null,
         outcome,
@@ -83,11 +77,16 @@ router.post('/elevenlabs/post-call', async (req: Request, res: Response) => {
         full_transcript: transcript || null,
         analysis_data: analysis || null,
         cost_estimate_eur: estimateCallCost(call_duration_secs || 0),
+        insights_status: transcript ? 'pending' : 'skipped',
       })
       .eq('id', (call as any).id);
 
-    // Update hunter log
-    if ((call as any).log_id && outcome) {
+    // Update hunter log — sans réponse : relance espacée (voiceCallScheduler)
+    if ((call as any).log_id && outcome === 'UNREACHABLE') {
+      await recordNoAnswer((call as any).log_id).catch((err: any) =>
+        console.error(`[VoiceRoutes] no-answer retry failed for log ${(call as any).log_id}: ${err.message}`),
+      );
+    } else if ((call as any).log_id && outcome) {
       const logStatus =
         outcome === 'CONVERTED'
           ? 'CONVERTED'
@@ -102,6 +101,7 @@ router.post('/elevenlabs/post-call', async (req: Request, res: Response) => {
         .update({
           status: logStatus,
           call_summary: summary,
+          no_answer_count: 0,
         })
         .eq('id', (call as any).log_id);
     }
@@ -117,6 +117,13 @@ router.post('/elevenlabs/post-call', async (req: Request, res: Response) => {
       });
     }
 
+    // Objections, intérêt, rappel, décideur, conformité → job voice.insights
+    if (transcript) {
+      await enqueueCallInsights((call as any).id).catch((err: any) =>
+        console.error(`[VoiceRoutes] insights enqueue failed for ${(call as any).id}: ${err.message}`),
+      );
+    }
+
     console.log(
       `[VoiceRoutes] Post-call OK: ${conversation_id} → ${outcome} (${call_duration_secs}s)`,
     );
@@ -31,7 +31,9 @@
 import { Router, Request, Response } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
-import { sendDriverPush } from '../lib/expoPush.js';
+import { enqueueDriverPush } from '../lib/expoPush.js';
+import { addToOptoutList } from '../services/OptoutService.js';
+import { isStopMessage } from '../services/SuppressionService.js';
 
 const router = Router();
 
@@ -228,6 +230,15 @@ router.post('/status', async (req: Request, res: Response) => {
             const truncPhone = fromPhone.length > 4 ? `***${fromPhone.slice(-4)}` : '***';
             console.log(`[WhatsAppWebhook] inbound message from ${truncPhone}`);
 
+            // Réponse STOP / ARRÊT → liste d'opposition (plus de WhatsApp, SMS ni appel)
+            if (isStopMessage(textBody)) {
+              try {
+                await addToOptoutList(fromPhone, 'reply', 'STOP WhatsApp');
+              } catch (e: any) {
+                console.warn('[WhatsAppWebhook] opt-out soft-fail:', e?.message);
+              }
+            }
+
             // v1.10.62 — Fix B6 : Cross-driver leak prevention.
             // AVANT : UPDATE outbound match juste par recipient_phone → si 2
             // chauffeurs avaient contacté ce numéro, replied_at allait sur le
@@ -306,7 +317,9 @@ router.post('/status', async (req: Request, res: Response) => {
                   // v1.10.63 (Ajnaya2026v120) — Payload push minimal :
                   // {type, prospect_id, channel} suffit pour le deep link.
                   // conversation_id retiré (économie ~30 bytes × N notifs/mois).
-                  await sendDriverPush(matchingOutbound.driver_id, {
+                  // File de jobs : retry si Expo KO, wamid = clé d'idempotence
+                  // (Meta rejoue le webhook en cas de timeout).
+                  await enqueueDriverPush(matchingOutbound.driver_id, {
                     title: `📨 ${prospectLabel} t'a répondu`,
                     body: textBody
                       ? textBody.length > 80
@@ -319,7 +332,7 @@ router.post('/status', async (req: Request, res: Response) => {
                       channel: 'whatsapp',
                     },
                     categoryId: 'prospect_reply',
-                  });
+                  }, { idempotencyKey: wamid ? `whatsapp-reply:${wamid}` : undefined });
                 } catch (pushErr: any) {
                   // Push non-bloquant : on log et on continue
                   console.warn('[WhatsAppWebhook] push notif soft-fail:', pushErr?.message);
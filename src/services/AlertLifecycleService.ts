@@ -0,0 +1,441 @@
+/**
+ * AlertLifecycleService — cycle de vie des alertes Communauté
+ * ============================================================
+ * Deux sources d'alertes terrain :
+ *   communaute_posts (categorie 'alerte', sous_type boer/urssaf/surge…)
+ *     votes : communaute_reactions confirme / infirme (fil Communauté)
+ *   community_alerts (alert_type police/radar/bouchon/accident…)
+ *     votes : alert_validations.still_there (« Toujours là ? », position.routes)
+ *
+ * Confiance live = crédibilité × fraîcheur
+ *   crédibilité  a priori selon le score de confiance de l'auteur, puis
+ *                chaque confirmation / infirmation pondérée par le score
+ *                du votant (/me/confiance) — log-odds
+ *   fraîcheur    demi-vie propre à la catégorie, comptée depuis la dernière
+ *                confirmation (un « toujours là » relance la courbe)
+ *
+ * Sous EXPIRE_CONFIDENCE, ou au-delà de la durée max de la catégorie,
+ * l'alerte expire. expire_at / expires_at porte l'instant projeté : le feed
+ * (`expire_at > now`) masque une alerte à l'heure dite sans attendre le balayage.
+ *
+ * À la clôture : issue confirmed / refuted / faded et réputation de l'auteur
+ * (apply_alert_reputation) — pénalité croissante avec ses alertes déjà infirmées.
+ *
+ * Recalcul : à chaque réaction (communauteRoutes) + balayage 5 min
+ * (POST /api/internal/run-alert-lifecycle).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  _supa = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  return _supa;
+}
+
+// ── Courbes de déclin ─────────────────────────────────────────────
+
+export interface DecayCurve {
+  /** Minutes pour que la fraîcheur soit divisée par 2 */
+  halfLifeMin: number;
+  /** Durée de vie max depuis la création, même confirmée */
+  maxLifetimeMin: number;
+}
+
+const CONTROLE: DecayCurve = { halfLifeMin: 60, maxLifetimeMin: 180 };
+const MANIF: DecayCurve = { halfLifeMin: 90, maxLifetimeMin: 360 };
+const ACCIDENT: DecayCurve = { halfLifeMin: 45, maxLifetimeMin: 240 };
+
+export const ALERT_DECAY_CURVES: Record<string, DecayCurve> = {
+  // community_alerts.alert_type
+  police: CONTROLE,
+  radar: { halfLifeMin: 120, maxLifetimeMin: 480 }, // radar mobile / chantier : reste en place
+  bouchon: { halfLifeMin: 30, maxLifetimeMin: 180 },
+  accident: ACCIDENT,
+  manifestation: MANIF,
+  autre: { halfLifeMin: 60, maxLifetimeMin: 240 },
+  // communaute_posts.sous_type (alerte)
+  boer: CONTROLE,
+  urssaf: CONTROLE,
+  municipal: CONTROLE,
+  dgccrf: CONTROLE,
+  dreal: CONTROLE,
+  bac: { halfLifeMin: 45, maxLifetimeMin: 150 },
+  piege: { halfLifeMin: 480, maxLifetimeMin: 1440 },
+  zone_chaude: { halfLifeMin: 30, maxLifetimeMin: 90 },
+  surge: { halfLifeMin: 15, maxLifetimeMin: 45 },
+  manif: MANIF,
+  // community_alerts issues d'un post viral (check-alert, alert_type en majuscules)
+  controle: CONTROLE,
+  route: { halfLifeMin: 30, maxLifetimeMin: 180 },
+  event: MANIF,
+  danger: { halfLifeMin: 60, maxLifetimeMin: 240 },
+};
+
+const DEFAULT_CURVE: DecayCurve = { halfLifeMin: 60, maxLifetimeMin: 240 };
+
+/** Sous ce seuil de confiance, l'alerte disparaît */
+export const EXPIRE_CONFIDENCE = 0.2;
+/** Score de confiance d'un chauffeur sans ligne communaute_confiance (/me/confiance) */
+export const DEFAULT_TRUST_SCORE = 30;
+/** Poids (log-odds) d'un vote d'un chauffeur à 100 de confiance */
+const CONFIRM_WEIGHT = 1.0;
+const REFUTE_WEIGHT = 1.5;
+/** Votes distincts nécessaires pour qualifier l'issue */
+const MIN_OUTCOME_VOTES = 2;
+
+const MIN_MS = 60 * 1000;
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+export interface LifecycleVote {
+  confirms: boolean;
+  at: number;
+  /** Score de confiance du votant (null = inconnu) */
+  voterScore: number | null;
+}
+
+export interface LifecycleInput {
+  category: string | null;
+  createdAt: number;
+  authorScore: number | null;
+  votes: LifecycleVote[];
+}
+
+export type LifecycleOutcome = 'confirmed' | 'refuted' | 'faded';
+
+export interface LifecycleState {
+  confidence: number;
+  credibility: number;
+  lastConfirmedAt: number;
+  /** Instant projeté d'expiration (sans nouveau vote) */
+  expiresAt: number;
+  expired: boolean;
+  confirmWeight: number;
+  refuteWeight: number;
+  confirms: number;
+  refutes: number;
+}
+
+export function decayCurveFor(category: string | null | undefined): DecayCurve {
+  return ALERT_DECAY_CURVES[(category || '').toLowerCase()] ?? DEFAULT_CURVE;
+}
+
+/** Score 0-100 → poids 0.1-1 (un nouveau compte pèse toujours un peu) */
+export function trustWeight(score: number | null | undefined): number {
+  const s = Math.min(100, Math.max(0, score ?? DEFAULT_TRUST_SCORE));
+  return Math.max(0.1, s / 100);
+}
+
+export function computeLifecycle(input: LifecycleInput, now: number): LifecycleState {
+  const curve = decayCurveFor(input.category);
+  const prior = 0.4 + 0.4 * trustWeight(input.authorScore);
+
+  let logit = Math.log(prior / (1 - prior));
+  let confirmWeight = 0;
+  let refuteWeight = 0;
+  let confirms = 0;
+  let refutes = 0;
+  let lastConfirmedAt = input.createdAt;
+  for (const v of input.votes) {
+    const w = trustWeight(v.voterScore);
+    if (v.confirms) {
+      confirmWeight += w;
+      confirms++;
+      lastConfirmedAt = Math.max(lastConfirmedAt, v.at);
+    } else {
+      refuteWeight += w;
+      refutes++;
+    }
+  }
+  logit += CONFIRM_WEIGHT * confirmWeight - REFUTE_WEIGHT * refuteWeight;
+  const credibility = 1 / (1 + Math.exp(-logit));
+
+  const halfLifeMs = curve.halfLifeMin * MIN_MS;
+  const freshness = Math.pow(2, -Math.max(0, now - lastConfirmedAt) / halfLifeMs);
+  const confidence = credibility * freshness;
+
+  const hardEnd = input.createdAt + curve.maxLifetimeMin * MIN_MS;
+  const decayEnd =
+    credibility > EXPIRE_CONFIDENCE
+      ? lastConfirmedAt + halfLifeMs * Math.log2(credibility / EXPIRE_CONFIDENCE)
+      : now;
+  const expiresAt = Math.round(Math.min(hardEnd, decayEnd));
+
+  return {
+    confidence: Math.round(confidence * 1000) / 1000,
+    credibility,
+    lastConfirmedAt,
+    expiresAt,
+    expired: expiresAt <= now,
+    confirmWeight,
+    refuteWeight,
+    confirms,
+    refutes,
+  };
+}
+
+/** Issue d'une alerte expirée, pour la réputation de l'auteur */
+export function lifecycleOutcome(state: LifecycleState): LifecycleOutcome {
+  if (state.refutes >= MIN_OUTCOME_VOTES && state.refuteWeight > state.confirmWeight) return 'refuted';
+  if (state.confirms >= MIN_OUTCOME_VOTES && state.confirmWeight >= state.refuteWeight) return 'confirmed';
+  return 'faded';
+}
+
+/**
+ * Variation du score de l'auteur : +2 si confirmée, pénalité croissante
+ * si infirmée (5 points, +5 par alerte déjà infirmée, max 20).
+ */
+export function reputationDelta(outcome: LifecycleOutcome, previouslyRefuted: number): number {
+  if (outcome === 'confirmed') return 2;
+  if (outcome === 'refuted') return -Math.min(20, 5 * (1 + Math.max(0, previouslyRefuted)));
+  return 0;
+}
+
+// ── Lecture ───────────────────────────────────────────────────────
+
+type AlertSource = 'post' | 'alert';
+
+interface TrackedAlert {
+  source: AlertSource;
+  id: string;
+  category: string | null;
+  authorId: string | null;
+  createdAt: number;
+}
+
+interface TrustRow {
+  score: number;
+  nb_alertes_infirmees: number;
+}
+
+async function loadTrust(userIds: string[]): Promise<Map<string, TrustRow>> {
+  const map = new Map<string, TrustRow>();
+  const ids = [...new Set(userIds.filter(Boolean))];
+  if (ids.length === 0) return map;
+  const { data, error } = await getSupa()
+    .from('communaute_confiance')
+    .select('user_id, score, nb_alertes_infirmees')
+    .in('user_id', ids);
+  if (error) throw new Error(`communaute_confiance query failed: ${error.message}`);
+  for (const row of (data ?? []) as any[]) {
+    map.set(row.user_id, { score: Number(row.score), nb_alertes_infirmees: row.nb_alertes_infirmees ?? 0 });
+  }
+  return map;
+}
+
+type RawVote = Omit<LifecycleVote, 'voterScore'> & { userId: string };
+
+async function loadVotes(source: AlertSource, ids: string[]): Promise<Map<string, RawVote[]>> {
+  const votes = new Map<string, RawVote[]>();
+  if (ids.length === 0) return votes;
+  const supa = getSupa();
+  const { data, error } =
+    source === 'post'
+      ? await supa
+          .from('communaute_reactions')
+          .select('post_id, user_id, type, created_at')
+          .in('post_id', ids)
+          .in('type', ['confirme', 'infirme'])
+      : await supa.from('alert_validations').select('alert_id, user_id, still_there, created_at').in('alert_id', ids);
+  if (error) throw new Error(`votes query failed (${source}): ${error.message}`);
+
+  for (const row of (data ?? []) as any[]) {
+    const confirms = source === 'post' ? row.type === 'confirme' : row.still_there;
+    if (typeof confirms !== 'boolean') continue;
+    const key = source === 'post' ? row.post_id : row.alert_id;
+    const list = votes.get(key) ?? [];
+    list.push({ userId: row.user_id, confirms, at: Date.parse(row.created_at) || Date.now() });
+    votes.set(key, list);
+  }
+  return votes;
+}
+
+// ── Recalcul + clôture ────────────────────────────────────────────
+
+export interface LifecycleRunResult {
+  evaluated: number;
+  expired: number;
+  confirmed: number;
+  refuted: number;
+  errors: number;
+}
+
+async function closeAlert(alert: TrackedAlert, state: LifecycleState, trust: Map<string, TrustRow>): Promise<LifecycleOutcome | null> {
+  const supa = getSupa();
+  const outcome = lifecycleOutcome(state);
+  const closedAt = new Date().toISOString();
+  const common = { live_confidence: state.confidence, lifecycle_closed_at: closedAt, lifecycle_outcome: outcome };
+
+  // Clôture conditionnelle : un seul passage applique la réputation
+  const { data: claimed, error } =
+    alert.source === 'post'
+      ? await supa
+          .from('communaute_posts')
+          .update({ ...common, expire_at: new Date(Math.min(state.expiresAt, Date.now())).toISOString() })
+          .eq('id', alert.id)
+          .is('lifecycle_closed_at', null)
+          .select('id')
+      : await supa
+          .from('community_alerts')
+          .update({ ...common, is_expired: true, expires_at: new Date(Math.min(state.expiresAt, Date.now())).toISOString() })
+          .eq('id', alert.id)
+          .is('lifecycle_closed_at', null)
+          .select('id');
+  if (error) throw new Error(`close ${alert.source} ${alert.id} failed: ${error.message}`);
+  if (!claimed || claimed.length === 0) return null;
+
+  const delta = reputationDelta(outcome, trust.get(alert.authorId ?? '')?.nb_alertes_infirmees ?? 0);
+  if (alert.authorId && outcome !== 'faded') {
+    const { error: repErr } = await supa.rpc('apply_alert_reputation', {
+      p_user_id: alert.authorId,
+      p_delta: delta,
+      p_outcome: outcome,
+    });
+    if (repErr) console.error(`[AlertLifecycle] reputation update failed for ${alert.authorId}:`, repErr.message);
+  }
+  console.log(`[AlertLifecycle] ${alert.source} ${alert.id} expired — ${outcome} (${state.confirms}✓/${state.refutes}✗)`);
+  return outcome;
+}
+
+async function evaluate(alerts: TrackedAlert[], now = Date.now()): Promise<LifecycleRunResult> {
+  const result: LifecycleRunResult = { evaluated: 0, expired: 0, confirmed: 0, refuted: 0, errors: 0 };
+  if (alerts.length === 0) return result;
+  const supa = getSupa();
+
+  const [postVotes, alertVotes] = await Promise.all([
+    loadVotes('post', alerts.filter((a) => a.source === 'post').map((a) => a.id)),
+    loadVotes('alert', alerts.filter((a) => a.source === 'alert').map((a) => a.id)),
+  ]);
+  const voterIds = [...postVotes.values(), ...alertVotes.values()].flat().map((v) => v.userId);
+  const trust = await loadTrust([...voterIds, ...alerts.map((a) => a.authorId ?? '')]);
+
+  for (const alert of alerts) {
+    result.evaluated++;
+    try {
+      const rawVotes = (alert.source === 'post' ? postVotes : alertVotes).get(alert.id) ?? [];
+      const state = computeLifecycle(
+        {
+          category: alert.category,
+          createdAt: alert.createdAt,
+          authorScore: alert.authorId ? (trust.get(alert.authorId)?.score ?? null) : null,
+          votes: rawVotes
+            // Un auteur qui confirme sa propre alerte ne compte pas
+            .filter((v) => v.userId !== alert.authorId)
+            .map((v) => ({ confirms: v.confirms, at: v.at, voterScore: trust.get(v.userId)?.score ?? null })),
+        },
+        now,
+      );
+
+      if (state.expired) {
+        const outcome = await closeAlert(alert, state, trust);
+        if (outcome) {
+          result.expired++;
+          if (outcome === 'confirmed') result.confirmed++;
+          if (outcome === 'refuted') result.refuted++;
+        }
+        continue;
+      }
+
+      const expiresAt = new Date(state.expiresAt).toISOString();
+      const { error } =
+        alert.source === 'post'
+          ? await supa
+              .from('communaute_posts')
+              .update({ live_confidence: state.confidence, expire_at: expiresAt })
+              .eq('id', alert.id)
+              .is('lifecycle_closed_at', null)
+          : await supa
+              .from('community_alerts')
+              .update({ live_confidence: state.confidence, expires_at: expiresAt })
+              .eq('id', alert.id)
+              .is('lifecycle_closed_at', null);
+      if (error) throw new Error(error.message);
+    } catch (err: any) {
+      console.error(`[AlertLifecycle] ${alert.source} ${alert.id} error:`, err.message);
+      result.errors++;
+    }
+  }
+  return result;
+}
+
+/** Expiration projetée d'une nouvelle alerte (aucun vote) selon la confiance de l'auteur */
+export function initialExpireAt(category: string | null, authorScore: number | null, now = Date.now()): Date {
+  return new Date(computeLifecycle({ category, createdAt: now, authorScore, votes: [] }, now).expiresAt);
+}
+
+/** Recalcul immédiat d'un post alerte après une réaction */
+export async function refreshPostLifecycle(postId: string): Promise<void> {
+  const { data: post } = await getSupa()
+    .from('communaute_posts')
+    .select('id, sous_type, auteur_id, created_at')
+    .eq('id', postId)
+    .eq('categorie', 'alerte')
+    .is('lifecycle_closed_at', null)
+    .maybeSingle();
+  if (!post) return;
+  await evaluate([
+    {
+      source: 'post',
+      id: (post as any).id,
+      category: (post as any).sous_type,
+      authorId: (post as any).auteur_id,
+      createdAt: Date.parse((post as any).created_at),
+    },
+  ]);
+}
+
+const SWEEP_BATCH = 500;
+
+/** Balayage : toutes les alertes ouvertes des deux sources */
+export async function runAlertLifecycleSweep(): Promise<LifecycleRunResult & { durationMs: number }> {
+  const t0 = Date.now();
+  const supa = getSupa();
+
+  const [{ data: posts, error: postsErr }, { data: alerts, error: alertsErr }] = await Promise.all([
+    supa
+      .from('communaute_posts')
+      .select('id, sous_type, auteur_id, created_at')
+      .eq('categorie', 'alerte')
+      .eq('moderation_status', 'approved')
+      .is('lifecycle_closed_at', null)
+      .order('created_at', { ascending: true })
+      .limit(SWEEP_BATCH),
+    supa
+      .from('community_alerts')
+      .select('id, alert_type, created_by, created_at')
+      .is('lifecycle_closed_at', null)
+      .order('created_at', { ascending: true })
+      .limit(SWEEP_BATCH),
+  ]);
+  if (postsErr) throw new Error(`communaute_posts query failed: ${postsErr.message}`);
+  if (alertsErr) throw new Error(`community_alerts query failed: ${alertsErr.message}`);
+
+  const tracked: TrackedAlert[] = [
+    ...((posts ?? []) as any[]).map((p) => ({
+      source: 'post' as const,
+      id: p.id,
+      category: p.sous_type,
+      authorId: p.auteur_id,
+      createdAt: Date.parse(p.created_at),
+    })),
+    ...((alerts ?? []) as any[]).map((a) => ({
+      source: 'alert' as const,
+      id: a.id,
+      category: a.alert_type,
+      authorId: a.created_by ?? null,
+      createdAt: Date.parse(a.created_at),
+    })),
+  ];
+
+  const result = await evaluate(tracked);
+  const durationMs = Date.now() - t0;
+  console.log(
+    `[AlertLifecycle] ✅ Sweep — evaluated: ${result.evaluated}, expired: ${result.expired} (✓${result.confirmed} ✗${result.refuted}), errors: ${result.errors}, ${durationMs}ms`,
+  );
+  return { ...result, durationMs };
+}
@@ -0,0 +1,286 @@
+/**
+ * BookingFeeService — annulations, absences client et frais des réservations directes
+ *
+ * - cancelBooking()  : annulation (client / chauffeur / support). Les frais ne
+ *   s'appliquent qu'à une annulation client, selon la politique du chauffeur
+ *   (CancellationPolicyService) ; chauffeur ou support → 0 €. Annuler l'aller
+ *   d'un aller-retour annule aussi le retour (frais évalués sur chaque trajet).
+ * - markNoShow()     : le chauffeur déclare le client absent → frais no_show_fee_percent.
+ * - job booking.fee_capture : règle les frais, réessayé par la file si Stripe est indisponible
+ *     1. l'acompte payé couvre les frais en priorité, le reste est remboursé
+ *     2. le solde est prélevé hors session sur la carte enregistrée avec
+ *        l'acompte (setup_future_usage) ou, à défaut, au paiement du site
+ *        chauffeur (driver_bookings → bookings.driver_booking_id, POST
+ *        /api/bookings), versé au chauffeur comme l'acompte
+ *     carte refusée / absente → fee_status failed / no_card (pas de retry)
+ *
+ * Chaque étape est tracée dans audit_logs (data/auditLog).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AUDIT_ACTIONS, logAuditAsync, SYSTEM_ACTOR_ID } from '../data/auditLog.js';
+import type { ActorRole } from '../data/types.js';
+import { evaluateCancellation, loadCancellationPolicy } from './CancellationPolicyService.js';
+import { cancelPendingJobs, enqueueJob, PermanentJobError } from './JobQueueService.js';
+
+// ── Lazy Supabase (service role) / Stripe ─────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+let _stripe: any = null;
+async function getStripe() {
+  if (!_stripe) {
+    const Stripe = (await import('stripe')).default;
+    _stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { maxNetworkRetries: 3, timeout: 30000 });
+  }
+  return _stripe;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export const BOOKING_FEE_JOB = 'booking.fee_capture';
+
+export type FeeKind = 'cancellation' | 'no_show';
+export type CancelledBy = 'client' | 'driver' | 'support';
+export type FeeStatus = 'waived' | 'covered_by_deposit' | 'charged' | 'failed' | 'no_card';
+
+export interface FeeActor {
+  /** UUID (audit_logs.actor_id) — chauffeur, agent support ; absent = système / portail client */
+  id?: string;
+  role: ActorRole;
+  /** Canal de l'action (ex. client_portal), reporté dans l'audit */
+  via?: string;
+}
+
+export interface FeeSplit {
+  /** Part de l'acompte conservée au titre des frais */
+  retained: number;
+  /** Part de l'acompte à rembourser */
+  refund: number;
+  /** Reste à prélever sur la carte */
+  remaining: number;
+}
+
+const ACTIVE_STATUSES = ['pending', 'confirmed', 'reminded_2h', 'reminded_15m'];
+const SETTLED: FeeStatus[] = ['waived', 'covered_by_deposit', 'charged'];
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function splitFee(fee: number, depositPaid: number): FeeSplit {
+  const f = Math.max(0, fee || 0);
+  const d = Math.max(0, depositPaid || 0);
+  const retained = Math.min(f, d);
+  return { retained: roundCents(retained), refund: roundCents(d - retained), remaining: roundCents(f - retained) };
+}
+
+/** Absence déclarable à partir de l'heure de prise en charge, et seulement sur une course active */
+export function canMarkNoShow(b: { status: string; scheduled_at: string }, now = Date.now()): boolean {
+  return ACTIVE_STATUSES.includes(b.status) && Date.parse(b.scheduled_at) <= now;
+}
+
+// ── Actions ───────────────────────────────────────────────────────
+
+function audit(actor: FeeActor, action: string, bookingId: string, details: Record<string, unknown>): void {
+  logAuditAsync({
+    actorId: actor.id || SYSTEM_ACTOR_ID,
+    actorRole: actor.id ? actor.role : 'system',
+    action,
+    targetType: 'booking',
+    targetId: bookingId,
+    details: { ...details, ...(actor.id ? {} : { initiated_by: actor.role }), ...(actor.via ? { via: actor.via } : {}) },
+  });
+}
+
+async function enqueueFeeSettlement(bookingId: string, kind: FeeKind): Promise<void> {
+  // Hors préfixe booking:<id>: → jamais annulé par cancelPendingJobs
+  await enqueueJob(BOOKING_FEE_JOB, { booking_id: bookingId, kind }, { idempotencyKey: `booking-fee:${bookingId}:${kind}` });
+}
+
+/**
+ * Annule une réservation active. null si elle ne l'est plus (déjà annulée,
+ * terminée, modifiée entre-temps).
+ */
+export async function cancelBooking(
+  booking: any,
+  opts: { by: CancelledBy; reason?: string | null; actor: FeeActor },
+): Promise<{ booking: any; fee: number; returnLeg?: any } | null> {
+  const fee =
+    opts.by === 'client'
+      ? evaluateCancellation(await loadCancellationPolicy(booking.driver_id), booking).fee
+      : 0;
+
+  const { data: cancelled, error } = await getSupa()
+    .from('bookings')
+    .update({
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: opts.by,
+      cancellation_reason: opts.reason || null,
+      cancellation_fee: fee,
+      fee_kind: 'cancellation',
+    })
+    .eq('id', booking.id)
+    .in('status', ACTIVE_STATUSES)
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(`Failed to cancel booking: ${error.message}`);
+  if (!cancelled) return null;
+
+  await cancelPendingJobs(`booking:${booking.id}:`);
+  // Frais et/ou remboursement de l'acompte
+  if (fee > 0 || cancelled.deposit_paid_at) await enqueueFeeSettlement(booking.id, 'cancellation');
+
+  audit(opts.actor, AUDIT_ACTIONS.BOOKING_CANCELLED, booking.id, {
+    cancelled_by: opts.by,
+    fee,
+    scheduled_at: cancelled.scheduled_at,
+    reason: opts.reason || null,
+  });
+  console.log(`[BookingFee] Cancelled ${booking.id} by ${opts.by} — fee ${fee}€`);
+
+  // Aller-retour : le retour ne survit pas à l'aller
+  if (cancelled.trip_leg === 'outbound') {
+    const { data: returnLeg } = await getSupa()
+      .from('bookings')
+      .select('*')
+      .eq('outbound_booking_id', booking.id)
+      .in('status', ACTIVE_STATUSES)
+      .maybeSingle();
+    const ret = returnLeg ? await cancelBooking(returnLeg, opts) : null;
+    if (ret) return { booking: cancelled, fee: roundCents(fee + ret.fee), returnLeg: ret.booking };
+  }
+  return { booking: cancelled, fee };
+}
+
+/** Client absent : statut no_show + frais de la politique du chauffeur */
+export async function markNoShow(booking: any, actor: FeeActor): Promise<{ booking: any; fee: number } | null> {
+  const policy = await loadCancellationPolicy(booking.driver_id);
+  const fee = roundCents((Number(booking.estimated_price) || 0) * (policy.no_show_fee_percent / 100));
+
+  const { data: updated, error } = await getSupa()
+    .from('bookings')
+    .update({ status: 'no_show', no_show_at: new Date().toISOString(), cancellation_fee: fee, fee_kind: 'no_show' })
+    .eq('id', booking.id)
+    .in('status', ACTIVE_STATUSES)
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(`Failed to mark no-show: ${error.message}`);
+  if (!updated) return null;
+
+  // Pas de demande d'avis ni de relance pour une course non effectuée
+  await cancelPendingJobs(`booking:${booking.id}:`);
+  if (fee > 0 || updated.deposit_paid_at) await enqueueFeeSettlement(booking.id, 'no_show');
+
+  audit(actor, AUDIT_ACTIONS.BOOKING_NO_SHOW, booking.id, { fee, scheduled_at: updated.scheduled_at });
+  console.log(`[BookingFee] No-show ${booking.id} — fee ${fee}€`);
+  return { booking: updated, fee };
+}
+
+// ── Job booking.fee_capture ───────────────────────────────────────
+
+async function setFeeStatus(bookingId: string, patch: Record<string, any>): Promise<void> {
+  const { error } = await getSupa().from('bookings').update(patch).eq('id', bookingId);
+  if (error) throw new Error(`Failed to update fee status: ${error.message}`);
+}
+
+export async function runBookingFeeJob(payload: { booking_id: string; kind: FeeKind }): Promise<void> {
+  const { data: b, error } = await getSupa().from('bookings').select('*').eq('id', payload.booking_id).maybeSingle();
+  if (error) throw new Error(`bookings query failed: ${error.message}`);
+  if (!b || SETTLED.includes(b.fee_status)) return;
+
+  const fee = Number(b.cancellation_fee) || 0;
+  const split = splitFee(fee, b.deposit_paid_at ? Number(b.deposit_amount) : 0);
+  const system: FeeActor = { role: 'system' };
+
+  // 1. Rembourser la part de l'acompte non retenue
+  if (split.refund > 0 && b.deposit_payment_intent_id && !b.deposit_refunded_amount) {
+    const stripe = await getStripe();
+    await stripe.refunds.create(
+      {
+        payment_intent: b.deposit_payment_intent_id,
+        amount: Math.round(split.refund * 100),
+        // Charge de destination : reprise chez le chauffeur ET commission
+        // plateforme remboursée au prorata — le client récupère tout le montant
+        reverse_transfer: true,
+        refund_application_fee: true,
+        metadata: { booking_id: b.id, reason: payload.kind },
+      },
+      { idempotencyKey: `booking-refund:${b.id}` },
+    );
+    await setFeeStatus(b.id, { deposit_refunded_amount: split.refund });
+    audit(system, AUDIT_ACTIONS.BOOKING_DEPOSIT_REFUNDED, b.id, { amount: split.refund, kind: payload.kind });
+  }
+
+  if (split.remaining <= 0) {
+    await setFeeStatus(b.id, { fee_status: fee > 0 ? 'covered_by_deposit' : 'waived', fee_error: null });
+    if (fee > 0) audit(system, AUDIT_ACTIONS.BOOKING_FEE_CHARGED, b.id, { fee, from_deposit: split.retained, kind: payload.kind });
+    return;
+  }
+
+  // 2. Prélever le solde sur la carte enregistrée
+  if (!b.stripe_customer_id || !b.stripe_payment_method_id) {
+    await setFeeStatus(b.id, { fee_status: 'no_card', fee_error: 'no saved card' });
+    audit(system, AUDIT_ACTIONS.BOOKING_FEE_FAILED, b.id, { fee, due: split.remaining, kind: payload.kind, error: 'no_card' });
+    return;
+  }
+
+  const { data: site } = await getSupa()
+    .from('driver_sites')
+    .select('id, stripe_account_id, commission_percent')
+    .eq('slug', b.site_slug)
+    .maybeSingle();
+  if (!site?.stripe_account_id) throw new PermanentJobError(`No Stripe account for site ${b.site_slug}`);
+
+  const amountCents = Math.round(split.remaining * 100);
+  const commissionPercent = Number(site.commission_percent ?? 0);
+  const stripe = await getStripe();
+  try {
+    const pi = await stripe.paymentIntents.create(
+      {
+        amount: amountCents,
+        currency: 'eur',
+        customer: b.stripe_customer_id,
+        payment_method: b.stripe_payment_method_id,
+        off_session: true,
+        confirm: true,
+        application_fee_amount: Math.round(amountCents * (commissionPercent / 100)),
+        transfer_data: { destination: site.stripe_account_id },
+        metadata: { driver_site_id: site.id, booking_id: b.id, type: `booking_${payload.kind}_fee` },
+        description: payload.kind === 'no_show' ? 'Frais d\'absence' : 'Frais d\'annulation tardive',
+      },
+      { idempotencyKey: `booking-fee:${b.id}:${payload.kind}:${amountCents}` },
+    );
+    await setFeeStatus(b.id, {
+      fee_status: 'charged',
+      fee_payment_intent_id: pi.id,
+      fee_charged_at: new Date().toISOString(),
+      fee_error: null,
+    });
+    audit(system, AUDIT_ACTIONS.BOOKING_FEE_CHARGED, b.id, {
+      fee,
+      from_deposit: split.retained,
+      charged: split.remaining,
+      payment_intent_id: pi.id,
+      kind: payload.kind,
+    });
+    console.log(`[BookingFee] ✅ Charged ${split.remaining}€ (${payload.kind}) for ${b.id}`);
+  } catch (err: any) {
+    // Carte refusée / authentification requise : inutile de réessayer
+    if (err?.type === 'StripeCardError') {
+      await setFeeStatus(b.id, { fee_status: 'failed', fee_error: String(err.code || err.message).slice(0, 300) });
+      audit(system, AUDIT_ACTIONS.BOOKING_FEE_FAILED, b.id, { fee, due: split.remaining, kind: payload.kind, error: err.code || err.message });
+      throw new PermanentJobError(`Card declined: ${err.code || err.message}`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * BookingPortalService — lien signé du portail client (gérer ma réservation)
+ *
+ * Le client n'a pas de compte : le lien envoyé par email / SMS porte l'id de
+ * la réservation, une date d'expiration et une signature HMAC
+ * (BOOKING_PORTAL_SECRET, secret dédié obligatoire). Pas de table de jetons —
+ * le lien expire PORTAL_TOKEN_GRACE_DAYS après la course (un déplacement
+ * renvoie un nouveau lien), les actions possibles dépendent du statut de la
+ * réservation et de la politique du chauffeur.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  canReschedule,
+  depositAmount,
+  evaluateCancellation,
+  isCancellable,
+} from './CancellationPolicyService.js';
+import type { CancellationPolicy, PolicyBooking, RescheduleRejection } from './CancellationPolicyService.js';
+
+const SIG_LENGTH = 32;
+/** Validité du lien après l'heure de la course (frais, acompte, litiges) */
+export const PORTAL_TOKEN_GRACE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface PortalBooking extends PolicyBooking {
+  deposit_amount?: number | null;
+  deposit_paid_at?: string | null;
+}
+
+/** Ce que le portail affiche et autorise à l'instant `now` */
+export interface PortalActions {
+  can_cancel: boolean;
+  cancellation_fee: number;
+  free_cancel_until: string;
+  can_reschedule: boolean;
+  reschedule_blocked?: RescheduleRejection;
+  can_edit_note: boolean;
+  deposit_due: number;
+}
+
+/** Sans secret, pas de lien portail : les envois partent sans le lien « Gérer » */
+export function portalConfigured(): boolean {
+  return !!process.env.BOOKING_PORTAL_SECRET;
+}
+
+function portalSecret(): string {
+  const secret = process.env.BOOKING_PORTAL_SECRET;
+  if (!secret) throw new Error('BOOKING_PORTAL_SECRET not configured');
+  return secret;
+}
+
+function signature(bookingId: string, expires: string): string {
+  return createHmac('sha256', portalSecret())
+    .update(`booking-portal:${bookingId}:${expires}`)
+    .digest('base64url')
+    .slice(0, SIG_LENGTH);
+}
+
+// ── Jeton ─────────────────────────────────────────────────────────
+
+/** Expiration du lien : PORTAL_TOKEN_GRACE_DAYS après la course */
+export function portalTokenExpiry(scheduledAt: string): number {
+  return Date.parse(scheduledAt) + PORTAL_TOKEN_GRACE_DAYS * DAY_MS;
+}
+
+/** Jeton `<id>.<expiration, secondes base 36>.<signature>` */
+export function signPortalToken(bookingId: string, expiresAt: number): string {
+  const expires = Math.floor(expiresAt / 1000).toString(36);
+  return `${bookingId}.${expires}.${signature(bookingId, expires)}`;
+}
+
+/** id de la réservation si la signature est valide et le lien non expiré, sinon null */
+export function verifyPortalToken(token: string, now = Date.now()): string | null {
+  const [bookingId, expires, sig] = String(token || '').split('.');
+  if (!bookingId || !expires || !sig || !UUID_RE.test(bookingId) || sig.length !== SIG_LENGTH) return null;
+  if (!portalConfigured()) return null;
+  const expected = Buffer.from(signature(bookingId, expires));
+  const given = Buffer.from(sig);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  return parseInt(expires, 36) * 1000 > now ? bookingId : null;
+}
+
+/** Lien « Gérer ma réservation », null si BOOKING_PORTAL_SECRET n'est pas configuré */
+export function portalUrl(booking: { id: string; scheduled_at: string }): string | null {
+  if (!portalConfigured()) return null;
+  const base = process.env.BACKEND_URL || 'https://foreas-stripe-backend-production.up.railway.app';
+  const token = signPortalToken(booking.id, portalTokenExpiry(booking.scheduled_at));
+  return `${base.replace(/\/$/, '')}/api/booking-portal/${token}`;
+}
+
+// ── Actions disponibles ───────────────────────────────────────────
+
+export function portalActions(policy: CancellationPolicy, b: PortalBooking, now = Date.now()): PortalActions {
+  const open = isCancellable(b) && Date.parse(b.scheduled_at) > now;
+  const cancellation = evaluateCancellation(policy, b, now);
+  const reschedule = canReschedule(policy, b, now);
+  const deposit = b.deposit_paid_at ? 0 : Number(b.deposit_amount) || depositAmount(policy, b.estimated_price);
+  return {
+    can_cancel: open,
+    cancellation_fee: open ? cancellation.fee : 0,
+    free_cancel_until: cancellation.freeUntil,
+    can_reschedule: open && reschedule.ok,
+    ...(reschedule.ok === false ? { reschedule_blocked: reschedule.reason } : {}),
+    can_edit_note: open,
+    deposit_due: open ? deposit : 0,
+  };
+}
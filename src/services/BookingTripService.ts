@@ -0,0 +1,131 @@
+/**
+ * BookingTripService — trajets multi-arrêts et allers-retours des réservations directes
+ *
+ * - Arrêts : bookings.stops, liste ordonnée des étapes ENTRE le départ et
+ *   l'arrivée (aéroport → hôtel → bureau = départ aéroport, 1 arrêt hôtel,
+ *   arrivée bureau). L'itinéraire et le prix passent par toutes les étapes.
+ * - Aller-retour : deux réservations liées. Le retour (trip_leg 'return')
+ *   pointe vers l'aller (outbound_booking_id), trajet inversé, son propre
+ *   créneau, ses rappels et son prix (tarif du chauffeur à son heure).
+ *   Annuler l'aller annule le retour (BookingFeeService), confirmer l'aller
+ *   confirme le retour.
+ *
+ * Logique pure : textes (SMS, push, emails) et regroupement de la liste chauffeur.
+ */
+
+import { z } from 'zod';
+import type { GeoPoint } from './DriverPricingEngine.js';
+
+export const MAX_STOPS = 5;
+
+export type TripLeg = 'single' | 'outbound' | 'return';
+
+const StopSchema = z.object({
+  address: z.string().trim().min(3).max(300),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const StopsSchema = z.array(StopSchema).max(MAX_STOPS);
+
+export type BookingStop = z.infer<typeof StopSchema>;
+
+/** Colonnes de bookings lues ici */
+export interface TripBooking {
+  id: string;
+  pickup_address: string;
+  pickup_lat?: number | null;
+  pickup_lng?: number | null;
+  dropoff_address: string;
+  dropoff_lat?: number | null;
+  dropoff_lng?: number | null;
+  stops?: BookingStop[] | null;
+  trip_leg?: TripLeg | null;
+  outbound_booking_id?: string | null;
+}
+
+/** Options du devis gardées sur la réservation (bookings.trip_options), re-devis au déplacement */
+export interface BookingTripOptions {
+  luggage: number;
+  childSeats: number;
+  waitingMin: number;
+  roundTrip: boolean;
+  promoPercent: number;
+}
+
+/** Étapes envoyées par le widget (camelCase ou snake_case), null si invalides */
+export function parseStops(raw: unknown): BookingStop[] | null {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) return null;
+  const parsed = StopsSchema.safeParse(
+    raw.map((s: any) => ({
+      address: s?.address,
+      lat: Number(s?.lat ?? s?.latitude),
+      lng: Number(s?.lng ?? s?.longitude),
+    })),
+  );
+  return parsed.success ? parsed.data : null;
+}
+
+export function stopPoints(stops: BookingStop[] | null | undefined): GeoPoint[] {
+  return (stops || []).map((s) => ({ lat: s.lat, lng: s.lng }));
+}
+
+/** Trajet retour : arrivée → arrêts dans l'ordre inverse → départ */
+export function reverseTrip(b: TripBooking): Pick<
+  TripBooking,
+  'pickup_address' | 'pickup_lat' | 'pickup_lng' | 'dropoff_address' | 'dropoff_lat' | 'dropoff_lng' | 'stops'
+> {
+  return {
+    pickup_address: b.dropoff_address,
+    pickup_lat: b.dropoff_lat,
+    pickup_lng: b.dropoff_lng,
+    dropoff_address: b.pickup_address,
+    dropoff_lat: b.pickup_lat,
+    dropoff_lng: b.pickup_lng,
+    stops: [...(b.stops || [])].reverse(),
+  };
+}
+
+/** « Orly → Hôtel Lutetia → La Défense » */
+export function tripSummary(b: TripBooking): string {
+  return [b.pickup_address, ...(b.stops || []).map((s) => s.address), b.dropoff_address].join(' → ');
+}
+
+/** Libellé court de la course : « Retour » / « 2 arrêts » / '' */
+export function tripLabel(b: TripBooking): string {
+  const n = b.stops?.length || 0;
+  return [b.trip_leg === 'return' ? 'Retour' : '', n > 0 ? `${n} arrêt${n > 1 ? 's' : ''}` : '']
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Liste chauffeur : chaque aller porte un résumé de son retour (`return_leg`).
+ * Les retours restent dans la liste (ce sont des courses de l'agenda) ;
+ * `returnLegs` complète ceux hors de la page.
+ */
+export function attachReturnLegs<T extends TripBooking & Record<string, any>>(
+  bookings: T[],
+  returnLegs: Array<TripBooking & Record<string, any>> = [],
+): Array<T & { return_leg?: any }> {
+  const returns = new Map(
+    [...returnLegs, ...bookings]
+      .filter((b) => b.trip_leg === 'return' && b.outbound_booking_id)
+      .map((b) => [b.outbound_booking_id!, b]),
+  );
+  return bookings.map((b) => {
+    const ret = b.trip_leg === 'outbound' ? returns.get(b.id) : undefined;
+    return ret
+      ? {
+          ...b,
+          return_leg: {
+            id: ret.id,
+            status: ret.status,
+            scheduled_at: ret.scheduled_at,
+            estimated_price: ret.estimated_price,
+          },
+        }
+      : b;
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * CallingWindowService — plages d'appel sortant d'Ajnaya
+ *
+ * Remplace la plage fixe 9h-19h Paris de preCallChecks :
+ *   - politique par type de prospect (hôtel, restaurant, événementiel,
+ *     entreprise) : jours ouvrés et plages horaires où le décideur décroche
+ *     (jamais pendant le service d'un restaurant)
+ *   - heure LOCALE du prospect : fuseau déduit de l'indicatif du numéro
+ *   - jours fériés (métropole, FrenchCalendarAdapter) pour les numéros français
+ *   - rappel demandé par le prospect : l'heure choisie est respectée tant
+ *     qu'elle reste dans des bornes raisonnables (8h30-20h, hors dimanche / férié)
+ *   - espacement des relances après un appel sans réponse
+ *
+ * Logique pure + chargement des fériés. Planification : jobs/voiceCallScheduler.
+ */
+
+import { zonedDateTimeToIso, zonedLocalTime } from './DriverPricingEngine.js';
+import { getJoursFeries } from './realtimeAdapters/FrenchCalendarAdapter.js';
+import { PLACE_TYPES_BY_FAMILY } from '../types/clientFinder.js';
+
+export type CallingCategory = 'hotel' | 'restaurant' | 'event' | 'corporate' | 'default';
+
+export interface CallingPolicy {
+  /** Jours autorisés, 0 = dimanche */
+  days: number[];
+  /** Plages locales HH:MM, début inclus, fin exclue */
+  windows: Array<[string, string]>;
+}
+
+export const CALLING_POLICIES: Record<CallingCategory, CallingPolicy> = {
+  // Direction / conciergerie : hors rush check-out du matin, samedi possible
+  hotel: { days: [1, 2, 3, 4, 5, 6], windows: [['10:00', '12:00'], ['14:00', '18:30']] },
+  // Entre les services : jamais 12h-14h30 ni le soir
+  restaurant: { days: [1, 2, 3, 4, 5], windows: [['10:00', '11:30'], ['15:00', '18:00']] },
+  // Agences et lieux événementiels : horaires de bureau
+  event: { days: [1, 2, 3, 4, 5], windows: [['09:30', '12:30'], ['14:00', '18:00']] },
+  // Banques privées, clubs : pas pendant la pause déjeuner
+  corporate: { days: [1, 2, 3, 4, 5], windows: [['09:00', '12:00'], ['14:00', '18:00']] },
+  default: { days: [1, 2, 3, 4, 5], windows: [['09:00', '19:00']] },
+};
+
+/** Bornes d'un créneau demandé par le prospect (rappel) */
+export const REQUESTED_SLOT_BOUNDS: CallingPolicy = { days: [1, 2, 3, 4, 5, 6], windows: [['08:30', '20:00']] };
+
+/** Relances après non-réponse : délai avant la 1re, 2e, 3e tentative suivante */
+export const NO_ANSWER_RETRY_DELAYS_H = [3, 24, 72];
+
+export const DEFAULT_CALL_TZ = 'Europe/Paris';
+
+const LOOKAHEAD_DAYS = 21;
+const DAY_MS = 24 * 3600 * 1000;
+
+// Indicatif → fuseau (le plus long d'abord : +352 avant +35…)
+const TZ_BY_PREFIX: Array<[string, string]> = (
+  [
+    ['+33', 'Europe/Paris'],
+    ['+262', 'Indian/Reunion'],
+    ['+590', 'America/Guadeloupe'],
+    ['+594', 'America/Cayenne'],
+    ['+596', 'America/Martinique'],
+    ['+377', 'Europe/Monaco'],
+    ['+352', 'Europe/Luxembourg'],
+    ['+32', 'Europe/Brussels'],
+    ['+41', 'Europe/Zurich'],
+    ['+44', 'Europe/London'],
+    ['+34', 'Europe/Madrid'],
+    ['+39', 'Europe/Rome'],
+    ['+49', 'Europe/Berlin'],
+  ] as Array<[string, string]>
+).sort((a, b) => b[0].length - a[0].length);
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** Type de lieu (places_directory.place_type / hunter_log.business_type) → politique */
+export function callingCategory(businessType: string | null | undefined): CallingCategory {
+  const t = (businessType || '').toLowerCase();
+  if (!t) return 'default';
+  if (PLACE_TYPES_BY_FAMILY.HOSPITALITY.includes(t) || t.includes('hotel')) return 'hotel';
+  if (PLACE_TYPES_BY_FAMILY.EVENT.includes(t) || /event|venue|agence|agency|wedding/.test(t)) return 'event';
+  if (PLACE_TYPES_BY_FAMILY.HIGH_INCOME.includes(t)) return 'corporate';
+  if (/restaurant|brasserie|bistro|bar\b|cafe|café/.test(t)) return 'restaurant';
+  return 'default';
+}
+
+/** Fuseau du prospect d'après son numéro (format national 0X… = France) */
+export function timezoneForNumber(phone: string | null | undefined): string {
+  const n = (phone || '').replace(/[\s.-]/g, '').replace(/^00/, '+');
+  return TZ_BY_PREFIX.find(([prefix]) => n.startsWith(prefix))?.[1] ?? DEFAULT_CALL_TZ;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T12:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Premier instant ≥ `from` dans une plage de la politique, à l'heure locale
+ * de `timeZone`, hors jours fériés. null si rien dans les 3 semaines.
+ */
+export function nextCallingSlot(
+  from: number,
+  policy: CallingPolicy,
+  timeZone: string,
+  holidays: Set<string> = new Set(),
+): string | null {
+  const start = zonedLocalTime(new Date(from).toISOString(), timeZone).date;
+  for (let d = 0; d < LOOKAHEAD_DAYS; d++) {
+    const date = addDays(start, d);
+    const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+    if (!policy.days.includes(weekday) || holidays.has(date)) continue;
+    for (const [open, close] of policy.windows) {
+      const windowEnd = Date.parse(zonedDateTimeToIso(date, close, timeZone));
+      if (from >= windowEnd) continue;
+      const windowStart = Date.parse(zonedDateTimeToIso(date, open, timeZone));
+      return new Date(Math.max(from, windowStart)).toISOString();
+    }
+  }
+  return null;
+}
+
+export function isWithinCallingWindow(
+  at: number,
+  policy: CallingPolicy,
+  timeZone: string,
+  holidays: Set<string> = new Set(),
+): boolean {
+  return nextCallingSlot(at, policy, timeZone, holidays) === new Date(at).toISOString();
+}
+
+/**
+ * Créneau d'un rappel demandé : l'heure du prospect si elle tient dans
+ * REQUESTED_SLOT_BOUNDS, sinon la plage suivante de sa politique.
+ */
+export function requestedCallbackSlot(
+  requestedAt: number,
+  policy: CallingPolicy,
+  timeZone: string,
+  holidays: Set<string> = new Set(),
+): string | null {
+  return isWithinCallingWindow(requestedAt, REQUESTED_SLOT_BOUNDS, timeZone, holidays)
+    ? new Date(requestedAt).toISOString()
+    : nextCallingSlot(requestedAt, policy, timeZone, holidays);
+}
+
+/** Plus tôt possible pour la prochaine tentative après `noAnswerCount` non-réponses (null = abandon) */
+export function noAnswerRetryAfter(lastAttemptAt: number, noAnswerCount: number): number | null {
+  const delayH = NO_ANSWER_RETRY_DELAYS_H[noAnswerCount - 1];
+  return delayH == null ? null : lastAttemptAt + delayH * 3600 * 1000;
+}
+
+// ── Fériés ────────────────────────────────────────────────────────
+
+/**
+ * Jours fériés sur l'horizon de recherche. Métropole uniquement (API gouv),
+ * pour les numéros en Europe/Paris ; ailleurs, aucun férié connu.
+ */
+export async function loadHolidays(from: number, timeZone: string): Promise<Set<string>> {
+  const holidays = new Set<string>();
+  if (timeZone !== DEFAULT_CALL_TZ) return holidays;
+  const start = zonedLocalTime(new Date(from).toISOString(), timeZone).date;
+  const end = addDays(start, LOOKAHEAD_DAYS);
+  for (const year of new Set([Number(start.slice(0, 4)), Number(end.slice(0, 4))])) {
+    for (const date of Object.keys((await getJoursFeries(year)) || {})) {
+      if (date >= start && date <= end) holidays.add(date);
+    }
+  }
+  return holidays;
+}
+
+export interface CallTarget {
+  businessType: string | null | undefined;
+  phone: string | null | undefined;
+}
+
+/** Politique + fuseau + fériés d'un prospect */
+export async function resolveCallingContext(
+  target: CallTarget,
+  from = Date.now(),
+): Promise<{ category: CallingCategory; policy: CallingPolicy; timeZone: string; holidays: Set<string> }> {
+  const category = callingCategory(target.businessType);
+  const timeZone = timezoneForNumber(target.phone);
+  return { category, policy: CALLING_POLICIES[category], timeZone, holidays: await loadHolidays(from, timeZone) };
+}
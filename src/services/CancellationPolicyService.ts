@@ -0,0 +1,136 @@
+/**
+ * CancellationPolicyService — règles d'annulation / modification du chauffeur
+ *
+ * Stockées dans driver_calendar_settings.cancellation_policy (JSONB), à côté
+ * du tampon et du délai minimum. Sans politique : DEFAULT_CANCELLATION_POLICY.
+ *
+ *   - annulation gratuite jusqu'à free_cancel_hours avant la prise en charge,
+ *     au-delà frais = late_cancel_fee_percent du prix estimé
+ *   - réservation encore 'pending' (pas confirmée par le chauffeur) : toujours gratuite
+ *   - modification de créneau : jusqu'à reschedule_min_notice_hours avant, max_reschedules fois
+ *   - acompte demandé via le portail client : deposit_percent du prix (0 = aucun)
+ */
+
+import { z } from 'zod';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+// ── Schéma ────────────────────────────────────────────────────────
+
+export const CancellationPolicySchema = z.object({
+  free_cancel_hours: z.number().min(0).max(168).default(24),
+  late_cancel_fee_percent: z.number().min(0).max(100).default(50),
+  no_show_fee_percent: z.number().min(0).max(100).default(100),
+  reschedule_min_notice_hours: z.number().min(0).max(168).default(2),
+  max_reschedules: z.number().int().min(0).max(10).default(2),
+  deposit_percent: z.number().min(0).max(100).default(30),
+});
+
+export type CancellationPolicy = z.infer<typeof CancellationPolicySchema>;
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = CancellationPolicySchema.parse({});
+
+/** Réservation telle que lue dans bookings (champs utiles à la politique) */
+export interface PolicyBooking {
+  status: string;
+  scheduled_at: string;
+  estimated_price: number;
+  reschedule_count?: number | null;
+}
+
+export interface CancellationQuote {
+  /** Frais retenus (€), 0 si annulation gratuite */
+  fee: number;
+  free: boolean;
+  /** Fin de la période d'annulation gratuite */
+  freeUntil: string;
+}
+
+export type RescheduleRejection = 'status' | 'too_late' | 'limit';
+
+const HOUR_MS = 3600 * 1000;
+const CANCELLABLE_STATUSES = ['pending', 'confirmed', 'reminded_2h', 'reminded_15m'];
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** JSONB stocké → politique complète (champs invalides → valeurs par défaut) */
+export function normalizeCancellationPolicy(raw: unknown): CancellationPolicy {
+  if (!raw || typeof raw !== 'object') return DEFAULT_CANCELLATION_POLICY;
+  const parsed = CancellationPolicySchema.safeParse(raw);
+  return parsed.success ? parsed.data : DEFAULT_CANCELLATION_POLICY;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function isCancellable(b: Pick<PolicyBooking, 'status'>): boolean {
+  return CANCELLABLE_STATUSES.includes(b.status);
+}
+
+/** Frais d'une annulation client à l'instant `now` */
+export function evaluateCancellation(policy: CancellationPolicy, b: PolicyBooking, now = Date.now()): CancellationQuote {
+  const freeUntil = new Date(Date.parse(b.scheduled_at) - policy.free_cancel_hours * HOUR_MS).toISOString();
+  if (b.status === 'pending' || now <= Date.parse(freeUntil)) return { fee: 0, free: true, freeUntil };
+  const fee = roundCents((Number(b.estimated_price) || 0) * (policy.late_cancel_fee_percent / 100));
+  return { fee, free: fee === 0, freeUntil };
+}
+
+/** Le client peut-il encore déplacer sa réservation ? */
+export function canReschedule(
+  policy: CancellationPolicy,
+  b: PolicyBooking,
+  now = Date.now(),
+): { ok: true } | { ok: false; reason: RescheduleRejection } {
+  if (!isCancellable(b)) return { ok: false, reason: 'status' };
+  if ((b.reschedule_count ?? 0) >= policy.max_reschedules) return { ok: false, reason: 'limit' };
+  if (now > Date.parse(b.scheduled_at) - policy.reschedule_min_notice_hours * HOUR_MS) {
+    return { ok: false, reason: 'too_late' };
+  }
+  return { ok: true };
+}
+
+/** Acompte demandé (€) : 0 si le chauffeur n'en demande pas, sinon 5 € minimum (seuil du site), plafonné au prix */
+export function depositAmount(policy: CancellationPolicy, estimatedPrice: number): number {
+  if (policy.deposit_percent <= 0 || !(estimatedPrice > 0)) return 0;
+  return Math.min(roundCents(estimatedPrice), Math.max(5, roundCents(estimatedPrice * (policy.deposit_percent / 100))));
+}
+
+// ── Lecture ───────────────────────────────────────────────────────
+
+export async function loadCancellationPolicy(driverId: string): Promise<CancellationPolicy> {
+  const { data, error } = await getSupa()
+    .from('driver_calendar_settings')
+    .select('cancellation_policy')
+    .eq('driver_id', driverId)
+    .maybeSingle();
+  if (error) throw new Error(`driver_calendar_settings query failed: ${error.message}`);
+  return normalizeCancellationPolicy(data?.cancellation_policy);
+}
+
+// ── Écriture ──────────────────────────────────────────────────────
+
+/** Met à jour la politique du chauffeur (champs fournis fusionnés avec l'existant) */
+export async function updateCancellationPolicy(
+  driverId: string,
+  patch: Partial<CancellationPolicy>,
+): Promise<CancellationPolicy> {
+  const policy = CancellationPolicySchema.parse({ ...(await loadCancellationPolicy(driverId)), ...patch });
+  const { error } = await getSupa()
+    .from('driver_calendar_settings')
+    .upsert(
+      { driver_id: driverId, cancellation_policy: policy, updated_at: new Date().toISOString() },
+      { onConflict: 'driver_id' },
+    );
+  if (error) throw new Error(`Failed to save cancellation policy: ${error.message}`);
+  return policy;
+}
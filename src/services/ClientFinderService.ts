@@ -18,7 +18,8 @@ import type {
   FinderRunResult,
 } from '../types/clientFinder.js';
 import { checkWarmupStatus } from './EmailWarmupManager.js';
-import { isEmailOptedOut, generateOptoutToken } from './OptoutService.js';
+import { optoutUrl } from './OptoutService.js';
+import { checkOutboundTarget } from './SuppressionService.js';
 import { pickBestVariant, renderTemplate, incrementVariantSent } from './VariantSelectorService.js';
 
 // ── Lazy Supabase (service role) ──────────────────────────────────
@@ -550,9 +551,13 @@ export async function runFinderForDriver(
       continue;
     }
 
-    // v87.1 — Respect opt-out list
-    if (await isEmailOptedOut(place.contact_email)) {
-      console.log(`[ClientFinder] Skip opted-out: ${place.contact_email}`);
+    // v87.1 — Respect opt-out list (liste d'opposition unifiée, refus tracé)
+    const suppression = await checkOutboundTarget('email', place.contact_email, {
+      driverId,
+      details: { place_id: place.id },
+    });
+    if (!suppression.allowed) {
+      console.log(`[ClientFinder] Skip ${suppression.reason}: ${place.contact_email}`);
       result.skipped++;
       continue;
     }
@@ -580,12 +585,10 @@ export async function runFinderForDriver(
         fromVariant ?? (await generateOutreachEmail(outreachReq, driverId));
 
       // v87.1 — Opt-out link HMAC + footer RGPD
-      const optoutToken = generateOptoutToken(place.contact_email);
-      const optoutUrl = `https://foreas.xyz/optout/${optoutToken}`;
       const bodyWithFooter =
         outreach.body +
         `\n\n--\nAjnaya — Relations partenaires FOREAS\nforeas.xyz\n\n` +
-        `Si vous ne souhaitez plus recevoir de messages : ${optoutUrl}`;
+        `Si vous ne souhaitez plus recevoir de messages : ${optoutUrl(place.contact_email)}`;
 
       // 1. Créer log + thread AVANT l'envoi pour avoir un logId déterministe
       const { logId, threadId } = await createLogAndThread(driverId, place);
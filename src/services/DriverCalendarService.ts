@@ -0,0 +1,354 @@
+/**
+ * DriverCalendarService — disponibilités chauffeur et anti double-réservation
+ *
+ * Un créneau [début, fin de course + tampon) est réservable si :
+ *   1. il respecte le délai minimum (min_notice_min)
+ *   2. la course tient dans une plage hebdomadaire (driver_availability)
+ *      — aucun horaire défini = disponible tout le temps (historique)
+ *   3. il ne touche aucune indisponibilité (driver_blackouts)
+ *   4. il ne chevauche aucune réservation active, tampon compris
+ *
+ * Utilisé par POST /api/bookings (refus 409), par le portail client
+ * (déplacement de créneau) et par GET /api/bookings/availability/:siteSlug
+ * (créneaux du formulaire public).
+ * La contrainte bookings_no_overlap (migration 20261019_driver_calendar)
+ * couvre les créations concurrentes.
+ */
+
+import { randomBytes } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { parisDateTimeToIso, parisLocalTime } from './DriverPricingEngine.js';
+import { buildBookingEvent, buildCalendar, IcsBooking } from './ICalendarService.js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export interface WeeklyHours {
+  day_of_week: number; // 0-6 (dimanche-samedi)
+  start_time: string; // HH:MM[:SS], heure de Paris
+  end_time: string; // <= start_time → plage qui passe minuit
+}
+
+export interface Blackout {
+  id?: string;
+  starts_at: string;
+  ends_at: string;
+  reason?: string | null;
+}
+
+export interface CalendarSettings {
+  buffer_min: number;
+  min_notice_min: number;
+}
+
+export interface DriverCalendar {
+  settings: CalendarSettings;
+  hours: WeeklyHours[];
+  blackouts: Blackout[];
+}
+
+/** Réservation active telle que lue dans bookings */
+export interface BookedSlot {
+  id: string;
+  scheduled_at: string;
+  estimated_duration_min: number | null;
+  blocked_until: string | null;
+}
+
+export type SlotRejection = 'too_soon' | 'outside_hours' | 'blackout' | 'overlap';
+
+export type SlotCheck =
+  | { ok: true; blockedUntil: string }
+  | { ok: false; reason: SlotRejection; conflictId?: string };
+
+export const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'reminded_2h', 'reminded_15m'];
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = { buffer_min: 15, min_notice_min: 30 };
+
+const DEFAULT_RIDE_MIN = 60;
+const SLOT_STEP_MIN = 15;
+const DAY_MIN = 24 * 60;
+const MIN_MS = 60 * 1000;
+/** Le flux iCal garde 30 jours d'historique (annulations récentes visibles) */
+const FEED_PAST_DAYS = 30;
+const FEED_REFRESH_MIN = 15;
+
+// ── Logique pure (testée) ─────────────────────────────────────────
+
+function toMinutes(time: string): number {
+  return Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+}
+
+/** Plages [début, fin) en minutes depuis minuit du jour `weekday` (fin > 1440 si passe minuit) */
+function windowsForDay(hours: WeeklyHours[], weekday: number): Array<[number, number]> {
+  const windows: Array<[number, number]> = [];
+  for (const h of hours) {
+    const s = toMinutes(h.start_time);
+    let e = toMinutes(h.end_time);
+    if (e <= s) e += DAY_MIN;
+    if (h.day_of_week === weekday) windows.push([s, e]);
+    // Plage de la veille qui déborde sur ce jour
+    if (h.day_of_week === (weekday + 6) % 7 && e > DAY_MIN) windows.push([s - DAY_MIN, e - DAY_MIN]);
+  }
+  return windows;
+}
+
+/** La course (sans tampon) tient-elle entièrement dans une plage hebdomadaire ? */
+export function isWithinWorkingHours(hours: WeeklyHours[], startIso: string, durationMin: number): boolean {
+  if (hours.length === 0) return true;
+  const local = parisLocalTime(startIso);
+  return windowsForDay(hours, local.weekday).some(
+    ([s, e]) => local.minutes >= s && local.minutes + durationMin <= e,
+  );
+}
+
+/** Fin du créneau bloqué par une réservation : fin de course + tampon */
+export function blockedUntil(startIso: string, durationMin: number, bufferMin: number): string {
+  return new Date(Date.parse(startIso) + (durationMin + bufferMin) * MIN_MS).toISOString();
+}
+
+function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+export function evaluateSlot(
+  calendar: DriverCalendar,
+  startIso: string,
+  durationMin: number,
+  booked: BookedSlot[],
+  now = Date.now(),
+): SlotCheck {
+  const { buffer_min, min_notice_min } = calendar.settings;
+  const start = Date.parse(startIso);
+  const rideMin = durationMin > 0 ? durationMin : DEFAULT_RIDE_MIN;
+  const until = blockedUntil(startIso, rideMin, buffer_min);
+  const end = Date.parse(until);
+
+  if (start < now + min_notice_min * MIN_MS) return { ok: false, reason: 'too_soon' };
+  if (!isWithinWorkingHours(calendar.hours, startIso, rideMin)) return { ok: false, reason: 'outside_hours' };
+
+  const rideEnd = start + rideMin * MIN_MS;
+  if (calendar.blackouts.some((b) => overlaps(start, rideEnd, Date.parse(b.starts_at), Date.parse(b.ends_at)))) {
+    return { ok: false, reason: 'blackout' };
+  }
+
+  for (const b of booked) {
+    const bStart = Date.parse(b.scheduled_at);
+    const bEnd = b.blocked_until
+      ? Date.parse(b.blocked_until)
+      : Date.parse(blockedUntil(b.scheduled_at, b.estimated_duration_min || DEFAULT_RIDE_MIN, buffer_min));
+    if (overlaps(start, end, bStart, bEnd)) return { ok: false, reason: 'overlap', conflictId: b.id };
+  }
+
+  return { ok: true, blockedUntil: until };
+}
+
+/**
+ * Débuts de course réservables pour une journée (YYYY-MM-DD, heure de Paris),
+ * par pas de 15 min, dans les plages hebdomadaires (ou toute la journée).
+ */
+export function listDaySlots(
+  calendar: DriverCalendar,
+  date: string,
+  durationMin: number,
+  booked: BookedSlot[],
+  now = Date.now(),
+): string[] {
+  const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+  const windows = calendar.hours.length > 0 ? windowsForDay(calendar.hours, weekday) : [[0, DAY_MIN]];
+
+  const starts = new Set<number>();
+  for (const [s, e] of windows) {
+    for (let m = Math.max(0, Math.ceil(s / SLOT_STEP_MIN) * SLOT_STEP_MIN); m < Math.min(e, DAY_MIN); m += SLOT_STEP_MIN) {
+      starts.add(m);
+    }
+  }
+
+  return [...starts]
+    .sort((a, b) => a - b)
+    .map((m) => parisDateTimeToIso(date, `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`))
+    .filter((iso) => evaluateSlot(calendar, iso, durationMin, booked, now).ok);
+}
+
+// ── Lecture ───────────────────────────────────────────────────────
+
+export async function loadDriverCalendar(driverId: string): Promise<DriverCalendar> {
+  const supa = getSupa();
+  const [{ data: settings }, { data: hours, error: hoursErr }, { data: blackouts, error: blackoutsErr }] =
+    await Promise.all([
+      supa
+        .from('driver_calendar_settings')
+        .select('buffer_min, min_notice_min')
+        .eq('driver_id', driverId)
+        .maybeSingle(),
+      supa
+        .from('driver_availability')
+        .select('day_of_week, start_time, end_time')
+        .eq('driver_id', driverId)
+        .eq('is_active', true),
+      supa
+        .from('driver_blackouts')
+        .select('id, starts_at, ends_at, reason')
+        .eq('driver_id', driverId)
+        .gte('ends_at', new Date().toISOString())
+        .order('starts_at', { ascending: true }),
+    ]);
+
+  if (hoursErr) throw new Error(`driver_availability query failed: ${hoursErr.message}`);
+  if (blackoutsErr) throw new Error(`driver_blackouts query failed: ${blackoutsErr.message}`);
+
+  return {
+    settings: { ...DEFAULT_CALENDAR_SETTINGS, ...(settings || {}) },
+    hours: (hours || []) as WeeklyHours[],
+    blackouts: (blackouts || []) as Blackout[],
+  };
+}
+
+/** Réservations actives pouvant toucher [fromIso, toIso) (une course démarre au plus 24h avant) */
+async function loadBookedSlots(driverId: string, fromIso: string, toIso: string): Promise<BookedSlot[]> {
+  const { data, error } = await getSupa()
+    .from('bookings')
+    .select('id, scheduled_at, estimated_duration_min, blocked_until')
+    .eq('driver_id', driverId)
+    .in('status', ACTIVE_BOOKING_STATUSES)
+    .gte('scheduled_at', new Date(Date.parse(fromIso) - DAY_MIN * MIN_MS).toISOString())
+    .lt('scheduled_at', toIso);
+
+  if (error) throw new Error(`bookings query failed: ${error.message}`);
+  return (data || []) as BookedSlot[];
+}
+
+/** `excludeBookingId` : la réservation déplacée ne se bloque pas elle-même (portail client) */
+export async function checkBookingSlot(
+  driverId: string,
+  startIso: string,
+  durationMin: number,
+  opts: { excludeBookingId?: string } = {},
+): Promise<SlotCheck> {
+  const calendar = await loadDriverCalendar(driverId);
+  const horizon = new Date(Date.parse(startIso) + DAY_MIN * MIN_MS).toISOString();
+  const booked = (await loadBookedSlots(driverId, startIso, horizon)).filter((b) => b.id !== opts.excludeBookingId);
+  return evaluateSlot(calendar, startIso, durationMin, booked);
+}
+
+export async function getAvailableSlots(driverId: string, date: string, durationMin: number): Promise<string[]> {
+  const calendar = await loadDriverCalendar(driverId);
+  const dayStart = parisDateTimeToIso(date, '00:00');
+  const dayEnd = new Date(Date.parse(dayStart) + 2 * DAY_MIN * MIN_MS).toISOString();
+  const booked = await loadBookedSlots(driverId, dayStart, dayEnd);
+  return listDaySlots(calendar, date, durationMin, booked);
+}
+
+// ── Écriture (app chauffeur) ──────────────────────────────────────
+
+/** Remplace les horaires hebdomadaires du chauffeur */
+export async function replaceWeeklyHours(driverId: string, hours: WeeklyHours[]): Promise<WeeklyHours[]> {
+  const supa = getSupa();
+  const { error: delErr } = await supa.from('driver_availability').delete().eq('driver_id', driverId);
+  if (delErr) throw new Error(`Failed to clear weekly hours: ${delErr.message}`);
+  if (hours.length === 0) return [];
+
+  const { data, error } = await supa
+    .from('driver_availability')
+    .insert(hours.map((h) => ({ ...h, driver_id: driverId, is_active: true })))
+    .select('day_of_week, start_time, end_time');
+  if (error) throw new Error(`Failed to save weekly hours: ${error.message}`);
+  return (data || []) as WeeklyHours[];
+}
+
+export async function addBlackout(driverId: string, blackout: Blackout): Promise<Blackout> {
+  const { data, error } = await getSupa()
+    .from('driver_blackouts')
+    .insert({ driver_id: driverId, starts_at: blackout.starts_at, ends_at: blackout.ends_at, reason: blackout.reason ?? null })
+    .select('id, starts_at, ends_at, reason')
+    .single();
+  if (error || !data) throw new Error(`Failed to save blackout: ${error?.message ?? 'no row returned'}`);
+  return data as Blackout;
+}
+
+export async function deleteBlackout(driverId: string, blackoutId: string): Promise<boolean> {
+  const { data, error } = await getSupa()
+    .from('driver_blackouts')
+    .delete()
+    .eq('id', blackoutId)
+    .eq('driver_id', driverId)
+    .select('id');
+  if (error) throw new Error(`Failed to delete blackout: ${error.message}`);
+  return (data?.length ?? 0) > 0;
+}
+
+export async function updateCalendarSettings(
+  driverId: string,
+  settings: Partial<CalendarSettings>,
+): Promise<CalendarSettings> {
+  const { data, error } = await getSupa()
+    .from('driver_calendar_settings')
+    .upsert({ driver_id: driverId, ...settings, updated_at: new Date().toISOString() }, { onConflict: 'driver_id' })
+    .select('buffer_min, min_notice_min')
+    .single();
+  if (error || !data) throw new Error(`Failed to save calendar settings: ${error?.message ?? 'no row returned'}`);
+  return data as CalendarSettings;
+}
+
+// ── Flux iCal (abonnement Google / Apple Calendar) ───────────────
+
+/** Jeton secret de l'URL d'abonnement — créé au premier appel, ou régénéré (rotate) */
+export async function getIcsFeedToken(driverId: string, rotate = false): Promise<string> {
+  const supa = getSupa();
+  if (!rotate) {
+    const { data } = await supa
+      .from('driver_calendar_settings')
+      .select('ics_token')
+      .eq('driver_id', driverId)
+      .maybeSingle();
+    if (data?.ics_token) return data.ics_token;
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const { error } = await supa
+    .from('driver_calendar_settings')
+    .upsert({ driver_id: driverId, ics_token: token, updated_at: new Date().toISOString() }, { onConflict: 'driver_id' });
+  if (error) throw new Error(`Failed to save ics token: ${error.message}`);
+  return token;
+}
+
+/**
+ * Contenu .ics du flux d'un chauffeur, ou null si le jeton est inconnu.
+ * Inclut les annulations (STATUS:CANCELLED) pour que l'agenda abonné retire l'événement.
+ */
+export async function buildDriverIcsFeed(token: string): Promise<string | null> {
+  const supa = getSupa();
+  const { data: settings } = await supa
+    .from('driver_calendar_settings')
+    .select('driver_id')
+    .eq('ics_token', token)
+    .maybeSingle();
+  if (!settings?.driver_id) return null;
+
+  const since = new Date(Date.now() - FEED_PAST_DAYS * DAY_MIN * MIN_MS).toISOString();
+  const { data: bookings, error } = await supa
+    .from('bookings')
+    .select(
+      'id, status, scheduled_at, estimated_duration_min, pickup_address, pickup_lat, pickup_lng, dropoff_address, stops, trip_leg, client_name, client_phone, client_note, estimated_price, created_at, confirmed_at, cancelled_at',
+    )
+    .eq('driver_id', settings.driver_id)
+    .gte('scheduled_at', since)
+    .order('scheduled_at', { ascending: true })
+    .limit(500);
+  if (error) throw new Error(`bookings query failed: ${error.message}`);
+
+  const now = new Date().toISOString();
+  return buildCalendar(
+    ((bookings || []) as IcsBooking[]).map((b) => buildBookingEvent(b, { audience: 'driver', now })),
+    { name: 'Réservations FOREAS', refreshMinutes: FEED_REFRESH_MIN },
+  );
+}
@@ -0,0 +1,402 @@
+/**
+ * DriverPricingEngine — tarifs chauffeur pour les réservations directes
+ *
+ * Un seul modèle de tarif validé (DriverTariffSchema), stocké dans
+ * driver_sites.pricing. Le même moteur, appelé via TripQuoteService
+ * (distance / durée calculées côté serveur depuis les coordonnées) :
+ *   - donne le devis au widget public     (POST /api/bookings/quote)
+ *   - recalcule le prix côté serveur      (POST /api/bookings, /api/driver-site/booking)
+ * → le prix affiché et le prix enregistré ne peuvent pas diverger.
+ *
+ * Composantes :
+ *   course      base + km + minute, plancher minimumFare (ou forfait aéroport / gare)
+ *   majoration  nuit OU dimanche / férié (la plus haute, non cumulables)
+ *   options     bagages au-delà des inclus, sièges enfant
+ *   attente     minutes au-delà des minutes offertes
+ *   arrêts      forfait par étape intermédiaire (multi-arrêts : jamais de forfait aéroport)
+ *   aller-retour  retour facturé comme l'aller, remise % sur les deux trajets ;
+ *               retour réservé à part (BookingTripService) → remise sur chaque trajet
+ *   promo       % première course du site, sur le total
+ */
+
+import { z } from 'zod';
+import { getJourFerie } from './realtimeAdapters/FrenchCalendarAdapter.js';
+
+// ── Schéma ────────────────────────────────────────────────────────
+
+const HHMM = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'HH:MM');
+
+const FlatFareSchema = z.object({
+  label: z.string().min(1).max(60),
+  kind: z.enum(['airport', 'station']),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  /** Rayon autour du point (départ OU arrivée dedans → forfait) */
+  radiusKm: z.number().min(0.2).max(20).default(2),
+  price: z.number().min(0).max(2000),
+  /** Au-delà, tarif normal (évite un forfait CDG pour un Lille → CDG) */
+  maxTripKm: z.number().min(1).max(1000).nullable().default(null),
+});
+
+export const DriverTariffSchema = z.object({
+  version: z.literal(2).default(2),
+  baseFare: z.number().min(0).max(500),
+  perKm: z.number().min(0).max(50),
+  perMinute: z.number().min(0).max(10).default(0),
+  minimumFare: z.number().min(0).max(1000).default(0),
+  night: z
+    .object({
+      percent: z.number().min(0).max(200),
+      start: HHMM.default('21:00'),
+      end: HHMM.default('06:00'),
+    })
+    .nullable()
+    .default(null),
+  sundayHoliday: z.object({ percent: z.number().min(0).max(200) }).nullable().default(null),
+  flatFares: z.array(FlatFareSchema).max(20).default([]),
+  options: z
+    .object({
+      includedLuggage: z.number().int().min(0).max(10).default(2),
+      extraLuggage: z.number().min(0).max(100).default(0),
+      childSeat: z.number().min(0).max(100).default(0),
+    })
+    .default({ includedLuggage: 2, extraLuggage: 0, childSeat: 0 }),
+  waiting: z
+    .object({
+      freeMinutes: z.number().int().min(0).max(120).default(5),
+      perMinute: z.number().min(0).max(10).default(0),
+    })
+    .default({ freeMinutes: 5, perMinute: 0 }),
+  roundTripDiscountPercent: z.number().min(0).max(50).default(0),
+  /** Par arrêt intermédiaire (trajet multi-arrêts) */
+  perStop: z.number().min(0).max(100).default(0),
+});
+
+export type DriverTariff = z.infer<typeof DriverTariffSchema>;
+export type DriverTariffInput = z.input<typeof DriverTariffSchema>;
+
+// ── Types devis ───────────────────────────────────────────────────
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface TripRequest {
+  distanceKm: number;
+  durationMin: number;
+  /** ISO — heure de prise en charge */
+  scheduledAt: string;
+  pickup?: GeoPoint | null;
+  dropoff?: GeoPoint | null;
+  /** Étapes intermédiaires, dans l'ordre */
+  stops?: GeoPoint[];
+  luggage?: number;
+  childSeats?: number;
+  waitingMin?: number;
+  roundTrip?: boolean;
+}
+
+export type QuoteLineCode =
+  | 'ride'
+  | 'flat_fare'
+  | 'return_ride'
+  | 'round_trip_discount'
+  | 'stops'
+  | 'night_surcharge'
+  | 'sunday_holiday_surcharge'
+  | 'extra_luggage'
+  | 'child_seat'
+  | 'waiting'
+  | 'promo';
+
+export interface QuoteLine {
+  code: QuoteLineCode;
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  currency: 'EUR';
+  total: number;
+  /** Total avant promo */
+  subtotal: number;
+  lines: QuoteLine[];
+  distanceKm: number;
+  durationMin: number;
+  flatFare: string | null;
+  surcharge: { kind: 'night' | 'sunday' | 'holiday'; percent: number; label: string } | null;
+}
+
+export interface QuoteContext {
+  /** Nom du jour férié à la date de prise en charge (heure de Paris) */
+  holiday?: string | null;
+  promoPercent?: number;
+  /** Trajet d'un aller-retour réservé en deux courses liées → remise aller-retour sur ce trajet */
+  linkedRoundTrip?: boolean;
+}
+
+const ROAD_FACTOR = 1.3;
+const AVG_SPEED_KMH = 30;
+const TZ = 'Europe/Paris';
+
+// ── Normalisation ─────────────────────────────────────────────────
+
+/**
+ * Lit driver_sites.pricing : schéma v2, ou l'une des 3 conventions historiques
+ * ({baseRate, perKmRate, ...}, {base_fare, per_km, ...}, {base, km_rate, ...}).
+ * null si aucun tarif exploitable (ni base ni km).
+ */
+export function normalizeDriverTariff(raw: unknown): DriverTariff | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const p = raw as Record<string, any>;
+
+  if (p.version === 2) {
+    const parsed = DriverTariffSchema.safeParse(p);
+    if (!parsed.success) return null;
+    return parsed.data.baseFare > 0 || parsed.data.perKm > 0 ? parsed.data : null;
+  }
+
+  const num = (...values: unknown[]) => {
+    for (const v of values) {
+      const n = Number(v);
+      if (v != null && Number.isFinite(n) && n >= 0) return n;
+    }
+    return 0;
+  };
+
+  const legacy = DriverTariffSchema.safeParse({
+    baseFare: num(p.base_fare, p.baseRate, p.base),
+    perKm: num(p.per_km, p.perKmRate, p.km_rate),
+    perMinute: num(p.per_minute, p.perMinuteRate, p.waitingRate),
+    minimumFare: num(p.minimum, p.minimumFare, p.minimum_fare),
+  });
+  if (!legacy.success) return null;
+  return legacy.data.baseFare > 0 || legacy.data.perKm > 0 ? legacy.data : null;
+}
+
+// ── Trajet ────────────────────────────────────────────────────────
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** Distance route / durée estimées depuis les coordonnées (facteur route 1.3, 30 km/h) */
+export function estimateTrip(pickup: GeoPoint, dropoff: GeoPoint): { distanceKm: number; durationMin: number } {
+  const distanceKm = round2(haversineKm(pickup, dropoff) * ROAD_FACTOR);
+  return { distanceKm, durationMin: Math.round((distanceKm / AVG_SPEED_KMH) * 60) };
+}
+
+/** Date (YYYY-MM-DD), jour de semaine (0 = dimanche) et minutes depuis minuit, heure de Paris */
+export function parisLocalTime(iso: string): { date: string; weekday: number; minutes: number } {
+  return zonedLocalTime(iso, TZ);
+}
+
+/** Date + heure saisies à Paris (YYYY-MM-DD, HH:MM) → ISO UTC */
+export function parisDateTimeToIso(date: string, time: string): string {
+  return zonedDateTimeToIso(date, time, TZ);
+}
+
+/** Comme parisLocalTime, pour un fuseau IANA quelconque (appels vers l'étranger) */
+export function zonedLocalTime(iso: string, timeZone: string): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    })
+      .formatToParts(new Date(iso))
+      .map((p) => [p.type, p.value]),
+  );
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: weekdays.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** Date + heure locales dans `timeZone` → ISO UTC */
+export function zonedDateTimeToIso(date: string, time: string, timeZone: string): string {
+  const asUtc = Date.parse(`${date}T${time}:00Z`);
+  const local = zonedLocalTime(new Date(asUtc).toISOString(), timeZone);
+  const hh = String(Math.floor(local.minutes / 60)).padStart(2, '0');
+  const mm = String(local.minutes % 60).padStart(2, '0');
+  const offsetMs = Date.parse(`${local.date}T${hh}:${mm}:00Z`) - asUtc;
+  return new Date(asUtc - offsetMs).toISOString();
+}
+
+function isInNightWindow(minutes: number, start: string, end: string): boolean {
+  const toMin = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+  const s = toMin(start);
+  const e = toMin(end);
+  // Plage qui passe minuit (21:00 → 06:00) ou non (00:00 → 05:00)
+  return s <= e ? minutes >= s && minutes < e : minutes >= s || minutes < e;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// ── Devis ─────────────────────────────────────────────────────────
+
+/**
+ * Devis pur (déterministe) — le jour férié est fourni par l'appelant.
+ * Le forfait est le premier de la liste dont la zone contient le départ ou l'arrivée.
+ */
+export function computeQuote(tariff: DriverTariff, trip: TripRequest, ctx: QuoteContext = {}): PriceQuote {
+  const distanceKm = Math.max(0, Number(trip.distanceKm) || 0);
+  const durationMin = Math.max(0, Number(trip.durationMin) || 0);
+  const lines: QuoteLine[] = [];
+
+  // 1. Course : forfait (trajet direct uniquement) ou compteur
+  const stopCount = trip.stops?.length || 0;
+  const flat = stopCount > 0 ? undefined : tariff.flatFares.find((f) => {
+    if (f.maxTripKm != null && distanceKm > f.maxTripKm) return false;
+    return [trip.pickup, trip.dropoff].some((pt) => pt && haversineKm(pt, f) <= f.radiusKm);
+  });
+
+  const legFare = flat
+    ? flat.price
+    : round2(Math.max(tariff.baseFare + distanceKm * tariff.perKm + durationMin * tariff.perMinute, tariff.minimumFare));
+  lines.push(
+    flat
+      ? { code: 'flat_fare', label: `Forfait ${flat.label}`, amount: legFare }
+      : { code: 'ride', label: `Course (${distanceKm.toFixed(1)} km, ${Math.round(durationMin)} min)`, amount: legFare },
+  );
+
+  // 2. Aller-retour : retour au même prix, remise sur les deux trajets
+  let rideTotal = legFare;
+  if (trip.roundTrip) {
+    lines.push({ code: 'return_ride', label: 'Trajet retour', amount: legFare });
+    rideTotal = legFare * 2;
+    if (tariff.roundTripDiscountPercent > 0) {
+      const discount = round2((rideTotal * tariff.roundTripDiscountPercent) / 100);
+      lines.push({
+        code: 'round_trip_discount',
+        label: `Remise aller-retour (-${tariff.roundTripDiscountPercent}%)`,
+        amount: -discount,
+      });
+      rideTotal -= discount;
+    }
+  } else if (ctx.linkedRoundTrip && tariff.roundTripDiscountPercent > 0) {
+    const discount = round2((legFare * tariff.roundTripDiscountPercent) / 100);
+    lines.push({
+      code: 'round_trip_discount',
+      label: `Remise aller-retour (-${tariff.roundTripDiscountPercent}%)`,
+      amount: -discount,
+    });
+    rideTotal -= discount;
+  }
+
+  // 2.bis Arrêts intermédiaires (hors majoration, comme les options)
+  const stopsLine: QuoteLine | null =
+    stopCount > 0 && tariff.perStop > 0
+      ? { code: 'stops', label: `Arrêts intermédiaires (${stopCount})`, amount: round2(stopCount * tariff.perStop) }
+      : null;
+
+  // 3. Majoration nuit / dimanche / férié — la plus haute, pas sur un forfait (prix fixe)
+  let surcharge: PriceQuote['surcharge'] = null;
+  if (!flat && trip.scheduledAt) {
+    const local = parisLocalTime(trip.scheduledAt);
+    const candidates: NonNullable<PriceQuote['surcharge']>[] = [];
+    if (tariff.night && isInNightWindow(local.minutes, tariff.night.start, tariff.night.end)) {
+      candidates.push({ kind: 'night', percent: tariff.night.percent, label: 'Majoration nuit' });
+    }
+    if (tariff.sundayHoliday && ctx.holiday) {
+      candidates.push({ kind: 'holiday', percent: tariff.sundayHoliday.percent, label: `Majoration férié (${ctx.holiday})` });
+    } else if (tariff.sundayHoliday && local.weekday === 0) {
+      candidates.push({ kind: 'sunday', percent: tariff.sundayHoliday.percent, label: 'Majoration dimanche' });
+    }
+    surcharge = candidates.filter((c) => c.percent > 0).sort((a, b) => b.percent - a.percent)[0] || null;
+    if (surcharge) {
+      lines.push({
+        code: surcharge.kind === 'night' ? 'night_surcharge' : 'sunday_holiday_surcharge',
+        label: `${surcharge.label} (+${surcharge.percent}%)`,
+        amount: round2((rideTotal * surcharge.percent) / 100),
+      });
+    }
+  }
+
+  // 4. Options
+  if (stopsLine) lines.push(stopsLine);
+  const extraLuggage = Math.max(0, Math.floor(trip.luggage || 0) - tariff.options.includedLuggage);
+  if (extraLuggage > 0 && tariff.options.extraLuggage > 0) {
+    lines.push({
+      code: 'extra_luggage',
+      label: `Bagages supplémentaires (${extraLuggage})`,
+      amount: round2(extraLuggage * tariff.options.extraLuggage),
+    });
+  }
+  const childSeats = Math.max(0, Math.floor(trip.childSeats || 0));
+  if (childSeats > 0 && tariff.options.childSeat > 0) {
+    lines.push({
+      code: 'child_seat',
+      label: `Siège enfant (${childSeats})`,
+      amount: round2(childSeats * tariff.options.childSeat),
+    });
+  }
+
+  // 5. Attente
+  const billableWaiting = Math.max(0, Math.ceil(trip.waitingMin || 0) - tariff.waiting.freeMinutes);
+  if (billableWaiting > 0 && tariff.waiting.perMinute > 0) {
+    lines.push({
+      code: 'waiting',
+      label: `Attente (${billableWaiting} min)`,
+      amount: round2(billableWaiting * tariff.waiting.perMinute),
+    });
+  }
+
+  const subtotal = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+
+  // 6. Promo site (première course)
+  const promoPercent = Math.min(Math.max(ctx.promoPercent || 0, 0), 100);
+  if (promoPercent > 0) {
+    lines.push({ code: 'promo', label: `Promo (-${promoPercent}%)`, amount: -round2((subtotal * promoPercent) / 100) });
+  }
+
+  return {
+    currency: 'EUR',
+    total: round2(lines.reduce((sum, l) => sum + l.amount, 0)),
+    subtotal,
+    lines,
+    distanceKm,
+    durationMin,
+    flatFare: flat?.label ?? null,
+    surcharge,
+  };
+}
+
+/**
+ * Devis complet : distance / durée estimées depuis les coordonnées si absentes,
+ * jour férié via FrenchCalendarAdapter. Les routes passent par
+ * TripQuoteService.quoteRoutedTrip (itinéraire + trafic) qui appelle celui-ci.
+ */
+export async function quoteTrip(
+  tariff: DriverTariff,
+  trip: Omit<TripRequest, 'distanceKm' | 'durationMin'> & { distanceKm?: number; durationMin?: number },
+  opts: { promoPercent?: number; linkedRoundTrip?: boolean } = {},
+): Promise<PriceQuote> {
+  let { distanceKm = 0, durationMin = 0 } = trip;
+  if (!(distanceKm > 0) && trip.pickup && trip.dropoff) {
+    ({ distanceKm, durationMin } = estimateTrip(trip.pickup, trip.dropoff));
+  }
+
+  const holiday =
+    tariff.sundayHoliday && trip.scheduledAt ? await getJourFerie(parisLocalTime(trip.scheduledAt).date) : null;
+
+  return computeQuote(
+    tariff,
+    { ...trip, distanceKm, durationMin },
+    { holiday, promoPercent: opts.promoPercent, linkedRoundTrip: opts.linkedRoundTrip },
+  );
+}
@@ -4,8 +4,23 @@
  *
  * UN SEUL APPEL API pour déclencher une conversation complète.
  * L'agent ElevenLabs gère : STT, LLM, TTS, barge-in, silence, turn-taking.
+ *
+ * Plages d'appel : CallingWindowService (type de prospect, heure locale,
+ * fériés) ; planification automatique : jobs/voiceCallScheduler.
+ * Liste d'opposition (Bloctel, désabonnements, « ne plus m'appeler ») :
+ * SuppressionService, vérifiée avant tout le reste.
+ *
+ * Le script (prompt + première phrase) est tiré parmi finder_voice_script_variants
+ * (Thompson sampling, VoiceCallInsightService) ; à défaut, prompt par défaut ci-dessous.
+ * L'annonce d'enregistrement est obligatoire : une première phrase de variante
+ * qui ne la contient pas la reçoit après sa salutation (withRecordingNotice).
  */
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isWithinCallingWindow, REQUESTED_SLOT_BOUNDS, resolveCallingContext } from './CallingWindowService.js';
+import { zonedLocalTime } from './DriverPricingEngine.js';
+import { renderTemplate } from './VariantSelectorService.js';
+import { pickVoiceScript } from './VoiceCallInsightService.js';
+import { checkOutboundTarget } from './SuppressionService.js';
 
 let _supa: SupabaseClient | null = null;
 function getSupa(): SupabaseClient {
@@ -23,20 +38,55 @@ const ELEVENLABS_PHONE_NUMBER_ID = () => process.env.ELEVENLABS_PHONE_NUMBER_ID!
 const BACKEND_URL = () =>
   process.env.BACKEND_URL || 'https://foreas-stripe-backend-production.up.railway.app';
 
+export const RECORDING_NOTICE = "Cet appel peut être enregistré à des fins d'amélioration du service.";
+const RECORDING_NOTICE_RE = /appel[^.?!]*enregistr/i;
+
+/** Première phrase avec l'annonce d'enregistrement — insérée après la salutation si absente */
+export function withRecordingNotice(firstMessage: string): string {
+  const text = firstMessage.trim();
+  if (RECORDING_NOTICE_RE.test(text)) return text;
+  const greeting = text.match(/^[^.?!]*[.?!]\s*/);
+  if (!greeting) return `${text} ${RECORDING_NOTICE}`.trim();
+  return `${greeting[0].trim()} ${RECORDING_NOTICE} ${text.slice(greeting[0].length)}`.trim();
+}
+
 // ── Pre-call checks ──────────────────────────────────────────────
-async function preCallChecks(driverId: string): Promise<{ ok: boolean; reason?: string }> {
+async function preCallChecks(
+  driverId: string,
+  target: { logId: string; toNumber: string; requestedSlot: boolean },
+): Promise<{ ok: boolean; reason?: string }> {
   const supa = getSupa();
 
-  // 1. Paris hours 9h-19h
-  const parisHour = parseInt(
-    new Intl.DateTimeFormat('fr-FR', {
-      timeZone: 'Europe/Paris',
-      hour: 'numeric',
-      hour12: false,
-    }).format(new Date()),
+  // 0. Liste d'opposition — un rappel demandé par le prospect n'est plus de la prospection
+  const suppression = await checkOutboundTarget('voice', target.toNumber, {
+    driverId,
+    prospecting: !target.requestedSlot,
+    details: { log_id: target.logId },
+  });
+  if (!suppression.allowed) {
+    return { ok: false, reason: `SUPPRESSED (${suppression.source ?? suppression.reason})` };
+  }
+
+  // 1. Plage d'appel du prospect (type de lieu, heure locale, fériés) ;
+  //    rappel demandé → bornes élargies, l'heure du prospect prime
+  const { data: prospectLog } = await supa
+    .from('pieuvre_b2b_hunter_log')
+    .select('business_type')
+    .eq('id', target.logId)
+    .maybeSingle();
+  const now = Date.now();
+  const calling = await resolveCallingContext(
+    { businessType: (prospectLog as any)?.business_type, phone: target.toNumber },
+    now,
   );
-  if (parisHour < 9 || parisHour >= 19) {
-    return { ok: false, reason: `OUTSIDE_HOURS (Paris: ${parisHour}h)` };
+  const local = zonedLocalTime(new Date(now).toISOString(), calling.timeZone);
+  if (calling.holidays.has(local.date)) {
+    return { ok: false, reason: `HOLIDAY (${local.date})` };
+  }
+  const policy = target.requestedSlot ? REQUESTED_SLOT_BOUNDS : calling.policy;
+  if (!isWithinCallingWindow(now, policy, calling.timeZone, calling.holidays)) {
+    const hhmm = `${Math.floor(local.minutes / 60)}h${String(local.minutes % 60).padStart(2, '0')}`;
+    return { ok: false, reason: `OUTSIDE_WINDOW (${calling.category}, ${calling.timeZone} ${hhmm})` };
   }
 
   // 2. voice_calls_enabled
@@ -147,14 +197,29 @@ export async function initiateElevenLabsCall(params: {
   logId: string;
   placeId: string | null;
   toNumber: string;
-}): Promise<{ success: boolean; callId?: string; reason?: string }> {
-  const check = await preCallChecks(params.driverId);
+  /** Origine (jobs/voiceCallScheduler) ; absent = déclenchement manuel */
+  scheduleReason?: 'first' | 'callback' | 'retry';
+  /** Rappel demandé par le prospect : appel d'origine + sa demande */
+  callbackOf?: { callId: string; note: string | null };
+}): Promise<{
+  success: boolean;
+  callId?: string;
+  reason?: string;
+  /** Échec de l'appel lui-même (absent : refus des vérifications préalables) — false : 4xx, inutile de réessayer */
+  retryable?: boolean;
+}> {
+  const check = await preCallChecks(params.driverId, {
+    logId: params.logId,
+    toNumber: params.toNumber,
+    requestedSlot: params.scheduleReason === 'callback',
+  });
   if (!check.ok) {
     console.log(`[ElevenLabsCall] Pre-check failed: ${check.reason}`);
     return { success: false, reason: check.reason };
   }
 
   const ctx = await buildCallContext(params.threadId, params.logId);
+  const script = await pickVoiceScript('fr');
   const supa = getSupa();
 
   // Create DB record BEFORE call
@@ -169,18 +234,32 @@ export async function initiateElevenLabsCall(params: {
       to_number: params.toNumber,
       status: 'INITIATED',
       started_at: new Date().toISOString(),
+      script_variant_id: script?.id ?? null,
+      callback_of_call_id: params.callbackOf?.callId ?? null,
+      schedule_reason: params.scheduleReason ?? 'manual',
     })
     .select('id')
     .single();
 
   if (insertErr || !callRow) {
-    return { success: false, reason: `DB insert failed: ${insertErr?.message}` };
+    return { success: false, reason: `DB insert failed: ${insertErr?.message}`, retryable: true };
   }
 
   const callId = (callRow as any).id;
 
+  const callbackContext = params.callbackOf
+    ? `\n\nRAPPEL : le prospect a demandé à être rappelé lors d'un précédent appel${params.callbackOf.note ? ` (« ${params.callbackOf.note} »)` : ''}. Commence par le rappeler.`
+    : '';
+  const scriptVars = {
+    place_name: ctx.placeName,
+    place_type: ctx.placeType,
+    email_history: ctx.emailHistory,
+    driver_presentation: ctx.driverPresentation,
+    objection_playbook: ctx.objectionPlaybook,
+  };
+
   // Dynamic prompt for this specific call
-  const dynamicPrompt = `Tu es Ajnaya, l'assistante commerciale du réseau FOREAS. Tu appelles ${ctx.placeName} (${ctx.placeType}) suite à un échange email positif.
+  const defaultPrompt = `Tu es Ajnaya, l'assistante commerciale du réseau FOREAS. Tu appelles ${ctx.placeName} (${ctx.placeType}) suite à un échange email positif.
 
 CONTEXTE EMAIL :
 ${ctx.emailHistory}
@@ -205,6 +284,11 @@ Si "pas maintenant" → propose un rappel via "schedule_callback", note la date,
 Si non → remercie et termine.
 
 Ton : chaleureux, professionnel, direct. Phrases courtes (1-2 max).`;
+  const dynamicPrompt =
+    (script ? renderTemplate(script.prompt_template, scriptVars) : defaultPrompt) + callbackContext;
+  const firstMessage = script
+    ? withRecordingNotice(renderTemplate(script.first_message_template, scriptVars))
+    : `Bonjour, ici Ajnaya du réseau FOREAS. ${RECORDING_NOTICE} Je vous appelle suite à notre échange par email concernant un chauffeur partenaire pour ${ctx.placeName}. Avez-vous deux minutes ?`;
 
   try {
     const res = await fetch('https://api.elevenlabs.io/v1/convai/twilio/outbound-call', {
@@ -220,7 +304,7 @@ Ton : chaleureux, professionnel, direct. Phrases courtes (1-2 max).`;
         conversation_config_override: {
           agent: {
             prompt: { prompt: dynamicPrompt },
-            first_message: `Bonjour, ici Ajnaya du réseau FOREAS. Cet appel peut être enregistré à des fins d'amélioration du service. Je vous appelle suite à notre échange par email concernant un chauffeur partenaire pour ${ctx.placeName}. Avez-vous deux minutes ?`,
+            first_message: firstMessage,
           },
         },
         custom_llm_extra_body: {
@@ -229,6 +313,7 @@ Ton : chaleureux, professionnel, direct. Phrases courtes (1-2 max).`;
           log_id: params.logId,
           thread_id: params.threadId,
           place_name: ctx.placeName,
+          script_variant_id: script?.id ?? null,
         },
       }),
     });
@@ -237,7 +322,12 @@ Ton : chaleureux, professionnel, direct. Phrases courtes (1-2 max).`;
       const errText = await res.text();
       console.error(`[ElevenLabsCall] API error ${res.status}: ${errText}`);
       await supa.from('finder_voice_calls').update({ status: 'FAILED' }).eq('id', callId);
-      return { success: false, reason: `ElevenLabs API ${res.status}: ${errText.slice(0, 200)}` };
+      return {
+        success: false,
+        reason: `ElevenLabs API ${res.status}: ${errText.slice(0, 200)}`,
+        // Requête refusée (numéro invalide, agent mal configuré…) : identique au prochain essai
+        retryable: res.status >= 500 || res.status === 429,
+      };
     }
 
     const resData = await res.json();
@@ -266,6 +356,6 @@ Ton : chaleureux, professionnel, direct. Phrases courtes (1-2 max).`;
   } catch (err: any) {
     console.error(`[ElevenLabsCall] ❌ ${err.message}`);
     await supa.from('finder_voice_calls').update({ status: 'FAILED' }).eq('id', callId);
-    return { success: false, reason: err.message };
+    return { success: false, reason: err.message, retryable: true };
   }
 }
@@ -20,7 +20,8 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import type { EmailIntent } from '../types/clientFinder.js';
 import { ALL_EMAIL_INTENTS } from '../types/clientFinder.js';
-import { isEmailOptedOut, generateOptoutToken } from './OptoutService.js';
+import { optoutUrl } from './OptoutService.js';
+import { checkOutboundTarget } from './SuppressionService.js';
 import { buildFromHeader, parseLogIdFromAddress } from './ThreadAddressing.js';
 
 export type SupportedLang = 'fr' | 'en' | 'es' | 'it';
@@ -301,10 +302,14 @@ async function sendAjnayaResponse(
 ): Promise<void> {
   const supa = getSupa();
 
-  // v87.1 — Respect opt-out list avant toute chose
-  if (await isEmailOptedOut(original.from)) {
-    console.log(`[FinderConversation] Skip opted-out: ${original.from}`);
-    await closeThread(threadId, 'CLOSED_LOST');
+  // v87.1 — Respect opt-out list avant toute chose (échange en cours : Bloctel ne s'applique pas)
+  const suppression = await checkOutboundTarget('email', original.from, {
+    prospecting: false,
+    details: { thread_id: threadId },
+  });
+  if (!suppression.allowed) {
+    console.log(`[FinderConversation] Skip ${suppression.reason}: ${original.from}`);
+    if (suppression.source) await closeThread(threadId, 'CLOSED_LOST');
     return;
   }
 
@@ -418,11 +423,9 @@ async function sendAjnayaResponse(
     const { Resend } = await import('resend');
     const resend = new Resend(process.env.RESEND_API_KEY);
 
-    const optoutToken = generateOptoutToken(original.from);
-    const optoutUrl = `https://foreas.xyz/optout/${optoutToken}`;
     const footer =
       '\n\n--\nAjnaya — Relations partenaires FOREAS\nforeas.xyz\n\n' +
-      `Si vous ne souhaitez plus recevoir de messages : ${optoutUrl}`;
+      `Si vous ne souhaitez plus recevoir de messages : ${optoutUrl(original.from)}`;
 
     const result = await resend.emails.send({
       from: fromHeader,
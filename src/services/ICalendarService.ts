@@ -0,0 +1,176 @@
+/**
+ * ICalendarService — export iCalendar (RFC 5545) des réservations directes
+ *
+ * - Flux d'abonnement par chauffeur (GET /api/bookings/calendar/:token.ics) :
+ *   Google / Apple Calendar le relisent périodiquement, les confirmations et
+ *   annulations y apparaissent (STATUS + SEQUENCE).
+ * - Pièce jointe .ics de l'email de réservation client.
+ *
+ * UID stable par réservation → le même événement est mis à jour, jamais dupliqué.
+ */
+
+export type IcsAudience = 'driver' | 'client';
+
+/** Colonnes de bookings utilisées */
+export interface IcsBooking {
+  id: string;
+  status: string;
+  scheduled_at: string;
+  estimated_duration_min: number | null;
+  pickup_address: string;
+  pickup_lat?: number | null;
+  pickup_lng?: number | null;
+  dropoff_address: string;
+  /** Étapes intermédiaires (BookingTripService) */
+  stops?: Array<{ address: string }> | null;
+  trip_leg?: string | null;
+  client_name?: string | null;
+  client_phone?: string | null;
+  client_note?: string | null;
+  estimated_price?: number | null;
+  site_slug?: string | null;
+  created_at?: string | null;
+  confirmed_at?: string | null;
+  cancelled_at?: string | null;
+}
+
+const PRODID = '-//FOREAS//Reservations chauffeur//FR';
+const UID_DOMAIN = 'foreas.xyz';
+const DEFAULT_DURATION_MIN = 60;
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'En attente de confirmation',
+  confirmed: 'Confirmée',
+  reminded_2h: 'Confirmée',
+  reminded_15m: 'Confirmée',
+  cancelled: 'Annulée',
+};
+
+// ── Format ────────────────────────────────────────────────────────
+
+/** Échappement TEXT (RFC 5545 §3.3.11) */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Pliage des lignes à 75 octets (UTF-8), continuation par un espace */
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8');
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      chunks.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+/** 2026-10-20T18:30:00.000Z → 20261020T183000Z */
+export function formatIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsStatus(status: string): 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED' {
+  if (status === 'cancelled') return 'CANCELLED';
+  if (status === 'pending') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+// ── Événements ────────────────────────────────────────────────────
+
+/**
+ * VEVENT d'une réservation. Le chauffeur voit le client (nom, téléphone, note),
+ * le client voit son chauffeur (`driverName`).
+ */
+export function buildBookingEvent(
+  b: IcsBooking,
+  opts: { audience: IcsAudience; driverName?: string; now?: string },
+): string[] {
+  const start = b.scheduled_at;
+  const durationMin = b.estimated_duration_min && b.estimated_duration_min > 0 ? b.estimated_duration_min : DEFAULT_DURATION_MIN;
+  const end = new Date(Date.parse(start) + durationMin * 60 * 1000).toISOString();
+  const status = STATUS_LABELS[b.status] || b.status;
+  const lastModified = b.cancelled_at || b.confirmed_at || b.created_at || opts.now || new Date().toISOString();
+  // Chaque changement d'état incrémente la séquence (le client met à jour l'événement)
+  const sequence = (b.confirmed_at ? 1 : 0) + (b.cancelled_at ? 1 : 0);
+
+  const leg = b.trip_leg === 'return' ? ' (retour)' : '';
+  const summary =
+    opts.audience === 'driver'
+      ? `🚗 ${b.client_name || 'Client'} — ${b.pickup_address}${leg}`
+      : `🚗 Trajet${leg} avec ${opts.driverName || 'votre chauffeur'}`;
+
+  const description = [
+    `Statut : ${status}`,
+    `Départ : ${b.pickup_address}`,
+    ...(b.stops || []).map((s, i) => `Arrêt ${i + 1} : ${s.address}`),
+    `Arrivée : ${b.dropoff_address}`,
+    ...(opts.audience === 'driver'
+      ? [
+          b.client_name ? `Client : ${b.client_name}` : null,
+          b.client_phone ? `Téléphone : ${b.client_phone}` : null,
+          b.client_note ? `Note : ${b.client_note}` : null,
+        ]
+      : [opts.driverName ? `Chauffeur : ${opts.driverName}` : null]),
+    b.estimated_price ? `Prix : ${b.estimated_price.toFixed(2).replace('.', ',')} €` : null,
+  ].filter(Boolean);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:booking-${b.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsDate(opts.now || new Date().toISOString())}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `LAST-MODIFIED:${formatIcsDate(lastModified)}`,
+    `SEQUENCE:${sequence}`,
+    `STATUS:${icsStatus(b.status)}`,
+    `SUMMARY:${escapeIcsText(b.status === 'cancelled' ? `[Annulée] ${summary}` : summary)}`,
+    `LOCATION:${escapeIcsText(b.pickup_address)}`,
+    `DESCRIPTION:${escapeIcsText(description.join('\n'))}`,
+  ];
+  if (b.pickup_lat && b.pickup_lng) lines.push(`GEO:${b.pickup_lat};${b.pickup_lng}`);
+  if (b.status !== 'cancelled') {
+    lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER:-PT30M', `DESCRIPTION:${escapeIcsText(summary)}`, 'END:VALARM');
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** VCALENDAR complet, lignes pliées, fins de ligne CRLF */
+export function buildCalendar(events: string[][], opts: { name: string; refreshMinutes?: number }): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(opts.name)}`,
+    'X-WR-TIMEZONE:Europe/Paris',
+    ...(opts.refreshMinutes
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${opts.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${opts.refreshMinutes}M`]
+      : []),
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/** .ics d'une réservation (pièce jointe email client) — aller et retour ensemble si aller-retour */
+export function buildBookingIcs(b: IcsBooking, driverName?: string, returnLeg?: IcsBooking | null): string {
+  return buildCalendar(
+    [b, returnLeg].filter(Boolean).map((leg) => buildBookingEvent(leg, { audience: 'client', driverName })),
+    { name: 'Réservation FOREAS' },
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * JobQueueService — file de jobs persistante (table job_queue)
+ *
+ * Un seul mécanisme pour tout ce qui doit partir plus tard ou être réessayé :
+ *   - enqueueJob()         planifie (run_at) avec clé d'idempotence
+ *   - registerJobHandler() associe un job_type à son exécution
+ *   - runJobBatch()        réserve les jobs dus (claim_jobs) et les exécute
+ *   - startJobWorker()     boucle de polling lancée au démarrage du serveur
+ *
+ * Un handler qui lève une erreur est réessayé avec backoff exponentiel ;
+ * au-delà de max_attempts (ou PermanentJobError) le job passe en 'dead'
+ * (dead-letter), consultable et rejouable via /api/internal/jobs.
+ */
+
+import { hostname } from 'os';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead' | 'cancelled';
+
+export interface Job<P = Record<string, any>> {
+  id: string;
+  job_type: string;
+  payload: P;
+  status: JobStatus;
+  run_at: string;
+  attempts: number;
+  max_attempts: number;
+  idempotency_key: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export type JobHandler<P = Record<string, any>> = (payload: P, job: Job<P>) => Promise<void>;
+
+export interface EnqueueOptions {
+  /** Date d'exécution (défaut : maintenant) */
+  runAt?: Date | string;
+  /** Un job avec la même clé n'est jamais créé deux fois */
+  idempotencyKey?: string;
+  maxAttempts?: number;
+}
+
+export interface BatchResult {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+/** Erreur non réessayable : le job part directement en dead-letter */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+const LEASE_SECONDS = 600;
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+const handlers = new Map<string, JobHandler<any>>();
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** Délai avant la tentative suivante : 30s, 1min, 2min, 4min... plafonné à 6h */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+/** État du job après un échec (attempts = tentatives déjà consommées, celle-ci incluse) */
+export function failureTransition(
+  job: Pick<Job, 'attempts' | 'max_attempts'>,
+  err: unknown,
+  now = Date.now(),
+): { status: 'pending' | 'dead'; run_at?: string } {
+  if (err instanceof PermanentJobError || job.attempts >= job.max_attempts) return { status: 'dead' };
+  return { status: 'pending', run_at: new Date(now + retryDelayMs(job.attempts)).toISOString() };
+}
+
+// ── Enregistrement / planification ────────────────────────────────
+
+export function registerJobHandler<P = Record<string, any>>(jobType: string, handler: JobHandler<P>): void {
+  handlers.set(jobType, handler as JobHandler<any>);
+}
+
+/**
+ * Planifie un job. Avec une clé d'idempotence déjà connue, ne fait rien
+ * et renvoie null (le job existant reste la référence).
+ */
+export async function enqueueJob(
+  jobType: string,
+  payload: Record<string, any>,
+  opts: EnqueueOptions = {},
+): Promise<string | null> {
+  const runAt = opts.runAt ? new Date(opts.runAt).toISOString() : new Date().toISOString();
+  const row = {
+    job_type: jobType,
+    payload,
+    run_at: runAt,
+    max_attempts: opts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    idempotency_key: opts.idempotencyKey ?? null,
+  };
+
+  const query = opts.idempotencyKey
+    ? getSupa().from('job_queue').upsert(row, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+    : getSupa().from('job_queue').insert(row);
+  const { data, error } = await query.select('id');
+  if (error) throw new Error(`Failed to enqueue ${jobType}: ${error.message}`);
+  return data?.[0]?.id ?? null;
+}
+
+/** Annule les jobs encore en attente dont la clé commence par `keyPrefix` */
+export async function cancelPendingJobs(keyPrefix: string): Promise<number> {
+  const { data, error } = await getSupa()
+    .from('job_queue')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('status', 'pending')
+    .like('idempotency_key', `${keyPrefix}%`)
+    .select('id');
+  if (error) throw new Error(`Failed to cancel jobs: ${error.message}`);
+  return data?.length ?? 0;
+}
+
+// ── Exécution ─────────────────────────────────────────────────────
+
+async function settleJob(job: Job, err: unknown): Promise<'succeeded' | 'retried' | 'dead'> {
+  const now = new Date().toISOString();
+  if (!err) {
+    await getSupa()
+      .from('job_queue')
+      .update({ status: 'succeeded', completed_at: now, updated_at: now, locked_by: null, last_error: null })
+      .eq('id', job.id);
+    return 'succeeded';
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  const next = failureTransition(job, err);
+  await getSupa()
+    .from('job_queue')
+    .update({
+      status: next.status,
+      ...(next.run_at ? { run_at: next.run_at } : {}),
+      last_error: message.slice(0, 1000),
+      locked_by: null,
+      updated_at: now,
+    })
+    .eq('id', job.id);
+
+  if (next.status === 'dead') {
+    console.error(`[JobQueue] ☠️ ${job.job_type} ${job.id} dead after ${job.attempts} attempt(s): ${message}`);
+    return 'dead';
+  }
+  console.warn(`[JobQueue] ${job.job_type} ${job.id} failed (attempt ${job.attempts}), retry at ${next.run_at}: ${message}`);
+  return 'retried';
+}
+
+/** Réserve et exécute un lot de jobs dus */
+export async function runJobBatch(limit = 20): Promise<BatchResult> {
+  const result: BatchResult = { claimed: 0, succeeded: 0, retried: 0, dead: 0 };
+  const { data, error } = await getSupa().rpc('claim_jobs', {
+    p_worker: WORKER_ID,
+    p_limit: limit,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+  if (error) throw new Error(`claim_jobs failed: ${error.message}`);
+
+  const jobs = (data || []) as Job[];
+  result.claimed = jobs.length;
+
+  for (const job of jobs) {
+    const handler = handlers.get(job.job_type);
+    let err: unknown = null;
+    try {
+      // Pas permanent : un réplica d'une version antérieure peut réserver un type inconnu
+      if (!handler) throw new Error(`No handler registered for ${job.job_type}`);
+      await handler(job.payload, job);
+    } catch (e) {
+      err = e;
+    }
+    result[await settleJob(job, err)]++;
+  }
+
+  if (jobs.length > 0) console.log('[JobQueue] Batch done:', result);
+  return result;
+}
+
+/**
+ * Boucle du worker : enchaîne les lots tant qu'il y a du travail,
+ * sinon attend `intervalMs`. Renvoie une fonction d'arrêt.
+ */
+export function startJobWorker(opts: { intervalMs?: number; batchSize?: number } = {}): () => void {
+  const intervalMs = opts.intervalMs ?? 15_000;
+  const batchSize = opts.batchSize ?? 20;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const tick = async () => {
+    if (stopped) return;
+    let delay = intervalMs;
+    try {
+      const { claimed } = await runJobBatch(batchSize);
+      if (claimed === batchSize) delay = 0;
+    } catch (err: any) {
+      console.error('[JobQueue] Worker tick error:', err.message);
+    }
+    if (!stopped) timer = setTimeout(tick, delay);
+  };
+
+  console.log(`[JobQueue] Worker ${WORKER_ID} started (${handlers.size} handlers, every ${intervalMs / 1000}s)`);
+  timer = setTimeout(tick, 0);
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
+
+// ── Administration (dead-letter) ──────────────────────────────────
+
+export async function listDeadJobs(limit = 50): Promise<Job[]> {
+  const { data, error } = await getSupa()
+    .from('job_queue')
+    .select('*')
+    .eq('status', 'dead')
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`job_queue query failed: ${error.message}`);
+  return (data || []) as Job[];
+}
+
+/** Remet un job dead en file, compteur de tentatives remis à zéro */
+export async function retryDeadJob(jobId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await getSupa()
+    .from('job_queue')
+    .update({ status: 'pending', attempts: 0, run_at: now, last_error: null, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+    .select('id');
+  if (error) throw new Error(`Failed to retry job: ${error.message}`);
+  return (data?.length ?? 0) > 0;
+}
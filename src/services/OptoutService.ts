@@ -2,21 +2,30 @@
  * OptoutService — RGPD opt-out avec HMAC token
  * Ajnaya2026v87.1
  *
- * Token format : base64url(email).hmac(first16hex)
+ * Token format : base64url(cible).hmac(first16hex)
+ * Cible = email, ou numéro E.164 pour les liens SMS / WhatsApp.
  * Permet d'éviter qu'un tiers puisse désabonner n'importe qui.
  *
- * Stocké dans la table finder_optout_list.
+ * Stocké dans outreach_suppressions (SuppressionService), qui remplace
+ * finder_optout_list.
  */
 
 import crypto from 'crypto';
-import { getSupabase } from '../lib/supabase.js';
+import {
+  findSuppression,
+  normalizePhoneTarget,
+  suppressTarget,
+  type SuppressionSource,
+} from './SuppressionService.js';
+
+const OPTOUT_BASE_URL = 'https://foreas.xyz/optout';
 
 function getSecret(): string {
   return process.env.OPTOUT_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || 'foreas-dev-optout';
 }
 
-export function generateOptoutToken(email: string): string {
-  const b64 = Buffer.from(email).toString('base64url');
+export function generateOptoutToken(target: string): string {
+  const b64 = Buffer.from(target).toString('base64url');
   const sig = crypto.createHmac('sha256', getSecret()).update(b64).digest('hex').slice(0, 16);
   return `${b64}.${sig}`;
 }
@@ -37,34 +46,31 @@ export function decodeOptoutToken(token: string): string | null {
   }
 }
 
+/** Lien de désabonnement pour un email ou un numéro (SMS / WhatsApp) */
+export function optoutUrl(target: string): string {
+  const t = target.includes('@') ? target.toLowerCase().trim() : (normalizePhoneTarget(target) ?? target);
+  return `${OPTOUT_BASE_URL}/${generateOptoutToken(t)}`;
+}
+
+/**
+ * Fail closed : liste d'opposition illisible → traité comme opposé (même
+ * contrat que checkOutboundTarget, à préférer pour un envoi).
+ */
 export async function isEmailOptedOut(email: string): Promise<boolean> {
   try {
-    const supa = getSupabase();
-    const { data } = await supa
-      .from('finder_optout_list')
-      .select('email')
-      .eq('email', email.toLowerCase().trim())
-      .maybeSingle();
-    return !!data;
+    // Bloctel ne concerne que les numéros : seules les oppositions email comptent
+    return !!(await findSuppression('email', email, false));
   } catch (err: any) {
-    console.warn('[Optout] isEmailOptedOut error:', err?.message);
-    return false;
+    console.error('[Optout] isEmailOptedOut check failed, treating as opted out:', err?.message);
+    return true;
   }
 }
 
 export async function addToOptoutList(
-  email: string,
-  source: 'link' | 'reply' | 'complaint' | 'manual',
+  target: string,
+  source: Extract<SuppressionSource, 'link' | 'reply' | 'complaint' | 'manual'>,
   reason?: string,
 ): Promise<void> {
-  const supa = getSupabase();
-  await supa.from('finder_optout_list').upsert(
-    {
-      email: email.toLowerCase().trim(),
-      source,
-      reason: reason ?? null,
-      optout_at: new Date().toISOString(),
-    },
-    { onConflict: 'email' },
-  );
+  const ok = await suppressTarget(target.includes('@') ? 'email' : 'phone', target, source, reason);
+  if (!ok) throw new Error('invalid opt-out target');
 }
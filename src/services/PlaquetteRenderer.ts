@@ -21,6 +21,8 @@
  *   - Norman : QR scannable d'un geste, sans effort
  */
 
+import { normalizeDriverTariff } from './DriverPricingEngine.js';
+
 export interface PlaquetteOptions {
   siteUrl: string; // https://foreas.xyz/karim-47
   qrSvgDataUri?: string; // data:image/svg+xml;base64,... — si omis, QR API fallback
@@ -40,7 +42,7 @@ export function renderPlaquetteHtml(site: any, opts: PlaquetteOptions): string {
   const vehicleType = site.vehicle_type || site.niche_label || 'Chauffeur VTC';
   const bio = site.bio || '';
   const photoUrl = site.photo_url;
-  const pricing = site.pricing || null;
+  const tariff = normalizeDriverTariff(site.pricing);
   const promoCode = site.promo_code;
   const stars = '★'.repeat(Math.round(rating)) + '☆'.repeat(5 - Math.round(rating));
 
@@ -54,10 +56,10 @@ export function renderPlaquetteHtml(site: any, opts: PlaquetteOptions): string {
 
   // Tarif anchor — affiche "à partir de X€" si pricing disponible
   const priceAnchor =
-    pricing?.base_fare != null
+    tariff && Math.max(tariff.baseFare, tariff.minimumFare) > 0
       ? `<div class="price-anchor">
            <div class="price-anchor-label">À PARTIR DE</div>
-           <div class="price-anchor-value">${Math.round(pricing.base_fare)}<span class="price-anchor-cur">€</span></div>
+           <div class="price-anchor-value">${Math.round(Math.max(tariff.baseFare, tariff.minimumFare))}<span class="price-anchor-cur">€</span></div>
            <div class="price-anchor-detail">Prix fixe garanti · Zéro surprise</div>
          </div>`
       : '';
@@ -0,0 +1,526 @@
+/**
+ * PrivateHunterService — demandes de chasse client des abonnés
+ *
+ * Un abonné avec Stripe Connect décrit le client qu'il cherche (famille / type
+ * de lieu, zone, créneau). Le service :
+ *   1. createHuntingRequest()  — vérifie l'éligibilité, enregistre la demande
+ *   2. runHuntingMatch()       — rapproche la demande de places_directory et des
+ *                                prospects ClientFinder chauds (pieuvre_b2b_hunter_log)
+ *   3. updateHuntMatchStatus() — suit chaque correspondance jusqu'à la course
+ *                                directe confirmée (et répercute sur la demande)
+ *
+ * L'agent hunter du graphe Ajnaya lit pieuvre_hunter_matches pour remonter
+ * les correspondances au Stratégiste (src/lib/langgraph/agents/hunter.ts).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { PlaceDirectory, PlaceTypeFamilyExtended } from '../types/clientFinder.js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export type HuntRequestStatus =
+  | 'pending'
+  | 'matched'
+  | 'no_match'
+  | 'booked'
+  | 'confirmed'
+  | 'expired'
+  | 'cancelled';
+
+export type HuntMatchStatus =
+  | 'new'
+  | 'surfaced'
+  | 'contacted'
+  | 'accepted'
+  | 'booked'
+  | 'confirmed'
+  | 'declined';
+
+export interface HuntingRequestInput {
+  targetFamily?: PlaceTypeFamilyExtended | null;
+  targetPlaceTypes?: string[];
+  city: string;
+  centerLat?: number | null;
+  centerLng?: number | null;
+  radiusKm?: number;
+  windowStart: string;
+  windowEnd: string;
+  notes?: string | null;
+}
+
+export interface HuntingRequest {
+  id: string;
+  driver_id: string;
+  target_family: PlaceTypeFamilyExtended | null;
+  target_place_types: string[];
+  city: string;
+  center_lat: number | null;
+  center_lng: number | null;
+  radius_km: number;
+  window_start: string;
+  window_end: string;
+  notes: string | null;
+  status: HuntRequestStatus;
+  matches_count: number;
+  matched_at: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HuntMatch {
+  id: string;
+  request_id: string;
+  driver_id: string;
+  source: 'places_directory' | 'client_finder';
+  place_directory_id: string;
+  hunter_log_id: string | null;
+  name: string;
+  place_type: string | null;
+  place_type_family: string | null;
+  address: string | null;
+  distance_km: number | null;
+  score: number;
+  status: HuntMatchStatus;
+  surfaced_at: string | null;
+  booking_at: string | null;
+  booking_amount_eur: number | null;
+  confirmed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Prospect ClientFinder déjà en conversation avec le chauffeur */
+export interface WarmProspect {
+  id: string;
+  place_directory_id: string;
+  status: string;
+}
+
+export type HuntCandidate = Pick<
+  HuntMatch,
+  | 'source'
+  | 'place_directory_id'
+  | 'hunter_log_id'
+  | 'name'
+  | 'place_type'
+  | 'place_type_family'
+  | 'address'
+  | 'distance_km'
+  | 'score'
+>;
+
+export class PrivateHunterError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'PrivateHunterError';
+  }
+}
+
+// ── Constantes ────────────────────────────────────────────────────
+
+const MAX_MATCHES = 10;
+const CANDIDATE_POOL = 60;
+const DEFAULT_RADIUS_KM = 10;
+const MAX_WINDOW_DAYS = 30;
+
+/** Statuts hunter_log d'un prospect qui a répondu / est en cours d'échange */
+export const WARM_PROSPECT_STATUSES = ['REPLIED', 'BRIEFED', 'CALL_CALLBACK'];
+
+/** Demandes encore ouvertes (l'agent hunter et l'expiration ne regardent qu'elles) */
+export const OPEN_REQUEST_STATUSES: HuntRequestStatus[] = ['pending', 'matched', 'no_match', 'booked'];
+
+const MATCH_TRANSITIONS: Record<HuntMatchStatus, HuntMatchStatus[]> = {
+  new: ['surfaced', 'contacted', 'declined'],
+  surfaced: ['contacted', 'declined'],
+  contacted: ['accepted', 'declined'],
+  accepted: ['booked', 'declined'],
+  booked: ['confirmed', 'declined'],
+  confirmed: [],
+  declined: [],
+};
+
+// ── Logique pure (testée) ─────────────────────────────────────────
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function canTransitionMatch(from: HuntMatchStatus, to: HuntMatchStatus): boolean {
+  return MATCH_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Classe les lieux candidats pour une demande (0-100) :
+ *   qualité du lieu (50) + proximité du centre (30) + prospect ClientFinder chaud (20).
+ * Hors rayon ou hors type demandé → écarté.
+ */
+export function rankHuntCandidates(
+  request: Pick<HuntingRequest, 'target_place_types' | 'center_lat' | 'center_lng' | 'radius_km'>,
+  places: PlaceDirectory[],
+  warmProspects: WarmProspect[] = [],
+  limit = MAX_MATCHES,
+): HuntCandidate[] {
+  const warmByPlace = new Map(warmProspects.map((p) => [p.place_directory_id, p]));
+  const radius = Number(request.radius_km) || DEFAULT_RADIUS_KM;
+  const hasCenter = request.center_lat != null && request.center_lng != null;
+  const types = request.target_place_types || [];
+
+  const candidates: HuntCandidate[] = [];
+  for (const place of places) {
+    if (types.length > 0 && !types.includes(place.place_type)) continue;
+
+    let distanceKm: number | null = null;
+    if (hasCenter && place.lat != null && place.lng != null) {
+      distanceKm = haversineKm(request.center_lat!, request.center_lng!, place.lat, place.lng);
+      if (distanceKm > radius) continue;
+    }
+
+    const quality = Math.min(Math.max(place.quality_score ?? 0, 0), 100);
+    // Distance inconnue : demi-points de proximité
+    const proximity = distanceKm == null ? 15 : 30 * (1 - distanceKm / radius);
+    const warm = warmByPlace.get(place.id);
+
+    candidates.push({
+      source: warm ? 'client_finder' : 'places_directory',
+      place_directory_id: place.id,
+      hunter_log_id: warm?.id ?? null,
+      name: place.name,
+      place_type: place.place_type,
+      place_type_family: place.place_type_family,
+      address: place.address,
+      distance_km: distanceKm == null ? null : Math.round(distanceKm * 100) / 100,
+      score: Math.round(quality * 0.5 + proximity + (warm ? 20 : 0)),
+    });
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.place_directory_id.localeCompare(b.place_directory_id))
+    .slice(0, limit);
+}
+
+/**
+ * Statut d'une demande déduit de ses correspondances
+ * (la plus avancée l'emporte ; cancelled / expired restent posés à la main).
+ */
+export function deriveRequestStatus(matchStatuses: HuntMatchStatus[]): HuntRequestStatus {
+  if (matchStatuses.includes('confirmed')) return 'confirmed';
+  if (matchStatuses.includes('booked')) return 'booked';
+  if (matchStatuses.some((s) => s !== 'declined')) return 'matched';
+  return 'no_match';
+}
+
+// ── Demandes ──────────────────────────────────────────────────────
+
+async function assertEligibleDriver(driverId: string): Promise<void> {
+  const { data: driver, error } = await getSupa()
+    .from('drivers')
+    .select('id, subscription_active, stripe_account_id')
+    .eq('id', driverId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Driver lookup failed: ${error.message}`);
+  if (!driver) throw new PrivateHunterError('Driver not found', 404);
+  if (driver.subscription_active !== true || !driver.stripe_account_id) {
+    throw new PrivateHunterError('Private Hunter requires an active subscription with Stripe Connect', 403);
+  }
+}
+
+export async function createHuntingRequest(
+  driverId: string,
+  input: HuntingRequestInput,
+): Promise<{ request: HuntingRequest; matches: HuntMatch[] }> {
+  const start = new Date(input.windowStart);
+  const end = new Date(input.windowEnd);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    throw new PrivateHunterError('Invalid time window', 400);
+  }
+  if (end.getTime() < Date.now()) {
+    throw new PrivateHunterError('Time window already over', 400);
+  }
+  if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    throw new PrivateHunterError(`Time window longer than ${MAX_WINDOW_DAYS} days`, 400);
+  }
+
+  await assertEligibleDriver(driverId);
+
+  const { data, error } = await getSupa()
+    .from('pieuvre_hunter_requests')
+    .insert({
+      driver_id: driverId,
+      target_family: input.targetFamily ?? null,
+      target_place_types: input.targetPlaceTypes ?? [],
+      city: input.city,
+      center_lat: input.centerLat ?? null,
+      center_lng: input.centerLng ?? null,
+      radius_km: input.radiusKm ?? DEFAULT_RADIUS_KM,
+      window_start: start.toISOString(),
+      window_end: end.toISOString(),
+      notes: input.notes ?? null,
+      status: 'pending',
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to insert hunting request: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return runHuntingMatch(data as HuntingRequest);
+}
+
+/**
+ * Rapproche une demande de places_directory + prospects ClientFinder chauds.
+ * Relançable : les correspondances déjà suivies gardent leur statut.
+ */
+export async function runHuntingMatch(
+  request: HuntingRequest,
+): Promise<{ request: HuntingRequest; matches: HuntMatch[] }> {
+  const supa = getSupa();
+
+  let placesQuery = supa
+    .from('places_directory')
+    .select('*')
+    .eq('city', request.city)
+    .order('quality_score', { ascending: false, nullsFirst: false })
+    .limit(CANDIDATE_POOL);
+  if (request.target_family) placesQuery = placesQuery.eq('place_type_family', request.target_family);
+
+  const [{ data: places, error: placesErr }, { data: prospects }] = await Promise.all([
+    placesQuery,
+    supa
+      .from('pieuvre_b2b_hunter_log')
+      .select('id, place_directory_id, status')
+      .eq('driver_id', request.driver_id)
+      .in('status', WARM_PROSPECT_STATUSES)
+      .not('place_directory_id', 'is', null),
+  ]);
+
+  if (placesErr) throw new Error(`places_directory query failed: ${placesErr.message}`);
+
+  // Les prospects chauds hors du top qualité doivent rester candidats
+  const pool = [...((places || []) as PlaceDirectory[])];
+  const warm = (prospects || []) as WarmProspect[];
+  const missingIds = warm.map((p) => p.place_directory_id).filter((id) => !pool.some((p) => p.id === id));
+  if (missingIds.length > 0) {
+    let warmQuery = supa.from('places_directory').select('*').in('id', missingIds).eq('city', request.city);
+    if (request.target_family) warmQuery = warmQuery.eq('place_type_family', request.target_family);
+    const { data: warmPlaces } = await warmQuery;
+    pool.push(...((warmPlaces || []) as PlaceDirectory[]));
+  }
+
+  const candidates = rankHuntCandidates(request, pool, warm);
+  const now = new Date().toISOString();
+
+  if (candidates.length > 0) {
+    const { error: upsertErr } = await supa.from('pieuvre_hunter_matches').upsert(
+      candidates.map((c) => ({ ...c, request_id: request.id, driver_id: request.driver_id, updated_at: now })),
+      { onConflict: 'request_id,place_directory_id', ignoreDuplicates: true },
+    );
+    if (upsertErr) throw new Error(`Failed to save hunt matches: ${upsertErr.message}`);
+  }
+
+  const matches = await listRequestMatches(request.id);
+  const status = request.status === 'pending' || request.status === 'no_match' || request.status === 'matched'
+    ? deriveRequestStatus(matches.map((m) => m.status))
+    : request.status;
+
+  const { data: updated, error: updateErr } = await supa
+    .from('pieuvre_hunter_requests')
+    .update({
+      status,
+      matches_count: matches.length,
+      matched_at: matches.length > 0 ? request.matched_at ?? now : request.matched_at,
+      updated_at: now,
+    })
+    .eq('id', request.id)
+    .select('*')
+    .single();
+
+  if (updateErr || !updated) {
+    throw new Error(`Failed to update hunting request: ${updateErr?.message ?? 'no row returned'}`);
+  }
+
+  console.log(`[PrivateHunter] Request ${request.id} → ${status} (${matches.length} matches)`);
+  return { request: updated as HuntingRequest, matches };
+}
+
+async function listRequestMatches(requestId: string): Promise<HuntMatch[]> {
+  const { data, error } = await getSupa()
+    .from('pieuvre_hunter_matches')
+    .select('*')
+    .eq('request_id', requestId)
+    .order('score', { ascending: false });
+
+  if (error) throw new Error(`Hunt matches query failed: ${error.message}`);
+  return (data || []) as HuntMatch[];
+}
+
+/** Passe en expired les demandes ouvertes dont le créneau est terminé (sans course réservée) */
+export async function expireHuntingRequests(driverId?: string): Promise<number> {
+  let query = getSupa()
+    .from('pieuvre_hunter_requests')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .in('status', ['pending', 'matched', 'no_match'])
+    .lt('window_end', new Date().toISOString());
+  if (driverId) query = query.eq('driver_id', driverId);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.warn(`[PrivateHunter] Expiration failed: ${error.message}`);
+    return 0;
+  }
+  return data?.length ?? 0;
+}
+
+export async function listHuntingRequests(
+  driverId: string,
+): Promise<Array<HuntingRequest & { matches: HuntMatch[] }>> {
+  await expireHuntingRequests(driverId);
+
+  const supa = getSupa();
+  const { data: requests, error } = await supa
+    .from('pieuvre_hunter_requests')
+    .select('*')
+    .eq('driver_id', driverId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw new Error(`Hunting requests query failed: ${error.message}`);
+  if (!requests?.length) return [];
+
+  const { data: matches, error: matchesErr } = await supa
+    .from('pieuvre_hunter_matches')
+    .select('*')
+    .in('request_id', requests.map((r) => r.id))
+    .order('score', { ascending: false });
+
+  if (matchesErr) throw new Error(`Hunt matches query failed: ${matchesErr.message}`);
+
+  return (requests as HuntingRequest[]).map((r) => ({
+    ...r,
+    matches: ((matches || []) as HuntMatch[]).filter((m) => m.request_id === r.id),
+  }));
+}
+
+export async function cancelHuntingRequest(driverId: string, requestId: string): Promise<HuntingRequest> {
+  const { data, error } = await getSupa()
+    .from('pieuvre_hunter_requests')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('driver_id', driverId)
+    .in('status', OPEN_REQUEST_STATUSES)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to cancel hunting request: ${error.message}`);
+  if (!data) throw new PrivateHunterError('Request not found or already closed', 404);
+  return data as HuntingRequest;
+}
+
+// ── Suivi des correspondances ─────────────────────────────────────
+
+/**
+ * Fait avancer une correspondance (contacted → accepted → booked → confirmed).
+ * La demande suit ; à la confirmation, la conversion est créditée à ClientFinder.
+ */
+export async function updateHuntMatchStatus(
+  driverId: string,
+  matchId: string,
+  status: HuntMatchStatus,
+  booking: { bookingAt?: string; amountEur?: number } = {},
+): Promise<{ match: HuntMatch; request: HuntingRequest }> {
+  const supa = getSupa();
+
+  const { data: current, error } = await supa
+    .from('pieuvre_hunter_matches')
+    .select('*')
+    .eq('id', matchId)
+    .eq('driver_id', driverId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Hunt match query failed: ${error.message}`);
+  if (!current) throw new PrivateHunterError('Match not found', 404);
+
+  const match = current as HuntMatch;
+  if (!canTransitionMatch(match.status, status)) {
+    throw new PrivateHunterError(`Invalid transition ${match.status} → ${status}`, 409);
+  }
+  if (status === 'booked' && !booking.bookingAt && !match.booking_at) {
+    throw new PrivateHunterError('bookingAt is required to book a match', 400);
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error: updateErr } = await supa
+    .from('pieuvre_hunter_matches')
+    .update({
+      status,
+      ...(booking.bookingAt ? { booking_at: booking.bookingAt } : {}),
+      ...(booking.amountEur != null ? { booking_amount_eur: booking.amountEur } : {}),
+      ...(status === 'confirmed' ? { confirmed_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('id', matchId)
+    .eq('status', match.status)
+    .select('*')
+    .maybeSingle();
+
+  if (updateErr) throw new Error(`Failed to update hunt match: ${updateErr.message}`);
+  if (!updated) throw new PrivateHunterError('Match changed concurrently, retry', 409);
+
+  const siblings = await listRequestMatches(match.request_id);
+  const requestStatus = deriveRequestStatus(siblings.map((m) => m.status));
+
+  const { data: request, error: requestErr } = await supa
+    .from('pieuvre_hunter_requests')
+    .update({
+      status: requestStatus,
+      ...(requestStatus === 'confirmed' ? { confirmed_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('id', match.request_id)
+    .in('status', [...OPEN_REQUEST_STATUSES, 'confirmed'])
+    .select('*')
+    .maybeSingle();
+
+  if (requestErr) throw new Error(`Failed to update hunting request: ${requestErr.message}`);
+
+  if (status === 'confirmed') {
+    await creditClientFinderConversion(updated as HuntMatch, now);
+  }
+
+  console.log(`[PrivateHunter] Match ${matchId} ${match.status} → ${status} (request ${requestStatus})`);
+  return { match: updated as HuntMatch, request: request as HuntingRequest };
+}
+
+/** Course directe confirmée → conversion dans client_finder_performance (best-effort) */
+async function creditClientFinderConversion(match: HuntMatch, now: string): Promise<void> {
+  try {
+    await getSupa()
+      .from('client_finder_performance')
+      .update({ converted_at: now, revenue_generated: match.booking_amount_eur })
+      .eq('driver_id', match.driver_id)
+      .eq('place_id', match.place_directory_id)
+      .is('converted_at', null);
+  } catch (err: any) {
+    console.warn(`[PrivateHunter] Conversion credit failed: ${err.message}`);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * ReviewModerationService — modération des avis clients et des réponses chauffeur
+ * ============================================================
+ * Même mécanique que CommunauteModerationService (JSON strict), mais via la
+ * couche LLM (routeCompletion 'moderation', fallback multi-fournisseurs) et
+ * sous le budget global (llmBudget) — coût tracé dans ai_llm_usage.
+ * Appliquée aux textes publiés sur le site du chauffeur :
+ *   - commentaire du client (avis lié à une réservation, ReviewService)
+ *   - réponse publique du chauffeur à cet avis
+ *
+ *   APPROUVÉ : avis sincère, positif OU négatif, même sévère ou mal écrit.
+ *   REJETÉ   : données personnelles (téléphone, email, plaque, adresse),
+ *              insultes / propos haineux, publicité, hors sujet, spam,
+ *              réponse chauffeur agressive ou qui divulgue la course.
+ *
+ * Différence avec la Communauté : en cas d'erreur (API indisponible, JSON
+ * illisible, budget LLM épuisé) on ne rejette pas — `unavailable: true`, le
+ * job de modération est réessayé par la file et l'avis reste masqué en attendant.
+ */
+import { routeCompletion } from '../ai/llm/router.js';
+import { estimateCost } from '../ai/llm/types.js';
+import {
+  checkGlobalLLMBudget,
+  logLLMUsage,
+  BUDGET_DOWNGRADE_USE_CASE,
+} from '../ai/llmBudget.js';
+
+const MAX_TOKENS = 300;
+
+// ─── Types ──────────────────────────────────────────────────────────────
+
+export type ReviewTextKind = 'comment' | 'reply';
+
+export interface ReviewModerationInput {
+  kind: ReviewTextKind;
+  text: string;
+  rating: number;
+  driverFirstName?: string;
+  /** Commentaire client auquel répond le chauffeur (kind = 'reply') */
+  originalComment?: string | null;
+}
+
+export interface ReviewModerationVerdict {
+  verdict: 'approve' | 'reject';
+  reason: string | null;
+  confidence: number; // 0-1
+  /** Modération impossible (API, parsing) → à réessayer, rien n'est publié */
+  unavailable: boolean;
+}
+
+// ─── System prompt ──────────────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `Tu modères les avis publiés sur le site vitrine d'un chauffeur VTC FOREAS.
+Chaque avis est lié à une course réellement effectuée : tu ne juges PAS la sincérité ni la note, seulement si le texte peut être publié.
+
+APPROUVER :
+- Avis positif, neutre ou négatif, même sévère, tant qu'il parle de la course, du chauffeur, du véhicule, de la ponctualité, du prix.
+- Fautes, argot, émojis, texte très court : NORMAL, jamais une raison de rejet.
+- Réponse du chauffeur polie, qui remercie, s'excuse ou explique.
+
+REJETER (raison courte et neutre) :
+- Données personnelles : numéro de téléphone, email, adresse précise, plaque d'immatriculation, nom de famille complet d'un tiers.
+- Insultes, propos haineux, discriminations, menaces, contenu sexuel.
+- Publicité, lien externe, code promo, promotion d'un autre service.
+- Hors sujet total, spam, texte vide de sens.
+- Réponse du chauffeur agressive, qui accuse ou humilie le client, ou qui révèle des détails privés de la course (adresse, horaire précis, identité).
+
+Tu comprends toutes les langues (français, anglais, arabe, darija, verlan, etc.).
+
+RÉPONSE : STRICTEMENT un JSON valide, rien d'autre. Pas de markdown.
+
+Format exact :
+{
+  "verdict": "approve" | "reject",
+  "reason": "Phrase courte si rejet, sinon null",
+  "confidence": 0.0 à 1.0
+}`;
+
+// ─── Appel LLM ──────────────────────────────────────────────────────────
+
+export async function moderateReviewText(input: ReviewModerationInput): Promise<ReviewModerationVerdict> {
+  const userMessage = [
+    input.kind === 'reply'
+      ? `Réponse publique du chauffeur ${input.driverFirstName || ''} à un avis ${input.rating}/5 :`
+      : `Avis client ${input.rating}/5 sur le chauffeur ${input.driverFirstName || ''} :`,
+    '---',
+    input.text,
+    '---',
+    input.kind === 'reply' && input.originalComment ? `Avis d'origine : ${input.originalComment}` : '',
+    '',
+    'Réponds en JSON strict selon le format demandé.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const budget = await checkGlobalLLMBudget();
+  if (budget.decision === 'cached') {
+    // Budget épuisé : pas de verdict, le job sera réessayé plus tard
+    return { verdict: 'reject', reason: null, confidence: 0, unavailable: true };
+  }
+
+  try {
+    const { response, model, provider } = await routeCompletion(
+      budget.decision === 'downgrade' ? BUDGET_DOWNGRADE_USE_CASE : 'moderation',
+      {
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: userMessage },
+        ],
+        temperature: 0,
+        maxTokens: MAX_TOKENS,
+      },
+    );
+
+    // Coût plateforme : compté dans le budget global, pas dans celui du chauffeur
+    void logLLMUsage({
+      driverId: null,
+      source: 'review_moderation',
+      provider,
+      model,
+      tokensInput: response.usage.promptTokens,
+      tokensOutput: response.usage.completionTokens,
+      costUsd: estimateCost(model, response.usage.promptTokens, response.usage.completionTokens).totalCost,
+    });
+
+    let raw = response.content.trim();
+    const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) raw = fenced[1].trim();
+
+    const parsed = JSON.parse(raw);
+    if (parsed.verdict !== 'approve' && parsed.verdict !== 'reject') {
+      throw new Error(`verdict inattendu: ${parsed.verdict}`);
+    }
+
+    return {
+      verdict: parsed.verdict,
+      reason: parsed.verdict === 'reject' ? parsed.reason || 'Contenu non publiable' : null,
+      confidence:
+        typeof parsed.confidence === 'number' ? Math.max(0, Math.min(1, parsed.confidence)) : 0.5,
+      unavailable: false,
+    };
+  } catch (err: any) {
+    console.error('[ReviewModerationService] LLM error:', err?.message);
+    // Pas de verdict : l'avis reste en attente, le job sera réessayé
+    return { verdict: 'reject', reason: null, confidence: 0, unavailable: true };
+  }
+}
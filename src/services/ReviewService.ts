@@ -0,0 +1,434 @@
+/**
+ * ReviewService — avis clients liés à une réservation, modérés, note bayésienne
+ *
+ * - Jeton d'avis : `<booking_id>.<hmac>` (même schéma que le portail client,
+ *   message distinct). Seul le client qui a reçu la demande d'avis (email
+ *   post-course) peut noter — une réservation = un avis, modifiable.
+ * - Modération : les textes (commentaire client, réponse chauffeur) passent
+ *   par le job review.moderate (ReviewModerationService), réessayé par la
+ *   file si l'API est indisponible. Texte en attente ou rejeté → non publié.
+ *   Une note sans commentaire n'a rien à modérer : publiée directement, sauf
+ *   note basse (≤ REVIEW_HOLD_MAX_RATING) retenue REVIEW_HOLD_HOURS — le
+ *   chauffeur la voit dans l'app et peut y répondre avant la publication.
+ * - Note du site : moyenne bayésienne des avis publiés, tirée vers un prior
+ *   (REVIEW_PRIOR_MEAN, REVIEW_PRIOR_WEIGHT) — 2 avis à 5★ ne valent pas 5,0.
+ *   Recalculée à chaque changement et stockée dans driver_sites.rating.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AUDIT_ACTIONS, logAuditAsync, SYSTEM_ACTOR_ID } from '../data/auditLog.js';
+import { enqueueJob, PermanentJobError } from './JobQueueService.js';
+import { moderateReviewText } from './ReviewModerationService.js';
+import type { ReviewTextKind } from './ReviewModerationService.js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export const REVIEW_MODERATION_JOB = 'review.moderate';
+
+/** Statuts d'une course effectuée (ou sur le point de l'être) — 'completed' posé ailleurs */
+export const REVIEWABLE_STATUSES = ['confirmed', 'reminded_2h', 'reminded_15m', 'completed'];
+
+/** Validité du lien d'avis après l'envoi de la demande */
+export const REVIEW_LINK_TTL_DAYS = 30;
+
+/** Note seule ≤ ce seuil : retenue avant publication (droit de réponse du chauffeur) */
+export const REVIEW_HOLD_MAX_RATING = 2;
+export const REVIEW_HOLD_HOURS = 48;
+
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+/** Objet d'un job review.moderate : texte à modérer, ou note basse retenue */
+export type ReviewModerationKind = ReviewTextKind | 'rating';
+export type ReviewSource = 'email' | 'site';
+
+export interface RatingPrior {
+  mean: number;
+  weight: number;
+}
+
+export interface RatingSummary {
+  /** Nombre d'avis publiés */
+  count: number;
+  /** Moyenne brute (schema.org AggregateRating), null sans avis */
+  average: number | null;
+  /** Moyenne bayésienne (affichée sur le site), 0 sans avis */
+  rating: number;
+}
+
+export interface ReviewableBooking {
+  status: string;
+  scheduled_at: string;
+  notifications?: { review_requested_at?: string } | null;
+}
+
+const SIG_LENGTH = 32;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const REVIEW_COLUMNS =
+  'id, driver_id, booking_id, site_slug, rating, comment, client_first_name, source, verified, is_published, moderation_status, moderation_reason, driver_reply, driver_reply_status, driver_reply_reason, driver_replied_at, created_at';
+
+// ── Jeton ─────────────────────────────────────────────────────────
+
+function reviewSecret(): string {
+  const secret = process.env.BOOKING_PORTAL_SECRET;
+  if (!secret) throw new Error('BOOKING_PORTAL_SECRET not configured');
+  return secret;
+}
+
+function signature(bookingId: string): string {
+  return createHmac('sha256', reviewSecret()).update(`booking-review:${bookingId}`).digest('base64url').slice(0, SIG_LENGTH);
+}
+
+export function signReviewToken(bookingId: string): string {
+  return `${bookingId}.${signature(bookingId)}`;
+}
+
+/** id de la réservation si la signature est valide, sinon null */
+export function verifyReviewToken(token: string): string | null {
+  const [bookingId, sig] = String(token || '').split('.');
+  if (!bookingId || !sig || !UUID_RE.test(bookingId) || sig.length !== SIG_LENGTH) return null;
+  if (!process.env.BOOKING_PORTAL_SECRET) return null;
+  const expected = Buffer.from(signature(bookingId));
+  const given = Buffer.from(sig);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? bookingId : null;
+}
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** La course a eu lieu et la demande d'avis date de moins de REVIEW_LINK_TTL_DAYS */
+export function reviewLinkOpen(b: ReviewableBooking, now = Date.now()): boolean {
+  if (!REVIEWABLE_STATUSES.includes(b.status) || Date.parse(b.scheduled_at) > now) return false;
+  const askedAt = b.notifications?.review_requested_at ? Date.parse(b.notifications.review_requested_at) : NaN;
+  return !Number.isNaN(askedAt) && now - askedAt <= REVIEW_LINK_TTL_DAYS * 86400 * 1000;
+}
+
+export function ratingPrior(): RatingPrior {
+  const mean = Number(process.env.REVIEW_PRIOR_MEAN);
+  const weight = Number(process.env.REVIEW_PRIOR_WEIGHT);
+  return {
+    mean: mean >= 1 && mean <= 5 ? mean : 4.5,
+    weight: weight >= 0 ? weight : 5,
+  };
+}
+
+/** (prior.weight × prior.mean + Σ notes) / (prior.weight + n), arrondi au dixième */
+export function summarizeRatings(ratings: number[], prior: RatingPrior = ratingPrior()): RatingSummary {
+  const valid = ratings.filter((r) => r >= 1 && r <= 5);
+  const count = valid.length;
+  if (count === 0) return { count: 0, average: null, rating: 0 };
+  const sum = valid.reduce((s, r) => s + r, 0);
+  const bayes = (prior.weight * prior.mean + sum) / (prior.weight + count);
+  return {
+    count,
+    average: Math.round((sum / count) * 10) / 10,
+    rating: Math.round(bayes * 10) / 10,
+  };
+}
+
+/** Statut d'une note sans commentaire : publiée, sauf note basse retenue */
+export function ratingOnlyStatus(rating: number): ModerationStatus {
+  return rating <= REVIEW_HOLD_MAX_RATING ? 'pending' : 'approved';
+}
+
+function textHash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 12);
+}
+
+// ── Lecture ───────────────────────────────────────────────────────
+
+export async function getSiteRatingSummary(slug: string): Promise<RatingSummary> {
+  const { data, error } = await getSupa()
+    .from('driver_reviews')
+    .select('rating')
+    .eq('site_slug', slug)
+    .eq('verified', true)
+    .eq('is_published', true);
+  if (error) throw new Error(`Failed to load ratings: ${error.message}`);
+  return summarizeRatings((data || []).map((r: any) => Number(r.rating)));
+}
+
+/** Avis publiés d'un site, prénom seul, réponse chauffeur si approuvée */
+export async function listPublishedReviews(slug: string, limit = 20): Promise<any[]> {
+  const { data, error } = await getSupa()
+    .from('driver_reviews')
+    .select('rating, comment, client_first_name, driver_reply, driver_reply_status, driver_replied_at, created_at')
+    .eq('site_slug', slug)
+    .eq('verified', true)
+    .eq('is_published', true)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load reviews: ${error.message}`);
+  return (data || []).map((r: any) => ({
+    rating: r.rating,
+    first_name: r.client_first_name || null,
+    comment: r.comment || null,
+    date: r.created_at,
+    reply:
+      r.driver_reply && r.driver_reply_status === 'approved'
+        ? { text: r.driver_reply, date: r.driver_replied_at }
+        : null,
+  }));
+}
+
+/** Tous les avis du chauffeur (y compris en attente / rejetés), pour l'app */
+export async function listDriverReviews(driverId: string, limit = 50): Promise<any[]> {
+  const { data, error } = await getSupa()
+    .from('driver_reviews')
+    .select(REVIEW_COLUMNS)
+    .eq('driver_id', driverId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load reviews: ${error.message}`);
+  return data || [];
+}
+
+/** Recalcule et stocke la note bayésienne du site */
+export async function recomputeSiteRating(slug: string | null | undefined): Promise<RatingSummary | null> {
+  if (!slug) return null;
+  const summary = await getSiteRatingSummary(slug);
+  const { error } = await getSupa()
+    .from('driver_sites')
+    .update({
+      rating: summary.count > 0 ? summary.rating : null,
+      review_count: summary.count,
+      rating_updated_at: new Date().toISOString(),
+    })
+    .eq('slug', slug);
+  if (error) throw new Error(`Failed to update site rating: ${error.message}`);
+  return summary;
+}
+
+// ── Écriture ──────────────────────────────────────────────────────
+
+async function enqueueModeration(reviewId: string, kind: ReviewTextKind, text: string): Promise<void> {
+  // Clé par texte : une modification relance une modération, un double envoi non
+  await enqueueJob(REVIEW_MODERATION_JOB, { review_id: reviewId, kind }, {
+    idempotencyKey: `review:${reviewId}:${kind}:${textHash(text)}`,
+  });
+}
+
+async function enqueueRatingHold(reviewId: string, rating: number): Promise<void> {
+  // Pas de clé : le double envoi est filtré en amont, une note rebaissée relance une retenue
+  await enqueueJob(REVIEW_MODERATION_JOB, { review_id: reviewId, kind: 'rating', rating }, {
+    runAt: new Date(Date.now() + REVIEW_HOLD_HOURS * 3600 * 1000),
+  });
+}
+
+/**
+ * Enregistre (ou met à jour) l'avis d'une réservation. L'appelant a vérifié
+ * le jeton et reviewLinkOpen(). Commentaire fourni → avis masqué jusqu'à la
+ * modération ; note seule → publiée, ou retenue si basse (ratingOnlyStatus).
+ */
+export async function submitBookingReview(
+  booking: any,
+  input: { rating: number; comment?: string | null; source: ReviewSource },
+): Promise<{ id: string; moderation_status: ModerationStatus }> {
+  const sb = getSupa();
+  const comment = String(input.comment || '').trim().slice(0, 600) || null;
+
+  const { data: existing, error: readErr } = await sb
+    .from('driver_reviews')
+    .select('id, rating, comment, moderation_status')
+    .eq('booking_id', booking.id)
+    .maybeSingle();
+  if (readErr) throw new Error(`Failed to load review: ${readErr.message}`);
+
+  const textChanged = !!comment && comment !== existing?.comment;
+  // Note seule inchangée (double envoi) : garde son statut, ne relance pas la retenue
+  const ratingUnchanged = !!existing && Number(existing.rating) === input.rating;
+  const holdRating = !textChanged && !existing?.comment && !ratingUnchanged && ratingOnlyStatus(input.rating) === 'pending';
+  const moderation_status: ModerationStatus = textChanged
+    ? 'pending'
+    : existing?.comment || ratingUnchanged
+      ? existing!.moderation_status || 'pending'
+      : ratingOnlyStatus(input.rating);
+
+  const row: Record<string, any> = {
+    rating: input.rating,
+    verified: true,
+    moderation_status,
+    is_published: moderation_status === 'approved',
+    ...(textChanged ? { comment, moderation_reason: null } : {}),
+  };
+
+  let reviewId: string;
+  if (existing) {
+    const { error } = await sb.from('driver_reviews').update(row).eq('id', existing.id);
+    if (error) throw new Error(`Failed to update review: ${error.message}`);
+    reviewId = existing.id;
+  } else {
+    const { data, error } = await sb
+      .from('driver_reviews')
+      .insert({
+        ...row,
+        driver_id: booking.driver_id,
+        booking_id: booking.id,
+        site_slug: booking.site_slug,
+        client_first_name: String(booking.client_name || '').trim().split(' ')[0] || null,
+        source: input.source,
+      })
+      .select('id')
+      .single();
+    if (error) throw new Error(`Failed to save review: ${error.message}`);
+    reviewId = data.id;
+  }
+
+  if (textChanged) await enqueueModeration(reviewId, 'comment', comment);
+  if (holdRating) await enqueueRatingHold(reviewId, input.rating);
+  await recomputeSiteRating(booking.site_slug);
+  return { id: reviewId, moderation_status };
+}
+
+/** Réponse publique du chauffeur — null si l'avis n'est pas le sien */
+export async function saveDriverReply(
+  driverId: string,
+  reviewId: string,
+  reply: string,
+): Promise<{ id: string; driver_reply_status: ModerationStatus } | null> {
+  const text = reply.trim();
+  const { data, error } = await getSupa()
+    .from('driver_reviews')
+    .update({
+      driver_reply: text,
+      driver_reply_status: 'pending',
+      driver_reply_reason: null,
+      driver_replied_at: new Date().toISOString(),
+    })
+    .eq('id', reviewId)
+    .eq('driver_id', driverId)
+    .select('id')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to save reply: ${error.message}`);
+  if (!data) return null;
+
+  await enqueueModeration(reviewId, 'reply', text);
+  logAuditAsync({
+    actorId: driverId,
+    actorRole: 'driver',
+    action: AUDIT_ACTIONS.REVIEW_REPLIED,
+    targetType: 'review',
+    targetId: reviewId,
+  });
+  return { id: reviewId, driver_reply_status: 'pending' };
+}
+
+export async function deleteDriverReply(driverId: string, reviewId: string): Promise<boolean> {
+  const { data, error } = await getSupa()
+    .from('driver_reviews')
+    .update({ driver_reply: null, driver_reply_status: null, driver_reply_reason: null, driver_replied_at: null })
+    .eq('id', reviewId)
+    .eq('driver_id', driverId)
+    .select('id')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to delete reply: ${error.message}`);
+  return !!data;
+}
+
+// ── Job review.moderate ───────────────────────────────────────────
+
+export async function runReviewModerationJob(payload: {
+  review_id: string;
+  kind: ReviewModerationKind;
+  rating?: number;
+}): Promise<void> {
+  const sb = getSupa();
+  const { data: review, error } = await sb
+    .from('driver_reviews')
+    .select(REVIEW_COLUMNS)
+    .eq('id', payload.review_id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load review: ${error.message}`);
+  if (!review) throw new PermanentJobError(`review ${payload.review_id} not found`);
+
+  if (payload.kind === 'rating') {
+    await releaseHeldRating(review, Number(payload.rating));
+    return;
+  }
+
+  const text = payload.kind === 'reply' ? review.driver_reply : review.comment;
+  const status = payload.kind === 'reply' ? review.driver_reply_status : review.moderation_status;
+  // Texte supprimé ou déjà modéré (job doublon / texte remplacé entre-temps)
+  if (!text || status !== 'pending') return;
+
+  const { data: driver } = await sb.from('drivers').select('first_name').eq('id', review.driver_id).maybeSingle();
+  const verdict = await moderateReviewText({
+    kind: payload.kind,
+    text,
+    rating: review.rating,
+    driverFirstName: driver?.first_name ? String(driver.first_name).split(' ')[0] : undefined,
+    originalComment: payload.kind === 'reply' ? review.comment : null,
+  });
+  if (verdict.unavailable) throw new Error('review moderation unavailable');
+
+  const decided: ModerationStatus = verdict.verdict === 'approve' ? 'approved' : 'rejected';
+  const update =
+    payload.kind === 'reply'
+      ? { driver_reply_status: decided, driver_reply_reason: verdict.reason }
+      : {
+          moderation_status: decided,
+          moderation_reason: verdict.reason,
+          moderated_at: new Date().toISOString(),
+          is_published: decided === 'approved',
+        };
+
+  // Garde : le texte n'a pas changé pendant l'appel au modèle
+  const { data: applied, error: updErr } = await sb
+    .from('driver_reviews')
+    .update(update)
+    .eq('id', review.id)
+    .eq(payload.kind === 'reply' ? 'driver_reply' : 'comment', text)
+    .select('id')
+    .maybeSingle();
+  if (updErr) throw new Error(`Failed to store moderation: ${updErr.message}`);
+  if (!applied) return;
+
+  if (payload.kind === 'comment') await recomputeSiteRating(review.site_slug);
+  logAuditAsync({
+    actorId: SYSTEM_ACTOR_ID,
+    actorRole: 'system',
+    action: AUDIT_ACTIONS.REVIEW_MODERATED,
+    targetType: 'review',
+    targetId: review.id,
+    details: { kind: payload.kind, verdict: decided, reason: verdict.reason, confidence: verdict.confidence },
+  });
+}
+
+/**
+ * Fin de la retenue d'une note basse sans commentaire : publiée telle quelle.
+ * Rien à faire si un commentaire a été ajouté (modéré par son propre job),
+ * si la note a changé (autre retenue en cours) ou si l'avis a été tranché.
+ */
+async function releaseHeldRating(review: any, rating: number): Promise<void> {
+  if (review.comment || review.moderation_status !== 'pending' || Number(review.rating) !== rating) return;
+
+  const { data: applied, error } = await getSupa()
+    .from('driver_reviews')
+    .update({ moderation_status: 'approved', moderated_at: new Date().toISOString(), is_published: true })
+    .eq('id', review.id)
+    .eq('moderation_status', 'pending')
+    .eq('rating', rating)
+    .is('comment', null)
+    .select('id')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to release held rating: ${error.message}`);
+  if (!applied) return;
+
+  await recomputeSiteRating(review.site_slug);
+  logAuditAsync({
+    actorId: SYSTEM_ACTOR_ID,
+    actorRole: 'system',
+    action: AUDIT_ACTIONS.REVIEW_MODERATED,
+    targetType: 'review',
+    targetId: review.id,
+    details: { kind: 'rating', verdict: 'approved', reason: 'hold_elapsed', rating },
+  });
+}
@@ -0,0 +1,285 @@
+/**
+ * SmsGateway — point d'envoi unique des SMS transactionnels
+ *
+ * - Routage par pays (préfixe E.164, helpers/phone.ts) vers une liste ordonnée
+ *   de fournisseurs ; on passe au suivant si l'un refuse le message.
+ *     défaut   FR/BE/CH → bird, messagebird, twilio ; autres → twilio, messagebird
+ *     surcharge SMS_ROUTES="FR=twilio,bird;default=twilio"
+ * - Registre sms_messages : chaque envoi (fournisseur, id fournisseur, statut,
+ *   tentatives) + accusés de réception (webhooks /api/webhooks/sms/:provider).
+ *   Le support retrouve « le client a-t-il reçu le rappel 2h ? » par booking_id.
+ * - Dev : SMS_SINK=console|file remplace tous les fournisseurs (aucun envoi réel).
+ *
+ * L'OTP reste sur Twilio Verify (code géré par Twilio) : recordExternalSms()
+ * l'inscrit seulement au registre.
+ *
+ * Prospection (purpose 'prospecting') : cible vérifiée contre la liste
+ * d'opposition (SuppressionService, Bloctel compris) et lien STOP ajouté.
+ * Les SMS transactionnels (réservation, OTP) ne sont pas concernés.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getCountryCode, isValidE164, normalizePhone } from '../helpers/phone.js';
+import {
+  BirdProvider,
+  MessageBirdProvider,
+  SinkProvider,
+  TwilioProvider,
+} from './smsProviders/index.js';
+import type { DeliveryReceipt, ReceiptRequest, SmsProvider, SmsProviderName, SmsStatus } from './smsProviders/index.js';
+import { checkOutboundTarget } from './SuppressionService.js';
+import { optoutUrl } from './OptoutService.js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+/** Usage métier du SMS (colonne purpose du registre) */
+export type SmsPurpose =
+  | 'booking_confirmation'
+  | 'booking_cancellation'
+  | 'booking_reminder_2h'
+  | 'booking_reminder_15m'
+  | 'otp'
+  | 'prospecting'
+  | 'other';
+
+export interface SendSmsOptions {
+  purpose?: SmsPurpose;
+  bookingId?: string | null;
+  driverId?: string | null;
+}
+
+export interface SendSmsResult {
+  ok: boolean;
+  /** id sms_messages (null si le registre est indisponible) */
+  messageId: string | null;
+  provider: SmsProviderName | null;
+  error?: string;
+}
+
+export interface SmsAttempt {
+  provider: SmsProviderName;
+  ok: boolean;
+  error?: string;
+  at: string;
+}
+
+const PROVIDERS: Record<Exclude<SmsProviderName, 'sink'>, SmsProvider> = {
+  bird: BirdProvider,
+  messagebird: MessageBirdProvider,
+  twilio: TwilioProvider,
+};
+
+const DEFAULT_ROUTES: Record<string, SmsProviderName[]> = {
+  FR: ['bird', 'messagebird', 'twilio'],
+  BE: ['bird', 'messagebird', 'twilio'],
+  CH: ['bird', 'messagebird', 'twilio'],
+  default: ['twilio', 'messagebird'],
+};
+
+/** Un accusé ne fait jamais régresser un statut (sent arrivé après delivered...) */
+const STATUS_RANK: Record<SmsStatus, number> = { queued: 0, sent: 1, delivered: 2, undelivered: 2, failed: 2 };
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** "FR=twilio,bird;default=twilio" → { FR: [...], default: [...] } (fournisseurs inconnus ignorés) */
+export function parseSmsRoutes(raw: string | undefined): Record<string, SmsProviderName[]> {
+  const routes: Record<string, SmsProviderName[]> = { ...DEFAULT_ROUTES };
+  for (const rule of (raw || '').split(';')) {
+    const [country, list] = rule.split('=').map((s) => s?.trim());
+    if (!country || !list) continue;
+    const providers = list
+      .split(',')
+      .map((p) => p.trim().toLowerCase())
+      .filter((p): p is SmsProviderName => p in PROVIDERS);
+    if (providers.length > 0) routes[country === 'default' ? 'default' : country.toUpperCase()] = providers;
+  }
+  return routes;
+}
+
+/** Fournisseurs à essayer, dans l'ordre, pour un numéro E.164 */
+export function routeForPhone(e164: string, routes: Record<string, SmsProviderName[]>): SmsProviderName[] {
+  const country = getCountryCode(e164);
+  return (country && routes[country]) || routes.default || [];
+}
+
+export function shouldApplyStatus(current: SmsStatus, next: SmsStatus): boolean {
+  return STATUS_RANK[next] >= STATUS_RANK[current];
+}
+
+// ── Envoi ─────────────────────────────────────────────────────────
+
+/** URL publique d'un chemin du backend (celle que le fournisseur signe) */
+export function publicWebhookUrl(path: string): string {
+  const base = process.env.BACKEND_URL || 'https://foreas-stripe-backend-production.up.railway.app';
+  return `${base.replace(/\/$/, '')}${path}`;
+}
+
+function statusCallbackUrl(provider: SmsProviderName): string | undefined {
+  const token = process.env.SMS_WEBHOOK_TOKEN;
+  if (!token) return undefined;
+  return publicWebhookUrl(`/api/webhooks/sms/${provider}?token=${encodeURIComponent(token)}`);
+}
+
+async function ledgerInsert(row: Record<string, any>): Promise<string | null> {
+  try {
+    const { data, error } = await getSupa().from('sms_messages').insert(row).select('id').single();
+    if (error) throw new Error(error.message);
+    return data?.id ?? null;
+  } catch (err: any) {
+    // Le registre ne doit jamais bloquer l'envoi
+    console.error('[SMS] Ledger insert failed:', err.message);
+    return null;
+  }
+}
+
+async function ledgerUpdate(id: string | null, patch: Record<string, any>): Promise<void> {
+  if (!id) return;
+  const { error } = await getSupa()
+    .from('sms_messages')
+    .update({ ...patch, status_updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) console.error('[SMS] Ledger update failed:', error.message);
+}
+
+/**
+ * Envoie un SMS : normalisation E.164, routage pays, fallback fournisseur,
+ * inscription au registre. Ne lève pas : `ok: false` si tous les fournisseurs échouent.
+ */
+export async function sendSms(phone: string, body: string, opts: SendSmsOptions = {}): Promise<SendSmsResult> {
+  const to = normalizePhone(String(phone || ''));
+  const country = getCountryCode(to);
+
+  if (opts.purpose === 'prospecting') {
+    const check = await checkOutboundTarget('sms', to, {
+      driverId: opts.driverId,
+      details: { purpose: opts.purpose },
+    });
+    if (!check.allowed) return { ok: false, messageId: null, provider: null, error: check.reason };
+    body = `${body}\nSTOP : ${optoutUrl(to)}`;
+  }
+
+  const messageId = await ledgerInsert({
+    to_phone: to,
+    country,
+    body,
+    purpose: opts.purpose ?? 'other',
+    booking_id: opts.bookingId ?? null,
+    driver_id: opts.driverId ?? null,
+    status: 'queued',
+  });
+
+  if (!isValidE164(to)) {
+    await ledgerUpdate(messageId, { status: 'failed', error: 'invalid_phone' });
+    console.warn('[SMS] Invalid phone, not sent:', to.substring(0, 6) + '***');
+    return { ok: false, messageId, provider: null, error: 'invalid_phone' };
+  }
+
+  const candidates: SmsProvider[] = process.env.SMS_SINK
+    ? [SinkProvider]
+    : routeForPhone(to, parseSmsRoutes(process.env.SMS_ROUTES))
+        .map((name) => PROVIDERS[name as keyof typeof PROVIDERS])
+        .filter((p) => p?.isConfigured());
+
+  if (candidates.length === 0) {
+    await ledgerUpdate(messageId, { status: 'failed', error: 'no_provider_configured' });
+    console.warn('[SMS] No provider configured — skipping SMS to', to.substring(0, 6) + '***');
+    return { ok: false, messageId, provider: null, error: 'no_provider_configured' };
+  }
+
+  const attempts: SmsAttempt[] = [];
+  for (const provider of candidates) {
+    try {
+      const { providerMessageId } = await provider.send({ to, body, statusCallbackUrl: statusCallbackUrl(provider.name) });
+      attempts.push({ provider: provider.name, ok: true, at: new Date().toISOString() });
+      await ledgerUpdate(messageId, {
+        status: 'sent',
+        provider: provider.name,
+        provider_message_id: providerMessageId,
+        attempts,
+        error: null,
+      });
+      console.log(`[SMS] ✅ Sent via ${provider.name} to`, to.substring(0, 6) + '***');
+      return { ok: true, messageId, provider: provider.name };
+    } catch (err: any) {
+      attempts.push({ provider: provider.name, ok: false, error: err.message, at: new Date().toISOString() });
+      console.error(`[SMS] ${provider.name} failed:`, err.message);
+    }
+  }
+
+  const lastError = attempts[attempts.length - 1]?.error ?? 'unknown';
+  await ledgerUpdate(messageId, { status: 'failed', attempts, error: lastError });
+  return { ok: false, messageId, provider: null, error: lastError };
+}
+
+/** Inscrit au registre un SMS envoyé hors gateway (Twilio Verify pour l'OTP) */
+export async function recordExternalSms(
+  phone: string,
+  entry: { provider: string; purpose: SmsPurpose; ok: boolean; providerMessageId?: string | null; error?: string },
+): Promise<void> {
+  await ledgerInsert({
+    to_phone: normalizePhone(String(phone || '')),
+    country: getCountryCode(normalizePhone(String(phone || ''))),
+    body: null,
+    purpose: entry.purpose,
+    provider: entry.provider,
+    provider_message_id: entry.providerMessageId ?? null,
+    status: entry.ok ? 'sent' : 'failed',
+    error: entry.error ?? null,
+  });
+}
+
+// ── Accusés de réception ──────────────────────────────────────────
+
+/** Webhook fournisseur → statut du registre. Renvoie false si le message est inconnu. */
+/** Signature fournisseur de l'accusé (null : pas de secret de signature configuré) */
+export function verifyDeliveryReceipt(provider: SmsProviderName, req: ReceiptRequest): boolean | null {
+  const verify = PROVIDERS[provider as keyof typeof PROVIDERS]?.verifyReceipt;
+  return verify ? verify(req) : null;
+}
+
+export async function applyDeliveryReceipt(provider: SmsProviderName, payload: Record<string, any>): Promise<boolean> {
+  const parser = PROVIDERS[provider as keyof typeof PROVIDERS]?.parseReceipt;
+  const receipt: DeliveryReceipt | null = parser ? parser(payload) : null;
+  if (!receipt) return false;
+
+  const { data: row } = await getSupa()
+    .from('sms_messages')
+    .select('id, status')
+    .eq('provider', provider)
+    .eq('provider_message_id', receipt.providerMessageId)
+    .maybeSingle();
+  if (!row) return false;
+  if (!shouldApplyStatus(row.status as SmsStatus, receipt.status)) return true;
+
+  await ledgerUpdate(row.id, {
+    status: receipt.status,
+    ...(receipt.status === 'delivered' ? { delivered_at: new Date().toISOString() } : {}),
+    ...(receipt.error ? { error: receipt.error } : {}),
+  });
+  return true;
+}
+
+// ── Support ───────────────────────────────────────────────────────
+
+export async function listSmsMessages(filter: { bookingId?: string; phone?: string; limit?: number }) {
+  let query = getSupa()
+    .from('sms_messages')
+    .select('id, to_phone, purpose, booking_id, provider, provider_message_id, status, error, attempts, created_at, status_updated_at, delivered_at')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(filter.limit ?? 50, 200));
+  if (filter.bookingId) query = query.eq('booking_id', filter.bookingId);
+  if (filter.phone) query = query.eq('to_phone', normalizePhone(filter.phone));
+  const { data, error } = await query;
+  if (error) throw new Error(`sms_messages query failed: ${error.message}`);
+  return data || [];
+}
@@ -0,0 +1,661 @@
+/**
+ * SubcontractService — sous-traitance des réservations directes entre chauffeurs
+ *
+ * Un chauffeur qui ne peut pas assurer une course de son site la propose à
+ * son réseau de confiance plutôt que de perdre le client :
+ *   1. destinataires  filleuls / parrain (referrals) + Référents suivis en
+ *                     Communauté (communaute_follows), libres sur le créneau
+ *                     (DriverCalendarService) avec un véhicule compatible
+ *                     (VehiclePlaceMatchingService.vehicleCanServe)
+ *   2. offre          push à chacun, ouverte jusqu'à expires_at (job subcontract.expire)
+ *   3. acceptation    le premier qui accepte prend la course (bookings.driver_id),
+ *                     le client est prévenu par SMS du chauffeur qui viendra
+ *   4. commission     % d'apporteur fixé par l'apporteur, réglé après la course
+ *                     (job subcontract.settle) par Stripe Connect — net de
+ *                     l'acompte déjà encaissé par l'apporteur, qui revient au
+ *                     sous-traitant : repris sur le transfert de l'acompte, ou
+ *                     prélevé sur le compte du sous-traitant s'il doit la commission
+ *
+ * Les jobs d'une réservation gardent le préfixe `booking:<id>:` : annuler la
+ * course annule l'expiration et le règlement (cancelPendingJobs). Déplacer le
+ * créneau les annule aussi : rescheduleSubcontractJobs les recrée.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AUDIT_ACTIONS, logAuditAsync, SYSTEM_ACTOR_ID } from '../data/auditLog.js';
+import { ACTIVE_BOOKING_STATUSES, checkBookingSlot } from './DriverCalendarService.js';
+import { enqueueJob, PermanentJobError } from './JobQueueService.js';
+import { sendSms } from './SmsGateway.js';
+import { vehicleCanServe } from './VehiclePlaceMatchingService.js';
+import { enqueueDriverPush } from '../lib/expoPush.js';
+
+// ── Lazy Supabase (service role) / Stripe ─────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  const url = process.env.SUPABASE_URL!;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY!;
+  _supa = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return _supa;
+}
+
+let _stripe: any = null;
+async function getStripe() {
+  if (!_stripe) {
+    const Stripe = (await import('stripe')).default;
+    _stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { maxNetworkRetries: 3, timeout: 30000 });
+  }
+  return _stripe;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export const SUBCONTRACT_EXPIRE_JOB = 'subcontract.expire';
+export const SUBCONTRACT_SETTLE_JOB = 'subcontract.settle';
+
+export const MAX_FINDER_FEE_PERCENT = 30;
+/** Au plus tard, l'offre se ferme 30 min avant la prise en charge */
+const OFFER_CLOSE_BEFORE_PICKUP_MS = 30 * 60 * 1000;
+const OFFER_TTL_MS = 2 * 60 * 60 * 1000;
+/** Règlement le lendemain : laisse le temps de déclarer une absence client */
+const SETTLE_AFTER_RIDE_MS = 24 * 60 * 60 * 1000;
+const MAX_CANDIDATES = 30;
+
+export type OfferStatus = 'open' | 'accepted' | 'withdrawn' | 'expired';
+export type SettlementPayer = 'subcontractor' | 'originator';
+
+export type OfferRejection =
+  | 'not_found'
+  | 'not_active'
+  | 'already_subcontracted'
+  | 'offer_open'
+  | 'too_late'
+  | 'no_candidates';
+
+export type AcceptRejection = 'not_found' | 'not_recipient' | 'expired' | 'taken' | 'slot_unavailable';
+
+export interface SubcontractCandidate {
+  driver_id: string;
+  first_name: string | null;
+  vehicle_category: string | null;
+  /** Lien avec l'apporteur */
+  via: Array<'referral' | 'communaute'>;
+}
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** % par défaut : SUBCONTRACT_FINDER_FEE_PERCENT (10), borné à [0, 30] */
+export function finderFeePercent(requested?: unknown, env: string | undefined = process.env.SUBCONTRACT_FINDER_FEE_PERCENT): number {
+  const raw = requested != null && requested !== '' ? Number(requested) : Number(env ?? 10);
+  if (!Number.isFinite(raw)) return 10;
+  return Math.min(Math.max(Math.round(raw * 100) / 100, 0), MAX_FINDER_FEE_PERCENT);
+}
+
+export function computeFinderFee(price: number, percent: number): number {
+  return Math.round((Number(price) || 0) * percent) / 100;
+}
+
+/** Fin de l'offre : 2h, et jamais après « prise en charge − 30 min ». null → trop tard pour proposer */
+export function offerExpiresAt(scheduledAt: string, now = Date.now()): string | null {
+  const latest = Date.parse(scheduledAt) - OFFER_CLOSE_BEFORE_PICKUP_MS;
+  if (latest - now < 5 * 60 * 1000) return null;
+  return new Date(Math.min(now + OFFER_TTL_MS, latest)).toISOString();
+}
+
+/**
+ * Clé d'un job de sous-traitance, sous le préfixe `booking:<id>:` ; révision
+ * du créneau en suffixe comme bookingJobKey (booking.routes) pour replanifier
+ */
+export function subcontractJobKey(
+  b: { id: string; reschedule_count?: number | null },
+  offerId: string,
+  kind: 'expire' | 'settle',
+): string {
+  const rev = b.reschedule_count ?? 0;
+  return `booking:${b.id}:${rev > 0 ? `r${rev}:` : ''}subcontract:${offerId}:${kind}`;
+}
+
+/** Prélèvement d'un compte connecté (account debit) : Express / Custom avec transferts actifs */
+export function canDebitAccount(account: { type?: string; capabilities?: { transfers?: string } | null }): boolean {
+  return account.type !== 'standard' && account.capabilities?.transfers === 'active';
+}
+
+/**
+ * Règlement après la course. L'acompte payé par le client a été versé à
+ * l'apporteur (compte Stripe de son site) : il doit revenir au sous-traitant,
+ * moins la commission. Seul le solde circule.
+ */
+export function settlementTransfer(
+  finderFee: number,
+  depositHeldByOriginator: number,
+): { payer: SettlementPayer; amount: number } | null {
+  const net = Math.round((finderFee - depositHeldByOriginator) * 100) / 100;
+  if (net === 0) return null;
+  return net > 0 ? { payer: 'subcontractor', amount: net } : { payer: 'originator', amount: -net };
+}
+
+// ── Réseau de confiance ───────────────────────────────────────────
+
+/** Filleuls (tous niveaux), parrain direct et Référents suivis en Communauté */
+export async function trustedNetwork(driverId: string): Promise<Map<string, SubcontractCandidate['via']>> {
+  const supa = getSupa();
+  const [sponsored, sponsor, follows] = await Promise.all([
+    supa.from('referrals').select('referred_id').eq('sponsor_id', driverId),
+    supa.from('referrals').select('sponsor_id').eq('referred_id', driverId).eq('level', 1),
+    supa.from('communaute_follows').select('followed_id').eq('follower_id', driverId),
+  ]);
+
+  const network = new Map<string, SubcontractCandidate['via']>();
+  const add = (id: string | null | undefined, via: 'referral' | 'communaute') => {
+    if (!id || id === driverId) return;
+    const links = network.get(id) || [];
+    if (!links.includes(via)) links.push(via);
+    network.set(id, links);
+  };
+  (sponsored.data || []).forEach((r: any) => add(r.referred_id, 'referral'));
+  (sponsor.data || []).forEach((r: any) => add(r.sponsor_id, 'referral'));
+  (follows.data || []).forEach((f: any) => add(f.followed_id, 'communaute'));
+  return network;
+}
+
+async function vehicleCategories(driverIds: string[]): Promise<Map<string, { category: string | null; firstName: string | null }>> {
+  const { data } = await getSupa()
+    .from('user_profiles')
+    .select('user_id, vehicle_category, first_name')
+    .in('user_id', driverIds);
+  return new Map((data || []).map((p: any) => [p.user_id, { category: p.vehicle_category, firstName: p.first_name }]));
+}
+
+/**
+ * Confrères pouvant reprendre la course : réseau de confiance (restreint à
+ * `onlyIds` si le chauffeur a choisi), véhicule compatible, agenda libre.
+ */
+export async function findSubcontractCandidates(booking: any, onlyIds?: string[]): Promise<SubcontractCandidate[]> {
+  const network = await trustedNetwork(booking.driver_id);
+  const ids = [...network.keys()].filter((id) => !onlyIds?.length || onlyIds.includes(id)).slice(0, MAX_CANDIDATES);
+  if (ids.length === 0) return [];
+
+  const profiles = await vehicleCategories([booking.driver_id, ...ids]);
+  const booked = profiles.get(booking.driver_id)?.category ?? null;
+  const compatible = ids.filter((id) => vehicleCanServe(profiles.get(id)?.category ?? null, booked));
+
+  const free = await Promise.all(
+    compatible.map(async (id) => {
+      const slot = await checkBookingSlot(id, booking.scheduled_at, booking.estimated_duration_min || 0).catch(() => null);
+      return slot?.ok ? id : null;
+    }),
+  );
+  return free.filter(Boolean).map((id) => ({
+    driver_id: id,
+    first_name: profiles.get(id)?.firstName ?? null,
+    vehicle_category: profiles.get(id)?.category ?? null,
+    via: network.get(id) || [],
+  }));
+}
+
+// ── Offre ─────────────────────────────────────────────────────────
+
+function audit(actorId: string | null, action: string, bookingId: string, details: Record<string, unknown>): void {
+  logAuditAsync({
+    actorId: actorId || SYSTEM_ACTOR_ID,
+    actorRole: actorId ? 'driver' : 'system',
+    action,
+    targetType: 'booking',
+    targetId: bookingId,
+    details,
+  });
+}
+
+async function loadDriverBooking(bookingId: string, driverId: string): Promise<any | null> {
+  const { data } = await getSupa().from('bookings').select('*').eq('id', bookingId).maybeSingle();
+  return data && data.driver_id === driverId ? data : null;
+}
+
+/** Propose la course au réseau de l'apporteur — `driverIds` pour restreindre les destinataires */
+export async function createSubcontractOffer(
+  driverId: string,
+  bookingId: string,
+  opts: { finderFeePercent?: unknown; driverIds?: string[] } = {},
+): Promise<{ ok: true; offer: any; recipients: SubcontractCandidate[] } | { ok: false; reason: OfferRejection }> {
+  const booking = await loadDriverBooking(bookingId, driverId);
+  if (!booking) return { ok: false, reason: 'not_found' };
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) return { ok: false, reason: 'not_active' };
+  if (booking.original_driver_id) return { ok: false, reason: 'already_subcontracted' };
+
+  const expiresAt = offerExpiresAt(booking.scheduled_at);
+  if (!expiresAt) return { ok: false, reason: 'too_late' };
+
+  const recipients = await findSubcontractCandidates(booking, opts.driverIds);
+  if (recipients.length === 0) return { ok: false, reason: 'no_candidates' };
+
+  const percent = finderFeePercent(opts.finderFeePercent);
+  const { data: offer, error } = await getSupa()
+    .from('subcontract_offers')
+    .insert({
+      booking_id: booking.id,
+      from_driver_id: driverId,
+      recipient_ids: recipients.map((r) => r.driver_id),
+      finder_fee_percent: percent,
+      finder_fee_amount: computeFinderFee(booking.estimated_price, percent),
+      expires_at: expiresAt,
+    })
+    .select()
+    .single();
+  // Index unique : une offre déjà ouverte sur cette réservation
+  if (error?.code === '23505') return { ok: false, reason: 'offer_open' };
+  if (error) throw new Error(`subcontract_offers insert failed: ${error.message}`);
+
+  const when = new Date(booking.scheduled_at).toLocaleString('fr-FR', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Paris',
+  });
+  const net = Math.round((Number(booking.estimated_price) - offer.finder_fee_amount) * 100) / 100;
+  await Promise.all([
+    ...recipients.map((r) =>
+      enqueueDriverPush(
+        r.driver_id,
+        {
+          title: 'Course proposée par un confrère',
+          body: `${when} · ${booking.pickup_address} → ${booking.dropoff_address} · ${net.toFixed(2).replace('.', ',')} € pour toi. Premier arrivé, premier servi.`,
+          data: { type: 'subcontract_offer', offerId: offer.id, bookingId: booking.id, screen: 'Clients' },
+          priority: 'high',
+        },
+        { idempotencyKey: `subcontract:${offer.id}:offer:${r.driver_id}` },
+      ),
+    ),
+    enqueueJob(
+      SUBCONTRACT_EXPIRE_JOB,
+      { offer_id: offer.id },
+      { runAt: new Date(expiresAt), idempotencyKey: subcontractJobKey(booking, offer.id, 'expire') },
+    ),
+  ]);
+
+  audit(driverId, AUDIT_ACTIONS.SUBCONTRACT_OFFERED, booking.id, {
+    offer_id: offer.id,
+    recipients: recipients.length,
+    finder_fee_percent: percent,
+    expires_at: expiresAt,
+  });
+  console.log(`[Subcontract] Offer ${offer.id} for ${booking.id} → ${recipients.length} drivers (${percent}%)`);
+  return { ok: true, offer, recipients };
+}
+
+/** Offres ouvertes reçues + offres envoyées (30 dernières) */
+export async function listDriverOffers(driverId: string): Promise<{ received: any[]; sent: any[] }> {
+  const supa = getSupa();
+  const select =
+    'id, booking_id, from_driver_id, status, finder_fee_percent, finder_fee_amount, expires_at, accepted_by, accepted_at, settlement_status, created_at, booking:bookings(scheduled_at, pickup_address, dropoff_address, estimated_price, estimated_duration_min, stops)';
+  const [received, sent] = await Promise.all([
+    supa
+      .from('subcontract_offers')
+      .select(select)
+      .contains('recipient_ids', [driverId])
+      .eq('status', 'open')
+      .gt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: true }),
+    supa
+      .from('subcontract_offers')
+      .select(`${select}, recipient_ids`)
+      .eq('from_driver_id', driverId)
+      .order('created_at', { ascending: false })
+      .limit(30),
+  ]);
+  if (received.error) throw new Error(`subcontract_offers query failed: ${received.error.message}`);
+  if (sent.error) throw new Error(`subcontract_offers query failed: ${sent.error.message}`);
+  return { received: received.data || [], sent: sent.data || [] };
+}
+
+/** L'apporteur retire son offre tant que personne ne l'a acceptée */
+export async function withdrawSubcontractOffer(driverId: string, offerId: string): Promise<boolean> {
+  const { data, error } = await getSupa()
+    .from('subcontract_offers')
+    .update({ status: 'withdrawn' })
+    .eq('id', offerId)
+    .eq('from_driver_id', driverId)
+    .eq('status', 'open')
+    .select('id, booking_id')
+    .maybeSingle();
+  if (error) throw new Error(`subcontract_offers update failed: ${error.message}`);
+  if (data) audit(driverId, AUDIT_ACTIONS.SUBCONTRACT_WITHDRAWN, data.booking_id, { offer_id: offerId });
+  return !!data;
+}
+
+// ── Acceptation ───────────────────────────────────────────────────
+
+/**
+ * Premier arrivé, premier servi : l'offre est réclamée par une mise à jour
+ * conditionnelle (status 'open'), puis la réservation change de chauffeur.
+ * Créneau pris entre-temps (contrainte bookings_no_overlap) → offre rouverte.
+ */
+export async function acceptSubcontractOffer(
+  driverId: string,
+  offerId: string,
+): Promise<{ ok: true; booking: any; offer: any } | { ok: false; reason: AcceptRejection }> {
+  const supa = getSupa();
+  const { data: offer } = await supa.from('subcontract_offers').select('*').eq('id', offerId).maybeSingle();
+  if (!offer) return { ok: false, reason: 'not_found' };
+  if (!(offer.recipient_ids || []).includes(driverId)) return { ok: false, reason: 'not_recipient' };
+  if (offer.status !== 'open') return { ok: false, reason: offer.status === 'accepted' ? 'taken' : 'expired' };
+  if (Date.parse(offer.expires_at) <= Date.now()) return { ok: false, reason: 'expired' };
+
+  const { data: current } = await supa.from('bookings').select('*').eq('id', offer.booking_id).maybeSingle();
+  if (!current || current.driver_id !== offer.from_driver_id || !ACTIVE_BOOKING_STATUSES.includes(current.status)) {
+    return { ok: false, reason: 'expired' };
+  }
+  const slot = await checkBookingSlot(driverId, current.scheduled_at, current.estimated_duration_min || 0);
+  if (slot.ok === false) return { ok: false, reason: 'slot_unavailable' };
+
+  const now = new Date().toISOString();
+  const { data: claimed, error: claimErr } = await supa
+    .from('subcontract_offers')
+    .update({ status: 'accepted', accepted_by: driverId, accepted_at: now })
+    .eq('id', offerId)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle();
+  if (claimErr) throw new Error(`subcontract_offers update failed: ${claimErr.message}`);
+  if (!claimed) return { ok: false, reason: 'taken' };
+
+  const { data: booking, error } = await supa
+    .from('bookings')
+    .update({
+      driver_id: driverId,
+      original_driver_id: offer.from_driver_id,
+      subcontract_offer_id: offer.id,
+      subcontracted_at: now,
+      blocked_until: slot.blockedUntil,
+    })
+    .eq('id', offer.booking_id)
+    .eq('driver_id', offer.from_driver_id)
+    .in('status', ACTIVE_BOOKING_STATUSES)
+    .select()
+    .maybeSingle();
+
+  if (error || !booking) {
+    await supa.from('subcontract_offers').update({ status: 'open', accepted_by: null, accepted_at: null }).eq('id', offerId);
+    if (error?.code === '23P01') return { ok: false, reason: 'slot_unavailable' };
+    if (error) throw new Error(`bookings update failed: ${error.message}`);
+    return { ok: false, reason: 'expired' };
+  }
+
+  await enqueueSettlement(booking, offer.id);
+  await notifyHandover(booking, claimed);
+
+  audit(driverId, AUDIT_ACTIONS.SUBCONTRACT_ACCEPTED, booking.id, {
+    offer_id: offer.id,
+    from_driver_id: offer.from_driver_id,
+    finder_fee_amount: offer.finder_fee_amount,
+  });
+  console.log(`[Subcontract] ✅ ${booking.id} taken by ${driverId} (offer ${offer.id})`);
+  return { ok: true, booking, offer: claimed };
+}
+
+async function enqueueSettlement(
+  booking: { id: string; scheduled_at: string; reschedule_count?: number | null },
+  offerId: string,
+): Promise<void> {
+  await enqueueJob(
+    SUBCONTRACT_SETTLE_JOB,
+    { booking_id: booking.id },
+    {
+      runAt: new Date(Date.parse(booking.scheduled_at) + SETTLE_AFTER_RIDE_MS),
+      idempotencyKey: subcontractJobKey(booking, offerId, 'settle'),
+    },
+  );
+}
+
+/**
+ * Après un déplacement de créneau (cancelPendingJobs sur `booking:<id>:`) :
+ * expiration de l'offre encore ouverte, règlement de l'offre acceptée au
+ * lendemain du nouveau créneau
+ */
+export async function rescheduleSubcontractJobs(booking: {
+  id: string;
+  scheduled_at: string;
+  reschedule_count?: number | null;
+  subcontract_offer_id?: string | null;
+}): Promise<void> {
+  const { data: offers, error } = await getSupa()
+    .from('subcontract_offers')
+    .select('id, status, expires_at, settlement_status')
+    .eq('booking_id', booking.id)
+    .in('status', ['open', 'accepted']);
+  if (error) throw new Error(`subcontract_offers query failed: ${error.message}`);
+
+  for (const offer of offers || []) {
+    if (offer.status === 'open') {
+      await enqueueJob(
+        SUBCONTRACT_EXPIRE_JOB,
+        { offer_id: offer.id },
+        { runAt: new Date(offer.expires_at), idempotencyKey: subcontractJobKey(booking, offer.id, 'expire') },
+      );
+    } else if (offer.id === booking.subcontract_offer_id && !offer.settlement_status) {
+      await enqueueSettlement(booking, offer.id);
+    }
+  }
+}
+
+/** Client : qui vient le chercher. Apporteur : qui a pris la course. */
+async function notifyHandover(booking: any, offer: any): Promise<void> {
+  const supa = getSupa();
+  const [{ data: driver }, { data: profile }] = await Promise.all([
+    supa.from('drivers').select('first_name, phone').eq('id', booking.driver_id).maybeSingle(),
+    supa.from('user_profiles').select('vehicle_category').eq('user_id', booking.driver_id).maybeSingle(),
+  ]);
+  const name = driver?.first_name || 'Un chauffeur partenaire';
+  const vehicle = profile?.vehicle_category === 'BERLINE_T3' ? ' (berline)' : '';
+  const phone = String(driver?.phone || '').trim();
+  const when = new Date(booking.scheduled_at).toLocaleString('fr-FR', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Paris',
+  });
+
+  sendSms(
+    booking.client_phone,
+    `FOREAS : Pour votre course du ${when}, vous serez pris en charge par ${name}${vehicle}, chauffeur partenaire de confiance.${phone ? ` Tel : ${phone}.` : ''} Horaire, trajet et prix inchanges.`,
+    { purpose: 'booking_confirmation', bookingId: booking.id, driverId: booking.driver_id },
+  ).catch((e: any) => console.error('[Subcontract] Client SMS KO:', e.message));
+
+  enqueueDriverPush(
+    offer.from_driver_id,
+    {
+      title: 'Course reprise',
+      body: `${name} assure ta course du ${when}. Commission : ${Number(offer.finder_fee_amount).toFixed(2).replace('.', ',')} €.`,
+      data: { type: 'subcontract_accepted', offerId: offer.id, bookingId: booking.id, screen: 'Clients' },
+    },
+    { idempotencyKey: `subcontract:${offer.id}:accepted` },
+  ).catch((e: any) => console.error('[Subcontract] Originator push KO:', e.message));
+}
+
+// ── Jobs ──────────────────────────────────────────────────────────
+
+export async function runSubcontractExpireJob(payload: { offer_id: string }): Promise<void> {
+  const { data: offer, error } = await getSupa()
+    .from('subcontract_offers')
+    .update({ status: 'expired' })
+    .eq('id', payload.offer_id)
+    .eq('status', 'open')
+    .select('id, booking_id, from_driver_id')
+    .maybeSingle();
+  if (error) throw new Error(`subcontract_offers update failed: ${error.message}`);
+  if (!offer) return;
+
+  await enqueueDriverPush(
+    offer.from_driver_id,
+    {
+      title: 'Personne n\'a repris ta course',
+      body: 'Ton offre de sous-traitance a expiré — la course reste à toi. Préviens le client si tu ne peux pas l\'assurer.',
+      data: { type: 'subcontract_expired', offerId: offer.id, bookingId: offer.booking_id, screen: 'Clients' },
+    },
+    { idempotencyKey: `subcontract:${offer.id}:expired` },
+  );
+  console.log(`[Subcontract] Offer ${offer.id} expired`);
+}
+
+/** Compte Stripe Connect du chauffeur : celui de son site (acomptes), sinon celui du profil */
+async function connectedAccountId(driverId: string): Promise<string | null> {
+  const supa = getSupa();
+  const { data: site } = await supa
+    .from('driver_sites')
+    .select('stripe_account_id')
+    .eq('driver_id', driverId)
+    .not('stripe_account_id', 'is', null)
+    .limit(1)
+    .maybeSingle();
+  if (site?.stripe_account_id) return site.stripe_account_id;
+  const { data: driver } = await supa.from('drivers').select('stripe_account_id').eq('id', driverId).maybeSingle();
+  return driver?.stripe_account_id || null;
+}
+
+async function setSettlement(offerId: string, patch: Record<string, any>): Promise<void> {
+  const { error } = await getSupa().from('subcontract_offers').update(patch).eq('id', offerId);
+  if (error) throw new Error(`subcontract_offers update failed: ${error.message}`);
+}
+
+type SettlementFunds = { ok: true; sourceTransaction?: string } | { ok: false; error: string };
+
+/**
+ * L'apporteur doit : l'acompte est une charge de destination versée sur son
+ * compte — le montant est repris sur ce transfert (reversal) puis reversé.
+ */
+async function reclaimFromDeposit(stripe: any, b: any, offerId: string, amountCents: number): Promise<SettlementFunds> {
+  if (!b.deposit_payment_intent_id) return { ok: false, error: 'deposit_charge_not_found' };
+  const pi = await stripe.paymentIntents.retrieve(b.deposit_payment_intent_id, { expand: ['latest_charge'] });
+  const charge = pi.latest_charge;
+  const transferId = typeof charge?.transfer === 'string' ? charge.transfer : charge?.transfer?.id;
+  if (!transferId) return { ok: false, error: 'deposit_transfer_not_found' };
+
+  await stripe.transfers.createReversal(
+    transferId,
+    { amount: amountCents, metadata: { booking_id: b.id, offer_id: offerId, type: 'subcontract_settlement' } },
+    { idempotencyKey: `subcontract:${offerId}:reversal:${amountCents}` },
+  );
+  return { ok: true };
+}
+
+/**
+ * Le sous-traitant doit : aucune charge client ne passe par lui, seul un
+ * prélèvement de son compte connecté est possible — vérifié avant d'essayer.
+ */
+async function debitConnectedAccount(
+  stripe: any,
+  accountId: string,
+  b: any,
+  offerId: string,
+  amountCents: number,
+): Promise<SettlementFunds> {
+  const account = await stripe.accounts.retrieve(accountId);
+  if (!canDebitAccount(account)) return { ok: false, error: 'account_debit_unsupported' };
+
+  const debit = await stripe.charges.create(
+    {
+      amount: amountCents,
+      currency: 'eur',
+      source: accountId,
+      description: `Sous-traitance course ${b.id}`,
+      metadata: { booking_id: b.id, offer_id: offerId, type: 'subcontract_settlement' },
+    },
+    { idempotencyKey: `subcontract:${offerId}:debit:${amountCents}` },
+  );
+  return { ok: true, sourceTransaction: debit.id };
+}
+
+/**
+ * Commission d'apporteur, le lendemain de la course. Stripe Connect : fonds
+ * repris sur l'acompte (apporteur débiteur) ou prélevés sur le compte du
+ * sous-traitant (s'il le permet), puis transfert vers l'autre chauffeur.
+ */
+export async function runSubcontractSettleJob(payload: { booking_id: string }): Promise<void> {
+  const supa = getSupa();
+  const { data: b, error } = await supa.from('bookings').select('*').eq('id', payload.booking_id).maybeSingle();
+  if (error) throw new Error(`bookings query failed: ${error.message}`);
+  if (!b?.subcontract_offer_id || !b.original_driver_id) return;
+  // Course annulée / client absent : pas de commission
+  if (!['confirmed', 'reminded_2h', 'reminded_15m', 'completed'].includes(b.status)) return;
+
+  const { data: offer } = await supa.from('subcontract_offers').select('*').eq('id', b.subcontract_offer_id).maybeSingle();
+  if (!offer || offer.status !== 'accepted' || offer.settlement_status) return;
+
+  const deposit = b.deposit_paid_at ? Number(b.deposit_amount || 0) - Number(b.deposit_refunded_amount || 0) : 0;
+  const transfer = settlementTransfer(Number(offer.finder_fee_amount), Math.max(0, deposit));
+  if (!transfer) {
+    await setSettlement(offer.id, { settlement_status: 'nothing_due', settlement_amount: 0, settled_at: new Date().toISOString() });
+    return;
+  }
+
+  const [payerId, payeeId] =
+    transfer.payer === 'subcontractor' ? [b.driver_id, b.original_driver_id] : [b.original_driver_id, b.driver_id];
+  const [payerAccount, payeeAccount] = await Promise.all([connectedAccountId(payerId), connectedAccountId(payeeId)]);
+  if (!payerAccount || !payeeAccount) {
+    await setSettlement(offer.id, {
+      settlement_status: 'no_account',
+      settlement_amount: transfer.amount,
+      settlement_payer: transfer.payer,
+      settlement_error: `no Stripe account for ${payerAccount ? 'payee' : 'payer'}`,
+    });
+    audit(null, AUDIT_ACTIONS.SUBCONTRACT_SETTLEMENT_FAILED, b.id, { offer_id: offer.id, ...transfer, error: 'no_account' });
+    return;
+  }
+
+  const amountCents = Math.round(transfer.amount * 100);
+  const stripe = await getStripe();
+  try {
+    const funds =
+      transfer.payer === 'originator'
+        ? await reclaimFromDeposit(stripe, b, offer.id, amountCents)
+        : await debitConnectedAccount(stripe, payerAccount, b, offer.id, amountCents);
+    if (funds.ok === false) {
+      // Rien n'a bougé chez Stripe : reprise support
+      await setSettlement(offer.id, {
+        settlement_status: 'failed',
+        settlement_amount: transfer.amount,
+        settlement_payer: transfer.payer,
+        settlement_error: funds.error,
+      });
+      audit(null, AUDIT_ACTIONS.SUBCONTRACT_SETTLEMENT_FAILED, b.id, { offer_id: offer.id, ...transfer, error: funds.error });
+      return;
+    }
+
+    const tr = await stripe.transfers.create(
+      {
+        amount: amountCents,
+        currency: 'eur',
+        destination: payeeAccount,
+        ...(funds.sourceTransaction ? { source_transaction: funds.sourceTransaction } : {}),
+        transfer_group: `booking-${b.id}`,
+        metadata: { booking_id: b.id, offer_id: offer.id, payer: transfer.payer },
+      },
+      { idempotencyKey: `subcontract:${offer.id}:transfer:${amountCents}` },
+    );
+    await setSettlement(offer.id, {
+      settlement_status: 'paid',
+      settlement_amount: transfer.amount,
+      settlement_payer: transfer.payer,
+      settlement_transfer_id: tr.id,
+      settlement_error: null,
+      settled_at: new Date().toISOString(),
+    });
+    audit(null, AUDIT_ACTIONS.SUBCONTRACT_SETTLED, b.id, { offer_id: offer.id, ...transfer, transfer_id: tr.id });
+    console.log(`[Subcontract] ✅ Settled ${transfer.amount}€ (${transfer.payer} pays) for ${b.id}`);
+  } catch (err: any) {
+    // Solde insuffisant / compte restreint : pas de retry automatique, reprise support
+    if (err?.type === 'StripeInvalidRequestError' || err?.type === 'StripeCardError') {
+      await setSettlement(offer.id, {
+        settlement_status: 'failed',
+        settlement_amount: transfer.amount,
+        settlement_payer: transfer.payer,
+        settlement_error: String(err.code || err.message).slice(0, 300),
+      });
+      audit(null, AUDIT_ACTIONS.SUBCONTRACT_SETTLEMENT_FAILED, b.id, { offer_id: offer.id, ...transfer, error: err.code || err.message });
+      throw new PermanentJobError(`Settlement failed: ${err.code || err.message}`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * SuppressionService — liste d'opposition unifiée (téléphone + email)
+ *
+ * Toute cible sortante passe par checkOutboundTarget() avant l'envoi :
+ *   voice     preCallChecks (ElevenLabsCallService), batch voiceCallScheduler
+ *   sms       sendSms (SmsGateway), purpose 'prospecting'
+ *   whatsapp  outreach / réponses concierge (dispatch Pieuvre)
+ *   email     ClientFinder, FinderConversation, relances finderFollowupCron
+ *
+ * Sources d'opposition (outreach_suppressions) :
+ *   bloctel      fichier retourné par Bloctel (importOppositionList) — ne
+ *                s'applique qu'à la prospection, pas aux échanges en cours
+ *   link         lien de désabonnement HMAC (OptoutService, email/SMS/WhatsApp)
+ *   reply        réponse STOP / ARRET
+ *   complaint    plainte spam (webhook Resend)
+ *   do_not_call  « ne plus m'appeler » détecté dans un transcript
+ *   manual       ajout support
+ *
+ * Chaque refus est tracé dans outreach_blocked_sends. Base indisponible →
+ * refus (motif check_unavailable) : on ne prospecte jamais à l'aveugle.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isValidE164 } from '../helpers/phone.js';
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  _supa = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  return _supa;
+}
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export type OutreachChannel = 'voice' | 'sms' | 'whatsapp' | 'email';
+export type SuppressionKind = 'phone' | 'email';
+export type SuppressionSource = 'bloctel' | 'link' | 'reply' | 'complaint' | 'do_not_call' | 'manual';
+
+export interface SuppressionEntry {
+  id: string;
+  target_kind: SuppressionKind;
+  target: string;
+  source: SuppressionSource;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface OutboundCheckContext {
+  driverId?: string | null;
+  /** false = échange en cours (réponse, rappel transactionnel) : Bloctel ne s'applique pas */
+  prospecting?: boolean;
+  /** Contexte libre tracé avec un refus (log_id, prospect_id, purpose…) */
+  details?: Record<string, any>;
+}
+
+export interface OutboundCheck {
+  allowed: boolean;
+  /** Cible normalisée (E.164 / email minuscule), null si invalide */
+  target: string | null;
+  source?: SuppressionSource;
+  reason?: string;
+}
+
+export interface OppositionFile {
+  numbers: string[];
+  totalLines: number;
+  invalid: number;
+}
+
+/** Ordre de priorité du motif retenu quand une cible a plusieurs oppositions */
+const SOURCE_PRIORITY: SuppressionSource[] = ['complaint', 'do_not_call', 'link', 'reply', 'manual', 'bloctel'];
+
+const STOP_KEYWORDS = new Set(['stop', 'stop sms', 'arret', 'arreter', 'desabonner', 'desinscription', 'unsubscribe']);
+
+/** Au-delà, un fichier est jugé corrompu : pas de remplacement de la liste */
+export const REPLACE_MAX_INVALID_RATIO = 0.2;
+
+export class OppositionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OppositionImportError';
+  }
+}
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+export function kindForChannel(channel: OutreachChannel): SuppressionKind {
+  return channel === 'email' ? 'email' : 'phone';
+}
+
+/**
+ * Numéro → E.164. Accepte le format national (06…, France), 0033…, +33 (0)6…
+ * et l'indicatif sans + (fichiers Bloctel, wa_id Meta). null si invalide.
+ */
+export function normalizePhoneTarget(raw: string | null | undefined): string | null {
+  let n = String(raw || '').replace(/[^\d+]/g, '');
+  if (n.startsWith('00')) n = '+' + n.slice(2);
+  else if (/^0\d{9}$/.test(n)) n = '+33' + n.slice(1);
+  else if (/^\d{10,15}$/.test(n)) n = '+' + n;
+  n = n.replace(/^\+330(\d{9})$/, '+33$1');
+  if (n.startsWith('+33') && n.length !== 12) return null;
+  return isValidE164(n) ? n : null;
+}
+
+export function normalizeEmailTarget(raw: string | null | undefined): string | null {
+  const e = String(raw || '').toLowerCase().trim();
+  return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(e) ? e : null;
+}
+
+export function normalizeTarget(kind: SuppressionKind, raw: string | null | undefined): string | null {
+  return kind === 'email' ? normalizeEmailTarget(raw) : normalizePhoneTarget(raw);
+}
+
+/**
+ * Fichier d'opposition Bloctel (CSV `;` ou `,`, ou un numéro par ligne,
+ * en-tête éventuel) → numéros E.164 dédoublonnés. Le numéro est la première
+ * colonne valide de la ligne.
+ */
+export function parseOppositionFile(content: string): OppositionFile {
+  const numbers = new Set<string>();
+  let totalLines = 0;
+  let invalid = 0;
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const cells = line.split(/[;,\t]/).map((c) => c.replace(/"/g, '').trim());
+    const e164 = cells.map(normalizePhoneTarget).find(Boolean);
+    if (e164) {
+      totalLines++;
+      numbers.add(e164);
+    } else if (/\d{6}/.test(line)) {
+      // Des chiffres mais pas de numéro valide ; ligne vide ou en-tête ignorée
+      totalLines++;
+      invalid++;
+    }
+  }
+  return { numbers: [...numbers], totalLines, invalid };
+}
+
+/**
+ * Motif de refus d'un import `replace` (la liste Bloctel serait vidée ou
+ * remplacée par un fichier mal lu), null si le remplacement est sûr.
+ */
+export function replaceRejection(parsed: OppositionFile): string | null {
+  if (parsed.numbers.length === 0) return 'no valid number in the file';
+  const ratio = parsed.totalLines > 0 ? parsed.invalid / parsed.totalLines : 0;
+  if (ratio > REPLACE_MAX_INVALID_RATIO) {
+    return `${Math.round(ratio * 100)}% invalid lines (max ${REPLACE_MAX_INVALID_RATIO * 100}%)`;
+  }
+  return null;
+}
+
+/** Opposition qui bloque l'envoi (Bloctel ignorée hors prospection), la plus forte d'abord */
+export function pickBlockingSuppression<T extends { source: SuppressionSource }>(
+  entries: T[],
+  prospecting: boolean,
+): T | null {
+  const applicable = entries.filter((e) => prospecting || e.source !== 'bloctel');
+  applicable.sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+  return applicable[0] ?? null;
+}
+
+/** Réponse entrante = demande de désinscription (STOP, ARRÊT…) */
+export function isStopMessage(text: string | null | undefined): boolean {
+  const t = String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, '')
+    .trim();
+  return STOP_KEYWORDS.has(t);
+}
+
+function maskTarget(target: string): string {
+  return target.includes('@') ? target.replace(/^(.{2})[^@]*/, '$1***') : `${target.slice(0, 5)}***${target.slice(-2)}`;
+}
+
+// ── Lecture ───────────────────────────────────────────────────────
+
+async function loadSuppressions(kind: SuppressionKind, target: string): Promise<SuppressionEntry[]> {
+  const { data, error } = await getSupa()
+    .from('outreach_suppressions')
+    .select('id, target_kind, target, source, reason, created_at')
+    .eq('target_kind', kind)
+    .eq('target', target);
+  if (error) throw new Error(`outreach_suppressions query failed: ${error.message}`);
+  return (data ?? []) as SuppressionEntry[];
+}
+
+/** Opposition active pour une cible (sans trace de refus) — null si libre ou invalide */
+export async function findSuppression(
+  kind: SuppressionKind,
+  rawTarget: string,
+  prospecting = true,
+): Promise<SuppressionEntry | null> {
+  const target = normalizeTarget(kind, rawTarget);
+  if (!target) return null;
+  return pickBlockingSuppression(await loadSuppressions(kind, target), prospecting);
+}
+
+export async function listSuppressions(kind: SuppressionKind, rawTarget: string): Promise<SuppressionEntry[]> {
+  const target = normalizeTarget(kind, rawTarget);
+  return target ? loadSuppressions(kind, target) : [];
+}
+
+// ── Contrôle avant envoi ──────────────────────────────────────────
+
+async function recordBlocked(
+  channel: OutreachChannel,
+  target: string,
+  reason: string,
+  ctx: OutboundCheckContext,
+  entry?: SuppressionEntry | null,
+): Promise<void> {
+  const { error } = await getSupa()
+    .from('outreach_blocked_sends')
+    .insert({
+      channel,
+      target,
+      source: entry?.source ?? null,
+      suppression_id: entry?.id ?? null,
+      reason,
+      driver_id: ctx.driverId ?? null,
+      context: ctx.details ?? {},
+    });
+  if (error) console.error('[Suppression] blocked-send log failed:', error.message);
+}
+
+/**
+ * Vérifie une cible avant envoi. `allowed: false` → ne pas envoyer ; le
+ * motif (source d'opposition, cible invalide, base indisponible) est tracé.
+ */
+export async function checkOutboundTarget(
+  channel: OutreachChannel,
+  rawTarget: string | null | undefined,
+  ctx: OutboundCheckContext = {},
+): Promise<OutboundCheck> {
+  const kind = kindForChannel(channel);
+  const target = normalizeTarget(kind, rawTarget);
+  if (!target) {
+    await recordBlocked(channel, String(rawTarget || '').slice(0, 64), 'invalid_target', ctx);
+    return { allowed: false, target: null, reason: 'invalid_target' };
+  }
+
+  let entry: SuppressionEntry | null;
+  try {
+    entry = pickBlockingSuppression(await loadSuppressions(kind, target), ctx.prospecting !== false);
+  } catch (err: any) {
+    console.error('[Suppression] check failed:', err.message);
+    await recordBlocked(channel, target, 'check_unavailable', ctx);
+    return { allowed: false, target, reason: 'check_unavailable' };
+  }
+  if (!entry) return { allowed: true, target };
+
+  const reason = `suppressed:${entry.source}`;
+  console.log(`[Suppression] ⛔ ${channel} to ${maskTarget(target)} blocked (${entry.source})`);
+  await recordBlocked(channel, target, reason, ctx, entry);
+  return { allowed: false, target, source: entry.source, reason };
+}
+
+// ── Écriture ──────────────────────────────────────────────────────
+
+/** Ajoute une opposition (idempotent par cible + source). false si cible invalide. */
+export async function suppressTarget(
+  kind: SuppressionKind,
+  rawTarget: string,
+  source: SuppressionSource,
+  reason?: string | null,
+): Promise<boolean> {
+  const target = normalizeTarget(kind, rawTarget);
+  if (!target) return false;
+  const { error } = await getSupa()
+    .from('outreach_suppressions')
+    .upsert(
+      { target_kind: kind, target, source, reason: reason ?? null, created_at: new Date().toISOString() },
+      { onConflict: 'target_kind,target,source' },
+    );
+  if (error) throw new Error(`outreach_suppressions upsert failed: ${error.message}`);
+  console.log(`[Suppression] + ${kind} ${maskTarget(target)} (${source})`);
+  return true;
+}
+
+/** Retire une opposition manuelle ou une saisie erronée (support) */
+export async function removeSuppression(id: string): Promise<void> {
+  const { error } = await getSupa().from('outreach_suppressions').delete().eq('id', id);
+  if (error) throw new Error(`outreach_suppressions delete failed: ${error.message}`);
+}
+
+export interface ImportResult {
+  importId: string;
+  totalLines: number;
+  imported: number;
+  invalid: number;
+  removed: number;
+}
+
+/**
+ * Importe un fichier d'opposition Bloctel. `replace` : les numéros Bloctel
+ * absents de ce fichier sont retirés (fichier complet re-filtré) — refusé
+ * (OppositionImportError) si le fichier est vide ou trop mal lu. Ajout et
+ * nettoyage dans une seule transaction (import_bloctel_opposition).
+ */
+export async function importOppositionList(
+  content: string,
+  opts: { filename?: string | null; replace?: boolean; importedBy?: string | null } = {},
+): Promise<ImportResult> {
+  const supa = getSupa();
+  const parsed = parseOppositionFile(content);
+  if (opts.replace) {
+    const rejection = replaceRejection(parsed);
+    if (rejection) throw new OppositionImportError(`Bloctel replace refused: ${rejection}`);
+  }
+
+  const { data: imp, error: impErr } = await supa
+    .from('outreach_suppression_imports')
+    .insert({
+      source: 'bloctel',
+      filename: opts.filename ?? null,
+      total_lines: parsed.totalLines,
+      invalid: parsed.invalid,
+      imported_by: opts.importedBy ?? null,
+    })
+    .select('id')
+    .single();
+  if (impErr || !imp) throw new Error(`outreach_suppression_imports insert failed: ${impErr?.message}`);
+  const importId = (imp as any).id as string;
+
+  const { data: removedCount, error } = await supa.rpc('import_bloctel_opposition', {
+    p_import_id: importId,
+    p_targets: parsed.numbers,
+    p_reason: opts.filename ? `Bloctel — ${opts.filename}` : 'Bloctel',
+    p_replace: opts.replace === true,
+  });
+  if (error) throw new Error(`import_bloctel_opposition failed: ${error.message}`);
+  const removed = Number(removedCount) || 0;
+
+  await supa
+    .from('outreach_suppression_imports')
+    .update({ imported: parsed.numbers.length, removed })
+    .eq('id', importId);
+
+  console.log(
+    `[Suppression] Bloctel import ${importId}: ${parsed.numbers.length} numbers, ${parsed.invalid} invalid, ${removed} removed`,
+  );
+  return { importId, totalLines: parsed.totalLines, imported: parsed.numbers.length, invalid: parsed.invalid, removed };
+}
+
+/** Dernier import Bloctel (fraîcheur de la liste, dashboard admin) */
+export async function lastOppositionImport(): Promise<Record<string, any> | null> {
+  const { data } = await getSupa()
+    .from('outreach_suppression_imports')
+    .select('*')
+    .eq('source', 'bloctel')
+    .order('imported_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data ?? null;
+}
+
+export async function listBlockedSends(opts: { target?: string; limit?: number } = {}): Promise<any[]> {
+  let query = getSupa()
+    .from('outreach_blocked_sends')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(opts.limit ?? 50, 500));
+  if (opts.target) {
+    const target = normalizeEmailTarget(opts.target) ?? normalizePhoneTarget(opts.target) ?? opts.target;
+    query = query.eq('target', target);
+  }
+  const { data, error } = await query;
+  if (error) throw new Error(`outreach_blocked_sends query failed: ${error.message}`);
+  return data ?? [];
+}
@@ -0,0 +1,206 @@
+/**
+ * TripQuoteService — distance, durée et prix d'une course calculés côté serveur
+ *
+ * Le widget n'envoie plus que les coordonnées départ / arrivée : distance et
+ * durée envoyées par le navigateur sont ignorées (un widget modifié ne peut
+ * plus faire baisser le prix). Un seul chemin pour le devis et la réservation :
+ *
+ *   1. itinéraire  départ → arrêts → arrivée, tronçon par tronçon :
+ *                  fournisseurs dans l'ordre ROUTING_PROVIDERS (défaut
+ *                  "mapbox,osrm", ceux configurés), repli haversine × 1.3
+ *                  sans réseau — jamais d'échec faute d'API
+ *   2. trafic      durée fluide × facteur TomTomTrafficAdapter : mesuré en
+ *                  direct si le départ est dans l'heure, sinon profil horaire
+ *   3. prix        DriverPricingEngine.quoteTrip (tarif du chauffeur)
+ *
+ * Les itinéraires sont gardés 15 min en mémoire : devis puis réservation
+ * donnent la même distance.
+ *
+ * Adresses saisies sans coordonnées fiables (site vitrine) : resolveAddressPoint
+ * géocode l'adresse côté serveur (API Adresse) et n'accepte les coordonnées
+ * du navigateur que si elles tombent à moins d'ADDRESS_MATCH_MAX_KM de l'adresse.
+ */
+
+import { haversineKm, parisLocalTime, quoteTrip } from './DriverPricingEngine.js';
+import type { DriverTariff, GeoPoint, PriceQuote, TripRequest } from './DriverPricingEngine.js';
+import { getLiveTrafficFactor, typicalTrafficFactor } from './realtimeAdapters/TomTomTrafficAdapter.js';
+import { HaversineProvider, MapboxProvider, OsrmProvider } from './routingProviders/index.js';
+import type { RouteEstimate, RoutingProvider, RoutingProviderName } from './routingProviders/index.js';
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export type TrafficSource = 'live' | 'time_of_day';
+
+export interface TripEstimate {
+  distanceKm: number;
+  durationMin: number;
+  /** Durée sans trafic, avant facteur */
+  freeFlowMin: number;
+  /** Fournisseur du tronçon le moins précis (haversine si un tronçon est retombé) */
+  provider: RoutingProviderName;
+  traffic: { factor: number; source: TrafficSource };
+}
+
+export type RoutedTripRequest = Omit<TripRequest, 'distanceKm' | 'durationMin' | 'pickup' | 'dropoff'> & {
+  pickup: GeoPoint;
+  dropoff: GeoPoint;
+};
+
+export interface TripQuote extends PriceQuote {
+  route: { provider: RoutingProviderName; freeFlowMin: number; trafficFactor: number; trafficSource: TrafficSource };
+}
+
+const PROVIDERS: Record<Exclude<RoutingProviderName, 'haversine'>, RoutingProvider> = {
+  mapbox: MapboxProvider,
+  osrm: OsrmProvider,
+};
+
+/** Départ dans moins d'une heure → trafic mesuré plutôt que profil horaire */
+const LIVE_TRAFFIC_WINDOW_MS = 60 * 60 * 1000;
+const ROUTE_CACHE_TTL_MS = 15 * 60 * 1000;
+const ROUTE_CACHE_MAX = 500;
+
+/** Écart toléré entre les coordonnées envoyées et l'adresse géocodée */
+export const ADDRESS_MATCH_MAX_KM = 1;
+const GEOCODER_URL = 'https://api-adresse.data.gouv.fr/search/';
+
+const routeCache = new Map<string, { route: RouteEstimate & { provider: RoutingProviderName }; expires: number }>();
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/** Ordre des fournisseurs : ROUTING_PROVIDERS="osrm,mapbox" (noms inconnus ignorés) */
+export function routingChain(env: string | undefined = process.env.ROUTING_PROVIDERS): RoutingProvider[] {
+  const names = (env || 'mapbox,osrm')
+    .split(',')
+    .map((n) => n.trim().toLowerCase())
+    .filter((n): n is keyof typeof PROVIDERS => n in PROVIDERS);
+  return [...new Set(names)].map((n) => PROVIDERS[n]);
+}
+
+/** Durée trafic compris, arrondie à la minute (1 min minimum) */
+export function applyTraffic(freeFlowMin: number, factor: number): number {
+  return Math.max(1, Math.round(freeFlowMin * factor));
+}
+
+/** Coordonnées du navigateur gardées si proches de l'adresse géocodée, sinon celles du serveur */
+export function pickAddressPoint(given: GeoPoint | null, geocoded: GeoPoint): GeoPoint {
+  return given && haversineKm(given, geocoded) <= ADDRESS_MATCH_MAX_KM ? given : geocoded;
+}
+
+function cacheKey(a: GeoPoint, b: GeoPoint): string {
+  // ~10 m : deux saisies de la même adresse tombent sur la même entrée
+  return [a.lat, a.lng, b.lat, b.lng].map((n) => n.toFixed(4)).join(',');
+}
+
+// ── Géocodage ─────────────────────────────────────────────────────
+
+/** Premier résultat de l'API Adresse (data.gouv.fr), null si introuvable ou API en échec */
+export async function geocodeAddress(address: string): Promise<GeoPoint | null> {
+  const q = address.trim();
+  if (q.length < 3) return null;
+  try {
+    const resp = await fetch(`${GEOCODER_URL}?q=${encodeURIComponent(q)}&limit=1`, {
+      signal: AbortSignal.timeout(4000),
+    });
+    if (!resp.ok) throw new Error(`API Adresse ${resp.status}`);
+    const data: any = await resp.json();
+    const [lng, lat] = data?.features?.[0]?.geometry?.coordinates || [];
+    return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+  } catch (err: any) {
+    console.warn(`[TripQuote] geocoding failed: ${err.message}`);
+    return null;
+  }
+}
+
+/** Point d'une adresse saisie : géocodé côté serveur, null si l'adresse est introuvable */
+export async function resolveAddressPoint(address: string, given: GeoPoint | null): Promise<GeoPoint | null> {
+  const geocoded = await geocodeAddress(address);
+  if (!geocoded) return null;
+  const point = pickAddressPoint(given, geocoded);
+  if (given && point !== given) {
+    console.warn(`[TripQuote] coordinates ${given.lat},${given.lng} do not match "${address.slice(0, 80)}" — geocoded point used`);
+  }
+  return point;
+}
+
+// ── Itinéraire + trafic ───────────────────────────────────────────
+
+async function routeBetween(
+  pickup: GeoPoint,
+  dropoff: GeoPoint,
+): Promise<RouteEstimate & { provider: RoutingProviderName }> {
+  const key = cacheKey(pickup, dropoff);
+  const cached = routeCache.get(key);
+  if (cached && Date.now() < cached.expires) return cached.route;
+
+  let route: (RouteEstimate & { provider: RoutingProviderName }) | null = null;
+  for (const provider of routingChain()) {
+    if (!provider.isConfigured()) continue;
+    try {
+      route = { ...(await provider.route(pickup, dropoff)), provider: provider.name };
+      break;
+    } catch (err: any) {
+      console.warn(`[TripQuote] ${provider.name} failed: ${err.message}`);
+    }
+  }
+  // Repli : pas mis en cache, le fournisseur réel sera réessayé au prochain devis
+  if (!route) return { ...(await HaversineProvider.route(pickup, dropoff)), provider: 'haversine' };
+
+  if (routeCache.size >= ROUTE_CACHE_MAX) routeCache.delete(routeCache.keys().next().value);
+  routeCache.set(key, { route, expires: Date.now() + ROUTE_CACHE_TTL_MS });
+  return route;
+}
+
+async function trafficFactor(pickup: GeoPoint, scheduledAt: string, now: number): Promise<TripEstimate['traffic']> {
+  if (Date.parse(scheduledAt) - now < LIVE_TRAFFIC_WINDOW_MS) {
+    const live = await getLiveTrafficFactor(pickup.lat, pickup.lng);
+    if (live != null) return { factor: Math.round(live * 100) / 100, source: 'live' };
+  }
+  const local = parisLocalTime(scheduledAt);
+  return { factor: typicalTrafficFactor(local.weekday, local.minutes), source: 'time_of_day' };
+}
+
+/** Distance / durée de la course (départ, étapes…, arrivée) à l'heure de prise en charge */
+export async function estimateTripRoute(
+  points: GeoPoint[],
+  scheduledAt: string,
+  now = Date.now(),
+): Promise<TripEstimate> {
+  const segments = points.slice(1).map((to, i) => routeBetween(points[i], to));
+  const [legs, traffic] = await Promise.all([Promise.all(segments), trafficFactor(points[0], scheduledAt, now)]);
+  const distanceKm = legs.reduce((sum, l) => sum + l.distanceKm, 0);
+  const freeFlowMin = legs.reduce((sum, l) => sum + l.durationMin, 0);
+  return {
+    distanceKm: Math.round(distanceKm * 100) / 100,
+    durationMin: applyTraffic(freeFlowMin, traffic.factor),
+    freeFlowMin: Math.round(freeFlowMin),
+    provider: legs.find((l) => l.provider === 'haversine')?.provider ?? legs[0]?.provider ?? 'haversine',
+    traffic,
+  };
+}
+
+/**
+ * Devis d'une course : itinéraire serveur + tarif du chauffeur. Seul point
+ * d'entrée des routes de réservation — le prix enregistré vient d'ici.
+ */
+export async function quoteRoutedTrip(
+  tariff: DriverTariff,
+  trip: RoutedTripRequest,
+  opts: { promoPercent?: number; linkedRoundTrip?: boolean } = {},
+): Promise<TripQuote> {
+  const estimate = await estimateTripRoute([trip.pickup, ...(trip.stops || []), trip.dropoff], trip.scheduledAt);
+  const quote = await quoteTrip(
+    tariff,
+    { ...trip, distanceKm: estimate.distanceKm, durationMin: estimate.durationMin },
+    opts,
+  );
+  return {
+    ...quote,
+    route: {
+      provider: estimate.provider,
+      freeFlowMin: estimate.freeFlowMin,
+      trafficFactor: estimate.traffic.factor,
+      trafficSource: estimate.traffic.source,
+    },
+  };
+}
@@ -108,15 +108,27 @@ export async function pickBestVariant(
   if (variants.length === 1) return variants[0];
 
   // Thompson sampling : on tire un score depuis Beta(replies+1, (sent-replies)+1)
-  let best: EmailVariant | null = null;
+  return thompsonPick(variants, (v) => ({ successes: v.times_replied, trials: v.times_sent }));
+}
+
+/**
+ * Tirage de Thompson générique : un score Beta(succès+1, échecs+1) par bras,
+ * le plus haut gagne. Partagé avec les scripts d'appel (VoiceCallInsightService).
+ */
+export function thompsonPick<T>(
+  arms: T[],
+  stats: (arm: T) => { successes: number; trials: number },
+): T | null {
+  let best: T | null = null;
   let bestScore = -Infinity;
-  for (const v of variants) {
-    const alpha = (v.times_replied || 0) + 1;
-    const betaP = Math.max(0, (v.times_sent || 0) - (v.times_replied || 0)) + 1;
+  for (const arm of arms) {
+    const { successes, trials } = stats(arm);
+    const alpha = (successes || 0) + 1;
+    const betaP = Math.max(0, (trials || 0) - (successes || 0)) + 1;
     const score = betaSample(alpha, betaP);
     if (score > bestScore) {
       bestScore = score;
-      best = v;
+      best = arm;
     }
   }
   return best;
@@ -75,3 +75,30 @@ export async function getMatchPriority(
 export function invalidateVehicleMatchingCache(): void {
   _cache = null;
 }
+
+// ── Sous-traitance : véhicule d'un confrère pour une course réservée ──
+
+const DEFAULT_CATEGORY: VehicleCategory = 'VTC_STANDARD';
+
+/**
+ * Catégories acceptées à la place de celle réservée — montée en gamme seulement :
+ * une berline T3 assure une course VTC standard, pas l'inverse. LOTI (transport
+ * collectif) et TAXI (licence) ne se substituent à rien.
+ */
+const CATEGORY_SUBSTITUTES: Record<VehicleCategory, VehicleCategory[]> = {
+  VTC_STANDARD: ['VTC_STANDARD', 'BERLINE_T3'],
+  BERLINE_T3: ['BERLINE_T3'],
+  LOTI: ['LOTI'],
+  TAXI: ['TAXI'],
+};
+
+/** Catégorie non renseignée (user_profiles.vehicle_category NULL) → VTC standard */
+export function normalizeVehicleCategory(raw: string | null | undefined): VehicleCategory {
+  const value = String(raw || '').toUpperCase();
+  return value in CATEGORY_SUBSTITUTES ? (value as VehicleCategory) : DEFAULT_CATEGORY;
+}
+
+/** Le véhicule `candidate` peut-il assurer une course réservée en `booked` ? */
+export function vehicleCanServe(candidate: string | null | undefined, booked: string | null | undefined): boolean {
+  return CATEGORY_SUBSTITUTES[normalizeVehicleCategory(booked)].includes(normalizeVehicleCategory(candidate));
+}
@@ -0,0 +1,496 @@
+/**
+ * VoiceCallInsightService — analyse des transcripts d'appels Ajnaya
+ * ============================================================
+ * Le webhook post-call ElevenLabs (voiceRoutes) enregistre transcript et
+ * analysis, puis planifie le job `voice.insights` (clé voice-insights:<call>) :
+ *
+ *   1. extraction (couche LLM, routeCompletion 'call_analysis', sous le
+ *      budget global, JSON strict) : objections soulevées, niveau
+ *      d'intérêt, rappel demandé, décideur joint, manquements de conformité
+ *   2. finder_voice_calls.insights + colonnes du funnel (dashboard Pieuvre),
+ *      finder_voice_call_objections (une ligne par catégorie)
+ *   3. apprentissage : compteurs du script tiré (finder_voice_script_variants,
+ *      Thompson sampling comme VariantSelectorService pour les emails) et du
+ *      playbook d'objections (times_used / times_succeeded)
+ *   4. rappel demandé → planifié à l'heure dite (jobs/voiceCallScheduler,
+ *      plages CallingWindowService) — jamais si le prospect a demandé à ne
+ *      plus être appelé (numéro ajouté à la liste d'opposition, SuppressionService)
+ *   5. manquement de conformité → audit log
+ *
+ * API indisponible, budget LLM épuisé ou JSON illisible → `unavailable`, le
+ * job est réessayé par la file (même contrat que ReviewModerationService).
+ */
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { routeCompletion } from '../ai/llm/router.js';
+import { estimateCost } from '../ai/llm/types.js';
+import { checkGlobalLLMBudget, logLLMUsage, BUDGET_DOWNGRADE_USE_CASE } from '../ai/llmBudget.js';
+import { AUDIT_ACTIONS, logAuditAsync, SYSTEM_ACTOR_ID } from '../data/auditLog.js';
+import { scheduleProspectCallback } from '../jobs/voiceCallScheduler.js';
+import { parisDateTimeToIso, parisLocalTime } from './DriverPricingEngine.js';
+import { enqueueJob, PermanentJobError } from './JobQueueService.js';
+import { suppressTarget } from './SuppressionService.js';
+import { thompsonPick } from './VariantSelectorService.js';
+import { ALL_VOICE_COMPLIANCE_ISSUES, ALL_VOICE_OBJECTIONS } from '../types/clientFinder.js';
+import type {
+  VoiceCallInsights,
+  VoiceCallOutcome,
+  VoiceComplianceIssue,
+  VoiceInterestLevel,
+  VoiceObjectionCategory,
+  VoiceScriptVariant,
+} from '../types/clientFinder.js';
+
+export const VOICE_INSIGHTS_JOB = 'voice.insights';
+
+const MAX_TOKENS = 800;
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_EXCERPT_CHARS = 200;
+
+/** Rappel au plus tard 6 mois après l'appel */
+const CALLBACK_MAX_DELAY_MS = 183 * 24 * 3600 * 1000;
+
+const INTEREST_LEVELS: VoiceInterestLevel[] = ['none', 'low', 'medium', 'high'];
+
+// ── Lazy Supabase (service role) ──────────────────────────────────
+let _supa: SupabaseClient | null = null;
+function getSupa(): SupabaseClient {
+  if (_supa) return _supa;
+  _supa = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  return _supa;
+}
+
+// ── Logique pure ──────────────────────────────────────────────────
+
+/**
+ * Transcript ElevenLabs ([{ role: 'agent' | 'user', message }], éventuellement
+ * sous { transcript: [...] }) → texte « Ajnaya: … / Prospect: … »
+ */
+export function transcriptText(transcript: unknown): string {
+  if (!transcript) return '';
+  if (typeof transcript === 'string') return transcript.slice(0, MAX_TRANSCRIPT_CHARS);
+  const turns: any[] = Array.isArray(transcript)
+    ? transcript
+    : Array.isArray((transcript as any).transcript)
+      ? (transcript as any).transcript
+      : [];
+  return turns
+    .filter((t) => typeof t?.message === 'string' && t.message.trim())
+    .map((t) => `${t.role === 'agent' ? 'Ajnaya' : 'Prospect'}: ${t.message.trim()}`)
+    .join('\n')
+    .slice(0, MAX_TRANSCRIPT_CHARS);
+}
+
+/**
+ * Réponse du modèle → insights normalisés. Catégories inconnues ramenées à
+ * OBJECTION_OTHER (une ligne par catégorie), conformité filtrée sur la liste
+ * connue, rappel converti de l'heure de Paris en UTC et ignoré s'il tombe
+ * avant l'appel ou trop loin.
+ */
+export function parseCallInsights(raw: any, calledAt: string): VoiceCallInsights {
+  const objections = new Map<VoiceObjectionCategory, VoiceCallInsights['objections'][number]>();
+  for (const o of Array.isArray(raw?.objections) ? raw.objections : []) {
+    const category: VoiceObjectionCategory = ALL_VOICE_OBJECTIONS.includes(o?.category)
+      ? o.category
+      : 'OBJECTION_OTHER';
+    const prev = objections.get(category);
+    objections.set(category, {
+      category,
+      excerpt: prev?.excerpt ?? (typeof o?.excerpt === 'string' ? o.excerpt.slice(0, MAX_EXCERPT_CHARS) : null),
+      // Une objection revenue sans être levée reste non résolue
+      resolved: (prev ? prev.resolved : true) && o?.resolved === true,
+    });
+  }
+
+  const compliance = (Array.isArray(raw?.compliance_issues) ? raw.compliance_issues : []).filter(
+    (c: any): c is VoiceComplianceIssue => ALL_VOICE_COMPLIANCE_ISSUES.includes(c),
+  );
+
+  const doNotCall = compliance.includes('DO_NOT_CALL_REQUESTED');
+  return {
+    objections: [...objections.values()],
+    interest_level: INTEREST_LEVELS.includes(raw?.interest_level) ? raw.interest_level : 'none',
+    callback_at: doNotCall ? null : parseCallbackLocal(raw?.callback_local, calledAt),
+    callback_note: typeof raw?.callback_note === 'string' ? raw.callback_note.slice(0, MAX_EXCERPT_CHARS) : null,
+    decision_maker: {
+      reached: raw?.decision_maker?.reached === true,
+      role: typeof raw?.decision_maker?.role === 'string' ? raw.decision_maker.role.slice(0, 80) : null,
+    },
+    compliance_issues: [...new Set<VoiceComplianceIssue>(compliance)],
+  };
+}
+
+function parseCallbackLocal(value: unknown, calledAt: string): string | null {
+  const m = typeof value === 'string' ? value.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})/) : null;
+  if (!m) return null;
+  const iso = parisDateTimeToIso(m[1], m[2]);
+  const t = Date.parse(iso);
+  const from = Date.parse(calledAt);
+  if (Number.isNaN(t) || t <= from || t - from > CALLBACK_MAX_DELAY_MS) return null;
+  return iso;
+}
+
+/** Un interlocuteur a décroché : l'appel compte pour le script */
+export function reachedProspect(outcome: VoiceCallOutcome | string | null): boolean {
+  return !!outcome && outcome !== 'UNREACHABLE' && outcome !== 'TECH_FAILURE';
+}
+
+/** Appel gagné pour l'apprentissage : converti, transféré au chauffeur ou intérêt fort */
+export function isScriptWin(
+  call: { outcome: string | null; status: string | null },
+  insights: Pick<VoiceCallInsights, 'interest_level'>,
+): boolean {
+  return call.outcome === 'CONVERTED' || call.status === 'TRANSFERRED' || insights.interest_level === 'high';
+}
+
+export interface VoiceFunnelCall {
+  id: string;
+  status: string | null;
+  outcome: string | null;
+  interest_level: VoiceInterestLevel | null;
+  decision_maker_reached: boolean | null;
+  callback_at: string | null;
+  compliance_issues: string[] | null;
+  script_variant_id: string | null;
+  cost_estimate_eur: number | string | null;
+}
+
+export interface VoiceFunnel {
+  stages: {
+    calls: number;
+    connected: number;
+    decisionMaker: number;
+    interested: number;
+    converted: number;
+  };
+  callbacksScheduled: number;
+  costEur: number;
+  objections: Array<{ category: string; count: number; resolved: number }>;
+  compliance: Record<string, number>;
+  scripts: Array<{ scriptId: string; calls: number; converted: number }>;
+}
+
+/** Funnel d'appels d'un chauffeur : étapes cumulatives, objections, scripts */
+export function buildVoiceFunnel(
+  calls: VoiceFunnelCall[],
+  objections: Array<{ category: string; resolved: boolean }>,
+): VoiceFunnel {
+  const connected = calls.filter((c) => reachedProspect(c.outcome));
+  const converted = (c: VoiceFunnelCall) => c.outcome === 'CONVERTED' || c.status === 'TRANSFERRED';
+  const interested = (c: VoiceFunnelCall) =>
+    converted(c) ||
+    c.interest_level === 'high' ||
+    c.interest_level === 'medium' ||
+    c.outcome === 'INTERESTED' ||
+    c.outcome === 'CALLBACK_REQUESTED';
+
+  const byCategory = new Map<string, { category: string; count: number; resolved: number }>();
+  for (const o of objections) {
+    const row = byCategory.get(o.category) ?? { category: o.category, count: 0, resolved: 0 };
+    row.count++;
+    if (o.resolved) row.resolved++;
+    byCategory.set(o.category, row);
+  }
+
+  const compliance: Record<string, number> = {};
+  for (const issue of calls.flatMap((c) => c.compliance_issues || [])) {
+    compliance[issue] = (compliance[issue] || 0) + 1;
+  }
+
+  const scripts = new Map<string, { scriptId: string; calls: number; converted: number }>();
+  for (const c of connected) {
+    if (!c.script_variant_id) continue;
+    const row = scripts.get(c.script_variant_id) ?? { scriptId: c.script_variant_id, calls: 0, converted: 0 };
+    row.calls++;
+    if (converted(c)) row.converted++;
+    scripts.set(c.script_variant_id, row);
+  }
+
+  return {
+    stages: {
+      calls: calls.length,
+      connected: connected.length,
+      decisionMaker: connected.filter((c) => c.decision_maker_reached).length,
+      interested: connected.filter(interested).length,
+      converted: connected.filter(converted).length,
+    },
+    callbacksScheduled: calls.filter((c) => c.callback_at).length,
+    costEur: Math.round(calls.reduce((sum, c) => sum + (Number(c.cost_estimate_eur) || 0), 0) * 100) / 100,
+    objections: [...byCategory.values()].sort((a, b) => b.count - a.count),
+    compliance,
+    scripts: [...scripts.values()].sort((a, b) => b.calls - a.calls),
+  };
+}
+
+// ── Extraction (LLM) ──────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `Tu analyses le transcript d'un appel commercial passé par Ajnaya, l'assistante vocale du réseau FOREAS, à un établissement (hôtel, restaurant, agence…) pour lui proposer un chauffeur VTC partenaire.
+
+EXTRAIS :
+- objections : chaque objection du prospect, catégorie parmi
+  OBJECTION_PRICE (trop cher, coût), OBJECTION_ALREADY_PARTNER (a déjà un chauffeur / une société),
+  OBJECTION_NOT_NOW (pas le moment), OBJECTION_NO_NEED (pas de besoin), OBJECTION_TRUST (doute sur le sérieux, l'assurance, la licence),
+  OBJECTION_AI_CALLER (refuse de parler à une IA / un robot), OBJECTION_OTHER.
+  "excerpt" : la phrase du prospect, courte, SANS numéro, email ni nom de famille.
+  "resolved" : true si Ajnaya a répondu et que le prospect a poursuivi l'échange positivement.
+- interest_level : none | low | medium | high (high = accepte la mise en relation ou demande les coordonnées).
+- callback_local : si le prospect demande à être rappelé, date et heure de Paris "YYYY-MM-DDTHH:MM", calculées depuis la date de l'appel. Seulement une date → 10:00. Période vague ("dans un mois", "après l'été") → premier jour ouvré de la période à 10:00. Aucun rappel demandé → null.
+- callback_note : la demande de rappel telle que formulée, sinon null.
+- decision_maker : { "reached": true si l'interlocuteur peut décider (gérant, directeur, responsable conciergerie / achats), "role": fonction citée ou null }.
+- compliance_issues : points de conformité relevés dans l'appel, parmi
+  NO_RECORDING_NOTICE (enregistrement non annoncé en début d'appel), AI_IDENTITY_DENIED (nie être une assistante automatique quand on lui demande),
+  DRIVER_DETAILS_DISCLOSED (donne le nom ou le numéro du chauffeur), PRESSURE_AFTER_REFUSAL (insiste après un refus clair),
+  DO_NOT_CALL_REQUESTED (le prospect demande à ne plus être appelé), MISLEADING_CLAIM (promesse de prix ou de service fausse ou invérifiable).
+
+RÉPONSE : STRICTEMENT un JSON valide, rien d'autre. Pas de markdown.
+
+Format exact :
+{
+  "objections": [{ "category": "...", "excerpt": "...", "resolved": true }],
+  "interest_level": "none" | "low" | "medium" | "high",
+  "callback_local": "YYYY-MM-DDTHH:MM" | null,
+  "callback_note": "..." | null,
+  "decision_maker": { "reached": false, "role": null },
+  "compliance_issues": []
+}`;
+
+const WEEKDAYS_FR = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
+
+export async function extractCallInsights(
+  text: string,
+  ctx: { placeName: string; calledAt: string },
+): Promise<{ insights: VoiceCallInsights | null; unavailable: boolean }> {
+  const local = parisLocalTime(ctx.calledAt);
+  const hhmm = `${String(Math.floor(local.minutes / 60)).padStart(2, '0')}:${String(local.minutes % 60).padStart(2, '0')}`;
+  const userMessage = [
+    `Appel à ${ctx.placeName}, passé le ${WEEKDAYS_FR[local.weekday]} ${local.date} à ${hhmm} (heure de Paris).`,
+    '---',
+    text,
+    '---',
+    'Réponds en JSON strict selon le format demandé.',
+  ].join('\n');
+
+  const budget = await checkGlobalLLMBudget();
+  if (budget.decision === 'cached') return { insights: null, unavailable: true };
+
+  try {
+    const { response, model, provider } = await routeCompletion(
+      budget.decision === 'downgrade' ? BUDGET_DOWNGRADE_USE_CASE : 'call_analysis',
+      {
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: userMessage },
+        ],
+        temperature: 0,
+        maxTokens: MAX_TOKENS,
+      },
+    );
+
+    void logLLMUsage({
+      driverId: null,
+      source: 'voice_insights',
+      provider,
+      model,
+      tokensInput: response.usage.promptTokens,
+      tokensOutput: response.usage.completionTokens,
+      costUsd: estimateCost(model, response.usage.promptTokens, response.usage.completionTokens).totalCost,
+    });
+
+    let raw = response.content.trim();
+    const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) raw = fenced[1].trim();
+
+    return { insights: parseCallInsights(JSON.parse(raw), ctx.calledAt), unavailable: false };
+  } catch (err: any) {
+    console.error('[VoiceInsights] LLM error:', err?.message);
+    return { insights: null, unavailable: true };
+  }
+}
+
+// ── Scripts d'appel (Thompson sampling) ───────────────────────────
+
+/**
+ * Script d'appel à utiliser : Beta(gagnés+1, perdus+1) sur les variantes
+ * actives de la langue (repli 'fr'). null → prompt par défaut d'ElevenLabsCallService.
+ */
+export async function pickVoiceScript(language = 'fr'): Promise<VoiceScriptVariant | null> {
+  const fetchScripts = async (lang: string) => {
+    const { data, error } = await getSupa()
+      .from('finder_voice_script_variants')
+      .select('*')
+      .eq('language', lang)
+      .eq('is_active', true);
+    if (error) {
+      console.warn('[VoiceInsights] script fetch error:', error.message);
+      return [];
+    }
+    return (data || []) as VoiceScriptVariant[];
+  };
+
+  let scripts = await fetchScripts(language);
+  if (scripts.length === 0 && language !== 'fr') scripts = await fetchScripts('fr');
+  return thompsonPick(scripts, (s) => ({ successes: s.times_converted, trials: s.times_used }));
+}
+
+async function recordScriptOutcome(variantId: string, converted: boolean): Promise<void> {
+  const supa = getSupa();
+  const { error } = await supa.rpc('increment_voice_script_stats', {
+    p_variant_id: variantId,
+    p_converted: converted,
+  });
+  if (!error) return;
+  // Repli : read + write
+  const { data } = await supa
+    .from('finder_voice_script_variants')
+    .select('times_used, times_converted')
+    .eq('id', variantId)
+    .maybeSingle();
+  if (!data) return;
+  await supa
+    .from('finder_voice_script_variants')
+    .update({
+      times_used: ((data as any).times_used ?? 0) + 1,
+      times_converted: ((data as any).times_converted ?? 0) + (converted ? 1 : 0),
+    })
+    .eq('id', variantId);
+}
+
+/** Playbook d'objections : une utilisation par catégorie soulevée, un succès si levée */
+async function recordPlaybookOutcomes(objections: VoiceCallInsights['objections']): Promise<void> {
+  if (objections.length === 0) return;
+  const supa = getSupa();
+  const { data: entries } = await supa
+    .from('finder_objection_playbook')
+    .select('id, objection_category, times_used, times_succeeded')
+    .eq('is_active', true)
+    .eq('language', 'fr')
+    .in('channel', ['VOICE', 'BOTH'])
+    .in(
+      'objection_category',
+      objections.map((o) => o.category),
+    );
+
+  for (const entry of (entries || []) as any[]) {
+    const objection = objections.find((o) => o.category === entry.objection_category);
+    await supa
+      .from('finder_objection_playbook')
+      .update({
+        times_used: (entry.times_used ?? 0) + 1,
+        times_succeeded: (entry.times_succeeded ?? 0) + (objection?.resolved ? 1 : 0),
+      })
+      .eq('id', entry.id);
+  }
+}
+
+// ── Job voice.insights ────────────────────────────────────────────
+
+export async function enqueueCallInsights(callId: string): Promise<void> {
+  await enqueueJob(VOICE_INSIGHTS_JOB, { call_id: callId }, { idempotencyKey: `voice-insights:${callId}` });
+}
+
+export async function runVoiceInsightsJob(payload: { call_id: string }): Promise<void> {
+  const supa = getSupa();
+  const { data: call, error } = await supa
+    .from('finder_voice_calls')
+    .select(
+      'id, driver_id, log_id, to_number, status, outcome, started_at, ended_at, full_transcript, insights_status, script_variant_id',
+    )
+    .eq('id', payload.call_id)
+    .maybeSingle();
+  if (error) throw new Error(`finder_voice_calls query failed: ${error.message}`);
+  if (!call) throw new PermanentJobError(`voice call ${payload.call_id} not found`);
+  if (call.insights_status === 'done' || call.insights_status === 'skipped') return;
+
+  const text = transcriptText(call.full_transcript);
+  if (!text) {
+    await supa.from('finder_voice_calls').update({ insights_status: 'skipped' }).eq('id', call.id);
+    return;
+  }
+
+  const { data: log } = call.log_id
+    ? await supa.from('pieuvre_b2b_hunter_log').select('business_name').eq('id', call.log_id).maybeSingle()
+    : { data: null };
+
+  const calledAt = call.started_at || call.ended_at || new Date().toISOString();
+  const { insights, unavailable } = await extractCallInsights(text, {
+    placeName: (log as any)?.business_name || 'un établissement',
+    calledAt,
+  });
+  // Réessayé par la file (backoff) — l'appel reste en 'pending'
+  if (unavailable || !insights) throw new Error('voice insights unavailable');
+
+  // Statut posé en premier : un retry après cette ligne ne recompte pas les compteurs
+  const { data: claimed } = await supa
+    .from('finder_voice_calls')
+    .update({
+      insights,
+      insights_status: 'done',
+      insights_at: new Date().toISOString(),
+      interest_level: insights.interest_level,
+      decision_maker_reached: insights.decision_maker.reached,
+      callback_at: insights.callback_at,
+      compliance_issues: insights.compliance_issues,
+    })
+    .eq('id', call.id)
+    .or('insights_status.is.null,insights_status.eq.pending')
+    .select('id');
+  if (!claimed?.length) return;
+
+  if (insights.objections.length > 0) {
+    const { error: objErr } = await supa.from('finder_voice_call_objections').upsert(
+      insights.objections.map((o) => ({
+        call_id: call.id,
+        driver_id: call.driver_id,
+        category: o.category,
+        excerpt: o.excerpt,
+        resolved: o.resolved,
+      })),
+      { onConflict: 'call_id,category' },
+    );
+    if (objErr) console.warn(`[VoiceInsights] objections insert failed for ${call.id}: ${objErr.message}`);
+  }
+
+  // Apprentissage : seuls les appels décrochés comptent
+  if (reachedProspect(call.outcome)) {
+    try {
+      if (call.script_variant_id) await recordScriptOutcome(call.script_variant_id, isScriptWin(call, insights));
+      await recordPlaybookOutcomes(insights.objections);
+    } catch (err: any) {
+      console.warn(`[VoiceInsights] learning update failed for ${call.id}: ${err.message}`);
+    }
+  }
+
+  if (insights.compliance_issues.includes('DO_NOT_CALL_REQUESTED')) {
+    // Le numéro rejoint la liste d'opposition : plus aucun appel, SMS ni WhatsApp
+    if (call.to_number) {
+      await suppressTarget('phone', call.to_number, 'do_not_call', `Demandé pendant l'appel ${call.id}`);
+    }
+    if (call.log_id) {
+      await supa
+        .from('pieuvre_b2b_hunter_log')
+        .update({ status: 'CALL_DECLINED', callback_note: null, next_call_at: null, next_call_reason: null })
+        .eq('id', call.log_id);
+    }
+  }
+
+  if (insights.callback_at && call.log_id) {
+    await scheduleProspectCallback(call.log_id, call.id, insights.callback_at, insights.callback_note);
+  }
+
+  if (insights.compliance_issues.length > 0) {
+    logAuditAsync({
+      actorId: SYSTEM_ACTOR_ID,
+      actorRole: 'system',
+      action: AUDIT_ACTIONS.VOICE_COMPLIANCE_FLAGGED,
+      targetType: 'voice_call',
+      targetId: call.id,
+      details: { driver_id: call.driver_id, issues: insights.compliance_issues },
+    });
+  }
+
+  console.log(
+    `[VoiceInsights] ${call.id}: interest=${insights.interest_level}, objections=${insights.objections.length}, ` +
+      `callback=${insights.callback_at ?? '-'}, compliance=${insights.compliance_issues.join(',') || '-'}`,
+  );
+}
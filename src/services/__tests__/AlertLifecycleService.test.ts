@@ -0,0 +1,70 @@
+/**
+ * Unit tests — AlertLifecycleService (Vitest)
+ *
+ * Déclin par catégorie, confirmations pondérées par la confiance du votant,
+ * expiration projetée et réputation de l'auteur.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/AlertLifecycleService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeLifecycle, lifecycleOutcome, reputationDelta } from '../AlertLifecycleService.js';
+
+const T0 = Date.parse('2026-10-19T08:00:00Z');
+const MIN = 60 * 1000;
+
+describe('computeLifecycle', () => {
+  it('decays faster for short-lived categories and trusts reliable authors longer', () => {
+    const surge = computeLifecycle({ category: 'surge', createdAt: T0, authorScore: 30, votes: [] }, T0);
+    const police = computeLifecycle({ category: 'police', createdAt: T0, authorScore: 30, votes: [] }, T0);
+    const trusted = computeLifecycle({ category: 'police', createdAt: T0, authorScore: 90, votes: [] }, T0);
+
+    expect(surge.expiresAt).toBeLessThan(police.expiresAt);
+    expect(trusted.expiresAt).toBeGreaterThan(police.expiresAt);
+    expect(computeLifecycle({ category: 'police', createdAt: T0, authorScore: 30, votes: [] }, police.expiresAt).expired).toBe(
+      true,
+    );
+  });
+
+  it('extends on a "still there" confirmation, weighted by the voter trust', () => {
+    const base = computeLifecycle({ category: 'bouchon', createdAt: T0, authorScore: 30, votes: [] }, T0);
+    const confirmedBy = (voterScore: number) =>
+      computeLifecycle(
+        { category: 'bouchon', createdAt: T0, authorScore: 30, votes: [{ confirms: true, at: T0 + 20 * MIN, voterScore }] },
+        T0 + 20 * MIN,
+      );
+
+    expect(confirmedBy(20).expiresAt).toBeGreaterThan(base.expiresAt);
+    expect(confirmedBy(90).expiresAt).toBeGreaterThan(confirmedBy(20).expiresAt);
+    // Plafond de la catégorie : jamais au-delà de 3 h pour un bouchon
+    expect(confirmedBy(90).expiresAt).toBeLessThanOrEqual(T0 + 180 * MIN);
+  });
+
+  it('expires right away when trusted drivers refute it', () => {
+    const state = computeLifecycle(
+      {
+        category: 'police',
+        createdAt: T0,
+        authorScore: 30,
+        votes: [
+          { confirms: false, at: T0 + 5 * MIN, voterScore: 70 },
+          { confirms: false, at: T0 + 8 * MIN, voterScore: 60 },
+        ],
+      },
+      T0 + 10 * MIN,
+    );
+    expect(state.expired).toBe(true);
+    expect(lifecycleOutcome(state)).toBe('refuted');
+  });
+});
+
+describe('reputationDelta', () => {
+  it('rewards confirmed alerts and escalates penalties for repeat refutations', () => {
+    expect(reputationDelta('confirmed', 0)).toBe(2);
+    expect(reputationDelta('faded', 3)).toBe(0);
+    expect(reputationDelta('refuted', 0)).toBe(-5);
+    expect(reputationDelta('refuted', 2)).toBe(-15);
+    expect(reputationDelta('refuted', 10)).toBe(-20);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests — BookingFeeService (Vitest)
+ *
+ * Répartition des frais entre acompte et carte, et fenêtre de déclaration
+ * d'absence client.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/BookingFeeService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canMarkNoShow, splitFee } from '../BookingFeeService.js';
+
+describe('splitFee', () => {
+  it('takes the fee from the deposit first and refunds the rest', () => {
+    expect(splitFee(10, 24)).toEqual({ retained: 10, refund: 14, remaining: 0 });
+    expect(splitFee(0, 24)).toEqual({ retained: 0, refund: 24, remaining: 0 });
+  });
+
+  it('leaves the uncovered part to be charged on the saved card', () => {
+    expect(splitFee(80, 24)).toEqual({ retained: 24, refund: 0, remaining: 56 });
+    expect(splitFee(40.5, 0)).toEqual({ retained: 0, refund: 0, remaining: 40.5 });
+  });
+});
+
+describe('canMarkNoShow', () => {
+  const now = Date.parse('2026-10-19T10:00:00Z');
+
+  it('only allows active bookings whose pickup time has passed', () => {
+    expect(canMarkNoShow({ status: 'reminded_15m', scheduled_at: '2026-10-19T09:50:00Z' }, now)).toBe(true);
+    expect(canMarkNoShow({ status: 'confirmed', scheduled_at: '2026-10-19T10:30:00Z' }, now)).toBe(false);
+    expect(canMarkNoShow({ status: 'cancelled', scheduled_at: '2026-10-19T09:00:00Z' }, now)).toBe(false);
+  });
+});
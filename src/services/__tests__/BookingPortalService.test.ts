@@ -0,0 +1,106 @@
+/**
+ * Unit tests — BookingPortalService / CancellationPolicyService (Vitest)
+ *
+ * Lien signé du portail client, frais d'annulation selon la politique du
+ * chauffeur, règles de déplacement et acompte.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/BookingPortalService.test.ts
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { portalActions, portalTokenExpiry, portalUrl, signPortalToken, verifyPortalToken } from '../BookingPortalService.js';
+import {
+  canReschedule,
+  DEFAULT_CANCELLATION_POLICY,
+  depositAmount,
+  evaluateCancellation,
+  normalizeCancellationPolicy,
+} from '../CancellationPolicyService.js';
+
+const BOOKING_ID = '3f2b8c1e-9a4d-4e2f-8b7a-1c2d3e4f5a6b';
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+const hoursFromNow = (h: number) => new Date(NOW + h * 3600 * 1000).toISOString();
+
+beforeAll(() => {
+  process.env.BOOKING_PORTAL_SECRET = 'test-portal-secret';
+});
+
+describe('portal token', () => {
+  it('round-trips and rejects tampering', () => {
+    const token = signPortalToken(BOOKING_ID, NOW + 3600 * 1000);
+    expect(verifyPortalToken(token, NOW)).toBe(BOOKING_ID);
+    expect(verifyPortalToken(token.replace(BOOKING_ID, '3f2b8c1e-9a4d-4e2f-8b7a-1c2d3e4f5a6c'), NOW)).toBeNull();
+    expect(verifyPortalToken(`${BOOKING_ID}.${'x'.repeat(32)}`, NOW)).toBeNull();
+    expect(verifyPortalToken('not-a-token', NOW)).toBeNull();
+  });
+
+  it('expires a week after the ride, expiry covered by the signature', () => {
+    const token = signPortalToken(BOOKING_ID, portalTokenExpiry(hoursFromNow(2)));
+    expect(verifyPortalToken(token, NOW + 7 * 24 * 3600 * 1000)).toBe(BOOKING_ID);
+    expect(verifyPortalToken(token, NOW + 8 * 24 * 3600 * 1000)).toBeNull();
+
+    const [id, expires, sig] = token.split('.');
+    const extended = `${id}.${(parseInt(expires, 36) + 86400).toString(36)}.${sig}`;
+    expect(verifyPortalToken(extended, NOW)).toBeNull();
+  });
+
+  it('requires a dedicated secret', () => {
+    const secret = process.env.BOOKING_PORTAL_SECRET;
+    const token = signPortalToken(BOOKING_ID, NOW + 3600 * 1000);
+    delete process.env.BOOKING_PORTAL_SECRET;
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role';
+    try {
+      expect(() => signPortalToken(BOOKING_ID, NOW)).toThrow('BOOKING_PORTAL_SECRET');
+      // Sans secret : pas de lien, aucun jeton accepté (jamais d'exception après écriture)
+      expect(portalUrl({ id: BOOKING_ID, scheduled_at: hoursFromNow(2) })).toBeNull();
+      expect(verifyPortalToken(token, NOW)).toBeNull();
+    } finally {
+      process.env.BOOKING_PORTAL_SECRET = secret;
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+    }
+  });
+});
+
+describe('cancellation policy', () => {
+  const booking = { status: 'confirmed', scheduled_at: hoursFromNow(10), estimated_price: 80 };
+
+  it('is free before the window and for unconfirmed bookings, then charges the late fee', () => {
+    expect(evaluateCancellation(DEFAULT_CANCELLATION_POLICY, { ...booking, scheduled_at: hoursFromNow(48) }, NOW)).toMatchObject({ fee: 0, free: true });
+    expect(evaluateCancellation(DEFAULT_CANCELLATION_POLICY, { ...booking, status: 'pending' }, NOW).fee).toBe(0);
+    expect(evaluateCancellation(DEFAULT_CANCELLATION_POLICY, booking, NOW)).toMatchObject({ fee: 40, free: false });
+  });
+
+  it('falls back to defaults on invalid stored policy', () => {
+    expect(normalizeCancellationPolicy({ free_cancel_hours: -3 })).toEqual(DEFAULT_CANCELLATION_POLICY);
+    expect(normalizeCancellationPolicy({ free_cancel_hours: 6 }).late_cancel_fee_percent).toBe(50);
+  });
+
+  it('limits reschedules by notice and count', () => {
+    expect(canReschedule(DEFAULT_CANCELLATION_POLICY, booking, NOW)).toEqual({ ok: true });
+    expect(canReschedule(DEFAULT_CANCELLATION_POLICY, { ...booking, scheduled_at: hoursFromNow(1) }, NOW)).toEqual({ ok: false, reason: 'too_late' });
+    expect(canReschedule(DEFAULT_CANCELLATION_POLICY, { ...booking, reschedule_count: 2 }, NOW)).toEqual({ ok: false, reason: 'limit' });
+    expect(canReschedule(DEFAULT_CANCELLATION_POLICY, { ...booking, status: 'cancelled' }, NOW)).toEqual({ ok: false, reason: 'status' });
+  });
+
+  it('computes the deposit with a 5 € floor capped at the price', () => {
+    expect(depositAmount(DEFAULT_CANCELLATION_POLICY, 80)).toBe(24);
+    expect(depositAmount(DEFAULT_CANCELLATION_POLICY, 12)).toBe(5);
+    expect(depositAmount(DEFAULT_CANCELLATION_POLICY, 4)).toBe(4);
+    expect(depositAmount({ ...DEFAULT_CANCELLATION_POLICY, deposit_percent: 0 }, 80)).toBe(0);
+  });
+});
+
+describe('portalActions', () => {
+  it('closes every action once the ride has started or was cancelled', () => {
+    const past = portalActions(DEFAULT_CANCELLATION_POLICY, { status: 'confirmed', scheduled_at: hoursFromNow(-1), estimated_price: 50 }, NOW);
+    expect(past).toMatchObject({ can_cancel: false, can_reschedule: false, can_edit_note: false, deposit_due: 0 });
+
+    const paid = portalActions(
+      DEFAULT_CANCELLATION_POLICY,
+      { status: 'confirmed', scheduled_at: hoursFromNow(30), estimated_price: 50, deposit_amount: 15, deposit_paid_at: hoursFromNow(-2) },
+      NOW,
+    );
+    expect(paid).toMatchObject({ can_cancel: true, cancellation_fee: 0, can_reschedule: true, deposit_due: 0 });
+  });
+});
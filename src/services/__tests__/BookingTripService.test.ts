@@ -0,0 +1,59 @@
+/**
+ * Unit tests — BookingTripService (Vitest)
+ *
+ * Arrêts envoyés par le widget, trajet retour inversé, libellés et
+ * regroupement aller / retour de la liste chauffeur.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/BookingTripService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { attachReturnLegs, parseStops, reverseTrip, tripLabel, tripSummary } from '../BookingTripService.js';
+
+const outbound = {
+  id: 'out-1',
+  pickup_address: 'Orly',
+  pickup_lat: 48.7262,
+  pickup_lng: 2.3652,
+  dropoff_address: 'La Défense',
+  dropoff_lat: 48.8918,
+  dropoff_lng: 2.2362,
+  stops: [
+    { address: 'Hôtel Lutetia', lat: 48.851, lng: 2.3268 },
+    { address: 'Gare Saint-Lazare', lat: 48.8763, lng: 2.3253 },
+  ],
+  trip_leg: 'outbound' as const,
+};
+
+describe('parseStops', () => {
+  it('accepts widget aliases and rejects invalid or too many stops', () => {
+    expect(parseStops(undefined)).toEqual([]);
+    expect(parseStops([{ address: 'Hôtel Lutetia', latitude: '48.851', longitude: 2.3268 }])).toEqual([
+      { address: 'Hôtel Lutetia', lat: 48.851, lng: 2.3268 },
+    ]);
+    expect(parseStops([{ address: 'Hôtel Lutetia' }])).toBeNull();
+    expect(parseStops('Hôtel Lutetia')).toBeNull();
+    expect(parseStops(Array(6).fill({ address: 'Hôtel Lutetia', lat: 48.851, lng: 2.3268 }))).toBeNull();
+  });
+});
+
+describe('trip texts', () => {
+  it('reverses the return leg and labels it', () => {
+    const back = { id: 'ret-1', ...reverseTrip(outbound), trip_leg: 'return' as const };
+    expect(tripSummary(outbound)).toBe('Orly → Hôtel Lutetia → Gare Saint-Lazare → La Défense');
+    expect(tripSummary(back)).toBe('La Défense → Gare Saint-Lazare → Hôtel Lutetia → Orly');
+    expect(back.pickup_lat).toBe(48.8918);
+    expect(tripLabel(back)).toBe('Retour · 2 arrêts');
+    expect(tripLabel({ ...outbound, stops: [] })).toBe('');
+  });
+});
+
+describe('attachReturnLegs', () => {
+  it('links each outbound to its return, listed or fetched separately', () => {
+    const ret = { ...outbound, id: 'ret-1', trip_leg: 'return' as const, outbound_booking_id: 'out-1', status: 'pending' };
+    expect(attachReturnLegs([outbound, ret])[0].return_leg).toMatchObject({ id: 'ret-1', status: 'pending' });
+    expect(attachReturnLegs([outbound], [ret])[0].return_leg?.id).toBe('ret-1');
+    expect(attachReturnLegs([ret])[0].return_leg).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests — CallingWindowService (Vitest)
+ *
+ * Plages d'appel par type de prospect, heure locale du numéro appelé,
+ * jours fériés, créneau de rappel demandé et espacement des relances.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/CallingWindowService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CALLING_POLICIES,
+  callingCategory,
+  nextCallingSlot,
+  noAnswerRetryAfter,
+  requestedCallbackSlot,
+  timezoneForNumber,
+} from '../CallingWindowService.js';
+
+const PARIS = 'Europe/Paris';
+
+describe('callingCategory / timezoneForNumber', () => {
+  it('maps place types and phone prefixes', () => {
+    expect(callingCategory('luxury_hotel')).toBe('hotel');
+    expect(callingCategory('wedding_venue')).toBe('event');
+    expect(callingCategory('private_bank')).toBe('corporate');
+    expect(callingCategory('Restaurant gastronomique')).toBe('restaurant');
+    expect(callingCategory(null)).toBe('default');
+
+    expect(timezoneForNumber('+33 6 12 34 56 78')).toBe(PARIS);
+    expect(timezoneForNumber('0612345678')).toBe(PARIS);
+    expect(timezoneForNumber('00352 621 123 456')).toBe('Europe/Luxembourg');
+    expect(timezoneForNumber('+262692123456')).toBe('Indian/Reunion');
+  });
+});
+
+describe('nextCallingSlot', () => {
+  it('skips restaurant service hours, weekends and holidays', () => {
+    // Lundi 19 octobre 2026, 12:30 à Paris → 15:00 (reprise après le service)
+    expect(nextCallingSlot(Date.parse('2026-10-19T10:30:00Z'), CALLING_POLICIES.restaurant, PARIS)).toBe(
+      '2026-10-19T13:00:00.000Z',
+    );
+    // Vendredi 19:00 → lundi 10:00
+    expect(nextCallingSlot(Date.parse('2026-10-23T17:00:00Z'), CALLING_POLICIES.restaurant, PARIS)).toBe(
+      '2026-10-26T09:00:00.000Z',
+    );
+    // Mardi 10 novembre 18:00 → jeudi 12 (le 11 novembre est férié), heure d'hiver
+    expect(
+      nextCallingSlot(Date.parse('2026-11-10T17:00:00Z'), CALLING_POLICIES.corporate, PARIS, new Set(['2026-11-11'])),
+    ).toBe('2026-11-12T08:00:00.000Z');
+  });
+
+  it('uses the local time of the called number', () => {
+    // 09:30 à Paris = 07:30 à La Réunion (UTC+4) → ouverture 09:00 locale
+    expect(nextCallingSlot(Date.parse('2026-10-19T07:30:00Z'), CALLING_POLICIES.default, 'Indian/Reunion')).toBe(
+      '2026-10-19T07:30:00.000Z',
+    );
+    expect(nextCallingSlot(Date.parse('2026-10-19T04:00:00Z'), CALLING_POLICIES.default, 'Indian/Reunion')).toBe(
+      '2026-10-19T05:00:00.000Z',
+    );
+  });
+});
+
+describe('requestedCallbackSlot', () => {
+  it('keeps the prospect hour within bounds, otherwise falls back to the policy', () => {
+    // Samedi 10:00 demandé par un restaurant : hors politique mais dans les bornes
+    expect(requestedCallbackSlot(Date.parse('2026-10-24T08:00:00Z'), CALLING_POLICIES.restaurant, PARIS)).toBe(
+      '2026-10-24T08:00:00.000Z',
+    );
+    // Dimanche → lundi 10:00
+    expect(requestedCallbackSlot(Date.parse('2026-10-25T09:00:00Z'), CALLING_POLICIES.restaurant, PARIS)).toBe(
+      '2026-10-26T09:00:00.000Z',
+    );
+  });
+});
+
+describe('noAnswerRetryAfter', () => {
+  it('spaces retries and gives up after the last one', () => {
+    const t = Date.parse('2026-10-19T08:00:00Z');
+    expect(noAnswerRetryAfter(t, 1)).toBe(t + 3 * 3600 * 1000);
+    expect(noAnswerRetryAfter(t, 3)).toBe(t + 72 * 3600 * 1000);
+    expect(noAnswerRetryAfter(t, 4)).toBeNull();
+  });
+});
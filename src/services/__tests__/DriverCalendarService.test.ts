@@ -0,0 +1,76 @@
+/**
+ * Unit tests — DriverCalendarService (Vitest)
+ *
+ * Évaluation d'un créneau (délai, horaires hebdomadaires, indisponibilités,
+ * chevauchement tampon compris) et liste des créneaux d'une journée.
+ * Logique pure : aucun appel Supabase.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/DriverCalendarService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateSlot, isWithinWorkingHours, listDaySlots } from '../DriverCalendarService.js';
+import type { DriverCalendar } from '../DriverCalendarService.js';
+
+// Maintenant : lundi 19/10/2026 08:00 à Paris (UTC+2) ; créneaux testés le mardi 20
+const NOW = Date.parse('2026-10-19T06:00:00Z');
+
+const calendar: DriverCalendar = {
+  settings: { buffer_min: 15, min_notice_min: 30 },
+  hours: [
+    { day_of_week: 2, start_time: '08:00', end_time: '12:00' },
+    // Mardi soir → mercredi 02:00
+    { day_of_week: 2, start_time: '20:00:00', end_time: '02:00:00' },
+  ],
+  blackouts: [],
+};
+
+describe('isWithinWorkingHours', () => {
+  it('requires the whole ride inside a weekly window, overnight included', () => {
+    expect(isWithinWorkingHours(calendar.hours, '2026-10-20T06:00:00Z', 60)).toBe(true); // 08:00
+    expect(isWithinWorkingHours(calendar.hours, '2026-10-20T09:30:00Z', 60)).toBe(false); // 11:30 → 12:30
+    expect(isWithinWorkingHours(calendar.hours, '2026-10-20T22:30:00Z', 60)).toBe(true); // mer. 00:30
+    expect(isWithinWorkingHours(calendar.hours, '2026-10-21T06:00:00Z', 60)).toBe(false); // mer. 08:00
+    expect(isWithinWorkingHours([], '2026-10-21T06:00:00Z', 60)).toBe(true);
+  });
+});
+
+describe('evaluateSlot', () => {
+  const booked = [
+    // 09:00 → 10:00 (+15 min tampon)
+    { id: 'b1', scheduled_at: '2026-10-20T07:00:00Z', estimated_duration_min: 60, blocked_until: null },
+  ];
+
+  it('rejects overlaps including the buffer on both sides', () => {
+    // 10:00 : colle à la fin de course, dans le tampon
+    expect(evaluateSlot(calendar, '2026-10-20T08:00:00Z', 30, booked, NOW)).toEqual({
+      ok: false,
+      reason: 'overlap',
+      conflictId: 'b1',
+    });
+    // 08:30 + 20 min + 15 tampon = 09:05 → touche la course de 09:00
+    expect(evaluateSlot(calendar, '2026-10-20T06:30:00Z', 20, booked, NOW)).toMatchObject({ reason: 'overlap' });
+    expect(evaluateSlot(calendar, '2026-10-20T08:15:00Z', 30, booked, NOW)).toEqual({
+      ok: true,
+      blockedUntil: '2026-10-20T09:00:00.000Z',
+    });
+  });
+
+  it('rejects short notice, blackouts and out-of-hours slots', () => {
+    expect(evaluateSlot(calendar, '2026-10-19T06:15:00Z', 30, [], NOW)).toMatchObject({ reason: 'too_soon' });
+    expect(evaluateSlot(calendar, '2026-10-20T12:00:00Z', 30, [], NOW)).toMatchObject({ reason: 'outside_hours' });
+    const off = { ...calendar, blackouts: [{ starts_at: '2026-10-20T00:00:00Z', ends_at: '2026-10-20T23:59:00Z' }] };
+    expect(evaluateSlot(off, '2026-10-20T06:00:00Z', 30, [], NOW)).toMatchObject({ reason: 'blackout' });
+  });
+});
+
+describe('listDaySlots', () => {
+  it('lists free 15-minute starts within the day windows', () => {
+    const slots = listDaySlots({ ...calendar, hours: [calendar.hours[0]] }, '2026-10-20', 60, [], NOW);
+    // 08:00 → 11:00 inclus (la course doit finir avant 12:00)
+    expect(slots[0]).toBe('2026-10-20T06:00:00.000Z');
+    expect(slots[slots.length - 1]).toBe('2026-10-20T09:00:00.000Z');
+    expect(slots).toHaveLength(13);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests — DriverPricingEngine (Vitest)
+ *
+ * Devis déterministe (computeQuote) : compteur + minimum, majorations
+ * nuit / dimanche / férié, forfaits, options, attente, arrêts, aller-retour, promo,
+ * et lecture des anciens formats driver_sites.pricing.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/DriverPricingEngine.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DriverTariffSchema,
+  computeQuote,
+  normalizeDriverTariff,
+  parisDateTimeToIso,
+} from '../DriverPricingEngine.js';
+
+const tariff = DriverTariffSchema.parse({
+  baseFare: 10,
+  perKm: 2,
+  perMinute: 0.5,
+  minimumFare: 20,
+  night: { percent: 20 },
+  sundayHoliday: { percent: 15 },
+  flatFares: [{ label: 'CDG', kind: 'airport', lat: 49.0097, lng: 2.5479, price: 55 }],
+  options: { extraLuggage: 5, childSeat: 8 },
+  waiting: { perMinute: 0.5 },
+  roundTripDiscountPercent: 10,
+});
+
+// Mardi 20/10/2026 12:00 Paris (UTC+2)
+const TUESDAY_NOON = '2026-10-20T10:00:00Z';
+const trip = { distanceKm: 10, durationMin: 20, scheduledAt: TUESDAY_NOON };
+
+describe('normalizeDriverTariff', () => {
+  it('reads the three legacy conventions and rejects empty pricing', () => {
+    expect(normalizeDriverTariff({ baseRate: 10, perKmRate: 1.8, minimumFare: 15 })).toMatchObject({
+      baseFare: 10,
+      perKm: 1.8,
+      minimumFare: 15,
+    });
+    expect(normalizeDriverTariff({ base_fare: 8, per_km: 2, per_minute: 0.4 })).toMatchObject({
+      baseFare: 8,
+      perKm: 2,
+      perMinute: 0.4,
+    });
+    expect(normalizeDriverTariff({ base: 9, km_rate: 1.5, minimum_fare: 12 })).toMatchObject({
+      baseFare: 9,
+      perKm: 1.5,
+      minimumFare: 12,
+    });
+    expect(normalizeDriverTariff({})).toBeNull();
+    expect(normalizeDriverTariff({ version: 2, baseFare: -1, perKm: 2 })).toBeNull();
+  });
+});
+
+describe('computeQuote', () => {
+  it('prices the meter with its minimum fare', () => {
+    expect(computeQuote(tariff, trip).total).toBe(40);
+    expect(computeQuote(tariff, { ...trip, distanceKm: 2, durationMin: 5 }).total).toBe(20);
+  });
+
+  it('applies the highest of night and Sunday/holiday surcharges, in Paris time', () => {
+    // 23:30 Paris
+    const night = computeQuote(tariff, { ...trip, scheduledAt: '2026-10-20T21:30:00Z' });
+    expect(night.surcharge).toMatchObject({ kind: 'night', percent: 20 });
+    expect(night.total).toBe(48);
+
+    // Dimanche 18/10 12:00 Paris
+    expect(computeQuote(tariff, { ...trip, scheduledAt: '2026-10-18T10:00:00Z' }).total).toBe(46);
+
+    const holidayNight = computeQuote(
+      tariff,
+      { ...trip, scheduledAt: '2026-11-11T22:30:00Z' },
+      { holiday: '11 novembre' },
+    );
+    expect(holidayNight.surcharge?.kind).toBe('night');
+  });
+
+  it('uses the flat fare when an endpoint is in its zone, without surcharge', () => {
+    const quote = computeQuote(tariff, {
+      ...trip,
+      distanceKm: 30,
+      scheduledAt: '2026-10-20T21:30:00Z',
+      pickup: { lat: 48.8566, lng: 2.3522 },
+      dropoff: { lat: 49.01, lng: 2.55 },
+    });
+    expect(quote.flatFare).toBe('CDG');
+    expect(quote.surcharge).toBeNull();
+    expect(quote.total).toBe(55);
+  });
+
+  it('adds round trip, options, waiting and promo', () => {
+    const quote = computeQuote(
+      tariff,
+      { ...trip, roundTrip: true, luggage: 4, childSeats: 1, waitingMin: 15 },
+      { promoPercent: 10 },
+    );
+    expect(quote.lines.map((l) => [l.code, l.amount])).toEqual([
+      ['ride', 40],
+      ['return_ride', 40],
+      ['round_trip_discount', -8],
+      ['extra_luggage', 10],
+      ['child_seat', 8],
+      ['waiting', 5],
+      ['promo', -9.5],
+    ]);
+    expect(quote.subtotal).toBe(95);
+    expect(quote.total).toBe(85.5);
+  });
+
+  it('prices stops per stop, skips flat fares and discounts a linked return leg', () => {
+    const quote = computeQuote(
+      { ...tariff, perStop: 7 },
+      {
+        ...trip,
+        pickup: { lat: 48.8566, lng: 2.3522 },
+        dropoff: { lat: 49.01, lng: 2.55 },
+        stops: [{ lat: 48.9, lng: 2.4 }, { lat: 48.95, lng: 2.45 }],
+      },
+      { linkedRoundTrip: true },
+    );
+    expect(quote.flatFare).toBeNull();
+    expect(quote.lines.map((l) => [l.code, l.amount])).toEqual([
+      ['ride', 40],
+      ['round_trip_discount', -4],
+      ['stops', 14],
+    ]);
+    expect(quote.total).toBe(50);
+  });
+});
+
+describe('parisDateTimeToIso', () => {
+  it('converts Paris wall time to UTC across DST', () => {
+    expect(parisDateTimeToIso('2026-10-20', '23:30')).toBe('2026-10-20T21:30:00.000Z');
+    expect(parisDateTimeToIso('2026-12-01', '08:00')).toBe('2026-12-01T07:00:00.000Z');
+  });
+});
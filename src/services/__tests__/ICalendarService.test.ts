@@ -0,0 +1,76 @@
+/**
+ * Unit tests — ICalendarService (Vitest)
+ *
+ * Événements de réservation (statut, séquence, échappement) et pliage RFC 5545.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/ICalendarService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildBookingEvent, buildCalendar, foldIcsLine } from '../ICalendarService.js';
+import type { IcsBooking } from '../ICalendarService.js';
+
+const booking: IcsBooking = {
+  id: 'b1',
+  status: 'pending',
+  scheduled_at: '2026-10-20T16:30:00Z',
+  estimated_duration_min: 45,
+  pickup_address: '10 rue de Rivoli, Paris',
+  pickup_lat: 48.8559,
+  pickup_lng: 2.3601,
+  dropoff_address: 'Aéroport CDG; Terminal 2',
+  client_name: 'Marie',
+  client_phone: '+33600000000',
+  client_note: 'Deux valises\nSiège enfant',
+  estimated_price: 62.5,
+  created_at: '2026-10-19T08:00:00Z',
+};
+
+const NOW = '2026-10-19T09:00:00Z';
+
+describe('buildBookingEvent', () => {
+  it('maps a pending driver booking to a tentative event with client details', () => {
+    const lines = buildBookingEvent(booking, { audience: 'driver', now: NOW });
+    expect(lines).toContain('UID:booking-b1@foreas.xyz');
+    expect(lines).toContain('DTSTART:20261020T163000Z');
+    expect(lines).toContain('DTEND:20261020T171500Z');
+    expect(lines).toContain('STATUS:TENTATIVE');
+    expect(lines).toContain('SEQUENCE:0');
+    expect(lines).toContain('GEO:48.8559;2.3601');
+    const description = lines.find((l) => l.startsWith('DESCRIPTION:'))!;
+    expect(description).toContain('Arrivée : Aéroport CDG\\; Terminal 2');
+    expect(description).toContain('Note : Deux valises\\nSiège enfant');
+  });
+
+  it('reflects confirmation and cancellation, and hides client details from the client', () => {
+    const confirmed = buildBookingEvent(
+      { ...booking, status: 'confirmed', confirmed_at: '2026-10-19T10:00:00Z' },
+      { audience: 'client', driverName: 'Karim', now: NOW },
+    );
+    expect(confirmed).toContain('STATUS:CONFIRMED');
+    expect(confirmed).toContain('SEQUENCE:1');
+    expect(confirmed.join('\n')).not.toContain('+33600000000');
+
+    const cancelled = buildBookingEvent(
+      { ...booking, status: 'cancelled', confirmed_at: '2026-10-19T10:00:00Z', cancelled_at: '2026-10-19T11:00:00Z' },
+      { audience: 'driver', now: NOW },
+    );
+    expect(cancelled).toContain('STATUS:CANCELLED');
+    expect(cancelled).toContain('SEQUENCE:2');
+    expect(cancelled).not.toContain('BEGIN:VALARM');
+  });
+});
+
+describe('buildCalendar', () => {
+  it('folds long lines at 75 octets with CRLF line endings', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+    for (const part of folded.split('\r\n')) expect(Buffer.byteLength(part, 'utf-8')).toBeLessThanOrEqual(75);
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+
+    const ics = buildCalendar([buildBookingEvent(booking, { audience: 'driver', now: NOW })], { name: 'Test', refreshMinutes: 15 });
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT15M');
+  });
+});
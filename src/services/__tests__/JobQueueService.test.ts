@@ -0,0 +1,36 @@
+/**
+ * Unit tests — JobQueueService (Vitest)
+ *
+ * Backoff exponentiel plafonné et passage en dead-letter.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/JobQueueService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PermanentJobError, failureTransition, retryDelayMs } from '../JobQueueService.js';
+
+describe('retryDelayMs', () => {
+  it('doubles from 30s and caps at 6h', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(retryDelayMs(30)).toBe(6 * 3600 * 1000);
+  });
+});
+
+describe('failureTransition', () => {
+  const NOW = Date.parse('2026-10-19T10:00:00Z');
+
+  it('reschedules while attempts remain', () => {
+    expect(failureTransition({ attempts: 2, max_attempts: 5 }, new Error('boom'), NOW)).toEqual({
+      status: 'pending',
+      run_at: '2026-10-19T10:01:00.000Z',
+    });
+  });
+
+  it('dead-letters after the last attempt or on a permanent error', () => {
+    expect(failureTransition({ attempts: 5, max_attempts: 5 }, new Error('boom'), NOW)).toEqual({ status: 'dead' });
+    expect(failureTransition({ attempts: 1, max_attempts: 5 }, new PermanentJobError('bad'), NOW)).toEqual({
+      status: 'dead',
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests — Private Hunter matching (Vitest)
+ *
+ * Classement des lieux candidats, transitions de statut des correspondances
+ * et statut de demande déduit. Logique pure : aucun appel Supabase.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/PrivateHunterService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canTransitionMatch,
+  deriveRequestStatus,
+  rankHuntCandidates,
+} from '../PrivateHunterService.js';
+import type { PlaceDirectory } from '../../types/clientFinder.js';
+
+function place(id: string, overrides: Partial<PlaceDirectory> = {}): PlaceDirectory {
+  return {
+    id,
+    google_place_id: `g-${id}`,
+    name: `Place ${id}`,
+    place_type: 'hotel',
+    place_type_family: 'HOSPITALITY',
+    address: null,
+    city: 'paris',
+    lat: 48.8566,
+    lng: 2.3522,
+    contact_email: null,
+    contact_name: null,
+    contact_title: null,
+    enrichment_source: 'GOOGLE_PLACES',
+    enriched_at: null,
+    quality_score: 80,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const request = { target_place_types: [], center_lat: 48.8566, center_lng: 2.3522, radius_km: 5 };
+
+describe('rankHuntCandidates', () => {
+  it('drops places outside the radius or of another type', () => {
+    const ranked = rankHuntCandidates({ ...request, target_place_types: ['hotel'] }, [
+      place('near'),
+      place('far', { lat: 48.95, lng: 2.6 }), // ~20 km
+      place('spa', { place_type: 'spa' }),
+    ]);
+
+    expect(ranked.map((c) => c.place_directory_id)).toEqual(['near']);
+    expect(ranked[0].distance_km).toBe(0);
+  });
+
+  it('boosts warm ClientFinder prospects and tags their source', () => {
+    const ranked = rankHuntCandidates(
+      request,
+      [place('cold', { quality_score: 90 }), place('warm', { quality_score: 70 })],
+      [{ id: 'log-1', place_directory_id: 'warm', status: 'REPLIED' }],
+    );
+
+    expect(ranked[0]).toMatchObject({ place_directory_id: 'warm', source: 'client_finder', hunter_log_id: 'log-1' });
+    expect(ranked[1]).toMatchObject({ place_directory_id: 'cold', source: 'places_directory', hunter_log_id: null });
+  });
+
+  it('gives half proximity points when distance is unknown', () => {
+    const [unknown] = rankHuntCandidates(request, [place('x', { lat: null, lng: null, quality_score: 60 })]);
+    expect(unknown).toMatchObject({ distance_km: null, score: 45 });
+  });
+});
+
+describe('status lifecycle', () => {
+  it('only allows forward transitions up to confirmed', () => {
+    expect(canTransitionMatch('new', 'surfaced')).toBe(true);
+    expect(canTransitionMatch('accepted', 'booked')).toBe(true);
+    expect(canTransitionMatch('booked', 'confirmed')).toBe(true);
+    expect(canTransitionMatch('new', 'confirmed')).toBe(false);
+    expect(canTransitionMatch('confirmed', 'declined')).toBe(false);
+  });
+
+  it('derives the request status from its most advanced match', () => {
+    expect(deriveRequestStatus([])).toBe('no_match');
+    expect(deriveRequestStatus(['declined'])).toBe('no_match');
+    expect(deriveRequestStatus(['new', 'declined'])).toBe('matched');
+    expect(deriveRequestStatus(['booked', 'contacted'])).toBe('booked');
+    expect(deriveRequestStatus(['confirmed', 'declined'])).toBe('confirmed');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests — ReviewService (Vitest)
+ *
+ * Jeton d'avis lié à la réservation, fenêtre du lien post-course, retenue
+ * des notes basses sans commentaire et note bayésienne du site.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/ReviewService.test.ts
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  ratingOnlyStatus,
+  reviewLinkOpen,
+  signReviewToken,
+  summarizeRatings,
+  verifyReviewToken,
+} from '../ReviewService.js';
+import { signPortalToken } from '../BookingPortalService.js';
+
+const BOOKING_ID = '3f2b8c1e-9a4d-4e2f-8b7a-1c2d3e4f5a6b';
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+const daysAgo = (d: number) => new Date(NOW - d * 86400 * 1000).toISOString();
+
+beforeAll(() => {
+  process.env.BOOKING_PORTAL_SECRET = 'test-portal-secret';
+});
+
+describe('review token', () => {
+  it('round-trips and is not interchangeable with the portal token', () => {
+    const token = signReviewToken(BOOKING_ID);
+    expect(verifyReviewToken(token)).toBe(BOOKING_ID);
+    expect(verifyReviewToken(signPortalToken(BOOKING_ID, NOW))).toBeNull();
+    expect(verifyReviewToken(token.replace(BOOKING_ID, '3f2b8c1e-9a4d-4e2f-8b7a-1c2d3e4f5a6c'))).toBeNull();
+  });
+});
+
+describe('reviewLinkOpen', () => {
+  const ride = { status: 'completed', scheduled_at: daysAgo(2), notifications: { review_requested_at: daysAgo(2) } };
+
+  it('requires a past ride and a review request younger than 30 days', () => {
+    expect(reviewLinkOpen(ride, NOW)).toBe(true);
+    expect(reviewLinkOpen({ ...ride, status: 'cancelled' }, NOW)).toBe(false);
+    expect(reviewLinkOpen({ ...ride, scheduled_at: daysAgo(-1) }, NOW)).toBe(false);
+    expect(reviewLinkOpen({ ...ride, notifications: {} }, NOW)).toBe(false);
+    expect(reviewLinkOpen({ ...ride, notifications: { review_requested_at: daysAgo(31) } }, NOW)).toBe(false);
+  });
+});
+
+describe('ratingOnlyStatus', () => {
+  it('holds low ratings without comment and publishes the others', () => {
+    expect(ratingOnlyStatus(1)).toBe('pending');
+    expect(ratingOnlyStatus(2)).toBe('pending');
+    expect(ratingOnlyStatus(3)).toBe('approved');
+    expect(ratingOnlyStatus(5)).toBe('approved');
+  });
+});
+
+describe('summarizeRatings', () => {
+  const prior = { mean: 4.5, weight: 5 };
+
+  it('pulls few reviews towards the prior and converges with volume', () => {
+    expect(summarizeRatings([], prior)).toEqual({ count: 0, average: null, rating: 0 });
+    expect(summarizeRatings([5, 5], prior)).toEqual({ count: 2, average: 5, rating: 4.6 });
+    expect(summarizeRatings([1], prior).rating).toBe(3.9);
+    expect(summarizeRatings(Array(95).fill(3), prior).rating).toBe(3.1);
+  });
+});
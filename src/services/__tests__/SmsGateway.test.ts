@@ -0,0 +1,73 @@
+/**
+ * Unit tests — SmsGateway (Vitest)
+ *
+ * Routage par préfixe pays, surcharge SMS_ROUTES, accusés de réception
+ * normalisés, non-régression des statuts et signatures des webhooks.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/SmsGateway.test.ts
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { parseSmsRoutes, routeForPhone, shouldApplyStatus } from '../SmsGateway.js';
+import { MessageBirdProvider, TwilioProvider } from '../smsProviders/index.js';
+
+describe('routeForPhone', () => {
+  it('routes by E.164 country prefix with a default fallback', () => {
+    const routes = parseSmsRoutes(undefined);
+    expect(routeForPhone('+33612345678', routes)).toEqual(['bird', 'messagebird', 'twilio']);
+    expect(routeForPhone('+447700900123', routes)).toEqual(['twilio', 'messagebird']);
+  });
+
+  it('applies SMS_ROUTES overrides and drops unknown providers', () => {
+    const routes = parseSmsRoutes('fr=twilio, bird;default=messagebird,carrier-pigeon');
+    expect(routeForPhone('+33612345678', routes)).toEqual(['twilio', 'bird']);
+    expect(routeForPhone('+15555550100', routes)).toEqual(['messagebird']);
+    expect(routeForPhone('+32470123456', routes)).toEqual(['bird', 'messagebird', 'twilio']);
+  });
+});
+
+describe('delivery receipts', () => {
+  it('normalizes provider statuses', () => {
+    expect(TwilioProvider.parseReceipt!({ MessageSid: 'SM1', MessageStatus: 'undelivered', ErrorCode: '30003' })).toEqual({
+      providerMessageId: 'SM1',
+      status: 'undelivered',
+      error: 'Twilio error 30003',
+    });
+    expect(MessageBirdProvider.parseReceipt!({ id: 'mb1', status: 'delivered' })).toMatchObject({
+      providerMessageId: 'mb1',
+      status: 'delivered',
+    });
+    expect(TwilioProvider.parseReceipt!({ MessageSid: 'SM1', MessageStatus: 'read' })).toBeNull();
+  });
+
+  it('never moves a message back to an earlier status', () => {
+    expect(shouldApplyStatus('sent', 'delivered')).toBe(true);
+    expect(shouldApplyStatus('delivered', 'sent')).toBe(false);
+    expect(shouldApplyStatus('queued', 'failed')).toBe(true);
+  });
+});
+
+describe('receipt signatures', () => {
+  const twilioRequest = (signature: string) => ({
+    url: 'https://mycompany.com/myapp.php?foo=1&bar=2',
+    headers: { 'x-twilio-signature': signature },
+    rawBody: '',
+    params: { CallSid: 'CA1234567890ABCDE', Caller: '+12349013030', Digits: '1234', From: '+12349013030', To: '+18005551212' },
+  });
+
+  afterEach(() => {
+    delete process.env.TWILIO_AUTH_TOKEN;
+  });
+
+  it('checks X-Twilio-Signature over the URL and sorted params', () => {
+    process.env.TWILIO_AUTH_TOKEN = '12345';
+    expect(TwilioProvider.verifyReceipt!(twilioRequest('0/KCTR6DLpKmkAf8muzZqo1nDgQ='))).toBe(true);
+    expect(TwilioProvider.verifyReceipt!(twilioRequest('AAAAAAAAAAAAAAAAAAAAAAAAAAA='))).toBe(false);
+    expect(TwilioProvider.verifyReceipt!(twilioRequest(''))).toBe(false);
+  });
+
+  it('reports a missing signing secret as unchecked', () => {
+    expect(TwilioProvider.verifyReceipt!(twilioRequest('0/KCTR6DLpKmkAf8muzZqo1nDgQ='))).toBeNull();
+  });
+});
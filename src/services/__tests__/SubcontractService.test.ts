@@ -0,0 +1,72 @@
+/**
+ * Unit tests — SubcontractService (Vitest)
+ *
+ * Commission d'apporteur, fenêtre de l'offre, règlement net de l'acompte et
+ * compatibilité des véhicules.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/SubcontractService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canDebitAccount,
+  computeFinderFee,
+  finderFeePercent,
+  offerExpiresAt,
+  settlementTransfer,
+  subcontractJobKey,
+} from '../SubcontractService.js';
+import { vehicleCanServe } from '../VehiclePlaceMatchingService.js';
+
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+const inMinutes = (m: number) => new Date(NOW + m * 60 * 1000).toISOString();
+
+describe('finder fee', () => {
+  it('defaults from the environment and stays within bounds', () => {
+    expect(finderFeePercent(undefined, undefined)).toBe(10);
+    expect(finderFeePercent(undefined, '15')).toBe(15);
+    expect(finderFeePercent(45, '15')).toBe(30);
+    expect(finderFeePercent(-5)).toBe(0);
+    expect(computeFinderFee(62.5, 10)).toBe(6.25);
+  });
+});
+
+describe('offerExpiresAt', () => {
+  it('closes after 2h and never later than 30 min before pickup', () => {
+    expect(offerExpiresAt(inMinutes(24 * 60), NOW)).toBe(inMinutes(120));
+    expect(offerExpiresAt(inMinutes(90), NOW)).toBe(inMinutes(60));
+    expect(offerExpiresAt(inMinutes(32), NOW)).toBeNull();
+  });
+});
+
+describe('settlementTransfer', () => {
+  it('nets the finder fee against the deposit held by the originator', () => {
+    expect(settlementTransfer(6, 0)).toEqual({ payer: 'subcontractor', amount: 6 });
+    expect(settlementTransfer(6, 20)).toEqual({ payer: 'originator', amount: 14 });
+    expect(settlementTransfer(6, 6)).toBeNull();
+  });
+});
+
+describe('settlement jobs and funds', () => {
+  it('keys jobs under the booking prefix with the slot revision', () => {
+    expect(subcontractJobKey({ id: 'b1' }, 'o1', 'settle')).toBe('booking:b1:subcontract:o1:settle');
+    expect(subcontractJobKey({ id: 'b1', reschedule_count: 2 }, 'o1', 'settle')).toBe('booking:b1:r2:subcontract:o1:settle');
+  });
+
+  it('debits only Express / Custom accounts with active transfers', () => {
+    expect(canDebitAccount({ type: 'express', capabilities: { transfers: 'active' } })).toBe(true);
+    expect(canDebitAccount({ type: 'standard', capabilities: { transfers: 'active' } })).toBe(false);
+    expect(canDebitAccount({ type: 'express', capabilities: { transfers: 'inactive' } })).toBe(false);
+    expect(canDebitAccount({ type: 'custom', capabilities: null })).toBe(false);
+  });
+});
+
+describe('vehicleCanServe', () => {
+  it('only accepts the booked category or an upgrade', () => {
+    expect(vehicleCanServe('BERLINE_T3', 'VTC_STANDARD')).toBe(true);
+    expect(vehicleCanServe('VTC_STANDARD', 'BERLINE_T3')).toBe(false);
+    expect(vehicleCanServe(null, null)).toBe(true);
+    expect(vehicleCanServe('TAXI', 'VTC_STANDARD')).toBe(false);
+  });
+});
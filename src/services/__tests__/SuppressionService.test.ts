@@ -0,0 +1,72 @@
+/**
+ * Unit tests — SuppressionService (Vitest)
+ *
+ * Normalisation des cibles, lecture des fichiers d'opposition Bloctel,
+ * choix du motif de refus et détection des réponses STOP.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/SuppressionService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isStopMessage,
+  normalizeEmailTarget,
+  normalizePhoneTarget,
+  parseOppositionFile,
+  pickBlockingSuppression,
+  replaceRejection,
+} from '../SuppressionService.js';
+
+describe('normalizePhoneTarget', () => {
+  it('maps national, international and prefix-only formats to E.164', () => {
+    expect(normalizePhoneTarget('06 12 34 56 78')).toBe('+33612345678');
+    expect(normalizePhoneTarget('0033 6 12 34 56 78')).toBe('+33612345678');
+    expect(normalizePhoneTarget('+33 (0)6 12 34 56 78')).toBe('+33612345678');
+    expect(normalizePhoneTarget('33612345678')).toBe('+33612345678');
+    expect(normalizePhoneTarget('+32 470 12 34 56')).toBe('+32470123456');
+    expect(normalizePhoneTarget('612345678')).toBeNull();
+    expect(normalizePhoneTarget('+3361234')).toBeNull();
+    expect(normalizeEmailTarget('  Contact@Hotel.FR ')).toBe('contact@hotel.fr');
+    expect(normalizeEmailTarget('pas-un-email')).toBeNull();
+  });
+});
+
+describe('parseOppositionFile', () => {
+  it('reads CSV or one-number-per-line files, skipping headers and duplicates', () => {
+    const parsed = parseOppositionFile(
+      '\uFEFFnumero;date_inscription\r\n0612345678;2025-03-01\r\n"33698765432";2024-11-20\n\n06 12 34 56 78\n123456;2025-01-01\n',
+    );
+    expect(parsed.numbers).toEqual(['+33612345678', '+33698765432']);
+    expect(parsed.totalLines).toBe(4);
+    expect(parsed.invalid).toBe(1);
+  });
+});
+
+describe('replaceRejection', () => {
+  it('refuses to replace the list with an empty or badly parsed file', () => {
+    expect(replaceRejection(parseOppositionFile('numero;date_inscription\n'))).toMatch('no valid number');
+    expect(replaceRejection(parseOppositionFile('0612345678\n123456\n1234567\n'))).toMatch('67% invalid');
+    expect(replaceRejection(parseOppositionFile('0612345678\n0698765432\n'))).toBeNull();
+  });
+});
+
+describe('pickBlockingSuppression', () => {
+  const entries = [{ source: 'bloctel' as const }, { source: 'link' as const }];
+
+  it('keeps the strongest reason and ignores Bloctel outside prospecting', () => {
+    expect(pickBlockingSuppression(entries, true)).toEqual({ source: 'link' });
+    expect(pickBlockingSuppression([{ source: 'bloctel' as const }], true)).toEqual({ source: 'bloctel' });
+    expect(pickBlockingSuppression([{ source: 'bloctel' as const }], false)).toBeNull();
+  });
+});
+
+describe('isStopMessage', () => {
+  it('recognizes unsubscribe replies only', () => {
+    expect(isStopMessage('STOP')).toBe(true);
+    expect(isStopMessage(' Arrêt ')).toBe(true);
+    expect(isStopMessage('Stop !')).toBe(true);
+    expect(isStopMessage('Stop, rappelez-moi plutôt demain')).toBe(false);
+    expect(isStopMessage(undefined)).toBe(false);
+  });
+});
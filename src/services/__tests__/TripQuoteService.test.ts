@@ -0,0 +1,64 @@
+/**
+ * Unit tests — TripQuoteService (Vitest)
+ *
+ * Itinéraire calculé côté serveur : chaîne de fournisseurs, repli haversine
+ * sans réseau, facteur de trafic horaire, coordonnées confrontées à l'adresse.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/TripQuoteService.test.ts
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { applyTraffic, estimateTripRoute, pickAddressPoint, routingChain } from '../TripQuoteService.js';
+import { typicalTrafficFactor } from '../realtimeAdapters/TomTomTrafficAdapter.js';
+
+const OPERA = { lat: 48.8719, lng: 2.3316 };
+const LA_DEFENSE = { lat: 48.8918, lng: 2.2362 };
+
+beforeAll(() => {
+  // Aucun fournisseur réseau : repli haversine, profil horaire
+  delete process.env.MAPBOX_ACCESS_TOKEN;
+  delete process.env.OSRM_URL;
+  delete process.env.TOMTOM_API_KEY;
+});
+
+describe('routingChain', () => {
+  it('keeps known providers in the configured order', () => {
+    expect(routingChain('osrm, mapbox,osrm,google').map((p) => p.name)).toEqual(['osrm', 'mapbox']);
+    expect(routingChain(undefined).map((p) => p.name)).toEqual(['mapbox', 'osrm']);
+  });
+});
+
+describe('pickAddressPoint', () => {
+  it('keeps browser coordinates only near the geocoded address', () => {
+    const nearOpera = { lat: 48.8725, lng: 2.3325 };
+    expect(pickAddressPoint(nearOpera, OPERA)).toBe(nearOpera);
+    expect(pickAddressPoint(LA_DEFENSE, OPERA)).toBe(OPERA);
+    expect(pickAddressPoint(null, OPERA)).toBe(OPERA);
+  });
+});
+
+describe('traffic', () => {
+  it('follows the weekday rush hours and stays free-flow at night', () => {
+    expect(typicalTrafficFactor(2, 8 * 60)).toBe(1.5);
+    expect(typicalTrafficFactor(2, 18 * 60)).toBe(1.55);
+    expect(typicalTrafficFactor(2, 3 * 60)).toBe(1);
+    expect(typicalTrafficFactor(0, 8 * 60)).toBe(1);
+    expect(applyTraffic(20, 1.5)).toBe(30);
+    expect(applyTraffic(0, 1.5)).toBe(1);
+  });
+});
+
+describe('estimateTripRoute', () => {
+  it('falls back to haversine and applies the time-of-day factor', async () => {
+    // Mardi 08:30 à Paris (UTC+2 en octobre)
+    const rush = await estimateTripRoute([OPERA, LA_DEFENSE], '2026-10-20T06:30:00Z', Date.parse('2026-10-19T10:00:00Z'));
+    expect(rush.provider).toBe('haversine');
+    expect(rush.traffic).toEqual({ factor: 1.5, source: 'time_of_day' });
+    expect(rush.distanceKm).toBeCloseTo(9.8, 0);
+
+    const night = await estimateTripRoute([OPERA, LA_DEFENSE], '2026-10-20T01:00:00Z', Date.parse('2026-10-19T10:00:00Z'));
+    expect(night.distanceKm).toBe(rush.distanceKm);
+    expect(night.durationMin).toBeLessThan(rush.durationMin);
+  });
+});
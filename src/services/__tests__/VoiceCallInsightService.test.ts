@@ -0,0 +1,123 @@
+/**
+ * Unit tests — VoiceCallInsightService (Vitest)
+ *
+ * Normalisation des insights extraits d'un transcript, funnel d'appels
+ * du dashboard Pieuvre et annonce d'enregistrement des scripts tirés.
+ *
+ * Exécution :
+ *   npx vitest run src/services/__tests__/VoiceCallInsightService.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildVoiceFunnel, parseCallInsights, transcriptText } from '../VoiceCallInsightService.js';
+import { RECORDING_NOTICE, withRecordingNotice } from '../ElevenLabsCallService.js';
+
+// Lundi 19 octobre 2026, 11:00 à Paris (UTC+2)
+const CALLED_AT = '2026-10-19T09:00:00Z';
+
+describe('parseCallInsights', () => {
+  it('normalizes categories, callback time and compliance issues', () => {
+    const insights = parseCallInsights(
+      {
+        objections: [
+          { category: 'OBJECTION_PRICE', excerpt: 'Uber est moins cher', resolved: true },
+          { category: 'OBJECTION_PRICE', excerpt: 'Toujours trop cher', resolved: false },
+          { category: 'WEATHER', excerpt: '?', resolved: true },
+        ],
+        interest_level: 'medium',
+        callback_local: '2026-10-22T14:30',
+        callback_note: 'jeudi après-midi',
+        decision_maker: { reached: true, role: 'Chef concierge' },
+        compliance_issues: ['NO_RECORDING_NOTICE', 'MADE_UP', 'NO_RECORDING_NOTICE'],
+      },
+      CALLED_AT,
+    );
+
+    expect(insights.objections).toEqual([
+      { category: 'OBJECTION_PRICE', excerpt: 'Uber est moins cher', resolved: false },
+      { category: 'OBJECTION_OTHER', excerpt: '?', resolved: true },
+    ]);
+    expect(insights.interest_level).toBe('medium');
+    expect(insights.callback_at).toBe('2026-10-22T12:30:00.000Z');
+    expect(insights.decision_maker).toEqual({ reached: true, role: 'Chef concierge' });
+    expect(insights.compliance_issues).toEqual(['NO_RECORDING_NOTICE']);
+  });
+
+  it('drops callbacks in the past or after a do-not-call request', () => {
+    expect(parseCallInsights({ callback_local: '2026-10-18T10:00' }, CALLED_AT).callback_at).toBeNull();
+    expect(
+      parseCallInsights(
+        { callback_local: '2026-10-22T10:00', compliance_issues: ['DO_NOT_CALL_REQUESTED'] },
+        CALLED_AT,
+      ).callback_at,
+    ).toBeNull();
+    expect(parseCallInsights({}, CALLED_AT)).toMatchObject({ interest_level: 'none', objections: [] });
+  });
+});
+
+describe('transcriptText', () => {
+  it('flattens ElevenLabs turns', () => {
+    const text = transcriptText({
+      transcript: [
+        { role: 'agent', message: 'Bonjour, ici Ajnaya.' },
+        { role: 'user', message: null },
+        { role: 'user', message: ' Oui bonjour ' },
+      ],
+    });
+    expect(text).toBe('Ajnaya: Bonjour, ici Ajnaya.\nProspect: Oui bonjour');
+  });
+});
+
+describe('buildVoiceFunnel', () => {
+  const call = (over: Record<string, any>) => ({
+    id: Math.random().toString(36),
+    status: 'COMPLETED',
+    outcome: 'DECLINED',
+    interest_level: 'none' as const,
+    decision_maker_reached: false,
+    callback_at: null,
+    compliance_issues: [],
+    script_variant_id: 's1',
+    cost_estimate_eur: '0.28',
+    ...over,
+  });
+
+  it('counts cumulative stages, objections and per-script results', () => {
+    const funnel = buildVoiceFunnel(
+      [
+        call({ outcome: 'UNREACHABLE' }),
+        call({}),
+        call({ decision_maker_reached: true, interest_level: 'medium', callback_at: '2026-10-22T12:30:00Z' }),
+        call({ status: 'TRANSFERRED', decision_maker_reached: true, script_variant_id: 's2' }),
+      ],
+      [
+        { category: 'OBJECTION_PRICE', resolved: true },
+        { category: 'OBJECTION_PRICE', resolved: false },
+        { category: 'OBJECTION_NOT_NOW', resolved: false },
+      ],
+    );
+
+    expect(funnel.stages).toEqual({ calls: 4, connected: 3, decisionMaker: 2, interested: 2, converted: 1 });
+    expect(funnel.callbacksScheduled).toBe(1);
+    expect(funnel.costEur).toBe(1.12);
+    expect(funnel.objections[0]).toEqual({ category: 'OBJECTION_PRICE', count: 2, resolved: 1 });
+    expect(funnel.scripts).toEqual([
+      { scriptId: 's1', calls: 2, converted: 0 },
+      { scriptId: 's2', calls: 1, converted: 1 },
+    ]);
+  });
+});
+
+describe('withRecordingNotice', () => {
+  it('keeps a first message that announces the recording', () => {
+    const msg = 'Bonjour, ici Ajnaya. Cet appel est enregistré. Deux minutes ?';
+    expect(withRecordingNotice(msg)).toBe(msg);
+  });
+
+  it('inserts the notice after the greeting otherwise', () => {
+    expect(withRecordingNotice('Bonjour, ici Ajnaya du réseau FOREAS. Avez-vous deux minutes ?')).toBe(
+      `Bonjour, ici Ajnaya du réseau FOREAS. ${RECORDING_NOTICE} Avez-vous deux minutes ?`,
+    );
+    expect(withRecordingNotice('Bonjour')).toBe(`Bonjour ${RECORDING_NOTICE}`);
+  });
+});
@@ -75,6 +75,52 @@ export async function getCalendarContext(): Promise<string> {
   }
 }
 
+// Jours fériés par année (tarification : majoration dimanche / férié)
+const joursFeriesByYear = new Map<number, { data: JoursFeriesResponse; expires: number }>();
+
+/**
+ * Nom du jour férié (métropole) pour une date YYYY-MM-DD, ou null.
+ * Utilisé par le moteur de tarifs chauffeur (DriverPricingEngine) ;
+ * API indisponible → null (pas de majoration plutôt qu'un refus de devis).
+ */
+export async function getJourFerie(dateStr: string): Promise<string | null> {
+  const data = await getJoursFeries(Number(dateStr.slice(0, 4)));
+  return data?.[dateStr] || null;
+}
+
+/**
+ * Jours fériés (métropole) d'une année, { "YYYY-MM-DD": nom }.
+ * API indisponible → null. Utilisé aussi par les plages d'appel (CallingWindowService).
+ */
+export async function getJoursFeries(year: number): Promise<JoursFeriesResponse | null> {
+  const cached = joursFeriesByYear.get(year);
+  if (cached && Date.now() < cached.expires) {
+    return cached.data;
+  }
+
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 3000);
+    const res = await fetch(`https://calendrier.api.gouv.fr/jours-feries/metropole/${year}.json`, {
+      signal: controller.signal,
+    });
+    clearTimeout(timeout);
+
+    if (!res.ok) {
+      console.warn(`[FrenchCalendarAdapter] HTTP ${res.status}`);
+      return null;
+    }
+
+    const data: JoursFeriesResponse = await res.json();
+    joursFeriesByYear.set(year, { data, expires: Date.now() + CACHE_TTL });
+    return data;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn('[FrenchCalendarAdapter] API jours fériés:', message);
+    return null;
+  }
+}
+
 async function fetchJourFerie(year: number, todayStr: string): Promise<string | null> {
   try {
     const url = `https://calendrier.api.gouv.fr/jours-feries/metropole/${year}.json`;
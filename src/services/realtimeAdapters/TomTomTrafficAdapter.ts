@@ -4,6 +4,10 @@
  * API : TomTom Traffic Flow (2 500 req/jour gratuit)
  * Latence : ~200-400ms
  * Tokens ajoutés : ~30-50 tokens
+ *
+ * Sert aussi le devis des réservations (TripQuoteService) : facteur de trafic
+ * = durée réelle / durée fluide, mesuré en direct (getLiveTrafficFactor) ou
+ * profil horaire type Île-de-France (typicalTrafficFactor) sans réseau.
  */
 
 // Cache simple en mémoire (3 min)
@@ -13,6 +17,10 @@ const CACHE_TTL = 3 * 60 * 1000; // 3 minutes
 const DEFAULT_LAT = 48.8566;
 const DEFAULT_LNG = 2.3522;
 
+// Facteurs mesurés, par point arrondi (~100 m), même TTL que le contexte
+const factorCache = new Map<string, { factor: number; expires: number }>();
+const MAX_FACTOR = 2.5;
+
 interface TomTomFlowResponse {
   flowSegmentData: {
     frc: string;
@@ -49,20 +57,8 @@ export async function getTrafficContext(lat?: number, lng?: number): Promise<str
     const useLat = lat ?? DEFAULT_LAT;
     const useLng = lng ?? DEFAULT_LNG;
 
-    const url = `https://api.tomtom.com/traffic/services/4/flowSegmentData/absolute/10/json?point=${useLat},${useLng}&key=${apiKey}&unit=KMPH`;
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 4000);
-
-    const res = await fetch(url, { signal: controller.signal });
-    clearTimeout(timeout);
-
-    if (!res.ok) {
-      console.warn(`[TomTomTrafficAdapter] HTTP ${res.status}`);
-      return '';
-    }
-
-    const data: TomTomFlowResponse = await res.json();
+    const data = await fetchFlowSegment(useLat, useLng, apiKey);
+    if (!data) return '';
     const context = formatTrafficContext(data);
 
     // Cache
@@ -77,6 +73,69 @@ export async function getTrafficContext(lat?: number, lng?: number): Promise<str
   }
 }
 
+async function fetchFlowSegment(lat: number, lng: number, apiKey: string): Promise<TomTomFlowResponse | null> {
+  const url = `https://api.tomtom.com/traffic/services/4/flowSegmentData/absolute/10/json?point=${lat},${lng}&key=${apiKey}&unit=KMPH`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 4000);
+
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) {
+      console.warn(`[TomTomTrafficAdapter] HTTP ${res.status}`);
+      return null;
+    }
+    return (await res.json()) as TomTomFlowResponse;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Facteur de trafic mesuré maintenant autour du point (1 = fluide, plafonné à 2.5).
+ * null sans clé, en cas d'erreur ou de route fermée — l'appelant retombe sur le profil horaire.
+ */
+export async function getLiveTrafficFactor(lat: number, lng: number): Promise<number | null> {
+  const apiKey = process.env.TOMTOM_API_KEY;
+  if (!apiKey) return null;
+
+  const key = `${lat.toFixed(3)},${lng.toFixed(3)}`;
+  const cached = factorCache.get(key);
+  if (cached && Date.now() < cached.expires) return cached.factor;
+
+  try {
+    const data = await fetchFlowSegment(lat, lng, apiKey);
+    const flow = data?.flowSegmentData;
+    if (!flow || flow.roadClosure || !(flow.freeFlowTravelTime > 0)) return null;
+
+    const factor = Math.min(Math.max(flow.currentTravelTime / flow.freeFlowTravelTime, 1), MAX_FACTOR);
+    if (factorCache.size > 500) factorCache.clear();
+    factorCache.set(key, { factor, expires: Date.now() + CACHE_TTL });
+    return factor;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn('[TomTomTrafficAdapter] Erreur facteur:', message);
+    return null;
+  }
+}
+
+/**
+ * Profil horaire type (heure locale) : durée réelle / durée fluide.
+ * weekday 0 = dimanche, minutes depuis minuit.
+ *   semaine  07:00-10:00 1.5 · 10:00-16:30 1.25 · 16:30-19:30 1.55 · 19:30-22:00 1.15
+ *            06:00-07:00 1.15 · nuit 1.0
+ *   week-end 11:00-20:00 1.2 · sinon 1.0
+ */
+export function typicalTrafficFactor(weekday: number, minutes: number): number {
+  const h = minutes / 60;
+  if (weekday === 0 || weekday === 6) return h >= 11 && h < 20 ? 1.2 : 1.0;
+  if (h >= 7 && h < 10) return 1.5;
+  if (h >= 10 && h < 16.5) return 1.25;
+  if (h >= 16.5 && h < 19.5) return 1.55;
+  if ((h >= 19.5 && h < 22) || (h >= 6 && h < 7)) return 1.15;
+  return 1.0;
+}
+
 function formatTrafficContext(data: TomTomFlowResponse): string {
   const flow = data.flowSegmentData;
 
@@ -17,7 +17,7 @@
 export { getWeatherContext } from './WeatherAdapter';
 export { getTrainContext } from './SNCFAdapter';
 export { getEventsContext } from './PredictHQAdapter';
-export { getTrafficContext } from './TomTomTrafficAdapter';
+export { getTrafficContext, getLiveTrafficFactor, typicalTrafficFactor } from './TomTomTrafficAdapter';
 export { getTransportContext } from './IDFMAdapter';
-export { getCalendarContext } from './FrenchCalendarAdapter';
+export { getCalendarContext, getJourFerie } from './FrenchCalendarAdapter';
 export { getSocialContext } from './XTwitterAdapter';
@@ -0,0 +1,24 @@
+/**
+ * Repli sans réseau — vol d'oiseau × facteur route, vitesse fluide moyenne.
+ * La vitesse (40 km/h) est celle d'un trajet sans trafic : le facteur horaire
+ * de TripQuoteService ramène la moyenne journée vers ~30 km/h.
+ */
+import { haversineKm } from '../DriverPricingEngine.js';
+import type { GeoPoint } from '../DriverPricingEngine.js';
+import type { RouteEstimate, RoutingProvider } from './types.js';
+
+const ROAD_FACTOR = 1.3;
+const FREE_FLOW_SPEED_KMH = 40;
+
+export const HaversineProvider: RoutingProvider = {
+  name: 'haversine',
+
+  isConfigured() {
+    return true;
+  },
+
+  async route(pickup: GeoPoint, dropoff: GeoPoint): Promise<RouteEstimate> {
+    const distanceKm = Math.round(haversineKm(pickup, dropoff) * ROAD_FACTOR * 100) / 100;
+    return { distanceKm, durationMin: (distanceKm / FREE_FLOW_SPEED_KMH) * 60 };
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Mapbox Directions (profil driving, sans trafic) — même jeton que la carte du site
+ *   MAPBOX_ACCESS_TOKEN
+ */
+import type { GeoPoint } from '../DriverPricingEngine.js';
+import type { RouteEstimate, RoutingProvider } from './types.js';
+
+const token = () => process.env.MAPBOX_ACCESS_TOKEN || '';
+
+export const MapboxProvider: RoutingProvider = {
+  name: 'mapbox',
+
+  isConfigured() {
+    return !!token();
+  },
+
+  async route(pickup: GeoPoint, dropoff: GeoPoint): Promise<RouteEstimate> {
+    const coords = `${pickup.lng},${pickup.lat};${dropoff.lng},${dropoff.lat}`;
+    const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${coords}?overview=false&access_token=${token()}`;
+    const resp = await fetch(url, { signal: AbortSignal.timeout(4000) });
+    if (!resp.ok) throw new Error(`Mapbox ${resp.status}: ${(await resp.text()).slice(0, 200)}`);
+    const data: any = await resp.json();
+    const route = data?.routes?.[0];
+    if (data?.code !== 'Ok' || !route) throw new Error(`Mapbox: ${data?.code || 'no route'}`);
+    return { distanceKm: route.distance / 1000, durationMin: route.duration / 60 };
+  },
+};
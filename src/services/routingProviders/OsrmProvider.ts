@@ -0,0 +1,28 @@
+/**
+ * OSRM (instance auto-hébergée ou router.project-osrm.org en dev)
+ *   OSRM_URL=https://osrm.example.com
+ */
+import type { GeoPoint } from '../DriverPricingEngine.js';
+import type { RouteEstimate, RoutingProvider } from './types.js';
+
+const baseUrl = () => (process.env.OSRM_URL || '').replace(/\/$/, '');
+
+export const OsrmProvider: RoutingProvider = {
+  name: 'osrm',
+
+  isConfigured() {
+    return !!baseUrl();
+  },
+
+  async route(pickup: GeoPoint, dropoff: GeoPoint): Promise<RouteEstimate> {
+    const coords = `${pickup.lng},${pickup.lat};${dropoff.lng},${dropoff.lat}`;
+    const resp = await fetch(`${baseUrl()}/route/v1/driving/${coords}?overview=false`, {
+      signal: AbortSignal.timeout(4000),
+    });
+    if (!resp.ok) throw new Error(`OSRM ${resp.status}: ${(await resp.text()).slice(0, 200)}`);
+    const data: any = await resp.json();
+    const route = data?.routes?.[0];
+    if (data?.code !== 'Ok' || !route) throw new Error(`OSRM: ${data?.code || 'no route'}`);
+    return { distanceKm: route.distance / 1000, durationMin: route.duration / 60 };
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * Routing Providers — implémentations de RoutingProvider utilisées par TripQuoteService
+ *
+ * ✅ Mapbox Directions — itinéraire routier (jeton de la carte du site)
+ * ✅ OSRM — instance auto-hébergée
+ * ✅ Haversine — repli sans réseau, toujours disponible
+ */
+
+export { MapboxProvider } from './MapboxProvider';
+export { OsrmProvider } from './OsrmProvider';
+export { HaversineProvider } from './HaversineProvider';
+export type { RouteEstimate, RoutingProvider, RoutingProviderName } from './types';
@@ -0,0 +1,20 @@
+/**
+ * Contrat commun des fournisseurs d'itinéraire (TripQuoteService)
+ */
+
+import type { GeoPoint } from '../DriverPricingEngine.js';
+
+export type RoutingProviderName = 'mapbox' | 'osrm' | 'haversine';
+
+/** Trajet routier estimé, sans trafic (durée « fluide ») */
+export interface RouteEstimate {
+  distanceKm: number;
+  durationMin: number;
+}
+
+export interface RoutingProvider {
+  name: RoutingProviderName;
+  isConfigured(): boolean;
+  /** Lève une erreur si le fournisseur ne trouve pas d'itinéraire ou ne répond pas */
+  route(pickup: GeoPoint, dropoff: GeoPoint): Promise<RouteEstimate>;
+}
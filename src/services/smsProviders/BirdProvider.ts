@@ -0,0 +1,68 @@
+/**
+ * Bird (api.bird.com) — canal SMS du workspace
+ * Accusés : webhook "sms.outbound" configuré côté dashboard Bird (pas d'URL par message),
+ * signé avec la clé BIRD_WEBHOOK_SIGNING_KEY : messagebird-signature =
+ * base64(HMAC-SHA256(clé, timestamp + "\n" + URL + "\n" + sha256(corps))).
+ */
+import { createHmac } from 'crypto';
+import { header, safeEqual, sha256 } from './signature.js';
+import type { DeliveryReceipt, OutgoingSms, SmsProvider, SmsSendResult, SmsStatus } from './types.js';
+
+const apiKey = () => process.env.BIRD_API_KEY || process.env.MESSAGEBIRD_API_KEY || '';
+const workspaceId = () => process.env.BIRD_WORKSPACE_ID || 'default';
+const channelId = () => process.env.BIRD_CHANNEL_ID || '';
+const signingKey = () => process.env.BIRD_WEBHOOK_SIGNING_KEY || '';
+
+// Accusé plus vieux que ça = rejoué
+const MAX_SKEW_SEC = 5 * 60;
+
+const STATUS_MAP: Record<string, SmsStatus> = {
+  accepted: 'queued',
+  processing: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  delivery_failed: 'undelivered',
+  failed: 'failed',
+  sending_failed: 'failed',
+};
+
+export const BirdProvider: SmsProvider = {
+  name: 'bird',
+
+  isConfigured() {
+    return !!apiKey() && !!channelId();
+  },
+
+  async send(sms: OutgoingSms): Promise<SmsSendResult> {
+    const resp = await fetch(`https://api.bird.com/workspaces/${workspaceId()}/channels/${channelId()}/messages`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        receiver: { contacts: [{ identifierValue: sms.to, identifierKey: 'phonenumber' }] },
+        body: { type: 'text', text: { text: sms.body } },
+      }),
+    });
+    if (!resp.ok) throw new Error(`Bird ${resp.status}: ${(await resp.text()).slice(0, 200)}`);
+    const data: any = await resp.json().catch(() => ({}));
+    return { providerMessageId: data?.id ?? null };
+  },
+
+  parseReceipt(payload) {
+    const msg = payload?.payload ?? payload;
+    const status = STATUS_MAP[String(msg?.status || '').toLowerCase()];
+    if (!msg?.id || !status) return null;
+    return { providerMessageId: String(msg.id), status, error: msg?.failure?.description ?? null };
+  },
+
+  verifyReceipt(req) {
+    if (!signingKey()) return null;
+    const signature = header(req.headers, 'messagebird-signature');
+    const timestamp = header(req.headers, 'messagebird-request-timestamp');
+    if (!signature || !timestamp) return false;
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SEC) return false;
+
+    const signed = Buffer.concat([Buffer.from(`${timestamp}\n${req.url}\n`), sha256(req.rawBody)]);
+    const expected = createHmac('sha256', signingKey()).update(signed).digest('base64');
+    return safeEqual(signature, expected);
+  },
+};
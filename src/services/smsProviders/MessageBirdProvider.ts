@@ -0,0 +1,78 @@
+/**
+ * MessageBird REST (rest.messagebird.com) — fallback historique, sans canal
+ * Accusés : reportUrl transmis à chaque message (GET/POST id, status, statusErrorCode),
+ * signés par le JWT HS256 MessageBird-Signature-JWT (clé MESSAGEBIRD_SIGNING_KEY) :
+ * url_hash / payload_hash = sha256 hex de l'URL appelée / du corps.
+ */
+import { createHmac } from 'crypto';
+import { header, safeEqual, sha256 } from './signature.js';
+import type { OutgoingSms, SmsProvider, SmsSendResult, SmsStatus } from './types.js';
+
+const apiKey = () => process.env.MESSAGEBIRD_API_KEY || process.env.BIRD_API_KEY || '';
+const signingKey = () => process.env.MESSAGEBIRD_SIGNING_KEY || '';
+
+const STATUS_MAP: Record<string, SmsStatus> = {
+  scheduled: 'queued',
+  buffered: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  expired: 'undelivered',
+  delivery_failed: 'undelivered',
+};
+
+export const MessageBirdProvider: SmsProvider = {
+  name: 'messagebird',
+
+  isConfigured() {
+    return !!apiKey();
+  },
+
+  async send(sms: OutgoingSms): Promise<SmsSendResult> {
+    const resp = await fetch('https://rest.messagebird.com/messages', {
+      method: 'POST',
+      headers: { Authorization: `AccessKey ${apiKey()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        originator: process.env.SMS_ORIGINATOR || 'FOREAS',
+        recipients: [sms.to],
+        body: sms.body,
+        ...(sms.statusCallbackUrl ? { reportUrl: sms.statusCallbackUrl } : {}),
+      }),
+    });
+    if (!resp.ok) throw new Error(`MessageBird ${resp.status}: ${(await resp.text()).slice(0, 200)}`);
+    const data: any = await resp.json().catch(() => ({}));
+    return { providerMessageId: data?.id ?? null };
+  },
+
+  parseReceipt(payload) {
+    const status = STATUS_MAP[String(payload?.status || '').toLowerCase()];
+    if (!payload?.id || !status) return null;
+    return {
+      providerMessageId: String(payload.id),
+      status,
+      error: payload.statusErrorCode ? `MessageBird error ${payload.statusErrorCode}` : null,
+    };
+  },
+
+  verifyReceipt(req) {
+    if (!signingKey()) return null;
+    const [head, body, signature] = header(req.headers, 'messagebird-signature-jwt').split('.');
+    if (!head || !body || !signature) return false;
+
+    const expected = createHmac('sha256', signingKey()).update(`${head}.${body}`).digest('base64url');
+    if (!safeEqual(signature, expected)) return false;
+
+    let claims: Record<string, any>;
+    try {
+      if (JSON.parse(Buffer.from(head, 'base64url').toString()).alg !== 'HS256') return false;
+      claims = JSON.parse(Buffer.from(body, 'base64url').toString());
+    } catch {
+      return false;
+    }
+    const now = Date.now() / 1000;
+    if ((claims.nbf && now < claims.nbf - 1) || (claims.exp && now > claims.exp + 1)) return false;
+    if (claims.url_hash !== sha256(req.url).toString('hex')) return false;
+    // payload_hash présent ssi le corps n'est pas vide
+    const payloadHash = req.rawBody ? sha256(req.rawBody).toString('hex') : undefined;
+    return claims.payload_hash === payloadHash;
+  },
+};
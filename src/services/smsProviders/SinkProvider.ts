@@ -0,0 +1,28 @@
+/**
+ * Sink local (dev) — n'envoie rien : écrit le SMS dans la console ou dans un fichier.
+ *   SMS_SINK=console | file   (SMS_SINK_FILE, défaut ./tmp/sms-outbox.log)
+ */
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { OutgoingSms, SmsProvider, SmsSendResult } from './types.js';
+
+export const SinkProvider: SmsProvider = {
+  name: 'sink',
+
+  isConfigured() {
+    return true;
+  },
+
+  async send(sms: OutgoingSms): Promise<SmsSendResult> {
+    const id = `sink_${randomUUID()}`;
+    if (process.env.SMS_SINK === 'file') {
+      const file = process.env.SMS_SINK_FILE || './tmp/sms-outbox.log';
+      await mkdir(dirname(file), { recursive: true });
+      await appendFile(file, `${new Date().toISOString()} ${id} → ${sms.to}\n${sms.body}\n\n`, 'utf-8');
+    } else {
+      console.log(`[SMS:sink] → ${sms.to}\n${sms.body}`);
+    }
+    return { providerMessageId: id };
+  },
+};
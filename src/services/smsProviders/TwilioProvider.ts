@@ -0,0 +1,72 @@
+/**
+ * Twilio Programmable Messaging — mêmes identifiants que Verify (OTP) et la voix
+ * Expéditeur : TWILIO_MESSAGING_SERVICE_SID (routage pays géré par Twilio) ou TWILIO_SMS_FROM.
+ * Accusés : StatusCallback transmis à chaque message (form-urlencoded), signés
+ * X-Twilio-Signature = base64(HMAC-SHA1(auth token, URL + paramètres triés)).
+ */
+import { createHmac } from 'crypto';
+import { header, safeEqual } from './signature.js';
+import type { OutgoingSms, SmsProvider, SmsSendResult, SmsStatus } from './types.js';
+
+const accountSid = () => process.env.TWILIO_ACCOUNT_SID || '';
+const authToken = () => process.env.TWILIO_AUTH_TOKEN || '';
+const messagingServiceSid = () => process.env.TWILIO_MESSAGING_SERVICE_SID || '';
+const fromNumber = () => process.env.TWILIO_SMS_FROM || '';
+
+const STATUS_MAP: Record<string, SmsStatus> = {
+  accepted: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+};
+
+export const TwilioProvider: SmsProvider = {
+  name: 'twilio',
+
+  isConfigured() {
+    return !!accountSid() && !!authToken() && !!(messagingServiceSid() || fromNumber());
+  },
+
+  async send(sms: OutgoingSms): Promise<SmsSendResult> {
+    const form = new URLSearchParams({ To: sms.to, Body: sms.body });
+    if (messagingServiceSid()) form.set('MessagingServiceSid', messagingServiceSid());
+    else form.set('From', fromNumber());
+    if (sms.statusCallbackUrl) form.set('StatusCallback', sms.statusCallbackUrl);
+
+    const resp = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid()}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Basic ' + Buffer.from(`${accountSid()}:${authToken()}`).toString('base64'),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+    });
+    const data: any = await resp.json().catch(() => ({}));
+    if (!resp.ok) throw new Error(`Twilio ${resp.status}: ${data?.message || 'unknown error'}`);
+    return { providerMessageId: data?.sid ?? null };
+  },
+
+  parseReceipt(payload) {
+    const status = STATUS_MAP[String(payload?.MessageStatus || '').toLowerCase()];
+    if (!payload?.MessageSid || !status) return null;
+    return {
+      providerMessageId: String(payload.MessageSid),
+      status,
+      error: payload.ErrorCode ? `Twilio error ${payload.ErrorCode}` : null,
+    };
+  },
+
+  verifyReceipt(req) {
+    if (!authToken()) return null;
+    const signature = header(req.headers, 'x-twilio-signature');
+    if (!signature) return false;
+    const signed = Object.keys(req.params)
+      .sort()
+      .reduce((acc, key) => acc + key + String(req.params[key] ?? ''), req.url);
+    const expected = createHmac('sha1', authToken()).update(signed, 'utf8').digest('base64');
+    return safeEqual(signature, expected);
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * SMS Providers — implémentations de SmsProvider utilisées par SmsGateway
+ *
+ * ✅ Bird — canal SMS du workspace (historique booking)
+ * ✅ MessageBird REST — fallback sans canal
+ * ✅ Twilio Programmable Messaging — international, accusés par message
+ * ✅ Sink — console / fichier pour le dev
+ */
+
+export { BirdProvider } from './BirdProvider';
+export { MessageBirdProvider } from './MessageBirdProvider';
+export { TwilioProvider } from './TwilioProvider';
+export { SinkProvider } from './SinkProvider';
+export { safeEqual } from './signature';
+export type {
+  DeliveryReceipt,
+  OutgoingSms,
+  ReceiptRequest,
+  SmsProvider,
+  SmsProviderName,
+  SmsSendResult,
+  SmsStatus,
+} from './types';
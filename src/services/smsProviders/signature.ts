@@ -0,0 +1,20 @@
+/**
+ * Vérification des webhooks d'accusés (signatures fournisseurs, jetons)
+ */
+import { createHash, timingSafeEqual } from 'crypto';
+
+/** Comparaison à temps constant (longueurs différentes = faux) */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function sha256(data: string | Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+export function header(headers: Record<string, string | string[] | undefined>, name: string): string {
+  const value = headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
@@ -0,0 +1,48 @@
+/**
+ * Contrat commun des fournisseurs SMS (SmsGateway)
+ */
+
+export type SmsProviderName = 'bird' | 'messagebird' | 'twilio' | 'sink';
+
+/** Statuts du registre sms_messages (ordre = progression) */
+export type SmsStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export interface OutgoingSms {
+  /** E.164 */
+  to: string;
+  body: string;
+  /** URL de rappel des accusés de réception (si le fournisseur la prend par message) */
+  statusCallbackUrl?: string;
+}
+
+export interface SmsSendResult {
+  providerMessageId: string | null;
+}
+
+/** Accusé de réception normalisé */
+export interface DeliveryReceipt {
+  providerMessageId: string;
+  status: SmsStatus;
+  error?: string | null;
+}
+
+/** Webhook d'accusé tel que reçu, pour la vérification de signature */
+export interface ReceiptRequest {
+  /** URL publique appelée par le fournisseur (BACKEND_URL + chemin + query) */
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+  /** Paramètres form-urlencoded (Twilio) */
+  params: Record<string, any>;
+}
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  isConfigured(): boolean;
+  /** Lève une erreur si le fournisseur refuse le message */
+  send(sms: OutgoingSms): Promise<SmsSendResult>;
+  /** Webhook fournisseur → accusé normalisé (null si événement non pertinent) */
+  parseReceipt?(payload: Record<string, any>): DeliveryReceipt | null;
+  /** Signature du webhook : true / false, null si aucun secret de signature configuré */
+  verifyReceipt?(req: ReceiptRequest): boolean | null;
+}
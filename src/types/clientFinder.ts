@@ -219,9 +219,78 @@ export interface VoiceCall {
   analysis_data: any;
   robot_detected_count: number;
   language_detected: string;
+  script_variant_id: string | null;
+  callback_of_call_id: string | null;
+  insights: VoiceCallInsights | null;
+  insights_status: 'pending' | 'done' | 'skipped' | null;
+  interest_level: VoiceInterestLevel | null;
+  decision_maker_reached: boolean | null;
+  callback_at: string | null;
+  compliance_issues: VoiceComplianceIssue[];
   created_at: string;
 }
 
+// ── Analyse des transcripts d'appel (VoiceCallInsightService) ───
+
+export type VoiceInterestLevel = 'none' | 'low' | 'medium' | 'high';
+
+export type VoiceObjectionCategory =
+  | 'OBJECTION_PRICE'
+  | 'OBJECTION_ALREADY_PARTNER'
+  | 'OBJECTION_NOT_NOW'
+  | 'OBJECTION_NO_NEED'
+  | 'OBJECTION_TRUST'
+  | 'OBJECTION_AI_CALLER'
+  | 'OBJECTION_OTHER';
+
+export const ALL_VOICE_OBJECTIONS: VoiceObjectionCategory[] = [
+  'OBJECTION_PRICE',
+  'OBJECTION_ALREADY_PARTNER',
+  'OBJECTION_NOT_NOW',
+  'OBJECTION_NO_NEED',
+  'OBJECTION_TRUST',
+  'OBJECTION_AI_CALLER',
+  'OBJECTION_OTHER',
+];
+
+export type VoiceComplianceIssue =
+  | 'NO_RECORDING_NOTICE'
+  | 'AI_IDENTITY_DENIED'
+  | 'DRIVER_DETAILS_DISCLOSED'
+  | 'PRESSURE_AFTER_REFUSAL'
+  | 'DO_NOT_CALL_REQUESTED'
+  | 'MISLEADING_CLAIM';
+
+export const ALL_VOICE_COMPLIANCE_ISSUES: VoiceComplianceIssue[] = [
+  'NO_RECORDING_NOTICE',
+  'AI_IDENTITY_DENIED',
+  'DRIVER_DETAILS_DISCLOSED',
+  'PRESSURE_AFTER_REFUSAL',
+  'DO_NOT_CALL_REQUESTED',
+  'MISLEADING_CLAIM',
+];
+
+export interface VoiceCallInsights {
+  objections: Array<{ category: VoiceObjectionCategory; excerpt: string | null; resolved: boolean }>;
+  interest_level: VoiceInterestLevel;
+  /** Rappel demandé par le prospect, ISO UTC (null si aucun créneau exploitable) */
+  callback_at: string | null;
+  callback_note: string | null;
+  decision_maker: { reached: boolean; role: string | null };
+  compliance_issues: VoiceComplianceIssue[];
+}
+
+export interface VoiceScriptVariant {
+  id: string;
+  variant_name: string;
+  language: string;
+  prompt_template: string;
+  first_message_template: string;
+  times_used: number;
+  times_converted: number;
+  is_active: boolean;
+}
+
 export interface ObjectionPlaybook {
   id: string;
   objection_category: string;
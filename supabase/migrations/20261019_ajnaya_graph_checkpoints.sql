@@ -0,0 +1,29 @@
+-- =====================================================
+-- MIGRATION : Checkpoints du graphe LangGraph Ajnaya
+-- =====================================================
+-- Dernier AjnayaState de chaque thread de conversation
+-- (session > chauffeur > prospect) pour reprendre un tour avec le
+-- contexte du précédent. Activé par LANGGRAPH_CHECKPOINTER=supabase.
+-- Une ligne par thread : pas d'historique des checkpoints.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.ajnaya_graph_checkpoints (
+  thread_id TEXT NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  parent_checkpoint_id TEXT,
+  checkpoint_type TEXT NOT NULL DEFAULT 'json',
+  checkpoint TEXT NOT NULL,  -- sérialisé par le serde LangGraph (json lisible, sinon base64)
+  metadata_type TEXT NOT NULL DEFAULT 'json',
+  metadata TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (thread_id, checkpoint_ns)
+);
+
+-- Purge des threads inactifs
+CREATE INDEX IF NOT EXISTS idx_ajnaya_graph_checkpoints_updated
+  ON public.ajnaya_graph_checkpoints(updated_at);
+
+-- service_role uniquement (comme les tables pieuvre_)
+ALTER TABLE public.ajnaya_graph_checkpoints ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+-- =====================================================
+-- MIGRATION : Traces d'exécution du graphe LangGraph Ajnaya
+-- =====================================================
+-- Une ligne par tour de conversation : diff de state par agent,
+-- durées, appels LLM, erreurs et requêtes Supabase enregistrées
+-- (rejouables hors ligne, cf. src/lib/langgraph/replay.ts).
+-- Lien avec les messages : pieuvre_conversations.metadata->>'trace_id'.
+-- Lecture admin : GET /api/admin/graph-traces/:sessionId
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.ajnaya_graph_traces (
+  id UUID PRIMARY KEY,
+  session_id TEXT,
+  thread_id TEXT,
+  driver_id TEXT,
+  prospect_id TEXT,
+  channel TEXT,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  routed_agents TEXT[] NOT NULL DEFAULT '{}',
+  error_count INTEGER NOT NULL DEFAULT 0,
+  replay_of UUID,
+  trace JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ajnaya_graph_traces_session
+  ON public.ajnaya_graph_traces(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ajnaya_graph_traces_created
+  ON public.ajnaya_graph_traces(created_at);
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.ajnaya_graph_traces ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,66 @@
+-- =====================================================
+-- MIGRATION : Cycle de vie des alertes Communauté (déclin, confirmations, réputation)
+-- =====================================================
+-- AlertLifecycleService remplace l'expiration fixe par catégorie :
+-- - confiance live = crédibilité (auteur + confirmations / infirmations
+--   pondérées par le score de confiance du votant) × fraîcheur (courbe de
+--   déclin propre à la catégorie depuis la dernière confirmation)
+-- - expire_at / expires_at = instant projeté où la confiance passe sous le
+--   seuil ; balayage POST /api/internal/run-alert-lifecycle toutes les 5 min
+-- - à la clôture : issue confirmed / refuted / faded, réputation de l'auteur
+--   ajustée une seule fois (lifecycle_closed_at)
+-- =====================================================
+
+ALTER TABLE public.communaute_posts
+  ADD COLUMN IF NOT EXISTS live_confidence NUMERIC(4,3),
+  ADD COLUMN IF NOT EXISTS lifecycle_closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lifecycle_outcome TEXT
+    CHECK (lifecycle_outcome IN ('confirmed', 'refuted', 'faded'));
+
+ALTER TABLE public.community_alerts
+  ADD COLUMN IF NOT EXISTS live_confidence NUMERIC(4,3),
+  ADD COLUMN IF NOT EXISTS lifecycle_closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lifecycle_outcome TEXT
+    CHECK (lifecycle_outcome IN ('confirmed', 'refuted', 'faded'));
+
+CREATE INDEX IF NOT EXISTS idx_communaute_posts_lifecycle_open
+  ON public.communaute_posts(created_at)
+  WHERE categorie = 'alerte' AND lifecycle_closed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_community_alerts_lifecycle_open
+  ON public.community_alerts(created_at)
+  WHERE lifecycle_closed_at IS NULL;
+
+-- Alertes déjà expirées : clôturées sans effet rétroactif sur la réputation
+UPDATE public.communaute_posts
+   SET lifecycle_closed_at = NOW(), lifecycle_outcome = 'faded'
+ WHERE categorie = 'alerte' AND lifecycle_closed_at IS NULL
+   AND (expire_at IS NULL OR expire_at < NOW() OR moderation_status <> 'approved');
+
+UPDATE public.community_alerts
+   SET lifecycle_closed_at = NOW(), lifecycle_outcome = 'faded'
+ WHERE lifecycle_closed_at IS NULL AND (is_expired OR expires_at < NOW());
+
+ALTER TABLE public.communaute_confiance
+  ADD COLUMN IF NOT EXISTS nb_alertes_confirmees INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS nb_alertes_infirmees INTEGER NOT NULL DEFAULT 0;
+
+-- Ajustement atomique du score (borné 0-100) et des compteurs d'alertes
+CREATE OR REPLACE FUNCTION public.apply_alert_reputation(p_user_id UUID, p_delta INTEGER, p_outcome TEXT)
+RETURNS INTEGER AS $$
+  INSERT INTO public.communaute_confiance (user_id, score, tier, nb_alertes_confirmees, nb_alertes_infirmees)
+  VALUES (
+    p_user_id,
+    GREATEST(0, LEAST(100, 30 + p_delta)),
+    'nouveau',
+    CASE WHEN p_outcome = 'confirmed' THEN 1 ELSE 0 END,
+    CASE WHEN p_outcome = 'refuted' THEN 1 ELSE 0 END
+  )
+  ON CONFLICT (user_id) DO UPDATE
+     SET score = GREATEST(0, LEAST(100, public.communaute_confiance.score + p_delta)),
+         nb_alertes_confirmees = public.communaute_confiance.nb_alertes_confirmees
+           + CASE WHEN p_outcome = 'confirmed' THEN 1 ELSE 0 END,
+         nb_alertes_infirmees = public.communaute_confiance.nb_alertes_infirmees
+           + CASE WHEN p_outcome = 'refuted' THEN 1 ELSE 0 END
+  RETURNING score;
+$$ LANGUAGE sql;
@@ -0,0 +1,45 @@
+-- =====================================================
+-- MIGRATION : Import Bloctel atomique
+-- =====================================================
+-- importOppositionList (SuppressionService) ajoutait les numéros par lots
+-- puis, en mode `replace`, supprimait les numéros Bloctel absents du fichier
+-- dans un second appel : un lot en échec ou un fichier vide vidait la liste.
+-- import_bloctel_opposition() fait l'ajout et le nettoyage dans une seule
+-- transaction ; un remplacement par une liste vide est refusé. Les imports
+-- concurrents sont sérialisés (verrou transactionnel).
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.import_bloctel_opposition(
+  p_import_id UUID,
+  p_targets TEXT[],
+  p_reason TEXT,
+  p_replace BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_removed INTEGER := 0;
+BEGIN
+  IF p_replace AND COALESCE(array_length(p_targets, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Bloctel replace refused: empty import';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('outreach_suppressions:bloctel'));
+
+  INSERT INTO public.outreach_suppressions (target_kind, target, source, reason, import_id, created_at)
+  SELECT 'phone', t, 'bloctel', p_reason, p_import_id, NOW()
+    FROM (SELECT DISTINCT unnest(p_targets) AS t) targets
+  ON CONFLICT (target_kind, target, source)
+  DO UPDATE SET reason = EXCLUDED.reason,
+                import_id = EXCLUDED.import_id,
+                created_at = EXCLUDED.created_at;
+
+  IF p_replace THEN
+    DELETE FROM public.outreach_suppressions
+     WHERE source = 'bloctel'
+       AND import_id IS DISTINCT FROM p_import_id;
+    GET DIAGNOSTICS v_removed = ROW_COUNT;
+  END IF;
+
+  RETURN v_removed;
+END;
+$$ LANGUAGE plpgsql;
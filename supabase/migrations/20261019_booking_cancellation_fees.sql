@@ -0,0 +1,25 @@
+-- =====================================================
+-- MIGRATION : Frais d'annulation tardive et d'absence client
+-- =====================================================
+-- Politique par chauffeur : driver_calendar_settings.cancellation_policy
+-- (PUT /api/driver/calendar/cancellation-policy).
+-- - POST /api/bookings/:id/no-show : statut 'no_show' + frais d'absence
+-- - annulation client : frais selon la fenêtre d'annulation gratuite
+-- Les frais sont réglés par le job booking.fee_capture (BookingFeeService) :
+-- acompte retenu en priorité, solde prélevé hors session sur la carte
+-- enregistrée avec l'acompte. Trace complète dans audit_logs.
+-- =====================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS fee_kind TEXT CHECK (fee_kind IN ('cancellation', 'no_show')),
+  ADD COLUMN IF NOT EXISTS fee_status TEXT
+    CHECK (fee_status IN ('waived', 'covered_by_deposit', 'charged', 'failed', 'no_card')),
+  ADD COLUMN IF NOT EXISTS fee_payment_intent_id TEXT,
+  ADD COLUMN IF NOT EXISTS fee_charged_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS fee_error TEXT;
+
+-- Frais à relancer par le support (carte refusée / absente)
+CREATE INDEX IF NOT EXISTS idx_bookings_fee_unpaid
+  ON public.bookings(driver_id, scheduled_at DESC)
+  WHERE fee_status IN ('failed', 'no_card');
@@ -0,0 +1,34 @@
+-- =====================================================
+-- MIGRATION : Portail client des réservations directes
+-- =====================================================
+-- Lien signé envoyé au client (email + SMS de confirmation) :
+-- GET /api/booking-portal/:token — suivre, déplacer, annuler,
+-- modifier la note, payer l'acompte.
+-- - driver_calendar_settings.cancellation_policy : règles du chauffeur
+--   (annulation gratuite, frais tardifs, déplacements, % d'acompte),
+--   valeurs par défaut dans CancellationPolicyService si NULL
+-- - bookings : déplacements, annulation client (frais), acompte Stripe
+--   (PaymentIntent créé par /api/driver-site/create-payment-intent,
+--   carte enregistrée pour un prélèvement ultérieur)
+-- =====================================================
+
+ALTER TABLE public.driver_calendar_settings
+  ADD COLUMN IF NOT EXISTS cancellation_policy JSONB;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rescheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS previous_scheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by TEXT CHECK (cancelled_by IN ('client', 'driver', 'support')),
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancellation_fee NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS deposit_amount NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS deposit_payment_intent_id TEXT,
+  ADD COLUMN IF NOT EXISTS deposit_paid_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deposit_refunded_amount NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS stripe_payment_method_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_deposit_pi
+  ON public.bookings(deposit_payment_intent_id)
+  WHERE deposit_payment_intent_id IS NOT NULL;
@@ -0,0 +1,20 @@
+-- =====================================================
+-- MIGRATION : Carte du site chauffeur rattachée aux réservations directes
+-- =====================================================
+-- Deux tables de réservation coexistent :
+--   driver_bookings — formulaire v3 du site chauffeur, payé d'avance
+--     (POST /api/driver-site/booking) : client Stripe + carte enregistrée
+--   bookings        — réservations directes (POST /api/bookings) : portail,
+--     annulation, absence, frais (BookingFeeService)
+-- POST /api/bookings accepte le payment_intent_id du paiement du site : la
+-- réservation pointe vers la driver_booking payée (même site, même téléphone)
+-- et reprend sa carte, prélevée pour les frais d'annulation tardive /
+-- d'absence comme celle de l'acompte. Un paiement ne sert qu'à un aller.
+-- =====================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS driver_booking_id UUID REFERENCES public.driver_bookings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_driver_booking
+  ON public.bookings (driver_booking_id)
+  WHERE driver_booking_id IS NOT NULL;
@@ -0,0 +1,21 @@
+-- =====================================================
+-- MIGRATION : Réservations multi-arrêts et allers-retours liés
+-- =====================================================
+-- - bookings.stops : étapes intermédiaires ordonnées entre départ et
+--   arrivée ([{address, lat, lng}], max 5 — BookingTripService)
+-- - Aller-retour = deux réservations : l'aller (trip_leg 'outbound') et
+--   le retour (trip_leg 'return', outbound_booking_id → l'aller), chacune
+--   avec son créneau, ses rappels et son prix
+-- - Un aller a au plus un retour (index unique)
+-- =====================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS stops JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS trip_leg TEXT NOT NULL DEFAULT 'single'
+    CHECK (trip_leg IN ('single', 'outbound', 'return')),
+  ADD COLUMN IF NOT EXISTS outbound_booking_id UUID
+    REFERENCES public.bookings(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_outbound_booking
+  ON public.bookings(outbound_booking_id)
+  WHERE outbound_booking_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- =====================================================
+-- MIGRATION : Détail du prix des réservations directes
+-- =====================================================
+-- Le prix est recalculé côté serveur par DriverPricingEngine (même moteur
+-- que le devis du widget, POST /api/bookings/quote). On garde le devis
+-- complet : lignes (course / forfait, majoration nuit / dimanche / férié,
+-- options, attente, aller-retour, promo), distance et durée retenues.
+-- driver_sites.pricing suit désormais un schéma unique (version = 2) ;
+-- les anciens formats restent lus et sont convertis à la prochaine écriture.
+-- =====================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS price_breakdown JSONB;
+
+ALTER TABLE public.driver_bookings
+  ADD COLUMN IF NOT EXISTS price_breakdown JSONB;
@@ -0,0 +1,53 @@
+-- =====================================================
+-- MIGRATION : Sous-traitance de courses entre chauffeurs
+-- =====================================================
+-- Un chauffeur qui ne peut pas assurer une réservation directe la propose
+-- à son réseau de confiance (filleuls / parrain, Référents suivis en
+-- Communauté), filtré par agenda libre et catégorie de véhicule
+-- (SubcontractService). Le premier qui accepte prend la course :
+-- bookings.driver_id passe au sous-traitant, original_driver_id garde
+-- l'apporteur. Après la course, la commission d'apporteur est réglée par
+-- Stripe Connect (prélèvement du compte débiteur + transfert).
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.subcontract_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  from_driver_id UUID NOT NULL,
+  recipient_ids UUID[] NOT NULL DEFAULT '{}',
+  finder_fee_percent NUMERIC(5, 2) NOT NULL,
+  finder_fee_amount NUMERIC(10, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'accepted', 'withdrawn', 'expired')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID,
+  accepted_at TIMESTAMPTZ,
+  -- Règlement de la commission (job subcontract.settle)
+  settlement_status TEXT
+    CHECK (settlement_status IN ('paid', 'nothing_due', 'no_account', 'failed')),
+  settlement_amount NUMERIC(10, 2),
+  settlement_payer TEXT CHECK (settlement_payer IN ('subcontractor', 'originator')),
+  settlement_transfer_id TEXT,
+  settlement_error TEXT,
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Une seule offre ouverte par réservation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subcontract_offers_open_booking
+  ON public.subcontract_offers(booking_id)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_subcontract_offers_recipients
+  ON public.subcontract_offers USING gin (recipient_ids);
+
+CREATE INDEX IF NOT EXISTS idx_subcontract_offers_from_driver
+  ON public.subcontract_offers(from_driver_id, created_at DESC);
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS original_driver_id UUID,
+  ADD COLUMN IF NOT EXISTS subcontract_offer_id UUID REFERENCES public.subcontract_offers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS subcontracted_at TIMESTAMPTZ;
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.subcontract_offers ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,13 @@
+-- =====================================================
+-- MIGRATION : Options du devis gardées sur la réservation
+-- =====================================================
+-- Déplacer une réservation depuis le portail client re-calcule le prix à
+-- la nouvelle heure (majoration nuit / dimanche / férié, trafic) : il faut
+-- les options du devis d'origine, absentes des colonnes de bookings.
+-- trip_options = { luggage, childSeats, waitingMin, roundTrip, promoPercent }
+-- (promo première course accordée à la réservation, conservée).
+-- NULL (réservations antérieures) : prix convenu conservé au déplacement.
+-- =====================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS trip_options JSONB;
@@ -0,0 +1,11 @@
+-- =====================================================
+-- MIGRATION : Un paiement du site chauffeur = une réservation
+-- =====================================================
+-- POST /api/driver-site/booking vérifie qu'un PaymentIntent n'est pas déjà
+-- rattaché avant de le relire chez Stripe ; l'index unique couvre deux
+-- réservations envoyées en parallèle avec le même paiement (23505 → 409).
+-- =====================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS driver_bookings_payment_intent_id_key
+  ON public.driver_bookings (payment_intent_id)
+  WHERE payment_intent_id IS NOT NULL;
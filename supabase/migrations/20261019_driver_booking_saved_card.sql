@@ -0,0 +1,14 @@
+-- =====================================================
+-- MIGRATION : Carte enregistrée des réservations payées sur le site chauffeur
+-- =====================================================
+-- POST /api/driver-site/create-payment-intent (slug / montant) enregistre la
+-- carte (setup_future_usage = off_session). POST /api/driver-site/booking
+-- relit le PaymentIntent chez Stripe, crée le client Stripe (un par paiement)
+-- et y rattache le moyen de paiement, comme l'acompte du portail sur
+-- bookings : frais d'annulation / d'absence prélevables (lien bookings →
+-- driver_bookings : 20261019_booking_driver_site_card.sql).
+-- =====================================================
+
+ALTER TABLE public.driver_bookings
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS stripe_payment_method_id TEXT;
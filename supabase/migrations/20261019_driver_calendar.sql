@@ -0,0 +1,73 @@
+-- =====================================================
+-- MIGRATION : Calendrier de disponibilité chauffeur
+-- =====================================================
+-- - driver_availability : horaires hebdomadaires récurrents
+--   (même forme que le modèle Prisma Availability : jour 0-6 dimanche-samedi,
+--   heure début / fin ; fin <= début = plage qui passe minuit)
+-- - driver_blackouts : indisponibilités ponctuelles (congés, rdv...)
+-- - driver_calendar_settings : tampon entre deux courses, délai minimum
+-- - bookings.blocked_until : fin de course + tampon, posée à la création
+--   (DriverCalendarService) ; la contrainte d'exclusion empêche deux
+--   réservations actives qui se chevauchent, même en cas de course concurrente.
+-- Sans horaires hebdomadaires, le chauffeur est considéré disponible
+-- (comportement historique) — seuls blackouts et chevauchements bloquent.
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS public.driver_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID NOT NULL,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (driver_id, day_of_week, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_availability_driver
+  ON public.driver_availability(driver_id);
+
+CREATE TABLE IF NOT EXISTS public.driver_blackouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_blackouts_driver
+  ON public.driver_blackouts(driver_id, ends_at);
+
+CREATE TABLE IF NOT EXISTS public.driver_calendar_settings (
+  driver_id UUID PRIMARY KEY,
+  buffer_min INTEGER NOT NULL DEFAULT 15 CHECK (buffer_min BETWEEN 0 AND 240),
+  min_notice_min INTEGER NOT NULL DEFAULT 30 CHECK (min_notice_min BETWEEN 30 AND 10080),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Réservations : créneau bloqué [scheduled_at, blocked_until)
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS blocked_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_driver_scheduled
+  ON public.bookings(driver_id, scheduled_at);
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    driver_id WITH =,
+    tstzrange(scheduled_at, blocked_until) WITH &&
+  )
+  WHERE (blocked_until IS NOT NULL AND status IN ('pending', 'confirmed', 'reminded_2h', 'reminded_15m'));
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.driver_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_blackouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_calendar_settings ENABLE ROW LEVEL SECURITY;
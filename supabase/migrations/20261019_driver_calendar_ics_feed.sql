@@ -0,0 +1,10 @@
+-- =====================================================
+-- MIGRATION : Flux iCal des réservations chauffeur
+-- =====================================================
+-- Jeton secret de l'URL d'abonnement
+-- GET /api/bookings/calendar/:token.ics (Google / Apple Calendar).
+-- Régénéré via POST /api/driver/calendar/feed/rotate.
+-- =====================================================
+
+ALTER TABLE public.driver_calendar_settings
+  ADD COLUMN IF NOT EXISTS ics_token TEXT UNIQUE;
@@ -0,0 +1,48 @@
+-- =====================================================
+-- MIGRATION : Avis vérifiés — modération, réponses chauffeur, note bayésienne
+-- =====================================================
+-- Un avis = une réservation (jeton signé envoyé dans l'email post-course,
+-- ReviewService). Les textes passent par le job review.moderate avant
+-- publication ; is_published reste la colonne lue par le site.
+-- - driver_reviews : statut de modération du commentaire, réponse publique
+--   du chauffeur (modérée elle aussi)
+-- - driver_sites : note bayésienne + nombre d'avis publiés, recalculés par
+--   recomputeSiteRating() (driver_sites.rating n'est plus une moyenne naïve)
+-- =====================================================
+
+ALTER TABLE public.driver_reviews
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (moderation_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS moderation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS driver_reply TEXT,
+  ADD COLUMN IF NOT EXISTS driver_reply_status TEXT
+    CHECK (driver_reply_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS driver_reply_reason TEXT,
+  ADD COLUMN IF NOT EXISTS driver_replied_at TIMESTAMPTZ;
+
+-- Avis existants gardés privés (v1 : note < 4) : la note seule est publiée —
+-- la note bayésienne intègre toutes les notes vérifiées, bonnes ou mauvaises.
+-- Avec commentaire jamais modéré → en attente, masqué.
+UPDATE public.driver_reviews
+  SET is_published = TRUE
+  WHERE verified = TRUE AND is_published = FALSE
+    AND (comment IS NULL OR btrim(comment) = '');
+
+UPDATE public.driver_reviews
+  SET moderation_status = 'pending'
+  WHERE verified = TRUE AND is_published = FALSE
+    AND comment IS NOT NULL AND btrim(comment) <> '';
+
+-- Un seul avis par réservation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_reviews_booking
+  ON public.driver_reviews(booking_id)
+  WHERE booking_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_driver_reviews_site_published
+  ON public.driver_reviews(site_slug, created_at DESC)
+  WHERE is_published = TRUE AND verified = TRUE;
+
+ALTER TABLE public.driver_sites
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rating_updated_at TIMESTAMPTZ;
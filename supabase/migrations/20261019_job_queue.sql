@@ -0,0 +1,86 @@
+-- =====================================================
+-- MIGRATION : File de jobs persistante (JobQueueService)
+-- =====================================================
+-- Remplace les crons ad hoc (rappels booking, demandes d'avis,
+-- relance J+7, relances Finder, push Expo) par une file unique :
+-- - run_at : exécution différée (rappel 2h avant, relance J+7...)
+-- - attempts / max_attempts : retry avec backoff exponentiel
+-- - status 'dead' : dead-letter, rejouable via /api/internal/jobs/:id/retry
+-- - idempotency_key : un même job n'est jamais planifié deux fois
+-- - claim_jobs() : réservation atomique (FOR UPDATE SKIP LOCKED), un job
+--   'running' dont le worker a disparu est repris après expiration du bail.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.job_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'succeeded', 'dead', 'cancelled')),
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts BETWEEN 1 AND 50),
+  idempotency_key TEXT UNIQUE,
+  last_error TEXT,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_due
+  ON public.job_queue(run_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_running
+  ON public.job_queue(locked_at)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_dead
+  ON public.job_queue(job_type, updated_at DESC)
+  WHERE status = 'dead';
+
+-- Réserve jusqu'à p_limit jobs dus (et reprend les baux expirés)
+CREATE OR REPLACE FUNCTION public.claim_jobs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF public.job_queue AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.job_queue j
+     SET status = 'running',
+         attempts = j.attempts + 1,
+         locked_by = p_worker,
+         locked_at = NOW(),
+         updated_at = NOW()
+   WHERE j.id IN (
+     SELECT id FROM public.job_queue
+      WHERE (status = 'pending' AND run_at <= NOW())
+         OR (status = 'running' AND locked_at < NOW() - make_interval(secs => p_lease_seconds))
+      ORDER BY run_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reprise des rappels encore en attente dans l'ancienne table
+INSERT INTO public.job_queue (job_type, payload, run_at, idempotency_key)
+SELECT 'booking.reminder',
+       jsonb_build_object('booking_id', r.booking_id, 'reminder_type', r.reminder_type),
+       r.scheduled_for,
+       'booking:' || r.booking_id || ':reminder:' || r.reminder_type
+  FROM public.scheduled_reminders r
+ WHERE r.status = 'pending'
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+UPDATE public.scheduled_reminders
+   SET status = 'cancelled', error_message = 'migrated to job_queue'
+ WHERE status = 'pending';
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.job_queue ENABLE ROW LEVEL SECURITY;
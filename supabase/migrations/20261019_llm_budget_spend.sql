@@ -0,0 +1,60 @@
+-- =====================================================
+-- MIGRATION : Dépense LLM agrégée côté base (budgets par chauffeur / global)
+-- =====================================================
+-- checkLLMBudget lisait les lignes brutes d'ai_messages : PostgREST plafonne
+-- à 1000 lignes, la dépense était sous-estimée et les caps ne se déclenchaient
+-- jamais. Les totaux sont désormais sommés par llm_spend_totals().
+--
+-- ai_llm_usage : appels LLM hors conversation (getQuickRecommendation, rerank
+-- RAG) qui n'ont pas de ligne ai_messages mais comptent dans le budget.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.ai_llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('quick_recommendation', 'rerank')),
+  provider TEXT,
+  model TEXT,
+  tokens_input INTEGER NOT NULL DEFAULT 0,
+  tokens_output INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(10, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_llm_usage_driver
+  ON public.ai_llm_usage(driver_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_llm_usage_created
+  ON public.ai_llm_usage(created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_msg_assistant_created
+  ON public.ai_messages(created_at)
+  WHERE role = 'assistant';
+
+-- Dépense jour / mois d'un chauffeur (p_driver_id NULL → dépense globale)
+CREATE OR REPLACE FUNCTION public.llm_spend_totals(
+  p_driver_id UUID,
+  p_day_start TIMESTAMPTZ,
+  p_month_start TIMESTAMPTZ
+)
+RETURNS TABLE (daily_usd NUMERIC, monthly_usd NUMERIC) AS $$
+  WITH spend AS (
+    SELECT m.cost_usd, m.created_at
+      FROM public.ai_messages m
+      JOIN public.ai_conversations c ON c.id = m.conversation_id
+     WHERE m.role = 'assistant'
+       AND m.created_at >= p_month_start
+       AND (p_driver_id IS NULL OR c.driver_id = p_driver_id)
+    UNION ALL
+    SELECT u.cost_usd, u.created_at
+      FROM public.ai_llm_usage u
+     WHERE u.created_at >= p_month_start
+       AND (p_driver_id IS NULL OR u.driver_id = p_driver_id)
+  )
+  SELECT COALESCE(SUM(cost_usd) FILTER (WHERE created_at >= p_day_start), 0),
+         COALESCE(SUM(cost_usd), 0)
+    FROM spend;
+$$ LANGUAGE sql STABLE;
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.ai_llm_usage ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- =====================================================
+-- MIGRATION : ai_llm_usage — source 'review_moderation'
+-- =====================================================
+-- La modération des avis (ReviewModerationService) passe par la couche LLM
+-- et compte dans le budget global : ses appels sont tracés sans chauffeur
+-- (driver_id NULL), sous la source review_moderation.
+-- =====================================================
+
+ALTER TABLE public.ai_llm_usage
+  DROP CONSTRAINT IF EXISTS ai_llm_usage_source_check;
+
+ALTER TABLE public.ai_llm_usage
+  ADD CONSTRAINT ai_llm_usage_source_check
+  CHECK (source IN ('quick_recommendation', 'rerank', 'review_moderation'));
@@ -0,0 +1,13 @@
+-- =====================================================
+-- MIGRATION : ai_llm_usage — source 'voice_insights'
+-- =====================================================
+-- L'analyse des transcripts d'appels (VoiceCallInsightService) passe par la
+-- couche LLM et compte dans le budget global, sans chauffeur (driver_id NULL).
+-- =====================================================
+
+ALTER TABLE public.ai_llm_usage
+  DROP CONSTRAINT IF EXISTS ai_llm_usage_source_check;
+
+ALTER TABLE public.ai_llm_usage
+  ADD CONSTRAINT ai_llm_usage_source_check
+  CHECK (source IN ('quick_recommendation', 'rerank', 'review_moderation', 'voice_insights'));
@@ -0,0 +1,71 @@
+-- =====================================================
+-- MIGRATION : Liste d'opposition unifiée (téléphone + email, Bloctel)
+-- =====================================================
+-- Avant tout appel Ajnaya, SMS de prospection, WhatsApp ou email sortant,
+-- SuppressionService vérifie la cible contre outreach_suppressions :
+-- - numéros de la liste Bloctel (import du fichier retourné par le service)
+-- - désabonnements par lien HMAC (email, SMS, WhatsApp), réponses STOP,
+--   plaintes spam, « ne plus m'appeler » détecté dans un transcript, ajouts manuels
+-- Chaque envoi refusé est tracé dans outreach_blocked_sends (canal, cible, motif).
+-- finder_optout_list (emails uniquement) est reprise puis remplacée.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.outreach_suppression_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL DEFAULT 'bloctel' CHECK (source IN ('bloctel')),
+  filename TEXT,
+  total_lines INTEGER NOT NULL DEFAULT 0,
+  imported INTEGER NOT NULL DEFAULT 0,
+  invalid INTEGER NOT NULL DEFAULT 0,
+  removed INTEGER NOT NULL DEFAULT 0,
+  imported_by UUID,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.outreach_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_kind TEXT NOT NULL CHECK (target_kind IN ('phone', 'email')),
+  -- E.164 pour un numéro, minuscules pour un email
+  target TEXT NOT NULL,
+  source TEXT NOT NULL
+    CHECK (source IN ('bloctel', 'link', 'reply', 'complaint', 'do_not_call', 'manual')),
+  reason TEXT,
+  import_id UUID REFERENCES public.outreach_suppression_imports(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (target_kind, target, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outreach_suppressions_target
+  ON public.outreach_suppressions(target_kind, target);
+
+CREATE TABLE IF NOT EXISTS public.outreach_blocked_sends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel TEXT NOT NULL CHECK (channel IN ('voice', 'sms', 'whatsapp', 'email')),
+  target TEXT NOT NULL,
+  source TEXT,
+  suppression_id UUID REFERENCES public.outreach_suppressions(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  driver_id UUID,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outreach_blocked_sends_target
+  ON public.outreach_blocked_sends(target, created_at DESC);
+
+-- Reprise des désabonnements email existants
+DO $$
+BEGIN
+  IF to_regclass('public.finder_optout_list') IS NOT NULL THEN
+    INSERT INTO public.outreach_suppressions (target_kind, target, source, reason, created_at)
+    SELECT 'email', lower(trim(email)), COALESCE(source, 'manual'), reason, COALESCE(optout_at, NOW())
+    FROM public.finder_optout_list
+    WHERE source IN ('link', 'reply', 'complaint', 'manual')
+    ON CONFLICT (target_kind, target, source) DO NOTHING;
+  END IF;
+END $$;
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.outreach_suppression_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.outreach_suppressions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.outreach_blocked_sends ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,74 @@
+-- =====================================================
+-- MIGRATION : Private Hunter — demandes de chasse client
+-- =====================================================
+-- Un abonné avec Stripe Connect décrit le client qu'il cherche
+-- (famille / type de lieu, zone, créneau). Le service PrivateHunter
+-- le rapproche de places_directory et des prospects ClientFinder
+-- (pieuvre_b2b_hunter_log) ; l'agent hunter du graphe Ajnaya remonte
+-- les correspondances au Stratégiste.
+--
+-- Cycle de vie :
+--   demande     : pending → matched | no_match → booked → confirmed
+--                 (expired / cancelled à tout moment avant confirmation)
+--   correspondance : new → surfaced → contacted → accepted → booked → confirmed
+--                 (declined à tout moment avant confirmation)
+-- Routes : /api/private-hunter (src/routes/privateHunter.ts)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.pieuvre_hunter_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID NOT NULL,
+  target_family TEXT,
+  target_place_types TEXT[] NOT NULL DEFAULT '{}',
+  city TEXT NOT NULL,
+  center_lat DOUBLE PRECISION,
+  center_lng DOUBLE PRECISION,
+  radius_km NUMERIC(6,2) NOT NULL DEFAULT 10,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'matched', 'no_match', 'booked', 'confirmed', 'expired', 'cancelled')),
+  matches_count INTEGER NOT NULL DEFAULT 0,
+  matched_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (window_end > window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pieuvre_hunter_requests_driver
+  ON public.pieuvre_hunter_requests(driver_id, status, window_end);
+
+CREATE TABLE IF NOT EXISTS public.pieuvre_hunter_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.pieuvre_hunter_requests(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('places_directory', 'client_finder')),
+  place_directory_id UUID NOT NULL,
+  hunter_log_id UUID,
+  name TEXT NOT NULL,
+  place_type TEXT,
+  place_type_family TEXT,
+  address TEXT,
+  distance_km NUMERIC(6,2),
+  score INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'surfaced', 'contacted', 'accepted', 'booked', 'confirmed', 'declined')),
+  surfaced_at TIMESTAMPTZ,
+  booking_at TIMESTAMPTZ,
+  booking_amount_eur NUMERIC(10,2),
+  confirmed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (request_id, place_directory_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pieuvre_hunter_matches_request
+  ON public.pieuvre_hunter_matches(request_id, score DESC);
+CREATE INDEX IF NOT EXISTS idx_pieuvre_hunter_matches_driver_status
+  ON public.pieuvre_hunter_matches(driver_id, status);
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.pieuvre_hunter_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pieuvre_hunter_matches ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,20 @@
+-- =====================================================
+-- MIGRATION : Citations RAG sur ai_messages
+-- =====================================================
+-- rag_chunks_used passe de TEXT[] (ids de chunks) à JSONB : tableau de
+-- citations { index, chunk_id, document_id, document_title, section,
+-- source_type, score } pour que le support puisse vérifier d'où vient
+-- une réponse (politique / légal).
+-- Les lignes existantes deviennent un tableau JSON de chunk ids (strings).
+-- =====================================================
+
+ALTER TABLE public.ai_messages
+  ALTER COLUMN rag_chunks_used TYPE JSONB
+  USING CASE WHEN rag_chunks_used IS NULL THEN NULL ELSE to_jsonb(rag_chunks_used) END;
+
+COMMENT ON COLUMN public.ai_messages.rag_chunks_used IS
+  'RAG citations [{index, chunk_id, document_id, document_title, section, source_type, score}] (legacy rows: chunk id strings)';
+
+-- Recherche "quelles réponses ont cité ce chunk ?"
+CREATE INDEX IF NOT EXISTS idx_ai_messages_rag_chunks_used
+  ON public.ai_messages USING GIN (rag_chunks_used jsonb_path_ops);
@@ -0,0 +1,57 @@
+-- =====================================================
+-- MIGRATION : Recherche vectorielle filtrée côté base (source_type / collection)
+-- =====================================================
+-- SupabaseVectorStore filtrait source_type / collection APRÈS un
+-- sur-échantillonnage (limit × 4) de search_documents : une recherche filtrée
+-- sur pgvector rendait moins de résultats que le store en mémoire, voire
+-- aucun. match_document_chunks applique les filtres dans la requête, avant
+-- le LIMIT — même sémantique que VectorFilter (NULL / vide = pas de filtre).
+--
+-- knowledge_only : chunks rattachés à une collection (search_knowledge),
+-- include_learned : inclut les chunks appris des conversations (tier 'learned').
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_collection
+  ON public.document_chunks(collection)
+  WHERE collection IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_active_source_type
+  ON public.documents(source_type)
+  WHERE is_active = true;
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding vector(1536),
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  filter_source_types TEXT[] DEFAULT NULL,
+  filter_collections TEXT[] DEFAULT NULL,
+  knowledge_only BOOLEAN DEFAULT FALSE,
+  include_learned BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_title TEXT,
+  chunk_text TEXT,
+  collection TEXT,
+  similarity FLOAT
+) AS $$
+  SELECT
+    dc.id,
+    dc.document_id,
+    d.title AS document_title,
+    dc.chunk_text,
+    dc.collection,
+    1 - (dc.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  WHERE d.is_active = true
+    AND dc.embedding IS NOT NULL
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    AND (COALESCE(cardinality(filter_source_types), 0) = 0 OR d.source_type::text = ANY(filter_source_types))
+    AND (COALESCE(cardinality(filter_collections), 0) = 0 OR dc.collection = ANY(filter_collections))
+    AND (NOT knowledge_only OR dc.collection IS NOT NULL)
+    AND (include_learned OR dc.tier IS DISTINCT FROM 'learned')
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,42 @@
+-- =====================================================
+-- MIGRATION : Registre des SMS (SmsGateway)
+-- =====================================================
+-- Un enregistrement par SMS : destinataire, usage (rappel 2h, OTP...),
+-- réservation liée, fournisseur retenu après fallback, id fournisseur,
+-- statut mis à jour par les accusés de réception
+-- (POST /api/webhooks/sms/:provider).
+-- Support : GET /api/admin/sms?bookingId=... → « le client a-t-il reçu le rappel 2h ? »
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.sms_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_phone TEXT NOT NULL,
+  country TEXT,
+  body TEXT,
+  purpose TEXT NOT NULL DEFAULT 'other',
+  booking_id UUID,
+  driver_id UUID,
+  provider TEXT,
+  provider_message_id TEXT,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sent', 'delivered', 'undelivered', 'failed')),
+  error TEXT,
+  attempts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status_updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_booking
+  ON public.sms_messages(booking_id, created_at DESC)
+  WHERE booking_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_phone
+  ON public.sms_messages(to_phone, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_messages_provider_id
+  ON public.sms_messages(provider, provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
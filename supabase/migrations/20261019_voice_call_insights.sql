@@ -0,0 +1,79 @@
+-- =====================================================
+-- MIGRATION : Appels Ajnaya — analyse des transcripts, scripts A/B, rappels
+-- =====================================================
+-- Chaque appel terminé (webhook post-call ElevenLabs) passe par le job
+-- voice.insights (VoiceCallInsightService) qui extrait du transcript :
+-- objections, niveau d'intérêt, créneau de rappel demandé, décideur joint,
+-- manquements de conformité.
+-- - finder_voice_calls : colonnes dénormalisées pour le funnel du dashboard
+--   Pieuvre, JSON complet dans insights
+-- - finder_voice_call_objections : une ligne par objection (stats par catégorie)
+-- - finder_voice_script_variants : scripts d'appel tirés par Thompson
+--   sampling, comme finder_email_variants pour les emails
+-- - Rappel demandé → job voice.callback planifié à l'heure dite
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.finder_voice_script_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_name TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'fr',
+  -- Placeholders {{place_name}}, {{place_type}}, {{email_history}},
+  -- {{driver_presentation}}, {{objection_playbook}}
+  prompt_template TEXT NOT NULL,
+  first_message_template TEXT NOT NULL,
+  -- Appels où un interlocuteur a décroché / appels gagnés (converti,
+  -- transféré au chauffeur ou intérêt fort)
+  times_used INTEGER NOT NULL DEFAULT 0,
+  times_converted INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (variant_name, language)
+);
+
+ALTER TABLE public.finder_voice_calls
+  ADD COLUMN IF NOT EXISTS script_variant_id UUID
+    REFERENCES public.finder_voice_script_variants(id) ON DELETE SET NULL,
+  -- Appel d'origine quand celui-ci est un rappel planifié
+  ADD COLUMN IF NOT EXISTS callback_of_call_id UUID
+    REFERENCES public.finder_voice_calls(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS insights JSONB,
+  ADD COLUMN IF NOT EXISTS insights_status TEXT
+    CHECK (insights_status IN ('pending', 'done', 'skipped')),
+  ADD COLUMN IF NOT EXISTS insights_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS interest_level TEXT
+    CHECK (interest_level IN ('none', 'low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS decision_maker_reached BOOLEAN,
+  ADD COLUMN IF NOT EXISTS callback_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS compliance_issues TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_finder_voice_calls_driver_started
+  ON public.finder_voice_calls(driver_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.finder_voice_call_objections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES public.finder_voice_calls(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL,
+  category TEXT NOT NULL,
+  -- Phrase du prospect (courte, sans coordonnées)
+  excerpt TEXT,
+  -- Ajnaya a levé l'objection et l'échange a continué
+  resolved BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (call_id, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_finder_voice_call_objections_driver
+  ON public.finder_voice_call_objections(driver_id, created_at DESC);
+
+-- Compteurs incrémentés atomiquement (repli read + write côté backend)
+CREATE OR REPLACE FUNCTION public.increment_voice_script_stats(p_variant_id UUID, p_converted BOOLEAN)
+RETURNS VOID AS $$
+  UPDATE public.finder_voice_script_variants
+     SET times_used = times_used + 1,
+         times_converted = times_converted + CASE WHEN p_converted THEN 1 ELSE 0 END
+   WHERE id = p_variant_id;
+$$ LANGUAGE sql;
+
+-- Accès backend uniquement (service_role)
+ALTER TABLE public.finder_voice_script_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.finder_voice_call_objections ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- =====================================================
+-- MIGRATION : Planification des appels Ajnaya (plages d'appel, rappels, relances)
+-- =====================================================
+-- Les appels sortants ne partent plus seulement via /api/voice/trigger/:logId :
+-- jobs/voiceCallScheduler pose un job voice.call sur le prochain créneau
+-- autorisé du prospect (CallingWindowService : politique par type de lieu,
+-- heure locale, jours fériés).
+-- - pieuvre_b2b_hunter_log : appel en attente (next_call_at / next_call_reason),
+--   créneau de rappel demandé par le prospect, compteur de non-réponses
+-- - finder_voice_calls.schedule_reason : origine de l'appel
+-- =====================================================
+
+ALTER TABLE public.pieuvre_b2b_hunter_log
+  ADD COLUMN IF NOT EXISTS next_call_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS next_call_reason TEXT
+    CHECK (next_call_reason IN ('first', 'callback', 'retry')),
+  ADD COLUMN IF NOT EXISTS callback_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS no_answer_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_hunter_log_next_call
+  ON public.pieuvre_b2b_hunter_log(driver_id, next_call_at)
+  WHERE next_call_at IS NOT NULL;
+
+ALTER TABLE public.finder_voice_calls
+  ADD COLUMN IF NOT EXISTS schedule_reason TEXT NOT NULL DEFAULT 'manual'
+    CHECK (schedule_reason IN ('manual', 'first', 'callback', 'retry'));